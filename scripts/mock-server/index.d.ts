@@ -0,0 +1,48 @@
+import { Server } from 'http';
+
+export interface MockBackendScenario {
+    delay: number;
+    description: string;
+    failUploads: boolean;
+    interruptUploads: boolean;
+    quote: { [key: string]: unknown } | null;
+    restrictedBrands: string[];
+}
+
+export interface MockBackendRequest {
+    body?: any;
+    /**
+     * The header names are in lowercase, the same as the ones received by a
+     * Node server.
+     */
+    headers?: { [key: string]: string | string[] | undefined };
+    method: string;
+    url: string;
+}
+
+export interface MockBackendResponse {
+    body: any;
+    delay: number;
+    headers: { [key: string]: string };
+    status: number;
+}
+
+export interface MockBackend {
+    scenario: MockBackendScenario;
+    handle(request: MockBackendRequest): MockBackendResponse;
+}
+
+export interface MockBackendOptions {
+    origin?: string;
+}
+
+export interface MockServerOptions {
+    port?: number;
+    scenario?: string;
+}
+
+export const scenarios: { [name: string]: MockBackendScenario };
+
+export function createMockBackend(scenario?: string, options?: MockBackendOptions): MockBackend;
+
+export function startMockServer(options?: MockServerOptions): Promise<Server>;
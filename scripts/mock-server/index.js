@@ -0,0 +1,20 @@
+const { createMockBackend, scenarios } = require('./mock-backend');
+const startMockServer = require('./server');
+
+module.exports = {
+    createMockBackend,
+    scenarios,
+    startMockServer,
+};
+
+if (require.main === module) {
+    const port = Number(process.env.MOCK_SERVER_PORT) || 8081;
+    const scenario = process.env.MOCK_SCENARIO || 'default';
+
+    startMockServer({ port, scenario }).then(() => {
+        /* eslint-disable no-console */
+        console.log(`Mock backend is running at http://localhost:${port}/api/v1 with "${scenario}" scenario.`);
+        console.log(`Available scenarios: ${Object.keys(scenarios).join(', ')}.`);
+        /* eslint-enable no-console */
+    });
+}
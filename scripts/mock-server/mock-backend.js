@@ -0,0 +1,161 @@
+const { parse } = require('url');
+
+const scenarios = require('./scenarios.json');
+
+const API_PATH = '/api/v1';
+const UPLOAD_PATH = '/uploads';
+
+/**
+ * Creates an in-memory stand-in for the store's quote request endpoints. The
+ * same backend is used by the local mock server and by the Jest fixtures, so
+ * both of them behave the same way for a given scenario.
+ */
+function createMockBackend(scenarioName = 'default', { origin = 'http://localhost:8081' } = {}) {
+    const scenario = scenarios[scenarioName];
+
+    if (!scenario) {
+        throw new Error(`Unknown mock backend scenario "${scenarioName}". Available scenarios: ${Object.keys(scenarios).join(', ')}.`);
+    }
+
+    const quotes = {};
+    const uploads = {};
+    let lastQuoteId = 1000;
+
+    function respond(status, body, headers = {}) {
+        return { body, delay: scenario.delay, headers, status };
+    }
+
+    function getQuote(checkoutId) {
+        if (quotes[checkoutId]) {
+            return quotes[checkoutId];
+        }
+
+        if (scenario.quote) {
+            return { ...scenario.quote, checkout_id: checkoutId };
+        }
+    }
+
+    // Stores the chunks of a resumable upload, responding with the range of
+    // bytes received so far until the whole file has been uploaded. Only the
+    // number of bytes is tracked, as the content of the file is not needed.
+    function storeUpload(pathname, contentRange) {
+        // Files uploaded in a single request are stored right away
+        if (!contentRange) {
+            return respond(200, {});
+        }
+
+        const [, start, end, total] = contentRange.match(/^bytes (?:(\d+)-(\d+)|\*)\/(\d+)$/) || [];
+
+        if (total === undefined) {
+            return respond(400, { title: 'Invalid upload', detail: `Invalid content range "${contentRange}"` });
+        }
+
+        const upload = uploads[pathname] = uploads[pathname] || { isInterrupted: false, received: 0 };
+
+        if (start !== undefined && Number(start) === upload.received) {
+            if (scenario.interruptUploads && !upload.isInterrupted) {
+                upload.isInterrupted = true;
+                upload.received += Math.floor((Number(end) - Number(start) + 1) / 2);
+
+                return respond(503, { title: 'Upload interrupted', detail: 'The connection was lost while uploading the file' });
+            }
+
+            upload.received = Number(end) + 1;
+        }
+
+        if (upload.received === Number(total)) {
+            return respond(200, {});
+        }
+
+        return respond(308, {}, upload.received > 0 ? { Range: `bytes=0-${upload.received - 1}` } : {});
+    }
+
+    function handle({ method, url, body, headers = {} }) {
+        const { pathname, query } = parse(url, true);
+        const path = pathname.replace(API_PATH, '');
+
+        if (method === 'GET' && path === '/restricted_brands') {
+            return respond(200, {
+                data: scenario.restrictedBrands.map(name => ({ name })),
+            });
+        }
+
+        if (method === 'GET' && path === '/attachments/presigned_url') {
+            if (!query.filename) {
+                return respond(422, { title: 'Invalid request', detail: 'Filename is required' });
+            }
+
+            const filename = encodeURIComponent(query.filename);
+
+            return respond(200, {
+                presigned_url: `${origin}${UPLOAD_PATH}/${filename}?signature=mock`,
+                public_url: `${origin}${UPLOAD_PATH}/${filename}`,
+            });
+        }
+
+        if (method === 'PUT' && pathname.indexOf(UPLOAD_PATH) === 0) {
+            return scenario.failUploads ?
+                respond(500, { title: 'Upload failed', detail: 'Unable to store the uploaded file' }) :
+                storeUpload(pathname, headers['content-range']);
+        }
+
+        if (method === 'POST' && /^\/orders\/checkout\/[^/]+\/accept$/.test(path)) {
+            const checkoutId = path.split('/')[3];
+            const quote = getQuote(checkoutId);
+
+            if (!quote) {
+                return respond(404, { title: 'Not found', detail: 'No quote has been requested for this checkout' });
+            }
+
+            if (quote.status !== 'priced') {
+                return respond(409, { title: 'Invalid quote', detail: 'Only a priced quote can be accepted' });
+            }
+
+            quotes[checkoutId] = { ...quote, status: 'accepted' };
+
+            return respond(200, { data: quotes[checkoutId] });
+        }
+
+        if (method === 'GET' && path.indexOf('/orders/checkout/') === 0) {
+            const quote = getQuote(path.replace('/orders/checkout/', ''));
+
+            return quote ?
+                respond(200, { data: quote }) :
+                respond(404, { title: 'Not found', detail: 'No quote has been requested for this checkout' });
+        }
+
+        if (method === 'POST' && path === '/orders/checkout') {
+            const { checkoutId, message, public_url, public_urls, quoteType } = body || {};
+
+            if (!checkoutId || !quoteType) {
+                return respond(422, { title: 'Invalid quote', detail: 'Checkout ID and quote type are required' });
+            }
+
+            if (getQuote(checkoutId)) {
+                return respond(409, { title: 'Invalid quote', detail: 'A quote has already been requested for this checkout' });
+            }
+
+            quotes[checkoutId] = {
+                checkout_id: checkoutId,
+                id: ++lastQuoteId,
+                message,
+                price: null,
+                public_url,
+                public_urls,
+                quote_type: quoteType,
+                status: 'pending',
+            };
+
+            return respond(201, { data: quotes[checkoutId] });
+        }
+
+        return respond(404, { title: 'Not found', detail: `No mock response for ${method} ${pathname}` });
+    }
+
+    return { handle, scenario };
+}
+
+module.exports = {
+    createMockBackend,
+    scenarios,
+};
@@ -0,0 +1,68 @@
+const { createServer } = require('http');
+
+const { createMockBackend } = require('./mock-backend');
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Headers': 'Content-Range, Content-Type',
+    'Access-Control-Expose-Headers': 'Range',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+    'Access-Control-Allow-Origin': '*',
+};
+
+function readBody(request) {
+    return new Promise((resolve, reject) => {
+        const chunks = [];
+
+        request.on('data', chunk => chunks.push(chunk));
+        request.on('error', reject);
+        request.on('end', () => {
+            const body = Buffer.concat(chunks);
+
+            if ((request.headers['content-type'] || '').indexOf('application/json') === -1) {
+                return resolve(body);
+            }
+
+            try {
+                resolve(JSON.parse(body.toString() || '{}'));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+function startMockServer({ port = 8081, scenario = 'default' } = {}) {
+    const backend = createMockBackend(scenario, { origin: `http://localhost:${port}` });
+
+    const server = createServer(async (request, response) => {
+        if (request.method === 'OPTIONS') {
+            response.writeHead(204, CORS_HEADERS);
+
+            return response.end();
+        }
+
+        try {
+            const body = await readBody(request);
+            const { delay, headers, status, body: responseBody } = backend.handle({
+                body,
+                headers: request.headers,
+                method: request.method,
+                url: request.url,
+            });
+
+            setTimeout(() => {
+                response.writeHead(status, { ...CORS_HEADERS, ...headers, 'Content-Type': 'application/json' });
+                response.end(JSON.stringify(responseBody));
+            }, delay);
+        } catch (error) {
+            response.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+            response.end(JSON.stringify({ title: 'Invalid request', detail: error.message }));
+        }
+    });
+
+    return new Promise(resolve => {
+        server.listen(port, () => resolve(server));
+    });
+}
+
+module.exports = startMockServer;
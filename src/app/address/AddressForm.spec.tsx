@@ -9,7 +9,11 @@ import { getStoreConfig } from '../config/config.mock';
 import { createLocaleContext, LocaleContext, LocaleContextType } from '../locale';
 import { DynamicFormField } from '../ui/form';
 
-import { getFormFields } from './formField.mock';
+import { AddressAutocompleteContext, AddressAutocompleteFormField, AddressAutocompleteProvider } from './addressAutocomplete';
+import { getAddressFormat, sortAddressFormFields } from './addressFormat';
+import { getAddressFormFields, getFormFields } from './formField.mock';
+import { mapToAddress } from './googleAutocomplete';
+import { getBrazilianPlaceMock, getGermanPlaceMock } from './googleAutocomplete/googleAutocompletePlaces.mock';
 import AddressForm from './AddressForm';
 
 describe('AddressForm Component', () => {
@@ -105,4 +109,76 @@ describe('AddressForm Component', () => {
 
         expect(onChange).toHaveBeenCalledWith('address1', 'foo bar');
     });
+
+    it.each<[string, google.maps.places.PlaceResult, string, string]>([
+        ['DE', getGermanPlaceMock(), 'unter den linden 77', 'Unter den Linden 77'],
+        ['BR', getBrazilianPlaceMock(), 'Av. Paulista, 1578', 'Avenida Paulista, 1578'],
+    ])('fills street formatted for %s when autocomplete place is selected', (countryCode, place, suggestion, street) => {
+        const onChange = jest.fn();
+        const provider: AddressAutocompleteProvider = {
+            getPredictions: jest.fn(),
+            getPlaceDetails: jest.fn(),
+        };
+
+        component = mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <AddressAutocompleteContext.Provider value={ { getAddressAutocompleteProvider: () => provider } }>
+                    <Formik
+                        initialValues={ {} }
+                        onSubmit={ noop }
+                    >
+                        <AddressForm
+                            countriesWithAutocomplete={ [countryCode] }
+                            countryCode={ countryCode }
+                            formFields={ formFields }
+                            onChange={ onChange }
+                        />
+                    </Formik>
+                </AddressAutocompleteContext.Provider>
+            </LocaleContext.Provider>
+        );
+
+        component.find(AddressAutocompleteFormField).prop('onSelect')(
+            mapToAddress(place),
+            { id: '1', label: `${suggestion}, ${countryCode}`, value: suggestion }
+        );
+
+        expect(onChange).toHaveBeenLastCalledWith('address1', street);
+        expect(onChange).not.toHaveBeenCalledWith('address1', suggestion);
+    });
+
+    describe('when country has address format', () => {
+        beforeEach(() => {
+            component = mount(
+                <LocaleContext.Provider value={ localeContext }>
+                    <Formik
+                        initialValues={ {} }
+                        onSubmit={ noop }
+                    >
+                        <AddressForm
+                            countryCode="JP"
+                            formFields={ getAddressFormFields() }
+                        />
+                    </Formik>
+                </LocaleContext.Provider>
+            );
+        });
+
+        it('renders fields in order of format', () => {
+            expect(component.find(DynamicFormField).map(field => field.prop('field').name))
+                .toEqual(sortAddressFormFields(getAddressFormFields(), getAddressFormat('JP')).map(({ name }) => name));
+        });
+
+        it('renders labels of country', () => {
+            expect(component.find('label[htmlFor="provinceInput"]').text())
+                .toContain(localeContext.language.translate('address.prefecture_label'));
+        });
+
+        it('renders fields in same row of format next to each other', () => {
+            expect(component.find('.dynamic-form-field--firstName').hasClass('dynamic-form-field--columns-2'))
+                .toEqual(true);
+            expect(component.find('.dynamic-form-field--addressLine1').hasClass('dynamic-form-field--columns-1'))
+                .toEqual(true);
+        });
+    });
 });
@@ -1,5 +1,6 @@
 import { Address, Country, FormField } from '@bigcommerce/checkout-sdk';
 import { memoize } from '@bigcommerce/memoize';
+import classNames from 'classnames';
 import { forIn, noop } from 'lodash';
 import React, { createRef, Component, ReactNode, RefObject } from 'react';
 
@@ -8,8 +9,9 @@ import { AutocompleteItem } from '../ui/autocomplete';
 import { CheckboxFormField, DynamicFormField, DynamicFormFieldType, Fieldset } from '../ui/form';
 
 import { AddressKeyMap } from './address';
+import { withAddressAutocomplete, AddressAutocompleteFormField, WithAddressAutocompleteProps } from './addressAutocomplete';
+import { getAddressFormat, getAddressFormatFieldLayout, sortAddressFormFields } from './addressFormat';
 import { getAddressFormFieldInputId, getAddressFormFieldLegacyName } from './getAddressFormFieldInputId';
-import { mapToAddress, GoogleAutocompleteFormField } from './googleAutocomplete';
 import './AddressForm.scss';
 
 export interface AddressFormProps {
@@ -62,7 +64,7 @@ const PLACEHOLDER: AddressKeyMap = {
 
 const AUTOCOMPLETE_FIELD_NAME = 'address1';
 
-class AddressForm extends Component<AddressFormProps & WithLanguageProps> {
+class AddressForm extends Component<AddressFormProps & WithLanguageProps & WithAddressAutocompleteProps> {
     private containerRef: RefObject<HTMLElement> = createRef();
     private nextElement?: HTMLElement | null;
 
@@ -82,7 +84,9 @@ class AddressForm extends Component<AddressFormProps & WithLanguageProps> {
         const {
             formFields,
             fieldName,
+            getAddressAutocompleteProvider,
             language,
+            countries,
             countriesWithAutocomplete,
             countryCode,
             googleMapsApiKey,
@@ -90,17 +94,21 @@ class AddressForm extends Component<AddressFormProps & WithLanguageProps> {
             shouldShowSaveAddress,
         } = this.props;
 
+        const autocompleteProvider = getAddressAutocompleteProvider(googleMapsApiKey);
+        const addressFormat = getAddressFormat(countryCode);
+
         return (<>
             <Fieldset>
                 <div className="checkout-address" ref={ this.containerRef as RefObject<HTMLDivElement> }>
-                    { formFields.map(field => {
+                    { sortAddressFormFields(formFields, addressFormat).map(field => {
                         const addressFieldName = field.name;
                         const translatedPlaceholderId = PLACEHOLDER[addressFieldName];
+                        const fieldLayout = !field.custom ? getAddressFormatFieldLayout(addressFieldName, addressFormat) : undefined;
 
-                        if (addressFieldName === 'address1' && googleMapsApiKey && countriesWithAutocomplete) {
+                        if (addressFieldName === 'address1' && autocompleteProvider && countriesWithAutocomplete) {
                             return (
-                                <GoogleAutocompleteFormField
-                                    apiKey={ googleMapsApiKey }
+                                <AddressAutocompleteFormField
+                                    countries={ countries }
                                     countryCode={ countryCode }
                                     field={ field }
                                     key={ field.id }
@@ -109,6 +117,7 @@ class AddressForm extends Component<AddressFormProps & WithLanguageProps> {
                                     onSelect={ this.handleAutocompleteSelect }
                                     onToggleOpen={ onAutocompleteToggle }
                                     parentFieldName={ fieldName }
+                                    provider={ autocompleteProvider }
                                     supportedCountries={ countriesWithAutocomplete }
                                 />
                             );
@@ -117,12 +126,17 @@ class AddressForm extends Component<AddressFormProps & WithLanguageProps> {
                         return (
                             <DynamicFormField
                                 autocomplete={ AUTOCOMPLETE[field.name] }
-                                extraClass={ `dynamic-form-field--${getAddressFormFieldLegacyName(addressFieldName)}` }
+                                extraClass={ classNames(
+                                    `dynamic-form-field--${getAddressFormFieldLegacyName(addressFieldName)}`,
+                                    { [`dynamic-form-field--columns-${fieldLayout && fieldLayout.columns}`]: fieldLayout }
+                                ) }
                                 field={ field }
                                 inputId={ getAddressFormFieldInputId(addressFieldName) }
                                 // stateOrProvince can sometimes be a dropdown or input, so relying on id is not sufficient
                                 key={ `${field.id}-${field.name}` }
-                                label={ field.custom ? field.label : <TranslatedString id={ LABEL[field.name] } /> }
+                                label={ field.custom ?
+                                    field.label :
+                                    <TranslatedString id={ (fieldLayout && fieldLayout.labelId) || LABEL[field.name] } /> }
                                 onChange={ this.handleDynamicFormFieldChange(addressFieldName) }
                                 parentFieldName={ field.custom ?
                                     (fieldName ? `${fieldName}.customFields` : 'customFields') :
@@ -148,24 +162,25 @@ class AddressForm extends Component<AddressFormProps & WithLanguageProps> {
     };
 
     private handleAutocompleteSelect: (
-        place: google.maps.places.PlaceResult,
+        address: Partial<Address>,
         item: AutocompleteItem
-    ) => void = (place, { value: autocompleteValue }) => {
+    ) => void = (address, { value: autocompleteValue }) => {
         const {
-            countries,
             setFieldValue = noop,
             onChange = noop,
         } = this.props;
 
-        const address = mapToAddress(place, countries);
-
         forIn(address, (value, fieldName) => {
             setFieldValue(fieldName, value as string);
             onChange(fieldName, value as string);
         });
 
-        if (autocompleteValue) {
-            this.syncNonFormikValue(AUTOCOMPLETE_FIELD_NAME, autocompleteValue);
+        // The street mapped from the place details is formatted for its
+        // country, so it takes precedence over the text of the suggestion.
+        const street = address.address1 || autocompleteValue;
+
+        if (street) {
+            this.syncNonFormikValue(AUTOCOMPLETE_FIELD_NAME, street);
         }
     };
 
@@ -193,4 +208,4 @@ class AddressForm extends Component<AddressFormProps & WithLanguageProps> {
     };
 }
 
-export default withLanguage(AddressForm);
+export default withAddressAutocomplete(withLanguage(AddressForm));
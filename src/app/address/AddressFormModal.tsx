@@ -1,6 +1,6 @@
-import { Country, FormField } from '@bigcommerce/checkout-sdk';
+import { Address, Country, FormField } from '@bigcommerce/checkout-sdk';
 import { withFormik, FormikProps } from 'formik';
-import React, { FunctionComponent } from 'react';
+import React, { FunctionComponent, ReactNode } from 'react';
 import { lazy } from 'yup';
 
 import { preventDefault } from '../common/dom';
@@ -11,15 +11,17 @@ import { LoadingOverlay } from '../ui/loading';
 import { Modal, ModalHeader } from '../ui/modal';
 
 import getAddressFormFieldsValidationSchema from './getAddressFormFieldsValidationSchema';
-import { AddressFormValues } from './mapAddressToFormValues';
+import mapAddressToFormValues, { AddressFormValues } from './mapAddressToFormValues';
 import AddressForm from './AddressForm';
 
 export interface AddressFormModalProps extends AddressFormProps {
+    heading?: ReactNode;
     isOpen: boolean;
     onAfterOpen?(): void;
 }
 
 export interface AddressFormProps {
+    address?: Address;
     countries?: Country[];
     countriesWithAutocomplete: string[];
     googleMapsApiKey?: string;
@@ -78,34 +80,39 @@ const SaveAddressForm = withLanguage(withFormik<AddressFormProps & WithLanguageP
     handleSubmit: (values, { props: { onSaveAddress } }) => {
         onSaveAddress(values);
     },
-    mapPropsToValues: ({ defaultCountryCode = '' }) => ({
-        firstName: '',
-        lastName: '',
-        address1: '',
-        address2: '',
-        customFields: {},
-        country: '',
-        countryCode: defaultCountryCode,
-        stateOrProvince: '',
-        stateOrProvinceCode: '',
-        postalCode: '',
-        phone: '',
-        city: '',
-        company: '',
-        shouldSaveAddress: false,
-    }),
+    mapPropsToValues: ({ address, defaultCountryCode = '', getFields }) => address ?
+        mapAddressToFormValues(getFields(address.countryCode), address) :
+        ({
+            firstName: '',
+            lastName: '',
+            address1: '',
+            address2: '',
+            customFields: {},
+            country: '',
+            countryCode: defaultCountryCode,
+            stateOrProvince: '',
+            stateOrProvinceCode: '',
+            postalCode: '',
+            phone: '',
+            city: '',
+            company: '',
+            shouldSaveAddress: false,
+        }),
     validationSchema: ({
         language,
         getFields,
     }: AddressFormProps & WithLanguageProps) => (
         lazy<Partial<AddressFormValues>>(values => getAddressFormFieldsValidationSchema({
+            countryCode: values && values.countryCode,
             language,
             formFields: getFields(values && values.countryCode),
+            values,
         }))
     ),
 })(SaveAddress));
 
 const AddressFormModal: FunctionComponent<AddressFormModalProps> = ({
+    heading = <TranslatedString id="address.add_address_heading" />,
     isOpen,
     onAfterOpen,
     onRequestClose,
@@ -115,7 +122,7 @@ const AddressFormModal: FunctionComponent<AddressFormModalProps> = ({
         additionalModalClassName="modal--medium"
         header={
             <ModalHeader>
-                <TranslatedString id="address.add_address_heading" />
+                { heading }
             </ModalHeader>
         }
         isOpen={ isOpen }
@@ -149,4 +149,57 @@ describe('StaticAddress Component', () => {
         expect(container.html())
             .not.toEqual('');
     });
+
+    it('renders address in format of Japan', () => {
+        const container = mount(<StaticAddressTest
+            address={ {
+                ...defaultProps.address,
+                countryCode: 'JP',
+                country: 'Japan',
+                postalCode: '131-0045',
+                stateOrProvince: 'Tokyo',
+                stateOrProvinceCode: '',
+            } }
+        />);
+
+        expect(container.find('.address-entry').map(line => line.text()))
+            .toEqual([
+                'Tester Test',
+                'Bigcommerce',
+                '131-0045',
+                'Tokyo Some City',
+                '12345 Testing Way',
+                'Japan',
+                '555-555-5555',
+            ]);
+    });
+
+    it('renders address in format of United States', () => {
+        const container = mount(<StaticAddressTest { ...defaultProps } />);
+
+        expect(container.find('.address-entry').map(line => line.text()))
+            .toEqual([
+                'Test Tester',
+                'Bigcommerce',
+                '12345 Testing Way',
+                'Some City, CA 95555',
+                'United States',
+                '555-555-5555',
+            ]);
+    });
+
+    it('renders hCard properties of name and postal address', () => {
+        const container = mount(<StaticAddressTest { ...defaultProps } />);
+
+        expect(container.find('p.fn').text())
+            .toEqual('Test Tester');
+        expect(container.find('.adr .street-address').text())
+            .toEqual('12345 Testing Way');
+        expect(container.find('.adr .address-entry').map(line => line.text()))
+            .toEqual([
+                '12345 Testing Way',
+                'Some City, CA 95555',
+                'United States',
+            ]);
+    });
 });
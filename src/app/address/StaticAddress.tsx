@@ -1,9 +1,12 @@
 import { Address, CheckoutSelectors, Country, FormField, ShippingInitializeOptions } from '@bigcommerce/checkout-sdk';
-import { isEmpty } from 'lodash';
-import React, { memo, FunctionComponent } from 'react';
+import classNames from 'classnames';
+import { findIndex, findLastIndex, isEmpty } from 'lodash';
+import React, { memo, FunctionComponent, ReactNode } from 'react';
 
 import { withCheckout, CheckoutContextProps } from '../checkout';
 
+import { AddressKeyMap } from './address';
+import { FormattedAddressLine, FormattedAddressPart } from './addressFormat';
 import isValidAddress from './isValidAddress';
 import localizeAddress from './localizeAddress';
 import AddressType from './AddressType';
@@ -23,6 +26,24 @@ interface WithCheckoutStaticAddressProps {
     fields?: FormField[];
 }
 
+// Class names of hCard properties, i.e.: for styling the address in themes
+const CLASS_NAME: AddressKeyMap = {
+    address1: 'address-line-1',
+    address2: 'address-line-2',
+    city: 'locality',
+    company: 'company-name',
+    country: 'country-name',
+    firstName: 'first-name',
+    lastName: 'family-name',
+    phone: 'tel',
+    postalCode: 'postal-code',
+    stateOrProvince: 'region',
+};
+
+const NAME_FIELDS = ['firstName', 'lastName'];
+const STREET_ADDRESS_FIELDS = ['address1', 'address2'];
+const ADR_FIELDS = [...STREET_ADDRESS_FIELDS, 'city', 'stateOrProvince', 'postalCode', 'country'];
+
 const StaticAddress: FunctionComponent<StaticAddressEditableProps & WithCheckoutStaticAddressProps> = ({
     countries,
     fields,
@@ -34,56 +55,56 @@ const StaticAddress: FunctionComponent<StaticAddressEditableProps & WithCheckout
         fields.filter(field => !field.custom)
     );
 
-    return !isValid ? null : <div className="vcard checkout-address--static">
-        {
-            (address.firstName || address.lastName) &&
-            <p className="fn address-entry">
-                <span className="first-name">{ `${address.firstName} ` }</span>
-                <span className="family-name">{ address.lastName }</span>
-            </p>
-        }
-
-        {
-            (address.phone || address.company) &&
-            <p className="address-entry">
-                <span className="company-name">{ `${address.company} ` }</span>
-                <span className="tel">{ address.phone }</span>
-            </p>
-        }
+    if (!isValid) {
+        return null;
+    }
+
+    // The lines of the postal address are grouped in an `adr` element, as they
+    // are consecutive in the formats of all countries
+    const lines = address.localizedLines;
+    const adrStartIndex = findIndex(lines, line => hasField(line, ADR_FIELDS));
+    const adrEndIndex = findLastIndex(lines, line => hasField(line, ADR_FIELDS)) + 1;
+
+    if (adrStartIndex === -1) {
+        return <div className="vcard checkout-address--static">
+            { lines.map(renderLine) }
+        </div>;
+    }
+
+    return <div className="vcard checkout-address--static">
+        { lines.slice(0, adrStartIndex).map(renderLine) }
 
         <div className="adr">
-            <p className="street-address address-entry">
-                <span className="address-line-1">{ `${address.address1} ` }</span>
-                {
-                    address.address2 &&
-                    <span className="address-line-2">
-                        { ` / ${address.address2 }` }
-                    </span>
-                }
-            </p>
-
-            <p className="address-entry">
-                {
-                    address.city &&
-                    <span className="locality">{ `${address.city}, ` }</span>
-                }
-                {
-                    address.localizedProvince &&
-                    <span className="region">{ `${address.localizedProvince}, ` }</span>
-                }
-                {
-                    address.postalCode &&
-                    <span className="postal-code">{ `${address.postalCode} / ` }</span>
-                }
-                {
-                    address.localizedCountry &&
-                    <span className="country-name">{ `${address.localizedCountry} ` }</span>
-                }
-            </p>
+            { lines.slice(adrStartIndex, adrEndIndex).map(renderLine) }
         </div>
+
+        { lines.slice(adrEndIndex).map(renderLine) }
     </div>;
 };
 
+function hasField(line: FormattedAddressLine, fields: string[]): boolean {
+    return line.some(({ field }) => !!field && fields.includes(field));
+}
+
+function renderLine(line: FormattedAddressLine, lineIndex: number): ReactNode {
+    const className = classNames({
+        fn: hasField(line, NAME_FIELDS),
+        'street-address': hasField(line, STREET_ADDRESS_FIELDS),
+    }, 'address-entry');
+
+    return (
+        <p className={ className } key={ lineIndex }>
+            { line.map(renderPart) }
+        </p>
+    );
+}
+
+function renderPart({ field, value }: FormattedAddressPart, partIndex: number): ReactNode {
+    return field ?
+        <span className={ CLASS_NAME[field] } key={ partIndex }>{ value }</span> :
+        value;
+}
+
 export function mapToStaticAddressProps(
     context: CheckoutContextProps,
     { address, type }: StaticAddressProps
@@ -0,0 +1,98 @@
+import { mount, render, ReactWrapper } from 'enzyme';
+import toJson from 'enzyme-to-json';
+import React from 'react';
+
+import { getAddress } from '../address.mock';
+
+import AddressAutocomplete from './AddressAutocomplete';
+import AddressAutocompleteProvider from './AddressAutocompleteProvider';
+import FixtureAddressAutocompleteProvider from './FixtureAddressAutocompleteProvider';
+
+describe('AddressAutocomplete Component', () => {
+    let provider: AddressAutocompleteProvider;
+
+    beforeEach(() => {
+        provider = new FixtureAddressAutocompleteProvider([getAddress()]);
+    });
+
+    it('renders input with initial value', () => {
+        const tree = render(<AddressAutocomplete initialValue="fo" provider={ provider } />);
+
+        expect(toJson(tree)).toMatchSnapshot();
+    });
+
+    describe('when shopper enters address', () => {
+        let component: ReactWrapper;
+        const onSelect = jest.fn();
+
+        beforeEach(async () => {
+            component = mount(
+                <AddressAutocomplete
+                    countryCode="US"
+                    isAutocompleteEnabled={ true }
+                    onSelect={ onSelect }
+                    provider={ provider }
+                />
+            );
+
+            component.find('input')
+                .simulate('change', { target: { value: '12345' } });
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            component.update();
+        });
+
+        it('renders predictions of provider', () => {
+            expect(component.find('li').length).toEqual(1);
+            expect(component.find('li').text()).toContain('12345 Testing Way');
+        });
+
+        it('passes address of selected prediction to parent', async () => {
+            component.find('li').first()
+                .simulate('click');
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            expect(onSelect).toHaveBeenCalledWith(getAddress(), expect.objectContaining({ id: '0' }));
+        });
+    });
+
+    it('does not request predictions if autocomplete is disabled', async () => {
+        jest.spyOn(provider, 'getPredictions');
+
+        const component = mount(
+            <AddressAutocomplete
+                isAutocompleteEnabled={ false }
+                provider={ provider }
+            />
+        );
+
+        component.find('input')
+            .simulate('change', { target: { value: '12345' } });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(provider.getPredictions).not.toHaveBeenCalled();
+    });
+
+    it('renders attribution of provider', async () => {
+        provider.renderAttribution = () => <div className="attribution" />;
+
+        const component = mount(
+            <AddressAutocomplete
+                isAutocompleteEnabled={ true }
+                provider={ provider }
+            />
+        );
+
+        component.find('input')
+            .simulate('change', { target: { value: '12345' } });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        component.update();
+
+        expect(component.find('.attribution').length).toEqual(1);
+    });
+});
@@ -0,0 +1,148 @@
+import { Address, Country } from '@bigcommerce/checkout-sdk';
+import { noop } from 'lodash';
+import React, { PureComponent, ReactNode } from 'react';
+
+import { Autocomplete, AutocompleteItem } from '../../ui/autocomplete';
+
+import AddressAutocompleteProvider from './AddressAutocompleteProvider';
+
+export interface AddressAutocompleteProps {
+    countries?: Country[];
+    countryCode?: string;
+    initialValue?: string;
+    inputProps?: any;
+    isAutocompleteEnabled?: boolean;
+    nextElement?: HTMLElement;
+    provider: AddressAutocompleteProvider;
+    onSelect?(address: Partial<Address>, item: AutocompleteItem): void;
+    onToggleOpen?(state: { inputValue: string; isOpen: boolean }): void;
+    onChange?(value: string, isOpen: boolean): void;
+}
+
+interface AddressAutocompleteState {
+    items: AutocompleteItem[];
+    autoComplete: string;
+}
+
+class AddressAutocomplete extends PureComponent<AddressAutocompleteProps, AddressAutocompleteState> {
+    state: AddressAutocompleteState = {
+        items: [],
+        autoComplete: 'off',
+    };
+
+    private latestInput?: string;
+
+    render(): ReactNode {
+        const {
+            initialValue,
+            onToggleOpen = noop,
+            inputProps = {},
+            provider,
+        } = this.props;
+
+        const {
+            autoComplete,
+            items,
+        } = this.state;
+
+        return (
+            <Autocomplete
+                initialHighlightedIndex={ 0 }
+                initialValue={ initialValue }
+                inputProps={ {
+                    ...inputProps,
+                    autoComplete,
+                } }
+                items={ items }
+                listTestId="address-autocomplete-suggestions"
+                onChange={ this.onChange }
+                onSelect={ this.onSelect }
+                onToggleOpen={ onToggleOpen }
+            >
+                { provider.renderAttribution && provider.renderAttribution() }
+            </Autocomplete>
+        );
+    }
+
+    private onSelect: (item: AutocompleteItem) => void = async item => {
+        const {
+            countries,
+            onSelect = noop,
+            nextElement,
+            provider,
+        } = this.props;
+
+        let address: Partial<Address>;
+
+        try {
+            address = await provider.getPlaceDetails(item, { countries });
+        } catch (error) {
+            return;
+        }
+
+        if (nextElement) {
+            nextElement.focus();
+        }
+
+        onSelect(address, item);
+    };
+
+    private onChange: (input: string) => void = input => {
+        const {
+            isAutocompleteEnabled,
+            onChange = noop,
+        } = this.props;
+
+        onChange(input, false);
+
+        if (!isAutocompleteEnabled) {
+            return this.resetAutocomplete();
+        }
+
+        this.setAutocomplete(input);
+        this.setItems(input);
+    };
+
+    private async setItems(input: string): Promise<void> {
+        const {
+            countryCode,
+            provider,
+        } = this.props;
+
+        this.latestInput = input;
+
+        if (!input) {
+            this.setState({ items: [] });
+
+            return;
+        }
+
+        try {
+            const items = await provider.getPredictions(input, { countryCode });
+
+            // Ignore predictions of outdated input, which can be resolved
+            // after the predictions of the latest input
+            if (input === this.latestInput) {
+                this.setState({ items });
+            }
+        } catch (error) {
+            this.setState({ items: [] });
+        }
+    }
+
+    private resetAutocomplete(): void {
+        this.setState({
+            items: [],
+            autoComplete: 'off',
+        });
+    }
+
+    private setAutocomplete(input: string): void {
+        this.setState({
+            ...this.state,
+            autoComplete: input && input.length ? 'nope' : 'off',
+        });
+    }
+}
+
+export default AddressAutocomplete;
@@ -0,0 +1,31 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+
+import AddressAutocompleteProviderType from './AddressAutocompleteProviderType';
+
+type AddressAutocompleteConfig =
+    FixtureAddressAutocompleteConfig |
+    GoogleAddressAutocompleteConfig |
+    PostcodeLookupAddressAutocompleteConfig;
+
+export default AddressAutocompleteConfig;
+
+export interface FixtureAddressAutocompleteConfig {
+    type: AddressAutocompleteProviderType.Fixture;
+    addresses: Array<Partial<Address>>;
+}
+
+export interface GoogleAddressAutocompleteConfig {
+    type: AddressAutocompleteProviderType.Google;
+    /**
+     * Defaults to the Google Maps API key configured for the store
+     */
+    apiKey?: string;
+}
+
+export interface PostcodeLookupAddressAutocompleteConfig {
+    type: AddressAutocompleteProviderType.PostcodeLookup;
+    /**
+     * The base URL of the lookup service
+     */
+    url: string;
+}
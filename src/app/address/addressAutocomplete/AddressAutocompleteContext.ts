@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+
+import createAddressAutocompleteProvider from './createAddressAutocompleteProvider';
+import AddressAutocompleteProvider from './AddressAutocompleteProvider';
+
+export interface AddressAutocompleteContextType {
+    getAddressAutocompleteProvider(googleMapsApiKey?: string): AddressAutocompleteProvider | undefined;
+}
+
+// Google is used as the autocomplete provider if there is no provider, i.e.:
+// in tests, as long as the store has a Google Maps API key.
+const AddressAutocompleteContext = createContext<AddressAutocompleteContextType>({
+    getAddressAutocompleteProvider: googleMapsApiKey => createAddressAutocompleteProvider(undefined, googleMapsApiKey),
+});
+
+export default AddressAutocompleteContext;
@@ -1,4 +1,4 @@
-import { FormField as FormFieldType } from '@bigcommerce/checkout-sdk';
+import { Address, Country, FormField as FormFieldType } from '@bigcommerce/checkout-sdk';
 import { FieldProps } from 'formik';
 import React, { memo, useCallback, useMemo, FunctionComponent } from 'react';
 
@@ -7,29 +7,32 @@ import { AutocompleteItem } from '../../ui/autocomplete';
 import { FormField } from '../../ui/form';
 import { getAddressFormFieldInputId } from '../getAddressFormFieldInputId';
 
-import GoogleAutocomplete from './GoogleAutocomplete';
+import AddressAutocomplete from './AddressAutocomplete';
+import AddressAutocompleteProvider from './AddressAutocompleteProvider';
 
-export interface GoogleAutocompleteFormFieldProps {
-    apiKey: string;
-    field: FormFieldType;
+export interface AddressAutocompleteFormFieldProps {
+    countries?: Country[];
     countryCode?: string;
-    supportedCountries: string[];
+    field: FormFieldType;
     nextElement?: HTMLElement;
     parentFieldName?: string;
-    onSelect(place: google.maps.places.PlaceResult, item: AutocompleteItem): void;
+    provider: AddressAutocompleteProvider;
+    supportedCountries: string[];
+    onSelect(address: Partial<Address>, item: AutocompleteItem): void;
     onToggleOpen?(state: { inputValue: string; isOpen: boolean }): void;
     onChange(value: string, isOpen: boolean): void;
 }
 
-const GoogleAutocompleteFormField: FunctionComponent<GoogleAutocompleteFormFieldProps>  = ({
+const AddressAutocompleteFormField: FunctionComponent<AddressAutocompleteFormFieldProps>  = ({
     field: {
         name,
     },
+    countries,
     countryCode,
     supportedCountries,
     parentFieldName,
     nextElement,
-    apiKey,
+    provider,
     onSelect,
     onChange,
     onToggleOpen,
@@ -46,11 +49,9 @@ const GoogleAutocompleteFormField: FunctionComponent<GoogleAutocompleteFormField
     }), [name]);
 
     const renderInput = useCallback(({ field }: FieldProps) => (
-        <GoogleAutocomplete
-            apiKey={ apiKey }
-            componentRestrictions={ countryCode ?
-                { country: countryCode } :
-                undefined }
+        <AddressAutocomplete
+            countries={ countries }
+            countryCode={ countryCode }
             initialValue={ field.value }
             inputProps={ inputProps }
             isAutocompleteEnabled={ countryCode ?
@@ -60,15 +61,17 @@ const GoogleAutocompleteFormField: FunctionComponent<GoogleAutocompleteFormField
             onChange={ onChange }
             onSelect={ onSelect }
             onToggleOpen={ onToggleOpen }
+            provider={ provider }
         />
     ), [
-        apiKey,
+        countries,
         countryCode,
         inputProps,
         nextElement,
         onChange,
         onSelect,
         onToggleOpen,
+        provider,
         supportedCountries,
     ]);
 
@@ -83,4 +86,4 @@ const GoogleAutocompleteFormField: FunctionComponent<GoogleAutocompleteFormField
     );
 };
 
-export default memo(GoogleAutocompleteFormField);
+export default memo(AddressAutocompleteFormField);
@@ -0,0 +1,44 @@
+import { Address, Country } from '@bigcommerce/checkout-sdk';
+import { ReactNode } from 'react';
+
+import { AutocompleteItem } from '../../ui/autocomplete';
+
+export default interface AddressAutocompleteProvider {
+    /**
+     * Returns the addresses matching the text entered by the shopper.
+     *
+     * @param input The text entered by the shopper
+     * @param options Options for restricting the predictions
+     */
+    getPredictions(
+        input: string,
+        options?: AddressAutocompletePredictionOptions
+    ): Promise<AddressAutocompletePrediction[]>;
+
+    /**
+     * Returns the address of a prediction selected by the shopper.
+     *
+     * @param prediction The prediction selected by the shopper
+     * @param options Options for mapping the details to an address
+     */
+    getPlaceDetails(
+        prediction: AddressAutocompletePrediction,
+        options?: AddressAutocompletePlaceDetailsOptions
+    ): Promise<Partial<Address>>;
+
+    /**
+     * Renders the attribution required by the terms of the provider below
+     * the predictions.
+     */
+    renderAttribution?(): ReactNode;
+}
+
+export type AddressAutocompletePrediction = AutocompleteItem;
+
+export interface AddressAutocompletePredictionOptions {
+    countryCode?: string;
+}
+
+export interface AddressAutocompletePlaceDetailsOptions {
+    countries?: Country[];
+}
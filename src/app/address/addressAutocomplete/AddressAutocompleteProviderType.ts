@@ -0,0 +1,7 @@
+enum AddressAutocompleteProviderType {
+    Fixture = 'fixture',
+    Google = 'google',
+    PostcodeLookup = 'postcodeLookup',
+}
+
+export default AddressAutocompleteProviderType;
@@ -0,0 +1,47 @@
+import { getAddress } from '../address.mock';
+
+import FixtureAddressAutocompleteProvider from './FixtureAddressAutocompleteProvider';
+
+describe('FixtureAddressAutocompleteProvider', () => {
+    const otherAddress = {
+        ...getAddress(),
+        address1: '1 Market Street',
+        city: 'Sydney',
+        countryCode: 'AU',
+        postalCode: '2000',
+        stateOrProvinceCode: 'NSW',
+    };
+
+    let provider: FixtureAddressAutocompleteProvider;
+
+    beforeEach(() => {
+        provider = new FixtureAddressAutocompleteProvider([getAddress(), otherAddress]);
+    });
+
+    it('returns addresses matching input', async () => {
+        expect(await provider.getPredictions('testing'))
+            .toEqual([{
+                highlightedSlices: [{ length: 7, offset: 6 }],
+                id: '0',
+                label: '12345 Testing Way, Some City, CA, 95555',
+                value: '12345 Testing Way',
+            }]);
+    });
+
+    it('returns addresses of country', async () => {
+        expect(await provider.getPredictions('1', { countryCode: 'AU' }))
+            .toEqual([expect.objectContaining({ id: '1' })]);
+    });
+
+    it('returns address of prediction', async () => {
+        const [prediction] = await provider.getPredictions('sydney');
+
+        expect(await provider.getPlaceDetails(prediction))
+            .toEqual(otherAddress);
+    });
+
+    it('throws error if prediction is unknown', async () => {
+        await expect(provider.getPlaceDetails({ id: '10', label: '' }))
+            .rejects.toBeInstanceOf(Error);
+    });
+});
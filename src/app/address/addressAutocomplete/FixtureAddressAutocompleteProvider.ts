@@ -0,0 +1,53 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+import { compact } from 'lodash';
+
+import AddressAutocompleteProvider, { AddressAutocompletePrediction, AddressAutocompletePredictionOptions } from './AddressAutocompleteProvider';
+
+/**
+ * Predicts addresses from a fixed list of addresses, without calling any
+ * external service, so autocomplete can be used in tests and during
+ * development.
+ */
+export default class FixtureAddressAutocompleteProvider implements AddressAutocompleteProvider {
+    constructor(
+        private addresses: Array<Partial<Address>>
+    ) {}
+
+    getPredictions(
+        input: string,
+        { countryCode }: AddressAutocompletePredictionOptions = {}
+    ): Promise<AddressAutocompletePrediction[]> {
+        const query = input.trim().toLowerCase();
+
+        return Promise.resolve(
+            this.addresses
+                .map((address, index) => ({ address, id: String(index) }))
+                .filter(({ address }) => !countryCode || address.countryCode === countryCode)
+                .filter(({ address }) => this.getLabel(address).toLowerCase().indexOf(query) > -1)
+                .map(({ address, id }) => {
+                    const label = this.getLabel(address);
+
+                    return {
+                        highlightedSlices: [{ length: query.length, offset: label.toLowerCase().indexOf(query) }],
+                        id,
+                        label,
+                        value: address.address1,
+                    };
+                })
+        );
+    }
+
+    getPlaceDetails({ id }: AddressAutocompletePrediction): Promise<Partial<Address>> {
+        const address = this.addresses[Number(id)];
+
+        if (!address) {
+            return Promise.reject(new Error(`Unable to find address "${id}".`));
+        }
+
+        return Promise.resolve(address);
+    }
+
+    private getLabel({ address1, city, postalCode, stateOrProvinceCode }: Partial<Address>): string {
+        return compact([address1, city, stateOrProvinceCode, postalCode]).join(', ');
+    }
+}
@@ -0,0 +1,64 @@
+import { HttpClient } from '../../common/http';
+
+import PostcodeLookupAddressAutocompleteProvider, { PostcodeLookupResponseBody } from './PostcodeLookupAddressAutocompleteProvider';
+
+describe('PostcodeLookupAddressAutocompleteProvider', () => {
+    let httpClient: HttpClient;
+    let provider: PostcodeLookupAddressAutocompleteProvider;
+    let response: PostcodeLookupResponseBody;
+
+    beforeEach(() => {
+        response = {
+            addresses: [
+                {
+                    id: 'abc',
+                    address1: '10 Downing Street',
+                    city: 'London',
+                    countryCode: 'GB',
+                    postalCode: 'SW1A 2AA',
+                },
+            ],
+        };
+
+        httpClient = new HttpClient({ baseUrl: 'https://lookup.example.com' });
+        provider = new PostcodeLookupAddressAutocompleteProvider(httpClient);
+
+        jest.spyOn(httpClient, 'get').mockResolvedValue(response);
+    });
+
+    it('looks up addresses of postcode', async () => {
+        const predictions = await provider.getPredictions(' SW1A 2AA ', { countryCode: 'GB' });
+
+        expect(httpClient.get).toHaveBeenCalledWith('/addresses', expect.objectContaining({
+            params: { country: 'GB', postcode: 'SW1A 2AA' },
+        }));
+        expect(predictions).toEqual([{
+            id: 'abc',
+            label: '10 Downing Street, London, SW1A 2AA',
+            value: '10 Downing Street',
+        }]);
+    });
+
+    it('does not look up addresses if input is not postcode', async () => {
+        expect(await provider.getPredictions('Downing Street')).toEqual([]);
+        expect(await provider.getPredictions('SW')).toEqual([]);
+        expect(httpClient.get).not.toHaveBeenCalled();
+    });
+
+    it('returns address of prediction', async () => {
+        const [prediction] = await provider.getPredictions('SW1A 2AA');
+
+        expect(await provider.getPlaceDetails(prediction)).toEqual({
+            address1: '10 Downing Street',
+            address2: '',
+            city: 'London',
+            countryCode: 'GB',
+            postalCode: 'SW1A 2AA',
+        });
+    });
+
+    it('throws error if prediction has not been looked up', async () => {
+        await expect(provider.getPlaceDetails({ id: 'abc', label: '' }))
+            .rejects.toBeInstanceOf(Error);
+    });
+});
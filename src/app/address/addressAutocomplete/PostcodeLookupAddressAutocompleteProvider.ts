@@ -0,0 +1,76 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+import { compact, omit } from 'lodash';
+
+import { HttpClient } from '../../common/http';
+
+import AddressAutocompleteProvider, { AddressAutocompletePrediction, AddressAutocompletePredictionOptions } from './AddressAutocompleteProvider';
+
+export interface PostcodeLookupAddress {
+    id: string;
+    address1: string;
+    address2?: string;
+    city: string;
+    countryCode: string;
+    postalCode: string;
+    stateOrProvince?: string;
+    stateOrProvinceCode?: string;
+}
+
+export interface PostcodeLookupResponseBody {
+    addresses: PostcodeLookupAddress[];
+}
+
+const POSTCODE_PATTERN = /^(?=.*\d)[a-z\d][a-z\d -]{2,9}$/i;
+
+/**
+ * Looks up the addresses of a postcode, so the shopper can enter their
+ * postcode and then pick their address, as is common in the UK. Predictions
+ * are only requested once the text entered by the shopper looks like a
+ * postcode.
+ */
+export default class PostcodeLookupAddressAutocompleteProvider implements AddressAutocompleteProvider {
+    private addresses: { [id: string]: PostcodeLookupAddress } = {};
+
+    constructor(
+        private httpClient: HttpClient
+    ) {}
+
+    async getPredictions(
+        input: string,
+        { countryCode }: AddressAutocompletePredictionOptions = {}
+    ): Promise<AddressAutocompletePrediction[]> {
+        const postcode = input.trim();
+
+        if (!POSTCODE_PATTERN.test(postcode)) {
+            return [];
+        }
+
+        const { addresses } = await this.httpClient.get<PostcodeLookupResponseBody>('/addresses', {
+            params: { country: countryCode, postcode },
+            retry: false,
+        });
+
+        return addresses.map(address => {
+            this.addresses[address.id] = address;
+
+            return {
+                id: address.id,
+                label: compact([address.address1, address.address2, address.city, address.postalCode]).join(', '),
+                value: address.address1,
+            };
+        });
+    }
+
+    getPlaceDetails({ id }: AddressAutocompletePrediction): Promise<Partial<Address>> {
+        const address = this.addresses[id];
+
+        if (!address) {
+            return Promise.reject(new Error(`Unable to find address "${id}".`));
+        }
+
+        return Promise.resolve({
+            ...omit(address, 'id'),
+            address2: address.address2 || '',
+        });
+    }
+}
@@ -0,0 +1,31 @@
+import { GoogleAddressAutocompleteProvider } from '../googleAutocomplete';
+
+import createAddressAutocompleteProvider from './createAddressAutocompleteProvider';
+import AddressAutocompleteProviderType from './AddressAutocompleteProviderType';
+import FixtureAddressAutocompleteProvider from './FixtureAddressAutocompleteProvider';
+import PostcodeLookupAddressAutocompleteProvider from './PostcodeLookupAddressAutocompleteProvider';
+
+describe('createAddressAutocompleteProvider()', () => {
+    it('returns Google provider if store has Google Maps API key', () => {
+        expect(createAddressAutocompleteProvider(undefined, 'foobar'))
+            .toBeInstanceOf(GoogleAddressAutocompleteProvider);
+    });
+
+    it('returns nothing if provider is not configured and store has no API key', () => {
+        expect(createAddressAutocompleteProvider(undefined, ''))
+            .toBeUndefined();
+    });
+
+    it('returns configured provider instead of Google provider', () => {
+        expect(createAddressAutocompleteProvider({ type: AddressAutocompleteProviderType.Fixture, addresses: [] }, 'foobar'))
+            .toBeInstanceOf(FixtureAddressAutocompleteProvider);
+
+        expect(createAddressAutocompleteProvider({ type: AddressAutocompleteProviderType.PostcodeLookup, url: '/lookup' }, 'foobar'))
+            .toBeInstanceOf(PostcodeLookupAddressAutocompleteProvider);
+    });
+
+    it('returns same provider for same config', () => {
+        expect(createAddressAutocompleteProvider(undefined, 'foobar'))
+            .toBe(createAddressAutocompleteProvider(undefined, 'foobar'));
+    });
+});
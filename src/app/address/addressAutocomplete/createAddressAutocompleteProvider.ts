@@ -0,0 +1,40 @@
+import { memoize } from '@bigcommerce/memoize';
+
+import { HttpClient } from '../../common/http';
+import { GoogleAddressAutocompleteProvider, GoogleAutocompleteService } from '../googleAutocomplete';
+
+import AddressAutocompleteConfig from './AddressAutocompleteConfig';
+import AddressAutocompleteProvider from './AddressAutocompleteProvider';
+import AddressAutocompleteProviderType from './AddressAutocompleteProviderType';
+import FixtureAddressAutocompleteProvider from './FixtureAddressAutocompleteProvider';
+import PostcodeLookupAddressAutocompleteProvider from './PostcodeLookupAddressAutocompleteProvider';
+
+/**
+ * Returns the autocomplete provider configured for checkout. Google is used
+ * if no provider is configured but the store has a Google Maps API key, and
+ * autocomplete is disabled if neither is available.
+ *
+ * The function is memoized because providers keep track of their loaded
+ * scripts and results, so the same instance should be returned for the same
+ * configuration.
+ */
+export default memoize(function createAddressAutocompleteProvider(
+    config?: AddressAutocompleteConfig,
+    googleMapsApiKey?: string
+): AddressAutocompleteProvider | undefined {
+    if (!config || config.type === AddressAutocompleteProviderType.Google) {
+        const apiKey = (config && config.apiKey) || googleMapsApiKey;
+
+        return apiKey ?
+            new GoogleAddressAutocompleteProvider(new GoogleAutocompleteService(apiKey)) :
+            undefined;
+    }
+
+    switch (config.type) {
+    case AddressAutocompleteProviderType.Fixture:
+        return new FixtureAddressAutocompleteProvider(config.addresses);
+
+    case AddressAutocompleteProviderType.PostcodeLookup:
+        return new PostcodeLookupAddressAutocompleteProvider(new HttpClient({ baseUrl: config.url }));
+    }
+});
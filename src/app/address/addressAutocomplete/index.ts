@@ -0,0 +1,10 @@
+export { default as AddressAutocomplete, AddressAutocompleteProps } from './AddressAutocomplete';
+export { default as AddressAutocompleteConfig, FixtureAddressAutocompleteConfig, GoogleAddressAutocompleteConfig, PostcodeLookupAddressAutocompleteConfig } from './AddressAutocompleteConfig';
+export { default as AddressAutocompleteContext, AddressAutocompleteContextType } from './AddressAutocompleteContext';
+export { default as AddressAutocompleteFormField, AddressAutocompleteFormFieldProps } from './AddressAutocompleteFormField';
+export { default as AddressAutocompleteProvider, AddressAutocompletePlaceDetailsOptions, AddressAutocompletePrediction, AddressAutocompletePredictionOptions } from './AddressAutocompleteProvider';
+export { default as AddressAutocompleteProviderType } from './AddressAutocompleteProviderType';
+export { default as FixtureAddressAutocompleteProvider } from './FixtureAddressAutocompleteProvider';
+export { default as PostcodeLookupAddressAutocompleteProvider, PostcodeLookupAddress, PostcodeLookupResponseBody } from './PostcodeLookupAddressAutocompleteProvider';
+export { default as createAddressAutocompleteProvider } from './createAddressAutocompleteProvider';
+export { default as withAddressAutocomplete, WithAddressAutocompleteProps } from './withAddressAutocomplete';
@@ -0,0 +1,11 @@
+import { createInjectHoc, InjectHoc } from '../../common/hoc';
+
+import AddressAutocompleteContext, { AddressAutocompleteContextType } from './AddressAutocompleteContext';
+
+export type WithAddressAutocompleteProps = AddressAutocompleteContextType;
+
+const withAddressAutocomplete: InjectHoc<WithAddressAutocompleteProps> = createInjectHoc(AddressAutocompleteContext, {
+    displayNamePrefix: 'WithAddressAutocomplete',
+});
+
+export default withAddressAutocomplete;
@@ -0,0 +1,33 @@
+export type AddressFormatField =
+    'firstName' |
+    'lastName' |
+    'company' |
+    'address1' |
+    'address2' |
+    'city' |
+    'stateOrProvince' |
+    'postalCode';
+
+export default interface AddressFormat {
+    /**
+     * The template of the address, similar to the formats of libaddressinput.
+     * Each line is a row of the address form, and fields are written as
+     * `{fieldName}` placeholders separated by the literals displayed between
+     * them, i.e.: `{city}, {stateOrProvince} {postalCode}`.
+     */
+    layout: string;
+
+    /**
+     * The translation keys of the labels that are specific to the country,
+     * i.e.: "Prefecture" instead of "State/Province".
+     */
+    labels?: Partial<Record<AddressFormatField, string>>;
+
+    postalCodePattern?: RegExp;
+
+    /**
+     * Whether the state or province is displayed as its code, i.e.: "NY"
+     * instead of "New York".
+     */
+    isProvinceCodeDisplayed?: boolean;
+}
@@ -0,0 +1,124 @@
+import AddressFormat from './AddressFormat';
+
+export const DEFAULT_ADDRESS_FORMAT: AddressFormat = {
+    layout: [
+        '{firstName} {lastName}',
+        '{company}',
+        '{address1}',
+        '{address2}',
+        '{city}, {stateOrProvince}, {postalCode}',
+    ].join('\n'),
+};
+
+const ADDRESS_FORMATS: { [countryCode: string]: AddressFormat } = {
+    AU: {
+        layout: [
+            '{firstName} {lastName}',
+            '{company}',
+            '{address1}',
+            '{address2}',
+            '{city} {stateOrProvince} {postalCode}',
+        ].join('\n'),
+        labels: {
+            city: 'address.suburb_label',
+            postalCode: 'address.postcode_label',
+        },
+        postalCodePattern: /^\d{4}$/,
+        isProvinceCodeDisplayed: true,
+    },
+    BR: {
+        layout: [
+            '{firstName} {lastName}',
+            '{company}',
+            '{address1}',
+            '{address2}',
+            '{city} - {stateOrProvince}',
+            '{postalCode}',
+        ].join('\n'),
+        postalCodePattern: /^\d{5}-?\d{3}$/,
+        isProvinceCodeDisplayed: true,
+    },
+    CA: {
+        layout: [
+            '{firstName} {lastName}',
+            '{company}',
+            '{address1}',
+            '{address2}',
+            '{city} {stateOrProvince} {postalCode}',
+        ].join('\n'),
+        labels: {
+            stateOrProvince: 'address.province_label',
+        },
+        postalCodePattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i,
+        isProvinceCodeDisplayed: true,
+    },
+    DE: {
+        layout: [
+            '{company}',
+            '{firstName} {lastName}',
+            '{address1}',
+            '{address2}',
+            '{postalCode} {city}',
+            '{stateOrProvince}',
+        ].join('\n'),
+        postalCodePattern: /^\d{5}$/,
+    },
+    FR: {
+        layout: [
+            '{firstName} {lastName}',
+            '{company}',
+            '{address1}',
+            '{address2}',
+            '{postalCode} {city}',
+            '{stateOrProvince}',
+        ].join('\n'),
+        postalCodePattern: /^\d{2} ?\d{3}$/,
+    },
+    GB: {
+        layout: [
+            '{firstName} {lastName}',
+            '{company}',
+            '{address1}',
+            '{address2}',
+            '{city}',
+            '{stateOrProvince}',
+            '{postalCode}',
+        ].join('\n'),
+        labels: {
+            city: 'address.town_label',
+            stateOrProvince: 'address.county_label',
+            postalCode: 'address.postcode_label',
+        },
+        postalCodePattern: /^(GIR ?0AA|[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2})$/i,
+    },
+    JP: {
+        layout: [
+            '{lastName} {firstName}',
+            '{company}',
+            '{postalCode}',
+            '{stateOrProvince} {city}',
+            '{address1}',
+            '{address2}',
+        ].join('\n'),
+        labels: {
+            stateOrProvince: 'address.prefecture_label',
+        },
+        postalCodePattern: /^\d{3}-?\d{4}$/,
+    },
+    US: {
+        layout: [
+            '{firstName} {lastName}',
+            '{company}',
+            '{address1}',
+            '{address2}',
+            '{city}, {stateOrProvince} {postalCode}',
+        ].join('\n'),
+        labels: {
+            postalCode: 'address.zip_code_label',
+        },
+        postalCodePattern: /^\d{5}(-\d{4})?$/,
+        isProvinceCodeDisplayed: true,
+    },
+};
+
+export default ADDRESS_FORMATS;
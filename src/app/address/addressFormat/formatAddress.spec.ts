@@ -0,0 +1,67 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+
+import { LocalizedGeography } from '../../geography';
+import { getAddress } from '../address.mock';
+
+import formatAddress, { FormattedAddressLine } from './formatAddress';
+import getAddressFormat from './getAddressFormat';
+
+describe('formatAddress()', () => {
+    let address: Address & LocalizedGeography;
+
+    beforeEach(() => {
+        address = {
+            ...getAddress(),
+            localizedCountry: 'United States',
+            localizedProvince: 'California',
+        };
+    });
+
+    it('returns lines of address in format of its country', () => {
+        expect(formatAddress(address, getAddressFormat('US')))
+            .toEqual([
+                [{ field: 'firstName', value: 'Test' }, { value: ' ' }, { field: 'lastName', value: 'Tester' }],
+                [{ field: 'company', value: 'Bigcommerce' }],
+                [{ field: 'address1', value: '12345 Testing Way' }],
+                [{ field: 'city', value: 'Some City' }, { value: ', ' }, { field: 'stateOrProvince', value: 'CA' }, { value: ' ' }, { field: 'postalCode', value: '95555' }],
+                [{ field: 'country', value: 'United States' }],
+                [{ field: 'phone', value: '555-555-5555' }],
+            ]);
+    });
+
+    it('displays name of province unless format displays its code', () => {
+        expect(formatAddress(address, getAddressFormat())[3])
+            .toEqual([{ field: 'city', value: 'Some City' }, { value: ', ' }, { field: 'stateOrProvince', value: 'California' }, { value: ', ' }, { field: 'postalCode', value: '95555' }]);
+    });
+
+    it.each<[string, Partial<Address>, FormattedAddressLine]>([
+        ['city', { city: '' }, [{ field: 'stateOrProvince', value: 'CA' }, { value: ' ' }, { field: 'postalCode', value: '95555' }]],
+        ['province', { stateOrProvince: '', stateOrProvinceCode: '' }, [{ field: 'city', value: 'Some City' }, { value: ', ' }, { field: 'postalCode', value: '95555' }]],
+        ['postal code', { postalCode: '' }, [{ field: 'city', value: 'Some City' }, { value: ', ' }, { field: 'stateOrProvince', value: 'CA' }]],
+    ])('omits separators of empty %s', (_, changes, expected) => {
+        const lines = formatAddress({ ...address, localizedProvince: '', ...changes }, getAddressFormat('US'));
+
+        expect(lines[3]).toEqual(expected);
+    });
+
+    it('returns lines in order of format', () => {
+        const lines = formatAddress({
+            ...address,
+            countryCode: 'JP',
+            localizedCountry: 'Japan',
+            localizedProvince: 'Tokyo',
+            postalCode: '131-0045',
+        }, getAddressFormat('JP'));
+
+        expect(lines.map(line => line.map(({ value }) => value).join('')))
+            .toEqual([
+                'Tester Test',
+                'Bigcommerce',
+                '131-0045',
+                'Tokyo Some City',
+                '12345 Testing Way',
+                'Japan',
+                '555-555-5555',
+            ]);
+    });
+});
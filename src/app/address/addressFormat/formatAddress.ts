@@ -0,0 +1,66 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+import { findLastIndex } from 'lodash';
+
+import { LocalizedGeography } from '../../geography';
+
+import parseAddressFormat from './parseAddressFormat';
+import AddressFormat, { AddressFormatField } from './AddressFormat';
+
+export interface FormattedAddressPart {
+    field?: AddressFormatField | 'country' | 'phone';
+    value: string;
+}
+
+export type FormattedAddressLine = FormattedAddressPart[];
+
+/**
+ * Returns the lines of the address as they are written in the country of the
+ * address, followed by the country and the phone number. Empty lines are
+ * omitted, and so are the literals of the layout that would not separate
+ * non-empty fields, i.e.: the comma of `{city}, {stateOrProvince}` if either
+ * of them is empty.
+ */
+export default function formatAddress(
+    address: Address & LocalizedGeography,
+    format: AddressFormat
+): FormattedAddressLine[] {
+    const lines = parseAddressFormat(format).map(tokens => {
+        const values = tokens.map(({ field }) => field ? getFieldValue(address, field, format) : '');
+
+        return tokens.reduce((parts, { field, literal }, index) => {
+            if (field) {
+                return values[index] ? [...parts, { field, value: values[index] }] : parts;
+            }
+
+            const previousFieldIndex = index > 0 ? findLastIndex(tokens, token => !!token.field, index - 1) : -1;
+            const hasPreviousValue = previousFieldIndex !== -1 && !!values[previousFieldIndex];
+            const hasNextValue = values.slice(index + 1).some(Boolean);
+
+            return literal && hasPreviousValue && hasNextValue ?
+                [...parts, { value: literal }] :
+                parts;
+        }, [] as FormattedAddressLine);
+    });
+
+    const countryLine: FormattedAddressLine = address.localizedCountry ?
+        [{ field: 'country', value: address.localizedCountry }] :
+        [];
+    const phoneLine: FormattedAddressLine = address.phone ?
+        [{ field: 'phone', value: address.phone }] :
+        [];
+
+    return [...lines, countryLine, phoneLine]
+        .filter(line => line.length > 0);
+}
+
+function getFieldValue(
+    address: Address & LocalizedGeography,
+    field: AddressFormatField,
+    { isProvinceCodeDisplayed }: AddressFormat
+): string {
+    if (field === 'stateOrProvince') {
+        return (isProvinceCodeDisplayed && address.stateOrProvinceCode) || address.localizedProvince || '';
+    }
+
+    return address[field] || '';
+}
@@ -0,0 +1,6 @@
+import ADDRESS_FORMATS, { DEFAULT_ADDRESS_FORMAT } from './addressFormats';
+import AddressFormat from './AddressFormat';
+
+export default function getAddressFormat(countryCode?: string): AddressFormat {
+    return (countryCode && ADDRESS_FORMATS[countryCode]) || DEFAULT_ADDRESS_FORMAT;
+}
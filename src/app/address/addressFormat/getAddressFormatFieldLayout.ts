@@ -0,0 +1,32 @@
+import getAddressFormatRows from './getAddressFormatRows';
+import AddressFormat from './AddressFormat';
+
+export interface AddressFormatFieldLayout {
+    /**
+     * The number of fields in the same row as the field, including itself.
+     */
+    columns: number;
+    labelId?: string;
+}
+
+/**
+ * Returns the layout of the form field in the format, if the field is part of
+ * it. The state or province can be either a text or a select field, so both
+ * fields share the layout of `stateOrProvince`.
+ */
+export default function getAddressFormatFieldLayout(
+    name: string,
+    format: AddressFormat
+): AddressFormatFieldLayout | undefined {
+    const fieldName = name === 'stateOrProvinceCode' ? 'stateOrProvince' : name;
+    const row = getAddressFormatRows(format).find(fields => fields.some(field => field === fieldName));
+
+    if (!row) {
+        return;
+    }
+
+    return {
+        columns: row.length,
+        labelId: format.labels && format.labels[fieldName as keyof typeof format.labels],
+    };
+}
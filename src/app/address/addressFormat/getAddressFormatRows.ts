@@ -0,0 +1,8 @@
+import parseAddressFormat from './parseAddressFormat';
+import AddressFormat, { AddressFormatField } from './AddressFormat';
+
+export default function getAddressFormatRows(format: AddressFormat): AddressFormatField[][] {
+    return parseAddressFormat(format)
+        .map(tokens => tokens.reduce((fields, { field }) => field ? [...fields, field] : fields, [] as AddressFormatField[]))
+        .filter(fields => fields.length > 0);
+}
@@ -0,0 +1,5 @@
+export { default as AddressFormat, AddressFormatField } from './AddressFormat';
+export { default as formatAddress, FormattedAddressLine, FormattedAddressPart } from './formatAddress';
+export { default as getAddressFormat } from './getAddressFormat';
+export { default as getAddressFormatFieldLayout, AddressFormatFieldLayout } from './getAddressFormatFieldLayout';
+export { default as sortAddressFormFields } from './sortAddressFormFields';
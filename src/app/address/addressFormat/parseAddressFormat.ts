@@ -0,0 +1,27 @@
+import { memoize } from '@bigcommerce/memoize';
+
+import AddressFormat, { AddressFormatField } from './AddressFormat';
+
+export interface AddressFormatToken {
+    field?: AddressFormatField;
+    literal?: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/;
+
+/**
+ * Returns the lines of the layout of the format, each of which is a list of
+ * field and literal tokens in the order they are written.
+ */
+export default memoize(function parseAddressFormat({ layout }: AddressFormat): AddressFormatToken[][] {
+    return layout.split('\n').map(line =>
+        // Splitting by a pattern with a capturing group keeps the field names
+        // at the odd indexes of the result
+        line.split(PLACEHOLDER_PATTERN)
+            .map((part, index) => index % 2 ?
+                { field: part as AddressFormatField } :
+                { literal: part }
+            )
+            .filter(({ field, literal }) => field || literal)
+    );
+});
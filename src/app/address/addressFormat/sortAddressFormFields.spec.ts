@@ -0,0 +1,65 @@
+import { FormField } from '@bigcommerce/checkout-sdk';
+
+import { getAddressFormFields } from '../formField.mock';
+
+import getAddressFormat from './getAddressFormat';
+import sortAddressFormFields from './sortAddressFormFields';
+
+describe('sortAddressFormFields()', () => {
+    let formFields: FormField[];
+
+    beforeEach(() => {
+        formFields = getAddressFormFields();
+    });
+
+    it('sorts fields in order of format', () => {
+        expect(sortAddressFormFields(formFields, getAddressFormat()).map(({ name }) => name))
+            .toEqual([
+                'firstName',
+                'lastName',
+                'company',
+                'address1',
+                'field_25',
+                'field_27',
+                'field_31',
+                'address2',
+                'city',
+                'stateOrProvince',
+                'phone',
+                'stateOrProvinceCode',
+                'postalCode',
+                'country',
+                'countryCode',
+            ]);
+    });
+
+    it('sorts fields in order of format of country', () => {
+        expect(sortAddressFormFields(formFields, getAddressFormat('JP')).map(({ name }) => name))
+            .toEqual([
+                'lastName',
+                'firstName',
+                'company',
+                'postalCode',
+                'field_25',
+                'field_27',
+                'field_31',
+                'stateOrProvince',
+                'stateOrProvinceCode',
+                'city',
+                'phone',
+                'address1',
+                'address2',
+                'country',
+                'countryCode',
+            ]);
+    });
+
+    it('does not move fields that are not part of format', () => {
+        const sortedFields = sortAddressFormFields(formFields, getAddressFormat('JP'));
+
+        ['field_25', 'field_27', 'field_31', 'phone', 'country', 'countryCode'].forEach(name => {
+            expect(sortedFields.findIndex(field => field.name === name))
+                .toEqual(formFields.findIndex(field => field.name === name));
+        });
+    });
+});
@@ -0,0 +1,28 @@
+import { FormField } from '@bigcommerce/checkout-sdk';
+import { flatMap } from 'lodash';
+
+import getAddressFormatRows from './getAddressFormatRows';
+import AddressFormat from './AddressFormat';
+
+/**
+ * Returns the fields in the order of the layout of the format. Only the
+ * fields of the layout are moved, so fields that are not part of it, i.e.:
+ * the country, the phone number or custom fields, keep their position.
+ */
+export default function sortAddressFormFields(
+    formFields: FormField[],
+    format: AddressFormat
+): FormField[] {
+    const order = flatMap(getAddressFormatRows(format), fields => fields)
+        .reduce((names, name) => name === 'stateOrProvince' ?
+            [...names, 'stateOrProvince', 'stateOrProvinceCode'] :
+            [...names, name],
+        [] as string[]);
+
+    const isSortable = ({ custom, name }: FormField) => !custom && order.indexOf(name) !== -1;
+    const sortedFields = formFields
+        .filter(isSortable)
+        .sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+
+    return formFields.map(field => isSortable(field) ? sortedFields.shift() as FormField : field);
+}
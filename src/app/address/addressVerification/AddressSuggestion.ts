@@ -0,0 +1,10 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+
+/**
+ * The address entered by the shopper along with its standardized version,
+ * pending the shopper's decision on which one to use.
+ */
+export default interface AddressSuggestion {
+    address: Address;
+    suggestedAddress: Address;
+}
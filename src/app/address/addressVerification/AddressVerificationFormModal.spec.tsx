@@ -0,0 +1,134 @@
+import { createCheckoutService, CheckoutService } from '@bigcommerce/checkout-sdk';
+import { mount } from 'enzyme';
+import { Formik } from 'formik';
+import React, { FunctionComponent } from 'react';
+import { act } from 'react-dom/test-utils';
+
+import { CheckoutProvider } from '../../checkout';
+import { getStoreConfig } from '../../config/config.mock';
+import { getCountries } from '../../geography/countries.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../../locale';
+import { getAddress } from '../address.mock';
+import { getFormFields } from '../formField.mock';
+import mapAddressToFormValues from '../mapAddressToFormValues';
+
+import AddressVerificationFormModal, { AddressVerificationFormModalProps } from './AddressVerificationFormModal';
+import AddressVerificationModal from './AddressVerificationModal';
+
+describe('AddressVerificationFormModal', () => {
+    let checkoutService: CheckoutService;
+    let localeContext: LocaleContextType;
+    let defaultProps: AddressVerificationFormModalProps;
+    let handleFormSubmit: jest.Mock;
+    let TestComponent: FunctionComponent<Partial<AddressVerificationFormModalProps> & { status?: any }>;
+
+    const address = { ...getAddress(), address1: '12345 Testing Street' };
+    const suggestedAddress = { ...getAddress(), address1: '12345 Testing St' };
+
+    beforeEach(() => {
+        checkoutService = createCheckoutService();
+        localeContext = createLocaleContext(getStoreConfig());
+        handleFormSubmit = jest.fn();
+
+        jest.spyOn(checkoutService.getState().data, 'getConfig').mockReturnValue(getStoreConfig());
+
+        defaultProps = {
+            addressFieldName: 'shippingAddress',
+            countries: getCountries(),
+            countriesWithAutocomplete: [],
+            getFields: jest.fn(() => getFormFields()),
+            onSubmit: jest.fn(),
+        };
+
+        TestComponent = ({ status = { addressSuggestion: { address, suggestedAddress } }, ...props }) => (
+            <CheckoutProvider checkoutService={ checkoutService }>
+                <LocaleContext.Provider value={ localeContext }>
+                    <Formik
+                        initialStatus={ status }
+                        initialValues={ {
+                            orderComment: 'Leave at the door',
+                            shippingAddress: mapAddressToFormValues(getFormFields(), address),
+                        } }
+                        onSubmit={ handleFormSubmit }
+                        render={ renderModal({ ...defaultProps, ...props }) }
+                    />
+                </LocaleContext.Provider>
+            </CheckoutProvider>
+        );
+    });
+
+    function renderModal(props: AddressVerificationFormModalProps) {
+        return () => <AddressVerificationFormModal { ...props } />;
+    }
+
+    it('renders nothing if there is no address suggestion', () => {
+        const component = mount(<TestComponent status={ {} } />);
+
+        expect(component.find(AddressVerificationModal).exists())
+            .toEqual(false);
+    });
+
+    it('renders address suggestion stored in form status', () => {
+        const component = mount(<TestComponent />);
+
+        expect(component.find(AddressVerificationModal).props())
+            .toEqual(expect.objectContaining({ address, suggestedAddress }));
+    });
+
+    it('submits suggested address if shopper accepts it', () => {
+        const component = mount(<TestComponent />);
+
+        component.find('#checkout-address-verification-accept').hostNodes()
+            .simulate('click');
+
+        expect(defaultProps.onSubmit).toHaveBeenCalledWith({
+            orderComment: 'Leave at the door',
+            shippingAddress: expect.objectContaining({ address1: '12345 Testing St' }),
+        });
+        expect(component.update().find(AddressVerificationModal).exists())
+            .toEqual(false);
+    });
+
+    it('merges suggested address into root of form values if field name is not provided', () => {
+        const component = mount(<TestComponent addressFieldName={ undefined } />);
+
+        component.find('#checkout-address-verification-accept').hostNodes()
+            .simulate('click');
+
+        expect(defaultProps.onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+            address1: '12345 Testing St',
+            orderComment: 'Leave at the door',
+        }));
+    });
+
+    it('submits entered address if shopper keeps it', () => {
+        const component = mount(<TestComponent />);
+
+        component.find('#checkout-address-verification-keep').hostNodes()
+            .simulate('click');
+
+        expect(defaultProps.onSubmit).toHaveBeenCalledWith({
+            orderComment: 'Leave at the door',
+            shippingAddress: expect.objectContaining({ address1: '12345 Testing Street' }),
+        });
+    });
+
+    it('submits form again with edited address so it is verified again', async () => {
+        const component = mount(<TestComponent />);
+
+        act(() => {
+            component.find(AddressVerificationModal).prop('onEditAddress')({
+                ...mapAddressToFormValues(getFormFields(), address),
+                address1: '1 Edited Way',
+            });
+        });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(defaultProps.onSubmit).not.toHaveBeenCalled();
+        expect(handleFormSubmit).toHaveBeenCalledWith({
+            orderComment: 'Leave at the door',
+            shippingAddress: expect.objectContaining({ address1: '1 Edited Way' }),
+        }, expect.anything());
+    });
+});
@@ -0,0 +1,96 @@
+import { Address, Country, FormField } from '@bigcommerce/checkout-sdk';
+import { FormikValues } from 'formik';
+import React, { PureComponent, ReactNode } from 'react';
+
+import { connectFormik, ConnectFormikProps } from '../../common/form';
+import mapAddressToFormValues, { AddressFormValues } from '../mapAddressToFormValues';
+
+import AddressSuggestion from './AddressSuggestion';
+import AddressVerificationModal from './AddressVerificationModal';
+
+export interface AddressVerificationFormModalProps {
+    addressFieldName?: string;
+    countries?: Country[];
+    countriesWithAutocomplete: string[];
+    googleMapsApiKey?: string;
+    getFields(countryCode?: string): FormField[];
+    onSubmit(values: FormikValues): void;
+}
+
+/**
+ * Displays the address suggestion stored in the status of the enclosing Formik
+ * form, and submits the form once the shopper has decided which address to
+ * use. The address values are read from and written to `addressFieldName` if
+ * provided, otherwise they are expected at the root of the form values.
+ */
+class AddressVerificationFormModal extends PureComponent<AddressVerificationFormModalProps & ConnectFormikProps<FormikValues>> {
+    render(): ReactNode {
+        const {
+            countries,
+            countriesWithAutocomplete,
+            formik: { status },
+            getFields,
+            googleMapsApiKey,
+        } = this.props;
+
+        const addressSuggestion: AddressSuggestion | undefined = status && status.addressSuggestion;
+
+        if (!addressSuggestion) {
+            return null;
+        }
+
+        return (
+            <AddressVerificationModal
+                address={ addressSuggestion.address }
+                countries={ countries }
+                countriesWithAutocomplete={ countriesWithAutocomplete }
+                getFields={ getFields }
+                googleMapsApiKey={ googleMapsApiKey }
+                isOpen={ true }
+                onAcceptSuggestion={ this.handleAcceptSuggestedAddress }
+                onEditAddress={ this.handleEditSuggestedAddress }
+                onKeepAddress={ this.handleKeepEnteredAddress }
+                suggestedAddress={ addressSuggestion.suggestedAddress }
+            />
+        );
+    }
+
+    private handleAcceptSuggestedAddress: (address: Address) => void = address => {
+        const { getFields, onSubmit, formik: { setStatus, setValues } } = this.props;
+        const updatedValues = this.mergeAddressValues(
+            mapAddressToFormValues(getFields(address.countryCode), address)
+        );
+
+        setStatus({});
+        setValues(updatedValues);
+        onSubmit(updatedValues);
+    };
+
+    private handleKeepEnteredAddress: () => void = () => {
+        const { onSubmit, formik: { setStatus, values } } = this.props;
+
+        setStatus({});
+        onSubmit(values);
+    };
+
+    private handleEditSuggestedAddress: (addressValues: AddressFormValues) => void = addressValues => {
+        const { formik: { setFormikState, submitForm } } = this.props;
+
+        // Submit the form again once Formik has updated its values, so the
+        // edited address is verified again
+        setFormikState({
+            status: {},
+            values: this.mergeAddressValues(addressValues),
+        }, submitForm);
+    };
+
+    private mergeAddressValues(addressValues: AddressFormValues): FormikValues {
+        const { addressFieldName, formik: { values } } = this.props;
+
+        return addressFieldName ?
+            { ...values, [addressFieldName]: addressValues } :
+            { ...values, ...addressValues };
+    }
+}
+
+export default connectFormik(AddressVerificationFormModal);
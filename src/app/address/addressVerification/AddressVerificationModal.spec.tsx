@@ -0,0 +1,108 @@
+import { createCheckoutService, CheckoutService } from '@bigcommerce/checkout-sdk';
+import { mount, ReactWrapper } from 'enzyme';
+import React, { FunctionComponent } from 'react';
+
+import { CheckoutProvider } from '../../checkout';
+import { getStoreConfig } from '../../config/config.mock';
+import { getCountries } from '../../geography/countries.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../../locale';
+import { getAddress } from '../address.mock';
+import { getFormFields } from '../formField.mock';
+import AddressFormModal from '../AddressFormModal';
+import StaticAddress from '../StaticAddress';
+
+import AddressVerificationModal, { AddressVerificationModalProps } from './AddressVerificationModal';
+
+describe('AddressVerificationModal', () => {
+    let checkoutService: CheckoutService;
+    let localeContext: LocaleContextType;
+    let defaultProps: AddressVerificationModalProps;
+    let TestComponent: FunctionComponent<Partial<AddressVerificationModalProps>>;
+
+    beforeEach(() => {
+        checkoutService = createCheckoutService();
+        localeContext = createLocaleContext(getStoreConfig());
+
+        jest.spyOn(checkoutService.getState().data, 'getConfig').mockReturnValue(getStoreConfig());
+
+        defaultProps = {
+            address: { ...getAddress(), address1: '12345 Testing Street' },
+            countries: getCountries(),
+            countriesWithAutocomplete: [],
+            getFields: jest.fn(() => getFormFields()),
+            isOpen: true,
+            onAcceptSuggestion: jest.fn(),
+            onEditAddress: jest.fn(),
+            onKeepAddress: jest.fn(),
+            suggestedAddress: { ...getAddress(), address1: '12345 Testing St' },
+        };
+
+        TestComponent = props => (
+            <CheckoutProvider checkoutService={ checkoutService }>
+                <LocaleContext.Provider value={ localeContext }>
+                    <AddressVerificationModal { ...defaultProps } { ...props } />
+                </LocaleContext.Provider>
+            </CheckoutProvider>
+        );
+    });
+
+    it('renders entered and suggested addresses', () => {
+        const component = mount(<TestComponent />);
+
+        expect(component.find('[data-test="address-verification-entered"]').find(StaticAddress).prop('address'))
+            .toEqual(defaultProps.address);
+        expect(component.find('[data-test="address-verification-suggested"]').find(StaticAddress).prop('address'))
+            .toEqual(defaultProps.suggestedAddress);
+    });
+
+    it('accepts suggested address', () => {
+        const component = mount(<TestComponent />);
+
+        component.find('#checkout-address-verification-accept').hostNodes()
+            .simulate('click');
+
+        expect(defaultProps.onAcceptSuggestion)
+            .toHaveBeenCalledWith(defaultProps.suggestedAddress);
+    });
+
+    it('keeps entered address', () => {
+        const component = mount(<TestComponent />);
+
+        component.find('#checkout-address-verification-keep').hostNodes()
+            .simulate('click');
+
+        expect(defaultProps.onKeepAddress)
+            .toHaveBeenCalledWith(defaultProps.address);
+    });
+
+    describe('when shopper edits address', () => {
+        let component: ReactWrapper;
+
+        beforeEach(() => {
+            component = mount(<TestComponent />);
+
+            component.find('[data-test="address-verification-edit"]')
+                .simulate('click');
+        });
+
+        it('renders address form prefilled with entered address', () => {
+            expect(component.find(AddressFormModal).prop('address'))
+                .toEqual(defaultProps.address);
+            expect(component.find('input#addressLine1Input').prop('value'))
+                .toEqual('12345 Testing Street');
+        });
+
+        it('passes edited address to parent', async () => {
+            component.find('input#addressLine1Input')
+                .simulate('change', { target: { value: '1 Edited Way', name: 'address1' } });
+
+            component.find('form')
+                .simulate('submit');
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            expect(defaultProps.onEditAddress)
+                .toHaveBeenCalledWith(expect.objectContaining({ address1: '1 Edited Way' }));
+        });
+    });
+});
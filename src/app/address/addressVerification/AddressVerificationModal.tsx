@@ -0,0 +1,128 @@
+import { Address, Country, FormField } from '@bigcommerce/checkout-sdk';
+import React, { useCallback, useState, FunctionComponent } from 'react';
+
+import { preventDefault } from '../../common/dom';
+import { TranslatedString } from '../../locale';
+import { Button, ButtonVariant } from '../../ui/button';
+import { Modal, ModalHeader } from '../../ui/modal';
+import { AddressFormValues } from '../mapAddressToFormValues';
+import AddressFormModal from '../AddressFormModal';
+import StaticAddress from '../StaticAddress';
+
+import './AddressVerificationModal.scss';
+
+export interface AddressVerificationModalProps {
+    address: Address;
+    countries?: Country[];
+    countriesWithAutocomplete: string[];
+    googleMapsApiKey?: string;
+    isOpen: boolean;
+    suggestedAddress: Address;
+    getFields(countryCode?: string): FormField[];
+    onAcceptSuggestion(address: Address): void;
+    onEditAddress(values: AddressFormValues): void;
+    onKeepAddress(address: Address): void;
+}
+
+const AddressVerificationModal: FunctionComponent<AddressVerificationModalProps> = ({
+    address,
+    countries,
+    countriesWithAutocomplete,
+    googleMapsApiKey,
+    isOpen,
+    suggestedAddress,
+    getFields,
+    onAcceptSuggestion,
+    onEditAddress,
+    onKeepAddress,
+}) => {
+    const [isEditing, setIsEditing] = useState(false);
+
+    const handleAccept = useCallback(() => onAcceptSuggestion(suggestedAddress), [onAcceptSuggestion, suggestedAddress]);
+    const handleKeep = useCallback(() => onKeepAddress(address), [onKeepAddress, address]);
+    const handleEdit = useCallback(() => setIsEditing(true), []);
+    const handleCancelEdit = useCallback(() => setIsEditing(false), []);
+    const handleSaveAddress = useCallback((values: AddressFormValues) => {
+        setIsEditing(false);
+        onEditAddress(values);
+    }, [onEditAddress]);
+
+    if (isEditing) {
+        return (
+            <AddressFormModal
+                address={ address }
+                countries={ countries }
+                countriesWithAutocomplete={ countriesWithAutocomplete }
+                getFields={ getFields }
+                googleMapsApiKey={ googleMapsApiKey }
+                heading={ <TranslatedString id="address.edit_address_action" /> }
+                isLoading={ false }
+                isOpen={ isOpen }
+                onRequestClose={ handleCancelEdit }
+                onSaveAddress={ handleSaveAddress }
+            />
+        );
+    }
+
+    return (
+        <Modal
+            additionalBodyClassName="modal--withText"
+            additionalModalClassName="modal--medium"
+            header={
+                <ModalHeader>
+                    <TranslatedString id="address.verify_address_heading" />
+                </ModalHeader>
+            }
+            isOpen={ isOpen }
+            onRequestClose={ handleKeep }
+            shouldShowCloseButton={ true }
+        >
+            <p>
+                <TranslatedString id="address.verify_address_text" />
+            </p>
+
+            <div className="addressVerification">
+                <div className="addressVerification-address" data-test="address-verification-entered">
+                    <h4>
+                        <TranslatedString id="address.entered_address_heading" />
+                    </h4>
+                    <StaticAddress address={ address } />
+                    <a
+                        data-test="address-verification-edit"
+                        href="#"
+                        onClick={ preventDefault(handleEdit) }
+                    >
+                        <TranslatedString id="address.edit_address_action" />
+                    </a>
+                </div>
+
+                <div className="addressVerification-address" data-test="address-verification-suggested">
+                    <h4>
+                        <TranslatedString id="address.suggested_address_heading" />
+                    </h4>
+                    <StaticAddress address={ suggestedAddress } />
+                </div>
+            </div>
+
+            <div className="form-actions">
+                <Button
+                    id="checkout-address-verification-accept"
+                    onClick={ handleAccept }
+                    variant={ ButtonVariant.Primary }
+                >
+                    <TranslatedString id="address.use_suggested_address_action" />
+                </Button>
+
+                <Button
+                    id="checkout-address-verification-keep"
+                    onClick={ handleKeep }
+                    variant={ ButtonVariant.Secondary }
+                >
+                    <TranslatedString id="address.keep_original_address_action" />
+                </Button>
+            </div>
+        </Modal>
+    );
+};
+
+export default AddressVerificationModal;
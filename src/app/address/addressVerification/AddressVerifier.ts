@@ -0,0 +1,19 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+
+export default interface AddressVerifier {
+    /**
+     * Verifies the address entered by the shopper, returning a standardized
+     * version of it if the address can be corrected.
+     *
+     * @param address The address entered by the shopper
+     */
+    verify(address: Address): Promise<AddressVerificationResult>;
+}
+
+export interface AddressVerificationResult {
+    /**
+     * The standardized address, which is only returned if it is different
+     * from the address entered by the shopper
+     */
+    suggestedAddress?: Address;
+}
@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+
+import AddressVerifier from './AddressVerifier';
+import NoopAddressVerifier from './NoopAddressVerifier';
+
+export interface AddressVerifierContextType {
+    addressVerifier: AddressVerifier;
+}
+
+// Addresses are submitted without verification if there is no provider, i.e.:
+// in tests.
+const AddressVerifierContext = createContext<AddressVerifierContextType>({
+    addressVerifier: new NoopAddressVerifier(),
+});
+
+export default AddressVerifierContext;
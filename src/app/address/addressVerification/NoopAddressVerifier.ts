@@ -0,0 +1,7 @@
+import AddressVerifier, { AddressVerificationResult } from './AddressVerifier';
+
+export default class NoopAddressVerifier implements AddressVerifier {
+    verify(): Promise<AddressVerificationResult> {
+        return Promise.resolve({});
+    }
+}
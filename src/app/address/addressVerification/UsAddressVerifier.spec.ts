@@ -0,0 +1,68 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+
+import { getAddress } from '../address.mock';
+
+import UsAddressVerifier from './UsAddressVerifier';
+
+describe('UsAddressVerifier', () => {
+    let verifier: UsAddressVerifier;
+
+    beforeEach(() => {
+        verifier = new UsAddressVerifier();
+    });
+
+    it('does not suggest address if address is already standardized', async () => {
+        expect(await verifier.verify(getAddress()))
+            .toEqual({});
+    });
+
+    it('does not verify address outside of US', async () => {
+        expect(await verifier.verify({ ...getAddress(), countryCode: 'AU', postalCode: '2000 ' }))
+            .toEqual({});
+    });
+
+    it.each<[string, Partial<Address>, Partial<Address>]>([
+        [
+            'abbreviates street suffix',
+            { address1: '12345 Testing Street' },
+            { address1: '12345 Testing St' },
+        ],
+        [
+            'abbreviates unit designator',
+            { address2: 'suite 100' },
+            { address2: 'Ste 100' },
+        ],
+        [
+            'removes redundant whitespace',
+            { address1: ' 12345  Testing Way ', city: 'Some  City' },
+            { address1: '12345 Testing Way', city: 'Some City' },
+        ],
+        [
+            'formats ZIP+4 code',
+            { postalCode: '955551234' },
+            { postalCode: '95555-1234' },
+        ],
+        [
+            'corrects state that does not match ZIP code',
+            { postalCode: '10001', stateOrProvince: 'California', stateOrProvinceCode: 'CA' },
+            { postalCode: '10001', stateOrProvince: '', stateOrProvinceCode: 'NY' },
+        ],
+        [
+            'corrects state using exception within ZIP code range',
+            { postalCode: '73301', stateOrProvince: 'Oklahoma', stateOrProvinceCode: 'OK' },
+            { postalCode: '73301', stateOrProvince: '', stateOrProvinceCode: 'TX' },
+        ],
+    ])('%s', async (_, address, expected) => {
+        const { suggestedAddress } = await verifier.verify({ ...getAddress(), ...address });
+
+        expect(suggestedAddress)
+            .toEqual({ ...getAddress(), ...expected });
+    });
+
+    it('does not correct state if ZIP code is invalid', async () => {
+        const { suggestedAddress } = await verifier.verify({ ...getAddress(), postalCode: '955 ' });
+
+        expect(suggestedAddress)
+            .toEqual({ ...getAddress(), postalCode: '955' });
+    });
+});
@@ -0,0 +1,99 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+import { find } from 'lodash';
+
+import isEqualAddress from '../isEqualAddress';
+
+import US_POSTAL_CODE_RANGES from './usPostalCodeRanges';
+import AddressVerifier, { AddressVerificationResult } from './AddressVerifier';
+
+const STREET_SUFFIXES: { [key: string]: string } = {
+    apartment: 'Apt',
+    avenue: 'Ave',
+    boulevard: 'Blvd',
+    circle: 'Cir',
+    court: 'Ct',
+    drive: 'Dr',
+    highway: 'Hwy',
+    lane: 'Ln',
+    parkway: 'Pkwy',
+    place: 'Pl',
+    road: 'Rd',
+    square: 'Sq',
+    street: 'St',
+    suite: 'Ste',
+    terrace: 'Ter',
+};
+
+/**
+ * Verifies US addresses locally, without calling any external service. It
+ * standardizes the format of the street and ZIP code, and corrects the state
+ * if it does not match the ZIP code.
+ */
+export default class UsAddressVerifier implements AddressVerifier {
+    verify(address: Address): Promise<AddressVerificationResult> {
+        if (address.countryCode !== 'US') {
+            return Promise.resolve({});
+        }
+
+        const suggestedAddress = this.standardizeAddress(address);
+
+        return Promise.resolve(
+            isEqualAddress(address, suggestedAddress) ? {} : { suggestedAddress }
+        );
+    }
+
+    private standardizeAddress(address: Address): Address {
+        const postalCode = this.standardizePostalCode(address.postalCode);
+        const stateOrProvinceCode = address.stateOrProvinceCode.trim().toUpperCase();
+        const expectedStateOrProvinceCode = this.getStateCode(postalCode) || stateOrProvinceCode;
+        const hasMismatchedState = expectedStateOrProvinceCode !== stateOrProvinceCode;
+
+        return {
+            ...address,
+            address1: this.standardizeStreet(address.address1),
+            address2: this.standardizeStreet(address.address2),
+            city: this.standardizeWhitespace(address.city),
+            postalCode,
+            stateOrProvince: hasMismatchedState ? '' : address.stateOrProvince,
+            stateOrProvinceCode: expectedStateOrProvinceCode,
+        };
+    }
+
+    private standardizeStreet(street: string): string {
+        return this.standardizeWhitespace(street)
+            .replace(/\b[a-z]+\b\.?/gi, word => {
+                const suffix = STREET_SUFFIXES[word.replace('.', '').toLowerCase()];
+
+                return suffix || word;
+            });
+    }
+
+    private standardizePostalCode(postalCode: string): string {
+        const digits = postalCode.replace(/[\s-]/g, '');
+
+        if (/^\d{9}$/.test(digits)) {
+            return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+        }
+
+        if (/^\d{5}$/.test(digits)) {
+            return digits;
+        }
+
+        return postalCode.trim();
+    }
+
+    private standardizeWhitespace(value: string): string {
+        return value.trim().replace(/\s+/g, ' ');
+    }
+
+    private getStateCode(postalCode: string): string | undefined {
+        if (!/^\d{5}/.test(postalCode)) {
+            return;
+        }
+
+        const prefix = parseInt(postalCode.slice(0, 3), 10);
+        const range = find(US_POSTAL_CODE_RANGES, ([start, end]) => prefix >= start && prefix <= end);
+
+        return range && range[2];
+    }
+}
@@ -0,0 +1,28 @@
+import { getAddress } from '../address.mock';
+
+import getSuggestedAddress from './getSuggestedAddress';
+import AddressVerifier from './AddressVerifier';
+
+describe('getSuggestedAddress()', () => {
+    it('returns suggested address if it is different from entered address', async () => {
+        const suggestedAddress = { ...getAddress(), postalCode: '95555-1234' };
+        const verifier: AddressVerifier = { verify: jest.fn(() => Promise.resolve({ suggestedAddress })) };
+
+        expect(await getSuggestedAddress(verifier, getAddress()))
+            .toEqual(suggestedAddress);
+    });
+
+    it('returns nothing if suggested address is same as entered address', async () => {
+        const verifier: AddressVerifier = { verify: jest.fn(() => Promise.resolve({ suggestedAddress: getAddress() })) };
+
+        expect(await getSuggestedAddress(verifier, getAddress()))
+            .toBeUndefined();
+    });
+
+    it('returns nothing if address cannot be verified', async () => {
+        const verifier: AddressVerifier = { verify: jest.fn(() => Promise.reject(new Error())) };
+
+        expect(await getSuggestedAddress(verifier, getAddress()))
+            .toBeUndefined();
+    });
+});
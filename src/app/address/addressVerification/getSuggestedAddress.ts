@@ -0,0 +1,26 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+
+import isEqualAddress from '../isEqualAddress';
+
+import AddressVerifier from './AddressVerifier';
+
+/**
+ * Returns the standardized version of an address if it is different from the
+ * address entered by the shopper. The shopper should not be prevented from
+ * submitting their address if the verification fails, therefore any error is
+ * ignored.
+ */
+export default async function getSuggestedAddress(
+    addressVerifier: AddressVerifier,
+    address: Address
+): Promise<Address | undefined> {
+    try {
+        const { suggestedAddress } = await addressVerifier.verify(address);
+
+        return suggestedAddress && !isEqualAddress(address, suggestedAddress) ?
+            suggestedAddress :
+            undefined;
+    } catch (error) {
+        return;
+    }
+}
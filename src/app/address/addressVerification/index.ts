@@ -0,0 +1,10 @@
+export { default as AddressVerifier, AddressVerificationResult } from './AddressVerifier';
+export { default as AddressSuggestion } from './AddressSuggestion';
+export { default as AddressVerificationFormModal, AddressVerificationFormModalProps } from './AddressVerificationFormModal';
+export { default as AddressVerificationModal, AddressVerificationModalProps } from './AddressVerificationModal';
+export { default as AddressVerifierContext, AddressVerifierContextType } from './AddressVerifierContext';
+export { default as NoopAddressVerifier } from './NoopAddressVerifier';
+export { default as UsAddressVerifier } from './UsAddressVerifier';
+export { default as getSuggestedAddress } from './getSuggestedAddress';
+export { default as showSuggestedAddress } from './showSuggestedAddress';
+export { default as withAddressVerifier, WithAddressVerifierProps } from './withAddressVerifier';
@@ -0,0 +1,36 @@
+import { getAddress } from '../address.mock';
+
+import showSuggestedAddress from './showSuggestedAddress';
+import AddressVerifier from './AddressVerifier';
+
+describe('showSuggestedAddress()', () => {
+    it('stores suggested address in form status', async () => {
+        const suggestedAddress = { ...getAddress(), postalCode: '95555-1234' };
+        const verifier: AddressVerifier = { verify: jest.fn(() => Promise.resolve({ suggestedAddress })) };
+        const setStatus = jest.fn();
+
+        expect(await showSuggestedAddress(verifier, getAddress(), setStatus))
+            .toEqual(true);
+        expect(setStatus)
+            .toHaveBeenCalledWith({ addressSuggestion: { address: getAddress(), suggestedAddress } });
+    });
+
+    it('does not store anything if there is no suggested address', async () => {
+        const verifier: AddressVerifier = { verify: jest.fn(() => Promise.resolve({ suggestedAddress: getAddress() })) };
+        const setStatus = jest.fn();
+
+        expect(await showSuggestedAddress(verifier, getAddress(), setStatus))
+            .toEqual(false);
+        expect(setStatus)
+            .not.toHaveBeenCalled();
+    });
+
+    it('does not verify address if there is no address', async () => {
+        const verifier: AddressVerifier = { verify: jest.fn() };
+
+        expect(await showSuggestedAddress(verifier, undefined, jest.fn()))
+            .toEqual(false);
+        expect(verifier.verify)
+            .not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,27 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+
+import getSuggestedAddress from './getSuggestedAddress';
+import AddressSuggestion from './AddressSuggestion';
+import AddressVerifier from './AddressVerifier';
+
+/**
+ * Stores the standardized version of an address in the status of a Formik
+ * form, so it can be displayed by `AddressVerificationFormModal`. Returns true
+ * if there is a suggestion, in which case the submission should wait for the
+ * shopper to decide which address to use.
+ */
+export default async function showSuggestedAddress(
+    addressVerifier: AddressVerifier,
+    address: Address | undefined,
+    setStatus: (status: { addressSuggestion: AddressSuggestion }) => void
+): Promise<boolean> {
+    const suggestedAddress = address && await getSuggestedAddress(addressVerifier, address);
+
+    if (!address || !suggestedAddress) {
+        return false;
+    }
+
+    setStatus({ addressSuggestion: { address, suggestedAddress } });
+
+    return true;
+}
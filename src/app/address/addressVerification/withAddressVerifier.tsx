@@ -0,0 +1,11 @@
+import { createInjectHoc, InjectHoc } from '../../common/hoc';
+
+import AddressVerifierContext, { AddressVerifierContextType } from './AddressVerifierContext';
+
+export type WithAddressVerifierProps = AddressVerifierContextType;
+
+const withAddressVerifier: InjectHoc<WithAddressVerifierProps> = createInjectHoc(AddressVerifierContext, {
+    displayNamePrefix: 'WithAddressVerifier',
+});
+
+export default withAddressVerifier;
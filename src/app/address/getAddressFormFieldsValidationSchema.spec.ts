@@ -0,0 +1,37 @@
+import { getAddress } from './address.mock';
+import { getAddressFormFields } from './formField.mock';
+import getAddressFormFieldsValidationSchema from './getAddressFormFieldsValidationSchema';
+
+describe('getAddressFormFieldsValidationSchema()', () => {
+    it('validates postal code against pattern of country', () => {
+        const schema = getAddressFormFieldsValidationSchema({
+            countryCode: 'US',
+            formFields: getAddressFormFields(),
+        });
+
+        expect(schema.isValidSync({ ...getAddress(), postalCode: '95555-1234' }))
+            .toEqual(true);
+        expect(schema.isValidSync({ ...getAddress(), postalCode: '9555' }))
+            .toEqual(false);
+    });
+
+    it('does not validate postal code if country has no pattern', () => {
+        const schema = getAddressFormFieldsValidationSchema({
+            countryCode: 'NZ',
+            formFields: getAddressFormFields(),
+        });
+
+        expect(schema.isValidSync({ ...getAddress(), countryCode: 'NZ', postalCode: 'foo' }))
+            .toEqual(true);
+    });
+
+    it('does not validate empty postal code against pattern', () => {
+        const schema = getAddressFormFieldsValidationSchema({
+            countryCode: 'US',
+            formFields: getAddressFormFields(),
+        });
+
+        expect(schema.isValidSync({ ...getAddress(), postalCode: '' }))
+            .toEqual(true);
+    });
+});
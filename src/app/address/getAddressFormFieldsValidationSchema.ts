@@ -1,12 +1,17 @@
 import { FormField, LanguageService } from '@bigcommerce/checkout-sdk';
 import { memoize } from 'lodash';
-import { ObjectSchema } from 'yup';
+import { object, string, ObjectSchema } from 'yup';
 
 import { getFormFieldsValidationSchema, FormFieldValues, TranslateValidationErrorFunction } from '../formFields';
+import { FormFieldRuleValues } from '../ui/form';
+
+import { getAddressFormat } from './addressFormat';
 
 export interface AddressFormFieldsValidationSchemaOptions {
+    countryCode?: string;
     formFields: FormField[];
     language?: LanguageService;
+    values?: FormFieldRuleValues;
 }
 
 export function getTranslateAddressError(language?: LanguageService): TranslateValidationErrorFunction {
@@ -49,16 +54,43 @@ export function getTranslateAddressError(language?: LanguageService): TranslateV
             return language.translate(`address.invalid_characters_error`, { label });
         }
 
+        if (type === 'format') {
+            return language.translate(`address.custom_valid_error`, { label });
+        }
+
+        if (type === 'fileSize') {
+            return language.translate(`address.custom_file_size_error`, { label });
+        }
+
+        if (type === 'fileType') {
+            return language.translate(`address.custom_file_type_error`, { label });
+        }
+
         return;
     };
 }
 
 export default memoize(function getAddressFormFieldsValidationSchema({
+    countryCode,
     formFields,
     language,
+    values,
 }: AddressFormFieldsValidationSchemaOptions): ObjectSchema<FormFieldValues> {
-    return getFormFieldsValidationSchema({
+    const schema = getFormFieldsValidationSchema({
         formFields,
         translate: getTranslateAddressError(language),
+        values,
     });
+    const { postalCodePattern } = getAddressFormat(countryCode);
+
+    if (!postalCodePattern || !formFields.some(({ custom, name }) => !custom && name === 'postalCode')) {
+        return schema;
+    }
+
+    return schema.concat(object({
+        postalCode: string().matches(postalCodePattern, {
+            excludeEmptyString: true,
+            message: language && language.translate('address.postal_code_invalid_error'),
+        }),
+    }));
 });
@@ -17,6 +17,10 @@ export default class AddressSelector {
         return this._get('administrative_area_level_1', 'short_name');
     }
 
+    getStateName(): string {
+        return this._get('administrative_area_level_1', 'long_name');
+    }
+
     getStreet(): string {
         return this._name;
     }
@@ -0,0 +1,21 @@
+import AddressSelector from './AddressSelector';
+
+export default class AddressSelectorAU extends AddressSelector {
+    getStreet(): string {
+        const route = this._get('route', 'short_name');
+
+        if (!route) {
+            return super.getStreet();
+        }
+
+        const streetNumber = this._get('street_number', 'long_name');
+        const subpremise = this._get('subpremise', 'long_name');
+
+        return [
+            subpremise && streetNumber ? `${subpremise}/${streetNumber}` : streetNumber,
+            route,
+        ]
+            .filter(Boolean)
+            .join(' ');
+    }
+}
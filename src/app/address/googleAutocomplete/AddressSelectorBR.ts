@@ -0,0 +1,25 @@
+import AddressSelector from './AddressSelector';
+
+export default class AddressSelectorBR extends AddressSelector {
+    getStreet(): string {
+        const route = this._get('route', 'long_name');
+
+        if (!route) {
+            return super.getStreet();
+        }
+
+        return [route, this._get('street_number', 'long_name')]
+            .filter(Boolean)
+            .join(', ');
+    }
+
+    getStreet2(): string {
+        return this._get('sublocality_level_1', 'long_name') ||
+            this._get('sublocality', 'long_name');
+    }
+
+    getCity(): string {
+        return this._get('administrative_area_level_2', 'long_name') ||
+            this._get('locality', 'long_name');
+    }
+}
@@ -0,0 +1,27 @@
+import AddressSelector from './AddressSelector';
+
+export default class AddressSelectorCA extends AddressSelector {
+    getStreet(): string {
+        const route = this._get('route', 'long_name');
+
+        if (!route) {
+            return super.getStreet();
+        }
+
+        const streetNumber = this._get('street_number', 'long_name');
+        const subpremise = this._get('subpremise', 'long_name');
+
+        return [
+            subpremise && streetNumber ? `${subpremise}-${streetNumber}` : streetNumber,
+            route,
+        ]
+            .filter(Boolean)
+            .join(' ');
+    }
+
+    getCity(): string {
+        return this._get('locality', 'long_name') ||
+            this._get('sublocality_level_1', 'long_name') ||
+            this._get('postal_town', 'long_name');
+    }
+}
@@ -0,0 +1,20 @@
+import AddressSelector from './AddressSelector';
+
+export default class AddressSelectorDE extends AddressSelector {
+    getStreet(): string {
+        const route = this._get('route', 'long_name');
+
+        if (!route) {
+            return super.getStreet();
+        }
+
+        return [route, this._get('street_number', 'long_name')]
+            .filter(Boolean)
+            .join(' ');
+    }
+
+    getCity(): string {
+        return this._get('locality', 'long_name') ||
+            this._get('postal_town', 'long_name');
+    }
+}
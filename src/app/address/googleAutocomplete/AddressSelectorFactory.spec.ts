@@ -0,0 +1,113 @@
+import { getAustralianPlaceMock, getBrazilianPlaceMock, getCanadianPlaceMock, getGermanPlaceMock, getJapanesePlaceMock, getJapaneseWardPlaceMock, getQuebecPlaceMock } from './googleAutocompletePlaces.mock';
+import { getGoogleAutocompletePlaceMock } from './googleAutocompleteResult.mock';
+import AddressSelector from './AddressSelector';
+import AddressSelectorAU from './AddressSelectorAU';
+import AddressSelectorBR from './AddressSelectorBR';
+import AddressSelectorCA from './AddressSelectorCA';
+import AddressSelectorDE from './AddressSelectorDE';
+import AddressSelectorFactory from './AddressSelectorFactory';
+import AddressSelectorJP from './AddressSelectorJP';
+
+interface ExpectedAddress {
+    street: string;
+    street2: string;
+    city: string;
+    state: string;
+    country: string;
+    postCode: string;
+}
+
+describe('AddressSelectorFactory', () => {
+    it.each<[string, google.maps.places.PlaceResult, typeof AddressSelector]>([
+        ['JP', getJapanesePlaceMock(), AddressSelectorJP],
+        ['DE', getGermanPlaceMock(), AddressSelectorDE],
+        ['BR', getBrazilianPlaceMock(), AddressSelectorBR],
+        ['CA', getCanadianPlaceMock(), AddressSelectorCA],
+        ['AU', getAustralianPlaceMock(), AddressSelectorAU],
+    ])('returns country-specific selector for %s', (_, place, selectorType) => {
+        expect(AddressSelectorFactory.create(place)).toBeInstanceOf(selectorType);
+    });
+
+    it('returns generic selector for other countries', () => {
+        const place = getGoogleAutocompletePlaceMock();
+        // tslint:disable-next-line:no-non-null-assertion
+        const addressComponents = place.address_components!
+            .map(component => component.types.includes('country') ?
+                { ...component, long_name: 'New Zealand', short_name: 'NZ' } :
+                component
+            );
+
+        expect(AddressSelectorFactory.create({ ...place, address_components: addressComponents }).constructor)
+            .toBe(AddressSelector);
+    });
+
+    it.each<[string, google.maps.places.PlaceResult, ExpectedAddress]>([
+        ['Japanese address in city', getJapanesePlaceMock(), {
+            street: '1 Chome-1-2 Oshiage',
+            street2: '',
+            city: 'Sumida City',
+            state: 'Tokyo',
+            country: 'JP',
+            postCode: '131-0045',
+        }],
+        ['Japanese address in ward of designated city', getJapaneseWardPlaceMock(), {
+            street: '1 Chome-1 Nihonodori',
+            street2: '',
+            city: 'Yokohama Naka Ward',
+            state: 'Kanagawa',
+            country: 'JP',
+            postCode: '231-0021',
+        }],
+        ['German address', getGermanPlaceMock(), {
+            street: 'Unter den Linden 77',
+            street2: '',
+            city: 'Berlin',
+            state: 'BE',
+            country: 'DE',
+            postCode: '10117',
+        }],
+        ['Brazilian address', getBrazilianPlaceMock(), {
+            street: 'Avenida Paulista, 1578',
+            street2: 'Bela Vista',
+            city: 'São Paulo',
+            state: 'SP',
+            country: 'BR',
+            postCode: '01310-200',
+        }],
+        ['Canadian address with unit', getCanadianPlaceMock(), {
+            street: '5-290 Bremner Boulevard',
+            street2: '',
+            city: 'Toronto',
+            state: 'ON',
+            country: 'CA',
+            postCode: 'M5V 3L9',
+        }],
+        ['Canadian address in Quebec', getQuebecPlaceMock(), {
+            street: '1 Rue des Carrières',
+            street2: '',
+            city: 'Québec',
+            state: 'QC',
+            country: 'CA',
+            postCode: 'G1R 4P5',
+        }],
+        ['Australian address with unit', getAustralianPlaceMock(), {
+            street: '2/10 Smith St',
+            street2: '',
+            city: 'Parramatta',
+            state: 'NSW',
+            country: 'AU',
+            postCode: '2150',
+        }],
+    ])('selects fields of %s', (_, place, expected) => {
+        const selector = AddressSelectorFactory.create(place);
+
+        expect({
+            street: selector.getStreet(),
+            street2: selector.getStreet2(),
+            city: selector.getCity(),
+            state: selector.getState(),
+            country: selector.getCountry(),
+            postCode: selector.getPostCode(),
+        }).toEqual(expected);
+    });
+});
@@ -1,4 +1,9 @@
 import AddressSelector from './AddressSelector';
+import AddressSelectorAU from './AddressSelectorAU';
+import AddressSelectorBR from './AddressSelectorBR';
+import AddressSelectorCA from './AddressSelectorCA';
+import AddressSelectorDE from './AddressSelectorDE';
+import AddressSelectorJP from './AddressSelectorJP';
 import AddressSelectorUK from './AddressSelectorUk';
 
 export default class AddressSelectorFactory {
@@ -6,8 +11,23 @@ export default class AddressSelectorFactory {
         const addressSelector = new AddressSelector(autocompleteData);
 
         switch (addressSelector.getCountry()) {
+        case 'AU':
+            return new AddressSelectorAU(autocompleteData);
+
+        case 'BR':
+            return new AddressSelectorBR(autocompleteData);
+
+        case 'CA':
+            return new AddressSelectorCA(autocompleteData);
+
+        case 'DE':
+            return new AddressSelectorDE(autocompleteData);
+
         case 'GB':
             return new AddressSelectorUK(autocompleteData);
+
+        case 'JP':
+            return new AddressSelectorJP(autocompleteData);
         }
 
         return addressSelector;
@@ -0,0 +1,14 @@
+import AddressSelector from './AddressSelector';
+
+export default class AddressSelectorJP extends AddressSelector {
+    // Wards of designated cities are returned as sublocalities, but they are
+    // part of the city line of Japanese addresses, i.e.: "Yokohama Naka Ward".
+    getCity(): string {
+        return [
+            this._get('locality', 'long_name'),
+            this._get('sublocality_level_1', 'long_name'),
+        ]
+            .filter(Boolean)
+            .join(' ');
+    }
+}
@@ -0,0 +1,60 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+import React, { ReactNode } from 'react';
+
+import { AddressAutocompletePlaceDetailsOptions, AddressAutocompletePrediction, AddressAutocompletePredictionOptions, AddressAutocompleteProvider } from '../addressAutocomplete';
+
+import { GoogleAutocompleteFields, GoogleAutocompleteOptionTypes } from './googleAutocompleteTypes';
+import mapToAddress from './mapToAddress';
+import './GoogleAutocomplete.scss';
+import GoogleAutocompleteService from './GoogleAutocompleteService';
+
+export interface GoogleAddressAutocompleteProviderOptions {
+    fields?: GoogleAutocompleteFields[];
+    types?: GoogleAutocompleteOptionTypes[];
+}
+
+export default class GoogleAddressAutocompleteProvider implements AddressAutocompleteProvider {
+    constructor(
+        private googleAutocompleteService: GoogleAutocompleteService,
+        private options: GoogleAddressAutocompleteProviderOptions = {}
+    ) {}
+
+    async getPredictions(
+        input: string,
+        { countryCode }: AddressAutocompletePredictionOptions = {}
+    ): Promise<AddressAutocompletePrediction[]> {
+        const { types = ['geocode'] } = this.options;
+        const service = await this.googleAutocompleteService.getAutocompleteService();
+
+        return new Promise(resolve => {
+            service.getPlacePredictions({
+                input,
+                types,
+                componentRestrictions: countryCode ? { country: countryCode } : undefined,
+            }, results => resolve((results || []).map(result => ({
+                label: result.description,
+                value: result.structured_formatting.main_text,
+                highlightedSlices: result.matched_substrings,
+                id: result.place_id,
+            }))));
+        });
+    }
+
+    async getPlaceDetails(
+        { id }: AddressAutocompletePrediction,
+        { countries }: AddressAutocompletePlaceDetailsOptions = {}
+    ): Promise<Partial<Address>> {
+        const { fields = ['address_components', 'name'] } = this.options;
+        const service = await this.googleAutocompleteService.getPlacesServices();
+
+        return new Promise(resolve => {
+            service.getDetails({ placeId: id, fields }, result => {
+                resolve(mapToAddress(result, countries));
+            });
+        });
+    }
+
+    renderAttribution(): ReactNode {
+        return <div className="co-googleAutocomplete-footer" />;
+    }
+}
@@ -0,0 +1,114 @@
+// Place details recorded from the Places API for each market with a
+// country-specific address selector, trimmed down to `name` and
+// `address_components`.
+
+export function getJapanesePlaceMock(): google.maps.places.PlaceResult {
+    return {
+        name: '1 Chome-1-2 Oshiage',
+        address_components: [
+            { long_name: '2', short_name: '2', types: ['premise'] },
+            { long_name: '1', short_name: '1', types: ['political', 'sublocality', 'sublocality_level_4'] },
+            { long_name: '1 Chome', short_name: '1 Chome', types: ['political', 'sublocality', 'sublocality_level_3'] },
+            { long_name: 'Oshiage', short_name: 'Oshiage', types: ['political', 'sublocality', 'sublocality_level_2'] },
+            { long_name: 'Sumida City', short_name: 'Sumida City', types: ['locality', 'political'] },
+            { long_name: 'Tokyo', short_name: 'Tokyo', types: ['administrative_area_level_1', 'political'] },
+            { long_name: 'Japan', short_name: 'JP', types: ['country', 'political'] },
+            { long_name: '131-0045', short_name: '131-0045', types: ['postal_code'] },
+        ],
+    } as google.maps.places.PlaceResult;
+}
+
+export function getJapaneseWardPlaceMock(): google.maps.places.PlaceResult {
+    return {
+        name: '1 Chome-1 Nihonodori',
+        address_components: [
+            { long_name: '1', short_name: '1', types: ['political', 'sublocality', 'sublocality_level_4'] },
+            { long_name: '1 Chome', short_name: '1 Chome', types: ['political', 'sublocality', 'sublocality_level_3'] },
+            { long_name: 'Nihonodori', short_name: 'Nihonodori', types: ['political', 'sublocality', 'sublocality_level_2'] },
+            { long_name: 'Naka Ward', short_name: 'Naka Ward', types: ['political', 'sublocality', 'sublocality_level_1'] },
+            { long_name: 'Yokohama', short_name: 'Yokohama', types: ['locality', 'political'] },
+            { long_name: 'Kanagawa', short_name: 'Kanagawa', types: ['administrative_area_level_1', 'political'] },
+            { long_name: 'Japan', short_name: 'JP', types: ['country', 'political'] },
+            { long_name: '231-0021', short_name: '231-0021', types: ['postal_code'] },
+        ],
+    } as google.maps.places.PlaceResult;
+}
+
+export function getGermanPlaceMock(): google.maps.places.PlaceResult {
+    return {
+        name: 'Unter den Linden 77',
+        address_components: [
+            { long_name: '77', short_name: '77', types: ['street_number'] },
+            { long_name: 'Unter den Linden', short_name: 'Unter den Linden', types: ['route'] },
+            { long_name: 'Mitte', short_name: 'Mitte', types: ['political', 'sublocality', 'sublocality_level_1'] },
+            { long_name: 'Berlin', short_name: 'Berlin', types: ['locality', 'political'] },
+            { long_name: 'Kreisfreie Stadt Berlin', short_name: 'Kreisfreie Stadt Berlin', types: ['administrative_area_level_3', 'political'] },
+            { long_name: 'Berlin', short_name: 'BE', types: ['administrative_area_level_1', 'political'] },
+            { long_name: 'Germany', short_name: 'DE', types: ['country', 'political'] },
+            { long_name: '10117', short_name: '10117', types: ['postal_code'] },
+        ],
+    } as google.maps.places.PlaceResult;
+}
+
+export function getBrazilianPlaceMock(): google.maps.places.PlaceResult {
+    return {
+        name: 'Av. Paulista, 1578',
+        address_components: [
+            { long_name: '1578', short_name: '1578', types: ['street_number'] },
+            { long_name: 'Avenida Paulista', short_name: 'Av. Paulista', types: ['route'] },
+            { long_name: 'Bela Vista', short_name: 'Bela Vista', types: ['political', 'sublocality', 'sublocality_level_1'] },
+            { long_name: 'São Paulo', short_name: 'São Paulo', types: ['administrative_area_level_2', 'political'] },
+            { long_name: 'São Paulo', short_name: 'SP', types: ['administrative_area_level_1', 'political'] },
+            { long_name: 'Brazil', short_name: 'BR', types: ['country', 'political'] },
+            { long_name: '01310-200', short_name: '01310-200', types: ['postal_code'] },
+        ],
+    } as google.maps.places.PlaceResult;
+}
+
+export function getCanadianPlaceMock(): google.maps.places.PlaceResult {
+    return {
+        name: '290 Bremner Blvd',
+        address_components: [
+            { long_name: '5', short_name: '5', types: ['subpremise'] },
+            { long_name: '290', short_name: '290', types: ['street_number'] },
+            { long_name: 'Bremner Boulevard', short_name: 'Bremner Blvd', types: ['route'] },
+            { long_name: 'Old Toronto', short_name: 'Old Toronto', types: ['political', 'sublocality', 'sublocality_level_1'] },
+            { long_name: 'Toronto', short_name: 'Toronto', types: ['locality', 'political'] },
+            { long_name: 'Toronto', short_name: 'Toronto', types: ['administrative_area_level_2', 'political'] },
+            { long_name: 'Ontario', short_name: 'ON', types: ['administrative_area_level_1', 'political'] },
+            { long_name: 'Canada', short_name: 'CA', types: ['country', 'political'] },
+            { long_name: 'M5V 3L9', short_name: 'M5V 3L9', types: ['postal_code'] },
+        ],
+    } as google.maps.places.PlaceResult;
+}
+
+export function getQuebecPlaceMock(): google.maps.places.PlaceResult {
+    return {
+        name: '1 Rue des Carrières',
+        address_components: [
+            { long_name: '1', short_name: '1', types: ['street_number'] },
+            { long_name: 'Rue des Carrières', short_name: 'Rue des Carrières', types: ['route'] },
+            { long_name: 'Vieux-Québec–Cap-Blanc–Colline parlementaire', short_name: 'Vieux-Québec', types: ['neighborhood', 'political'] },
+            { long_name: 'Québec', short_name: 'Québec', types: ['locality', 'political'] },
+            { long_name: 'Québec', short_name: 'QC', types: ['administrative_area_level_1', 'political'] },
+            { long_name: 'Canada', short_name: 'CA', types: ['country', 'political'] },
+            { long_name: 'G1R 4P5', short_name: 'G1R 4P5', types: ['postal_code'] },
+        ],
+    } as google.maps.places.PlaceResult;
+}
+
+export function getAustralianPlaceMock(): google.maps.places.PlaceResult {
+    return {
+        name: '2/10 Smith St',
+        address_components: [
+            { long_name: '2', short_name: '2', types: ['subpremise'] },
+            { long_name: '10', short_name: '10', types: ['street_number'] },
+            { long_name: 'Smith Street', short_name: 'Smith St', types: ['route'] },
+            { long_name: 'Parramatta', short_name: 'Parramatta', types: ['locality', 'political'] },
+            { long_name: 'City of Parramatta Council', short_name: 'Parramatta', types: ['administrative_area_level_2', 'political'] },
+            { long_name: 'New South Wales', short_name: 'NSW', types: ['administrative_area_level_1', 'political'] },
+            { long_name: 'Australia', short_name: 'AU', types: ['country', 'political'] },
+            { long_name: '2150', short_name: '2150', types: ['postal_code'] },
+        ],
+    } as google.maps.places.PlaceResult;
+}
@@ -44,9 +44,14 @@ export type GoogleAddressFieldType =
     'administrative_area_level_1' |
     'administrative_area_level_2' |
     'locality' |
+    'sublocality' |
+    'sublocality_level_1' |
+    'sublocality_level_2' |
     'neighborhood' |
     'postal_code' |
     'street_number' |
     'route' |
+    'premise' |
+    'subpremise' |
     'political' |
     'country';
@@ -1,5 +1,5 @@
 export * from './googleAutocompleteTypes';
 export { default as mapToAddress } from './mapToAddress';
+export { default as GoogleAddressAutocompleteProvider, GoogleAddressAutocompleteProviderOptions } from './GoogleAddressAutocompleteProvider';
 export { default as GoogleAutocompleteScriptLoader } from './GoogleAutocompleteScriptLoader';
-export { default as GoogleAutocomplete } from './GoogleAutocomplete';
-export { default as GoogleAutocompleteFormField } from './GoogleAutocompleteFormField';
+export { default as GoogleAutocompleteService } from './GoogleAutocompleteService';
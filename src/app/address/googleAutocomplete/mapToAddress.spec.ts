@@ -1,5 +1,8 @@
+import { Address, Country } from '@bigcommerce/checkout-sdk';
+
 import { getCountries } from '../../geography/countries.mock';
 
+import { getAustralianPlaceMock, getBrazilianPlaceMock, getCanadianPlaceMock, getGermanPlaceMock, getJapanesePlaceMock, getQuebecPlaceMock } from './googleAutocompletePlaces.mock';
 import { getGoogleAutocompletePlaceMock } from './googleAutocompleteResult.mock';
 import mapToAddress from './mapToAddress';
 
@@ -32,4 +35,120 @@ describe('mapToAddress()', () => {
             stateOrProvinceCode: '',
         });
     });
+
+    it.each<[string, google.maps.places.PlaceResult, Country, Partial<Address>]>([
+        ['Japanese address', getJapanesePlaceMock(), {
+            code: 'JP',
+            name: 'Japan',
+            hasPostalCodes: true,
+            requiresState: true,
+            subdivisions: [{ code: '13', name: 'Tokyo' }],
+        }, {
+            address1: '1 Chome-1-2 Oshiage',
+            address2: '',
+            city: 'Sumida City',
+            countryCode: 'JP',
+            postalCode: '131-0045',
+            stateOrProvince: 'Tokyo',
+            stateOrProvinceCode: '13',
+        }],
+        ['German address', getGermanPlaceMock(), {
+            code: 'DE',
+            name: 'Germany',
+            hasPostalCodes: true,
+            requiresState: false,
+            subdivisions: [{ code: 'BER', name: 'Berlin' }],
+        }, {
+            address1: 'Unter den Linden 77',
+            address2: '',
+            city: 'Berlin',
+            countryCode: 'DE',
+            postalCode: '10117',
+            stateOrProvince: 'Berlin',
+            stateOrProvinceCode: 'BER',
+        }],
+        ['Brazilian address', getBrazilianPlaceMock(), {
+            code: 'BR',
+            name: 'Brazil',
+            hasPostalCodes: true,
+            requiresState: true,
+            subdivisions: [{ code: 'SP', name: 'Sao Paulo' }],
+        }, {
+            address1: 'Avenida Paulista, 1578',
+            address2: 'Bela Vista',
+            city: 'São Paulo',
+            countryCode: 'BR',
+            postalCode: '01310-200',
+            stateOrProvince: 'Sao Paulo',
+            stateOrProvinceCode: 'SP',
+        }],
+        ['Canadian address', getCanadianPlaceMock(), {
+            code: 'CA',
+            name: 'Canada',
+            hasPostalCodes: true,
+            requiresState: true,
+            subdivisions: [{ code: 'ON', name: 'Ontario' }],
+        }, {
+            address1: '5-290 Bremner Boulevard',
+            address2: '',
+            city: 'Toronto',
+            countryCode: 'CA',
+            postalCode: 'M5V 3L9',
+            stateOrProvince: 'Ontario',
+            stateOrProvinceCode: 'ON',
+        }],
+        ['Canadian address with province name without diacritics', getQuebecPlaceMock(), {
+            code: 'CA',
+            name: 'Canada',
+            hasPostalCodes: true,
+            requiresState: true,
+            subdivisions: [{ code: 'PQ', name: 'Quebec' }],
+        }, {
+            address1: '1 Rue des Carrières',
+            address2: '',
+            city: 'Québec',
+            countryCode: 'CA',
+            postalCode: 'G1R 4P5',
+            stateOrProvince: 'Quebec',
+            stateOrProvinceCode: 'PQ',
+        }],
+        ['Australian address', getAustralianPlaceMock(), {
+            code: 'AU',
+            name: 'Australia',
+            hasPostalCodes: true,
+            requiresState: true,
+            subdivisions: [{ code: 'NSW', name: 'New South Wales' }],
+        }, {
+            address1: '2/10 Smith St',
+            address2: '',
+            city: 'Parramatta',
+            countryCode: 'AU',
+            postalCode: '2150',
+            stateOrProvince: 'New South Wales',
+            stateOrProvinceCode: 'NSW',
+        }],
+    ])('maps street and province of %s to subdivision of country', (_, place, country, expected) => {
+        expect(mapToAddress(place, [country])).toEqual(expected);
+    });
+
+    it('maps province name with diacritics to subdivision if string normalization is not supported', () => {
+        const { normalize } = String.prototype;
+
+        delete (String.prototype as any).normalize;
+
+        try {
+            expect(mapToAddress(getQuebecPlaceMock(), [{
+                code: 'CA',
+                name: 'Canada',
+                hasPostalCodes: true,
+                requiresState: true,
+                subdivisions: [{ code: 'PQ', name: 'Quebec' }],
+            }])).toEqual(expect.objectContaining({
+                stateOrProvince: 'Quebec',
+                stateOrProvinceCode: 'PQ',
+            }));
+        } finally {
+            String.prototype.normalize = normalize;
+        }
+    });
 });
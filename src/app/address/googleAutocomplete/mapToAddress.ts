@@ -1,4 +1,5 @@
 import { Address, Country, Region } from '@bigcommerce/checkout-sdk';
+import { deburr } from 'lodash';
 
 import AddressSelectorFactory from './AddressSelectorFactory';
 
@@ -17,20 +18,24 @@ export default function mapToAddress(
     const street2 = accessor.getStreet2();
 
     return {
+        address1: accessor.getStreet(),
         address2: street2,
         city: accessor.getCity(),
         countryCode,
         postalCode: accessor.getPostCode(),
-        ...state ? getState(state, country && country.subdivisions) : {},
+        ...state ? getState(state, accessor.getStateName(), country && country.subdivisions) : {},
     };
 }
 
 function getState(
     stateName: string,
+    stateFullName: string,
     states: Region[] = []
 ): Partial<Address> {
     const state = states.find(({ code, name }: Region) =>
         code === stateName || name === stateName
+    ) || states.find(({ code, name }: Region) =>
+        [code, name].map(normalizeStateName).indexOf(normalizeStateName(stateFullName)) !== -1
     );
 
     if (!state) {
@@ -45,3 +50,13 @@ function getState(
         stateOrProvinceCode: state.code,
     };
 }
+
+// Google returns names of some subdivisions with diacritics or a different
+// case to the ones configured for the store, i.e.: "São Paulo" or "Québec".
+// The diacritics are removed using a lookup table, as \`String#normalize\` is not
+// available in IE11.
+function normalizeStateName(name: string = ''): string {
+    return deburr(name)
+        .toLowerCase()
+        .trim();
+}
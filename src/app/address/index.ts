@@ -5,7 +5,7 @@ export { default as AddressFormModal } from './AddressFormModal';
 export { default as AddressSelect } from './AddressSelect';
 export { default as AddressType } from './AddressType';
 export { default as StaticAddress } from './StaticAddress';
-export { default as localizeAddress } from './localizeAddress';
+export { default as localizeAddress, LocalizedAddress } from './localizeAddress';
 export { default as isValidAddress } from './isValidAddress';
 export { default as isValidCustomerAddress } from './isValidCustomerAddress';
 export { default as isEqualAddress } from './isEqualAddress';
@@ -13,3 +13,35 @@ export {
     default as getAddressFormFieldsValidationSchema,
     getTranslateAddressError,
  } from './getAddressFormFieldsValidationSchema';
+export {
+    getSuggestedAddress,
+    showSuggestedAddress,
+    withAddressVerifier,
+    AddressSuggestion,
+    AddressVerificationFormModal,
+    AddressVerificationFormModalProps,
+    AddressVerificationModal,
+    AddressVerifier,
+    AddressVerifierContext,
+    AddressVerifierContextType,
+    NoopAddressVerifier,
+    UsAddressVerifier,
+    WithAddressVerifierProps,
+} from './addressVerification';
+export {
+    AddressAutocompleteConfig,
+    AddressAutocompleteContext,
+    AddressAutocompleteContextType,
+    AddressAutocompleteProvider,
+    AddressAutocompleteProviderType,
+    FixtureAddressAutocompleteProvider,
+    PostcodeLookupAddressAutocompleteProvider,
+    createAddressAutocompleteProvider,
+} from './addressAutocomplete';
+export {
+    formatAddress,
+    getAddressFormat,
+    AddressFormat,
+    AddressFormatField,
+    FormattedAddressLine,
+} from './addressFormat';
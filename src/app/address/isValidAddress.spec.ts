@@ -1,5 +1,5 @@
 import { getAddress } from './address.mock';
-import { getFormFields } from './formField.mock';
+import { getAddressFormFields, getFormFields } from './formField.mock';
 import isValidAddress from './isValidAddress';
 
 describe('isValidAddress()', () => {
@@ -13,6 +13,16 @@ describe('isValidAddress()', () => {
             .toEqual(false);
     });
 
+    it('returns false if postal code does not match format of country', () => {
+        expect(isValidAddress({ ...getAddress(), postalCode: 'ABC' }, getAddressFormFields()))
+            .toEqual(false);
+    });
+
+    it('returns true if postal code matches format of country', () => {
+        expect(isValidAddress({ ...getAddress(), postalCode: '95555-1234' }, getAddressFormFields()))
+            .toEqual(true);
+    });
+
     describe('when field is dropdown', () => {
         it('returns false if dropdown is required but not defined', () => {
             const output = isValidAddress(
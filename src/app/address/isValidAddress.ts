@@ -4,7 +4,12 @@ import getAddressFormFieldsValidationSchema from './getAddressFormFieldsValidati
 import mapAddressToFormValues from './mapAddressToFormValues';
 
 export default function isValidAddress(address: Address, formFields: FormField[]): boolean {
-    const addressSchema = getAddressFormFieldsValidationSchema({ formFields });
+    const values = mapAddressToFormValues(formFields, address);
+    const addressSchema = getAddressFormFieldsValidationSchema({
+        countryCode: address.countryCode,
+        formFields,
+        values,
+    });
 
-    return addressSchema.isValidSync(mapAddressToFormValues(formFields, address));
+    return addressSchema.isValidSync(values);
 }
@@ -40,4 +40,21 @@ describe('localizeAddress', () => {
             localizedProvince: 'California',
         });
     });
+
+    it('formats lines of address in format of its country', () => {
+        expect(localizeAddress(address, getCountries()).localizedLines.map(line => line.map(({ value }) => value).join('')))
+            .toEqual([
+                'Test Tester',
+                'Bigcommerce',
+                '12345 Testing Way',
+                'Some City, CA 95555',
+                'United States',
+                '555-555-5555',
+            ]);
+    });
+
+    it('formats lines of address in format of country without known format', () => {
+        expect(localizeAddress({ ...address, countryCode: 'XX' }, getCountries()).localizedLines[3].map(({ value }) => value).join(''))
+            .toEqual('Some City, California, 95555');
+    });
 });
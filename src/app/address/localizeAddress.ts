@@ -3,19 +3,32 @@ import { find, isEmpty } from 'lodash';
 
 import { LocalizedGeography } from '../geography';
 
+import { formatAddress, getAddressFormat, FormattedAddressLine } from './addressFormat';
+
+export interface LocalizedAddress extends LocalizedGeography {
+    /**
+     * The lines of the address in the display format of its country.
+     */
+    localizedLines: FormattedAddressLine[];
+}
+
 const localizeAddress = <T1 extends Address>(
     address: T1,
     countries?: Country[]
-): T1 & LocalizedGeography => {
+): T1 & LocalizedAddress => {
     const country =  find(countries, { code: address.countryCode });
     const states = !country || isEmpty(country.subdivisions) ? [] : country.subdivisions;
     const state = find(states, { code:  address.stateOrProvinceCode });
-
-    return {
+    const localizedAddress = {
         ...address,
         localizedCountry: country ? country.name : address.country,
         localizedProvince: state ? state.name : address.stateOrProvince,
     };
+
+    return {
+        ...localizedAddress,
+        localizedLines: formatAddress(localizedAddress, getAddressFormat(address.countryCode)),
+    };
 };
 
 export default localizeAddress;
@@ -1,6 +1,7 @@
 import { Address, AddressKey, FormField } from '@bigcommerce/checkout-sdk';
 
-import { DynamicFormFieldType } from '../ui/form';
+import { parseFileFormFieldValue } from '../formFields';
+import { DynamicFormFieldType, FileInputValue } from '../ui/form';
 
 export type AddressFormValues = Pick<Address, Exclude<AddressKey, 'customFields'>> & {
     customFields: { [id: string]: any };
@@ -52,7 +53,7 @@ export default function mapAddressToFormValues(fields: FormField[], address?: Ad
     return values;
 }
 
-function getValue(fieldType?: string, fieldValue?: string | string[] | number, defaultValue?: string): string | string[] | number | Date | undefined {
+function getValue(fieldType?: string, fieldValue?: string | string[] | number, defaultValue?: string): string | string[] | number | Date | FileInputValue | undefined {
     if (fieldValue === undefined || fieldValue === null) {
         return getDefaultValue(fieldType, defaultValue);
     }
@@ -61,6 +62,10 @@ function getValue(fieldType?: string, fieldValue?: string | string[] | number, d
         return fieldValue ? new Date(fieldValue) : undefined;
     }
 
+    if (fieldType === DynamicFormFieldType.file && typeof fieldValue === 'string') {
+        return fieldValue ? parseFileFormFieldValue(fieldValue) : undefined;
+    }
+
     return fieldValue;
 }
 
@@ -69,7 +74,7 @@ function getDefaultValue(fieldType?: string, defaultValue?: string): string | st
         return new Date(defaultValue);
     }
 
-    if (fieldType === DynamicFormFieldType.checkbox) {
+    if (fieldType === DynamicFormFieldType.checkbox || fieldType === DynamicFormFieldType.multiselect) {
         return [];
     }
 
@@ -0,0 +1,15 @@
+import { createContext } from 'react';
+
+import AnalyticsEventBus from './AnalyticsEventBus';
+
+export interface AnalyticsContextType {
+    analytics: AnalyticsEventBus;
+}
+
+// Components can emit events without a provider, i.e.: in tests, in which case
+// the events are not sent anywhere.
+const AnalyticsContext = createContext<AnalyticsContextType>({
+    analytics: new AnalyticsEventBus(),
+});
+
+export default AnalyticsContext;
@@ -0,0 +1,93 @@
+import AnalyticsEventType from './AnalyticsEventType';
+
+export interface AnalyticsLineItem {
+    brand: string;
+    id: string;
+    listPrice: number;
+    name: string;
+    productId: number;
+    quantity: number;
+    salePrice: number;
+    sku: string;
+}
+
+export interface AnalyticsCart {
+    baseAmount: number;
+    cartAmount: number;
+    currency: string;
+    discountAmount: number;
+    grandTotal: number;
+    id: string;
+    lineItems: AnalyticsLineItem[];
+}
+
+export interface StepViewedEventData {
+    type: AnalyticsEventType.StepViewed;
+    step: string;
+}
+
+export interface StepCompletedEventData {
+    type: AnalyticsEventType.StepCompleted;
+    step: string;
+}
+
+export interface ShippingOptionSelectedEventData {
+    type: AnalyticsEventType.ShippingOptionSelected;
+    consignmentId: string;
+    shippingCost: number;
+    shippingOptionId: string;
+    shippingOptionName: string;
+}
+
+export interface PaymentMethodSelectedEventData {
+    type: AnalyticsEventType.PaymentMethodSelected;
+    gatewayId?: string;
+    methodId: string;
+}
+
+export interface CouponAppliedEventData {
+    type: AnalyticsEventType.CouponApplied;
+    code: string;
+}
+
+export interface CouponFailedEventData {
+    type: AnalyticsEventType.CouponFailed;
+    code: string;
+    errorMessage?: string;
+}
+
+export interface QuoteRequestedEventData {
+    type: AnalyticsEventType.QuoteRequested;
+    quoteId: string;
+    quoteType: string;
+}
+
+export interface ValidationErrorEventData {
+    type: AnalyticsEventType.ValidationError;
+    fields: string[];
+    form?: string;
+}
+
+/**
+ * The data provided by the emitter of an event. The bus adds the common
+ * properties, such as the content of the cart, before passing it to sinks.
+ */
+export type AnalyticsEventData =
+    StepViewedEventData |
+    StepCompletedEventData |
+    ShippingOptionSelectedEventData |
+    PaymentMethodSelectedEventData |
+    CouponAppliedEventData |
+    CouponFailedEventData |
+    QuoteRequestedEventData |
+    ValidationErrorEventData;
+
+export interface AnalyticsEventProperties {
+    cart?: AnalyticsCart;
+    isEmbedded: boolean;
+    timestamp: number;
+}
+
+type AnalyticsEvent = AnalyticsEventData & AnalyticsEventProperties;
+
+export default AnalyticsEvent;
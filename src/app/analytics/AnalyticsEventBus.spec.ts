@@ -0,0 +1,79 @@
+import { getCheckout } from '../checkout/checkouts.mock';
+
+import AnalyticsEventBus from './AnalyticsEventBus';
+import AnalyticsEventType from './AnalyticsEventType';
+import AnalyticsSink from './AnalyticsSink';
+
+describe('AnalyticsEventBus', () => {
+    let sink: AnalyticsSink;
+
+    beforeEach(() => {
+        sink = { send: jest.fn() };
+    });
+
+    it('sends event to every sink', () => {
+        const otherSink = { send: jest.fn() };
+        const bus = new AnalyticsEventBus([sink, otherSink]);
+
+        bus.emit({ type: AnalyticsEventType.StepViewed, step: 'shipping' });
+
+        expect(sink.send).toHaveBeenCalledWith(expect.objectContaining({
+            type: AnalyticsEventType.StepViewed,
+            step: 'shipping',
+        }));
+        expect(otherSink.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('enriches event with cart context, embedded state and timestamp', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+        const bus = new AnalyticsEventBus([sink], { getCheckout, isEmbedded: true });
+
+        bus.emit({ type: AnalyticsEventType.CouponApplied, code: 'savebig2015' });
+
+        expect(sink.send).toHaveBeenCalledWith({
+            type: AnalyticsEventType.CouponApplied,
+            code: 'savebig2015',
+            cart: expect.objectContaining({
+                currency: getCheckout().cart.currency.code,
+                grandTotal: getCheckout().grandTotal,
+                id: getCheckout().cart.id,
+            }),
+            isEmbedded: true,
+            timestamp: 1000,
+        });
+    });
+
+    it('does not include cart context if checkout is not available', () => {
+        const bus = new AnalyticsEventBus([sink], { getCheckout: () => undefined });
+
+        bus.emit({ type: AnalyticsEventType.StepViewed, step: 'customer' });
+
+        expect(sink.send).toHaveBeenCalledWith(expect.objectContaining({
+            cart: undefined,
+            isEmbedded: false,
+        }));
+    });
+
+    it('continues sending event to other sinks if sink throws error', () => {
+        const failingSink = { send: jest.fn(() => { throw new Error(); }) };
+        const bus = new AnalyticsEventBus([failingSink, sink]);
+
+        expect(() => bus.emit({ type: AnalyticsEventType.StepViewed, step: 'customer' }))
+            .not.toThrow();
+        expect(sink.send).toHaveBeenCalled();
+    });
+
+    it('notifies subscribers until they unsubscribe', () => {
+        const listener = jest.fn();
+        const bus = new AnalyticsEventBus();
+        const unsubscribe = bus.subscribe(listener);
+
+        bus.emit({ type: AnalyticsEventType.StepViewed, step: 'customer' });
+        unsubscribe();
+        bus.emit({ type: AnalyticsEventType.StepViewed, step: 'shipping' });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ step: 'customer' }));
+    });
+});
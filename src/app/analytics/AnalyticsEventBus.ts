@@ -0,0 +1,53 @@
+import { Checkout } from '@bigcommerce/checkout-sdk';
+
+import mapToAnalyticsCart from './mapToAnalyticsCart';
+import AnalyticsEvent, { AnalyticsEventData } from './AnalyticsEvent';
+import AnalyticsSink from './AnalyticsSink';
+
+export interface AnalyticsEventBusOptions {
+    isEmbedded?: boolean;
+    getCheckout?(): Checkout | undefined;
+}
+
+export type AnalyticsEventListener = (event: AnalyticsEvent) => void;
+
+export default class AnalyticsEventBus {
+    private listeners: AnalyticsEventListener[] = [];
+
+    constructor(
+        private sinks: AnalyticsSink[] = [],
+        private options: AnalyticsEventBusOptions = {}
+    ) {}
+
+    emit(data: AnalyticsEventData): void {
+        const { getCheckout, isEmbedded = false } = this.options;
+        const checkout = getCheckout && getCheckout();
+        const event: AnalyticsEvent = {
+            ...data,
+            cart: checkout ? mapToAnalyticsCart(checkout) : undefined,
+            isEmbedded,
+            timestamp: Date.now(),
+        };
+
+        [
+            ...this.sinks.map(sink => (value: AnalyticsEvent) => sink.send(value)),
+            ...this.listeners,
+        ].forEach(send => {
+            // Analytics should never prevent the shopper from checking out,
+            // therefore any error thrown by a sink is ignored.
+            try {
+                send(event);
+            } catch (error) {
+                return;
+            }
+        });
+    }
+
+    subscribe(listener: AnalyticsEventListener): () => void {
+        this.listeners = [...this.listeners, listener];
+
+        return () => {
+            this.listeners = this.listeners.filter(value => value !== listener);
+        };
+    }
+}
@@ -0,0 +1,12 @@
+enum AnalyticsEventType {
+    CouponApplied = 'coupon_applied',
+    CouponFailed = 'coupon_failed',
+    PaymentMethodSelected = 'payment_method_selected',
+    QuoteRequested = 'quote_requested',
+    ShippingOptionSelected = 'shipping_option_selected',
+    StepCompleted = 'step_completed',
+    StepViewed = 'step_viewed',
+    ValidationError = 'validation_error',
+}
+
+export default AnalyticsEventType;
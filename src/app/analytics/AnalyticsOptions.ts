@@ -0,0 +1,16 @@
+import AnalyticsSink from './AnalyticsSink';
+import AnalyticsSinkType from './AnalyticsSinkType';
+
+export default interface AnalyticsOptions {
+    /**
+     * The name of the Google Tag Manager data layer used by the `dataLayer`
+     * sink. Defaults to `dataLayer`.
+     */
+    dataLayerName?: string;
+    /**
+     * Embedded checkout runs inside an iframe on a different page, so events
+     * are not sent unless this option is enabled.
+     */
+    isEnabledInEmbeddedCheckout?: boolean;
+    sinks?: Array<AnalyticsSinkType | AnalyticsSink>;
+}
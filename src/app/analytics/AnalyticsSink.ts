@@ -0,0 +1,5 @@
+import AnalyticsEvent from './AnalyticsEvent';
+
+export default interface AnalyticsSink {
+    send(event: AnalyticsEvent): void;
+}
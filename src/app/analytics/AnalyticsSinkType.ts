@@ -0,0 +1,7 @@
+enum AnalyticsSinkType {
+    Console = 'console',
+    DataLayer = 'dataLayer',
+    Segment = 'segment',
+}
+
+export default AnalyticsSinkType;
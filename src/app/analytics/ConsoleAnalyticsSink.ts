@@ -0,0 +1,13 @@
+import AnalyticsEvent from './AnalyticsEvent';
+import AnalyticsSink from './AnalyticsSink';
+
+// tslint:disable:no-console
+export default class ConsoleAnalyticsSink implements AnalyticsSink {
+    constructor(
+        private console: Console = window.console
+    ) {}
+
+    send(event: AnalyticsEvent): void {
+        this.console.info(`[analytics] ${event.type}`, event);
+    }
+}
@@ -0,0 +1,69 @@
+import { getCheckout } from '../checkout/checkouts.mock';
+
+import mapToAnalyticsCart from './mapToAnalyticsCart';
+import AnalyticsEventType from './AnalyticsEventType';
+import DataLayerAnalyticsSink from './DataLayerAnalyticsSink';
+
+describe('DataLayerAnalyticsSink', () => {
+    let browserWindow: Window & { [key: string]: any };
+
+    beforeEach(() => {
+        browserWindow = {} as Window;
+    });
+
+    it('pushes event to data layer in ecommerce format', () => {
+        const sink = new DataLayerAnalyticsSink({}, browserWindow);
+        const cart = mapToAnalyticsCart(getCheckout());
+
+        sink.send({
+            type: AnalyticsEventType.ShippingOptionSelected,
+            cart,
+            consignmentId: 'consignment-1',
+            isEmbedded: false,
+            shippingCost: 10,
+            shippingOptionId: 'option-1',
+            shippingOptionName: 'Flat rate',
+            timestamp: 1000,
+        });
+
+        expect(browserWindow.dataLayer).toEqual([
+            { ecommerce: null },
+            {
+                event: 'add_shipping_info',
+                ecommerce: {
+                    currency: cart.currency,
+                    is_embedded: false,
+                    items: cart.lineItems.map(item => expect.objectContaining({
+                        item_name: item.name,
+                        quantity: item.quantity,
+                    })),
+                    shipping_tier: 'Flat rate',
+                    value: cart.grandTotal,
+                },
+            },
+        ]);
+    });
+
+    it('appends to existing data layer with custom name', () => {
+        const existingEntry = { event: 'gtm.js' };
+        const sink = new DataLayerAnalyticsSink({ dataLayerName: 'storeLayer' }, browserWindow);
+
+        browserWindow.storeLayer = [existingEntry];
+
+        sink.send({
+            type: AnalyticsEventType.StepViewed,
+            isEmbedded: false,
+            step: 'payment',
+            timestamp: 1000,
+        });
+
+        expect(browserWindow.storeLayer).toEqual([
+            existingEntry,
+            { ecommerce: null },
+            {
+                event: 'checkout_step_viewed',
+                ecommerce: expect.objectContaining({ checkout_step: 'payment', items: [] }),
+            },
+        ]);
+    });
+});
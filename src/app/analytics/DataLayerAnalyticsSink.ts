@@ -0,0 +1,88 @@
+import AnalyticsEvent from './AnalyticsEvent';
+import AnalyticsEventType from './AnalyticsEventType';
+import AnalyticsSink from './AnalyticsSink';
+
+export interface DataLayerAnalyticsSinkOptions {
+    dataLayerName?: string;
+}
+
+// Events that have an equivalent in the recommended events of Google
+// Analytics 4 use the recommended names, so they can be used in its ecommerce
+// reports.
+const EVENT_NAMES: { [key in AnalyticsEventType]: string } = {
+    [AnalyticsEventType.CouponApplied]: 'coupon_applied',
+    [AnalyticsEventType.CouponFailed]: 'coupon_failed',
+    [AnalyticsEventType.PaymentMethodSelected]: 'add_payment_info',
+    [AnalyticsEventType.QuoteRequested]: 'quote_requested',
+    [AnalyticsEventType.ShippingOptionSelected]: 'add_shipping_info',
+    [AnalyticsEventType.StepCompleted]: 'checkout_step_completed',
+    [AnalyticsEventType.StepViewed]: 'checkout_step_viewed',
+    [AnalyticsEventType.ValidationError]: 'checkout_validation_error',
+};
+
+/**
+ * Pushes events to the data layer of Google Tag Manager in the format of
+ * Google Analytics 4 ecommerce events.
+ */
+export default class DataLayerAnalyticsSink implements AnalyticsSink {
+    constructor(
+        private options: DataLayerAnalyticsSinkOptions = {},
+        private browserWindow: Window = window
+    ) {}
+
+    send(event: AnalyticsEvent): void {
+        const { dataLayerName = 'dataLayer' } = this.options;
+        const layers = this.browserWindow as unknown as { [key: string]: unknown[] | undefined };
+        const dataLayer = layers[dataLayerName] = layers[dataLayerName] || [];
+        const { cart } = event;
+
+        // The previous ecommerce object has to be cleared, otherwise its
+        // properties are merged into the next event.
+        dataLayer.push({ ecommerce: null });
+        dataLayer.push({
+            event: EVENT_NAMES[event.type],
+            ecommerce: {
+                ...getEventParameters(event),
+                currency: cart && cart.currency,
+                is_embedded: event.isEmbedded,
+                items: cart ? cart.lineItems.map(item => ({
+                    item_brand: item.brand,
+                    item_id: item.sku || String(item.productId),
+                    item_name: item.name,
+                    price: item.salePrice,
+                    quantity: item.quantity,
+                })) : [],
+                value: cart && cart.grandTotal,
+            },
+        });
+    }
+}
+
+function getEventParameters(event: AnalyticsEvent): { [key: string]: unknown } {
+    switch (event.type) {
+    case AnalyticsEventType.StepCompleted:
+    case AnalyticsEventType.StepViewed:
+        return { checkout_step: event.step };
+
+    case AnalyticsEventType.ShippingOptionSelected:
+        return { shipping_tier: event.shippingOptionName };
+
+    case AnalyticsEventType.PaymentMethodSelected:
+        return { payment_type: event.gatewayId ? `${event.gatewayId}.${event.methodId}` : event.methodId };
+
+    case AnalyticsEventType.CouponApplied:
+        return { coupon: event.code };
+
+    case AnalyticsEventType.CouponFailed:
+        return { coupon: event.code, error_message: event.errorMessage };
+
+    case AnalyticsEventType.QuoteRequested:
+        return { quote_id: event.quoteId, quote_type: event.quoteType };
+
+    case AnalyticsEventType.ValidationError:
+        return { fields: event.fields.join(','), form_id: event.form };
+
+    default:
+        return {};
+    }
+}
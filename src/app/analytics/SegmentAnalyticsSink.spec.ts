@@ -0,0 +1,51 @@
+import { getCheckout } from '../checkout/checkouts.mock';
+
+import mapToAnalyticsCart from './mapToAnalyticsCart';
+import AnalyticsEventType from './AnalyticsEventType';
+import SegmentAnalyticsSink, { SegmentAnalytics } from './SegmentAnalyticsSink';
+
+describe('SegmentAnalyticsSink', () => {
+    let analytics: SegmentAnalytics;
+
+    beforeEach(() => {
+        analytics = { track: jest.fn() };
+    });
+
+    it('tracks event using name from ecommerce specification', () => {
+        const sink = new SegmentAnalyticsSink(() => analytics);
+        const cart = mapToAnalyticsCart(getCheckout());
+
+        sink.send({
+            type: AnalyticsEventType.CouponFailed,
+            cart,
+            code: 'foobar',
+            errorMessage: 'Invalid coupon',
+            isEmbedded: true,
+            timestamp: 1000,
+        });
+
+        expect(analytics.track).toHaveBeenCalledWith('Coupon Denied', {
+            checkout_id: cart.id,
+            code: 'foobar',
+            currency: cart.currency,
+            errorMessage: 'Invalid coupon',
+            is_embedded: true,
+            products: cart.lineItems.map(item => expect.objectContaining({
+                name: item.name,
+                product_id: String(item.productId),
+            })),
+            value: cart.grandTotal,
+        });
+    });
+
+    it('does nothing if analytics is not loaded', () => {
+        const sink = new SegmentAnalyticsSink(() => undefined);
+
+        expect(() => sink.send({
+            type: AnalyticsEventType.StepViewed,
+            isEmbedded: false,
+            step: 'customer',
+            timestamp: 1000,
+        })).not.toThrow();
+    });
+});
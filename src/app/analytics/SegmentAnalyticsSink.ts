@@ -0,0 +1,54 @@
+import AnalyticsEvent from './AnalyticsEvent';
+import AnalyticsEventType from './AnalyticsEventType';
+import AnalyticsSink from './AnalyticsSink';
+
+export interface SegmentAnalytics {
+    track(event: string, properties?: { [key: string]: unknown }): void;
+}
+
+// Names are taken from the ecommerce specification of Segment where possible
+const EVENT_NAMES: { [key in AnalyticsEventType]: string } = {
+    [AnalyticsEventType.CouponApplied]: 'Coupon Applied',
+    [AnalyticsEventType.CouponFailed]: 'Coupon Denied',
+    [AnalyticsEventType.PaymentMethodSelected]: 'Payment Info Entered',
+    [AnalyticsEventType.QuoteRequested]: 'Quote Requested',
+    [AnalyticsEventType.ShippingOptionSelected]: 'Shipping Info Entered',
+    [AnalyticsEventType.StepCompleted]: 'Checkout Step Completed',
+    [AnalyticsEventType.StepViewed]: 'Checkout Step Viewed',
+    [AnalyticsEventType.ValidationError]: 'Checkout Validation Failed',
+};
+
+/**
+ * Tracks events using a Segment-style `analytics` object, which is expected
+ * to be loaded by the store.
+ */
+export default class SegmentAnalyticsSink implements AnalyticsSink {
+    constructor(
+        private getAnalytics: () => SegmentAnalytics | undefined = () => (window as unknown as { analytics?: SegmentAnalytics }).analytics
+    ) {}
+
+    send(event: AnalyticsEvent): void {
+        const analytics = this.getAnalytics();
+        const { cart, isEmbedded, timestamp, type, ...properties } = event;
+
+        if (!analytics) {
+            return;
+        }
+
+        analytics.track(EVENT_NAMES[type], {
+            ...properties,
+            checkout_id: cart && cart.id,
+            currency: cart && cart.currency,
+            is_embedded: isEmbedded,
+            products: cart ? cart.lineItems.map(item => ({
+                brand: item.brand,
+                name: item.name,
+                price: item.salePrice,
+                product_id: String(item.productId),
+                quantity: item.quantity,
+                sku: item.sku,
+            })) : [],
+            value: cart && cart.grandTotal,
+        });
+    }
+}
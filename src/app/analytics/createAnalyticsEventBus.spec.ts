@@ -0,0 +1,55 @@
+import { createCheckoutService, CheckoutService } from '@bigcommerce/checkout-sdk';
+
+import createAnalyticsEventBus from './createAnalyticsEventBus';
+import AnalyticsEventType from './AnalyticsEventType';
+import AnalyticsSinkType from './AnalyticsSinkType';
+
+describe('createAnalyticsEventBus()', () => {
+    let checkoutService: CheckoutService;
+
+    beforeEach(() => {
+        checkoutService = createCheckoutService();
+    });
+
+    it('sends events to configured sinks', () => {
+        const sink = { send: jest.fn() };
+        const bus = createAnalyticsEventBus(checkoutService, { sinks: [sink] });
+
+        bus.emit({ type: AnalyticsEventType.StepViewed, step: 'customer' });
+
+        expect(sink.send).toHaveBeenCalledWith(expect.objectContaining({ isEmbedded: false }));
+    });
+
+    it('creates built-in sinks from their types', () => {
+        const dataLayer: unknown[] = [];
+
+        (window as any).checkoutLayer = dataLayer;
+
+        createAnalyticsEventBus(checkoutService, {
+            dataLayerName: 'checkoutLayer',
+            sinks: [AnalyticsSinkType.DataLayer],
+        }).emit({ type: AnalyticsEventType.StepViewed, step: 'customer' });
+
+        expect(dataLayer).toContainEqual(expect.objectContaining({ event: 'checkout_step_viewed' }));
+
+        delete (window as any).checkoutLayer;
+    });
+
+    it('does not send events in embedded checkout by default', () => {
+        const sink = { send: jest.fn() };
+
+        createAnalyticsEventBus(checkoutService, { sinks: [sink] }, true)
+            .emit({ type: AnalyticsEventType.StepViewed, step: 'customer' });
+
+        expect(sink.send).not.toHaveBeenCalled();
+    });
+
+    it('sends events in embedded checkout if enabled', () => {
+        const sink = { send: jest.fn() };
+
+        createAnalyticsEventBus(checkoutService, { isEnabledInEmbeddedCheckout: true, sinks: [sink] }, true)
+            .emit({ type: AnalyticsEventType.StepViewed, step: 'customer' });
+
+        expect(sink.send).toHaveBeenCalledWith(expect.objectContaining({ isEmbedded: true }));
+    });
+});
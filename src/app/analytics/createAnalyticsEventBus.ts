@@ -0,0 +1,39 @@
+import { CheckoutService } from '@bigcommerce/checkout-sdk';
+
+import AnalyticsEventBus from './AnalyticsEventBus';
+import AnalyticsOptions from './AnalyticsOptions';
+import AnalyticsSink from './AnalyticsSink';
+import AnalyticsSinkType from './AnalyticsSinkType';
+import ConsoleAnalyticsSink from './ConsoleAnalyticsSink';
+import DataLayerAnalyticsSink from './DataLayerAnalyticsSink';
+import SegmentAnalyticsSink from './SegmentAnalyticsSink';
+
+export default function createAnalyticsEventBus(
+    checkoutService: CheckoutService,
+    { dataLayerName, isEnabledInEmbeddedCheckout = false, sinks = [] }: AnalyticsOptions = {},
+    isEmbeddedCheckout: boolean = false
+): AnalyticsEventBus {
+    const createSink = (sink: AnalyticsSinkType | AnalyticsSink): AnalyticsSink => {
+        switch (sink) {
+        case AnalyticsSinkType.Console:
+            return new ConsoleAnalyticsSink();
+
+        case AnalyticsSinkType.DataLayer:
+            return new DataLayerAnalyticsSink({ dataLayerName });
+
+        case AnalyticsSinkType.Segment:
+            return new SegmentAnalyticsSink();
+
+        default:
+            return sink;
+        }
+    };
+
+    return new AnalyticsEventBus(
+        isEmbeddedCheckout && !isEnabledInEmbeddedCheckout ? [] : sinks.map(createSink),
+        {
+            getCheckout: () => checkoutService.getState().data.getCheckout(),
+            isEmbedded: isEmbeddedCheckout,
+        }
+    );
+}
@@ -0,0 +1,12 @@
+export { default as AnalyticsContext, AnalyticsContextType } from './AnalyticsContext';
+export { default as AnalyticsEvent, AnalyticsCart, AnalyticsEventData, AnalyticsLineItem } from './AnalyticsEvent';
+export { default as AnalyticsEventBus, AnalyticsEventBusOptions, AnalyticsEventListener } from './AnalyticsEventBus';
+export { default as AnalyticsEventType } from './AnalyticsEventType';
+export { default as AnalyticsOptions } from './AnalyticsOptions';
+export { default as AnalyticsSink } from './AnalyticsSink';
+export { default as AnalyticsSinkType } from './AnalyticsSinkType';
+export { default as ConsoleAnalyticsSink } from './ConsoleAnalyticsSink';
+export { default as DataLayerAnalyticsSink, DataLayerAnalyticsSinkOptions } from './DataLayerAnalyticsSink';
+export { default as SegmentAnalyticsSink, SegmentAnalytics } from './SegmentAnalyticsSink';
+export { default as createAnalyticsEventBus } from './createAnalyticsEventBus';
+export { default as withAnalytics, WithAnalyticsProps } from './withAnalytics';
@@ -0,0 +1,26 @@
+import { Checkout } from '@bigcommerce/checkout-sdk';
+
+import { AnalyticsCart } from './AnalyticsEvent';
+
+export default function mapToAnalyticsCart({ cart, grandTotal }: Checkout): AnalyticsCart {
+    const { physicalItems, digitalItems } = cart.lineItems;
+
+    return {
+        baseAmount: cart.baseAmount,
+        cartAmount: cart.cartAmount,
+        currency: cart.currency.code,
+        discountAmount: cart.discountAmount,
+        grandTotal,
+        id: cart.id,
+        lineItems: [...physicalItems, ...digitalItems].map(item => ({
+            brand: item.brand,
+            id: String(item.id),
+            listPrice: item.listPrice,
+            name: item.name,
+            productId: item.productId,
+            quantity: item.quantity,
+            salePrice: item.salePrice,
+            sku: item.sku,
+        })),
+    };
+}
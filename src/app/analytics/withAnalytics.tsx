@@ -0,0 +1,11 @@
+import { createInjectHoc, InjectHoc } from '../common/hoc';
+
+import AnalyticsContext, { AnalyticsContextType } from './AnalyticsContext';
+
+export type WithAnalyticsProps = AnalyticsContextType;
+
+const withAnalytics: InjectHoc<WithAnalyticsProps> = createInjectHoc(AnalyticsContext, {
+    displayNamePrefix: 'WithAnalytics',
+});
+
+export default withAnalytics;
@@ -5,8 +5,9 @@ import React, { Component, ReactNode } from 'react';
 import { isEqualAddress, mapAddressFromFormValues } from '../address';
 import { withCheckout, CheckoutContextProps } from '../checkout';
 import { EMPTY_ARRAY } from '../common/utility';
+import { applyFormFieldRulesToGetter, withFormFieldRules, WithFormFieldRulesProps } from '../formFields';
 import { TranslatedString } from '../locale';
-import { getShippableItemsCount } from '../shipping';
+import { getShippableItemsCount, removeDeliverySchedule } from '../shipping';
 import { Legend } from '../ui/form';
 import { LoadingOverlay } from '../ui/loading';
 
@@ -36,7 +37,7 @@ export interface WithCheckoutBillingProps {
     updateCheckout(payload: CheckoutRequestBody): Promise<CheckoutSelectors>;
 }
 
-class Billing extends Component<BillingProps & WithCheckoutBillingProps> {
+class Billing extends Component<BillingProps & WithCheckoutBillingProps & WithFormFieldRulesProps> {
     async componentDidMount(): Promise<void> {
         const {
             initialize,
@@ -115,10 +116,10 @@ class Billing extends Component<BillingProps & WithCheckoutBillingProps> {
     };
 }
 
-function mapToBillingProps({
-    checkoutService,
-    checkoutState,
-}: CheckoutContextProps): WithCheckoutBillingProps | null {
+function mapToBillingProps(
+    { checkoutService, checkoutState }: CheckoutContextProps,
+    { formFieldRules }: WithFormFieldRulesProps
+): WithCheckoutBillingProps | null {
     const {
         data: {
             getCheckout,
@@ -162,8 +163,8 @@ function mapToBillingProps({
         countries: getBillingCountries() || EMPTY_ARRAY,
         countriesWithAutocomplete,
         customer,
-        customerMessage: checkout.customerMessage,
-        getFields: getBillingAddressFields,
+        customerMessage: removeDeliverySchedule(checkout.customerMessage),
+        getFields: applyFormFieldRulesToGetter(getBillingAddressFields, formFieldRules),
         googleMapsApiKey,
         initialize: checkoutService.loadBillingAddressFields,
         isInitializing: isLoadingBillingCountries(),
@@ -175,4 +176,4 @@ function mapToBillingProps({
     };
 }
 
-export default withCheckout(mapToBillingProps)(Billing);
+export default withFormFieldRules(withCheckout(mapToBillingProps)(Billing));
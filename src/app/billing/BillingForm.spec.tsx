@@ -1,8 +1,10 @@
+import { createCheckoutService } from '@bigcommerce/checkout-sdk';
 import { mount, ReactWrapper } from 'enzyme';
 import React from 'react';
 
-import { AddressForm, AddressSelect } from '../address';
+import { AddressForm, AddressSelect, AddressVerificationModal, AddressVerifier, AddressVerifierContext } from '../address';
 import { getAddressFormFieldsWithCustomRequired, getFormFields } from '../address/formField.mock';
+import { CheckoutProvider } from '../checkout';
 import { getStoreConfig } from '../config/config.mock';
 import { getCustomer } from '../customer/customers.mock';
 import { getCountries } from '../geography/countries.mock';
@@ -146,4 +148,58 @@ describe('BillingForm Component', () => {
 
         expect(defaultProps.onSubmit).not.toHaveBeenCalled();
     });
+
+    describe('when address can be standardized', () => {
+        let addressVerifier: AddressVerifier;
+
+        beforeEach(async () => {
+            addressVerifier = {
+                verify: jest.fn(address => Promise.resolve({
+                    suggestedAddress: { ...address, address1: '12345 Testing Wy' },
+                })),
+            };
+
+            component = mount(
+                <CheckoutProvider checkoutService={ createCheckoutService() }>
+                    <AddressVerifierContext.Provider value={ { addressVerifier } }>
+                        <LocaleContext.Provider value={ localeContext }>
+                            <BillingForm { ...defaultProps } />
+                        </LocaleContext.Provider>
+                    </AddressVerifierContext.Provider>
+                </CheckoutProvider>
+            );
+
+            component.find('form')
+                .simulate('submit');
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            component.update();
+        });
+
+        it('shows suggested address instead of submitting form', () => {
+            expect(component.find(AddressVerificationModal).prop('suggestedAddress'))
+                .toEqual(expect.objectContaining({ address1: '12345 Testing Wy' }));
+            expect(defaultProps.onSubmit).not.toHaveBeenCalled();
+        });
+
+        it('submits suggested address if shopper accepts it', () => {
+            component.find('#checkout-address-verification-accept').hostNodes()
+                .simulate('click');
+
+            expect(defaultProps.onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+                address1: '12345 Testing Wy',
+                orderComment: '',
+            }));
+        });
+
+        it('submits entered address if shopper keeps it', () => {
+            component.find('#checkout-address-verification-keep').hostNodes()
+                .simulate('click');
+
+            expect(defaultProps.onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+                address1: '12345 Testing Way',
+            }));
+        });
+    });
 });
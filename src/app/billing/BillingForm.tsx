@@ -3,7 +3,8 @@ import { withFormik, FormikProps } from 'formik';
 import React, { createRef, PureComponent, ReactNode, RefObject } from 'react';
 import { lazy } from 'yup';
 
-import { getAddressFormFieldsValidationSchema, getTranslateAddressError, isValidCustomerAddress, mapAddressToFormValues, AddressForm, AddressFormValues, AddressSelect } from '../address';
+import { getAddressFormFieldsValidationSchema, getTranslateAddressError, isValidCustomerAddress, mapAddressFromFormValues, mapAddressToFormValues, showSuggestedAddress, withAddressVerifier, AddressForm, AddressFormValues, AddressSelect, AddressVerificationFormModal, WithAddressVerifierProps } from '../address';
+import { withAnalytics, AnalyticsEventType, WithAnalyticsProps } from '../analytics';
 import { getCustomFormFieldsValidationSchema } from '../formFields';
 import { withLanguage, TranslatedString, WithLanguageProps } from '../locale';
 import { OrderComments } from '../orderComments';
@@ -35,7 +36,7 @@ interface BillingFormState {
     isResettingAddress: boolean;
 }
 
-class BillingForm extends PureComponent<BillingFormProps & WithLanguageProps & FormikProps<BillingFormValues>, BillingFormState> {
+class BillingForm extends PureComponent<BillingFormProps & WithAnalyticsProps & WithLanguageProps & WithAddressVerifierProps & FormikProps<BillingFormValues>, BillingFormState> {
     state: BillingFormState = {
         isResettingAddress: false,
     };
@@ -55,6 +56,7 @@ class BillingForm extends PureComponent<BillingFormProps & WithLanguageProps & F
             shouldShowOrderComments,
             values,
             methodId,
+            onSubmit,
         } = this.props;
 
         const shouldRenderStaticAddress = methodId === 'amazonpay';
@@ -68,7 +70,7 @@ class BillingForm extends PureComponent<BillingFormProps & WithLanguageProps & F
             isValidCustomerAddress(billingAddress, addresses, getFields(billingAddress.countryCode));
 
         return (
-            <Form autoComplete="on">
+            <Form autoComplete="on" onValidationError={ this.handleValidationError }>
                 { shouldRenderStaticAddress && billingAddress &&
                     <div className={ 'form-fieldset' }>
                         <StaticBillingAddress address={ billingAddress } />
@@ -115,6 +117,14 @@ class BillingForm extends PureComponent<BillingFormProps & WithLanguageProps & F
                         <TranslatedString id="common.continue_action" />
                     </Button>
                 </div>
+
+                <AddressVerificationFormModal
+                    countries={ countries }
+                    countriesWithAutocomplete={ countriesWithAutocomplete }
+                    getFields={ getFields }
+                    googleMapsApiKey={ googleMapsApiKey }
+                    onSubmit={ onSubmit }
+                />
             </Form>
         );
     }
@@ -136,13 +146,26 @@ class BillingForm extends PureComponent<BillingFormProps & WithLanguageProps & F
         }
     };
 
+    private handleValidationError: (fields: string[]) => void = fields => {
+        const { analytics } = this.props;
+
+        analytics.emit({ type: AnalyticsEventType.ValidationError, fields, form: 'billing-form' });
+    };
+
     private handleUseNewAddress: () => void = () => {
         this.handleSelectAddress({});
     };
 }
 
-export default withLanguage(withFormik<BillingFormProps & WithLanguageProps, BillingFormValues>({
-    handleSubmit: (values, { props: { onSubmit } }) => {
+export default withAnalytics(withAddressVerifier(withLanguage(withFormik<BillingFormProps & WithAnalyticsProps & WithLanguageProps & WithAddressVerifierProps, BillingFormValues>({
+    handleSubmit: async (values, { props: { addressVerifier, methodId, onSubmit }, setStatus }) => {
+        const { orderComment, ...addressValues } = values;
+        const address = methodId !== 'amazonpay' ? mapAddressFromFormValues(addressValues) : undefined;
+
+        if (await showSuggestedAddress(addressVerifier, address, setStatus)) {
+            return;
+        }
+
         onSubmit(values);
     },
     mapPropsToValues: ({ getFields, customerMessage, billingAddress }) => (
@@ -159,6 +182,7 @@ export default withLanguage(withFormik<BillingFormProps & WithLanguageProps, Bil
         language,
     }) => (
         !!billingAddress && getAddressFormFieldsValidationSchema({
+            countryCode: billingAddress.countryCode,
             language,
             formFields: getFields(billingAddress.countryCode),
         }).isValidSync(billingAddress)
@@ -171,10 +195,13 @@ export default withLanguage(withFormik<BillingFormProps & WithLanguageProps, Bil
         (lazy<Partial<AddressFormValues>>(values => getCustomFormFieldsValidationSchema({
             translate: getTranslateAddressError(language),
             formFields: getFields(values && values.countryCode),
+            values,
         }))) :
         (lazy<Partial<AddressFormValues>>(values => getAddressFormFieldsValidationSchema({
+            countryCode: values && values.countryCode,
             language,
             formFields: getFields(values && values.countryCode),
+            values,
         }))),
     enableReinitialize: true,
-})(BillingForm));
+})(BillingForm))));
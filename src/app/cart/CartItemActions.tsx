@@ -0,0 +1,87 @@
+import { LineItem } from '@bigcommerce/checkout-sdk';
+import React, { memo, useCallback, FunctionComponent } from 'react';
+
+import { TranslatedString } from '../locale';
+
+import './CartItemActions.scss';
+
+export interface CartItemActionsProps {
+    canSaveForLater: boolean;
+    isUpdating: boolean;
+    item: LineItem;
+    onChangeQuantity(item: LineItem, quantity: number): void;
+    onRemove(item: LineItem): void;
+    onSaveForLater(item: LineItem): void;
+}
+
+const CartItemActions: FunctionComponent<CartItemActionsProps> = ({
+    canSaveForLater,
+    isUpdating,
+    item,
+    onChangeQuantity,
+    onRemove,
+    onSaveForLater,
+}) => {
+    const handleDecrease = useCallback(() => onChangeQuantity(item, item.quantity - 1), [item, onChangeQuantity]);
+    const handleIncrease = useCallback(() => onChangeQuantity(item, item.quantity + 1), [item, onChangeQuantity]);
+    const handleRemove = useCallback(() => onRemove(item), [item, onRemove]);
+    const handleSaveForLater = useCallback(() => onSaveForLater(item), [item, onSaveForLater]);
+
+    return (
+        <div className="product-itemActions" data-test="cart-item-actions">
+            <div className="product-quantity">
+                <button
+                    className="product-quantityButton"
+                    data-test="cart-item-decrease-quantity"
+                    disabled={ isUpdating || item.quantity <= 1 }
+                    onClick={ handleDecrease }
+                    type="button"
+                >
+                    <span aria-hidden="true">-</span>
+                    <span className="is-srOnly">
+                        <TranslatedString id="cart.decrease_quantity_action" />
+                    </span>
+                </button>
+
+                <span className="product-quantityValue" data-test="cart-item-quantity">
+                    { item.quantity }
+                </span>
+
+                <button
+                    className="product-quantityButton"
+                    data-test="cart-item-increase-quantity"
+                    disabled={ isUpdating }
+                    onClick={ handleIncrease }
+                    type="button"
+                >
+                    <span aria-hidden="true">+</span>
+                    <span className="is-srOnly">
+                        <TranslatedString id="cart.increase_quantity_action" />
+                    </span>
+                </button>
+            </div>
+
+            <button
+                className="product-itemAction"
+                data-test="cart-item-remove"
+                disabled={ isUpdating }
+                onClick={ handleRemove }
+                type="button"
+            >
+                <TranslatedString id="cart.remove_item_action" />
+            </button>
+
+            { canSaveForLater && <button
+                className="product-itemAction"
+                data-test="cart-item-save-for-later"
+                disabled={ isUpdating }
+                onClick={ handleSaveForLater }
+                type="button"
+            >
+                <TranslatedString id="cart.save_for_later_action" />
+            </button> }
+        </div>
+    );
+};
+
+export default memo(CartItemActions);
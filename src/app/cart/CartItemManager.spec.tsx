@@ -0,0 +1,191 @@
+import { CheckoutSelectors } from '@bigcommerce/checkout-sdk';
+import { mount, ReactWrapper } from 'enzyme';
+import { noop } from 'lodash';
+import React from 'react';
+
+import { getStoreConfig } from '../config/config.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../locale';
+import { Alert } from '../ui/alert';
+
+import { getCart } from './carts.mock';
+import { getPhysicalItem } from './lineItem.mock';
+import CartItemActions from './CartItemActions';
+import CartItemManager, { CartItemManagerChildrenProps, CartItemManagerProps } from './CartItemManager';
+import CartItemService from './CartItemService';
+import SavedCartItemList from './SavedCartItemList';
+import SavedCartItemStorage from './SavedCartItemStorage';
+
+describe('CartItemManager', () => {
+    let cartItemService: CartItemService;
+    let defaultProps: CartItemManagerProps;
+    let localeContext: LocaleContextType;
+    let savedCartItemStorage: SavedCartItemStorage;
+
+    const mountComponent = (): ReactWrapper => mount(
+        <LocaleContext.Provider value={ localeContext }>
+            <CartItemManager { ...defaultProps } />
+        </LocaleContext.Provider>
+    );
+
+    const flushPromises = () => new Promise(resolve => setTimeout(resolve));
+
+    beforeEach(() => {
+        window.localStorage.clear();
+
+        cartItemService = new CartItemService();
+        savedCartItemStorage = new SavedCartItemStorage(window.localStorage);
+        localeContext = createLocaleContext(getStoreConfig());
+
+        jest.spyOn(cartItemService, 'updateItemQuantity').mockResolvedValue(undefined);
+        jest.spyOn(cartItemService, 'removeItem').mockResolvedValue(undefined);
+        jest.spyOn(cartItemService, 'addSavedItem').mockResolvedValue(undefined);
+
+        defaultProps = {
+            cart: getCart(),
+            cartItemService,
+            cartUrl: '/cart.php',
+            checkoutId: 'checkout-1',
+            children: ({ additionalContent, renderItemActions }: CartItemManagerChildrenProps) => <>
+                { renderItemActions(getPhysicalItem().id) }
+                { renderItemActions('gift-certificate') }
+                { additionalContent }
+            </>,
+            loadCheckout: jest.fn(() => Promise.resolve({} as CheckoutSelectors)),
+            savedCartItemStorage,
+        };
+    });
+
+    it('renders actions for line items that can be changed', () => {
+        const component = mountComponent();
+
+        expect(component.find(CartItemActions).length).toEqual(1);
+        expect(component.find(CartItemActions).prop('item')).toEqual(getPhysicalItem());
+    });
+
+    it('changes quantity of line item and reloads checkout', async () => {
+        const component = mountComponent();
+
+        component.find('[data-test="cart-item-increase-quantity"]').simulate('click');
+
+        await flushPromises();
+
+        expect(cartItemService.updateItemQuantity)
+            .toHaveBeenCalledWith(getCart().id, getPhysicalItem(), 2);
+        expect(defaultProps.loadCheckout)
+            .toHaveBeenCalledWith('checkout-1', expect.objectContaining({
+                params: {
+                    include: expect.arrayContaining(['consignments.availableShippingOptions']),
+                },
+            }));
+    });
+
+    it('removes line item', async () => {
+        const component = mountComponent();
+
+        component.find('[data-test="cart-item-remove"]').simulate('click');
+
+        await flushPromises();
+
+        expect(cartItemService.removeItem)
+            .toHaveBeenCalledWith(getCart().id, getPhysicalItem().id);
+        expect(defaultProps.loadCheckout).toHaveBeenCalled();
+    });
+
+    it('saves line item for later', async () => {
+        const component = mountComponent();
+
+        component.find('[data-test="cart-item-save-for-later"]').simulate('click');
+
+        await flushPromises();
+        component.update();
+
+        expect(cartItemService.removeItem)
+            .toHaveBeenCalledWith(getCart().id, getPhysicalItem().id);
+        expect(component.find(SavedCartItemList).prop('items').map(({ name }) => name))
+            .toEqual([getPhysicalItem().name]);
+        expect(savedCartItemStorage.getItems().length).toEqual(1);
+    });
+
+    it('does not offer to save gift wrapped line item for later', () => {
+        defaultProps.cart = {
+            ...getCart(),
+            lineItems: {
+                ...getCart().lineItems,
+                physicalItems: [{
+                    ...getPhysicalItem(),
+                    giftWrapping: { amount: 5, message: 'Happy birthday', name: 'Gift box' },
+                }],
+            },
+        };
+
+        const component = mountComponent();
+
+        expect(component.find('[data-test="cart-item-remove"]').length).toEqual(1);
+        expect(component.find('[data-test="cart-item-save-for-later"]').length).toEqual(0);
+    });
+
+    it('redirects to cart instead of reloading checkout once last line item is removed', async () => {
+        jest.spyOn(window.location, 'replace').mockImplementation(noop);
+
+        defaultProps.cart = {
+            ...getCart(),
+            lineItems: {
+                ...getCart().lineItems,
+                digitalItems: [],
+            },
+        };
+
+        const component = mountComponent();
+
+        component.find('[data-test="cart-item-save-for-later"]').simulate('click');
+
+        await flushPromises();
+
+        expect(savedCartItemStorage.getItems().length).toEqual(1);
+        expect(window.location.replace).toHaveBeenCalledWith('/cart.php');
+        expect(defaultProps.loadCheckout).not.toHaveBeenCalled();
+
+        (window.location.replace as jest.Mock).mockRestore();
+    });
+
+    it('moves saved item back to cart', async () => {
+        savedCartItemStorage.saveItem(getPhysicalItem());
+
+        const component = mountComponent();
+
+        component.find('[data-test="saved-cart-item-move-to-cart"]').simulate('click');
+
+        await flushPromises();
+        component.update();
+
+        expect(cartItemService.addSavedItem)
+            .toHaveBeenCalledWith(getCart().id, expect.objectContaining({ productId: 103, variantId: 71 }));
+        expect(component.find('[data-test="saved-cart-items"]').length).toEqual(0);
+        expect(savedCartItemStorage.getItems()).toEqual([]);
+    });
+
+    it('discards saved item', () => {
+        savedCartItemStorage.saveItem(getPhysicalItem());
+
+        const component = mountComponent();
+
+        component.find('[data-test="saved-cart-item-remove"]').simulate('click');
+
+        expect(cartItemService.addSavedItem).not.toHaveBeenCalled();
+        expect(savedCartItemStorage.getItems()).toEqual([]);
+    });
+
+    it('renders error if cart cannot be updated', async () => {
+        jest.spyOn(cartItemService, 'removeItem').mockRejectedValue(new Error());
+
+        const component = mountComponent();
+
+        component.find('[data-test="cart-item-remove"]').simulate('click');
+
+        await flushPromises();
+        component.update();
+
+        expect(component.find(Alert).text()).toEqual(localeContext.language.translate('cart.update_item_error'));
+        expect(defaultProps.loadCheckout).not.toHaveBeenCalled();
+    });
+});
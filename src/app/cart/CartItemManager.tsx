@@ -0,0 +1,174 @@
+import { Cart, LineItem, PhysicalItem } from '@bigcommerce/checkout-sdk';
+import React, { Component, Fragment, ReactNode } from 'react';
+
+import { TranslatedString } from '../locale';
+import { Alert, AlertType } from '../ui/alert';
+
+import refreshCheckout, { LoadCheckout } from './refreshCheckout';
+import CartItemActions from './CartItemActions';
+import CartItemService from './CartItemService';
+import SavedCartItem from './SavedCartItem';
+import SavedCartItemList from './SavedCartItemList';
+import SavedCartItemStorage from './SavedCartItemStorage';
+
+export interface CartItemManagerProps {
+    cart: Cart;
+    cartItemService?: CartItemService;
+    cartUrl: string;
+    checkoutId: string;
+    savedCartItemStorage?: SavedCartItemStorage;
+    loadCheckout: LoadCheckout;
+    children(props: CartItemManagerChildrenProps): ReactNode;
+}
+
+export interface CartItemManagerChildrenProps {
+    additionalContent: ReactNode;
+    renderItemActions(itemId: string | number): ReactNode;
+}
+
+interface CartItemManagerState {
+    error?: Error;
+    isUpdating: boolean;
+    savedItems: SavedCartItem[];
+}
+
+class CartItemManager extends Component<CartItemManagerProps, CartItemManagerState> {
+
+    private cartItemService: CartItemService;
+    private savedCartItemStorage: SavedCartItemStorage;
+
+    constructor(props: CartItemManagerProps) {
+        super(props);
+
+        this.cartItemService = props.cartItemService || new CartItemService();
+        this.savedCartItemStorage = props.savedCartItemStorage || new SavedCartItemStorage();
+
+        this.state = {
+            isUpdating: false,
+            savedItems: this.savedCartItemStorage.getItems(),
+        };
+    }
+
+    render(): ReactNode {
+        const { children } = this.props;
+        const { error, isUpdating, savedItems } = this.state;
+
+        return children({
+            additionalContent: <Fragment>
+                { error && <Alert type={ AlertType.Error }>
+                    <TranslatedString id="cart.update_item_error" />
+                </Alert> }
+
+                <SavedCartItemList
+                    isUpdating={ isUpdating }
+                    items={ savedItems }
+                    onMoveToCart={ this.handleMoveToCart }
+                    onRemove={ this.handleRemoveSavedItem }
+                />
+            </Fragment>,
+            renderItemActions: this.renderItemActions,
+        });
+    }
+
+    // Custom items and gift certificates cannot be changed through the
+    // storefront API, so they have no actions.
+    private renderItemActions: (itemId: string | number) => ReactNode = itemId => {
+        const { cart: { lineItems } } = this.props;
+        const { isUpdating } = this.state;
+        const item = [...lineItems.physicalItems, ...lineItems.digitalItems]
+            .find(({ id }) => id === itemId);
+
+        if (!item) {
+            return;
+        }
+
+        return <CartItemActions
+            canSaveForLater={ canSaveForLater(item) }
+            isUpdating={ isUpdating }
+            item={ item }
+            onChangeQuantity={ this.handleChangeQuantity }
+            onRemove={ this.handleRemove }
+            onSaveForLater={ this.handleSaveForLater }
+        />;
+    };
+
+    private handleChangeQuantity: (item: LineItem, quantity: number) => void = (item, quantity) => {
+        const { cart } = this.props;
+
+        this.updateCart(() => this.cartItemService.updateItemQuantity(cart.id, item, quantity));
+    };
+
+    private handleRemove: (item: LineItem) => void = item => {
+        const { cart } = this.props;
+
+        this.updateCart(
+            () => this.cartItemService.removeItem(cart.id, item.id),
+            isLastItemInCart(cart, item)
+        );
+    };
+
+    private handleSaveForLater: (item: LineItem) => void = item => {
+        const { cart } = this.props;
+
+        this.updateCart(async () => {
+            await this.cartItemService.removeItem(cart.id, item.id);
+
+            this.setState({ savedItems: this.savedCartItemStorage.saveItem(item) });
+        }, isLastItemInCart(cart, item));
+    };
+
+    private handleMoveToCart: (item: SavedCartItem) => void = item => {
+        const { cart } = this.props;
+
+        this.updateCart(async () => {
+            await this.cartItemService.addSavedItem(cart.id, item);
+
+            this.setState({ savedItems: this.savedCartItemStorage.removeItem(item.id) });
+        });
+    };
+
+    private handleRemoveSavedItem: (item: SavedCartItem) => void = item => {
+        this.setState({ savedItems: this.savedCartItemStorage.removeItem(item.id) });
+    };
+
+    private async updateCart(update: () => Promise<void>, isEmptyingCart: boolean = false): Promise<void> {
+        const { cartUrl, checkoutId, loadCheckout } = this.props;
+
+        this.setState({ error: undefined, isUpdating: true });
+
+        try {
+            await update();
+
+            // The cart is deleted along with its last item, so the checkout
+            // cannot be reloaded and the shopper is sent back to the cart.
+            if (isEmptyingCart) {
+                return window.location.replace(cartUrl);
+            }
+
+            await refreshCheckout(loadCheckout, checkoutId);
+        } catch (error) {
+            this.setState({ error });
+        } finally {
+            this.setState({ isUpdating: false });
+        }
+    }
+}
+
+// Items that are added by a promotion or gift wrapped cannot be added back to
+// the cart as they were, so they cannot be saved for later.
+function canSaveForLater(item: LineItem): boolean {
+    return !item.addedByPromotion && !(item as PhysicalItem).giftWrapping;
+}
+
+function isLastItemInCart({ lineItems }: Cart, item: LineItem): boolean {
+    const items = [
+        ...lineItems.physicalItems,
+        ...lineItems.digitalItems,
+        ...(lineItems.customItems || []),
+        ...lineItems.giftCertificates,
+    ];
+
+    return items.length === 1 && items[0].id === item.id;
+}
+
+export default CartItemManager;
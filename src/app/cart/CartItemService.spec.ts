@@ -0,0 +1,76 @@
+import { HttpClient } from '../common/http';
+
+import { getPhysicalItem } from './lineItem.mock';
+import CartItemService from './CartItemService';
+
+describe('CartItemService', () => {
+    let httpClient: HttpClient;
+    let service: CartItemService;
+
+    beforeEach(() => {
+        httpClient = new HttpClient({ baseUrl: '/api/storefront' });
+        service = new CartItemService(httpClient);
+
+        jest.spyOn(httpClient, 'put').mockResolvedValue(undefined);
+        jest.spyOn(httpClient, 'post').mockResolvedValue(undefined);
+        jest.spyOn(httpClient, 'delete').mockResolvedValue(undefined);
+    });
+
+    it('updates quantity of line item', async () => {
+        await service.updateItemQuantity('cart-1', getPhysicalItem(), 3);
+
+        expect(httpClient.put).toHaveBeenCalledWith('/carts/cart-1/items/666', {
+            body: { lineItem: { productId: 103, variantId: 71, quantity: 3 } },
+        });
+    });
+
+    it('removes line item', async () => {
+        await service.removeItem('cart-1', '666');
+
+        expect(httpClient.delete).toHaveBeenCalledWith('/carts/cart-1/items/666');
+    });
+
+    it('adds saved item back to cart', async () => {
+        await service.addSavedItem('cart-1', {
+            id: '103-71',
+            listPrice: 200,
+            name: 'Canvas Laundry Cart',
+            productId: 103,
+            quantity: 2,
+            variantId: 71,
+        });
+
+        expect(httpClient.post).toHaveBeenCalledWith('/carts/cart-1/items', {
+            body: { lineItems: [{ productId: 103, variantId: 71, quantity: 2 }] },
+        });
+    });
+
+    it('adds saved item back to cart with its options', async () => {
+        await service.addSavedItem('cart-1', {
+            id: '103-71-1:3-5:Hello',
+            listPrice: 200,
+            name: 'Canvas Laundry Cart',
+            options: [
+                { name: 'Size', nameId: 1, value: 'Large', valueId: 3 },
+                { name: 'Engraving', nameId: 5, value: 'Hello', valueId: null },
+            ],
+            productId: 103,
+            quantity: 2,
+            variantId: 71,
+        });
+
+        expect(httpClient.post).toHaveBeenCalledWith('/carts/cart-1/items', {
+            body: {
+                lineItems: [{
+                    productId: 103,
+                    variantId: 71,
+                    quantity: 2,
+                    optionSelections: [
+                        { optionId: 1, optionValue: 3 },
+                        { optionId: 5, optionValue: 'Hello' },
+                    ],
+                }],
+            },
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import { LineItem } from '@bigcommerce/checkout-sdk';
+
+import { HttpClient } from '../common/http';
+
+import SavedCartItem from './SavedCartItem';
+
+export const DEFAULT_STOREFRONT_API_PATH = '/api/storefront';
+
+export interface UpdateCartItemRequestBody {
+    lineItem: {
+        productId: number;
+        variantId: number;
+        quantity: number;
+    };
+}
+
+export interface AddCartItemsRequestBody {
+    lineItems: Array<{
+        productId: number;
+        variantId: number;
+        quantity: number;
+        optionSelections?: Array<{
+            optionId: number;
+            optionValue: number | string;
+        }>;
+    }>;
+}
+
+/**
+ * Updates the content of the cart through the storefront API, as the checkout
+ * SDK does not provide any methods for changing line items. The checkout has
+ * to be reloaded afterwards to reflect the changes.
+ */
+export default class CartItemService {
+    constructor(
+        private httpClient: HttpClient = new HttpClient({ baseUrl: DEFAULT_STOREFRONT_API_PATH })
+    ) { }
+
+    updateItemQuantity(cartId: string, { id, productId, variantId }: LineItem, quantity: number): Promise<void> {
+        return this.httpClient.put<void, UpdateCartItemRequestBody>(`/carts/${cartId}/items/${id}`, {
+            body: { lineItem: { productId, variantId, quantity } },
+        });
+    }
+
+    removeItem(cartId: string, itemId: string | number): Promise<void> {
+        return this.httpClient.delete(`/carts/${cartId}/items/${itemId}`);
+    }
+
+    addSavedItem(cartId: string, { options, productId, variantId, quantity }: SavedCartItem): Promise<void> {
+        // Options without a value ID, i.e.: text fields, are selected by value.
+        const optionSelections = options && options.map(({ nameId, value, valueId }) => ({
+            optionId: nameId,
+            optionValue: valueId === null ? value : valueId,
+        }));
+
+        return this.httpClient.post<void, AddCartItemsRequestBody>(`/carts/${cartId}/items`, {
+            body: { lineItems: [{ productId, variantId, quantity, optionSelections }] },
+        });
+    }
+}
@@ -1,11 +1,14 @@
 import { Checkout, ShopperCurrency, StoreCurrency } from '@bigcommerce/checkout-sdk';
-import React, { FunctionComponent } from 'react';
+import React, { Fragment, FunctionComponent } from 'react';
 
 import { withCheckout } from '../checkout';
+import { CurrencySelector } from '../currency';
 import OrderSummary from '../order/OrderSummary';
 
 import mapToCartSummaryProps from './mapToCartSummaryProps';
+import { LoadCheckout } from './refreshCheckout';
 import withRedeemable from './withRedeemable';
+import CartItemManager from './CartItemManager';
 import EditLink from './EditLink';
 import { RedeemableProps } from './Redeemable';
 
@@ -15,19 +18,33 @@ export type WithCheckoutCartSummaryProps = {
     storeCurrency: StoreCurrency;
     shopperCurrency: ShopperCurrency;
     storeCreditAmount?: number;
+    loadCheckout: LoadCheckout;
 } & RedeemableProps;
 
 const CartSummary: FunctionComponent<WithCheckoutCartSummaryProps> = ({
     cartUrl,
+    checkout,
+    loadCheckout,
     ...props
 }) => (
-    withRedeemable(OrderSummary)({
-        ...props,
-        cartUrl,
-        headerLink: (
-            <EditLink url={ cartUrl } />
-        ),
-    })
+    <CartItemManager
+        cart={ checkout.cart }
+        cartUrl={ cartUrl }
+        checkoutId={ checkout.id }
+        loadCheckout={ loadCheckout }
+    >
+        { ({ additionalContent, renderItemActions }) => withRedeemable(OrderSummary)({
+            ...props,
+            additionalContent,
+            cartUrl,
+            checkout,
+            headerLink: <Fragment>
+                <CurrencySelector />
+                <EditLink url={ cartUrl } />
+            </Fragment>,
+            renderItemActions,
+        }) }
+    </CartItemManager>
 );
 
 export default withCheckout(mapToCartSummaryProps)(CartSummary);
@@ -1,27 +1,42 @@
-import React, { memo, FunctionComponent } from 'react';
+import React, { memo, Fragment, FunctionComponent } from 'react';
 
 import { withCheckout } from '../checkout';
+import { CurrencySelector } from '../currency';
 import OrderSummaryDrawer from '../order/OrderSummaryDrawer';
 
 import mapToCartSummaryProps from './mapToCartSummaryProps';
 import withRedeemable from './withRedeemable';
+import CartItemManager from './CartItemManager';
 import { WithCheckoutCartSummaryProps } from './CartSummary';
 import EditLink from './EditLink';
 
 const CartSummaryDrawer: FunctionComponent<WithCheckoutCartSummaryProps> = ({
     cartUrl,
+    checkout,
+    loadCheckout,
     ...props
 }) => (
-    withRedeemable(OrderSummaryDrawer)({
-        ...props,
-        cartUrl,
-        headerLink: (
-            <EditLink
-                className="modal-header-link cart-modal-link"
-                url={ cartUrl }
-            />
-        ),
-    })
+    <CartItemManager
+        cart={ checkout.cart }
+        cartUrl={ cartUrl }
+        checkoutId={ checkout.id }
+        loadCheckout={ loadCheckout }
+    >
+        { ({ additionalContent, renderItemActions }) => withRedeemable(OrderSummaryDrawer)({
+            ...props,
+            additionalContent,
+            cartUrl,
+            checkout,
+            headerLink: <Fragment>
+                <CurrencySelector className="modal-header-currencySelector" />
+                <EditLink
+                    className="modal-header-link cart-modal-link"
+                    url={ cartUrl }
+                />
+            </Fragment>,
+            renderItemActions,
+        }) }
+    </CartItemManager>
 );
 
 export default withCheckout(mapToCartSummaryProps)(memo(CartSummaryDrawer));
@@ -2,6 +2,7 @@ import { RequestError } from '@bigcommerce/checkout-sdk';
 import { mount, ReactWrapper } from 'enzyme';
 import React from 'react';
 
+import { AnalyticsContext, AnalyticsEventBus, AnalyticsEventType } from '../analytics';
 import { getStoreConfig } from '../config/config.mock';
 import { createLocaleContext, LocaleContext, LocaleContextType, TranslatedString } from '../locale';
 import { Alert } from '../ui/alert';
@@ -170,4 +171,63 @@ describe('CartSummary Component', () => {
             });
         });
     });
+
+    describe('when coupon is submitted', () => {
+        let analytics: AnalyticsEventBus;
+
+        beforeEach(() => {
+            localeContext = createLocaleContext(getStoreConfig());
+            analytics = new AnalyticsEventBus();
+
+            jest.spyOn(analytics, 'emit');
+            applyGiftCertificate.mockRejectedValue(new Error());
+
+            component = mount(
+                <AnalyticsContext.Provider value={ { analytics } }>
+                    <LocaleContext.Provider value={ localeContext }>
+                        <Redeemable
+                            applyCoupon={ applyCoupon }
+                            applyGiftCertificate={ applyGiftCertificate }
+                            clearError={ clearError }
+                            onRemovedCoupon={ onRemovedCoupon }
+                            onRemovedGiftCertificate={ onRemovedGiftCertificate }
+                            shouldCollapseCouponCode={ false }
+                        />
+                    </LocaleContext.Provider>
+                </AnalyticsContext.Provider>
+            );
+
+            component.find('[data-test="redeemableEntry-input"]')
+                .simulate('change', { target: { value: 'foo', name: 'redeemableCode' } });
+        });
+
+        it('emits coupon applied event if coupon is applied', async () => {
+            applyCoupon.mockResolvedValue({});
+
+            component.find('[data-test="redeemableEntry-submit"]')
+                .simulate('click');
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            expect(analytics.emit).toHaveBeenCalledWith({
+                type: AnalyticsEventType.CouponApplied,
+                code: 'foo',
+            });
+        });
+
+        it('emits coupon failed event if coupon cannot be applied', async () => {
+            applyCoupon.mockRejectedValue(new Error('Invalid coupon'));
+
+            component.find('[data-test="redeemableEntry-submit"]')
+                .simulate('click');
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            expect(analytics.emit).toHaveBeenCalledWith({
+                type: AnalyticsEventType.CouponFailed,
+                code: 'foo',
+                errorMessage: 'Invalid coupon',
+            });
+        });
+    });
 });
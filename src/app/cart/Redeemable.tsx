@@ -5,6 +5,7 @@ import { noop } from 'lodash';
 import React, { memo, useCallback, Fragment, FunctionComponent, KeyboardEvent } from 'react';
 import { object, string } from 'yup';
 
+import { withAnalytics, AnalyticsEventType, WithAnalyticsProps } from '../analytics';
 import { preventDefault } from '../common/dom';
 import { withLanguage, TranslatedString, WithLanguageProps } from '../locale';
 import { Alert, AlertType } from '../ui/alert';
@@ -171,21 +172,27 @@ const RedeemableForm: FunctionComponent<Partial<RedeemableProps> & FormikProps<R
     </fieldset>;
 };
 
-export default withLanguage(withFormik<RedeemableProps & WithLanguageProps, RedeemableFormValues>({
+export default withAnalytics(withLanguage(withFormik<RedeemableProps & WithLanguageProps & WithAnalyticsProps, RedeemableFormValues>({
     mapPropsToValues() {
         return {
             redeemableCode: '',
         };
     },
 
-    async handleSubmit({ redeemableCode }, { props: { applyCoupon, applyGiftCertificate, clearError } }) {
+    async handleSubmit({ redeemableCode }, { props: { analytics, applyCoupon, applyGiftCertificate, clearError } }) {
         const code = redeemableCode.trim();
 
         try {
             await applyGiftCertificate(code);
         } catch (error) {
             clearError(error);
-            applyCoupon(code);
+
+            try {
+                await applyCoupon(code);
+                analytics.emit({ type: AnalyticsEventType.CouponApplied, code });
+            } catch (couponError) {
+                analytics.emit({ type: AnalyticsEventType.CouponFailed, code, errorMessage: couponError.message });
+            }
         }
     },
 
@@ -195,4 +202,4 @@ export default withLanguage(withFormik<RedeemableProps & WithLanguageProps, Rede
                 .required(language.translate('redeemable.code_required_error')),
         });
     },
-})(memo(Redeemable)));
+})(memo(Redeemable))));
@@ -0,0 +1,17 @@
+import { LineItemOption } from '@bigcommerce/checkout-sdk';
+
+export default interface SavedCartItem {
+    id: string;
+    productId: number;
+    variantId: number;
+    name: string;
+    quantity: number;
+    listPrice: number;
+    imageUrl?: string;
+    /**
+     * The options selected for the item, so it is added back to the cart
+     * with the same configuration. Items saved before options were persisted
+     * do not have any.
+     */
+    options?: LineItemOption[];
+}
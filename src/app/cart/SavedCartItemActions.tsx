@@ -0,0 +1,48 @@
+import React, { memo, useCallback, FunctionComponent } from 'react';
+
+import { TranslatedString } from '../locale';
+
+import SavedCartItem from './SavedCartItem';
+
+export interface SavedCartItemActionsProps {
+    isUpdating: boolean;
+    item: SavedCartItem;
+    onMoveToCart(item: SavedCartItem): void;
+    onRemove(item: SavedCartItem): void;
+}
+
+const SavedCartItemActions: FunctionComponent<SavedCartItemActionsProps> = ({
+    isUpdating,
+    item,
+    onMoveToCart,
+    onRemove,
+}) => {
+    const handleMoveToCart = useCallback(() => onMoveToCart(item), [item, onMoveToCart]);
+    const handleRemove = useCallback(() => onRemove(item), [item, onRemove]);
+
+    return (
+        <div className="product-itemActions" data-test="saved-cart-item-actions">
+            <button
+                className="product-itemAction"
+                data-test="saved-cart-item-move-to-cart"
+                disabled={ isUpdating }
+                onClick={ handleMoveToCart }
+                type="button"
+            >
+                <TranslatedString id="cart.move_to_cart_action" />
+            </button>
+
+            <button
+                className="product-itemAction"
+                data-test="saved-cart-item-remove"
+                disabled={ isUpdating }
+                onClick={ handleRemove }
+                type="button"
+            >
+                <TranslatedString id="cart.remove_item_action" />
+            </button>
+        </div>
+    );
+};
+
+export default memo(SavedCartItemActions);
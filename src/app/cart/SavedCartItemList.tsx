@@ -0,0 +1,69 @@
+import React, { memo, FunctionComponent } from 'react';
+
+import { TranslatedString } from '../locale';
+import { OrderSummaryItem, OrderSummaryItemProps } from '../order';
+
+import SavedCartItem from './SavedCartItem';
+import SavedCartItemActions from './SavedCartItemActions';
+
+export interface SavedCartItemListProps {
+    isUpdating: boolean;
+    items: SavedCartItem[];
+    onMoveToCart(item: SavedCartItem): void;
+    onRemove(item: SavedCartItem): void;
+}
+
+const SavedCartItemList: FunctionComponent<SavedCartItemListProps> = ({
+    isUpdating,
+    items,
+    onMoveToCart,
+    onRemove,
+}) => {
+    if (!items.length) {
+        return null;
+    }
+
+    return (
+        <div className="cart-savedItems" data-test="saved-cart-items">
+            <h3 className="cart-section-heading optimizedCheckout-contentPrimary">
+                <TranslatedString
+                    data={ { count: items.length } }
+                    id="cart.saved_items_heading"
+                />
+            </h3>
+
+            <ul className="productList">
+                { items.map(item =>
+                    <li
+                        className="productList-item is-visible"
+                        key={ item.id }
+                    >
+                        <OrderSummaryItem
+                            actions={ <SavedCartItemActions
+                                isUpdating={ isUpdating }
+                                item={ item }
+                                onMoveToCart={ onMoveToCart }
+                                onRemove={ onRemove }
+                            /> }
+                            amount={ item.listPrice * item.quantity }
+                            id={ item.id }
+                            image={ item.imageUrl && <img alt={ item.name } src={ item.imageUrl } /> }
+                            name={ item.name }
+                            productOptions={ getProductOptions(item) }
+                            quantity={ item.quantity }
+                        />
+                    </li>
+                ) }
+            </ul>
+        </div>
+    );
+};
+
+function getProductOptions({ options = [] }: SavedCartItem): OrderSummaryItemProps['productOptions'] {
+    return options.map(option => ({
+        testId: 'saved-cart-item-product-option',
+        content: `${option.name} ${option.value}`,
+    }));
+}
+
+export default memo(SavedCartItemList);
@@ -0,0 +1,73 @@
+import { getDigitalItem, getPhysicalItem } from './lineItem.mock';
+import SavedCartItemStorage, { SAVED_CART_ITEMS_STORAGE_KEY } from './SavedCartItemStorage';
+
+describe('SavedCartItemStorage', () => {
+    let storage: SavedCartItemStorage;
+
+    beforeEach(() => {
+        window.localStorage.clear();
+
+        storage = new SavedCartItemStorage(window.localStorage);
+    });
+
+    it('returns no items if nothing is saved', () => {
+        expect(storage.getItems()).toEqual([]);
+    });
+
+    it('returns no items if saved value is malformed', () => {
+        window.localStorage.setItem(SAVED_CART_ITEMS_STORAGE_KEY, '{');
+
+        expect(storage.getItems()).toEqual([]);
+    });
+
+    it('persists saved line items', () => {
+        storage.saveItem(getPhysicalItem());
+
+        expect(new SavedCartItemStorage(window.localStorage).getItems()).toEqual([{
+            id: '103-71-1:3',
+            imageUrl: '/images/canvas-laundry-cart.jpg',
+            listPrice: 200,
+            name: 'Canvas Laundry Cart',
+            options: [{ name: 'n', nameId: 1, value: 'v', valueId: 3 }],
+            productId: 103,
+            quantity: 1,
+            variantId: 71,
+        }]);
+    });
+
+    it('does not merge items saved for same variant with different options', () => {
+        storage.saveItem(getPhysicalItem());
+
+        expect(storage.saveItem({
+            ...getPhysicalItem(),
+            options: [{ name: 'Engraving', nameId: 5, value: 'Hello', valueId: null }],
+        }).map(({ id }) => id))
+            .toEqual(['103-71-1:3', '103-71-5:Hello']);
+    });
+
+    it('merges items saved for same variant', () => {
+        storage.saveItem(getPhysicalItem());
+
+        expect(storage.saveItem({ ...getPhysicalItem(), quantity: 2 }).map(({ quantity }) => quantity))
+            .toEqual([3]);
+    });
+
+    it('removes saved items', () => {
+        storage.saveItem(getPhysicalItem());
+        storage.saveItem(getDigitalItem());
+
+        expect(storage.removeItem('103-71-1:3').map(({ name }) => name))
+            .toEqual([getDigitalItem().name]);
+    });
+
+    it('returns saved items even if storage is full', () => {
+        jest.spyOn(window.localStorage.__proto__, 'setItem').mockImplementation(() => {
+            throw new Error('QuotaExceededError');
+        });
+
+        expect(storage.saveItem(getPhysicalItem()).length).toEqual(1);
+        expect(storage.getItems()).toEqual([]);
+
+        jest.restoreAllMocks();
+    });
+});
@@ -0,0 +1,46 @@
+import { LineItem } from '@bigcommerce/checkout-sdk';
+
+import { KeyedStorage } from '../common/storage';
+
+import SavedCartItem from './SavedCartItem';
+
+export const SAVED_CART_ITEMS_STORAGE_KEY = 'checkout.savedCartItems';
+
+/**
+ * Persists the items the shopper saves for later, so they are still listed
+ * when the shopper comes back to the checkout. Items saved for the same
+ * variant with the same options are merged.
+ */
+export default class SavedCartItemStorage {
+    private storage: KeyedStorage<SavedCartItem[]>;
+
+    constructor(storage?: Storage) {
+        this.storage = new KeyedStorage(SAVED_CART_ITEMS_STORAGE_KEY, isSavedCartItems, storage);
+    }
+
+    getItems(): SavedCartItem[] {
+        return this.storage.getItem() || [];
+    }
+
+    saveItem({ imageUrl, listPrice, name, options = [], productId, quantity, variantId }: LineItem): SavedCartItem[] {
+        const id = [
+            `${productId}-${variantId}`,
+            ...options.map(({ nameId, value, valueId }) => `${nameId}:${valueId === null ? value : valueId}`),
+        ].join('-');
+        const items = this.getItems();
+        const existingItem = items.find(item => item.id === id);
+
+        return this.storage.setItem(existingItem ?
+            items.map(item => item === existingItem ? { ...item, quantity: item.quantity + quantity } : item) :
+            [...items, { id, imageUrl, listPrice, name, options, productId, quantity, variantId }]
+        );
+    }
+
+    removeItem(id: string): SavedCartItem[] {
+        return this.storage.setItem(this.getItems().filter(item => item.id !== id));
+    }
+}
+
+function isSavedCartItems(value: unknown): value is SavedCartItem[] {
+    return Array.isArray(value);
+}
@@ -1,3 +1,4 @@
 export { default as EmptyCartMessage, EmptyCartMessageProps } from './EmptyCartMessage';
 export { default as Redeemable, RedeemableProps } from './Redeemable';
 export { default as mapToRedeemableProps } from './mapToRedeemableProps';
+export { default as refreshCheckout, LoadCheckout } from './refreshCheckout';
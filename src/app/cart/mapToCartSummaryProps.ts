@@ -7,6 +7,7 @@ export default function mapToCartSummaryProps(
     context: CheckoutContextProps
 ): WithCheckoutCartSummaryProps | null {
     const {
+        checkoutService,
         checkoutState: {
             data: { getConfig, getCustomer, getCheckout },
         },
@@ -28,6 +29,7 @@ export default function mapToCartSummaryProps(
         checkout,
         shopperCurrency: config.shopperCurrency,
         cartUrl: config.links.cartLink,
+        loadCheckout: checkoutService.loadCheckout,
         storeCurrency: config.currency,
         storeCreditAmount: isStoreCreditApplied ? Math.min(grandTotal, storeCredit) : undefined,
         ...redeemableProps,
@@ -0,0 +1,22 @@
+import { CheckoutParams, CheckoutSelectors, RequestOptions } from '@bigcommerce/checkout-sdk';
+
+export type LoadCheckout = (id: string, options?: RequestOptions<CheckoutParams>) => Promise<CheckoutSelectors>;
+
+/**
+ * Reloads the checkout along with the shipping options of its consignments, so
+ * the totals and shipping quotes reflect the latest content of the cart.
+ */
+export default function refreshCheckout(
+    loadCheckout: LoadCheckout,
+    checkoutId: string
+): Promise<CheckoutSelectors> {
+    return loadCheckout(checkoutId, {
+        params: {
+            include: [
+                'cart.lineItems.physicalItems.categoryNames',
+                'cart.lineItems.digitalItems.categoryNames',
+                'consignments.availableShippingOptions',
+            ] as any, // FIXME: Currently the enum is not exported so it can't be used here.
+        },
+    });
+}
@@ -1,4 +1,4 @@
-import React, { ComponentType, FunctionComponent } from 'react';
+import React, { ComponentType, FunctionComponent, ReactNode } from 'react';
 
 import { OrderSummaryProps, OrderSummarySubtotalsProps } from '../order';
 
@@ -9,17 +9,23 @@ import Redeemable from './Redeemable';
 export default function withRedeemable(
     OriginalComponent: ComponentType<OrderSummaryProps & OrderSummarySubtotalsProps>
 ): FunctionComponent<
-    WithCheckoutCartSummaryProps &
-    { headerLink?: any }
+    Omit<WithCheckoutCartSummaryProps, 'loadCheckout'> &
+    {
+        additionalContent?: ReactNode;
+        headerLink?: any;
+        renderItemActions?(itemId: string | number): ReactNode;
+    }
 > {
     return props => {
         const {
+            additionalContent,
             checkout,
             storeCurrency,
             shopperCurrency,
             headerLink,
             onRemovedCoupon,
             onRemovedGiftCertificate,
+            renderItemActions,
             storeCreditAmount,
             ...redeemableProps
         } = props;
@@ -27,6 +33,7 @@ export default function withRedeemable(
         return (
             <OriginalComponent
                 { ...mapToOrderSummarySubtotalsProps(checkout) }
+                additionalContent={ additionalContent }
                 additionalLineItems={
                     <Redeemable { ...{
                         ...redeemableProps,
@@ -39,6 +46,7 @@ export default function withRedeemable(
                 lineItems={ checkout.cart.lineItems }
                 onRemovedCoupon={ onRemovedCoupon }
                 onRemovedGiftCertificate={ onRemovedGiftCertificate }
+                renderItemActions={ renderItemActions }
                 shopperCurrency={ shopperCurrency }
                 storeCreditAmount={ storeCreditAmount }
                 storeCurrency={ storeCurrency }
@@ -0,0 +1,14 @@
+import { LineItem } from '@bigcommerce/checkout-sdk';
+
+import CartRestrictionAction from './CartRestrictionAction';
+import CartRestrictionRule from './CartRestrictionRule';
+
+export default interface CartRestriction {
+    action?: CartRestrictionAction;
+    matches: CartRestrictionMatch[];
+}
+
+export interface CartRestrictionMatch {
+    lineItems: LineItem[];
+    rule: CartRestrictionRule;
+}
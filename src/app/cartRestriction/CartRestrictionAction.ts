@@ -0,0 +1,7 @@
+enum CartRestrictionAction {
+    Block = 'block',
+    ForceQuote = 'force_quote',
+    Warn = 'warn',
+}
+
+export default CartRestrictionAction;
@@ -0,0 +1,83 @@
+import { mount } from 'enzyme';
+import React from 'react';
+
+import { getPhysicalItem } from '../cart/lineItem.mock';
+import { getStoreConfig } from '../config/config.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../locale';
+
+import CartRestriction from './CartRestriction';
+import CartRestrictionAction from './CartRestrictionAction';
+import CartRestrictionNotice from './CartRestrictionNotice';
+
+describe('CartRestrictionNotice', () => {
+    let localeContext: LocaleContextType;
+    let cartRestriction: CartRestriction;
+
+    beforeEach(() => {
+        localeContext = createLocaleContext(getStoreConfig());
+        cartRestriction = {
+            action: CartRestrictionAction.Block,
+            matches: [
+                {
+                    lineItems: [getPhysicalItem()],
+                    rule: {
+                        id: 'block',
+                        action: CartRestrictionAction.Block,
+                        conditions: { brands: ['OFS'] },
+                    },
+                },
+                {
+                    lineItems: [getPhysicalItem()],
+                    rule: {
+                        id: 'warn',
+                        action: CartRestrictionAction.Warn,
+                        conditions: { brands: ['OFS'] },
+                        message: 'Ships separately',
+                    },
+                },
+            ],
+        };
+    });
+
+    it('renders messages of rules with matching action', () => {
+        const component = mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <CartRestrictionNotice
+                    action={ CartRestrictionAction.Warn }
+                    cartRestriction={ cartRestriction }
+                />
+            </LocaleContext.Provider>
+        );
+
+        expect(component.find('li').map(item => item.text()))
+            .toEqual(['Ships separately']);
+    });
+
+    it('renders default message with names of matched products', () => {
+        const component = mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <CartRestrictionNotice
+                    action={ CartRestrictionAction.Block }
+                    cartRestriction={ cartRestriction }
+                />
+            </LocaleContext.Provider>
+        );
+
+        expect(component.find('li').text())
+            .toContain(getPhysicalItem().name);
+    });
+
+    it('renders nothing if no rule has matching action', () => {
+        const component = mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <CartRestrictionNotice
+                    action={ CartRestrictionAction.Warn }
+                    cartRestriction={ { matches: [cartRestriction.matches[0]] } }
+                />
+            </LocaleContext.Provider>
+        );
+
+        expect(component.html())
+            .toBeNull();
+    });
+});
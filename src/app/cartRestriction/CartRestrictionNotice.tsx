@@ -0,0 +1,44 @@
+import React, { FunctionComponent } from 'react';
+
+import { TranslatedString } from '../locale';
+import { Alert, AlertType } from '../ui/alert';
+
+import CartRestriction from './CartRestriction';
+import CartRestrictionAction from './CartRestrictionAction';
+
+export interface CartRestrictionNoticeProps {
+    action: CartRestrictionAction.Block | CartRestrictionAction.Warn;
+    cartRestriction: CartRestriction;
+}
+
+const CartRestrictionNotice: FunctionComponent<CartRestrictionNoticeProps> = ({
+    action,
+    cartRestriction: { matches },
+}) => {
+    const filteredMatches = matches.filter(({ rule }) => rule.action === action);
+
+    if (!filteredMatches.length) {
+        return null;
+    }
+
+    return (
+        <Alert
+            testId={ `cart-restriction-${action}-notice` }
+            type={ action === CartRestrictionAction.Block ? AlertType.Error : AlertType.Warning }
+        >
+            <ul className="cartRestriction-messages">
+                { filteredMatches.map(({ lineItems, rule }) =>
+                    <li key={ rule.id }>
+                        { rule.message || <TranslatedString
+                            data={ { products: lineItems.map(({ name }) => name).join(', ') } }
+                            id={ action === CartRestrictionAction.Block ?
+                                'cart.restricted_products_blocked_text' :
+                                'cart.restricted_products_warning_text' }
+                        /> }
+                    </li>) }
+            </ul>
+        </Alert>
+    );
+};
+
+export default CartRestrictionNotice;
@@ -0,0 +1,27 @@
+import CartRestrictionAction from './CartRestrictionAction';
+
+export default interface CartRestrictionRule {
+    id: string;
+    action: CartRestrictionAction;
+    conditions: CartRestrictionConditions;
+    message?: string;
+}
+
+/**
+ * A line item matches a rule only if it satisfies every condition that is
+ * specified. For conditions accepting a list of values, the line item only
+ * needs to match one of them.
+ */
+export interface CartRestrictionConditions {
+    brands?: string[];
+    categoryNames?: string[];
+    productOptions?: CartRestrictionProductOption[];
+    skus?: string[];
+    minQuantity?: number;
+    maxQuantity?: number;
+}
+
+export interface CartRestrictionProductOption {
+    name: string;
+    values?: string[];
+}
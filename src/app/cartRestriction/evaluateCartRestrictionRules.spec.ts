@@ -0,0 +1,97 @@
+import { getCart } from '../cart/carts.mock';
+import { getDigitalItem, getPhysicalItem } from '../cart/lineItem.mock';
+
+import evaluateCartRestrictionRules from './evaluateCartRestrictionRules';
+import CartRestrictionAction from './CartRestrictionAction';
+import CartRestrictionRule from './CartRestrictionRule';
+
+describe('evaluateCartRestrictionRules()', () => {
+    function createRule(
+        conditions: CartRestrictionRule['conditions'],
+        action: CartRestrictionAction = CartRestrictionAction.Warn
+    ): CartRestrictionRule {
+        return { id: 'rule', action, conditions };
+    }
+
+    it('returns no matches if cart is not available', () => {
+        expect(evaluateCartRestrictionRules(undefined, [createRule({ brands: ['OFS'] })]))
+            .toEqual({ matches: [] });
+    });
+
+    it('returns no matches if there are no rules', () => {
+        expect(evaluateCartRestrictionRules(getCart(), []))
+            .toEqual({ matches: [] });
+    });
+
+    it('matches line items by brand', () => {
+        const rule = createRule({ brands: ['OFS', 'Nike'] });
+
+        expect(evaluateCartRestrictionRules(getCart(), [rule]).matches)
+            .toEqual([{ lineItems: [getPhysicalItem()], rule }]);
+    });
+
+    it('matches line items by SKU', () => {
+        const rule = createRule({ skus: ['CLX'] });
+
+        expect(evaluateCartRestrictionRules(getCart(), [rule]).matches)
+            .toEqual([{ lineItems: [getDigitalItem()], rule }]);
+    });
+
+    it('matches line items by category name', () => {
+        const rule = createRule({ categoryNames: ['Audio Books'] });
+
+        expect(evaluateCartRestrictionRules(getCart(), [rule]).matches)
+            .toEqual([{ lineItems: [getDigitalItem()], rule }]);
+    });
+
+    it('matches line items by product option name', () => {
+        const rule = createRule({ productOptions: [{ name: 'n' }] });
+
+        expect(evaluateCartRestrictionRules(getCart(), [rule]).matches)
+            .toEqual([{ lineItems: [getPhysicalItem()], rule }]);
+    });
+
+    it('matches line items by product option value', () => {
+        expect(evaluateCartRestrictionRules(getCart(), [createRule({ productOptions: [{ name: 'n', values: ['v'] }] })]).matches)
+            .toHaveLength(1);
+
+        expect(evaluateCartRestrictionRules(getCart(), [createRule({ productOptions: [{ name: 'n', values: ['x'] }] })]).matches)
+            .toHaveLength(0);
+    });
+
+    it('matches line items by quantity thresholds', () => {
+        expect(evaluateCartRestrictionRules(getCart(), [createRule({ minQuantity: 2 })]).matches)
+            .toHaveLength(0);
+
+        expect(evaluateCartRestrictionRules(getCart(), [createRule({ minQuantity: 1, maxQuantity: 1 })]).matches[0].lineItems)
+            .toHaveLength(2);
+    });
+
+    it('only matches line items satisfying every condition', () => {
+        const rule = createRule({ brands: ['OFS'], categoryNames: ['Ebooks'] });
+
+        expect(evaluateCartRestrictionRules(getCart(), [rule]).matches)
+            .toHaveLength(0);
+    });
+
+    it('returns most restrictive action of matched rules', () => {
+        const rules = [
+            { id: 'warn', action: CartRestrictionAction.Warn, conditions: { brands: ['OFS'] } },
+            { id: 'block', action: CartRestrictionAction.Block, conditions: { skus: ['CLX'] } },
+            { id: 'quote', action: CartRestrictionAction.ForceQuote, conditions: { brands: ['OFS'] } },
+            { id: 'unmatched', action: CartRestrictionAction.Block, conditions: { brands: ['Nike'] } },
+        ];
+
+        expect(evaluateCartRestrictionRules(getCart(), rules).action)
+            .toEqual(CartRestrictionAction.Block);
+
+        expect(evaluateCartRestrictionRules(getCart(), rules.slice(0, 1)).action)
+            .toEqual(CartRestrictionAction.Warn);
+
+        expect(evaluateCartRestrictionRules(getCart(), [rules[0], rules[2]]).action)
+            .toEqual(CartRestrictionAction.ForceQuote);
+
+        expect(evaluateCartRestrictionRules(getCart(), rules.slice(3)).action)
+            .toBeUndefined();
+    });
+});
@@ -0,0 +1,42 @@
+import { Cart } from '@bigcommerce/checkout-sdk';
+
+import isLineItemMatchingConditions from './isLineItemMatchingConditions';
+import CartRestriction, { CartRestrictionMatch } from './CartRestriction';
+import CartRestrictionAction from './CartRestrictionAction';
+import CartRestrictionRule from './CartRestrictionRule';
+
+// Actions are listed in order of precedence, from the most restrictive one.
+const ACTION_PRECEDENCE = [
+    CartRestrictionAction.Block,
+    CartRestrictionAction.ForceQuote,
+    CartRestrictionAction.Warn,
+];
+
+export default function evaluateCartRestrictionRules(
+    cart: Cart | undefined,
+    rules: CartRestrictionRule[]
+): CartRestriction {
+    if (!cart || !rules.length) {
+        return { matches: [] };
+    }
+
+    const lineItems = [
+        ...cart.lineItems.physicalItems,
+        ...cart.lineItems.digitalItems,
+    ];
+
+    const matches = rules.reduce<CartRestrictionMatch[]>((result, rule) => {
+        const matchedLineItems = lineItems.filter(lineItem =>
+            isLineItemMatchingConditions(lineItem, rule.conditions)
+        );
+
+        return matchedLineItems.length ?
+            [...result, { lineItems: matchedLineItems, rule }] :
+            result;
+    }, []);
+
+    return {
+        action: ACTION_PRECEDENCE.find(action => matches.some(({ rule }) => rule.action === action)),
+        matches,
+    };
+}
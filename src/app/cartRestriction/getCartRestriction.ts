@@ -0,0 +1,15 @@
+import { CheckoutSelectors } from '@bigcommerce/checkout-sdk';
+import { createSelector } from 'reselect';
+
+import { EMPTY_ARRAY } from '../common/utility';
+
+import evaluateCartRestrictionRules from './evaluateCartRestrictionRules';
+import CartRestrictionRule from './CartRestrictionRule';
+
+const getCartRestriction = createSelector(
+    ({ data }: CheckoutSelectors) => data.getCart(),
+    (_: CheckoutSelectors, rules: CartRestrictionRule[] = EMPTY_ARRAY) => rules,
+    evaluateCartRestrictionRules
+);
+
+export default getCartRestriction;
@@ -0,0 +1,6 @@
+export { default as CartRestriction, CartRestrictionMatch } from './CartRestriction';
+export { default as CartRestrictionAction } from './CartRestrictionAction';
+export { default as CartRestrictionNotice, CartRestrictionNoticeProps } from './CartRestrictionNotice';
+export { default as CartRestrictionRule, CartRestrictionConditions, CartRestrictionProductOption } from './CartRestrictionRule';
+export { default as evaluateCartRestrictionRules } from './evaluateCartRestrictionRules';
+export { default as getCartRestriction } from './getCartRestriction';
@@ -0,0 +1,37 @@
+import { LineItem } from '@bigcommerce/checkout-sdk';
+import { intersection, some } from 'lodash';
+
+import { CartRestrictionConditions } from './CartRestrictionRule';
+
+export default function isLineItemMatchingConditions(
+    { brand, categoryNames = [], options = [], quantity, sku }: LineItem,
+    { brands, categoryNames: restrictedCategoryNames, maxQuantity, minQuantity, productOptions, skus }: CartRestrictionConditions
+): boolean {
+    if (brands && brands.indexOf(brand) === -1) {
+        return false;
+    }
+
+    if (skus && skus.indexOf(sku) === -1) {
+        return false;
+    }
+
+    if (restrictedCategoryNames && !intersection(restrictedCategoryNames, categoryNames).length) {
+        return false;
+    }
+
+    if (productOptions && !productOptions.some(({ name, values }) =>
+        some(options, option => option.name === name && (!values || values.indexOf(option.value) >= 0))
+    )) {
+        return false;
+    }
+
+    if (minQuantity !== undefined && quantity < minQuantity) {
+        return false;
+    }
+
+    if (maxQuantity !== undefined && quantity > maxQuantity) {
+        return false;
+    }
+
+    return true;
+}
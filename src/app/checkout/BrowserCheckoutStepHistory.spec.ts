@@ -0,0 +1,84 @@
+import BrowserCheckoutStepHistory from './BrowserCheckoutStepHistory';
+import CheckoutStepType from './CheckoutStepType';
+
+describe('BrowserCheckoutStepHistory', () => {
+    let stepHistory: BrowserCheckoutStepHistory;
+
+    beforeEach(() => {
+        window.history.replaceState(null, '', '/checkout?setCurrencyId=1');
+        stepHistory = new BrowserCheckoutStepHistory();
+    });
+
+    afterEach(() => {
+        window.history.replaceState(null, '', '/');
+    });
+
+    it('returns step linked by URL hash', () => {
+        window.history.replaceState(null, '', '/checkout#payment');
+
+        expect(stepHistory.getStepType())
+            .toEqual(CheckoutStepType.Payment);
+    });
+
+    it('returns nothing if URL hash does not link to step', () => {
+        window.history.replaceState(null, '', '/checkout#foobar');
+
+        expect(stepHistory.getStepType())
+            .toBeUndefined();
+    });
+
+    it('adds history entry for step without changing rest of URL', () => {
+        const { length } = window.history;
+
+        stepHistory.push(CheckoutStepType.Shipping);
+
+        expect(window.history.length)
+            .toEqual(length + 1);
+        expect(window.location.pathname + window.location.search + window.location.hash)
+            .toEqual('/checkout?setCurrencyId=1#shipping');
+    });
+
+    it('does not add history entry if URL already links to step', () => {
+        stepHistory.push(CheckoutStepType.Shipping);
+
+        const { length } = window.history;
+
+        stepHistory.push(CheckoutStepType.Shipping);
+
+        expect(window.history.length)
+            .toEqual(length);
+    });
+
+    it('replaces current history entry with step', () => {
+        const { length } = window.history;
+
+        stepHistory.replace(CheckoutStepType.Billing);
+
+        expect(window.history.length)
+            .toEqual(length);
+        expect(window.location.hash)
+            .toEqual('#billing');
+    });
+
+    it('notifies subscriber when shopper navigates between history entries', () => {
+        const subscriber = jest.fn();
+
+        stepHistory.subscribe(subscriber);
+        window.history.replaceState(null, '', '/checkout#customer');
+        window.dispatchEvent(new PopStateEvent('popstate'));
+
+        expect(subscriber)
+            .toHaveBeenCalledWith(CheckoutStepType.Customer);
+    });
+
+    it('stops notifying subscriber once it unsubscribes', () => {
+        const subscriber = jest.fn();
+        const unsubscribe = stepHistory.subscribe(subscriber);
+
+        unsubscribe();
+        window.dispatchEvent(new PopStateEvent('popstate'));
+
+        expect(subscriber)
+            .not.toHaveBeenCalled();
+    });
+});
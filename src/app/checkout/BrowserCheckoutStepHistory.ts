@@ -0,0 +1,40 @@
+import { includes, values } from 'lodash';
+
+import CheckoutStepHistory from './CheckoutStepHistory';
+import CheckoutStepType from './CheckoutStepType';
+
+export default class BrowserCheckoutStepHistory implements CheckoutStepHistory {
+    constructor(
+        private browserWindow: Window = window
+    ) {}
+
+    getStepType(): CheckoutStepType | undefined {
+        const type = this.browserWindow.location.hash.replace(/^#/, '');
+
+        return includes(values(CheckoutStepType), type) ? type as CheckoutStepType : undefined;
+    }
+
+    push(type: CheckoutStepType): void {
+        if (this.getStepType() === type) {
+            return;
+        }
+
+        this.browserWindow.history.pushState({ checkoutStepType: type }, '', `#${type}`);
+    }
+
+    replace(type: CheckoutStepType): void {
+        if (this.getStepType() === type) {
+            return;
+        }
+
+        this.browserWindow.history.replaceState({ checkoutStepType: type }, '', `#${type}`);
+    }
+
+    subscribe(subscriber: (type?: CheckoutStepType) => void): () => void {
+        const handlePopState = () => subscriber(this.getStepType());
+
+        this.browserWindow.addEventListener('popstate', handlePopState);
+
+        return () => this.browserWindow.removeEventListener('popstate', handlePopState);
+    }
+}
@@ -6,19 +6,23 @@ import React, { FunctionComponent } from 'react';
 import { act } from 'react-dom/test-utils';
 
 import { BillingProps } from '../billing';
+import { getBillingAddress } from '../billing/billingAddresses.mock';
 import Billing from '../billing/Billing';
 import { getCart } from '../cart/carts.mock';
 import { getPhysicalItem } from '../cart/lineItem.mock';
+import { CartRestrictionAction } from '../cartRestriction';
 import { createErrorLogger, CustomError, ErrorModal } from '../common/error';
 import { getStoreConfig } from '../config/config.mock';
 import { CustomerInfo, CustomerInfoProps, CustomerProps, CustomerViewType } from '../customer';
-import { getCustomer } from '../customer/customers.mock';
+import { getCustomer, getGuestCustomer } from '../customer/customers.mock';
 import Customer from '../customer/Customer';
 import { createEmbeddedCheckoutStylesheet, createEmbeddedCheckoutSupport } from '../embeddedCheckout';
 import { getLanguageService, LocaleProvider } from '../locale';
 import { PaymentProps } from '../payment';
 import Payment from '../payment/Payment';
 import { PromotionBannerList } from '../promotion';
+import { mapToRestrictedBrandsRule, Quote, QuoteRequestService, QuoteStatus, QuoteSummary, QuoteType, RestrictedBrandsModal } from '../quoteRequest';
+import QuoteRequest from '../quoteRequest/QuoteRequest';
 import { ShippingProps, StaticConsignment } from '../shipping';
 import { getConsignment } from '../shipping/consignment.mock';
 import { getShippingAddress } from '../shipping/shipping-addresses.mock';
@@ -26,10 +30,13 @@ import Shipping from '../shipping/Shipping';
 
 import { getCheckout, getCheckoutWithPromotions } from './checkouts.mock';
 import getCheckoutStepStatuses from './getCheckoutStepStatuses';
+import { createCheckoutStepRegistry } from './steps';
+import BrowserCheckoutStepHistory from './BrowserCheckoutStepHistory';
 import Checkout, { CheckoutProps, WithCheckoutProps } from './Checkout';
 import CheckoutProvider from './CheckoutProvider';
 import CheckoutStep, { CheckoutStepProps } from './CheckoutStep';
 import CheckoutStepType from './CheckoutStepType';
+import NoopCheckoutStepHistory from './NoopCheckoutStepHistory';
 
 describe('Checkout', () => {
     let CheckoutTest: FunctionComponent<CheckoutProps>;
@@ -59,6 +66,8 @@ describe('Checkout', () => {
             embeddedSupport: createEmbeddedCheckoutSupport(getLanguageService()),
             errorLogger: createErrorLogger(),
             createStepTracker: () => stepTracker,
+            stepHistory: new NoopCheckoutStepHistory(),
+            stepRegistry: createCheckoutStepRegistry(),
         };
 
         jest.spyOn(checkoutService, 'loadCheckout')
@@ -313,6 +322,199 @@ describe('Checkout', () => {
             .toEqual(checkout.promotions);
     });
 
+    describe('when navigating with browser history', () => {
+        let mountedContainer: ReactWrapper | undefined;
+
+        function getStep(container: ReactWrapper, type: CheckoutStepType): ReactWrapper<CheckoutStepProps> {
+            return (container.find(CheckoutStep) as ReactWrapper<CheckoutStepProps>)
+                .findWhere(step => step.prop('type') === type)
+                .at(0);
+        }
+
+        async function mountWithHistory(): Promise<ReactWrapper> {
+            const container = mount(<CheckoutTest { ...defaultProps } stepHistory={ new BrowserCheckoutStepHistory() } />);
+
+            await new Promise(resolve => process.nextTick(resolve));
+            container.update();
+            mountedContainer = container;
+
+            return container;
+        }
+
+        beforeEach(() => {
+            window.history.replaceState(null, '', '/checkout');
+
+            // Customer step is complete but still editable by guest shopper
+            jest.spyOn(checkoutState.data, 'getCustomer')
+                .mockReturnValue(getGuestCustomer());
+
+            jest.spyOn(checkoutState.data, 'getBillingAddress')
+                .mockReturnValue(getBillingAddress());
+        });
+
+        afterEach(() => {
+            // Mounted instances would otherwise keep responding to history changes
+            if (mountedContainer) {
+                mountedContainer.unmount();
+                mountedContainer = undefined;
+            }
+
+            window.history.replaceState(null, '', '/');
+        });
+
+        it('links to default step once checkout is loaded', async () => {
+            await mountWithHistory();
+
+            expect(window.location.hash)
+                .toEqual('#shipping');
+        });
+
+        it('navigates to linked step if it is editable', async () => {
+            window.history.replaceState(null, '', '/checkout#customer');
+
+            const container = await mountWithHistory();
+
+            expect(getStep(container, CheckoutStepType.Customer).prop('isActive'))
+                .toEqual(true);
+            expect(window.location.hash)
+                .toEqual('#customer');
+        });
+
+        it('falls back to default step if linked step is not editable', async () => {
+            window.history.replaceState(null, '', '/checkout#payment');
+
+            const container = await mountWithHistory();
+
+            expect(getStep(container, CheckoutStepType.Payment).prop('isActive'))
+                .toEqual(false);
+            expect(getStep(container, CheckoutStepType.Shipping).prop('isActive'))
+                .toEqual(true);
+            expect(window.location.hash)
+                .toEqual('#shipping');
+        });
+
+        it('adds history entry when shopper edits step', async () => {
+            const container = await mountWithHistory();
+            const { length } = window.history;
+
+            // tslint:disable-next-line:no-non-null-assertion
+            getStep(container, CheckoutStepType.Customer).prop('onEdit')!(CheckoutStepType.Customer);
+
+            expect(window.history.length)
+                .toEqual(length + 1);
+            expect(window.location.hash)
+                .toEqual('#customer');
+        });
+
+        it('navigates to step when shopper goes back to it', async () => {
+            const container = await mountWithHistory();
+
+            window.history.replaceState(null, '', '/checkout#customer');
+            window.dispatchEvent(new PopStateEvent('popstate'));
+            container.update();
+
+            expect(getStep(container, CheckoutStepType.Customer).prop('isActive'))
+                .toEqual(true);
+        });
+
+        it('does not navigate to step that is not editable when shopper goes forward to it', async () => {
+            const container = await mountWithHistory();
+
+            window.history.replaceState(null, '', '/checkout#payment');
+            window.dispatchEvent(new PopStateEvent('popstate'));
+            container.update();
+
+            expect(getStep(container, CheckoutStepType.Payment).prop('isActive'))
+                .toEqual(false);
+            expect(window.location.hash)
+                .toEqual('#shipping');
+        });
+
+        it('stops listening to history changes when unmounted', async () => {
+            const container = await mountWithHistory();
+
+            container.unmount();
+            mountedContainer = undefined;
+            window.history.replaceState(null, '', '/checkout#customer');
+            window.dispatchEvent(new PopStateEvent('popstate'));
+
+            expect(window.location.hash)
+                .toEqual('#customer');
+        });
+    });
+
+    describe('when step is registered', () => {
+        let GiftMessage: FunctionComponent<{ onContinue(): void }>;
+
+        beforeEach(() => {
+            GiftMessage = () => <div data-test="gift-message" />;
+
+            defaultProps.stepRegistry.register({
+                component: GiftMessage,
+                heading: 'Gift message',
+                order: 30,
+                type: CheckoutStepType.Billing,
+                getProps: ({ navigateToNextStep }) => ({ onContinue: navigateToNextStep }),
+                getStatus: () => ({
+                    type: CheckoutStepType.Billing,
+                    isActive: false,
+                    isComplete: true,
+                    isEditable: true,
+                    isRequired: true,
+                }),
+                renderSummary: () => <div data-test="gift-message-summary" />,
+            });
+        });
+
+        it('renders registered step instead of built-in step of same type', async () => {
+            const container = mount(<CheckoutTest { ...defaultProps } />);
+
+            (container.find(CheckoutStep) as ReactWrapper<CheckoutStepProps>)
+                .findWhere(step => step.prop('type') === CheckoutStepType.Billing)
+                .at(0)
+                .prop('onEdit')(CheckoutStepType.Billing);
+
+            await new Promise(resolve => process.nextTick(resolve));
+            container.update();
+
+            expect(container.find(Billing).length)
+                .toEqual(0);
+
+            expect(container.find(GiftMessage).length)
+                .toEqual(1);
+        });
+
+        it('renders heading and summary of registered step', () => {
+            const container = mount(<CheckoutTest { ...defaultProps } />);
+            const step = container.find(CheckoutStep)
+                .findWhere(component => component.prop('type') === CheckoutStepType.Billing)
+                .at(0);
+
+            expect(step.prop('heading'))
+                .toEqual('Gift message');
+
+            expect(step.find('[data-test="gift-message-summary"]').length)
+                .toEqual(1);
+        });
+
+        it('passes checkout handlers to registered step', async () => {
+            const container = mount(<CheckoutTest { ...defaultProps } />);
+
+            (container.find(CheckoutStep) as ReactWrapper<CheckoutStepProps>)
+                .findWhere(step => step.prop('type') === CheckoutStepType.Billing)
+                .at(0)
+                .prop('onEdit')(CheckoutStepType.Billing);
+
+            await new Promise(resolve => process.nextTick(resolve));
+            container.update();
+
+            container.find(GiftMessage).prop('onContinue')();
+
+            expect(stepTracker.trackStepCompleted)
+                .toHaveBeenCalled();
+        });
+    });
+
     describe('customer step', () => {
         let container: ReactWrapper<CheckoutProps & WithCheckoutProps>;
 
@@ -787,4 +989,208 @@ describe('Checkout', () => {
                 .toHaveBeenCalledWith(error);
         });
     });
+
+    describe('quote request step', () => {
+        let container: ReactWrapper<CheckoutProps & WithCheckoutProps>;
+        let quoteRequestService: QuoteRequestService;
+
+        beforeEach(async () => {
+            quoteRequestService = new QuoteRequestService({ apiBaseUrl: 'https://orders.foo.com/api/v1' });
+
+            container = mount(
+                <CheckoutTest
+                    { ...defaultProps }
+                    cartRestrictionRules={ [mapToRestrictedBrandsRule(['OFS'])] }
+                    quoteRequestService={ quoteRequestService }
+                />
+            );
+
+            // Wait for initial load to complete
+            await new Promise(resolve => process.nextTick(resolve));
+
+            act(() => { container.update(); });
+        });
+
+        it('opens restricted brands modal if cart contains restricted brand', () => {
+            expect(container.find(RestrictedBrandsModal).prop('isOpen'))
+                .toEqual(true);
+        });
+
+        it('replaces payment step with quote request step', async () => {
+            const steps = container.find(CheckoutStep);
+
+            expect(steps.findWhere(step => step.prop('type') === CheckoutStepType.Payment))
+                .toHaveLength(0);
+
+            (steps as ReactWrapper<CheckoutStepProps>)
+                .findWhere(step => step.prop('type') === CheckoutStepType.QuoteRequest)
+                .at(0)
+                .prop('onEdit')(CheckoutStepType.QuoteRequest);
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            act(() => { container.update(); });
+            act(() => { container.update(); });
+
+            expect(container.find(QuoteRequest).length)
+                .toEqual(1);
+        });
+
+        it('renders accepted quote summary in payment step', async () => {
+            const quote: Quote = {
+                artworkUrls: [],
+                checkoutId: getCheckout().id,
+                id: '123',
+                message: '',
+                price: 100,
+                quoteType: QuoteType.Screen,
+                status: QuoteStatus.Accepted,
+            };
+
+            container = mount(
+                <CheckoutTest
+                    { ...defaultProps }
+                    quote={ quote }
+                    quoteRequestService={ quoteRequestService }
+                />
+            );
+
+            (container.find(CheckoutStep) as ReactWrapper<CheckoutStepProps>)
+                .findWhere(step => step.prop('type') === CheckoutStepType.Payment)
+                .at(0)
+                .prop('onEdit')(CheckoutStepType.Payment);
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            act(() => { container.update(); });
+
+            expect(container.find(QuoteSummary).prop('quote'))
+                .toEqual(quote);
+        });
+
+        it('reloads checkout with quoted price and navigates to payment step once quote is accepted', async () => {
+            const pricedQuote: Quote = {
+                artworkUrls: [],
+                checkoutId: getCheckout().id,
+                id: '123',
+                message: '',
+                price: 100,
+                quoteType: QuoteType.Screen,
+                status: QuoteStatus.Priced,
+            };
+            const acceptedQuote = { ...pricedQuote, status: QuoteStatus.Accepted };
+            const handleAcceptQuote = jest.fn();
+
+            jest.spyOn(quoteRequestService, 'acceptQuote')
+                .mockResolvedValue(acceptedQuote);
+
+            container = mount(
+                <CheckoutTest
+                    { ...defaultProps }
+                    cartRestrictionRules={ [mapToRestrictedBrandsRule(['OFS'])] }
+                    onAcceptQuote={ handleAcceptQuote }
+                    quote={ pricedQuote }
+                    quoteRequestService={ quoteRequestService }
+                />
+            );
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            (container.update().find(CheckoutStep) as ReactWrapper<CheckoutStepProps>)
+                .findWhere(step => step.prop('type') === CheckoutStepType.QuoteRequest)
+                .at(0)
+                .prop('onEdit')(CheckoutStepType.QuoteRequest);
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            act(() => { container.update(); });
+
+            (checkoutService.loadCheckout as jest.Mock).mockClear();
+
+            container.find('[data-test="quote-summary-accept-button"]')
+                .simulate('click');
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            expect(quoteRequestService.acceptQuote)
+                .toHaveBeenCalledWith(getCheckout().id, expect.any(Object));
+            expect(handleAcceptQuote)
+                .toHaveBeenCalledWith(acceptedQuote);
+            expect(checkoutService.loadCheckout)
+                .toHaveBeenCalledWith(getCheckout().id, {
+                    params: {
+                        include: expect.arrayContaining(['consignments.availableShippingOptions']),
+                    },
+                });
+        });
+
+        it('keeps payment step if cart does not contain restricted brand', async () => {
+            container = mount(
+                <CheckoutTest
+                    { ...defaultProps }
+                    cartRestrictionRules={ [mapToRestrictedBrandsRule(['Nike'])] }
+                    quoteRequestService={ quoteRequestService }
+                />
+            );
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            act(() => { container.update(); });
+
+            expect(container.find(RestrictedBrandsModal).prop('isOpen'))
+                .toEqual(false);
+
+            expect(container.find(CheckoutStep).findWhere(step => step.prop('type') === CheckoutStepType.Payment).length)
+                .toBeGreaterThan(0);
+        });
+    });
+
+    describe('when cart is restricted', () => {
+        it('renders warning notice if cart matches warning rule', () => {
+            const container = mount(
+                <CheckoutTest
+                    { ...defaultProps }
+                    cartRestrictionRules={ [{
+                        id: 'bulk-order',
+                        action: CartRestrictionAction.Warn,
+                        conditions: { minQuantity: 1 },
+                        message: 'Bulk orders may take longer to ship',
+                    }] }
+                />
+            );
+
+            expect(container.find('[data-test="cart-restriction-warn-notice"]').text())
+                .toContain('Bulk orders may take longer to ship');
+        });
+
+        it('renders blocked notice instead of payment form if cart matches blocking rule', async () => {
+            const container = mount(
+                <CheckoutTest
+                    { ...defaultProps }
+                    cartRestrictionRules={ [{
+                        id: 'no-sale',
+                        action: CartRestrictionAction.Block,
+                        conditions: { skus: [getPhysicalItem().sku] },
+                        message: 'Product cannot be purchased online',
+                    }] }
+                />
+            );
+
+            (container.find(CheckoutStep) as ReactWrapper<CheckoutStepProps>)
+                .findWhere(step => step.prop('type') === CheckoutStepType.Payment)
+                .at(0)
+                .prop('onEdit')(CheckoutStepType.Payment);
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            act(() => { container.update(); });
+            act(() => { container.update(); });
+
+            expect(container.find(Payment).length)
+                .toEqual(0);
+
+            expect(container.find('[data-test="cart-restriction-block-notice"]').text())
+                .toContain('Product cannot be purchased online');
+        });
+    });
 });
@@ -1,40 +1,34 @@
-/* eslint-disable react/no-unused-state */
-/* eslint-disable @typescript-eslint/tslint/config */
-/* eslint-disable react/jsx-no-bind */
 import { Address, Cart, CartChangedError, CheckoutParams, CheckoutSelectors, Consignment, EmbeddedCheckoutMessenger, EmbeddedCheckoutMessengerOptions, FlashMessage, Promotion, RequestOptions, StepTracker } from '@bigcommerce/checkout-sdk';
 import classNames from 'classnames';
 import { find, findIndex } from 'lodash';
 import React, { lazy, Component, ReactNode } from 'react';
 
-import { StaticBillingAddress } from '../billing';
-import { EmptyCartMessage } from '../cart';
+import { withAnalytics, AnalyticsEventType, WithAnalyticsProps } from '../analytics';
+import { refreshCheckout, EmptyCartMessage } from '../cart';
+import { CartRestriction, CartRestrictionAction, CartRestrictionNotice, CartRestrictionRule } from '../cartRestriction';
 import { isCustomError, CustomError, ErrorLogger, ErrorModal } from '../common/error';
 import { retry } from '../common/utility';
-import { CustomerInfo, CustomerSignOutEvent, CustomerViewType } from '../customer';
+import { CustomerSignOutEvent, CustomerViewType } from '../customer';
 import { isEmbedded, EmbeddedCheckoutStylesheet } from '../embeddedCheckout';
-import { withLanguage, TranslatedString, WithLanguageProps } from '../locale';
+import { withLanguage, WithLanguageProps } from '../locale';
 import { PromotionBannerList } from '../promotion';
-import { hasSelectedShippingOptions, isUsingMultiShipping, StaticConsignment } from '../shipping';
+import { Quote, QuoteRequestOptions, QuoteRequestService, RestrictedBrandsModal } from '../quoteRequest';
+import { hasSelectedShippingOptions, isUsingMultiShipping, isUsingPickup } from '../shipping';
 import { ShippingOptionExpiredError } from '../shipping/shippingOption';
-import { Button } from '../ui/button';
-import { Fieldset, Label, TextInput } from '../ui/form';
 import { LazyContainer, LoadingNotification, LoadingOverlay } from '../ui/loading';
-import { Modal, ModalHeader } from '../ui/modal';
 import { MobileView } from '../ui/responsive';
 
 import mapToCheckoutProps from './mapToCheckoutProps';
 import navigateToOrderConfirmation from './navigateToOrderConfirmation';
 import withCheckout from './withCheckout';
 import CheckoutStep from './CheckoutStep';
+import CheckoutStepContext from './CheckoutStepContext';
+import CheckoutStepHistory from './CheckoutStepHistory';
+import CheckoutStepRegistry from './CheckoutStepRegistry';
 import CheckoutStepStatus from './CheckoutStepStatus';
 import CheckoutStepType from './CheckoutStepType';
 import CheckoutSupport from './CheckoutSupport';
 
-const Billing = lazy(() => retry(() => import(
-    /* webpackChunkName: "billing" */
-    '../billing/Billing'
-)));
-
 const CartSummary = lazy(() => retry(() => import(
     /* webpackChunkName: "cart-summary" */
     '../cart/CartSummary'
@@ -45,29 +39,23 @@ const CartSummaryDrawer = lazy(() => retry(() => import(
     '../cart/CartSummaryDrawer'
 )));
 
-const Customer = lazy(() => retry(() => import(
-    /* webpackChunkName: "customer" */
-    '../customer/Customer'
-)));
-
-const Payment = lazy(() => retry(() => import(
-    /* webpackChunkName: "payment" */
-    '../payment/Payment'
-)));
-
-const Shipping = lazy(() => retry(() => import(
-    /* webpackChunkName: "shipping" */
-    '../shipping/Shipping'
-)));
-
 export interface CheckoutProps {
+    cartRestrictionRules?: CartRestrictionRule[];
     checkoutId: string;
     containerId: string;
     embeddedStylesheet: EmbeddedCheckoutStylesheet;
     embeddedSupport: CheckoutSupport;
     errorLogger: ErrorLogger;
+    isLoadingQuote?: boolean;
+    quote?: Quote;
+    quoteRequest?: QuoteRequestOptions;
+    quoteRequestService?: QuoteRequestService;
+    stepHistory: CheckoutStepHistory;
+    stepRegistry: CheckoutStepRegistry;
     createEmbeddedMessenger(options: EmbeddedCheckoutMessengerOptions): EmbeddedCheckoutMessenger;
     createStepTracker(): StepTracker;
+    onAcceptQuote?(quote: Quote): void;
+    onSubmitQuote?(quote: Quote): void;
 }
 
 export interface CheckoutState {
@@ -78,20 +66,17 @@ export interface CheckoutState {
     error?: Error;
     flashMessages?: FlashMessage[];
     isMultiShippingMode: boolean;
+    isPickupMode: boolean;
     isCartEmpty: boolean;
     isRedirecting: boolean;
     hasSelectedShippingOptions: boolean;
-    openRestrictedModal: boolean;
-    quoteType: string;
-    message: string;
-    completeCustomizedCart: boolean;
-    public_url: string;
-    customizeCheckoutForm: boolean;
+    isRestrictedBrandsModalOpen: boolean;
 }
 
 export interface WithCheckoutProps {
     billingAddress?: Address;
     cart?: Cart;
+    cartRestriction: CartRestriction;
     consignments?: Consignment[];
     error?: Error;
     hasCartChanged: boolean;
@@ -109,15 +94,7 @@ export interface WithCheckoutProps {
     subscribeToConsignments(subscriber: (state: CheckoutSelectors) => void): () => void;
 }
 
-
-export interface ParamOrder {
-    checkoutId: string;
-    public_url: string;
-    quoteType: string;
-    message: string;
-}
-
-class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguageProps, CheckoutState> {
+class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguageProps & WithAnalyticsProps, CheckoutState> {
     stepTracker: StepTracker | undefined;
 
     state: CheckoutState = {
@@ -125,23 +102,29 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
         isCartEmpty: false,
         isRedirecting: false,
         isMultiShippingMode: false,
+        isPickupMode: false,
         hasSelectedShippingOptions: false,
-        openRestrictedModal: false,
-        quoteType: 'screen',
-        message: '',
-        completeCustomizedCart: false,
-        public_url: '',
-        customizeCheckoutForm: false
+        isRestrictedBrandsModalOpen: false,
     };
 
     private embeddedMessenger?: EmbeddedCheckoutMessenger;
     private unsubscribeFromConsignments?: () => void;
+    private unsubscribeFromStepHistory?: () => void;
 
     componentWillUnmount(): void {
         if (this.unsubscribeFromConsignments) {
             this.unsubscribeFromConsignments();
             this.unsubscribeFromConsignments = undefined;
         }
+
+        if (this.unsubscribeFromStepHistory) {
+            this.unsubscribeFromStepHistory();
+            this.unsubscribeFromStepHistory = undefined;
+        }
+    }
+
+    componentDidUpdate({ cartRestriction: prevCartRestriction }: CheckoutProps & WithCheckoutProps & WithLanguageProps & WithAnalyticsProps): void {
+        this.openRestrictedBrandsModalIfRequired(prevCartRestriction);
     }
 
     async componentDidMount(): Promise<void> {
@@ -152,9 +135,12 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
             createEmbeddedMessenger,
             embeddedStylesheet,
             loadCheckout,
+            stepHistory,
             subscribeToConsignments,
         } = this.props;
 
+        this.openRestrictedBrandsModalIfRequired();
+
         try {
             const { data } = await loadCheckout(checkoutId, {
                 params: {
@@ -198,105 +184,30 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
                 !!consignments &&
                 hasMultiShippingEnabled &&
                 isUsingMultiShipping(consignments, cart.lineItems);
+            const isPickupMode = !!consignments && isUsingPickup(consignments);
 
-            if (isMultiShippingMode) {
-                this.setState({ isMultiShippingMode }, this.handleReady);
-            } else {
+            // The linked step has to be read before the URL is updated to
+            // reflect the default step
+            const linkedStepType = stepHistory.getStepType();
+            const handleLoaded = () => {
                 this.handleReady();
+                this.navigateToLinkedStep(linkedStepType);
+            };
+
+            this.unsubscribeFromStepHistory = stepHistory.subscribe(this.handleStepHistoryChange);
+
+            if (isMultiShippingMode || isPickupMode) {
+                this.setState({ isMultiShippingMode: !!isMultiShippingMode, isPickupMode }, handleLoaded);
+            } else {
+                handleLoaded();
             }
-            await fetch("https://staging-orders.outletshirts.com/api/v1/restricted_brands", {
-                method: 'GET', 
-                headers: {
-                    'Accept': 'application/json',
-                    'Content-Type': 'application/json'
-                  }
-            })
-            .then(res => {
-                return res.json()})
-            .then((result) => {
-                const brands = cart?.lineItems?.physicalItems?.map(e => e.brand)
-                const restricted_brands = result?.data?.map((e: any) => e.name)
-                const exist_brand_in_cart = brands?.some(r => restricted_brands?.includes(r))
-                console.log(exist_brand_in_cart)
-                console.log(restricted_brands)
-                console.log(brands)
-                if(exist_brand_in_cart){
-                    this.setState({openRestrictedModal: true}, () => {this.setState({customizeCheckoutForm: true})})
-                }
-            })
-            
         } catch (error) {
             this.handleUnhandledError(error);
         }
     }
 
-    onSubmitForm = async () => {
-        const {checkoutId} = this.props
-        const {public_url, quoteType, message } = this.state
-        console.log(this.props)
-        // eslint-disable-next-line react/destructuring-assignment
-        console.log(this.state)
-        // eslint-disable-next-line react/destructuring-assignment
-        console.log(this.state.public_url)
-        const body: any ={
-            checkoutId: checkoutId || '' ,
-            public_url: public_url || '' ,
-            quoteType: quoteType || '',
-            message: message || ''
-        }
-        console.log(JSON.stringify(body))
-        await fetch("https://staging-orders.outletshirts.com/api/v1/orders/checkout", {
-            method: 'POST', 
-            headers: {
-                'Accept': 'application/json',
-                'Content-Type': 'application/json'
-              },
-            body: JSON.stringify(body)
-        })
-        .then((result) => {
-            console.log(result)
-            this.setState({completeCustomizedCart: true})
-        })
-
-      };
-
-    onChangeFile = async (selectorFiles: any) => {
-        console.log(selectorFiles.target.files[0]);
-        const file = selectorFiles.target.files[0]
-        let status: number | null = null
-        await fetch(`https://staging-orders.outletshirts.com/api/v1/attachments/presigned_url?filename=${file.name}`)
-        .then(res => {
-            status = res.status
-            return res.json()})
-        .then(
-            async (result: any) => {
-                console.log(status)
-                console.log(result.presigned_url)
-                console.log(result.public_url)
-                const public_url = result.public_url
-                if(status === 200){
-                    
-                    // Create an object of formData
-                    const formData = new FormData();
-                    
-                    // Update the formData object
-                    formData.append(
-                        "myFile",
-                        file,
-                        file.name
-                    );
-                    await fetch(result.presigned_url, {method: 'PUT', body: file})
-                    .then((result) => {
-                        this.setState({public_url: public_url})
-                        console.log(result.status)
-                    })
-                }
-              }
-        )
-    }
-
     render(): ReactNode {
-        const { error, openRestrictedModal, completeCustomizedCart } = this.state;
+        const { error } = this.state;
         let errorModal = null;
 
         if (error) {
@@ -307,50 +218,19 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
             }
         }
 
-        return <>
-            <div className={ classNames({ 'is-embedded': isEmbedded() }) }>
-                <div className="layout optimizedCheckout-contentPrimary">
-                    { completeCustomizedCart ? 
-                    <div style={ {marginTop: 30 + 'px', fontSize: 30 + 'px'} }>
-                    Thanks for requesting the quotation. Your info have been saved. Our internal team will contact you later. Thank you.
-                    </div>
-                    :
-
-                    this.renderContent() }
-                </div>
-                <Modal
-                    additionalModalClassName="modal--error"
-                            // footer={ this.renderFooter() }
-                    header={ this.renderHeader() }
-                    isOpen={ openRestrictedModal }
-                >
-                            <div>
-                                One or more products in your cart must be customized with embroidery or screen printing. This is required on Nike products. Please complete the quote request below for a free, no obligation price. You may also call or email for additional details.
-                            </div>
-                            <Button
-                                // disabled={ isLoading }
-                                id="checkout-save-address"
-                                // variant={ ButtonVariant.Primary }
-                                // eslint-disable-next-line react/jsx-no-bind
-                                onClick = { () => this.setState({openRestrictedModal: !openRestrictedModal}) }
-                                style={ {
-                                    float: 'right',
-                                    marginTop: 20 + 'px',
-                                    marginBottom: 20 + 'px',
-                                } }
-                            >
-                            Got It
-                            </Button>
-                        </Modal>
-                { errorModal }
+        return <div className={ classNames({ 'is-embedded': isEmbedded() }) }>
+            <div className="layout optimizedCheckout-contentPrimary">
+                { this.renderContent() }
             </div>
-
-        </>;
+            { this.renderRestrictedBrandsModal() }
+            { errorModal }
+        </div>;
     }
 
     private renderContent(): ReactNode {
         const {
             isPending,
+            cartRestriction,
             loginUrl,
             promotions = [],
             steps,
@@ -363,6 +243,8 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
             isRedirecting,
         } = this.state;
 
+        const stepContext = this.getStepContext();
+
         if (isCartEmpty) {
             return (
                 <EmptyCartMessage
@@ -382,13 +264,18 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
 
                     <PromotionBannerList promotions={ promotions } />
 
+                    <CartRestrictionNotice
+                        action={ CartRestrictionAction.Warn }
+                        cartRestriction={ cartRestriction }
+                    />
+
                     <ol className="checkout-steps">
                         { steps
                             .filter(step => step.isRequired)
                             .map(step => this.renderStep({
                                 ...step,
                                 isActive: activeStepType ? activeStepType === step.type : defaultStepType === step.type,
-                            })) }
+                            }, stepContext)) }
                     </ol>
                 </div>
 
@@ -397,292 +284,104 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
         );
     }
 
-    private renderStep(step: CheckoutStepStatus): ReactNode {
-        switch (step.type) {
-        case CheckoutStepType.Customer:
-            return this.renderCustomerStep(step);
+    private renderStep(step: CheckoutStepStatus, context: CheckoutStepContext): ReactNode {
+        const { stepRegistry } = this.props;
+        const definition = stepRegistry.getDefinition(step.type);
+        const stepProps = definition && definition.getProps(context);
 
-        case CheckoutStepType.Shipping:
-            return this.renderShippingStep(step);
-
-        case CheckoutStepType.Billing:
-            return this.renderBillingStep(step);
-
-        case CheckoutStepType.Payment:
-            return this.renderPaymentStep(step);
-
-        default:
+        if (!definition || !stepProps) {
             return null;
         }
-    }
-
-    private renderCustomerStep(step: CheckoutStepStatus): ReactNode {
-        const { isGuestEnabled } = this.props;
 
-        const {
-            customerViewType = isGuestEnabled ? CustomerViewType.Guest : CustomerViewType.Login,
-        } = this.state;
+        const { component: StepComponent } = definition;
+        const content = (
+            <LazyContainer>
+                <StepComponent { ...stepProps } />
+            </LazyContainer>
+        );
 
         return (
             <CheckoutStep
                 { ...step }
-                heading={ <TranslatedString id="customer.customer_heading" /> }
+                heading={ definition.heading }
                 key={ step.type }
                 onEdit={ this.handleEditStep }
                 onExpanded={ this.handleExpanded }
-                summary={
-                    <CustomerInfo
-                        onSignOut={ this.handleSignOut }
-                        onSignOutError={ this.handleError }
-                    />
-                }
+                summary={ definition.renderSummary && definition.renderSummary(context) }
             >
-                <LazyContainer>
-                    <Customer
-                        checkEmbeddedSupport={ this.checkEmbeddedSupport }
-                        isEmbedded={ isEmbedded() }
-                        onAccountCreated={ this.navigateToNextIncompleteStep }
-                        onChangeViewType={ this.setCustomerViewType }
-                        onContinueAsGuest={ this.navigateToNextIncompleteStep }
-                        onContinueAsGuestError={ this.handleError }
-                        onReady={ this.handleReady }
-                        onSignIn={ this.navigateToNextIncompleteStep }
-                        onSignInError={ this.handleError }
-                        onUnhandledError={ this.handleUnhandledError }
-                        viewType={ customerViewType }
-                    />
-                </LazyContainer>
+                { definition.renderContent ? definition.renderContent(content, context) : content }
             </CheckoutStep>
         );
     }
 
-    private renderShippingStep(step: CheckoutStepStatus): ReactNode {
+    private getStepContext(): CheckoutStepContext {
         const {
-            hasCartChanged,
+            billingAddress,
             cart,
-            consignments = [],
+            cartRestriction,
+            checkoutId,
+            consignments,
+            hasCartChanged,
+            isGuestEnabled,
+            isLoadingQuote,
+            quote,
+            quoteRequest,
+            quoteRequestService,
+            onSubmitQuote,
         } = this.props;
 
         const {
+            customerViewType = isGuestEnabled ? CustomerViewType.Guest : CustomerViewType.Login,
             isBillingSameAsShipping,
             isMultiShippingMode,
+            isPickupMode,
         } = this.state;
 
-        if (!cart) {
-            return;
-        }
-
-        return (
-            <CheckoutStep
-                { ...step }
-                heading={ <TranslatedString id="shipping.shipping_heading" /> }
-                key={ step.type }
-                onEdit={ this.handleEditStep }
-                onExpanded={ this.handleExpanded }
-                summary={ consignments.map(consignment =>
-                    <div className="staticConsignmentContainer" key={ consignment.id }>
-                        <StaticConsignment
-                            cart={ cart }
-                            compactView={ consignments.length < 2 }
-                            consignment={ consignment }
-                        />
-                    </div>) }
-            >
-                <LazyContainer>
-                    <Shipping
-                        cartHasChanged={ hasCartChanged }
-                        isBillingSameAsShipping={ isBillingSameAsShipping }
-                        isMultiShippingMode={ isMultiShippingMode }
-                        navigateNextStep={ this.handleShippingNextStep }
-                        onCreateAccount={ this.handleShippingCreateAccount }
-                        onReady={ this.handleReady }
-                        onSignIn={ this.handleShippingSignIn }
-                        onToggleMultiShipping={ this.handleToggleMultiShipping }
-                        onUnhandledError={ this.handleUnhandledError }
-                    />
-                </LazyContainer>
-            </CheckoutStep>
-        );
-    }
-
-    private renderBillingStep(step: CheckoutStepStatus): ReactNode {
-        const { billingAddress } = this.props;
-
-        return (
-            <CheckoutStep
-                { ...step }
-                heading={ <TranslatedString id="billing.billing_heading" /> }
-                key={ step.type }
-                onEdit={ this.handleEditStep }
-                onExpanded={ this.handleExpanded }
-                summary={ billingAddress && <StaticBillingAddress address={ billingAddress } /> }
-            >
-                <LazyContainer>
-                    <Billing
-                        navigateNextStep={ this.navigateToNextIncompleteStep }
-                        onReady={ this.handleReady }
-                        onUnhandledError={ this.handleUnhandledError }
-                    />
-                </LazyContainer>
-            </CheckoutStep>
-        );
-    }
-
-    private renderHeader(): ReactNode {
-        // const {
-        //     error,
-        //     title = error && isCustomError(error) && error.title,
-        // } = this.props;
-
-        return (
-            <ModalHeader>
-                { /* <IconError additionalClassName="icon--error modal-header-icon" size={ IconSize.Small } /> */ }
-                { /* { title || <TranslatedString id="common.error_heading" /> } */ }
-                { 'Restricted Brands' }
-            </ModalHeader>
-        );
-    }
-
-    private renderPaymentStep(step: CheckoutStepStatus): ReactNode {
-        const {
-            consignments,
+        return {
+            billingAddress,
             cart,
-        } = this.props;
-        let showPaymentCustom = false;
-        
-        const {quoteType, customizeCheckoutForm} = this.state;
-        showPaymentCustom = customizeCheckoutForm
-        console.log(quoteType);
-        // const onChangeQuoteType(event: React.FormEvent<HTMLSelectElement>) => {
-
-        // }
-
+            cartRestriction,
+            checkoutId,
+            consignments,
+            customerViewType,
+            hasCartChanged,
+            isBillingSameAsShipping,
+            isLoadingQuote,
+            isMultiShippingMode,
+            isPickupMode,
+            quote,
+            quoteRequest,
+            quoteRequestService,
+            checkEmbeddedSupport: this.checkEmbeddedSupport,
+            navigateToNextStep: this.navigateToNextIncompleteStep,
+            navigateToOrderConfirmation: this.navigateToOrderConfirmation,
+            onAcceptQuote: this.handleAcceptQuote,
+            onCartChangedError: this.handleCartChangedError,
+            onChangeCustomerViewType: this.setCustomerViewType,
+            onError: this.handleError,
+            onReady: this.handleReady,
+            onShippingCreateAccount: this.handleShippingCreateAccount,
+            onShippingNextStep: this.handleShippingNextStep,
+            onShippingSignIn: this.handleShippingSignIn,
+            onSignOut: this.handleSignOut,
+            onSubmitQuote,
+            onToggleMultiShipping: this.handleToggleMultiShipping,
+            onTogglePickup: this.handleTogglePickup,
+            onUnhandledError: this.handleUnhandledError,
+        };
+    }
 
+    private renderRestrictedBrandsModal(): ReactNode {
+        const { quoteRequest } = this.props;
+        const { isRestrictedBrandsModalOpen } = this.state;
 
         return (
-            <CheckoutStep
-                { ...step }
-                heading={ <TranslatedString id="payment.payment_heading" /> }
-                key={ step.type }
-                onEdit={ this.handleEditStep }
-                onExpanded={ this.handleExpanded }
-            >
-                <LazyContainer>
-                    { showPaymentCustom ?
-                    <Fieldset
-                        additionalClassName="creditCardFieldset"
-                    >
-                        <div className="" style={ {padding: 20 + 'px'} }>
-                            <div style={ {marginBottom: 20 + 'px'} }>
-                                <Label>
-                                    Type of quote
-                                </Label>
-                                <div style={ {display:' flex', alignItems: 'center'} }>
-                                    <input 
-                                        checked={ quoteType === 'screen' } 
-                                        // className="form-radio optimizedCheckout-form-radio" 
-                                        name="Screen Printing" 
-                                        onChange = { ()=> {this.setState({quoteType: 'screen'})} }
-                                        style={ {marginRight: '10px'} } 
-                                        type="radio"
-                                        value="screen"
-                                    />
-                                    <label 
-                                        className=""
-                                        onClick = { ()=> {this.setState({quoteType: 'screen'})} }
-                                    >
-                                        Screen Printing
-                                    </label>
-                                </div>
-                                <div style={ {display:' flex', alignItems: 'center'} }>
-                                    <input 
-                                        checked={ quoteType === 'embroidery' } 
-                                        // className="form-radio optimizedCheckout-form-radio" 
-                                        name="embroidery" 
-                                        onChange = { ()=> {this.setState({quoteType: 'embroidery'})} }
-                                        style={ {marginRight: '10px'} } 
-                                        type="radio" 
-                                        value="embroidery"
-                                    />
-                                    <label
-                                        className=""
-                                        onClick = { ()=> {this.setState({quoteType: 'embroidery'})} }
-                                    >
-                                    Embroidery
-                                    </label>
-                                </div>
-                                <div style={ {display:' flex', alignItems: 'center'} }>
-                                    <input 
-                                        checked={ quoteType === 'unsure' } 
-                                        // className="form-radio optimizedCheckout-form-radio" 
-                                        name="unsure" 
-                                        onChange = { ()=> {this.setState({quoteType: 'unsure'})} }
-                                        style={ {marginRight: '10px'} } 
-                                        type="radio" 
-                                        value="unsure"
-                                    />
-                                    <label
-                                        className=""
-                                        onClick = { ()=> {this.setState({quoteType: 'unsure'})} }
-                                    >
-                                    Unsure
-                                    </label>
-                                </div>
-                            </div>
-                            <div style={ {marginBottom: 20 + 'px'} }>
-                                <Label>
-                                    Artwork file
-                                </Label>
-                                <input
-                                    onChange={ this.onChangeFile }
-                                    type="file"
-                                />
-                            </div>
-                            <div style={ {marginBottom: 20 + 'px'} }>
-                                <Label>
-                                    Message
-                                </Label>
-                                <TextInput
-                                    // { ...props.field }
-                                    // autoComplete={ props.field.name }
-                                    // id={ props.field.name }
-                                    onChange = { (e) => {this.setState({message: e.target.value})} }
-                                    type="text"
-                                />
-                            </div>
-                            <div style={ {marginBottom: 20 + 'px'} }>
-                            <Button
-                                // disabled={ isLoading }
-                                id="checkout-save-address"
-                                // variant={ ButtonVariant.Primary }
-                                // eslint-disable-next-line react/jsx-no-bind
-                                // onClick = { () => this.setState({openRestrictedModal: !openRestrictedModal}) }
-                                onClick = { ()=> this.onSubmitForm() }
-                                style={ {
-                                    float: 'right',
-                                } }
-                            >
-                                Submit
-                            </Button>
-                            </div>
-
-                        </div>
-
-                    </Fieldset> 
-                    :
-                    <Payment
-                        checkEmbeddedSupport={ this.checkEmbeddedSupport }
-                        isEmbedded={ isEmbedded() }
-                        isUsingMultiShipping={ cart && consignments ? isUsingMultiShipping(consignments, cart.lineItems) : false }
-                        onCartChangedError={ this.handleCartChangedError }
-                        onFinalize={ this.navigateToOrderConfirmation }
-                        onReady={ this.handleReady }
-                        onSubmit={ this.navigateToOrderConfirmation }
-                        onSubmitError={ this.handleError }
-                        onUnhandledError={ this.handleUnhandledError }
-                    /> }
-                </LazyContainer>
-            </CheckoutStep>
+            <RestrictedBrandsModal
+                heading={ quoteRequest && quoteRequest.restrictedBrandsModalHeading }
+                isOpen={ isRestrictedBrandsModalOpen }
+                onRequestClose={ this.handleCloseRestrictedBrandsModal }
+                text={ quoteRequest && quoteRequest.restrictedBrandsModalText }
+            />
         );
     }
 
@@ -706,8 +405,23 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
         );
     }
 
-    private navigateToStep(type: CheckoutStepType, options?: { isDefault?: boolean }): void {
-        const { clearError, error, steps } = this.props;
+    private openRestrictedBrandsModalIfRequired(prevCartRestriction?: CartRestriction): void {
+        const { cartRestriction } = this.props;
+
+        if (cartRestriction.action !== CartRestrictionAction.ForceQuote ||
+            (prevCartRestriction && prevCartRestriction.action === cartRestriction.action)
+        ) {
+            return;
+        }
+
+        this.setState({ isRestrictedBrandsModalOpen: true });
+    }
+
+    private navigateToStep(
+        type: CheckoutStepType,
+        options?: { isDefault?: boolean; shouldReplaceHistory?: boolean }
+    ): void {
+        const { clearError, error, stepHistory, steps } = this.props;
         const { activeStepType } = this.state;
         const step = find(steps, { type });
 
@@ -721,8 +435,20 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
 
         if (options && options.isDefault) {
             this.setState({ defaultStepType: step.type });
+
+            // The URL only follows the default step until the shopper
+            // navigates to a step themselves
+            if (!activeStepType) {
+                stepHistory.replace(step.type);
+            }
         } else {
             this.setState({ activeStepType: step.type });
+
+            if (options && options.shouldReplaceHistory) {
+                stepHistory.replace(step.type);
+            } else {
+                stepHistory.push(step.type);
+            }
         }
 
         if (error) {
@@ -730,14 +456,55 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
         }
     }
 
+    private navigateToLinkedStep(type?: CheckoutStepType): void {
+        const { steps } = this.props;
+        const step = type && find(steps, { type });
+
+        // Otherwise, the shopper stays on the default step
+        if (!step || !isNavigableStep(step)) {
+            return;
+        }
+
+        this.navigateToStep(step.type, { shouldReplaceHistory: true });
+    }
+
+    private handleStepHistoryChange: (type?: CheckoutStepType) => void = type => {
+        const { clearError, error, stepHistory, steps } = this.props;
+        const { activeStepType, defaultStepType } = this.state;
+        const step = type && find(steps, { type });
+        const currentStepType = activeStepType || defaultStepType;
+
+        // Restore the URL of the current step if the shopper is not allowed
+        // to go back or forward to the step
+        if (!step || !isNavigableStep(step)) {
+            if (currentStepType) {
+                stepHistory.replace(currentStepType);
+            }
+
+            return;
+        }
+
+        this.setState({ activeStepType: step.type });
+
+        if (error) {
+            clearError(error);
+        }
+    };
+
     private handleToggleMultiShipping: () => void = () => {
         const { isMultiShippingMode } = this.state;
 
         this.setState({ isMultiShippingMode: !isMultiShippingMode });
     };
 
+    private handleTogglePickup: () => void = () => {
+        const { isPickupMode } = this.state;
+
+        this.setState({ isMultiShippingMode: false, isPickupMode: !isPickupMode });
+    };
+
     private navigateToNextIncompleteStep: (options?: { isDefault?: boolean }) => void = options => {
-        const { steps } = this.props;
+        const { analytics, steps } = this.props;
         const activeStepIndex = findIndex(steps, { isActive: true });
         const activeStep = activeStepIndex >= 0 && steps[activeStepIndex];
 
@@ -751,16 +518,24 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
             this.stepTracker.trackStepCompleted(previousStep.type);
         }
 
+        // Navigating to the default step does not mean the shopper has just
+        // completed the previous step, i.e.: when checkout is reloaded
+        if (previousStep && !(options && options.isDefault)) {
+            analytics.emit({ type: AnalyticsEventType.StepCompleted, step: previousStep.type });
+        }
+
         this.navigateToStep(activeStep.type, options);
     };
 
     private navigateToOrderConfirmation: () => void = () => {
-        const { steps } = this.props;
+        const { analytics, steps } = this.props;
 
         if (this.stepTracker) {
             this.stepTracker.trackStepCompleted(steps[steps.length - 1].type);
         }
 
+        analytics.emit({ type: AnalyticsEventType.StepCompleted, step: steps[steps.length - 1].type });
+
         if (this.embeddedMessenger) {
             this.embeddedMessenger.postComplete();
         }
@@ -776,8 +551,37 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
         return embeddedSupport.isSupported(...methodIds);
     };
 
-    private handleCartChangedError: (error: CartChangedError) => void = () => {
+    private handleCartChangedError: (error: CartChangedError) => void = async () => {
+        const { checkoutId, loadCheckout } = this.props;
+
         this.navigateToStep(CheckoutStepType.Shipping);
+
+        // The totals and shipping quotes are out of date if the content of the
+        // cart has changed, i.e.: after changing it from the order summary.
+        try {
+            await refreshCheckout(loadCheckout, checkoutId);
+        } catch (error) {
+            this.handleUnhandledError(error);
+        }
+    };
+
+    private handleAcceptQuote: (quote: Quote) => void = async quote => {
+        const { checkoutId, loadCheckout, onAcceptQuote } = this.props;
+
+        if (onAcceptQuote) {
+            onAcceptQuote(quote);
+        }
+
+        // The store applies the quoted price to the checkout once the quote is
+        // accepted, so the totals, and the amount the shopper pays, are out of
+        // date until the checkout is reloaded.
+        try {
+            await refreshCheckout(loadCheckout, checkoutId);
+
+            this.navigateToStep(CheckoutStepType.Payment);
+        } catch (error) {
+            this.handleUnhandledError(error);
+        }
     };
 
     private handleConsignmentsUpdated: (state: CheckoutSelectors) => void = ({ data }) => {
@@ -805,10 +609,18 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
         this.setState({ error: undefined });
     };
 
+    private handleCloseRestrictedBrandsModal: () => void = () => {
+        this.setState({ isRestrictedBrandsModalOpen: false });
+    };
+
     private handleExpanded: (type: CheckoutStepType) => void = type => {
+        const { analytics } = this.props;
+
         if (this.stepTracker) {
            this.stepTracker.trackStepViewed(type);
         }
+
+        analytics.emit({ type: AnalyticsEventType.StepViewed, step: type });
     };
 
     private handleUnhandledError: (error: Error) => void = error => {
@@ -896,4 +708,10 @@ class Checkout extends Component<CheckoutProps & WithCheckoutProps & WithLanguag
     };
 }
 
-export default withLanguage(withCheckout(mapToCheckoutProps)(Checkout));
+// A step can only be visited if it is the first incomplete step, or if the
+// shopper is allowed to edit it
+function isNavigableStep({ isActive, isEditable, isRequired }: CheckoutStepStatus): boolean {
+    return isRequired && (isActive || isEditable);
+}
+
+export default withAnalytics(withLanguage(withCheckout(mapToCheckoutProps)(Checkout)));
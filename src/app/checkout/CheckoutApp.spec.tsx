@@ -1,6 +1,11 @@
 import { shallow } from 'enzyme';
 import React from 'react';
 
+import { CartRestrictionAction } from '../cartRestriction';
+import { FileUploadContext, FileUploadService } from '../common/upload';
+import { getLanguageService } from '../locale';
+import { QuoteRequestService, QuoteStatus, QuoteType } from '../quoteRequest';
+
 import { getCheckout } from './checkouts.mock';
 import Checkout from './Checkout';
 import CheckoutApp, { CheckoutAppProps } from './CheckoutApp';
@@ -38,4 +43,194 @@ describe('CheckoutApp', () => {
         expect(component.find(CheckoutProvider))
             .toHaveLength(1);
     });
+
+    it('provides service for uploading files to quote request API', () => {
+        jest.spyOn(QuoteRequestService.prototype, 'loadRestrictedBrands')
+            .mockResolvedValue([]);
+        jest.spyOn(QuoteRequestService.prototype, 'loadQuote')
+            .mockResolvedValue(undefined);
+
+        const component = shallow(<CheckoutApp
+            { ...defaultProps }
+            quoteRequest={ { apiBaseUrl: 'https://orders.foo.com/api/v1' } }
+        />);
+
+        expect(component.find(FileUploadContext.Provider).prop('value'))
+            .toEqual({ fileUploadService: expect.any(FileUploadService) });
+    });
+
+    it('does not provide service for uploading files if quote request is not configured', () => {
+        const component = shallow(<CheckoutApp { ...defaultProps } />);
+
+        expect(component.find(FileUploadContext.Provider).prop('value'))
+            .toEqual({});
+    });
+
+    it('passes restricted brands rule to checkout component', async () => {
+        jest.spyOn(QuoteRequestService.prototype, 'loadRestrictedBrands')
+            .mockResolvedValue(['Nike']);
+        jest.spyOn(QuoteRequestService.prototype, 'loadQuote')
+            .mockResolvedValue(undefined);
+
+        const component = shallow(<CheckoutApp
+            { ...defaultProps }
+            quoteRequest={ { apiBaseUrl: 'https://orders.foo.com/api/v1' } }
+        />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(component.find(Checkout).prop('cartRestrictionRules'))
+            .toEqual([{
+                id: 'restricted-brands',
+                action: CartRestrictionAction.ForceQuote,
+                conditions: { brands: ['Nike'] },
+            }]);
+    });
+
+    it('blocks payment if restricted brands cannot be loaded', async () => {
+        jest.spyOn(QuoteRequestService.prototype, 'loadRestrictedBrands')
+            .mockRejectedValue(new Error());
+        jest.spyOn(QuoteRequestService.prototype, 'loadQuote')
+            .mockResolvedValue(undefined);
+
+        const component = shallow(<CheckoutApp
+            { ...defaultProps }
+            quoteRequest={ { apiBaseUrl: 'https://orders.foo.com/api/v1' } }
+        />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(component.find(Checkout).prop('cartRestrictionRules'))
+            .toEqual([{
+                id: 'restricted-brands',
+                action: CartRestrictionAction.Block,
+                conditions: {},
+                message: getLanguageService().translate('quote_request.restricted_brands_unavailable_error'),
+            }]);
+    });
+
+    it('passes previously submitted quote to checkout component', async () => {
+        const quote = {
+            artworkUrls: [],
+            checkoutId: getCheckout().id,
+            id: '123',
+            message: '',
+            quoteType: QuoteType.Screen,
+            status: QuoteStatus.Pending,
+        };
+
+        jest.spyOn(QuoteRequestService.prototype, 'loadRestrictedBrands')
+            .mockResolvedValue(['Nike']);
+        jest.spyOn(QuoteRequestService.prototype, 'loadQuote')
+            .mockResolvedValue(quote);
+
+        const component = shallow(<CheckoutApp
+            { ...defaultProps }
+            quoteRequest={ { apiBaseUrl: 'https://orders.foo.com/api/v1' } }
+        />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(QuoteRequestService.prototype.loadQuote)
+            .toHaveBeenCalledWith(getCheckout().id, { cancel: expect.any(Promise) });
+        expect(component.find(Checkout).prop('quote'))
+            .toEqual(quote);
+        expect(component.find(Checkout).prop('cartRestrictionRules'))
+            .toHaveLength(1);
+    });
+
+    it('does not force shopper to request quote once it is accepted', async () => {
+        jest.spyOn(QuoteRequestService.prototype, 'loadRestrictedBrands')
+            .mockResolvedValue(['Nike']);
+        jest.spyOn(QuoteRequestService.prototype, 'loadQuote')
+            .mockResolvedValue({
+                artworkUrls: [],
+                checkoutId: getCheckout().id,
+                id: '123',
+                message: '',
+                price: 100,
+                quoteType: QuoteType.Screen,
+                status: QuoteStatus.Accepted,
+            });
+
+        const component = shallow(<CheckoutApp
+            { ...defaultProps }
+            quoteRequest={ { apiBaseUrl: 'https://orders.foo.com/api/v1' } }
+        />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(component.find(Checkout).prop('cartRestrictionRules'))
+            .toEqual([]);
+    });
+
+    it('blocks checkout instead of forcing quote if quote request is not configured', () => {
+        const component = shallow(<CheckoutApp
+            { ...defaultProps }
+            cartRestrictionRules={ [
+                { id: 'custom-quote', action: CartRestrictionAction.ForceQuote, conditions: { brands: ['Nike'] } },
+                { id: 'warn', action: CartRestrictionAction.Warn, conditions: { skus: ['CLC'] } },
+            ] }
+        />);
+
+        expect(component.find(Checkout).prop('cartRestrictionRules'))
+            .toEqual([
+                { id: 'custom-quote', action: CartRestrictionAction.Block, conditions: { brands: ['Nike'] } },
+                { id: 'warn', action: CartRestrictionAction.Warn, conditions: { skus: ['CLC'] } },
+            ]);
+    });
+
+    it('updates quote once it is submitted', () => {
+        const quote = {
+            artworkUrls: [],
+            checkoutId: getCheckout().id,
+            id: '123',
+            message: '',
+            quoteType: QuoteType.Screen,
+            status: QuoteStatus.Pending,
+        };
+
+        const component = shallow(<CheckoutApp { ...defaultProps } />);
+
+        // tslint:disable-next-line:no-non-null-assertion
+        component.find(Checkout).prop('onSubmitQuote')!(quote);
+
+        expect(component.find(Checkout).prop('quote'))
+            .toEqual(quote);
+    });
+
+    it('removes quote restriction once priced quote is accepted', async () => {
+        const quote = {
+            artworkUrls: [],
+            checkoutId: getCheckout().id,
+            id: '123',
+            message: '',
+            price: 150,
+            quoteType: QuoteType.Screen,
+            status: QuoteStatus.Priced,
+        };
+
+        jest.spyOn(QuoteRequestService.prototype, 'loadRestrictedBrands')
+            .mockResolvedValue(['Nike']);
+        jest.spyOn(QuoteRequestService.prototype, 'loadQuote')
+            .mockResolvedValue(quote);
+
+        const component = shallow(<CheckoutApp
+            { ...defaultProps }
+            quoteRequest={ { apiBaseUrl: 'https://orders.foo.com/api/v1' } }
+        />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(component.find(Checkout).prop('cartRestrictionRules'))
+            .toHaveLength(1);
+
+        // tslint:disable-next-line:no-non-null-assertion
+        component.find(Checkout).prop('onAcceptQuote')!({ ...quote, status: QuoteStatus.Accepted });
+
+        expect(component.find(Checkout).prop('quote'))
+            .toEqual({ ...quote, status: QuoteStatus.Accepted });
+        expect(component.find(Checkout).prop('cartRestrictionRules'))
+            .toHaveLength(0);
+    });
 });
@@ -1,63 +1,278 @@
-import { createCheckoutService, createEmbeddedCheckoutMessenger, createStepTracker, StepTracker } from '@bigcommerce/checkout-sdk';
+import { createCheckoutService, createEmbeddedCheckoutMessenger, createStepTracker, ShopperCurrency, StepTracker } from '@bigcommerce/checkout-sdk';
+import { memoizeOne } from '@bigcommerce/memoize';
 import { BrowserOptions } from '@sentry/browser';
 import React, { Component } from 'react';
 import ReactModal from 'react-modal';
 
 import '../../scss/App.scss';
-import { createErrorLogger, ErrorBoundary, ErrorLogger } from '../common/error';
-import { createEmbeddedCheckoutStylesheet, createEmbeddedCheckoutSupport } from '../embeddedCheckout';
+import { createAddressAutocompleteProvider, AddressAutocompleteConfig, AddressAutocompleteContext, AddressAutocompleteContextType, AddressVerifier, AddressVerifierContext, AddressVerifierContextType, UsAddressVerifier } from '../address';
+import { createAnalyticsEventBus, AnalyticsContext, AnalyticsContextType, AnalyticsEventType, AnalyticsOptions } from '../analytics';
+import { CartRestrictionAction, CartRestrictionRule } from '../cartRestriction';
+import { createErrorLogger, BeaconErrorLoggerServiceConfig, ErrorBoundary, ErrorLogger } from '../common/error';
+import { createCancellation, HttpClient, HttpRequestCancelledError } from '../common/http';
+import { FileUploadContext, FileUploadContextType, FileUploadService } from '../common/upload';
+import { createEmbeddedCheckoutStylesheet, createEmbeddedCheckoutSupport, isEmbedded } from '../embeddedCheckout';
+import { FormFieldRulesConfig, FormFieldRulesContext, FormFieldRulesContextType } from '../formFields';
 import { getLanguageService, LocaleProvider } from '../locale';
+import { BinLookupConfig, BinLookupContext, BinLookupContextType, BinTable, SplitTenderContext, SplitTenderContextType, SplitTenderProvider } from '../payment';
+import { getRestrictedBrandsUnavailableRule, mapToRestrictedBrandsRule, Quote, QuoteRequestOptions, QuoteRequestService, QuoteStatus } from '../quoteRequest';
+import { DeliveryScheduleContext, DeliveryScheduleContextType, DeliveryScheduleProvider, PickupLocationContext, PickupLocationContextType, PickupLocationProvider } from '../shipping';
 
+import createCheckoutStepHistory from './createCheckoutStepHistory';
+import { createCheckoutStepRegistry } from './steps';
 import Checkout from './Checkout';
 import CheckoutProvider from './CheckoutProvider';
+import { AnyCheckoutStepDefinition } from './CheckoutStepDefinition';
 
 export interface CheckoutAppProps {
+    /**
+     * The provider used for autocompleting addresses. Google is used by
+     * default if the store has a Google Maps API key.
+     */
+    addressAutocompleteConfig?: AddressAutocompleteConfig;
+    /**
+     * Verifies the addresses entered by the shopper before they are
+     * submitted. US addresses are verified locally by default.
+     */
+    addressVerifier?: AddressVerifier;
+    analyticsConfig?: AnalyticsOptions;
+    /**
+     * Updates the local table used to look up the brand, level and issuing
+     * country of the card entered by the shopper, and the notices displayed
+     * for it, i.e.: a surcharge for credit cards issued abroad.
+     */
+    binLookupConfig?: BinLookupConfig;
+    /**
+     * Rules restricting what can be purchased. A rule forcing the shopper to
+     * request a quote blocks checkout instead if `quoteRequest` is not
+     * configured, as there is no service to submit the quote to.
+     */
+    cartRestrictionRules?: CartRestrictionRule[];
     checkoutId: string;
+    /**
+     * Additional steps to render in checkout. A step replaces the built-in
+     * step of the same type.
+     */
+    checkoutSteps?: AnyCheckoutStepDefinition[];
     containerId: string;
+    /**
+     * The currencies enabled for the store. The shopper can switch the
+     * currency their order summary is displayed in between them.
+     */
+    currencies?: ShopperCurrency[];
+    /**
+     * Provides the dates and time windows each consignment can be delivered
+     * in. The shopper is not asked to schedule the delivery unless a provider
+     * is given, i.e.: `LocalDeliveryScheduleProvider`.
+     */
+    deliveryScheduleProvider?: DeliveryScheduleProvider;
+    errorBeaconConfig?: BeaconErrorLoggerServiceConfig;
+    /**
+     * Shows and requires form fields only when the conditions configured for
+     * them are met, keyed by the name of the field, i.e.: `{ field_25: {
+     * visibleWhen: [{ field: 'company', filled: true }] } }`. Fields that are
+     * required by the store are always required.
+     */
+    formFieldRules?: FormFieldRulesConfig;
+    /**
+     * Provides the locations the shopper can pick up their order from. The
+     * shopper can only choose to pick up their order if a provider is given
+     * and the store offers the "Pickup in store" shipping method.
+     */
+    pickupLocationProvider?: PickupLocationProvider;
     publicPath?: string;
+    /**
+     * The API quotes are requested from. Files attached to form fields, i.e.:
+     * purchase order documents, are uploaded to the same API, so they cannot
+     * be attached unless it is configured.
+     */
+    quoteRequest?: QuoteRequestOptions;
     sentryConfig?: BrowserOptions;
+    /**
+     * Authorizes a part of the order total with a second payment method. The
+     * shopper can only split the total of their order if a provider is given
+     * and it supports at least one of the payment methods of the store.
+     */
+    splitTenderProvider?: SplitTenderProvider;
 }
 
-export default class CheckoutApp extends Component<CheckoutAppProps> {
+export interface CheckoutAppState {
+    cartRestrictionRules: CartRestrictionRule[];
+    isLoadingQuote: boolean;
+    quote?: Quote;
+}
+
+export default class CheckoutApp extends Component<CheckoutAppProps, CheckoutAppState> {
     private checkoutService = createCheckoutService({
         locale: getLanguageService().getLocale(),
         shouldWarnMutation: process.env.NODE_ENV === 'development',
     });
+    private addressAutocompleteContextValue: AddressAutocompleteContextType;
+    private addressVerifierContextValue: AddressVerifierContextType;
+    private analyticsContextValue: AnalyticsContextType;
+    private binLookupContextValue: BinLookupContextType;
+    private deliveryScheduleContextValue: DeliveryScheduleContextType;
+    private fileUploadContextValue: FileUploadContextType;
+    private formFieldRulesContextValue: FormFieldRulesContextType;
+    private pickupLocationContextValue: PickupLocationContextType;
+    private splitTenderContextValue: SplitTenderContextType;
     private embeddedStylesheet = createEmbeddedCheckoutStylesheet();
     private embeddedSupport = createEmbeddedCheckoutSupport(getLanguageService());
     private errorLogger: ErrorLogger;
+    private quoteRequestService?: QuoteRequestService;
+    private cancellation = createCancellation();
+    private stepHistory = createCheckoutStepHistory();
+    private stepRegistry = createCheckoutStepRegistry();
+
+    // Once a quote has been accepted by the store, the shopper no longer needs
+    // to request one, so they can pay for their order as usual.
+    private getCartRestrictionRules = memoizeOne((
+        cartRestrictionRules: CartRestrictionRule[],
+        quote?: Quote
+    ): CartRestrictionRule[] => {
+        if (!this.quoteRequestService) {
+            return cartRestrictionRules.map(rule => rule.action === CartRestrictionAction.ForceQuote ?
+                { ...rule, action: CartRestrictionAction.Block } :
+                rule
+            );
+        }
+
+        if (!quote || quote.status !== QuoteStatus.Accepted) {
+            return cartRestrictionRules;
+        }
+
+        return cartRestrictionRules.filter(({ action }) => action !== CartRestrictionAction.ForceQuote);
+    });
 
     constructor(props: Readonly<CheckoutAppProps>) {
         super(props);
 
+        this.state = {
+            cartRestrictionRules: props.cartRestrictionRules || [],
+            isLoadingQuote: false,
+        };
+
+        this.addressAutocompleteContextValue = {
+            getAddressAutocompleteProvider: googleMapsApiKey =>
+                createAddressAutocompleteProvider(props.addressAutocompleteConfig, googleMapsApiKey),
+        };
+
+        this.addressVerifierContextValue = {
+            addressVerifier: props.addressVerifier || new UsAddressVerifier(),
+        };
+
+        this.analyticsContextValue = {
+            analytics: createAnalyticsEventBus(this.checkoutService, props.analyticsConfig, isEmbedded()),
+        };
+
+        const { entries: binTableEntries = [], noticeRules: binNoticeRules = [] } = props.binLookupConfig || {};
+        const binTable = new BinTable();
+
+        binTable.update(binTableEntries);
+
+        this.binLookupContextValue = { binNoticeRules, binTable };
+
+        this.deliveryScheduleContextValue = {
+            deliveryScheduleProvider: props.deliveryScheduleProvider,
+        };
+
+        this.formFieldRulesContextValue = {
+            formFieldRules: props.formFieldRules || {},
+        };
+
+        this.pickupLocationContextValue = {
+            pickupLocationProvider: props.pickupLocationProvider,
+        };
+
+        this.splitTenderContextValue = {
+            splitTenderProvider: props.splitTenderProvider,
+        };
+
         this.errorLogger = createErrorLogger(
-            { sentry: props.sentryConfig },
+            { beacon: props.errorBeaconConfig, sentry: props.sentryConfig },
             {
                 errorTypes: ['UnrecoverableError'],
                 publicPath: props.publicPath,
             }
         );
+
+        (props.checkoutSteps || []).forEach(step => this.stepRegistry.register(step));
+
+        this.fileUploadContextValue = {};
+
+        if (props.quoteRequest) {
+            const httpClient = new HttpClient({
+                baseUrl: props.quoteRequest.apiBaseUrl,
+                errorLogger: this.errorLogger,
+            });
+
+            this.quoteRequestService = new QuoteRequestService(props.quoteRequest, httpClient);
+            this.fileUploadContextValue = { fileUploadService: new FileUploadService(httpClient) };
+        }
     }
 
     componentDidMount(): void {
         const { containerId } = this.props;
 
         ReactModal.setAppElement(`#${containerId}`);
+
+        this.loadRestrictedBrandsRule();
+        this.loadQuote();
+    }
+
+    componentWillUnmount(): void {
+        this.cancellation.cancel();
     }
 
     render() {
+        const { currencies } = this.props;
+        const {
+            cartRestrictionRules,
+            isLoadingQuote,
+            quote,
+        } = this.state;
+
         return (
             <ErrorBoundary logger={ this.errorLogger }>
-                <LocaleProvider checkoutService={ this.checkoutService }>
+                <LocaleProvider
+                    checkoutService={ this.checkoutService }
+                    currencies={ currencies }
+                >
                     <CheckoutProvider checkoutService={ this.checkoutService }>
-                        <Checkout
-                            { ...this.props }
-                            createEmbeddedMessenger={ createEmbeddedCheckoutMessenger }
-                            createStepTracker={ this.createStepTracker }
-                            embeddedStylesheet={ this.embeddedStylesheet }
-                            embeddedSupport={ this.embeddedSupport }
-                            errorLogger={ this.errorLogger }
-                        />
+                        <AddressAutocompleteContext.Provider value={ this.addressAutocompleteContextValue }>
+                            <AddressVerifierContext.Provider value={ this.addressVerifierContextValue }>
+                                <AnalyticsContext.Provider value={ this.analyticsContextValue }>
+                                    <BinLookupContext.Provider value={ this.binLookupContextValue }>
+                                        <DeliveryScheduleContext.Provider value={ this.deliveryScheduleContextValue }>
+                                            <FileUploadContext.Provider value={ this.fileUploadContextValue }>
+                                                <FormFieldRulesContext.Provider value={ this.formFieldRulesContextValue }>
+                                                    <PickupLocationContext.Provider value={ this.pickupLocationContextValue }>
+                                                        <SplitTenderContext.Provider value={ this.splitTenderContextValue }>
+                                                            <Checkout
+                                                                { ...this.props }
+                                                                cartRestrictionRules={ this.getCartRestrictionRules(cartRestrictionRules, quote) }
+                                                                createEmbeddedMessenger={ createEmbeddedCheckoutMessenger }
+                                                                createStepTracker={ this.createStepTracker }
+                                                                embeddedStylesheet={ this.embeddedStylesheet }
+                                                                embeddedSupport={ this.embeddedSupport }
+                                                                errorLogger={ this.errorLogger }
+                                                                isLoadingQuote={ isLoadingQuote }
+                                                                onAcceptQuote={ this.handleAcceptQuote }
+                                                                onSubmitQuote={ this.handleSubmitQuote }
+                                                                quote={ quote }
+                                                                quoteRequestService={ this.quoteRequestService }
+                                                                stepHistory={ this.stepHistory }
+                                                                stepRegistry={ this.stepRegistry }
+                                                            />
+                                                        </SplitTenderContext.Provider>
+                                                    </PickupLocationContext.Provider>
+                                                </FormFieldRulesContext.Provider>
+                                            </FileUploadContext.Provider>
+                                        </DeliveryScheduleContext.Provider>
+                                    </BinLookupContext.Provider>
+                                </AnalyticsContext.Provider>
+                            </AddressVerifierContext.Provider>
+                        </AddressAutocompleteContext.Provider>
                     </CheckoutProvider>
                 </LocaleProvider>
             </ErrorBoundary>
@@ -67,4 +282,75 @@ export default class CheckoutApp extends Component<CheckoutAppProps> {
     private createStepTracker: () => StepTracker = () => {
         return createStepTracker(this.checkoutService);
     };
+
+    private handleAcceptQuote: (quote: Quote) => void = quote => {
+        this.setState({ quote });
+    };
+
+    private handleSubmitQuote: (quote: Quote) => void = quote => {
+        this.analyticsContextValue.analytics.emit({
+            type: AnalyticsEventType.QuoteRequested,
+            quoteId: quote.id,
+            quoteType: quote.quoteType,
+        });
+
+        this.setState({ quote });
+    };
+
+    private async loadQuote(): Promise<void> {
+        const { checkoutId } = this.props;
+
+        if (!this.quoteRequestService) {
+            return;
+        }
+
+        this.setState({ isLoadingQuote: true });
+
+        try {
+            const quote = await this.quoteRequestService.loadQuote(checkoutId, {
+                cancel: this.cancellation.promise,
+            });
+
+            this.setState({ isLoadingQuote: false, quote });
+        } catch (error) {
+            // Failed requests are already reported by the HTTP client, so
+            // there is no need to log them again here.
+            if (!(error instanceof HttpRequestCancelledError)) {
+                this.setState({ isLoadingQuote: false });
+            }
+        }
+    }
+
+    private async loadRestrictedBrandsRule(): Promise<void> {
+        if (!this.quoteRequestService) {
+            return;
+        }
+
+        try {
+            const restrictedBrands = await this.quoteRequestService.loadRestrictedBrands({
+                cancel: this.cancellation.promise,
+            });
+
+            this.setState(({ cartRestrictionRules }) => ({
+                cartRestrictionRules: [
+                    ...cartRestrictionRules,
+                    mapToRestrictedBrandsRule(restrictedBrands),
+                ],
+            }));
+        } catch (error) {
+            if (error instanceof HttpRequestCancelledError) {
+                return;
+            }
+
+            // Failed requests are already reported by the HTTP client. Payment
+            // is blocked instead, as the shopper may otherwise pay for products
+            // that have to be quoted first.
+            this.setState(({ cartRestrictionRules }) => ({
+                cartRestrictionRules: [
+                    ...cartRestrictionRules,
+                    getRestrictedBrandsUnavailableRule(),
+                ],
+            }));
+        }
+    }
 }
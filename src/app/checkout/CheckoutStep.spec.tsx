@@ -1,8 +1,11 @@
+import { createCheckoutService } from '@bigcommerce/checkout-sdk';
 import { mount } from 'enzyme';
 import { noop } from 'lodash';
 import React from 'react';
 import { CSSTransition } from 'react-transition-group';
 
+import { LocaleProvider, TranslatedString } from '../locale';
+import { initializeRightToLeftLanguageService } from '../locale/localeContext.mock';
 import { MOBILE_MAX_WIDTH } from '../ui/responsive';
 
 import CheckoutStep, { CheckoutStepProps } from './CheckoutStep';
@@ -182,4 +185,37 @@ describe('CheckoutStep', () => {
         expect(component.find(CSSTransition))
             .toHaveLength(0);
     });
+
+    it('matches snapshot in right-to-left locale', () => {
+        const container = document.body.appendChild(document.createElement('div'));
+
+        initializeRightToLeftLanguageService();
+
+        const component = mount(
+            <LocaleProvider checkoutService={ createCheckoutService() }>
+                <CheckoutStep
+                    { ...defaultProps }
+                    heading={ <TranslatedString id="billing.billing_heading" /> }
+                    isActive={ false }
+                    isComplete={ true }
+                    isEditable={ true }
+                    summary={ <TranslatedString id="billing.billing_address_heading" /> }
+                    type={ CheckoutStepType.Billing }
+                >
+                    <TranslatedString id="billing.use_shipping_address_label" />
+                </CheckoutStep>
+            </LocaleProvider>,
+            { attachTo: container }
+        );
+
+        expect(document.documentElement.dir)
+            .toEqual('rtl');
+        expect(component.find('.checkout-step').getDOMNode().closest('[dir="rtl"]'))
+            .toBe(document.documentElement);
+        expect(component.html())
+            .toMatchSnapshot();
+
+        component.detach();
+        container.remove();
+    });
 });
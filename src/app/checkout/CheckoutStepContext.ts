@@ -0,0 +1,43 @@
+import { Address, Cart, CartChangedError, Consignment } from '@bigcommerce/checkout-sdk';
+
+import { CartRestriction } from '../cartRestriction';
+import { CustomerSignOutEvent, CustomerViewType } from '../customer';
+import { Quote, QuoteRequestOptions, QuoteRequestService } from '../quoteRequest';
+
+/**
+ * The data and event handlers that `Checkout` makes available to each of its
+ * steps, so registered steps can be rendered without `Checkout` knowing about
+ * them.
+ */
+export default interface CheckoutStepContext {
+    billingAddress?: Address;
+    cart?: Cart;
+    cartRestriction: CartRestriction;
+    checkoutId: string;
+    consignments?: Consignment[];
+    customerViewType: CustomerViewType;
+    hasCartChanged: boolean;
+    isBillingSameAsShipping: boolean;
+    isLoadingQuote?: boolean;
+    isMultiShippingMode: boolean;
+    isPickupMode: boolean;
+    quote?: Quote;
+    quoteRequest?: QuoteRequestOptions;
+    quoteRequestService?: QuoteRequestService;
+    checkEmbeddedSupport(methodIds: string[]): boolean;
+    navigateToNextStep(): void;
+    navigateToOrderConfirmation(): void;
+    onAcceptQuote(quote: Quote): void;
+    onCartChangedError(error: CartChangedError): void;
+    onChangeCustomerViewType(viewType: CustomerViewType): void;
+    onError(error: Error): void;
+    onReady(): void;
+    onShippingCreateAccount(): void;
+    onShippingNextStep(isBillingSameAsShipping: boolean): void;
+    onShippingSignIn(): void;
+    onSignOut(event: CustomerSignOutEvent): void;
+    onSubmitQuote?(quote: Quote): void;
+    onToggleMultiShipping(): void;
+    onTogglePickup(): void;
+    onUnhandledError(error: Error): void;
+}
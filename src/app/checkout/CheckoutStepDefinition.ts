@@ -0,0 +1,46 @@
+import { CheckoutSelectors } from '@bigcommerce/checkout-sdk';
+import { ComponentType, ReactNode } from 'react';
+
+import { CartRestriction } from '../cartRestriction';
+
+import CheckoutStepContext from './CheckoutStepContext';
+import CheckoutStepStatus from './CheckoutStepStatus';
+import CheckoutStepType from './CheckoutStepType';
+
+export default interface CheckoutStepDefinition<TProps> {
+    /**
+     * The component rendered when the step is expanded. It should be a lazy
+     * component so its code is only loaded when it is needed.
+     */
+    component: ComponentType<TProps>;
+    heading: ReactNode;
+    /**
+     * Steps are sorted by this value in ascending order. The built-in steps
+     * are ordered in increments of 10 so other steps can be placed between
+     * them.
+     */
+    order: number;
+    type: CheckoutStepType;
+    /**
+     * Returns the status of the step, or nothing if the step is not
+     * applicable to the current checkout.
+     */
+    getStatus(state: CheckoutSelectors, cartRestriction?: CartRestriction): CheckoutStepStatus | undefined;
+    /**
+     * Returns the props of the step component, or nothing if the step cannot
+     * be rendered yet.
+     */
+    getProps(context: CheckoutStepContext): TProps | undefined;
+    /**
+     * Wraps or replaces the content of the step, i.e.: to render additional
+     * information above the step component.
+     */
+    renderContent?(content: ReactNode, context: CheckoutStepContext): ReactNode;
+    renderSummary?(context: CheckoutStepContext): ReactNode;
+}
+
+/**
+ * The props differ from step to step and are only known to the definition of
+ * each step, so they cannot be typed where the steps are kept together.
+ */
+export type AnyCheckoutStepDefinition = CheckoutStepDefinition<any>;
@@ -0,0 +1,22 @@
+import CheckoutStepType from './CheckoutStepType';
+
+export default interface CheckoutStepHistory {
+    /**
+     * Returns the step linked by the current URL, if any.
+     */
+    getStepType(): CheckoutStepType | undefined;
+
+    /**
+     * Adds a history entry for the step, unless the current URL is already
+     * linked to the step.
+     */
+    push(type: CheckoutStepType): void;
+
+    replace(type: CheckoutStepType): void;
+
+    /**
+     * Notifies the subscriber whenever the shopper navigates back or forward
+     * between history entries.
+     */
+    subscribe(subscriber: (type?: CheckoutStepType) => void): () => void;
+}
@@ -0,0 +1,88 @@
+import { noop } from 'lodash';
+
+import { AnyCheckoutStepDefinition } from './CheckoutStepDefinition';
+import CheckoutStepRegistry from './CheckoutStepRegistry';
+import CheckoutStepType from './CheckoutStepType';
+
+describe('CheckoutStepRegistry', () => {
+    let registry: CheckoutStepRegistry;
+
+    function createStep(type: CheckoutStepType, order: number): AnyCheckoutStepDefinition {
+        return {
+            component: () => null,
+            heading: type,
+            order,
+            type,
+            getProps: noop,
+            getStatus: () => undefined,
+        };
+    }
+
+    beforeEach(() => {
+        registry = new CheckoutStepRegistry();
+    });
+
+    it('returns registered steps in ascending order', () => {
+        registry
+            .register(createStep(CheckoutStepType.Payment, 40))
+            .register(createStep(CheckoutStepType.Customer, 10))
+            .register(createStep(CheckoutStepType.Shipping, 20));
+
+        expect(registry.getDefinitions().map(({ type }) => type))
+            .toEqual([
+                CheckoutStepType.Customer,
+                CheckoutStepType.Shipping,
+                CheckoutStepType.Payment,
+            ]);
+    });
+
+    it('keeps registration order of steps with same order', () => {
+        registry
+            .register(createStep(CheckoutStepType.Payment, 40))
+            .register(createStep(CheckoutStepType.QuoteRequest, 40));
+
+        expect(registry.getDefinitions().map(({ type }) => type))
+            .toEqual([
+                CheckoutStepType.Payment,
+                CheckoutStepType.QuoteRequest,
+            ]);
+    });
+
+    it('replaces step of same type', () => {
+        const step = createStep(CheckoutStepType.Billing, 5);
+
+        registry
+            .register(createStep(CheckoutStepType.Billing, 30))
+            .register(step);
+
+        expect(registry.getDefinitions())
+            .toEqual([step]);
+        expect(registry.getDefinition(CheckoutStepType.Billing))
+            .toBe(step);
+    });
+
+    it('removes unregistered step', () => {
+        registry
+            .register(createStep(CheckoutStepType.Billing, 30))
+            .unregister(CheckoutStepType.Billing);
+
+        expect(registry.getDefinitions())
+            .toEqual([]);
+        expect(registry.getDefinition(CheckoutStepType.Billing))
+            .toBeUndefined();
+    });
+
+    it('returns same list of steps until registry is changed', () => {
+        registry.register(createStep(CheckoutStepType.Customer, 10));
+
+        const definitions = registry.getDefinitions();
+
+        expect(registry.getDefinitions())
+            .toBe(definitions);
+
+        registry.register(createStep(CheckoutStepType.Payment, 40));
+
+        expect(registry.getDefinitions())
+            .not.toBe(definitions);
+    });
+});
@@ -0,0 +1,46 @@
+import { sortBy } from 'lodash';
+
+import CheckoutStepDefinition, { AnyCheckoutStepDefinition } from './CheckoutStepDefinition';
+import CheckoutStepType from './CheckoutStepType';
+
+export default class CheckoutStepRegistry {
+    private definitions: AnyCheckoutStepDefinition[] = [];
+    private sortedDefinitions?: AnyCheckoutStepDefinition[];
+
+    /**
+     * Registers a step. If a step of the same type has already been
+     * registered, it is replaced.
+     */
+    register<TProps>(definition: CheckoutStepDefinition<TProps>): this {
+        this.definitions = [
+            ...this.definitions.filter(({ type }) => type !== definition.type),
+            definition,
+        ];
+        this.sortedDefinitions = undefined;
+
+        return this;
+    }
+
+    unregister(type: CheckoutStepType): this {
+        this.definitions = this.definitions.filter(definition => definition.type !== type);
+        this.sortedDefinitions = undefined;
+
+        return this;
+    }
+
+    getDefinition(type: CheckoutStepType): AnyCheckoutStepDefinition | undefined {
+        return this.definitions.find(definition => definition.type === type);
+    }
+
+    /**
+     * Returns registered steps in display order. The same array is returned
+     * until the registry is changed, so it can be used for memoization.
+     */
+    getDefinitions(): AnyCheckoutStepDefinition[] {
+        if (!this.sortedDefinitions) {
+            this.sortedDefinitions = sortBy(this.definitions, 'order');
+        }
+
+        return this.sortedDefinitions;
+    }
+}
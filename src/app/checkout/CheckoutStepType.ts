@@ -2,6 +2,7 @@ enum CheckoutStepType {
     Billing = 'billing',
     Customer = 'customer',
     Payment = 'payment',
+    QuoteRequest = 'quoteRequest',
     Shipping = 'shipping',
 }
 
@@ -0,0 +1,21 @@
+import { noop } from 'lodash';
+
+import CheckoutStepHistory from './CheckoutStepHistory';
+
+export default class NoopCheckoutStepHistory implements CheckoutStepHistory {
+    getStepType(): undefined {
+        return;
+    }
+
+    push(): void {
+        return;
+    }
+
+    replace(): void {
+        return;
+    }
+
+    subscribe(): () => void {
+        return noop;
+    }
+}
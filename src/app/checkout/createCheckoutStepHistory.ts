@@ -0,0 +1,13 @@
+import { isEmbedded } from '../embeddedCheckout';
+
+import BrowserCheckoutStepHistory from './BrowserCheckoutStepHistory';
+import CheckoutStepHistory from './CheckoutStepHistory';
+import NoopCheckoutStepHistory from './NoopCheckoutStepHistory';
+
+// Embedded checkout is rendered inside an iframe, so its history entries would
+// interfere with the navigation of the parent window.
+export default function createCheckoutStepHistory(): CheckoutStepHistory {
+    return isEmbedded() ?
+        new NoopCheckoutStepHistory() :
+        new BrowserCheckoutStepHistory();
+}
@@ -1,17 +1,21 @@
 import { createCheckoutService, CheckoutSelectors, CheckoutService } from '@bigcommerce/checkout-sdk';
-import { find } from 'lodash';
+import { find, noop } from 'lodash';
 
 import { getAddressFormFields, getAddressFormFieldsWithCustomRequired } from '../address/formField.mock';
 import { getBillingAddress, getEmptyBillingAddress } from '../billing/billingAddresses.mock';
 import { getCart } from '../cart/carts.mock';
+import { CartRestrictionAction } from '../cartRestriction';
 import { getCustomer, getGuestCustomer } from '../customer/customers.mock';
 import { getOrder } from '../order/orders.mock';
 import { getPaymentMethod } from '../payment/payment-methods.mock';
 import { getConsignment } from '../shipping/consignment.mock';
 import { getShippingAddress } from '../shipping/shipping-addresses.mock';
+import { getShippingOptionPickUpStore } from '../shipping/shippingOption/shippingMethod.mock';
 
 import { getCheckoutWithAmazonPay, getCheckoutWithPayments } from './checkouts.mock';
 import getCheckoutStepStatuses from './getCheckoutStepStatuses';
+import { createCheckoutStepRegistry } from './steps';
+import CheckoutStepRegistry from './CheckoutStepRegistry';
 import CheckoutStepType from './CheckoutStepType';
 
 describe('getCheckoutStepStatuses()', () => {
@@ -270,6 +274,30 @@ describe('getCheckoutStepStatuses()', () => {
                 .toEqual(true);
         });
 
+        it('is marked as complete if shipping address is not valid but consignment is picked up in store', () => {
+            jest.spyOn(state.data, 'getShippingAddress')
+                .mockReturnValue({
+                    ...getShippingAddress(),
+                    firstName: '',
+                    lastName: '',
+                });
+
+            jest.spyOn(state.data, 'getCart')
+                .mockReturnValue(getCart());
+
+            jest.spyOn(state.data, 'getConsignments')
+                .mockReturnValue([{
+                    ...getConsignment(),
+                    selectedShippingOption: getShippingOptionPickUpStore(),
+                }]);
+
+            const steps = getCheckoutStepStatuses(state);
+
+            // tslint:disable-next-line:no-non-null-assertion
+            expect(find(steps, { type: CheckoutStepType.Shipping })!.isComplete)
+                .toEqual(true);
+        });
+
         it('is marked as incomplete if shipping option is not provided', () => {
             jest.spyOn(state.data, 'getShippingAddress')
                 .mockReturnValue(getShippingAddress());
@@ -414,6 +442,34 @@ describe('getCheckoutStepStatuses()', () => {
             expect(find(steps, { type: CheckoutStepType.Payment })!.isEditable)
                 .toEqual(false);
         });
+
+        it('is marked as non-editable if cart is blocked by restriction rule', () => {
+            jest.spyOn(state.data, 'getOrder')
+                .mockReturnValue(getOrder());
+
+            const steps = getCheckoutStepStatuses(state, {
+                action: CartRestrictionAction.Block,
+                matches: [],
+            });
+
+            // tslint:disable-next-line:no-non-null-assertion
+            expect(find(steps, { type: CheckoutStepType.Payment })!.isEditable)
+                .toEqual(false);
+        });
+
+        it('is replaced by quote request step if cart requires quote', () => {
+            const steps = getCheckoutStepStatuses(state, {
+                action: CartRestrictionAction.ForceQuote,
+                matches: [],
+            });
+
+            expect(find(steps, { type: CheckoutStepType.Payment }))
+                .toBeUndefined();
+
+            // tslint:disable-next-line:no-non-null-assertion
+            expect(find(steps, { type: CheckoutStepType.QuoteRequest })!.isRequired)
+                .toEqual(true);
+        });
     });
 
     it('returns steps in order', () => {
@@ -510,4 +566,82 @@ describe('getCheckoutStepStatuses()', () => {
         expect(find(getCheckoutStepStatuses(state), { type: CheckoutStepType.Billing })!.isActive)
             .toEqual(true);
     });
+
+    describe('when additional step is registered', () => {
+        let registry: CheckoutStepRegistry;
+
+        beforeEach(() => {
+            registry = createCheckoutStepRegistry()
+                .register({
+                    component: () => null,
+                    heading: 'Quote request',
+                    order: 25,
+                    type: CheckoutStepType.QuoteRequest,
+                    getProps: noop,
+                    getStatus: () => ({
+                        type: CheckoutStepType.QuoteRequest,
+                        isActive: false,
+                        isComplete: false,
+                        isEditable: false,
+                        isRequired: true,
+                    }),
+                });
+        });
+
+        it('returns step according to its order', () => {
+            expect(getCheckoutStepStatuses(state, undefined, registry).map(({ type }) => type))
+                .toEqual([
+                    CheckoutStepType.Customer,
+                    CheckoutStepType.Shipping,
+                    CheckoutStepType.QuoteRequest,
+                    CheckoutStepType.Billing,
+                    CheckoutStepType.Payment,
+                ]);
+        });
+
+        it('marks registered step as active if it is first incomplete step', () => {
+            jest.spyOn(state.data, 'getCustomer')
+                .mockReturnValue(getCustomer());
+
+            jest.spyOn(state.data, 'getCart')
+                .mockReturnValue({
+                    ...getCart(),
+                    lineItems: {
+                        ...getCart().lineItems,
+                        physicalItems: [],
+                    },
+                });
+
+            // tslint:disable-next-line:no-non-null-assertion
+            expect(find(getCheckoutStepStatuses(state, undefined, registry), { type: CheckoutStepType.QuoteRequest })!.isActive)
+                .toEqual(true);
+        });
+
+        it('marks subsequent step as non-editable if registered step is incomplete', () => {
+            jest.spyOn(state.data, 'getBillingAddress')
+                .mockReturnValue(getBillingAddress());
+
+            jest.spyOn(state.data, 'getBillingAddressFields')
+                .mockReturnValue(getAddressFormFields());
+
+            jest.spyOn(state.data, 'getCustomer')
+                .mockReturnValue(getCustomer());
+
+            // tslint:disable-next-line:no-non-null-assertion
+            expect(find(getCheckoutStepStatuses(state, undefined, registry), { type: CheckoutStepType.Billing })!.isEditable)
+                .toEqual(false);
+        });
+
+        it('does not return step once it is unregistered', () => {
+            registry.unregister(CheckoutStepType.QuoteRequest);
+
+            expect(find(getCheckoutStepStatuses(state, undefined, registry), { type: CheckoutStepType.QuoteRequest }))
+                .toBeUndefined();
+        });
+    });
+
+    it('returns same list of steps if their statuses have not changed', () => {
+        expect(getCheckoutStepStatuses(state))
+            .toBe(getCheckoutStepStatuses(state));
+    });
 });
@@ -4,3 +4,12 @@ export { default as CheckoutProvider, CheckoutProviderProps, CheckoutProviderSta
 export { default as withCheckout } from './withCheckout';
 export { default as CheckoutSupport } from './CheckoutSupport';
 export { default as NoopCheckoutSupport } from './NoopCheckoutSupport';
+export { default as BrowserCheckoutStepHistory } from './BrowserCheckoutStepHistory';
+export { default as NoopCheckoutStepHistory } from './NoopCheckoutStepHistory';
+export { default as CheckoutStepContext } from './CheckoutStepContext';
+export { default as CheckoutStepHistory } from './CheckoutStepHistory';
+export { default as CheckoutStepDefinition, AnyCheckoutStepDefinition } from './CheckoutStepDefinition';
+export { default as CheckoutStepRegistry } from './CheckoutStepRegistry';
+export { default as CheckoutStepStatus } from './CheckoutStepStatus';
+export { default as CheckoutStepType } from './CheckoutStepType';
+export { createCheckoutStepRegistry } from './steps';
@@ -1,16 +1,19 @@
 import { CheckoutSelectors, CustomError } from '@bigcommerce/checkout-sdk';
 import { createSelector } from 'reselect';
 
+import { getCartRestriction } from '../cartRestriction';
 import { EMPTY_ARRAY } from '../common/utility';
 
 import getCheckoutStepStatuses from './getCheckoutStepStatuses';
-import { WithCheckoutProps } from './Checkout';
+import { CheckoutProps, WithCheckoutProps } from './Checkout';
 import { CheckoutContextProps } from './CheckoutContext';
 
 export default function mapToCheckoutProps(
-    { checkoutService, checkoutState }: CheckoutContextProps
+    { checkoutService, checkoutState }: CheckoutContextProps,
+    { cartRestrictionRules, stepRegistry }: Partial<Pick<CheckoutProps, 'cartRestrictionRules' | 'stepRegistry'>> = {}
 ): WithCheckoutProps {
     const { data, errors, statuses } = checkoutState;
+    const cartRestriction = getCartRestriction(checkoutState, cartRestrictionRules);
     const { promotions = EMPTY_ARRAY } = data.getCheckout() || {};
     const submitOrderError = errors.getSubmitOrderError() as CustomError;
     const {
@@ -34,6 +37,7 @@ export default function mapToCheckoutProps(
     return {
         billingAddress: data.getBillingAddress(),
         cart: data.getCart(),
+        cartRestriction,
         clearError: checkoutService.clearError,
         consignments: data.getConsignments(),
         hasCartChanged: submitOrderError && submitOrderError.type === 'cart_changed', // TODO: Need to clear the error once it's displayed
@@ -46,6 +50,6 @@ export default function mapToCheckoutProps(
         canCreateAccountInCheckout: features['CHECKOUT-4941.account_creation_in_checkout'],
         promotions,
         subscribeToConsignments: subscribeToConsignmentsSelector({ checkoutService, checkoutState }),
-        steps: data.getCheckout() ? getCheckoutStepStatuses(checkoutState) : EMPTY_ARRAY,
+        steps: data.getCheckout() ? getCheckoutStepStatuses(checkoutState, cartRestriction, stepRegistry) : EMPTY_ARRAY,
     };
 }
@@ -1,5 +1,7 @@
 import React, { FunctionComponent } from 'react';
 
+import { getLanguageService, loadTranslations } from '../locale';
+
 import renderCheckout, { RenderCheckoutOptions } from './renderCheckout';
 import { CheckoutAppProps } from './CheckoutApp';
 
@@ -21,6 +23,10 @@ jest.mock('../common/bundler', () => {
     };
 });
 
+jest.mock('../locale/loadTranslations', () => ({
+    default: jest.fn(jest.requireActual('../locale/loadTranslations').default),
+}));
+
 jest.mock('./CheckoutApp', () => {
     CheckoutApp = jest.fn(() => <>{ publicPath }</>);
 
@@ -92,4 +98,66 @@ describe('renderCheckout()', () => {
 
         process.env.NODE_ENV = env;
     });
+
+    it('overrides translations before mounting app component', async () => {
+        (CheckoutApp as jest.Mock).mockClear();
+
+        renderCheckout({
+            ...options,
+            translations: {
+                cart: { total_text: 'Grand Total' },
+            },
+        });
+
+        expect(CheckoutApp)
+            .not.toHaveBeenCalled();
+
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(getLanguageService().translate('cart.total_text'))
+            .toEqual('Grand Total');
+
+        expect(CheckoutApp)
+            .toHaveBeenCalledWith(options, {});
+    });
+
+    it('fetches translations of locale that is not bundled with app from URL', async () => {
+        (loadTranslations as jest.Mock).mockClear();
+        (loadTranslations as jest.Mock).mockResolvedValueOnce({ cart: { total_text: 'Gokei' } });
+
+        jest.spyOn(getLanguageService(), 'getLocale')
+            .mockReturnValueOnce('ja');
+
+        renderCheckout({
+            ...options,
+            translations: 'https://foobar.com/translations/{locale}.json',
+        });
+
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(loadTranslations)
+            .toHaveBeenCalledWith('https://foobar.com/translations/{locale}.json', 'ja');
+
+        expect(getLanguageService().translate('cart.total_text'))
+            .toEqual('Gokei');
+
+        expect(CheckoutApp)
+            .toHaveBeenCalledWith(options, {});
+    });
+
+    it('renders app without fetching translations if they are not provided', () => {
+        (CheckoutApp as jest.Mock).mockClear();
+        (loadTranslations as jest.Mock).mockClear();
+
+        jest.spyOn(getLanguageService(), 'getLocale')
+            .mockReturnValueOnce('ja');
+
+        renderCheckout(options);
+
+        expect(loadTranslations)
+            .not.toHaveBeenCalled();
+
+        expect(CheckoutApp)
+            .toHaveBeenCalledWith(options, {});
+    });
 });
@@ -1,40 +1,67 @@
+import { noop } from 'lodash';
 import React from 'react';
 import ReactDOM from 'react-dom';
 
 import { configurePublicPath } from '../common/bundler';
+import { getLanguageConfig, getLanguageService, loadTranslations, overrideTranslations, reportMissingTranslations, TranslationsSource } from '../locale';
 
 import { CheckoutAppProps } from './CheckoutApp';
 
-export type RenderCheckoutOptions = CheckoutAppProps;
+export type RenderCheckoutOptions = CheckoutAppProps & {
+    /**
+     * Translations that override the default translations of the shopper's
+     * locale key by key, or the URL to fetch them from. They can also be used
+     * to provide translations for locales that are not bundled with the app.
+     * Checkout is rendered once they are loaded, so nothing is fetched unless
+     * they are provided.
+     */
+    translations?: TranslationsSource;
+};
 export type RenderCheckout = typeof renderCheckout;
 
 export default function renderCheckout({
     containerId,
     publicPath,
+    translations,
     ...props
 }: RenderCheckoutOptions): void {
     const configuredPublicPath = configurePublicPath(publicPath);
 
-    // We want to use `require` here because we want to set up the public path
-    // first before importing the app component and its dependencies.
-    const { default: CheckoutApp } = require('./CheckoutApp');
+    const render = () => {
+        // We want to use `require` here because we want to set up the public path
+        // first before importing the app component and its dependencies.
+        const { default: CheckoutApp } = require('./CheckoutApp');
 
-    // We want to use `require` here because we only want to import the package
-    // in development mode.
-    if (process.env.NODE_ENV === 'development') {
-        const whyDidYouRender = require('@welldone-software/why-did-you-render');
+        // We want to use `require` here because we only want to import the package
+        // in development mode.
+        if (process.env.NODE_ENV === 'development') {
+            const whyDidYouRender = require('@welldone-software/why-did-you-render');
 
-        whyDidYouRender(React, {
-            collapseGroups: true,
-        });
+            whyDidYouRender(React, {
+                collapseGroups: true,
+            });
+
+            reportMissingTranslations(getLanguageConfig());
+        }
+
+        ReactDOM.render(
+            <CheckoutApp
+                containerId={ containerId }
+                publicPath={ configuredPublicPath }
+                { ...props }
+            />,
+            document.getElementById(containerId)
+        );
+    };
+
+    if (!translations) {
+        return render();
     }
 
-    ReactDOM.render(
-        <CheckoutApp
-            containerId={ containerId }
-            publicPath={ configuredPublicPath }
-            { ...props }
-        />,
-        document.getElementById(containerId)
-    );
+    // If the translations cannot be loaded, checkout is still rendered with
+    // the default translations rather than not at all.
+    loadTranslations(translations, getLanguageService().getLocale())
+        .then(overrideTranslations)
+        .catch(noop)
+        .then(render);
 }
@@ -0,0 +1,70 @@
+import { CheckoutSelectors } from '@bigcommerce/checkout-sdk';
+import React, { lazy } from 'react';
+import { createSelector } from 'reselect';
+
+import { isValidAddress } from '../../address';
+import { BillingProps, StaticBillingAddress } from '../../billing';
+import { retry, EMPTY_ARRAY } from '../../common/utility';
+import { SUPPORTED_METHODS } from '../../customer';
+import { TranslatedString } from '../../locale';
+import CheckoutStepDefinition from '../CheckoutStepDefinition';
+import CheckoutStepType from '../CheckoutStepType';
+
+const Billing = lazy(() => retry(() => import(
+    /* webpackChunkName: "billing" */
+    '../../billing/Billing'
+)));
+
+export const getBillingStepStatus = createSelector(
+    ({ data }: CheckoutSelectors) => data.getCheckout(),
+    ({ data }: CheckoutSelectors) => data.getBillingAddress(),
+    ({ data }: CheckoutSelectors) => {
+        const billingAddress = data.getBillingAddress();
+
+        return billingAddress ? data.getBillingAddressFields(billingAddress.countryCode) : EMPTY_ARRAY;
+    },
+    (checkout, billingAddress, billingAddressFields) => {
+        const hasAddress = billingAddress ? isValidAddress(billingAddress, billingAddressFields) : false;
+        const isUsingWallet = checkout && checkout.payments ? checkout.payments.some(payment => SUPPORTED_METHODS.indexOf(payment.providerId) >= 0) : false;
+        const isComplete = hasAddress || isUsingWallet;
+        const isUsingAmazonPay = checkout && checkout.payments ? checkout.payments.some(payment => payment.providerId === 'amazonpay') : false;
+
+        if (isUsingAmazonPay) {
+            const billingAddressCustomFields = billingAddressFields.filter(({ custom }: { custom: boolean }) => custom);
+            const hasCustomFields = billingAddressCustomFields.length > 0;
+            const isAmazonPayBillingStepComplete = billingAddress && hasCustomFields ? isValidAddress(billingAddress, billingAddressCustomFields) : true;
+
+            return {
+                type: CheckoutStepType.Billing,
+                isActive: false,
+                isComplete: isAmazonPayBillingStepComplete,
+                isEditable: isAmazonPayBillingStepComplete && hasCustomFields,
+                isRequired: true,
+            };
+        }
+
+        return {
+            type: CheckoutStepType.Billing,
+            isActive: false,
+            isComplete,
+            isEditable: isComplete && !isUsingWallet,
+            isRequired: true,
+        };
+    }
+);
+
+const billingStep: CheckoutStepDefinition<BillingProps> = {
+    component: Billing,
+    heading: <TranslatedString id="billing.billing_heading" />,
+    order: 30,
+    type: CheckoutStepType.Billing,
+    getStatus: getBillingStepStatus,
+    getProps: context => ({
+        navigateNextStep: context.navigateToNextStep,
+        onReady: context.onReady,
+        onUnhandledError: context.onUnhandledError,
+    }),
+    renderSummary: ({ billingAddress }) => billingAddress && <StaticBillingAddress address={ billingAddress } />,
+};
+
+export default billingStep;
@@ -0,0 +1,20 @@
+import CheckoutStepRegistry from '../CheckoutStepRegistry';
+
+import billingStep from './billingStep';
+import customerStep from './customerStep';
+import paymentStep from './paymentStep';
+import quoteRequestStep from './quoteRequestStep';
+import shippingStep from './shippingStep';
+
+/**
+ * Creates a registry containing the built-in checkout steps. Additional steps
+ * can be registered on the returned registry.
+ */
+export default function createCheckoutStepRegistry(): CheckoutStepRegistry {
+    return new CheckoutStepRegistry()
+        .register(customerStep)
+        .register(shippingStep)
+        .register(billingStep)
+        .register(paymentStep)
+        .register(quoteRequestStep);
+}
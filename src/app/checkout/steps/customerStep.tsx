@@ -0,0 +1,64 @@
+import { CheckoutSelectors } from '@bigcommerce/checkout-sdk';
+import React, { lazy } from 'react';
+import { createSelector } from 'reselect';
+
+import { retry } from '../../common/utility';
+import { CustomerInfo, CustomerProps, SUPPORTED_METHODS } from '../../customer';
+import { isEmbedded } from '../../embeddedCheckout';
+import { TranslatedString } from '../../locale';
+import CheckoutStepDefinition from '../CheckoutStepDefinition';
+import CheckoutStepType from '../CheckoutStepType';
+
+const Customer = lazy(() => retry(() => import(
+    /* webpackChunkName: "customer" */
+    '../../customer/Customer'
+)));
+
+export const getCustomerStepStatus = createSelector(
+    ({ data }: CheckoutSelectors) => data.getCheckout(),
+    ({ data }: CheckoutSelectors) => data.getCustomer(),
+    ({ data }: CheckoutSelectors) => data.getBillingAddress(),
+    (checkout, customer, billingAddress) => {
+        const hasEmail = !!(customer && customer.email || billingAddress && billingAddress.email);
+        const isUsingWallet = checkout && checkout.payments ? checkout.payments.some(payment => SUPPORTED_METHODS.indexOf(payment.providerId) >= 0) : false;
+        const isGuest = !!(customer && customer.isGuest);
+        const isComplete = hasEmail || isUsingWallet;
+
+        return {
+            type: CheckoutStepType.Customer,
+            isActive: false,
+            isComplete,
+            isEditable: isComplete && !isUsingWallet && isGuest,
+            isRequired: true,
+        };
+    }
+);
+
+const customerStep: CheckoutStepDefinition<CustomerProps> = {
+    component: Customer,
+    heading: <TranslatedString id="customer.customer_heading" />,
+    order: 10,
+    type: CheckoutStepType.Customer,
+    getStatus: getCustomerStepStatus,
+    getProps: context => ({
+        checkEmbeddedSupport: context.checkEmbeddedSupport,
+        isEmbedded: isEmbedded(),
+        onAccountCreated: context.navigateToNextStep,
+        onChangeViewType: context.onChangeCustomerViewType,
+        onContinueAsGuest: context.navigateToNextStep,
+        onContinueAsGuestError: context.onError,
+        onReady: context.onReady,
+        onSignIn: context.navigateToNextStep,
+        onSignInError: context.onError,
+        onUnhandledError: context.onUnhandledError,
+        viewType: context.customerViewType,
+    }),
+    renderSummary: ({ onError, onSignOut }) => (
+        <CustomerInfo
+            onSignOut={ onSignOut }
+            onSignOutError={ onError }
+        />
+    ),
+};
+
+export default customerStep;
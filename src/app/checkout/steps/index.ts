@@ -0,0 +1,6 @@
+export { default as billingStep } from './billingStep';
+export { default as createCheckoutStepRegistry } from './createCheckoutStepRegistry';
+export { default as customerStep } from './customerStep';
+export { default as paymentStep } from './paymentStep';
+export { default as quoteRequestStep } from './quoteRequestStep';
+export { default as shippingStep } from './shippingStep';
@@ -0,0 +1,72 @@
+import { CheckoutSelectors } from '@bigcommerce/checkout-sdk';
+import React, { lazy, Fragment } from 'react';
+import { createSelector } from 'reselect';
+
+import { CartRestriction, CartRestrictionAction, CartRestrictionNotice } from '../../cartRestriction';
+import { retry } from '../../common/utility';
+import { isEmbedded } from '../../embeddedCheckout';
+import { TranslatedString } from '../../locale';
+import { PaymentProps } from '../../payment';
+import { QuoteStatus, QuoteSummary } from '../../quoteRequest';
+import { isUsingMultiShipping } from '../../shipping';
+import CheckoutStepDefinition from '../CheckoutStepDefinition';
+import CheckoutStepType from '../CheckoutStepType';
+
+const Payment = lazy(() => retry(() => import(
+    /* webpackChunkName: "payment" */
+    '../../payment/Payment'
+)));
+
+export const getPaymentStepStatus = createSelector(
+    ({ data }: CheckoutSelectors) => data.getOrder(),
+    (_: CheckoutSelectors, cartRestriction?: CartRestriction) => cartRestriction && cartRestriction.action,
+    (order, restrictionAction) => {
+        const isComplete = order ? order.isComplete : false;
+
+        // The shopper has to request a quote instead of paying for the order
+        if (restrictionAction === CartRestrictionAction.ForceQuote) {
+            return;
+        }
+
+        return {
+            type: CheckoutStepType.Payment,
+            isActive: false,
+            isComplete,
+            isEditable: isComplete && restrictionAction !== CartRestrictionAction.Block,
+            isRequired: true,
+        };
+    }
+);
+
+const paymentStep: CheckoutStepDefinition<PaymentProps> = {
+    component: Payment,
+    heading: <TranslatedString id="payment.payment_heading" />,
+    order: 40,
+    type: CheckoutStepType.Payment,
+    getStatus: getPaymentStepStatus,
+    getProps: ({ cart, consignments, ...context }) => ({
+        checkEmbeddedSupport: context.checkEmbeddedSupport,
+        isEmbedded: isEmbedded(),
+        isUsingMultiShipping: cart && consignments ? isUsingMultiShipping(consignments, cart.lineItems) : false,
+        onCartChangedError: context.onCartChangedError,
+        onFinalize: context.navigateToOrderConfirmation,
+        onReady: context.onReady,
+        onSubmit: context.navigateToOrderConfirmation,
+        onSubmitError: context.onError,
+        onUnhandledError: context.onUnhandledError,
+    }),
+    renderContent: (content, { cartRestriction, quote }) => (
+        <Fragment>
+            { quote && quote.status === QuoteStatus.Accepted && <QuoteSummary quote={ quote } /> }
+
+            { cartRestriction.action === CartRestrictionAction.Block ?
+                <CartRestrictionNotice
+                    action={ CartRestrictionAction.Block }
+                    cartRestriction={ cartRestriction }
+                /> :
+                content }
+        </Fragment>
+    ),
+};
+
+export default paymentStep;
@@ -0,0 +1,60 @@
+import { CheckoutSelectors } from '@bigcommerce/checkout-sdk';
+import React, { lazy } from 'react';
+import { createSelector } from 'reselect';
+
+import { CartRestriction, CartRestrictionAction } from '../../cartRestriction';
+import { retry } from '../../common/utility';
+import { TranslatedString } from '../../locale';
+import { QuoteRequestProps } from '../../quoteRequest';
+import CheckoutStepDefinition from '../CheckoutStepDefinition';
+import CheckoutStepType from '../CheckoutStepType';
+
+const QuoteRequest = lazy(() => retry(() => import(
+    /* webpackChunkName: "quote-request" */
+    '../../quoteRequest/QuoteRequest'
+)));
+
+export const getQuoteRequestStepStatus = createSelector(
+    (_: CheckoutSelectors, cartRestriction?: CartRestriction) => cartRestriction && cartRestriction.action,
+    restrictionAction => {
+        // The step replaces the payment step if the shopper has to request a
+        // quote instead of paying for the order
+        if (restrictionAction !== CartRestrictionAction.ForceQuote) {
+            return;
+        }
+
+        return {
+            type: CheckoutStepType.QuoteRequest,
+            isActive: false,
+            isComplete: false,
+            isEditable: false,
+            isRequired: true,
+        };
+    }
+);
+
+const quoteRequestStep: CheckoutStepDefinition<QuoteRequestProps> = {
+    component: QuoteRequest,
+    heading: <TranslatedString id="quote_request.quote_request_heading" />,
+    order: 40,
+    type: CheckoutStepType.QuoteRequest,
+    getStatus: getQuoteRequestStepStatus,
+    getProps: context => {
+        if (!context.quoteRequestService) {
+            return;
+        }
+
+        return {
+            checkoutId: context.checkoutId,
+            isLoadingQuote: context.isLoadingQuote,
+            maxArtworkFileSize: context.quoteRequest && context.quoteRequest.maxArtworkFileSize,
+            onAccept: context.onAcceptQuote,
+            onSubmit: context.onSubmitQuote,
+            onUnhandledError: context.onUnhandledError,
+            quote: context.quote,
+            quoteRequestService: context.quoteRequestService,
+        };
+    },
+};
+
+export default quoteRequestStep;
@@ -0,0 +1,95 @@
+import { CheckoutSelectors } from '@bigcommerce/checkout-sdk';
+import React, { lazy } from 'react';
+import { createSelector } from 'reselect';
+
+import { isValidAddress } from '../../address';
+import { retry, EMPTY_ARRAY } from '../../common/utility';
+import { TranslatedString } from '../../locale';
+import { hasSelectedShippingOptions, hasUnassignedLineItems, isUsingPickup, itemsRequireShipping, DeliverySlotStorage, ShippingProps, StaticConsignment } from '../../shipping';
+import CheckoutStepDefinition from '../CheckoutStepDefinition';
+import CheckoutStepType from '../CheckoutStepType';
+
+const Shipping = lazy(() => retry(() => import(
+    /* webpackChunkName: "shipping" */
+    '../../shipping/Shipping'
+)));
+
+export const getShippingStepStatus = createSelector(
+    ({ data }: CheckoutSelectors) => data.getShippingAddress(),
+    ({ data }: CheckoutSelectors) => data.getConsignments(),
+    ({ data }: CheckoutSelectors) => data.getCart(),
+    ({ data }: CheckoutSelectors) => data.getSelectedPaymentMethod(),
+    ({ data }: CheckoutSelectors) => {
+        const shippingAddress = data.getShippingAddress();
+
+        return shippingAddress ? data.getShippingAddressFields(shippingAddress.countryCode) : EMPTY_ARRAY;
+    },
+    ({ data }: CheckoutSelectors) => data.getConfig(),
+    (shippingAddress, consignments, cart, payment, shippingAddressFields, config) => {
+        const hasAddress = shippingAddress ? isValidAddress(shippingAddress, shippingAddressFields) : false;
+        // @todo: interim solution, ideally we should render custom form fields below amazon shipping widget
+        const hasRemoteAddress = !!shippingAddress && !!payment && payment.id === 'amazon';
+        // Consignments picked up in store are shipped to the location, so the
+        // shopper does not have to provide a shipping address.
+        const hasPickupLocation = consignments ? isUsingPickup(consignments) : false;
+        const hasOptions = consignments ? hasSelectedShippingOptions(consignments) : false;
+        const hasUnassignedItems = cart && consignments ? hasUnassignedLineItems(consignments, cart.lineItems) : true;
+        const isComplete = (hasAddress || hasRemoteAddress || hasPickupLocation) && hasOptions && !hasUnassignedItems;
+        const isRequired = itemsRequireShipping(cart, config);
+
+        return {
+            type: CheckoutStepType.Shipping,
+            isActive: false,
+            isComplete,
+            isEditable: isComplete && isRequired,
+            isRequired,
+        };
+    }
+);
+
+const shippingStep: CheckoutStepDefinition<ShippingProps> = {
+    component: Shipping,
+    heading: <TranslatedString id="shipping.shipping_heading" />,
+    order: 20,
+    type: CheckoutStepType.Shipping,
+    getStatus: getShippingStepStatus,
+    getProps: context => {
+        if (!context.cart) {
+            return;
+        }
+
+        return {
+            cartHasChanged: context.hasCartChanged,
+            isBillingSameAsShipping: context.isBillingSameAsShipping,
+            isMultiShippingMode: context.isMultiShippingMode,
+            isPickupMode: context.isPickupMode,
+            navigateNextStep: context.onShippingNextStep,
+            onCreateAccount: context.onShippingCreateAccount,
+            onReady: context.onReady,
+            onSignIn: context.onShippingSignIn,
+            onToggleMultiShipping: context.onToggleMultiShipping,
+            onTogglePickup: context.onTogglePickup,
+            onUnhandledError: context.onUnhandledError,
+        };
+    },
+    renderSummary: ({ cart, consignments = [] }) => {
+        if (!cart) {
+            return;
+        }
+
+        const deliverySlots = new DeliverySlotStorage().getSlots(cart.id);
+
+        return consignments.map(consignment =>
+            <div className="staticConsignmentContainer" key={ consignment.id }>
+                <StaticConsignment
+                    cart={ cart }
+                    compactView={ consignments.length < 2 }
+                    consignment={ consignment }
+                    deliverySlot={ deliverySlots[consignment.id] }
+                />
+            </div>
+        );
+    },
+};
+
+export default shippingStep;
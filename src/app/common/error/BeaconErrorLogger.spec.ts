@@ -0,0 +1,82 @@
+import BeaconErrorLogger from './BeaconErrorLogger';
+import { ErrorLevelType } from './ErrorLogger';
+
+describe('BeaconErrorLogger', () => {
+    let browserWindow: Window;
+    let sendBeacon: jest.Mock;
+
+    beforeEach(() => {
+        sendBeacon = jest.fn(() => true);
+        browserWindow = window;
+
+        Object.defineProperty(window.navigator, 'sendBeacon', {
+            configurable: true,
+            value: sendBeacon,
+        });
+    });
+
+    afterEach(() => {
+        delete (window.navigator as Partial<Navigator>).sendBeacon;
+    });
+
+    it('sends errors when batch is full', () => {
+        const logger = new BeaconErrorLogger({ batchSize: 2, url: '/collector' }, browserWindow);
+
+        logger.log(new Error('Testing 123'), { errorCode: 'abc' });
+
+        expect(sendBeacon).not.toHaveBeenCalled();
+
+        logger.log(new Error('Testing 456'), { errorCode: 'def' }, ErrorLevelType.Warning, { foo: 'bar' });
+
+        expect(sendBeacon).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(sendBeacon.mock.calls[0][1])).toEqual({
+            errors: [
+                expect.objectContaining({
+                    errorCode: 'abc',
+                    level: ErrorLevelType.Error,
+                    message: 'Testing 123',
+                    name: 'Error',
+                }),
+                expect.objectContaining({
+                    errorCode: 'def',
+                    level: ErrorLevelType.Warning,
+                    message: 'Testing 456',
+                    meta: { foo: 'bar' },
+                }),
+            ],
+        });
+
+        logger.dispose();
+    });
+
+    it('sends queued errors when page is hidden', () => {
+        const logger = new BeaconErrorLogger({ url: '/collector' }, browserWindow);
+
+        logger.log(new Error('Testing 123'), { errorCode: 'abc' });
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(sendBeacon).toHaveBeenCalledWith('/collector', expect.any(String));
+
+        logger.dispose();
+    });
+
+    it('does not send anything if queue is empty', () => {
+        const logger = new BeaconErrorLogger({ url: '/collector' }, browserWindow);
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(sendBeacon).not.toHaveBeenCalled();
+
+        logger.dispose();
+    });
+
+    it('stops listening to page visibility once disposed', () => {
+        const logger = new BeaconErrorLogger({ url: '/collector' }, browserWindow);
+
+        logger.log(new Error('Testing 123'), { errorCode: 'abc' });
+        logger.dispose();
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(sendBeacon).not.toHaveBeenCalled();
+    });
+});
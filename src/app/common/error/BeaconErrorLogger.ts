@@ -0,0 +1,93 @@
+import computeErrorCode from './computeErrorCode';
+import ErrorLogger, { ErrorLevelType, ErrorMeta, ErrorTags } from './ErrorLogger';
+
+const DEFAULT_BATCH_SIZE = 10;
+
+export interface BeaconErrorLoggerOptions {
+    url: string;
+    batchSize?: number;
+}
+
+export interface BeaconErrorLogEntry {
+    errorCode?: string;
+    level: ErrorLevelType;
+    message: string;
+    meta?: ErrorMeta;
+    name: string;
+    stack?: string;
+    tags?: ErrorTags;
+    timestamp: number;
+}
+
+/**
+ * Sends errors to a collector in batches. A batch is sent when it is full, or
+ * when the page is hidden, using `navigator.sendBeacon` so the request can
+ * outlive the page.
+ */
+export default class BeaconErrorLogger implements ErrorLogger {
+    private queue: BeaconErrorLogEntry[] = [];
+
+    constructor(
+        private options: BeaconErrorLoggerOptions,
+        private browserWindow: Window = window
+    ) {
+        this.browserWindow.addEventListener('pagehide', this.handlePageHide);
+    }
+
+    log(
+        error: Error,
+        tags?: ErrorTags,
+        level: ErrorLevelType = ErrorLevelType.Error,
+        meta?: ErrorMeta
+    ): void {
+        const { batchSize = DEFAULT_BATCH_SIZE } = this.options;
+        const { errorCode = computeErrorCode(error) } = tags || {};
+
+        this.queue.push({
+            errorCode,
+            level,
+            message: error.message,
+            meta,
+            name: error.name,
+            stack: error.stack,
+            tags,
+            timestamp: Date.now(),
+        });
+
+        if (this.queue.length >= batchSize) {
+            this.flush();
+        }
+    }
+
+    flush(): void {
+        const { url } = this.options;
+        const { navigator } = this.browserWindow;
+
+        if (!this.queue.length) {
+            return;
+        }
+
+        const body = JSON.stringify({ errors: this.queue });
+
+        this.queue = [];
+
+        if (navigator.sendBeacon && navigator.sendBeacon(url, body)) {
+            return;
+        }
+
+        // Fall back to `fetch` if the browser does not support beacons or
+        // refuses to queue the request, i.e.: because the payload is too large.
+        if (this.browserWindow.fetch) {
+            this.browserWindow.fetch(url, { body, keepalive: true, method: 'POST' })
+                .catch(() => undefined);
+        }
+    }
+
+    dispose(): void {
+        this.browserWindow.removeEventListener('pagehide', this.handlePageHide);
+    }
+
+    private handlePageHide: () => void = () => {
+        this.flush();
+    };
+}
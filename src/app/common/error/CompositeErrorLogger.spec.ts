@@ -0,0 +1,33 @@
+import CompositeErrorLogger from './CompositeErrorLogger';
+import ErrorLogger, { ErrorLevelType } from './ErrorLogger';
+
+describe('CompositeErrorLogger', () => {
+    let loggerA: ErrorLogger;
+    let loggerB: ErrorLogger;
+
+    beforeEach(() => {
+        loggerA = { log: jest.fn() };
+        loggerB = { log: jest.fn() };
+    });
+
+    it('logs error with every logger', () => {
+        const logger = new CompositeErrorLogger([loggerA, loggerB]);
+        const error = new Error('Testing 123');
+        const tags = { errorCode: 'abc' };
+        const meta = { foo: 'bar' };
+
+        logger.log(error, tags, ErrorLevelType.Warning, meta);
+
+        expect(loggerA.log).toHaveBeenCalledWith(error, tags, ErrorLevelType.Warning, meta);
+        expect(loggerB.log).toHaveBeenCalledWith(error, tags, ErrorLevelType.Warning, meta);
+    });
+
+    it('logs error with remaining loggers if logger fails', () => {
+        jest.spyOn(loggerA, 'log').mockImplementation(() => { throw new Error(); });
+
+        const logger = new CompositeErrorLogger([loggerA, loggerB]);
+
+        expect(() => logger.log(new Error('Testing 123'))).not.toThrow();
+        expect(loggerB.log).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,24 @@
+import ErrorLogger, { ErrorLevelType, ErrorMeta, ErrorTags } from './ErrorLogger';
+
+export default class CompositeErrorLogger implements ErrorLogger {
+    constructor(
+        private loggers: ErrorLogger[]
+    ) {}
+
+    log(
+        error: Error,
+        tags?: ErrorTags,
+        level?: ErrorLevelType,
+        meta?: ErrorMeta
+    ): void {
+        this.loggers.forEach(logger => {
+            // A failing transport should not stop the error from reaching the
+            // other transports.
+            try {
+                logger.log(error, tags, level, meta);
+            } catch (transportError) {
+                return;
+            }
+        });
+    }
+}
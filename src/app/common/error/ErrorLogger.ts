@@ -23,9 +23,31 @@ export interface ErrorLoggerOptions {
 }
 
 export interface ErrorLoggerServiceConfig {
+    beacon?: BeaconErrorLoggerServiceConfig;
     sentry?: BrowserOptions;
 }
 
+export interface BeaconErrorLoggerServiceConfig {
+    /**
+     * The endpoint of the collector receiving batches of errors
+     */
+    url: string;
+
+    /**
+     * The number of errors queued before they are sent to the collector.
+     * Queued errors are also sent when the page is hidden.
+     */
+    batchSize?: number;
+
+    /**
+     * The rate (between 0 and 1) at which errors of each level are logged.
+     * Errors are always logged if their level is not specified.
+     */
+    sampleRates?: ErrorSampleRates;
+}
+
+export type ErrorSampleRates = { [key in ErrorLevelType]?: number };
+
 export interface ErrorTags {
     /**
      * A code that identifies uniquely each error type
@@ -0,0 +1,92 @@
+import computeErrorCode from './computeErrorCode';
+import ErrorLogger, { ErrorLevelType } from './ErrorLogger';
+import ErrorLoggerTransport from './ErrorLoggerTransport';
+
+describe('ErrorLoggerTransport', () => {
+    let logger: ErrorLogger;
+
+    beforeEach(() => {
+        logger = { log: jest.fn() };
+    });
+
+    it('logs error with error code', () => {
+        const transport = new ErrorLoggerTransport(logger);
+        const error = new Error('Testing 123');
+
+        transport.log(error);
+
+        expect(logger.log).toHaveBeenCalledWith(
+            error,
+            { errorCode: computeErrorCode(error) },
+            ErrorLevelType.Error,
+            undefined
+        );
+    });
+
+    it('logs error with same error code only once', () => {
+        const transport = new ErrorLoggerTransport(logger);
+
+        transport.log(new Error('Testing 123'), { errorCode: 'abc' });
+        transport.log(new Error('Testing 456'), { errorCode: 'abc' });
+        transport.log(new Error('Testing 789'), { errorCode: 'def' });
+
+        expect(logger.log).toHaveBeenCalledTimes(2);
+    });
+
+    it('logs error with same error code repeatedly if deduping is disabled', () => {
+        const transport = new ErrorLoggerTransport(logger, { shouldDedupe: false });
+
+        transport.log(new Error('Testing 123'), { errorCode: 'abc' });
+        transport.log(new Error('Testing 123'), { errorCode: 'abc' });
+
+        expect(logger.log).toHaveBeenCalledTimes(2);
+    });
+
+    it('samples errors by level', () => {
+        const transport = new ErrorLoggerTransport(
+            logger,
+            { sampleRates: { [ErrorLevelType.Info]: 0.2, [ErrorLevelType.Error]: 1 } },
+            () => 0.5
+        );
+
+        transport.log(new Error('Testing 123'), { errorCode: 'abc' }, ErrorLevelType.Info);
+        transport.log(new Error('Testing 456'), { errorCode: 'def' }, ErrorLevelType.Error);
+        transport.log(new Error('Testing 789'), { errorCode: 'ghi' }, ErrorLevelType.Warning);
+
+        expect(logger.log).toHaveBeenCalledTimes(2);
+        expect(logger.log).not.toHaveBeenCalledWith(
+            expect.any(Error),
+            expect.anything(),
+            ErrorLevelType.Info,
+            undefined
+        );
+    });
+
+    it('scrubs personal details from error message', () => {
+        const transport = new ErrorLoggerTransport(logger);
+
+        transport.log(new Error('Unable to sign in test@bigcommerce.com'), { errorCode: 'abc' });
+
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.objectContaining({ message: 'Unable to sign in [Filtered]' }),
+            { errorCode: 'abc' },
+            ErrorLevelType.Error,
+            undefined
+        );
+    });
+
+    it('scrubs personal details from meta data', () => {
+        const transport = new ErrorLoggerTransport(logger);
+
+        transport.log(new Error('Testing 123'), { errorCode: 'abc' }, ErrorLevelType.Error, {
+            email: 'test@bigcommerce.com',
+        });
+
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.any(Error),
+            { errorCode: 'abc' },
+            ErrorLevelType.Error,
+            { email: '[Filtered]' }
+        );
+    });
+});
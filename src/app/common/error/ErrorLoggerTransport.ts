@@ -0,0 +1,61 @@
+import computeErrorCode from './computeErrorCode';
+import scrubErrorMessage from './scrubErrorMessage';
+import scrubErrorMeta from './scrubErrorMeta';
+import ErrorLogger, { ErrorLevelType, ErrorMeta, ErrorSampleRates, ErrorTags } from './ErrorLogger';
+
+export interface ErrorLoggerTransportOptions {
+    sampleRates?: ErrorSampleRates;
+    shouldDedupe?: boolean;
+    shouldScrubMessage?: boolean;
+    shouldScrubMeta?: boolean;
+}
+
+/**
+ * Wraps a logger that sends errors to an external service. The wrapped logger
+ * only receives a sample of the errors of each level, each error code only
+ * once, and messages and meta data without personal details of the shopper.
+ */
+export default class ErrorLoggerTransport implements ErrorLogger {
+    private loggedErrorCodes = new Set<string>();
+
+    constructor(
+        private logger: ErrorLogger,
+        private options: ErrorLoggerTransportOptions = {},
+        private random: () => number = Math.random
+    ) {}
+
+    log(
+        error: Error,
+        tags?: ErrorTags,
+        level: ErrorLevelType = ErrorLevelType.Error,
+        meta?: ErrorMeta
+    ): void {
+        const {
+            sampleRates = {},
+            shouldDedupe = true,
+            shouldScrubMessage = true,
+            shouldScrubMeta = true,
+        } = this.options;
+        const sampleRate = sampleRates[level];
+        const { errorCode = computeErrorCode(error) } = tags || {};
+
+        if (sampleRate !== undefined && this.random() >= sampleRate) {
+            return;
+        }
+
+        if (shouldDedupe && errorCode) {
+            if (this.loggedErrorCodes.has(errorCode)) {
+                return;
+            }
+
+            this.loggedErrorCodes.add(errorCode);
+        }
+
+        this.logger.log(
+            shouldScrubMessage ? scrubErrorMessage(error) : error,
+            errorCode ? { ...tags, errorCode } : tags,
+            level,
+            meta && shouldScrubMeta ? scrubErrorMeta(meta) : meta
+        );
+    }
+}
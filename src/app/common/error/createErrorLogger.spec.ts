@@ -1,4 +1,6 @@
 import createErrorLogger from './createErrorLogger';
+import CompositeErrorLogger from './CompositeErrorLogger';
+import ErrorLoggerTransport from './ErrorLoggerTransport';
 import NoopErrorLogger from './NoopErrorLogger';
 import SentryErrorLogger from './SentryErrorLogger';
 
@@ -8,12 +10,31 @@ describe('createErrorLogger()', () => {
             .toBeInstanceOf(NoopErrorLogger);
     });
 
-    it('returns instance of Sentry logger if Sentry config is provided', () => {
-        expect(createErrorLogger({
+    it('returns Sentry logger without personal details if Sentry config is provided', () => {
+        jest.spyOn(SentryErrorLogger.prototype, 'log').mockImplementation();
+
+        const logger = createErrorLogger({
             sentry: {
                 dsn: 'https://abc@sentry.io/123',
             },
+        });
+
+        logger.log(new Error('Unable to sign in test@bigcommerce.com'));
+
+        expect(logger)
+            .toBeInstanceOf(ErrorLoggerTransport);
+        expect((SentryErrorLogger.prototype.log as jest.Mock).mock.calls[0][0].message)
+            .toEqual('Unable to sign in [Filtered]');
+
+        jest.restoreAllMocks();
+    });
+
+    it('returns instance of composite logger if beacon config is provided', () => {
+        expect(createErrorLogger({
+            beacon: {
+                url: 'https://errors.example.com/collect',
+            },
         }))
-            .toBeInstanceOf(SentryErrorLogger);
+            .toBeInstanceOf(CompositeErrorLogger);
     });
 });
@@ -1,16 +1,46 @@
+import BeaconErrorLogger from './BeaconErrorLogger';
+import CompositeErrorLogger from './CompositeErrorLogger';
 import ConsoleErrorLogger from './ConsoleErrorLogger';
 import ErrorLogger, { ErrorLoggerOptions, ErrorLoggerServiceConfig } from './ErrorLogger';
+import ErrorLoggerTransport from './ErrorLoggerTransport';
 import NoopErrorLogger from './NoopErrorLogger';
 import SentryErrorLogger from './SentryErrorLogger';
 
 export default function createErrorLogger(
     serviceConfig?: ErrorLoggerServiceConfig,
     options?: ErrorLoggerOptions
+): ErrorLogger {
+    const beacon = serviceConfig && serviceConfig.beacon;
+    const logger = createDefaultErrorLogger(serviceConfig, options);
+
+    if (!beacon) {
+        return logger;
+    }
+
+    const { batchSize, sampleRates, url } = beacon;
+
+    return new CompositeErrorLogger([
+        logger,
+        new ErrorLoggerTransport(
+            new BeaconErrorLogger({ batchSize, url }),
+            { sampleRates }
+        ),
+    ]);
+}
+
+// Every error is reported to Sentry and the console, but without personal
+// details of the shopper, same as to the beacon.
+function createDefaultErrorLogger(
+    serviceConfig?: ErrorLoggerServiceConfig,
+    options?: ErrorLoggerOptions
 ): ErrorLogger {
     if (serviceConfig && serviceConfig.sentry) {
-        return new SentryErrorLogger(
-            serviceConfig.sentry,
-            { ...options, consoleLogger: new ConsoleErrorLogger(options) }
+        return new ErrorLoggerTransport(
+            new SentryErrorLogger(
+                serviceConfig.sentry,
+                { ...options, consoleLogger: new ConsoleErrorLogger(options) }
+            ),
+            { shouldDedupe: false }
         );
     }
 
@@ -18,5 +48,5 @@ export default function createErrorLogger(
         return new NoopErrorLogger();
     }
 
-    return new ConsoleErrorLogger(options);
+    return new ErrorLoggerTransport(new ConsoleErrorLogger(options), { shouldDedupe: false });
 }
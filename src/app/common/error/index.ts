@@ -1,4 +1,4 @@
-export { default as ErrorLogger, ErrorLevelType } from './ErrorLogger';
+export { default as ErrorLogger, BeaconErrorLoggerServiceConfig, ErrorLevelType } from './ErrorLogger';
 export { default as CustomError } from './CustomError';
 export { default as ErrorCode } from './ErrorCode';
 export { default as ErrorBoundary } from './ErrorBoundary';
@@ -0,0 +1,29 @@
+import scrubErrorMessage from './scrubErrorMessage';
+
+describe('scrubErrorMessage()', () => {
+    it('returns same error if message does not contain personal details', () => {
+        const error = new Error('Unexpected error');
+
+        expect(scrubErrorMessage(error)).toBe(error);
+    });
+
+    it('filters personal details out of message and stack trace', () => {
+        const error = new Error('Card 4111 1111 1111 1111 declined for test@bigcommerce.com');
+        const scrubbedError = scrubErrorMessage(error);
+
+        expect(scrubbedError.message)
+            .toEqual('Card [Filtered] declined for [Filtered]');
+        expect(scrubbedError.stack)
+            .not.toContain('test@bigcommerce.com');
+        expect(error.message)
+            .toEqual('Card 4111 1111 1111 1111 declined for test@bigcommerce.com');
+    });
+
+    it('keeps type and properties of error', () => {
+        const error = Object.assign(new TypeError('Invalid email test@bigcommerce.com'), { type: 'request' });
+        const scrubbedError = scrubErrorMessage(error) as typeof error;
+
+        expect(scrubbedError).toBeInstanceOf(TypeError);
+        expect(scrubbedError.type).toEqual('request');
+    });
+});
@@ -0,0 +1,29 @@
+import { scrubText } from './scrubErrorMeta';
+
+/**
+ * Returns a copy of an error with personal details filtered out of its
+ * message and stack trace, or the error itself if there is nothing to filter.
+ * The copy keeps the type and properties of the error, so it is reported the
+ * same way.
+ */
+export default function scrubErrorMessage(error: Error): Error {
+    const message = scrubText(error.message);
+
+    if (message === error.message) {
+        return error;
+    }
+
+    const scrubbedError: Error = Object.create(Object.getPrototypeOf(error));
+
+    Object.getOwnPropertyNames(error).forEach(key => {
+        Object.defineProperty(scrubbedError, key, Object.getOwnPropertyDescriptor(error, key) as PropertyDescriptor);
+    });
+
+    scrubbedError.message = message;
+
+    if (error.stack) {
+        scrubbedError.stack = scrubText(error.stack);
+    }
+
+    return scrubbedError;
+}
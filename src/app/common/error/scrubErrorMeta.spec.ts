@@ -0,0 +1,49 @@
+import scrubErrorMeta from './scrubErrorMeta';
+
+describe('scrubErrorMeta()', () => {
+    it('filters values of sensitive keys', () => {
+        expect(scrubErrorMeta({
+            billingAddress: { city: 'Sydney' },
+            ccNumber: '4111 1111 1111 1111',
+            email: 'test@bigcommerce.com',
+            firstName: 'Foo',
+            method: 'card',
+            postalCode: '2000',
+        })).toEqual({
+            billingAddress: '[Filtered]',
+            ccNumber: '[Filtered]',
+            email: '[Filtered]',
+            firstName: '[Filtered]',
+            method: 'card',
+            postalCode: '[Filtered]',
+        });
+    });
+
+    it('filters email addresses and card numbers in nested values', () => {
+        expect(scrubErrorMeta({
+            response: {
+                errors: [
+                    'Customer test@bigcommerce.com is not allowed',
+                    'Card 4111-1111-1111-1111 is declined',
+                    'Order 12345 cannot be placed',
+                ],
+            },
+        })).toEqual({
+            response: {
+                errors: [
+                    'Customer [Filtered] is not allowed',
+                    'Card [Filtered] is declined',
+                    'Order 12345 cannot be placed',
+                ],
+            },
+        });
+    });
+
+    it('does not modify original meta data', () => {
+        const meta = { email: 'test@bigcommerce.com' };
+
+        scrubErrorMeta(meta);
+
+        expect(meta).toEqual({ email: 'test@bigcommerce.com' });
+    });
+});
@@ -0,0 +1,56 @@
+import { isPlainObject } from 'lodash';
+
+import { ErrorMeta } from './ErrorLogger';
+
+const FILTERED_VALUE = '[Filtered]';
+const MAX_DEPTH = 10;
+
+const SENSITIVE_KEY_PATTERN = /e-?mail|address|phone|(first|last|full)_?name|postal|zip|street|(card|cc)_?number|cvv|cvc|security_?code|expiry/i;
+const EMAIL_PATTERN = /[^\s@"']+@[^\s@"']+\.[^\s@"']+/g;
+const CARD_NUMBER_PATTERN = /\b\d(?:[ -]?\d){11,18}\b/g;
+
+/**
+ * Returns a copy of the meta data of an error with personal details, i.e.:
+ * email addresses, postal addresses and card numbers, filtered out so they are
+ * not sent to any external service.
+ */
+export default function scrubErrorMeta(meta: ErrorMeta): ErrorMeta {
+    return scrubValue(meta, 0) as ErrorMeta;
+}
+
+/**
+ * Returns the text with email addresses and card numbers filtered out.
+ */
+export function scrubText(text: string): string {
+    return text
+        .replace(EMAIL_PATTERN, FILTERED_VALUE)
+        .replace(CARD_NUMBER_PATTERN, FILTERED_VALUE);
+}
+
+function scrubValue(value: unknown, depth: number): unknown {
+    if (typeof value === 'string') {
+        return scrubText(value);
+    }
+
+    if (!Array.isArray(value) && !isPlainObject(value)) {
+        return value;
+    }
+
+    if (depth >= MAX_DEPTH) {
+        return FILTERED_VALUE;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => scrubValue(item, depth + 1));
+    }
+
+    return Object.keys(value as ErrorMeta).reduce<ErrorMeta>((result, key) => {
+        const item = (value as ErrorMeta)[key];
+
+        result[key] = SENSITIVE_KEY_PATTERN.test(key) && item !== null && item !== undefined ?
+            FILTERED_VALUE :
+            scrubValue(item, depth + 1);
+
+        return result;
+    }, {});
+}
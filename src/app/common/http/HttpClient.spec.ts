@@ -0,0 +1,166 @@
+import { createRequestSender, RequestSender } from '@bigcommerce/request-sender';
+
+import { ErrorLevelType, ErrorLogger } from '../error';
+import { getResponse } from '../request/responses.mock';
+
+import HttpClient from './HttpClient';
+import HttpRequestCancelledError from './HttpRequestCancelledError';
+import HttpRequestError from './HttpRequestError';
+
+describe('HttpClient', () => {
+    let client: HttpClient;
+    let errorLogger: ErrorLogger;
+    let requestSender: RequestSender;
+
+    beforeEach(() => {
+        errorLogger = { log: jest.fn() };
+        requestSender = createRequestSender();
+        client = new HttpClient({ baseUrl: 'https://orders.foo.com/api/v1', errorLogger }, requestSender);
+
+        jest.spyOn(window, 'setTimeout')
+            .mockImplementation(((callback: () => void) => callback()) as any);
+    });
+
+    afterEach(() => {
+        (window.setTimeout as unknown as jest.Mock).mockRestore();
+    });
+
+    it('sends request to URL relative to base URL', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockResolvedValue(getResponse({ data: [] }));
+
+        await client.get('/restricted_brands', { params: { page: 1 } });
+
+        expect(requestSender.sendRequest)
+            .toHaveBeenCalledWith('https://orders.foo.com/api/v1/restricted_brands', expect.objectContaining({
+                credentials: false,
+                method: 'GET',
+                params: { page: 1 },
+            }));
+    });
+
+    it('sends request to absolute URL', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockResolvedValue(getResponse({}));
+
+        await client.put('https://bucket.foo.com/logo.png', { body: 'foo' });
+
+        expect(requestSender.sendRequest)
+            .toHaveBeenCalledWith('https://bucket.foo.com/logo.png', expect.objectContaining({
+                body: 'foo',
+                method: 'PUT',
+            }));
+    });
+
+    it('returns body of response', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockResolvedValue(getResponse({ data: [{ name: 'Nike' }] }));
+
+        expect(await client.get('/restricted_brands'))
+            .toEqual({ data: [{ name: 'Nike' }] });
+    });
+
+    it('maps error response to request error', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockRejectedValue(getResponse(
+                { title: 'Invalid quote', detail: 'Message is too long' },
+                { 'x-request-id': 'abc' },
+                422,
+                'Unprocessable Entity'
+            ));
+
+        try {
+            await client.post('/orders/checkout', { body: { message: 'foo' } });
+        } catch (error) {
+            expect(error).toBeInstanceOf(HttpRequestError);
+            expect(error.title).toEqual('Invalid quote');
+            expect(error.message).toEqual('Message is too long');
+            expect(error.status).toEqual(422);
+            expect(error.headers['x-request-id']).toEqual('abc');
+            expect(error.type).toEqual('request');
+        }
+    });
+
+    it('retries failed GET requests', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockRejectedValueOnce(getResponse({}, {}, 503))
+            .mockResolvedValueOnce(getResponse({ data: [] }));
+
+        expect(await client.get('/restricted_brands'))
+            .toEqual({ data: [] });
+        expect(requestSender.sendRequest)
+            .toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry requests that fail with client error', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockRejectedValue(getResponse({}, {}, 404));
+
+        await expect(client.get('/orders/checkout/abc'))
+            .rejects.toBeInstanceOf(HttpRequestError);
+        expect(requestSender.sendRequest)
+            .toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry POST requests unless configured', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockRejectedValue(getResponse({}, {}, 503));
+
+        await expect(client.post('/orders/checkout'))
+            .rejects.toBeInstanceOf(HttpRequestError);
+        expect(requestSender.sendRequest)
+            .toHaveBeenCalledTimes(1);
+    });
+
+    it('logs failed request with error code', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockRejectedValue(getResponse({}, {}, 500));
+
+        try {
+            await client.post('/orders/checkout');
+        } catch (error) {
+            expect(errorLogger.log).toHaveBeenCalledWith(
+                error,
+                { errorCode: error.errorCode },
+                ErrorLevelType.Error,
+                { method: 'POST', status: 500, url: 'https://orders.foo.com/api/v1/orders/checkout' }
+            );
+        }
+    });
+
+    it('assigns same error code to errors of same endpoint and status', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockRejectedValue(getResponse({}, {}, 500));
+
+        const errors = await Promise.all([
+            client.post('/orders/checkout').catch(error => error),
+            client.post('/orders/checkout').catch(error => error),
+            client.post('/restricted_brands').catch(error => error),
+        ]);
+
+        expect(errors[0].errorCode).toEqual(errors[1].errorCode);
+        expect(errors[0].errorCode).not.toEqual(errors[2].errorCode);
+    });
+
+    it('does not log errors with ignored statuses', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockRejectedValue(getResponse({}, {}, 404));
+
+        await expect(client.get('/orders/checkout/abc', { ignoredStatuses: [404] }))
+            .rejects.toBeInstanceOf(HttpRequestError);
+        expect(errorLogger.log)
+            .not.toHaveBeenCalled();
+    });
+
+    it('aborts request and throws cancellation error if request is cancelled', async () => {
+        jest.spyOn(requestSender, 'sendRequest')
+            .mockImplementation((_, { timeout }: any) => new Promise((_resolve, reject) => {
+                timeout.onComplete(() => reject(getResponse({}, {}, 0)));
+            }));
+
+        await expect(client.get('/restricted_brands', { cancel: Promise.resolve() }))
+            .rejects.toBeInstanceOf(HttpRequestCancelledError);
+        expect(errorLogger.log)
+            .not.toHaveBeenCalled();
+    });
+});
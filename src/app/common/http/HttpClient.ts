@@ -0,0 +1,158 @@
+import { createRequestSender, createTimeout, RequestSender, Response } from '@bigcommerce/request-sender';
+
+import { ErrorLevelType, ErrorLogger } from '../error';
+import { joinPaths, retry, RetryOptions } from '../utility';
+
+import HttpRequestCancelledError from './HttpRequestCancelledError';
+import HttpRequestError from './HttpRequestError';
+
+export const DEFAULT_TIMEOUT = 30000;
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    backoff: 2,
+    count: 3,
+    interval: 1000,
+};
+
+export interface HttpClientOptions {
+    baseUrl: string;
+    errorLogger?: ErrorLogger;
+    timeout?: number;
+}
+
+export interface HttpRequestOptions<TBody = unknown> {
+    body?: TBody;
+    cancel?: Promise<void>;
+    headers?: { [key: string]: string };
+    /**
+     * Response statuses that are expected by the caller, and therefore should
+     * not be reported to the error logger.
+     */
+    ignoredStatuses?: number[];
+    params?: { [key: string]: any };
+    /**
+     * Failed `GET` requests are retried by default. Other requests are only
+     * retried if retry options are provided explicitly.
+     */
+    retry?: RetryOptions | false;
+    timeout?: number;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export default class HttpClient {
+    constructor(
+        private options: HttpClientOptions,
+        private requestSender: RequestSender = createRequestSender()
+    ) { }
+
+    get<TResponse>(path: string, options?: HttpRequestOptions<never>): Promise<TResponse> {
+        return this.request<TResponse>('GET', path, options);
+    }
+
+    post<TResponse = void, TBody = unknown>(path: string, options?: HttpRequestOptions<TBody>): Promise<TResponse> {
+        return this.request<TResponse, TBody>('POST', path, options);
+    }
+
+    put<TResponse = void, TBody = unknown>(path: string, options?: HttpRequestOptions<TBody>): Promise<TResponse> {
+        return this.request<TResponse, TBody>('PUT', path, options);
+    }
+
+    patch<TResponse = void, TBody = unknown>(path: string, options?: HttpRequestOptions<TBody>): Promise<TResponse> {
+        return this.request<TResponse, TBody>('PATCH', path, options);
+    }
+
+    delete<TResponse = void>(path: string, options?: HttpRequestOptions<never>): Promise<TResponse> {
+        return this.request<TResponse>('DELETE', path, options);
+    }
+
+    private async request<TResponse, TBody = never>(
+        method: HttpMethod,
+        path: string,
+        {
+            cancel,
+            ignoredStatuses = [],
+            retry: retryOptions = method === 'GET' ? DEFAULT_RETRY_OPTIONS : false,
+            timeout = this.options.timeout || DEFAULT_TIMEOUT,
+            ...options
+        }: HttpRequestOptions<TBody> = {}
+    ): Promise<TResponse> {
+        const url = this.getUrl(path);
+        let isCancelled = false;
+
+        if (cancel) {
+            cancel.then(() => { isCancelled = true; });
+        }
+
+        const sendRequest = async () => {
+            if (isCancelled) {
+                throw new HttpRequestCancelledError({ method, url });
+            }
+
+            const timer = createTimeout(timeout);
+
+            if (cancel) {
+                cancel.then(() => timer.complete());
+            }
+
+            try {
+                const { body } = await this.requestSender.sendRequest<TResponse>(url, {
+                    ...options,
+                    credentials: false,
+                    method,
+                    timeout: timer,
+                });
+
+                return body;
+            } catch (response) {
+                if (isCancelled) {
+                    throw new HttpRequestCancelledError({ method, url });
+                }
+
+                throw new HttpRequestError(response as Response, { method, url });
+            } finally {
+                timer.complete();
+            }
+        };
+
+        try {
+            return retryOptions ?
+                await retry(sendRequest, {
+                    ...retryOptions,
+                    shouldRetry: error => error instanceof HttpRequestError && isRetriableStatus(error.status),
+                }) :
+                await sendRequest();
+        } catch (error) {
+            if (error instanceof HttpRequestError && ignoredStatuses.indexOf(error.status) === -1) {
+                this.logError(error);
+            }
+
+            throw error;
+        }
+    }
+
+    private logError(error: HttpRequestError): void {
+        const { errorLogger } = this.options;
+
+        if (!errorLogger) {
+            return;
+        }
+
+        errorLogger.log(
+            error,
+            { errorCode: error.errorCode },
+            error.status >= 500 || error.status === 0 ? ErrorLevelType.Error : ErrorLevelType.Warning,
+            { method: error.method, status: error.status, url: error.url }
+        );
+    }
+
+    private getUrl(path: string): string {
+        return /^https?:\/\//.test(path) ? path : joinPaths(this.options.baseUrl, path);
+    }
+}
+
+// Network errors, timeouts and server errors are usually transient, whereas
+// client errors will keep failing no matter how many times they are retried.
+function isRetriableStatus(status: number): boolean {
+    return status === 0 || status === 408 || status === 429 || status >= 500;
+}
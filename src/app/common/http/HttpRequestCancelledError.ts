@@ -0,0 +1,17 @@
+import { setPrototypeOf, CustomError } from '../error';
+
+export interface HttpRequestCancelledErrorOptions {
+    method: string;
+    url: string;
+}
+
+export default class HttpRequestCancelledError extends CustomError {
+    constructor(data: HttpRequestCancelledErrorOptions) {
+        super({
+            name: 'HTTP_REQUEST_CANCELLED_ERROR',
+            data,
+        });
+
+        setPrototypeOf(this, HttpRequestCancelledError.prototype);
+    }
+}
@@ -0,0 +1,53 @@
+import { Response } from '@bigcommerce/request-sender';
+
+import { getLanguageService } from '../../locale';
+import { computeErrorCode, setPrototypeOf, CustomError } from '../error';
+
+import getResponseErrorMessage from './getResponseErrorMessage';
+
+export interface HttpRequestErrorOptions {
+    method: string;
+    url: string;
+}
+
+export default class HttpRequestError<TBody = any> extends CustomError {
+    body: TBody;
+    errorCode: string;
+    headers: { [key: string]: string };
+    method: string;
+    status: number;
+    statusText: string;
+    url: string;
+
+    constructor(response: Response<TBody>, { method, url }: HttpRequestErrorOptions) {
+        const { title, message } = getResponseErrorMessage(response.body);
+
+        super({
+            name: 'HTTP_REQUEST_ERROR',
+            message: message || getLanguageService().translate(response.status === 0 ?
+                'common.unstable_network_error' :
+                'common.unavailable_error'
+            ),
+            title,
+            data: { method, status: response.status, url },
+        });
+
+        setPrototypeOf(this, HttpRequestError.prototype);
+
+        this.body = response.body;
+        this.headers = response.headers || {};
+        this.method = method;
+        this.status = response.status;
+        this.statusText = response.statusText;
+        this.type = 'request';
+        this.url = url;
+
+        // Errors returned by the same endpoint with the same status share the
+        // same code so they can be grouped together when they are reported.
+        this.errorCode = computeErrorCode({
+            method,
+            status: response.status,
+            url: url.split('?')[0],
+        }) || '';
+    }
+}
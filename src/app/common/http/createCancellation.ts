@@ -0,0 +1,29 @@
+export interface Cancellation {
+    readonly isCancelled: boolean;
+    readonly promise: Promise<void>;
+    cancel(): void;
+}
+
+/**
+ * Creates a handle for cancelling pending requests, i.e.: when the component
+ * that made them is unmounted.
+ */
+export default function createCancellation(): Cancellation {
+    let resolve: () => void;
+    let isCancelled = false;
+
+    const promise = new Promise<void>(resolvePromise => {
+        resolve = resolvePromise;
+    });
+
+    return {
+        get isCancelled() {
+            return isCancelled;
+        },
+        promise,
+        cancel() {
+            isCancelled = true;
+            resolve();
+        },
+    };
+}
@@ -0,0 +1,32 @@
+import { isRecord } from '../utility';
+
+export interface ResponseErrorMessage {
+    message?: string;
+    title?: string;
+}
+
+/**
+ * Extracts a human readable message from a JSON error response. The store's
+ * backend endpoints either respond with `{ title, detail }`, `{ message }` or
+ * `{ error: { message } }`, depending on the framework handling the request.
+ */
+export default function getResponseErrorMessage(body: unknown): ResponseErrorMessage {
+    if (!isRecord<string, unknown>(body)) {
+        return {};
+    }
+
+    const { detail, error, message, title } = body;
+
+    if (isRecord<string, unknown>(error)) {
+        return getResponseErrorMessage(error);
+    }
+
+    return {
+        message: [detail, message, error].find(isNonEmptyString),
+        title: isNonEmptyString(title) ? title : undefined,
+    };
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 0;
+}
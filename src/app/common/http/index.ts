@@ -0,0 +1,5 @@
+export { default as HttpClient, HttpClientOptions, HttpMethod, HttpRequestOptions } from './HttpClient';
+export { default as HttpRequestCancelledError } from './HttpRequestCancelledError';
+export { default as HttpRequestError } from './HttpRequestError';
+export { default as createCancellation, Cancellation } from './createCancellation';
+export { default as getResponseErrorMessage } from './getResponseErrorMessage';
@@ -0,0 +1,55 @@
+import KeyedStorage from './KeyedStorage';
+
+describe('KeyedStorage', () => {
+    const key = 'checkout.foo';
+    let storage: KeyedStorage<string[]>;
+
+    function isStringArray(value: unknown): value is string[] {
+        return Array.isArray(value) && value.every(item => typeof item === 'string');
+    }
+
+    beforeEach(() => {
+        window.localStorage.clear();
+
+        storage = new KeyedStorage(key, isStringArray, window.localStorage);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('returns nothing if nothing is stored', () => {
+        expect(storage.getItem()).toBeUndefined();
+    });
+
+    it('persists value under key', () => {
+        storage.setItem(['foo', 'bar']);
+
+        expect(JSON.parse(window.localStorage.getItem(key) || ''))
+            .toEqual(['foo', 'bar']);
+        expect(new KeyedStorage(key, isStringArray, window.localStorage).getItem())
+            .toEqual(['foo', 'bar']);
+    });
+
+    it('returns nothing if stored value is malformed', () => {
+        window.localStorage.setItem(key, '{');
+
+        expect(storage.getItem()).toBeUndefined();
+    });
+
+    it('returns nothing if stored value is not valid', () => {
+        window.localStorage.setItem(key, JSON.stringify({ foo: 'bar' }));
+
+        expect(storage.getItem()).toBeUndefined();
+    });
+
+    it('returns value even if it cannot be persisted', () => {
+        jest.spyOn(window.localStorage.__proto__, 'setItem').mockImplementation(() => {
+            throw new Error('QuotaExceededError');
+        });
+
+        expect(storage.setItem(['foo'])).toEqual(['foo']);
+        expect(storage.getItem()).toBeUndefined();
+    });
+
+});
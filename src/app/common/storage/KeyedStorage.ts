@@ -0,0 +1,48 @@
+/**
+ * Keeps a value as JSON under a key of the local storage of the browser. The
+ * storage can be disabled, full or contain a value written by another version
+ * of checkout, so the value is only returned if it passes `isValue`, and it is
+ * only kept until the page is reloaded if it cannot be written.
+ */
+export default class KeyedStorage<TValue> {
+    constructor(
+        private key: string,
+        private isValue: (value: unknown) => value is TValue,
+        private storage: Storage | undefined = getLocalStorage()
+    ) { }
+
+    getItem(): TValue | undefined {
+        if (!this.storage) {
+            return;
+        }
+
+        try {
+            const value: unknown = JSON.parse(this.storage.getItem(this.key) || 'null');
+
+            return this.isValue(value) ? value : undefined;
+        } catch (error) {
+            return;
+        }
+    }
+
+    setItem(value: TValue): TValue {
+        if (this.storage) {
+            try {
+                this.storage.setItem(this.key, JSON.stringify(value));
+            } catch (error) {
+                // The value is still returned to the caller, so it can be
+                // used until the page is reloaded.
+            }
+        }
+
+        return value;
+    }
+}
+
+function getLocalStorage(): Storage | undefined {
+    try {
+        return window.localStorage;
+    } catch (error) {
+        return;
+    }
+}
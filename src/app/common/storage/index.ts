@@ -0,0 +1 @@
+export { default as KeyedStorage } from './KeyedStorage';
@@ -0,0 +1,13 @@
+import { createContext } from 'react';
+
+import FileUploadService from './FileUploadService';
+
+export interface FileUploadContextType {
+    fileUploadService?: FileUploadService;
+}
+
+// Files cannot be attached to forms if there is no service to upload them
+// to, i.e.: if the store has not configured one.
+const FileUploadContext = createContext<FileUploadContextType>({});
+
+export default FileUploadContext;
@@ -0,0 +1,21 @@
+import { getLanguageService } from '../../locale';
+import { setPrototypeOf, CustomError } from '../error';
+
+export interface FileUploadErrorData {
+    status: number;
+}
+
+export default class FileUploadError extends CustomError {
+    constructor(data: FileUploadErrorData) {
+        super({
+            name: 'FILE_UPLOAD_ERROR',
+            message: getLanguageService().translate(data.status === 0 ?
+                'common.unstable_network_error' :
+                'common.unavailable_error'
+            ),
+            data,
+        });
+
+        setPrototypeOf(this, FileUploadError.prototype);
+    }
+}
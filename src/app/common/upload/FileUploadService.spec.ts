@@ -0,0 +1,58 @@
+import { HttpClient } from '../http';
+
+import FileUploadError from './FileUploadError';
+import FileUploadService from './FileUploadService';
+
+describe('FileUploadService', () => {
+    let file: File;
+    let httpClient: HttpClient;
+    let service: FileUploadService;
+    let upload: jest.Mock;
+
+    beforeEach(() => {
+        file = new File(['foo'], 'po.pdf', { type: 'application/pdf' });
+        httpClient = new HttpClient({ baseUrl: 'https://orders.foo.com/api/v1/' });
+        upload = jest.fn().mockResolvedValue(undefined);
+        service = new FileUploadService(httpClient, upload);
+
+        jest.spyOn(httpClient, 'get').mockResolvedValue({
+            presigned_url: 'https://bucket.foo.com/po.pdf?signature=abc',
+            public_url: 'https://bucket.foo.com/po.pdf',
+        });
+    });
+
+    it('requests presigned URL for file', async () => {
+        const cancel = Promise.resolve();
+
+        await service.uploadFile(file, { cancel });
+
+        expect(httpClient.get)
+            .toHaveBeenCalledWith('/attachments/presigned_url', {
+                cancel,
+                params: { filename: 'po.pdf' },
+            });
+    });
+
+    it('uploads file to presigned URL', async () => {
+        const options = { onProgress: jest.fn() };
+
+        await service.uploadFile(file, options);
+
+        expect(upload)
+            .toHaveBeenCalledWith('https://bucket.foo.com/po.pdf?signature=abc', file, options);
+    });
+
+    it('returns public URL of uploaded file', async () => {
+        expect(await service.uploadFile(file))
+            .toEqual('https://bucket.foo.com/po.pdf');
+    });
+
+    it('throws error if file cannot be uploaded', async () => {
+        const error = new FileUploadError({ status: 500 });
+
+        upload.mockRejectedValue(error);
+
+        await expect(service.uploadFile(file))
+            .rejects.toEqual(error);
+    });
+});
@@ -0,0 +1,35 @@
+import { HttpClient } from '../http';
+
+import uploadFile, { UploadFileOptions } from './uploadFile';
+
+export const PRESIGNED_URL_PATH = '/attachments/presigned_url';
+
+export interface PresignedUrlResponseBody {
+    presigned_url: string;
+    public_url: string;
+}
+
+export default class FileUploadService {
+    constructor(
+        private httpClient: HttpClient,
+        private upload: typeof uploadFile = uploadFile
+    ) { }
+
+    /**
+     * Uploads the file to the presigned URL returned for it, and returns the
+     * public URL of the file once the whole file has been uploaded. The upload
+     * is resumed from the last chunk stored if it is interrupted, so the same
+     * presigned URL is used until it completes.
+     */
+    async uploadFile(file: File, options: UploadFileOptions = {}): Promise<string> {
+        const { presigned_url, public_url } = await this.httpClient
+            .get<PresignedUrlResponseBody>(PRESIGNED_URL_PATH, {
+                cancel: options.cancel,
+                params: { filename: file.name },
+            });
+
+        await this.upload(presigned_url, file, options);
+
+        return public_url;
+    }
+}
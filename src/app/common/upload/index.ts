@@ -0,0 +1,4 @@
+export { default as FileUploadContext, FileUploadContextType } from './FileUploadContext';
+export { default as FileUploadError } from './FileUploadError';
+export { default as FileUploadService } from './FileUploadService';
+export { default as uploadFile, UploadFileOptions } from './uploadFile';
@@ -0,0 +1,126 @@
+import uploadFile from './uploadFile';
+import { mockUploadRequests, MockUploadRequest, MockUploadResponse } from './uploadRequest.mock';
+import FileUploadError from './FileUploadError';
+
+describe('uploadFile()', () => {
+    const url = 'https://bucket.foo.com/logo.png?signature=abc';
+    let file: File;
+    let handleRequest: jest.Mock<MockUploadResponse, [MockUploadRequest]>;
+    let received: number;
+    let spy: jest.SpyInstance;
+
+    // Stores the chunks in the same way as a storage supporting resumable
+    // uploads, responding with the range of bytes received so far.
+    function storeChunk({ headers }: MockUploadRequest): MockUploadResponse {
+        const [, start, end, total] = headers['content-range'].match(/^bytes (?:(\d+)-(\d+)|\*)\/(\d+)$/) || [];
+
+        if (start !== undefined && Number(start) === received) {
+            received = Number(end) + 1;
+        }
+
+        if (received === Number(total)) {
+            return { status: 200 };
+        }
+
+        return {
+            headers: received > 0 ? { Range: `bytes=0-${received - 1}` } : {},
+            status: 308,
+        };
+    }
+
+    beforeEach(() => {
+        file = new File(['0123456789'], 'logo.png', { type: 'image/png' });
+        received = 0;
+        handleRequest = jest.fn(storeChunk);
+        spy = mockUploadRequests(handleRequest);
+
+        jest.spyOn(window, 'setTimeout')
+            .mockImplementation(((callback: () => void) => callback()) as any);
+    });
+
+    afterEach(() => {
+        spy.mockRestore();
+        (window.setTimeout as unknown as jest.Mock).mockRestore();
+    });
+
+    it('uploads file in chunks of configured size', async () => {
+        await uploadFile(url, file, { chunkSize: 4 });
+
+        expect(handleRequest.mock.calls.map(([{ headers }]) => headers['content-range']))
+            .toEqual(['bytes 0-3/10', 'bytes 4-7/10', 'bytes 8-9/10']);
+    });
+
+    it('sends each chunk to presigned URL with content type of file', async () => {
+        await uploadFile(url, file, { chunkSize: 4 });
+
+        expect(handleRequest)
+            .toHaveBeenCalledWith(expect.objectContaining({
+                headers: expect.objectContaining({ 'content-type': 'image/png' }),
+                method: 'PUT',
+                url,
+            }));
+    });
+
+    it('uploads file in single request if it is smaller than chunk size', async () => {
+        await uploadFile(url, file);
+
+        expect(handleRequest)
+            .toHaveBeenCalledTimes(1);
+        expect(handleRequest.mock.calls[0][0].body)
+            .toEqual(expect.objectContaining({ size: 10 }));
+    });
+
+    it('uploads empty file', async () => {
+        await uploadFile(url, new File([], 'logo.png', { type: 'image/png' }));
+
+        expect(handleRequest.mock.calls.map(([{ headers }]) => headers['content-range']))
+            .toEqual(['bytes */0']);
+    });
+
+    it('reports progress of whole file', async () => {
+        const onProgress = jest.fn();
+
+        await uploadFile(url, file, { chunkSize: 4, onProgress });
+
+        expect(onProgress.mock.calls)
+            .toEqual([[0.4], [0.8], [1]]);
+    });
+
+    it('resumes upload from last byte stored if chunk is interrupted', async () => {
+        handleRequest.mockImplementationOnce(storeChunk);
+        handleRequest.mockImplementationOnce(() => {
+            // Only part of the chunk is stored before the connection drops
+            received = 6;
+
+            return { status: 0 };
+        });
+
+        await uploadFile(url, file, { chunkSize: 4 });
+
+        expect(handleRequest.mock.calls.map(([{ headers }]) => headers['content-range']))
+            .toEqual(['bytes 0-3/10', 'bytes 4-7/10', 'bytes */10', 'bytes 6-9/10']);
+    });
+
+    it('throws error if chunk keeps failing', async () => {
+        handleRequest.mockImplementation(request => request.body ? { status: 500 } : storeChunk(request));
+
+        await expect(uploadFile(url, file, { retry: { count: 3 } }))
+            .rejects.toEqual(new FileUploadError({ status: 500 }));
+
+        expect(handleRequest.mock.calls.filter(([{ body }]) => body))
+            .toHaveLength(3);
+    });
+
+    it('aborts upload and does not retry if it is cancelled', async () => {
+        const cancel = Promise.resolve();
+
+        (window.setTimeout as unknown as jest.Mock).mockRestore();
+        jest.spyOn(window, 'setTimeout');
+
+        await expect(uploadFile(url, file, { cancel, chunkSize: 4 }))
+            .rejects.toBeInstanceOf(FileUploadError);
+
+        expect(handleRequest)
+            .toHaveBeenCalledTimes(1);
+    });
+});
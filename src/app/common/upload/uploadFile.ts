@@ -0,0 +1,162 @@
+import { noop } from 'lodash';
+
+import { retry, RetryOptions } from '../utility';
+
+import FileUploadError from './FileUploadError';
+
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+export const DEFAULT_UPLOAD_RETRY_OPTIONS: RetryOptions = {
+    backoff: 2,
+    count: 3,
+    interval: 1000,
+};
+
+// The status returned by the storage for each chunk until the whole file has
+// been received, along with the range of bytes it has stored so far.
+export const RESUME_INCOMPLETE_STATUS = 308;
+
+export interface UploadFileOptions {
+    cancel?: Promise<void>;
+    /**
+     * The number of bytes sent with each request.
+     */
+    chunkSize?: number;
+    /**
+     * Retries a chunk that could not be uploaded, starting from the last byte
+     * stored by the server rather than from the beginning of the file.
+     */
+    retry?: RetryOptions;
+    onProgress?(progress: number): void;
+}
+
+interface UploadRequestOptions {
+    body?: Blob;
+    cancel?: Promise<void>;
+    contentRange: string;
+    contentType: string;
+    onProgress?(loaded: number): void;
+}
+
+/**
+ * Uploads the file in chunks to a URL supporting resumable uploads, i.e.: a
+ * presigned URL of the storage. Each chunk is sent with its `Content-Range`,
+ * and the server responds with the range of bytes it has stored so far, so
+ * an interrupted upload is resumed from the last byte stored.
+ */
+export default async function uploadFile(
+    url: string,
+    file: File,
+    {
+        cancel,
+        chunkSize = DEFAULT_CHUNK_SIZE,
+        onProgress = noop,
+        retry: retryOptions = DEFAULT_UPLOAD_RETRY_OPTIONS,
+    }: UploadFileOptions = {}
+): Promise<void> {
+    let isCancelled = false;
+    let offset = 0;
+
+    if (cancel) {
+        cancel.then(() => { isCancelled = true; });
+    }
+
+    do {
+        offset = await retry(async () => {
+            try {
+                return await uploadChunk(url, file, offset, chunkSize, { cancel, onProgress });
+            } catch (error) {
+                // Part of the chunk might have been stored before the request
+                // failed, so the server is asked where to resume from.
+                if (!isCancelled) {
+                    offset = await getUploadOffset(url, file).catch(() => offset);
+                }
+
+                throw error;
+            }
+        }, {
+            ...retryOptions,
+            shouldRetry: () => !isCancelled,
+        });
+    } while (offset < file.size);
+}
+
+async function uploadChunk(
+    url: string,
+    file: File,
+    start: number,
+    chunkSize: number,
+    { cancel, onProgress }: { cancel?: Promise<void>; onProgress(progress: number): void }
+): Promise<number> {
+    if (file.size > 0 && start >= file.size) {
+        return file.size;
+    }
+
+    const end = Math.min(start + chunkSize, file.size);
+
+    return sendUploadRequest(url, {
+        body: file.slice(start, end),
+        cancel,
+        contentRange: file.size > 0 ? `bytes ${start}-${end - 1}/${file.size}` : 'bytes */0',
+        contentType: file.type,
+        onProgress: loaded => onProgress((start + loaded) / file.size),
+    }, file.size);
+}
+
+function getUploadOffset(url: string, file: File): Promise<number> {
+    return sendUploadRequest(url, {
+        contentRange: `bytes */${file.size}`,
+        contentType: file.type,
+    }, file.size);
+}
+
+// We use `XMLHttpRequest` directly here because we need to report the upload
+// progress of the file, which is not supported by `RequestSender`.
+function sendUploadRequest(
+    url: string,
+    { body, cancel, contentRange, contentType, onProgress }: UploadRequestOptions,
+    size: number
+): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const request = new XMLHttpRequest();
+
+        request.open('PUT', url);
+        request.setRequestHeader('Content-Type', contentType);
+        request.setRequestHeader('Content-Range', contentRange);
+
+        if (onProgress) {
+            request.upload.onprogress = ({ lengthComputable, loaded }) => {
+                if (lengthComputable) {
+                    onProgress(loaded);
+                }
+            };
+        }
+
+        request.onload = () => {
+            if (request.status >= 200 && request.status < 300) {
+                resolve(size);
+            } else if (request.status === RESUME_INCOMPLETE_STATUS) {
+                resolve(parseStoredRange(request.getResponseHeader('Range')));
+            } else {
+                reject(new FileUploadError({ status: request.status }));
+            }
+        };
+
+        request.onerror = () => reject(new FileUploadError({ status: request.status }));
+        request.onabort = () => reject(new FileUploadError({ status: request.status }));
+
+        if (cancel) {
+            cancel.then(() => request.abort());
+        }
+
+        request.send(body);
+    });
+}
+
+// Returns the offset following the range of bytes stored by the server, i.e.:
+// `bytes=0-1023` means the upload should be resumed from byte 1024.
+function parseStoredRange(range: string | null): number {
+    const match = range && range.match(/^bytes=0-(\d+)$/);
+
+    return match ? Number(match[1]) + 1 : 0;
+}
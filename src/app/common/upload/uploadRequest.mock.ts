@@ -0,0 +1,100 @@
+export interface MockUploadRequest {
+    body?: Blob;
+    /**
+     * The header names are in lowercase, the same as the ones received by a
+     * Node server.
+     */
+    headers: { [key: string]: string };
+    method: string;
+    url: string;
+}
+
+export interface MockUploadResponse {
+    delay?: number;
+    headers?: { [key: string]: string };
+    /**
+     * A status of 0 simulates a network error.
+     */
+    status: number;
+}
+
+/**
+ * Replaces `XMLHttpRequest` with a fake whose responses are returned by the
+ * handler, so uploads can be tested without network access. Call
+ * `mockRestore` on the returned spy once done.
+ */
+export function mockUploadRequests(
+    handleRequest: (request: MockUploadRequest) => MockUploadResponse
+): jest.SpyInstance {
+    class MockXMLHttpRequest {
+        status = 0;
+        upload: { onprogress?(event: Partial<ProgressEvent>): void } = {};
+        onabort?: () => void;
+        onerror?: () => void;
+        onload?: () => void;
+
+        private headers: { [key: string]: string } = {};
+        private isAborted = false;
+        private method = '';
+        private responseHeaders: { [key: string]: string } = {};
+        private url = '';
+
+        open(method: string, url: string): void {
+            this.method = method;
+            this.url = url;
+        }
+
+        setRequestHeader(name: string, value: string): void {
+            this.headers[name.toLowerCase()] = value;
+        }
+
+        getResponseHeader(name: string): string | null {
+            return this.responseHeaders[name.toLowerCase()] || null;
+        }
+
+        abort(): void {
+            this.isAborted = true;
+            this.status = 0;
+
+            if (this.onabort) {
+                this.onabort();
+            }
+        }
+
+        send(body?: Blob): void {
+            const { delay = 0, headers = {}, status } = handleRequest({
+                body,
+                headers: this.headers,
+                method: this.method,
+                url: this.url,
+            });
+
+            setTimeout(() => {
+                if (this.isAborted) {
+                    return;
+                }
+
+                this.status = status;
+
+                Object.keys(headers).forEach(name => {
+                    this.responseHeaders[name.toLowerCase()] = headers[name];
+                });
+
+                if (status === 0) {
+                    return this.onerror && this.onerror();
+                }
+
+                if (body && this.upload.onprogress) {
+                    this.upload.onprogress({ lengthComputable: true, loaded: body.size, total: body.size });
+                }
+
+                if (this.onload) {
+                    this.onload();
+                }
+            }, delay);
+        }
+    }
+
+    return jest.spyOn(window as any, 'XMLHttpRequest')
+        .mockImplementation(() => new MockXMLHttpRequest() as unknown as XMLHttpRequest);
+}
@@ -35,4 +35,32 @@ describe('retry()', () => {
         expect(output)
             .toEqual(response);
     });
+
+    it('increases interval between retries by backoff factor', async () => {
+        const error = new Error('Request timeout');
+        const call = jest.fn(() => Promise.reject(error));
+
+        jest.spyOn(window, 'setTimeout');
+
+        try {
+            await retry(() => call(), { backoff: 2, count: 3, interval: 1 });
+        } catch (thrown) {
+            expect((window.setTimeout as unknown as jest.Mock).mock.calls.map(([, interval]) => interval))
+                .toEqual([1, 2]);
+        }
+    });
+
+    it('stops retrying async call if error is not retriable', async () => {
+        const error = new Error('Cancelled');
+        const call = jest.fn(() => Promise.reject(error));
+
+        try {
+            await retry(() => call(), { count: 3, interval: 1, shouldRetry: () => false });
+        } catch (thrown) {
+            expect(call)
+                .toHaveBeenCalledTimes(1);
+            expect(thrown)
+                .toEqual(error);
+        }
+    });
 });
@@ -1,28 +1,32 @@
 const DEFAULT_OPTIONS = {
+    backoff: 1,
     count: 5,
     interval: 1000,
+    shouldRetry: () => true,
 };
 
 export interface RetryOptions {
+    backoff?: number;
     count?: number;
     interval?: number;
+    shouldRetry?(error: unknown): boolean;
 }
 
 export default async function retry<T>(
     fn: () => Promise<T>,
     options?: RetryOptions
 ): Promise<T> {
-    const { count, interval } = { ...DEFAULT_OPTIONS, ...options };
+    const { backoff, count, interval, shouldRetry } = { ...DEFAULT_OPTIONS, ...options };
 
     try {
         return await fn();
     } catch (error) {
-        if (count === 1) {
+        if (count === 1 || !shouldRetry(error)) {
             throw error;
         }
 
         await new Promise(resolve => setTimeout(resolve, interval));
 
-        return retry(fn, { interval, count: count - 1 });
+        return retry(fn, { backoff, count: count - 1, interval: interval * backoff, shouldRetry });
     }
 }
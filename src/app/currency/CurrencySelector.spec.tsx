@@ -0,0 +1,68 @@
+import { mount } from 'enzyme';
+import React from 'react';
+
+import { getStoreConfig } from '../config/config.mock';
+import { createLocaleContext, CurrencySelectionContext, CurrencySelectionContextType, LocaleContext, LocaleContextType } from '../locale';
+
+import CurrencySelector from './CurrencySelector';
+
+describe('CurrencySelector', () => {
+    let currencySelection: CurrencySelectionContextType;
+    let localeContext: LocaleContextType;
+
+    beforeEach(() => {
+        localeContext = createLocaleContext(getStoreConfig());
+        currencySelection = {
+            currencies: [
+                getStoreConfig().shopperCurrency,
+                { ...getStoreConfig().shopperCurrency, code: 'EUR' },
+            ],
+            selectedCurrencyCode: 'USD',
+            selectCurrency: jest.fn(),
+            toTransactionalCurrency: jest.fn(),
+            transactionalCurrencyCode: 'USD',
+        };
+    });
+
+    it('renders list of store currencies', () => {
+        const component = mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <CurrencySelectionContext.Provider value={ currencySelection }>
+                    <CurrencySelector />
+                </CurrencySelectionContext.Provider>
+            </LocaleContext.Provider>
+        );
+
+        expect(component.find('option').map(option => option.prop('value')))
+            .toEqual(['USD', 'EUR']);
+
+        expect(component.find('select').prop('value'))
+            .toEqual('USD');
+    });
+
+    it('selects currency when shopper changes selection', () => {
+        const component = mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <CurrencySelectionContext.Provider value={ currencySelection }>
+                    <CurrencySelector />
+                </CurrencySelectionContext.Provider>
+            </LocaleContext.Provider>
+        );
+
+        component.find('select').simulate('change', { target: { value: 'EUR' } });
+
+        expect(currencySelection.selectCurrency)
+            .toHaveBeenCalledWith('EUR');
+    });
+
+    it('renders nothing if currency selection is not available', () => {
+        const component = mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <CurrencySelector />
+            </LocaleContext.Provider>
+        );
+
+        expect(component.html())
+            .toBeFalsy();
+    });
+});
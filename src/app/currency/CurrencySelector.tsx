@@ -0,0 +1,39 @@
+import React, { useCallback, ChangeEvent, FunctionComponent } from 'react';
+
+import { withCurrencySelection, withLanguage, WithCurrencySelectionProps, WithLanguageProps } from '../locale';
+
+import './CurrencySelector.scss';
+
+export interface CurrencySelectorProps {
+    className?: string;
+}
+
+const CurrencySelector: FunctionComponent<CurrencySelectorProps & WithCurrencySelectionProps & WithLanguageProps> = ({
+    className,
+    currencies,
+    language,
+    selectCurrency,
+    selectedCurrencyCode,
+}) => {
+    const handleChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+        selectCurrency(event.target.value);
+    }, [selectCurrency]);
+
+    return (
+        <select
+            aria-label={ language.translate('cart.currency_selector_label') }
+            className={ className || 'cart-currencySelector' }
+            data-test="cart-currency-selector"
+            onChange={ handleChange }
+            value={ selectedCurrencyCode }
+        >
+            { currencies.map(({ code }) => (
+                <option key={ code } value={ code }>
+                    { code }
+                </option>
+            )) }
+        </select>
+    );
+};
+
+export default withLanguage(withCurrencySelection(CurrencySelector));
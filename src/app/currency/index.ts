@@ -1,2 +1,3 @@
+export { default as CurrencySelector, CurrencySelectorProps } from './CurrencySelector';
 export { default as ShopperCurrency } from './ShopperCurrency';
 export { default as StoreCurrency } from './StoreCurrency';
@@ -1,8 +1,10 @@
 import { FormField } from '@bigcommerce/checkout-sdk';
 import { withFormik, FormikProps } from 'formik';
 import { noop } from 'lodash';
-import React, { useMemo, FunctionComponent } from 'react';
+import React, { useCallback, useContext, useMemo, FunctionComponent } from 'react';
+import { lazy } from 'yup';
 
+import { AnalyticsContext, AnalyticsEventType } from '../analytics';
 import { preventDefault } from '../common/dom';
 import { isRequestError } from '../common/error';
 import { withLanguage, TranslatedString, WithLanguageProps } from '../locale';
@@ -29,6 +31,12 @@ const CreateAccountForm: FunctionComponent<CreateAccountFormProps & WithLanguage
     isCreatingAccount,
     onCancel,
 }) => {
+    const { analytics } = useContext(AnalyticsContext);
+
+    const handleValidationError = useCallback((fields: string[]) => {
+        analytics.emit({ type: AnalyticsEventType.ValidationError, fields, form: 'checkout-customer-create-account' });
+    }, [analytics]);
+
     const createAccountErrorMessage = useMemo(() => {
         if (!createAccountError) {
             return;
@@ -54,6 +62,7 @@ const CreateAccountForm: FunctionComponent<CreateAccountFormProps & WithLanguage
         <Form
             className="checkout-form"
             id="checkout-customer-returning"
+            onValidationError={ handleValidationError }
             testId="checkout-customer-returning"
         >
             <Fieldset>
@@ -122,12 +131,11 @@ export default withLanguage(withFormik<CreateAccountFormProps & WithLanguageProp
             throw new Error('Password requirements missing');
         }
 
-        const schema = getCreateCustomerValidationSchema({
+        return lazy<Partial<CreateAccountFormValues>>(values => getCreateCustomerValidationSchema({
             language,
             formFields,
             passwordRequirements: getPasswordRequirements(passwordRequirements),
-        });
-
-        return schema;
+            values,
+        }));
     },
 })(CreateAccountForm));
@@ -2,10 +2,12 @@ import { createCheckoutService, BillingAddress, Checkout, CheckoutService, Custo
 import { mount, render, ReactWrapper } from 'enzyme';
 import React, { FunctionComponent } from 'react';
 
+import { getFormFields } from '../address/formField.mock';
 import { getBillingAddress } from '../billing/billingAddresses.mock';
 import { CheckoutProvider } from '../checkout';
 import { getCheckout } from '../checkout/checkouts.mock';
 import { getStoreConfig } from '../config/config.mock';
+import { FormFieldRulesContext } from '../formFields';
 import { createLocaleContext, LocaleContext, LocaleContextType } from '../locale';
 
 import { getCustomer, getGuestCustomer } from './customers.mock';
@@ -120,6 +122,31 @@ describe('Customer', () => {
                 .toEqual(true);
         });
 
+        it('shows account fields of create account form according to configured rules', () => {
+            jest.spyOn(checkoutService.getState().data, 'getCustomer')
+                .mockReturnValue(undefined);
+
+            jest.spyOn(checkoutService.getState().data, 'getCustomerAccountFields')
+                .mockReturnValue(getFormFields().filter(({ name }) => name === 'firstName' || name === 'field_25'));
+
+            const component = mount(
+                <FormFieldRulesContext.Provider
+                    value={ { formFieldRules: { field_25: { visibleWhen: [{ field: 'firstName', filled: true }] } } } }
+                >
+                    <CustomerTest viewType={ CustomerViewType.CreateAccount } />
+                </FormFieldRulesContext.Provider>
+            );
+
+            expect(component.find('input[name="customFields.field_25"]').exists())
+                .toEqual(false);
+
+            component.find('input[name="firstName"]')
+                .simulate('change', { target: { value: 'Foo', name: 'firstName' } });
+
+            expect(component.find('input[name="customFields.field_25"]').exists())
+                .toEqual(true);
+        });
+
         it('passes data to guest form', () => {
             const component = mount(
                 <CustomerTest viewType={ CustomerViewType.Guest } />
@@ -3,6 +3,7 @@ import { noop } from 'lodash';
 import React, { Component, Fragment, ReactNode } from 'react';
 
 import { withCheckout, CheckoutContextProps } from '../checkout';
+import { applyFormFieldRules, withFormFieldRules, WithFormFieldRulesProps } from '../formFields';
 
 import { CreateAccountFormValues } from './getCreateCustomerValidationSchema';
 import mapCreateAccountFromFormValues from './mapCreateAccountFromFormValues';
@@ -63,7 +64,7 @@ export interface CustomerState {
     hasRequestedLoginEmail: boolean;
 }
 
-class Customer extends Component<CustomerProps & WithCheckoutCustomerProps, CustomerState> {
+class Customer extends Component<CustomerProps & WithCheckoutCustomerProps & WithFormFieldRulesProps, CustomerState> {
     state: CustomerState = {
         isEmailLoginFormOpen: false,
         hasRequestedLoginEmail: false,
@@ -378,7 +379,8 @@ class Customer extends Component<CustomerProps & WithCheckoutCustomerProps, Cust
 }
 
 export function mapToWithCheckoutCustomerProps(
-    { checkoutService, checkoutState }: CheckoutContextProps
+    { checkoutService, checkoutState }: CheckoutContextProps,
+    { formFieldRules }: WithFormFieldRulesProps
 ): WithCheckoutCustomerProps | null {
     const {
         data: { getBillingAddress, getCustomerAccountFields, getCheckout, getCustomer, getSignInEmail, getConfig },
@@ -406,7 +408,7 @@ export function mapToWithCheckoutCustomerProps(
     } = config as StoreConfig & { checkoutSettings: { isAccountCreationEnabled: boolean } };
 
     return {
-        customerAccountFields: getCustomerAccountFields(),
+        customerAccountFields: applyFormFieldRules(getCustomerAccountFields(), formFieldRules),
         canSubscribe: config.shopperConfig.showNewsletterSignup,
         checkoutButtonIds: config.checkoutSettings.remoteCheckoutProviders,
         clearError: checkoutService.clearError,
@@ -437,4 +439,4 @@ export function mapToWithCheckoutCustomerProps(
     };
 }
 
-export default withCheckout(mapToWithCheckoutCustomerProps)(Customer);
+export default withFormFieldRules(withCheckout(mapToWithCheckoutCustomerProps)(Customer));
@@ -1,7 +1,8 @@
 import { withFormik, FieldProps, FormikProps } from 'formik';
-import React, { memo, useCallback, FunctionComponent, ReactNode } from 'react';
+import React, { memo, useCallback, useContext, FunctionComponent, ReactNode } from 'react';
 import { object, string } from 'yup';
 
+import { AnalyticsContext, AnalyticsEventType } from '../analytics';
 import { withLanguage, TranslatedHtml, TranslatedString, WithLanguageProps } from '../locale';
 import { getPrivacyPolicyValidationSchema, PrivacyPolicyField } from '../privacyPolicy';
 import { Button, ButtonVariant } from '../ui/button';
@@ -37,6 +38,12 @@ const GuestForm: FunctionComponent<GuestFormProps & WithLanguageProps & FormikPr
     privacyPolicyUrl,
     requiresMarketingConsent,
 }) => {
+    const { analytics } = useContext(AnalyticsContext);
+
+    const handleValidationError = useCallback((fields: string[]) => {
+        analytics.emit({ type: AnalyticsEventType.ValidationError, fields, form: 'checkout-customer-guest' });
+    }, [analytics]);
+
     const renderField = useCallback((fieldProps: FieldProps<boolean>) => (
         <SubscribeField
             { ...fieldProps }
@@ -50,6 +57,7 @@ const GuestForm: FunctionComponent<GuestFormProps & WithLanguageProps & FormikPr
         <Form
             className="checkout-form"
             id="checkout-customer-guest"
+            onValidationError={ handleValidationError }
             testId="checkout-customer-guest"
         >
             <Fieldset
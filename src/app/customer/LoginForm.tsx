@@ -1,8 +1,9 @@
 import { withFormik, FormikProps } from 'formik';
 import { noop } from 'lodash';
-import React, { memo, useCallback, FunctionComponent } from 'react';
+import React, { memo, useCallback, useContext, FunctionComponent } from 'react';
 import { object, string } from 'yup';
 
+import { AnalyticsContext, AnalyticsEventType } from '../analytics';
 import { preventDefault } from '../common/dom';
 import { withLanguage, TranslatedHtml, TranslatedLink, TranslatedString, WithLanguageProps } from '../locale';
 import { Alert, AlertType } from '../ui/alert';
@@ -56,6 +57,12 @@ const LoginForm: FunctionComponent<LoginFormProps & WithLanguageProps & FormikPr
     shouldShowCreateAccountLink,
     viewType = CustomerViewType.Login,
 }) => {
+    const { analytics } = useContext(AnalyticsContext);
+
+    const handleValidationError = useCallback((fields: string[]) => {
+        analytics.emit({ type: AnalyticsEventType.ValidationError, fields, form: 'checkout-customer-returning' });
+    }, [analytics]);
+
     const changeEmailLink = useCallback(() => {
         if (!email) {
             return null;
@@ -77,6 +84,7 @@ const LoginForm: FunctionComponent<LoginFormProps & WithLanguageProps & FormikPr
         <Form
             className="checkout-form"
             id="checkout-customer-returning"
+            onValidationError={ handleValidationError }
             testId="checkout-customer-returning"
         >
             <Fieldset legend={
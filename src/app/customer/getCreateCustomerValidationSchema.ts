@@ -3,6 +3,7 @@ import { memoize } from '@bigcommerce/memoize';
 import { object, string, ObjectSchema } from 'yup';
 
 import { getCustomFormFieldsValidationSchema, CustomFormFieldValues, TranslateValidationErrorFunction } from '../formFields';
+import { FormFieldRuleValues } from '../ui/form';
 
 import getEmailValidationSchema from './getEmailValidationSchema';
 import { PasswordRequirements } from './getPasswordRequirements';
@@ -20,9 +21,12 @@ export interface CreateCustomerValidationSchema {
     formFields: FormField[];
     language: LanguageService;
     passwordRequirements: PasswordRequirements;
+    values?: FormFieldRuleValues;
 }
 
-function getTranslateCreateCustomerError(language?: LanguageService): TranslateValidationErrorFunction {
+const getTranslateCreateCustomerError = memoize((
+    language?: LanguageService
+): TranslateValidationErrorFunction => {
     return (type, { label, min, max }) => {
         if (!language) {
             return;
@@ -44,15 +48,26 @@ function getTranslateCreateCustomerError(language?: LanguageService): TranslateV
             return language.translate('customer.invalid_characters_error', { label });
         }
 
+        if (type === 'format') {
+            return language.translate('customer.format_error', { label });
+        }
+
+        if (type === 'fileSize') {
+            return language.translate('customer.file_size_error', { label });
+        }
+
+        if (type === 'fileType') {
+            return language.translate('customer.file_type_error', { label });
+        }
+
         return;
     };
-}
+});
 
-export default memoize(function getCreateCustomerValidationSchema({
-    formFields,
+const getAccountValidationSchema = memoize(({
     language,
     passwordRequirements: { description, numeric, alpha, minLength },
-}: CreateCustomerValidationSchema): ObjectSchema<CreateAccountFormValues> {
+}: Omit<CreateCustomerValidationSchema, 'formFields' | 'values'>): ObjectSchema<CreateAccountFormValues> => {
     return object({
             firstName: string().required(language.translate('address.first_name_required_error')),
             lastName: string().required(language.translate('address.last_name_required_error')),
@@ -63,9 +78,19 @@ export default memoize(function getCreateCustomerValidationSchema({
                 .min(minLength, description || language.translate('customer.password_under_minimum_length_error'))
                 .max(100, language.translate('customer.password_over_maximum_length_error')),
         })
-        .concat(getEmailValidationSchema({ language }))
+        .concat(getEmailValidationSchema({ language })) as ObjectSchema<CreateAccountFormValues>;
+});
+
+export default function getCreateCustomerValidationSchema({
+    formFields,
+    language,
+    passwordRequirements,
+    values,
+}: CreateCustomerValidationSchema): ObjectSchema<CreateAccountFormValues> {
+    return getAccountValidationSchema({ language, passwordRequirements })
         .concat(getCustomFormFieldsValidationSchema({
             formFields,
             translate: getTranslateCreateCustomerError(language),
+            values,
         }));
-});
+}
@@ -0,0 +1,9 @@
+import { FormFieldRules } from '../ui/form';
+
+/**
+ * Rules for showing and requiring form fields conditionally, keyed by the
+ * name of the field they apply to, i.e.: `company` or `field_25`.
+ */
+export default interface FormFieldRulesConfig {
+    [fieldName: string]: FormFieldRules;
+}
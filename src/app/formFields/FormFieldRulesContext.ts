@@ -0,0 +1,13 @@
+import { createContext } from 'react';
+
+import FormFieldRulesConfig from './FormFieldRulesConfig';
+
+export interface FormFieldRulesContextType {
+    formFieldRules: FormFieldRulesConfig;
+}
+
+// Fields are shown and required as configured for the store if there are no
+// rules, i.e.: if the store has not configured any.
+const FormFieldRulesContext = createContext<FormFieldRulesContextType>({ formFieldRules: {} });
+
+export default FormFieldRulesContext;
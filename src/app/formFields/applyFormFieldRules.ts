@@ -0,0 +1,37 @@
+import { FormField } from '@bigcommerce/checkout-sdk';
+import { memoize } from '@bigcommerce/memoize';
+
+import { FormFieldWithRules } from '../ui/form';
+
+import FormFieldRulesConfig from './FormFieldRulesConfig';
+
+/**
+ * Returns the fields with the rules configured for them attached, so the
+ * rules are applied wherever the fields are rendered or validated.
+ */
+const applyFormFieldRules = memoize((
+    formFields: FormField[],
+    formFieldRules: FormFieldRulesConfig
+): FormFieldWithRules[] => {
+    if (!formFields.some(({ name }) => formFieldRules[name])) {
+        return formFields;
+    }
+
+    return formFields.map(field => formFieldRules[field.name] ?
+        { ...field, rules: formFieldRules[field.name] } :
+        field
+    );
+}, { maxSize: 20 });
+
+/**
+ * Returns a function returning the fields of a country with the rules
+ * configured for them attached, i.e.: to replace `getShippingAddressFields`.
+ */
+export const applyFormFieldRulesToGetter = memoize((
+    getFields: (countryCode: string) => FormField[],
+    formFieldRules: FormFieldRulesConfig
+): (countryCode: string) => FormFieldWithRules[] => {
+    return countryCode => applyFormFieldRules(getFields(countryCode), formFieldRules);
+}, { maxSize: 20 });
+
+export default applyFormFieldRules;
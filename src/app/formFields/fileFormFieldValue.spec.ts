@@ -0,0 +1,44 @@
+import { formatFileFormFieldValue, parseFileFormFieldValue } from './fileFormFieldValue';
+import mapCustomFormFieldsFromFormValues from './mapCustomFormFieldsFromFormValues';
+
+describe('fileFormFieldValue', () => {
+    const file = {
+        name: 'team logo.png',
+        size: 4,
+        type: 'image/png',
+        url: 'https://bucket.foo.com/uploads/team%20logo.png',
+    };
+
+    it('formats file as URL of uploaded file', () => {
+        expect(formatFileFormFieldValue(file))
+            .toEqual('https://bucket.foo.com/uploads/team%20logo.png');
+    });
+
+    it('parses file from URL of uploaded file', () => {
+        expect(parseFileFormFieldValue(formatFileFormFieldValue(file)))
+            .toEqual({
+                name: 'team logo.png',
+                url: 'https://bucket.foo.com/uploads/team%20logo.png',
+            });
+    });
+
+    it('parses file name from URL with query string', () => {
+        expect(parseFileFormFieldValue('https://bucket.foo.com/logo.png?version=2'))
+            .toEqual(expect.objectContaining({ name: 'logo.png' }));
+    });
+
+    it('returns nothing if value is not URL', () => {
+        expect(parseFileFormFieldValue('data:image/png;base64,Zm9vYg=='))
+            .toBeUndefined();
+        expect(parseFileFormFieldValue('logo.png'))
+            .toBeUndefined();
+    });
+
+    it('maps file values of custom fields to URLs', () => {
+        expect(mapCustomFormFieldsFromFormValues({ field_1: file, field_2: ['red', 'blue'] }))
+            .toEqual([
+                { fieldId: 'field_1', fieldValue: 'https://bucket.foo.com/uploads/team%20logo.png' },
+                { fieldId: 'field_2', fieldValue: ['red', 'blue'] },
+            ]);
+    });
+});
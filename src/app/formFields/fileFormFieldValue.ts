@@ -0,0 +1,28 @@
+import { FileInputValue } from '../ui/form';
+
+const URL_PATTERN = /^https?:\/\/[^/?#]+\/(?:[^?#]*\/)?([^/?#]*)/;
+
+/**
+ * Returns the URL of the uploaded file, which is submitted as the value of
+ * its custom form field instead of the content of the file.
+ */
+export function formatFileFormFieldValue({ url }: FileInputValue): string {
+    return url;
+}
+
+/**
+ * Restores the file from the URL submitted for its custom form field. The
+ * name of the file is taken from the URL, as it is the only part known.
+ */
+export function parseFileFormFieldValue(value: string): FileInputValue | undefined {
+    const match = value.match(URL_PATTERN);
+
+    if (!match) {
+        return;
+    }
+
+    return {
+        name: decodeURIComponent(match[1]),
+        url: value,
+    };
+}
@@ -136,4 +136,109 @@ describe('getCustomFormFieldsValidationSchema', () => {
             expect(spy).toHaveBeenCalled();
         });
     });
+
+    describe('when custom fields of format are present', () => {
+        let schema: ObjectSchema<CustomFormFieldValues>;
+
+        beforeEach(() => {
+            schema = getCustomFormFieldsValidationSchema({ formFields: [
+                { custom: true, fieldType: 'email', id: 'email', name: 'email', required: false, type: 'string' },
+                { custom: true, fieldType: 'url', id: 'url', name: 'url', required: false, type: 'string' },
+                { custom: true, fieldType: 'color', id: 'color', name: 'color', required: false, type: 'string' },
+            ] as any, translate });
+        });
+
+        it.each([
+            ['email', 'foo@bar'],
+            ['url', 'bigcommerce.com'],
+            ['color', 'red'],
+        ])('throws if %s field has invalid value', async (name, value) => {
+            expect(await schema.isValid({ customFields: { [name]: value } }))
+                .toEqual(false);
+            expect(translate).toHaveBeenCalledWith('format', expect.objectContaining({ name }));
+        });
+
+        it('resolves if values are valid or empty', async () => {
+            expect(await schema.isValid({ customFields: { email: 'foo@bar.com', url: 'https://bigcommerce.com', color: '#FF0000' } }))
+                .toEqual(true);
+            expect(await schema.isValid({ customFields: { email: '', url: '', color: '' } }))
+                .toEqual(true);
+        });
+    });
+
+    describe('when custom file field is present', () => {
+        let schema: ObjectSchema<CustomFormFieldValues>;
+        const file = { name: 'logo.png', size: 3, type: 'image/png', url: 'https://bucket.foo.com/logo.png' };
+
+        beforeEach(() => {
+            schema = getCustomFormFieldsValidationSchema({ formFields: [
+                {
+                    custom: true,
+                    fieldType: 'file',
+                    id: 'logo',
+                    max: 10,
+                    name: 'logo',
+                    options: { accept: 'image/*, .pdf' },
+                    required: true,
+                    type: 'string',
+                },
+            ] as any, translate });
+        });
+
+        it('throws if file is missing', async () => {
+            expect(await schema.isValid({ customFields: { logo: undefined } }))
+                .toEqual(false);
+        });
+
+        it('throws if file is too large', async () => {
+            expect(await schema.isValid({ customFields: { logo: { ...file, size: 11 } } }))
+                .toEqual(false);
+            expect(translate).toHaveBeenCalledWith('fileSize', expect.objectContaining({ max: 10 }));
+        });
+
+        it('throws if file type is not accepted', async () => {
+            expect(await schema.isValid({ customFields: { logo: { ...file, name: 'logo.txt', type: 'text/plain' } } }))
+                .toEqual(false);
+        });
+
+        it('resolves if file is accepted', async () => {
+            expect(await schema.isValid({ customFields: { logo: file } }))
+                .toEqual(true);
+            expect(await schema.isValid({ customFields: { logo: { ...file, name: 'logo.PDF', type: '' } } }))
+                .toEqual(true);
+        });
+
+        it('resolves if file is restored from submitted URL', async () => {
+            expect(await schema.isValid({ customFields: { logo: { name: 'logo.txt', url: 'https://bucket.foo.com/logo.txt' } } }))
+                .toEqual(true);
+        });
+    });
+
+    describe('when custom multi-select field is present', () => {
+        let schema: ObjectSchema<CustomFormFieldValues>;
+
+        beforeEach(() => {
+            schema = getCustomFormFieldsValidationSchema({ formFields: [
+                {
+                    custom: true,
+                    fieldType: 'multiselect',
+                    id: 'colors',
+                    name: 'colors',
+                    options: { items: [{ value: 'red', label: 'Red' }, { value: 'blue', label: 'Blue' }] },
+                    required: true,
+                    type: 'array',
+                },
+            ] as any, translate });
+        });
+
+        it('throws if no option is selected', async () => {
+            expect(await schema.isValid({ customFields: { colors: [] } }))
+                .toEqual(false);
+        });
+
+        it('resolves if option is selected', async () => {
+            expect(await schema.isValid({ customFields: { colors: ['red'] } }))
+                .toEqual(true);
+        });
+    });
 });
@@ -1,11 +1,13 @@
 import { FormField } from '@bigcommerce/checkout-sdk';
 import { memoize } from '@bigcommerce/memoize';
-import { array, date, number, object, string, ArraySchema, NumberSchema, ObjectSchema, Schema } from 'yup';
+import { array, date, mixed, number, object, string, ArraySchema, MixedSchema, NumberSchema, ObjectSchema, Schema, StringSchema } from 'yup';
 
-import { DynamicFormFieldType } from '../ui/form';
+import { getFileFormFieldAccept, isFileInputValue, DynamicFormFieldType, FileInputValue, FormFieldRuleValues } from '../ui/form';
+
+import resolveFormFields from './resolveFormFields';
 
 export type TranslateValidationErrorFunction = ((
-    validationType: 'max' | 'min' | 'required' | 'invalid',
+    validationType: 'max' | 'min' | 'required' | 'invalid' | 'format' | 'fileSize' | 'fileType',
     field: {
         name: string;
         label: string;
@@ -17,6 +19,7 @@ export type TranslateValidationErrorFunction = ((
 export interface FormFieldsValidationSchemaOptions {
     formFields: FormField[];
     translate?: TranslateValidationErrorFunction;
+    values?: FormFieldRuleValues;
 }
 
 export interface CustomFormFieldValues {
@@ -27,15 +30,18 @@ export interface CustomFormFields {
     [id: string]: string | string[] | number;
 }
 
-export default memoize(function getCustomFormFieldsValidationSchema({
+const COLOR_REGEXP = /^#[0-9a-f]{6}$/i;
+
+const createCustomFormFieldsValidationSchema = memoize(({
     formFields,
     translate = () => undefined,
-}: FormFieldsValidationSchemaOptions): ObjectSchema<CustomFormFieldValues> {
+}: FormFieldsValidationSchemaOptions): ObjectSchema<CustomFormFieldValues> => {
     return object({
         customFields: object(
             formFields
                 .filter(({ custom }) => !!custom)
-                .reduce((schema, { name, label, required, fieldType, type, min, max }) => {
+                .reduce((schema, formField) => {
+                    const { name, label, required, fieldType, type, min, max } = formField;
                     let maxValue: number | undefined;
                     let minValue: number | undefined;
 
@@ -55,10 +61,18 @@ export default memoize(function getCustomFormFieldsValidationSchema({
 
                         maxValue = typeof max === 'number' ? max : undefined;
                         minValue = typeof min === 'number' ? min : undefined;
-                    } else if (fieldType === DynamicFormFieldType.checkbox) {
+                    } else if (isMultipleChoice(fieldType)) {
                         schema[name] = array();
+                    } else if (isFile(fieldType)) {
+                        schema[name] = getFileSchema({
+                            accept: getFileFormFieldAccept(formField),
+                            label,
+                            maxSize: typeof max === 'number' ? max : undefined,
+                            name,
+                            translate,
+                        });
                     } else {
-                        schema[name] = string();
+                        schema[name] = getStringSchema(fieldType, { label, name, translate });
                     }
 
                     if (maxValue !== undefined) {
@@ -76,7 +90,7 @@ export default memoize(function getCustomFormFieldsValidationSchema({
                     if (required) {
                         const requiredErrorMessage = translate('required', { name, label });
 
-                        schema[name] = fieldType === DynamicFormFieldType.checkbox ?
+                        schema[name] = isMultipleChoice(fieldType) ?
                             (schema[name] as ArraySchema<string>).min(1, requiredErrorMessage) :
                             (schema[name] as ArraySchema<string>).required(requiredErrorMessage);
                     }
@@ -88,3 +102,92 @@ export default memoize(function getCustomFormFieldsValidationSchema({
         ).nullable(true),
     }) as ObjectSchema<CustomFormFieldValues>;
 });
+
+export default function getCustomFormFieldsValidationSchema({
+    formFields,
+    translate,
+    values,
+}: FormFieldsValidationSchemaOptions): ObjectSchema<CustomFormFieldValues> {
+    return createCustomFormFieldsValidationSchema({
+        formFields: resolveFormFields(formFields, values),
+        translate,
+    });
+}
+
+function isFile(fieldType?: string): boolean {
+    return fieldType === DynamicFormFieldType.file;
+}
+
+function isMultipleChoice(fieldType?: string): boolean {
+    return fieldType === DynamicFormFieldType.checkbox ||
+        fieldType === DynamicFormFieldType.multiselect;
+}
+
+interface StringSchemaOptions {
+    label: string;
+    name: string;
+    translate: TranslateValidationErrorFunction;
+}
+
+function getStringSchema(fieldType: string | undefined, { label, name, translate }: StringSchemaOptions): StringSchema {
+    switch (fieldType) {
+    case DynamicFormFieldType.email:
+        return string().email(translate('format', { label, name }));
+
+    case DynamicFormFieldType.url:
+        return string().url(translate('format', { label, name }));
+
+    case DynamicFormFieldType.color:
+        return string().matches(COLOR_REGEXP, {
+            excludeEmptyString: true,
+            message: translate('format', { label, name }),
+        });
+
+    default:
+        return string();
+    }
+}
+
+interface FileSchemaOptions {
+    accept?: string;
+    label: string;
+    maxSize?: number;
+    name: string;
+    translate: TranslateValidationErrorFunction;
+}
+
+function getFileSchema({ accept, label, maxSize, name, translate }: FileSchemaOptions): MixedSchema<FileInputValue | null | undefined> {
+    const acceptedTypes = accept ?
+        accept.split(',').map(acceptedType => acceptedType.trim().toLowerCase()) :
+        [];
+
+    // The size and type of files restored from the URLs submitted for them are
+    // unknown, but they were already checked when the files were uploaded.
+    return mixed<FileInputValue | undefined>()
+        .nullable(true)
+        .test({
+            name: 'fileSize',
+            message: translate('fileSize', { label, name, max: maxSize }),
+            test: value => !isFileInputValue(value) || maxSize === undefined || value.size === undefined || value.size <= maxSize,
+        })
+        .test({
+            name: 'fileType',
+            message: translate('fileType', { label, name }),
+            test: value => !isFileInputValue(value) || !acceptedTypes.length || value.type === undefined ||
+                acceptedTypes.some(acceptedType => isAcceptedFileType(value.name, value.type || '', acceptedType)),
+        });
+}
+
+// Matches the file against a file type specifier of the `accept` attribute,
+// i.e.: ".png", "image/png" or "image/*"
+function isAcceptedFileType(name: string, type: string, acceptedType: string): boolean {
+    if (acceptedType.charAt(0) === '.') {
+        return name.toLowerCase().slice(-acceptedType.length) === acceptedType;
+    }
+
+    if (acceptedType.slice(-2) === '/*') {
+        return type.toLowerCase().indexOf(acceptedType.slice(0, -1)) === 0;
+    }
+
+    return type.toLowerCase() === acceptedType;
+}
@@ -108,4 +108,53 @@ describe('getFormFielsValidationSchema', () => {
             expect(spy).toHaveBeenCalled();
         });
     });
+
+    describe('when fields have rules', () => {
+        const fieldsWithRules = formFields.map(field => field.name === 'field_25' ? {
+            ...field,
+            required: true,
+            rules: { visibleWhen: [{ field: 'company', filled: true }] },
+        } : field.name === 'address2' ? {
+            ...field,
+            required: false,
+            rules: { requiredWhen: [{ field: 'countryCode', oneOf: ['BR'] }] },
+        } : field);
+
+        it('does not validate hidden fields', async () => {
+            const values = {
+                ...getShippingAddress(),
+                company: '',
+                customFields: { field_25: '' },
+            };
+            const schema = getFormFieldsValidationSchema({ formFields: fieldsWithRules, translate, values });
+
+            expect(await schema.isValid(values)).toEqual(true);
+        });
+
+        it('validates fields once they become visible', async () => {
+            const values = {
+                ...getShippingAddress(),
+                company: 'Bigcommerce',
+                customFields: { field_25: '' },
+            };
+            const schema = getFormFieldsValidationSchema({ formFields: fieldsWithRules, translate, values });
+
+            expect(await schema.isValid(values)).toEqual(false);
+        });
+
+        it('requires fields if their conditions are met', async () => {
+            const values = {
+                ...getShippingAddress(),
+                company: '',
+                countryCode: 'BR',
+                address2: '',
+                customFields: {},
+            };
+
+            expect(await getFormFieldsValidationSchema({ formFields: fieldsWithRules, translate, values }).isValid(values))
+                .toEqual(false);
+            expect(await getFormFieldsValidationSchema({ formFields: fieldsWithRules, translate, values: { ...values, countryCode: 'AU' } }).isValid(values))
+                .toEqual(true);
+        });
+    });
 });
@@ -2,6 +2,7 @@ import { memoize } from '@bigcommerce/memoize';
 import { object, string, ObjectSchema, StringSchema } from 'yup';
 
 import getCustomFormFieldsValidationSchema, { FormFieldsValidationSchemaOptions } from './getCustomFormFieldsValidationSchema';
+import resolveFormFields from './resolveFormFields';
 
 export const WHITELIST_REGEXP = /^[^<>]*$/;
 
@@ -9,10 +10,10 @@ export interface FormFieldValues {
     [key: string]: string | { [id: string]: any };
 }
 
-export default memoize(function getFormFieldsValidationSchema({
+const createFormFieldsValidationSchema = memoize(({
     formFields,
     translate = () => undefined,
-}: FormFieldsValidationSchemaOptions): ObjectSchema<FormFieldValues> {
+}: FormFieldsValidationSchemaOptions): ObjectSchema<FormFieldValues> => {
     return object({
         ...formFields
             .filter(({ custom }) => !custom)
@@ -32,5 +33,16 @@ export default memoize(function getFormFieldsValidationSchema({
             },
             {} as { [key: string]: StringSchema }
         ),
-    }).concat(getCustomFormFieldsValidationSchema({ formFields, translate })) as ObjectSchema<FormFieldValues>;
+    });
 });
+
+export default function getFormFieldsValidationSchema({
+    formFields,
+    translate,
+    values,
+}: FormFieldsValidationSchemaOptions): ObjectSchema<FormFieldValues> {
+    return createFormFieldsValidationSchema({
+        formFields: resolveFormFields(formFields, values),
+        translate,
+    }).concat(getCustomFormFieldsValidationSchema({ formFields, translate, values })) as ObjectSchema<FormFieldValues>;
+}
@@ -7,3 +7,8 @@ export {
     CustomFormFieldValues,
 } from './getCustomFormFieldsValidationSchema';
 export { default as mapCustomFormFieldsFromFormValues } from './mapCustomFormFieldsFromFormValues';
+export { formatFileFormFieldValue, parseFileFormFieldValue } from './fileFormFieldValue';
+export { default as applyFormFieldRules, applyFormFieldRulesToGetter } from './applyFormFieldRules';
+export { default as FormFieldRulesConfig } from './FormFieldRulesConfig';
+export { default as FormFieldRulesContext, FormFieldRulesContextType } from './FormFieldRulesContext';
+export { default as withFormFieldRules, WithFormFieldRulesProps } from './withFormFieldRules';
@@ -1,5 +1,9 @@
 import { forIn, isDate, padStart } from 'lodash';
 
+import { isFileInputValue } from '../ui/form';
+
+import { formatFileFormFieldValue } from './fileFormFieldValue';
+
 export default function mapCustomFormFieldsFromFormValues(
     customFieldsObject: { [id: string]: any }
 ): Array<{fieldId: string; fieldValue: string}> {
@@ -11,6 +15,8 @@ export default function mapCustomFormFieldsFromFormValues(
             const padMonth = padStart((value.getMonth() + 1).toString(), 2, '0');
             const padDay = padStart((value.getDate()).toString(), 2, '0');
             fieldValue = `${value.getFullYear()}-${padMonth}-${padDay}`;
+        } else if (isFileInputValue(value)) {
+            fieldValue = formatFileFormFieldValue(value);
         } else {
             fieldValue = value;
         }
@@ -0,0 +1,49 @@
+import { FormField } from '@bigcommerce/checkout-sdk';
+import { memoize } from '@bigcommerce/memoize';
+
+import { getFormFieldRules, isFormFieldRequired, isFormFieldVisible, FormFieldRuleValues } from '../ui/form';
+
+const HIDDEN_STATE = 'hidden';
+const OPTIONAL_STATE = 'optional';
+const REQUIRED_STATE = 'required';
+
+const applyFormFieldStates = memoize((
+    formFields: FormField[],
+    states: string
+): FormField[] => {
+    const fieldStates = states.split(',');
+
+    return formFields
+        .map((field, index) => ({
+            ...field,
+            required: fieldStates[index] === REQUIRED_STATE,
+        }))
+        .filter((_, index) => fieldStates[index] !== HIDDEN_STATE);
+});
+
+/**
+ * Returns the fields that are visible for the current values of the form,
+ * with their conditional requirements applied, so fields that are hidden never
+ * block the submission of the form.
+ */
+export default function resolveFormFields(
+    formFields: FormField[],
+    values?: FormFieldRuleValues
+): FormField[] {
+    if (!formFields.some(field => getFormFieldRules(field))) {
+        return formFields;
+    }
+
+    const states = formFields.map(field => {
+        if (!isFormFieldVisible(field, values)) {
+            return HIDDEN_STATE;
+        }
+
+        return isFormFieldRequired(field, values) ? REQUIRED_STATE : OPTIONAL_STATE;
+    });
+
+    // The states are joined so the same list is returned for as long as the
+    // values of the form do not change the state of any field, and memoized
+    // schemas built from it can be reused.
+    return applyFormFieldStates(formFields, states.join(','));
+}
@@ -0,0 +1,11 @@
+import { createInjectHoc, InjectHoc } from '../common/hoc';
+
+import FormFieldRulesContext, { FormFieldRulesContextType } from './FormFieldRulesContext';
+
+export type WithFormFieldRulesProps = FormFieldRulesContextType;
+
+const withFormFieldRules: InjectHoc<WithFormFieldRulesProps> = createInjectHoc(FormFieldRulesContext, {
+    displayNamePrefix: 'WithFormFieldRules',
+});
+
+export default withFormFieldRules;
@@ -0,0 +1,14 @@
+import { ShopperCurrency } from '@bigcommerce/checkout-sdk';
+import { createContext } from 'react';
+
+export interface CurrencySelectionContextType {
+    currencies: ShopperCurrency[];
+    selectedCurrencyCode: string;
+    transactionalCurrencyCode: string;
+    selectCurrency(code: string): void;
+    toTransactionalCurrency(amount: number): string;
+}
+
+const CurrencySelectionContext = createContext<CurrencySelectionContextType | undefined>(undefined);
+
+export default CurrencySelectionContext;
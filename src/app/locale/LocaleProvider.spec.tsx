@@ -1,9 +1,13 @@
-import { createCheckoutService, CheckoutService } from '@bigcommerce/checkout-sdk';
+import { createCheckoutService, CheckoutService, ShopperCurrency } from '@bigcommerce/checkout-sdk';
 import { mount } from 'enzyme';
 import React, { FunctionComponent } from 'react';
+import { act } from 'react-dom/test-utils';
 
 import { getStoreConfig } from '../config/config.mock';
 
+import getLanguageService from './getLanguageService';
+import { SELECTED_CURRENCY_STORAGE_KEY } from './selectedCurrencyStorage';
+import CurrencySelectionContext, { CurrencySelectionContextType } from './CurrencySelectionContext';
 import LocaleContext, { LocaleContextType } from './LocaleContext';
 import LocaleProvider from './LocaleProvider';
 
@@ -59,4 +63,132 @@ describe('LocaleProvider', () => {
         expect(component.find(Child).prop('date'))
             .not.toBeDefined();
     });
+
+    it('sets direction of document based on locale', () => {
+        jest.spyOn(getLanguageService(), 'getLocale')
+            .mockReturnValue('ar');
+
+        mount(<LocaleProvider checkoutService={ checkoutService } />);
+
+        expect(document.documentElement.getAttribute('dir'))
+            .toEqual('rtl');
+
+        jest.spyOn(getLanguageService(), 'getLocale')
+            .mockReturnValue('en');
+
+        mount(<LocaleProvider checkoutService={ checkoutService } />);
+
+        expect(document.documentElement.getAttribute('dir'))
+            .toEqual('ltr');
+    });
+
+    describe('when store has multiple currencies', () => {
+        let currencies: ShopperCurrency[];
+
+        beforeEach(() => {
+            currencies = [
+                getStoreConfig().shopperCurrency,
+                {
+                    ...getStoreConfig().shopperCurrency,
+                    code: 'EUR',
+                    exchangeRate: 0.9,
+                    isTransactional: false,
+                    symbol: '€',
+                },
+            ];
+        });
+
+        afterEach(() => {
+            localStorage.removeItem(SELECTED_CURRENCY_STORAGE_KEY);
+        });
+
+        function mountWithCurrencies() {
+            const Child: FunctionComponent<LocaleContextType & { selection?: CurrencySelectionContextType }> = jest.fn(() => null);
+            const component = mount(
+                <LocaleProvider checkoutService={ checkoutService } currencies={ currencies }>
+                    <LocaleContext.Consumer>
+                        { props => props && <CurrencySelectionContext.Consumer>
+                            { selection => <Child { ...props } selection={ selection } /> }
+                        </CurrencySelectionContext.Consumer> }
+                    </LocaleContext.Consumer>
+                </LocaleProvider>
+            );
+
+            return { Child, component };
+        }
+
+        it('selects shopper currency by default', () => {
+            const { Child, component } = mountWithCurrencies();
+            const selection = component.find(Child).prop('selection');
+
+            expect(selection && selection.selectedCurrencyCode)
+                .toEqual('USD');
+
+            expect(selection && selection.transactionalCurrencyCode)
+                .toEqual('USD');
+
+            const currency = component.find(Child).prop('currency');
+
+            expect(currency && currency.toCustomerCurrency(100))
+                .toEqual('$112.00');
+        });
+
+        it('displays prices in selected currency and persists selection', () => {
+            const { Child, component } = mountWithCurrencies();
+            const selection = component.find(Child).prop('selection');
+
+            act(() => {
+                if (selection) {
+                    selection.selectCurrency('EUR');
+                }
+            });
+
+            component.update();
+
+            const updatedSelection = component.find(Child).prop('selection');
+
+            expect(updatedSelection && updatedSelection.selectedCurrencyCode)
+                .toEqual('EUR');
+
+            const currency = component.find(Child).prop('currency');
+
+            expect(currency && currency.toCustomerCurrency(100))
+                .toEqual('€90.00');
+
+            expect(updatedSelection && updatedSelection.toTransactionalCurrency(100))
+                .toEqual('$112.00');
+
+            expect(localStorage.getItem(SELECTED_CURRENCY_STORAGE_KEY))
+                .toEqual('EUR');
+        });
+
+        it('restores persisted selection', () => {
+            localStorage.setItem(SELECTED_CURRENCY_STORAGE_KEY, 'EUR');
+
+            const { Child, component } = mountWithCurrencies();
+            const selection = component.find(Child).prop('selection');
+
+            expect(selection && selection.selectedCurrencyCode)
+                .toEqual('EUR');
+        });
+
+        it('ignores persisted selection if currency is no longer enabled', () => {
+            localStorage.setItem(SELECTED_CURRENCY_STORAGE_KEY, 'JPY');
+
+            const { Child, component } = mountWithCurrencies();
+            const selection = component.find(Child).prop('selection');
+
+            expect(selection && selection.selectedCurrencyCode)
+                .toEqual('USD');
+        });
+
+        it('does not provide currency selection if store has only one currency', () => {
+            currencies = currencies.slice(0, 1);
+
+            const { Child, component } = mountWithCurrencies();
+
+            expect(component.find(Child).prop('selection'))
+                .toBeUndefined();
+        });
+    });
 });
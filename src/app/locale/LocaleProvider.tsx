@@ -1,28 +1,44 @@
-import { createCurrencyService, CheckoutService, StoreConfig } from '@bigcommerce/checkout-sdk';
+import { createCurrencyService, CheckoutService, ShopperCurrency, StoreConfig } from '@bigcommerce/checkout-sdk';
 import { memoizeOne } from '@bigcommerce/memoize';
+import { find } from 'lodash';
 import React, { Component, ReactNode } from 'react';
 
 import getLanguageService from './getLanguageService';
+import getLocaleDirection from './getLocaleDirection';
+import { getSelectedCurrencyCode, setSelectedCurrencyCode } from './selectedCurrencyStorage';
+import CurrencySelectionContext, { CurrencySelectionContextType } from './CurrencySelectionContext';
 import LocaleContext from './LocaleContext';
 
 export interface LocaleProviderProps {
     checkoutService: CheckoutService;
+    /**
+     * The currencies enabled for the store. If there is more than one, the
+     * shopper can choose the currency the prices of their cart are displayed
+     * in. Their order is still paid in the transactional currency of the cart.
+     */
+    currencies?: ShopperCurrency[];
 }
 
 export interface LocaleProviderState {
     config?: StoreConfig;
+    selectedCurrencyCode?: string;
 }
 
-class LocaleProvider extends Component<LocaleProviderProps> {
-    state: Readonly<LocaleProviderState> = {};
+class LocaleProvider extends Component<LocaleProviderProps, LocaleProviderState> {
+    state: Readonly<LocaleProviderState> = {
+        selectedCurrencyCode: getSelectedCurrencyCode(),
+    };
 
     private languageService = getLanguageService();
     private unsubscribe?: () => void;
 
-    private getContextValue = memoizeOne((config?: StoreConfig) => {
+    private getContextValue = memoizeOne((config?: StoreConfig, displayCurrency?: ShopperCurrency) => {
 
         return {
-            currency: config ? createCurrencyService(config) : undefined,
+            currency: config ? createCurrencyService(displayCurrency ? {
+                ...config,
+                shopperCurrency: displayCurrency,
+            } : config) : undefined,
             date: config ? {
                 inputFormat: config.inputDateFormat,
             } : undefined,
@@ -30,9 +46,40 @@ class LocaleProvider extends Component<LocaleProviderProps> {
         };
     });
 
+    private getCurrencySelectionValue = memoizeOne((
+        config?: StoreConfig,
+        currencies?: ShopperCurrency[],
+        selectedCurrencyCode?: string
+    ): CurrencySelectionContextType | undefined => {
+        if (!config || !currencies || currencies.length < 2) {
+            return;
+        }
+
+        const { currency: storeCurrency, shopperCurrency } = config;
+        const currencyService = createCurrencyService(config);
+
+        return {
+            currencies,
+            selectedCurrencyCode: selectedCurrencyCode && find(currencies, { code: selectedCurrencyCode }) ?
+                selectedCurrencyCode :
+                shopperCurrency.code,
+            transactionalCurrencyCode: shopperCurrency.isTransactional ?
+                shopperCurrency.code :
+                storeCurrency.code,
+            selectCurrency: this.handleSelectCurrency,
+            toTransactionalCurrency: amount => shopperCurrency.isTransactional ?
+                currencyService.toCustomerCurrency(amount) :
+                currencyService.toStoreCurrency(amount),
+        };
+    });
+
     componentDidMount(): void {
         const { checkoutService } = this.props;
 
+        // The direction is set on the document rather than the container of
+        // the app, so modals rendered outside of the container are mirrored too.
+        document.documentElement.setAttribute('dir', getLocaleDirection(this.languageService.getLocale()));
+
         this.unsubscribe = checkoutService.subscribe(
             ({ data }) => {
                 this.setState({ config: data.getConfig() });
@@ -49,15 +96,28 @@ class LocaleProvider extends Component<LocaleProviderProps> {
     }
 
     render(): ReactNode {
-        const { children } = this.props;
-        const { config } = this.state;
+        const { children, currencies } = this.props;
+        const { config, selectedCurrencyCode } = this.state;
+        const currencySelection = this.getCurrencySelectionValue(config, currencies, selectedCurrencyCode);
+        const displayCurrency = currencySelection && config &&
+            currencySelection.selectedCurrencyCode !== config.shopperCurrency.code ?
+            find(currencySelection.currencies, { code: currencySelection.selectedCurrencyCode }) :
+            undefined;
 
         return (
-            <LocaleContext.Provider value={ this.getContextValue(config) }>
-                { children }
+            <LocaleContext.Provider value={ this.getContextValue(config, displayCurrency) }>
+                <CurrencySelectionContext.Provider value={ currencySelection }>
+                    { children }
+                </CurrencySelectionContext.Provider>
             </LocaleContext.Provider>
         );
     }
+
+    private handleSelectCurrency: (code: string) => void = code => {
+        setSelectedCurrencyCode(code);
+
+        this.setState({ selectedCurrencyCode: code });
+    };
 }
 
 export default LocaleProvider;
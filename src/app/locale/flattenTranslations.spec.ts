@@ -0,0 +1,23 @@
+import flattenTranslations from './flattenTranslations';
+
+describe('flattenTranslations()', () => {
+    it('flattens nested translations into prefixed keys', () => {
+        expect(flattenTranslations({
+            optimized_checkout: {
+                cart: { total_text: 'Total' },
+            },
+            'cart.subtotal_text': 'Subtotal',
+            shipping: { shipping_heading: 'Shipping' },
+        }))
+            .toEqual({
+                'optimized_checkout.cart.total_text': 'Total',
+                'optimized_checkout.cart.subtotal_text': 'Subtotal',
+                'optimized_checkout.shipping.shipping_heading': 'Shipping',
+            });
+    });
+
+    it('keeps prefixed keys as they are', () => {
+        expect(flattenTranslations({ 'optimized_checkout.cart.total_text': 'Total' }))
+            .toEqual({ 'optimized_checkout.cart.total_text': 'Total' });
+    });
+});
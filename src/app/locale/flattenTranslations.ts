@@ -0,0 +1,39 @@
+import { Translations } from '@bigcommerce/checkout-sdk';
+import { isPlainObject } from 'lodash';
+
+import { TRANSLATION_KEY_PREFIX } from './translations';
+
+export interface FlattenedTranslations {
+    [key: string]: string;
+}
+
+/**
+ * Flattens nested translations into keys separated by dots, i.e.:
+ * `optimized_checkout.cart.total_text`. Keys can be provided with or without
+ * the `optimized_checkout` prefix, so overrides can be written the same way
+ * the keys are referenced in the app.
+ */
+export default function flattenTranslations(translations: Translations): FlattenedTranslations {
+    const flattened = flattenObject(translations);
+
+    return Object.keys(flattened).reduce<FlattenedTranslations>((result, key) => {
+        const prefixedKey = key.indexOf(`${TRANSLATION_KEY_PREFIX}.`) === 0 ?
+            key :
+            `${TRANSLATION_KEY_PREFIX}.${key}`;
+
+        return { ...result, [prefixedKey]: flattened[key] };
+    }, {});
+}
+
+function flattenObject(translations: Translations, parentKey = ''): FlattenedTranslations {
+    return Object.keys(translations).reduce<FlattenedTranslations>((result, key) => {
+        const value = translations[key];
+        const path = parentKey ? `${parentKey}.${key}` : key;
+
+        if (isPlainObject(value)) {
+            return { ...result, ...flattenObject(value as Translations, path) };
+        }
+
+        return typeof value === 'string' ? { ...result, [path]: value } : result;
+    }, {});
+}
@@ -24,4 +24,16 @@ describe('getDefaultTranslations', () => {
             // eslint-disable-next-line import/no-internal-modules
             .toEqual(require('./translations/pt-BR.json'));
     });
+
+    it('returns Arabic translations when ar locale is specified', async () => {
+        expect(await getDefaultTranslations('ar'))
+            // eslint-disable-next-line import/no-internal-modules
+            .toEqual(require('./translations/ar.json'));
+    });
+
+    it('returns Hebrew translations when he-IL locale is specified', async () => {
+        expect(await getDefaultTranslations('he-IL'))
+            // eslint-disable-next-line import/no-internal-modules
+            .toEqual(require('./translations/he.json'));
+    });
 });
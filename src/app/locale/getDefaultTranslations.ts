@@ -3,6 +3,10 @@ import { Translations } from '@bigcommerce/checkout-sdk';
 import { FALLBACK_TRANSLATIONS } from './translations';
 
 const AVAILABLE_TRANSLATIONS: Record<string, () => Promise<{ default: unknown }>> = {
+    ar: () => import(
+        /* webpackChunkName: "translations-ar" */
+        './translations/ar.json'
+    ),
     de: () => import(
         /* webpackChunkName: "translations-de" */
         './translations/de.json'
@@ -11,6 +15,10 @@ const AVAILABLE_TRANSLATIONS: Record<string, () => Promise<{ default: unknown }>
         /* webpackChunkName: "translations-fr" */
         './translations/fr.json'
     ),
+    he: () => import(
+        /* webpackChunkName: "translations-he" */
+        './translations/he.json'
+    ),
     it: () => import(
         /* webpackChunkName: "translations-it" */
         './translations/it.json'
@@ -1,6 +1,6 @@
 import { LanguageConfig } from '@bigcommerce/checkout-sdk';
 
-import getLanguageService, { initializeLanguageService } from './getLanguageService';
+import getLanguageService, { getLanguageConfig, initializeLanguageService, overrideTranslations } from './getLanguageService';
 
 describe('getLanguageService', () => {
     let languageConfig: LanguageConfig;
@@ -58,4 +58,37 @@ describe('getLanguageService', () => {
         expect(getLanguageService().translate('greeting'))
             .toEqual('Bonjour');
     });
+
+    it('overrides default and store translations key by key', () => {
+        initializeLanguageService({
+            ...languageConfig,
+            translations: {
+                'optimized_checkout.cart.total_text': 'Store Total',
+                'optimized_checkout.cart.subtotal_text': 'Store Subtotal',
+            },
+        });
+
+        overrideTranslations({
+            greeting: 'Hi',
+            optimized_checkout: {
+                cart: { total_text: 'Grand Total' },
+            },
+        });
+
+        expect(getLanguageService().translate('greeting'))
+            .toEqual('Hi');
+        expect(getLanguageService().translate('cart.total_text'))
+            .toEqual('Grand Total');
+        expect(getLanguageService().translate('cart.subtotal_text'))
+            .toEqual('Store Subtotal');
+        expect(getLanguageService().translate('address.address_line_1_label'))
+            .toEqual('Address');
+    });
+
+    it('keeps language config of initialized language service', () => {
+        initializeLanguageService(languageConfig);
+
+        expect(getLanguageConfig())
+            .toEqual(languageConfig);
+    });
 });
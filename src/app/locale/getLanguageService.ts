@@ -1,8 +1,11 @@
-import { createLanguageService, LanguageConfig, LanguageService } from '@bigcommerce/checkout-sdk';
+import { createLanguageService, LanguageConfig, LanguageService, Translations } from '@bigcommerce/checkout-sdk';
+import { mapValues } from 'lodash';
 
+import flattenTranslations from './flattenTranslations';
 import { FALLBACK_LOCALE, FALLBACK_TRANSLATIONS } from './translations';
 
 let languageService: LanguageService | undefined;
+let languageConfig: LanguageConfig | undefined;
 
 export default function getLanguageService(): LanguageService {
     languageService = languageService ?? createLanguageService({
@@ -13,9 +16,14 @@ export default function getLanguageService(): LanguageService {
     return languageService;
 }
 
+export function getLanguageConfig(): LanguageConfig | undefined {
+    return languageConfig;
+}
+
 export type InitializeLanguageService = typeof initializeLanguageService;
 
 export function initializeLanguageService(config: LanguageConfig): LanguageService {
+    languageConfig = config;
     languageService = createLanguageService({
         ...config,
         defaultLocale: config.locale,
@@ -26,3 +34,31 @@ export function initializeLanguageService(config: LanguageConfig): LanguageServi
 
     return languageService;
 }
+
+/**
+ * Re-initializes the language service with translations that take precedence
+ * over the default translations of the locale, and over the translations
+ * provided by the store, key by key.
+ */
+export function overrideTranslations(overrides: Translations): LanguageService {
+    const {
+        defaultTranslations = {},
+        locale = FALLBACK_LOCALE,
+        locales = {},
+        translations = {},
+    }: Partial<LanguageConfig> = languageConfig ?? {};
+    const flattenedOverrides = flattenTranslations(overrides);
+
+    return initializeLanguageService({
+        defaultTranslations,
+        locale,
+        locales: {
+            ...locales,
+            ...mapValues(flattenedOverrides, () => locale),
+        },
+        translations: {
+            ...flattenTranslations(translations),
+            ...flattenedOverrides,
+        },
+    });
+}
@@ -0,0 +1,22 @@
+import getLocaleDirection from './getLocaleDirection';
+
+describe('getLocaleDirection()', () => {
+    it('returns right-to-left direction for Arabic and Hebrew locales', () => {
+        expect(getLocaleDirection('ar'))
+            .toEqual('rtl');
+
+        expect(getLocaleDirection('ar-SA'))
+            .toEqual('rtl');
+
+        expect(getLocaleDirection('he'))
+            .toEqual('rtl');
+    });
+
+    it('returns left-to-right direction for other locales', () => {
+        expect(getLocaleDirection('en'))
+            .toEqual('ltr');
+
+        expect(getLocaleDirection('fr-CA'))
+            .toEqual('ltr');
+    });
+});
@@ -0,0 +1,7 @@
+export type LocaleDirection = 'ltr' | 'rtl';
+
+const RIGHT_TO_LEFT_LANGUAGES = ['ar', 'fa', 'he', 'ur'];
+
+export default function getLocaleDirection(locale: string): LocaleDirection {
+    return RIGHT_TO_LEFT_LANGUAGES.indexOf(locale.split('-')[0].toLowerCase()) > -1 ? 'rtl' : 'ltr';
+}
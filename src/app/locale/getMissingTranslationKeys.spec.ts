@@ -0,0 +1,18 @@
+import flattenTranslations from './flattenTranslations';
+import getMissingTranslationKeys from './getMissingTranslationKeys';
+import { FALLBACK_TRANSLATIONS } from './translations';
+
+describe('getMissingTranslationKeys()', () => {
+    it('returns keys that are not translated by any translations', () => {
+        const { 'optimized_checkout.cart.total_text': _, ...translations } = flattenTranslations(FALLBACK_TRANSLATIONS);
+        const { 'optimized_checkout.cart.subtotal_text': __, ...defaultTranslations } = translations;
+
+        expect(getMissingTranslationKeys(defaultTranslations, { cart: { subtotal_text: 'Sous-total' } }))
+            .toEqual(['optimized_checkout.cart.total_text']);
+    });
+
+    it('returns no keys if all keys are translated', () => {
+        expect(getMissingTranslationKeys(FALLBACK_TRANSLATIONS))
+            .toEqual([]);
+    });
+});
@@ -0,0 +1,18 @@
+import { Translations } from '@bigcommerce/checkout-sdk';
+import { difference } from 'lodash';
+
+import flattenTranslations from './flattenTranslations';
+import { FALLBACK_TRANSLATIONS } from './translations';
+
+/**
+ * Returns the keys of the fallback (English) translations that are not
+ * translated by any of the provided translations.
+ */
+export default function getMissingTranslationKeys(...translations: Translations[]): string[] {
+    const translatedKeys = translations.reduce<string[]>((keys, value) => [
+        ...keys,
+        ...Object.keys(flattenTranslations(value)),
+    ], []);
+
+    return difference(Object.keys(flattenTranslations(FALLBACK_TRANSLATIONS)), translatedKeys);
+}
@@ -1,8 +1,12 @@
 export { default as LocaleContext, LocaleContextType } from './LocaleContext';
 export { default as createLocaleContext } from './createLocaleContext';
+export { default as CurrencySelectionContext, CurrencySelectionContextType } from './CurrencySelectionContext';
 export { default as getDefaultTranslations } from './getDefaultTranslations';
-export { default as getLanguageService, InitializeLanguageService } from './getLanguageService';
+export { default as getLanguageService, getLanguageConfig, overrideTranslations, InitializeLanguageService } from './getLanguageService';
+export { default as loadTranslations, TranslationsSource } from './loadTranslations';
+export { default as reportMissingTranslations } from './reportMissingTranslations';
 export { default as withCurrency, WithCurrencyProps } from './withCurrency';
+export { default as withCurrencySelection, WithCurrencySelectionProps } from './withCurrencySelection';
 export { default as withLanguage, WithLanguageProps } from './withLanguage';
 export { default as withDate, WithDateProps } from './withDate';
 export { default as LanguageWindow, isLanguageWindow } from './LanguageWindow';
@@ -0,0 +1,38 @@
+import { HttpClient } from '../common/http';
+
+import loadTranslations from './loadTranslations';
+
+describe('loadTranslations()', () => {
+    let httpClient: HttpClient;
+
+    beforeEach(() => {
+        httpClient = new HttpClient({ baseUrl: 'https://store.com' });
+
+        jest.spyOn(httpClient, 'get')
+            .mockResolvedValue({ cart: { total_text: 'Totalt' } });
+    });
+
+    it('returns translations if they are provided as object', async () => {
+        expect(await loadTranslations({ cart: { total_text: 'Total' } }, 'en', httpClient))
+            .toEqual({ cart: { total_text: 'Total' } });
+
+        expect(httpClient.get)
+            .not.toHaveBeenCalled();
+    });
+
+    it('fetches translations of locale if they are provided as URL', async () => {
+        expect(await loadTranslations('/translations/{locale}.json', 'nb-NO', httpClient))
+            .toEqual({ cart: { total_text: 'Totalt' } });
+
+        expect(httpClient.get)
+            .toHaveBeenCalledWith('/translations/nb-NO.json');
+    });
+
+    it('returns empty translations if response is not object', async () => {
+        jest.spyOn(httpClient, 'get')
+            .mockResolvedValue('');
+
+        expect(await loadTranslations('/translations.json', 'en', httpClient))
+            .toEqual({});
+    });
+});
@@ -0,0 +1,26 @@
+import { Translations } from '@bigcommerce/checkout-sdk';
+
+import { HttpClient } from '../common/http';
+
+/**
+ * Either the translations themselves, or the URL of a JSON file to fetch
+ * them from. The URL can contain a `{locale}` placeholder, which is replaced
+ * with the locale of the shopper, i.e.: `/translations/{locale}.json`.
+ */
+export type TranslationsSource = string | Translations;
+
+export default async function loadTranslations(
+    source: TranslationsSource,
+    locale: string,
+    httpClient: HttpClient = new HttpClient({ baseUrl: window.location.origin })
+): Promise<Translations> {
+    if (typeof source !== 'string') {
+        return source;
+    }
+
+    const translations = await httpClient.get<unknown>(source.replace('{locale}', encodeURIComponent(locale)));
+
+    return typeof translations === 'object' && translations !== null ?
+        translations as Translations :
+        {};
+}
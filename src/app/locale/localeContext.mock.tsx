@@ -1,8 +1,11 @@
-import { createCurrencyService, createLanguageService } from '@bigcommerce/checkout-sdk';
+import { createCurrencyService, createLanguageService, LanguageService } from '@bigcommerce/checkout-sdk';
 
 import { getStoreConfig } from '../config/config.mock';
 import { FALLBACK_TRANSLATIONS } from '../locale/translations';
+// eslint-disable-next-line import/no-internal-modules
+import ARABIC_TRANSLATIONS from '../locale/translations/ar.json';
 
+import { initializeLanguageService } from './getLanguageService';
 import { LocaleContextType } from './LocaleContext';
 
 export function getLocaleContext(): Required<LocaleContextType> {
@@ -17,3 +20,28 @@ export function getLocaleContext(): Required<LocaleContextType> {
         }),
     };
 }
+
+export function getRightToLeftLocaleContext(): Required<LocaleContextType> {
+    return {
+        ...getLocaleContext(),
+        language: createLanguageService({
+            defaultLocale: 'ar',
+            defaultTranslations: ARABIC_TRANSLATIONS,
+            fallbackTranslations: FALLBACK_TRANSLATIONS,
+            locale: 'ar',
+        }),
+    };
+}
+
+/**
+ * Initializes the language service provided by `LocaleProvider` in Arabic, so
+ * the provider sets the direction of the document to right-to-left.
+ */
+export function initializeRightToLeftLanguageService(): LanguageService {
+    return initializeLanguageService({
+        defaultTranslations: ARABIC_TRANSLATIONS,
+        locale: 'ar',
+        locales: {},
+        translations: {},
+    });
+}
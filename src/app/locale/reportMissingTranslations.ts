@@ -0,0 +1,27 @@
+import { LanguageConfig } from '@bigcommerce/checkout-sdk';
+
+import getMissingTranslationKeys from './getMissingTranslationKeys';
+import { FALLBACK_LOCALE } from './translations';
+
+/**
+ * Logs the keys that are not translated for the locale of the shopper, so
+ * the copy that is displayed in English instead can be spotted during
+ * development.
+ */
+export default function reportMissingTranslations(
+    config?: LanguageConfig,
+    logger: Pick<Console, 'warn'> = console
+): void {
+    if (!config || config.locale.split('-')[0] === FALLBACK_LOCALE) {
+        return;
+    }
+
+    const missingKeys = getMissingTranslationKeys(config.defaultTranslations, config.translations);
+
+    if (missingKeys.length) {
+        logger.warn(
+            `${missingKeys.length} translation(s) are missing for "${config.locale}" locale, and are displayed in English instead:`,
+            missingKeys
+        );
+    }
+}
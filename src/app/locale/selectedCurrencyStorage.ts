@@ -0,0 +1,19 @@
+export const SELECTED_CURRENCY_STORAGE_KEY = 'checkout.selectedCurrencyCode';
+
+// Storage can be disabled by the browser, in which case the selection is only
+// kept until the page is reloaded.
+export function getSelectedCurrencyCode(): string | undefined {
+    try {
+        return window.localStorage.getItem(SELECTED_CURRENCY_STORAGE_KEY) || undefined;
+    } catch (error) {
+        return;
+    }
+}
+
+export function setSelectedCurrencyCode(code: string): void {
+    try {
+        window.localStorage.setItem(SELECTED_CURRENCY_STORAGE_KEY, code);
+    } catch (error) {
+        return;
+    }
+}
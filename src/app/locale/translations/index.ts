@@ -2,4 +2,6 @@ import FALLBACK_TRANSLATIONS from './en.json';
 
 export const FALLBACK_LOCALE = 'en';
 
+export const TRANSLATION_KEY_PREFIX = 'optimized_checkout';
+
 export { FALLBACK_TRANSLATIONS };
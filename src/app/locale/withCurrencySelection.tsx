@@ -0,0 +1,11 @@
+import { createInjectHoc, InjectHoc } from '../common/hoc';
+
+import CurrencySelectionContext, { CurrencySelectionContextType } from './CurrencySelectionContext';
+
+export type WithCurrencySelectionProps = CurrencySelectionContextType;
+
+const withCurrencySelection: InjectHoc<WithCurrencySelectionProps> = createInjectHoc(CurrencySelectionContext, {
+    displayNamePrefix: 'WithCurrencySelection',
+});
+
+export default withCurrencySelection;
@@ -8,9 +8,12 @@ import { createErrorLogger } from '../common/error';
 import { getStoreConfig } from '../config/config.mock';
 import { createEmbeddedCheckoutStylesheet } from '../embeddedCheckout';
 import { CreatedCustomer, GuestSignUpForm } from '../guestSignup';
+import { createLocaleContext, LocaleContext } from '../locale';
+import { PurchaseOrderStorage, SplitTenderStorage } from '../payment';
+import { DeliverySlotStorage } from '../shipping';
 import { LoadingSpinner } from '../ui/loading';
 
-import { getOrder } from './orders.mock';
+import { getGatewayOrderPayment, getOrder } from './orders.mock';
 import OrderConfirmation, { OrderConfirmationProps } from './OrderConfirmation';
 import OrderStatus from './OrderStatus';
 import OrderSummary from './OrderSummary';
@@ -152,6 +155,142 @@ describe('OrderConfirmation', () => {
             .toBeFalsy();
     });
 
+    it('renders instructions of each payment of order separately', async () => {
+        jest.spyOn(checkoutState.statuses, 'isLoadingOrder')
+            .mockReturnValue(false);
+
+        jest.spyOn(checkoutState.data, 'getOrder')
+            .mockReturnValue({
+                ...getOrder(),
+                payments: [
+                    getGatewayOrderPayment(),
+                    {
+                        ...getGatewayOrderPayment(),
+                        providerId: 'banktransfer',
+                        detail: { step: 'FINALIZE', instructions: '<p>Bank details</p>' },
+                    },
+                ],
+            });
+
+        orderConfirmation = mount(<ComponentTest { ...defaultProps } />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(orderConfirmation.update().find('[data-test="payment-instructions"]').map(instructions => instructions.html()))
+            .toEqual([
+                '<div data-test="payment-instructions"><strong>295</strong> something</div>',
+                '<div data-test="payment-instructions"><p>Bank details</p></div>',
+            ]);
+    });
+
+    it('renders scheduled delivery slots of order', () => {
+        const deliverySlotStorage = new DeliverySlotStorage(window.localStorage);
+
+        deliverySlotStorage.setSlot(getOrder().cartId, 'consignment-1', {
+            id: '2021-03-08-09:00',
+            date: '2021-03-08',
+            startTime: '09:00',
+            endTime: '12:00',
+        });
+
+        jest.spyOn(checkoutState.statuses, 'isLoadingOrder')
+            .mockReturnValue(false);
+
+        orderConfirmation = mount(
+            <LocaleContext.Provider value={ createLocaleContext(getStoreConfig()) }>
+                <ComponentTest { ...defaultProps } deliverySlotStorage={ deliverySlotStorage } />
+            </LocaleContext.Provider>
+        );
+
+        expect(orderConfirmation.find('[data-test="order-confirmation-delivery-slots"]').text())
+            .toEqual('Mon, Mar 8, 09:00 - 12:00');
+
+        window.localStorage.clear();
+    });
+
+    it('does not render delivery slots if none are scheduled', () => {
+        window.localStorage.clear();
+
+        jest.spyOn(checkoutState.statuses, 'isLoadingOrder')
+            .mockReturnValue(false);
+
+        orderConfirmation = mount(
+            <ComponentTest
+                { ...defaultProps }
+                deliverySlotStorage={ new DeliverySlotStorage(window.localStorage) }
+            />
+        );
+
+        expect(orderConfirmation.find('[data-test="order-confirmation-delivery-slots"]').exists())
+            .toEqual(false);
+    });
+
+    it('renders purchase order details of order', () => {
+        const purchaseOrderStorage = new PurchaseOrderStorage(window.localStorage);
+
+        purchaseOrderStorage.setPurchaseOrder(getOrder().cartId, {
+            poBuyerReference: 'Coach Smith',
+            poNumber: 'PO-1234',
+        });
+
+        jest.spyOn(checkoutState.statuses, 'isLoadingOrder')
+            .mockReturnValue(false);
+
+        orderConfirmation = mount(
+            <LocaleContext.Provider value={ createLocaleContext(getStoreConfig()) }>
+                <ComponentTest { ...defaultProps } purchaseOrderStorage={ purchaseOrderStorage } />
+            </LocaleContext.Provider>
+        );
+
+        expect(orderConfirmation.find('[data-test="static-purchase-order"]').text())
+            .toEqual('PO number: PO-1234, buyer reference: Coach Smith');
+
+        window.localStorage.clear();
+    });
+
+    it('renders amount paid with second payment method in place of its gift certificate', async () => {
+        const splitTenderStorage = new SplitTenderStorage(window.localStorage);
+
+        splitTenderStorage.setPayment(getOrder().cartId, {
+            amount: 7,
+            giftCertificateCode: 'gc',
+            methodName: 'PayPal',
+        });
+
+        jest.spyOn(checkoutState.statuses, 'isLoadingOrder')
+            .mockReturnValue(false);
+
+        orderConfirmation = mount(<ComponentTest { ...defaultProps } splitTenderStorage={ splitTenderStorage } />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        act(() => { orderConfirmation.update(); });
+
+        expect(orderConfirmation.find(OrderSummary).prop('giftCertificates'))
+            .toEqual([]);
+        expect(orderConfirmation.find(OrderSummary).prop('splitTenderPayments'))
+            .toEqual([{ amount: 7, giftCertificateCode: 'gc', methodName: 'PayPal' }]);
+
+        window.localStorage.clear();
+    });
+
+    it('does not render purchase order details if order is not paid by PO', () => {
+        window.localStorage.clear();
+
+        jest.spyOn(checkoutState.statuses, 'isLoadingOrder')
+            .mockReturnValue(false);
+
+        orderConfirmation = mount(
+            <ComponentTest
+                { ...defaultProps }
+                purchaseOrderStorage={ new PurchaseOrderStorage(window.localStorage) }
+            />
+        );
+
+        expect(orderConfirmation.find('[data-test="static-purchase-order"]').exists())
+            .toEqual(false);
+    });
+
     it('renders continue shopping button', () => {
         jest.spyOn(checkoutState.statuses, 'isLoadingOrder')
             .mockReturnValue(false);
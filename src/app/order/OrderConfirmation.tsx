@@ -11,6 +11,8 @@ import { isEmbedded, EmbeddedCheckoutStylesheet } from '../embeddedCheckout';
 import { CreatedCustomer, GuestSignUpForm, PasswordSavedSuccessAlert, SignedUpSuccessAlert, SignUpFormValues } from '../guestSignup';
 import { AccountCreationFailedError, AccountCreationRequirementsError } from '../guestSignup/errors';
 import { TranslatedString } from '../locale';
+import { PurchaseOrderStorage, SplitTenderStorage, StaticPurchaseOrder } from '../payment';
+import { DeliverySlotStorage, StaticDeliverySlot } from '../shipping';
 import { Button, ButtonVariant } from '../ui/button';
 import { LazyContainer, LoadingSpinner } from '../ui/loading';
 import { MobileView } from '../ui/responsive';
@@ -41,8 +43,11 @@ export interface OrderConfirmationState {
 export interface OrderConfirmationProps {
     containerId: string;
     embeddedStylesheet: EmbeddedCheckoutStylesheet;
+    deliverySlotStorage?: DeliverySlotStorage;
     errorLogger: ErrorLogger;
     orderId: number;
+    purchaseOrderStorage?: PurchaseOrderStorage;
+    splitTenderStorage?: SplitTenderStorage;
     createAccount(values: SignUpFormValues): Promise<CreatedCustomer>;
     createEmbeddedMessenger(options: EmbeddedCheckoutMessengerOptions): EmbeddedCheckoutMessenger;
     createStepTracker(): StepTracker;
@@ -127,15 +132,20 @@ class OrderConfirmation extends Component<
                             supportPhoneNumber={ storePhoneNumber }
                         />
 
-                        { paymentInstructions && <OrderConfirmationSection>
-                            <div
+                        { paymentInstructions.length > 0 && <OrderConfirmationSection>
+                            { paymentInstructions.map((instructions, index) => <div
                                 dangerouslySetInnerHTML={ {
-                                    __html: DOMPurify.sanitize(paymentInstructions),
+                                    __html: DOMPurify.sanitize(instructions),
                                 } }
                                 data-test="payment-instructions"
-                            />
+                                key={ index }
+                            />) }
                         </OrderConfirmationSection> }
 
+                        { this.renderPurchaseOrder() }
+
+                        { this.renderDeliverySchedule() }
+
                         { this.renderGuestSignUp({
                             shouldShowPasswordForm: order.customerCanBeCreated,
                             customerCanBeCreated: !order.customerId,
@@ -158,6 +168,52 @@ class OrderConfirmation extends Component<
         );
     }
 
+    private renderPurchaseOrder(): ReactNode {
+        const { order, purchaseOrderStorage = new PurchaseOrderStorage() } = this.props;
+        const purchaseOrder = order && purchaseOrderStorage.getPurchaseOrder(order.cartId);
+
+        if (!purchaseOrder) {
+            return null;
+        }
+
+        return <OrderConfirmationSection>
+            <strong>
+                <TranslatedString id="payment.purchase_order_heading" />
+            </strong>
+
+            <StaticPurchaseOrder purchaseOrder={ purchaseOrder } />
+        </OrderConfirmationSection>;
+    }
+
+    private renderDeliverySchedule(): ReactNode {
+        const { deliverySlotStorage = new DeliverySlotStorage(), order } = this.props;
+
+        if (!order) {
+            return null;
+        }
+
+        const slots = deliverySlotStorage.getSlots(order.cartId);
+        const consignmentIds = Object.keys(slots);
+
+        if (!consignmentIds.length) {
+            return null;
+        }
+
+        return <OrderConfirmationSection>
+            <strong>
+                <TranslatedString id="shipping.delivery_slot_label" />
+            </strong>
+
+            <ul className="orderConfirmation-deliverySlots" data-test="order-confirmation-delivery-slots">
+                { consignmentIds.map(consignmentId => (
+                    <li key={ consignmentId }>
+                        <StaticDeliverySlot slot={ slots[consignmentId] } />
+                    </li>
+                )) }
+            </ul>
+        </OrderConfirmationSection>;
+    }
+
     private renderGuestSignUp({ customerCanBeCreated, shouldShowPasswordForm, shopperConfig }: {
         customerCanBeCreated: boolean;
         shouldShowPasswordForm: boolean;
@@ -186,6 +242,7 @@ class OrderConfirmation extends Component<
         const {
             order,
             config,
+            splitTenderStorage = new SplitTenderStorage(),
         } = this.props;
 
         if (!order || !config) {
@@ -197,13 +254,15 @@ class OrderConfirmation extends Component<
             shopperCurrency,
         } = config;
 
+        const subtotalsProps = mapToOrderSummarySubtotalsProps(order, splitTenderStorage.getPayment(order.cartId));
+
         return <>
             <MobileView>
                 { matched => {
                     if (matched) {
                         return <LazyContainer>
                             <OrderSummaryDrawer
-                                { ...mapToOrderSummarySubtotalsProps(order) }
+                                { ...subtotalsProps }
                                 headerLink={ <PrintLink className="modal-header-link cart-modal-link" /> }
                                 lineItems={ order.lineItems }
                                 shopperCurrency={ shopperCurrency }
@@ -217,7 +276,7 @@ class OrderConfirmation extends Component<
                         <LazyContainer>
                             <OrderSummary
                                 headerLink={ <PrintLink /> }
-                                { ...mapToOrderSummarySubtotalsProps(order) }
+                                { ...subtotalsProps }
                                 lineItems={ order.lineItems }
                                 shopperCurrency={ shopperCurrency }
                                 storeCurrency={ currency }
@@ -5,7 +5,7 @@ import ReactModal from 'react-modal';
 
 import '../../scss/App.scss';
 import { CheckoutProvider } from '../checkout';
-import { createErrorLogger, ErrorBoundary, ErrorLogger } from '../common/error';
+import { createErrorLogger, BeaconErrorLoggerServiceConfig, ErrorBoundary, ErrorLogger } from '../common/error';
 import { createEmbeddedCheckoutStylesheet } from '../embeddedCheckout';
 import { AccountService, CreatedCustomer, SignUpFormValues } from '../guestSignup';
 import { getLanguageService, LocaleProvider } from '../locale';
@@ -14,6 +14,7 @@ import OrderConfirmation from './OrderConfirmation';
 
 export interface OrderConfirmationAppProps {
     containerId: string;
+    errorBeaconConfig?: BeaconErrorLoggerServiceConfig;
     orderId: number;
     publicPath?: string;
     sentryConfig?: BrowserOptions;
@@ -32,7 +33,7 @@ class OrderConfirmationApp extends Component<OrderConfirmationAppProps> {
         super(props);
 
         this.errorLogger = createErrorLogger(
-            { sentry: props.sentryConfig },
+            { beacon: props.errorBeaconConfig, sentry: props.sentryConfig },
             {
                 errorTypes: ['UnrecoverableError'],
                 publicPath: props.publicPath,
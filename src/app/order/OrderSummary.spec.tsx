@@ -1,8 +1,10 @@
 import { Order } from '@bigcommerce/checkout-sdk';
-import { shallow, ShallowWrapper } from 'enzyme';
+import { render, shallow, ShallowWrapper } from 'enzyme';
 import React from 'react';
 
 import { getStoreConfig } from '../config/config.mock';
+import { LocaleContext } from '../locale';
+import { getRightToLeftLocaleContext } from '../locale/localeContext.mock';
 
 import mapToOrderSummarySubtotalsProps from './mapToOrderSummarySubtotalsProps';
 import { getOrder } from './orders.mock';
@@ -35,4 +37,26 @@ describe('OrderSummary', () => {
             expect(orderSummary.find('.cart-note').length).toEqual(0);
         });
     });
+
+    describe('when shopper uses right-to-left locale', () => {
+        it('matches snapshot', () => {
+            order = getOrder();
+
+            expect(render(
+                <div dir="rtl">
+                    <LocaleContext.Provider value={ getRightToLeftLocaleContext() }>
+                        <OrderSummary
+                            { ...mapToOrderSummarySubtotalsProps(order) }
+                            headerLink={ <PrintLink /> }
+                            lineItems={ order.lineItems }
+                            shopperCurrency={ getStoreConfig().shopperCurrency }
+                            storeCurrency={ getStoreConfig().currency }
+                            total={ order.orderAmount }
+                        />
+                    </LocaleContext.Provider>
+                </div>
+            ))
+                .toMatchSnapshot();
+        });
+    });
 });
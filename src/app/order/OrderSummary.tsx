@@ -15,14 +15,18 @@ export interface OrderSummaryProps {
     storeCurrency: StoreCurrency;
     shopperCurrency: ShopperCurrency;
     additionalLineItems?: ReactNode;
+    additionalContent?: ReactNode;
+    renderItemActions?(itemId: string | number): ReactNode;
 }
 
 const OrderSummary: FunctionComponent<OrderSummaryProps & OrderSummarySubtotalsProps> = ({
     storeCurrency,
     shopperCurrency,
     headerLink,
+    additionalContent,
     additionalLineItems,
     lineItems,
+    renderItemActions,
     total,
     ...orderSummarySubtotalsProps
 }) => {
@@ -36,7 +40,10 @@ const OrderSummary: FunctionComponent<OrderSummaryProps & OrderSummarySubtotalsP
         </OrderSummaryHeader>
 
         <OrderSummarySection>
-            <OrderSummaryItems items={ nonBundledLineItems } />
+            <OrderSummaryItems
+                items={ nonBundledLineItems }
+                renderItemActions={ renderItemActions }
+            />
         </OrderSummarySection>
 
         <OrderSummarySection>
@@ -53,6 +60,10 @@ const OrderSummary: FunctionComponent<OrderSummaryProps & OrderSummarySubtotalsP
                 storeCurrencyCode={ storeCurrency.code }
             />
         </OrderSummarySection>
+
+        { additionalContent && <OrderSummarySection>
+            { additionalContent }
+        </OrderSummarySection> }
     </article>;
 };
 
@@ -18,7 +18,9 @@ export interface OrderSummaryDrawerProps {
     headerLink: ReactNode;
     storeCurrency: StoreCurrency;
     shopperCurrency: ShopperCurrencyType;
+    additionalContent?: ReactNode;
     additionalLineItems?: ReactNode;
+    renderItemActions?(itemId: string | number): ReactNode;
 }
 
 const OrderSummaryDrawer: FunctionComponent<OrderSummaryDrawerProps & OrderSummarySubtotalsProps> = ({
@@ -33,16 +35,20 @@ const OrderSummaryDrawer: FunctionComponent<OrderSummaryDrawerProps & OrderSumma
     onRemovedGiftCertificate,
     shippingAmount,
     shopperCurrency,
+    splitTenderPayments,
     storeCreditAmount,
     giftWrappingAmount,
     storeCurrency,
     subtotalAmount,
     taxes,
     total,
+    additionalContent,
+    renderItemActions,
 }) => {
     const renderModal = useCallback(props => (
         <OrderSummaryModal
             { ...props }
+            additionalContent={ additionalContent }
             additionalLineItems={ additionalLineItems }
             coupons={ coupons }
             discountAmount={ discountAmount }
@@ -53,8 +59,10 @@ const OrderSummaryDrawer: FunctionComponent<OrderSummaryDrawerProps & OrderSumma
             lineItems={ lineItems }
             onRemovedCoupon={ onRemovedCoupon }
             onRemovedGiftCertificate={ onRemovedGiftCertificate }
+            renderItemActions={ renderItemActions }
             shippingAmount={ shippingAmount }
             shopperCurrency={ shopperCurrency }
+            splitTenderPayments={ splitTenderPayments }
             storeCreditAmount={ storeCreditAmount }
             storeCurrency={ storeCurrency }
             subtotalAmount={ subtotalAmount }
@@ -62,6 +70,7 @@ const OrderSummaryDrawer: FunctionComponent<OrderSummaryDrawerProps & OrderSumma
             total={ total }
         />
     ), [
+        additionalContent,
         additionalLineItems,
         coupons,
         discountAmount,
@@ -72,8 +81,10 @@ const OrderSummaryDrawer: FunctionComponent<OrderSummaryDrawerProps & OrderSumma
         onRemovedCoupon,
         onRemovedGiftCertificate,
         giftWrappingAmount,
+        renderItemActions,
         shippingAmount,
         shopperCurrency,
+        splitTenderPayments,
         storeCreditAmount,
         storeCurrency,
         subtotalAmount,
@@ -13,6 +13,7 @@ export interface OrderSummaryItemProps {
     image?: ReactNode;
     description?: ReactNode;
     productOptions?: OrderSummaryItemOption[];
+    actions?: ReactNode;
 }
 
 export interface OrderSummaryItemOption {
@@ -21,6 +22,7 @@ export interface OrderSummaryItemOption {
 }
 
 const OrderSummaryItem: FunctionComponent<OrderSummaryItemProps> = ({
+    actions,
     amount,
     amountAfterDiscount,
     image,
@@ -61,6 +63,7 @@ const OrderSummaryItem: FunctionComponent<OrderSummaryItemProps> = ({
             >
                 { description }
             </div> }
+            { actions }
         </div>
 
         <div className="product-column product-actions">
@@ -5,6 +5,7 @@ import { getCustomItem, getDigitalItem, getGiftCertificateItem, getPhysicalItem
 import { getStoreConfig } from '../config/config.mock';
 import { createLocaleContext, LocaleContext, LocaleContextType, TranslatedString } from '../locale';
 
+import OrderSummaryItem from './OrderSummaryItem';
 import OrderSummaryItems from './OrderSummaryItems';
 
 describe('OrderSummaryItems', () => {
@@ -108,4 +109,26 @@ describe('OrderSummaryItems', () => {
             });
         });
     });
+
+    describe('when actions are provided for line items', () => {
+        it('renders actions of each line item', () => {
+            const renderItemActions = jest.fn(itemId => itemId === getPhysicalItem().id ?
+                <button className="item-action" type="button" /> :
+                undefined);
+
+            const orderSummaryItems = shallow(<OrderSummaryItems
+                items={ {
+                    physicalItems: [ getPhysicalItem() ],
+                    digitalItems: [ getDigitalItem() ],
+                    giftCertificates: [],
+                } }
+                renderItemActions={ renderItemActions }
+            />);
+
+            expect(renderItemActions).toHaveBeenCalledWith(getPhysicalItem().id);
+            expect(renderItemActions).toHaveBeenCalledWith(getDigitalItem().id);
+            expect(orderSummaryItems.find(OrderSummaryItem).map(item => !!item.prop('actions')))
+                .toEqual([true, false]);
+        });
+    });
 });
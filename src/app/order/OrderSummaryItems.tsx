@@ -15,6 +15,7 @@ const COLLAPSED_ITEMS_LIMIT = 4;
 
 export interface OrderSummaryItemsProps {
     items: LineItemMap;
+    renderItemActions?(itemId: string | number): ReactNode;
 }
 
 interface OrderSummaryItemsState {
@@ -31,7 +32,7 @@ class OrderSummaryItems extends React.Component<OrderSummaryItemsProps, OrderSum
     }
 
     render(): ReactNode {
-        const { items } = this.props;
+        const { items, renderItemActions } = this.props;
         const { isExpanded } = this.state;
 
         return (<Fragment>
@@ -68,7 +69,10 @@ class OrderSummaryItems extends React.Component<OrderSummaryItemsProps, OrderSum
                                 className="productList-item is-visible"
                                 key={ summaryItemProps.id }
                             >
-                                <OrderSummaryItem { ...summaryItemProps } />
+                                <OrderSummaryItem
+                                    { ...summaryItemProps }
+                                    actions={ renderItemActions && renderItemActions(summaryItemProps.id) }
+                                />
                             </li>
                         )
                 }
@@ -12,6 +12,7 @@ import OrderSummarySubtotals, { OrderSummarySubtotalsProps } from './OrderSummar
 import OrderSummaryTotal from './OrderSummaryTotal';
 
 export interface OrderSummaryDrawerProps {
+    additionalContent?: ReactNode;
     additionalLineItems?: ReactNode;
     lineItems: LineItemMap;
     total: number;
@@ -21,9 +22,11 @@ export interface OrderSummaryDrawerProps {
     headerLink?: ReactNode;
     onRequestClose?(): void;
     onAfterOpen?(): void;
+    renderItemActions?(itemId: string | number): ReactNode;
 }
 
 const OrderSummaryModal: FunctionComponent<OrderSummaryDrawerProps & OrderSummarySubtotalsProps> = ({
+    additionalContent,
     additionalLineItems,
     children,
     onRequestClose,
@@ -33,6 +36,7 @@ const OrderSummaryModal: FunctionComponent<OrderSummaryDrawerProps & OrderSummar
     isOpen,
     headerLink,
     lineItems,
+    renderItemActions,
     total,
     ...orderSummarySubtotalsProps
 }) => (
@@ -45,7 +49,10 @@ const OrderSummaryModal: FunctionComponent<OrderSummaryDrawerProps & OrderSummar
     onRequestClose={ onRequestClose }
 >
     <OrderSummarySection>
-        <OrderSummaryItems items={ lineItems } />
+        <OrderSummaryItems
+            items={ lineItems }
+            renderItemActions={ renderItemActions }
+        />
     </OrderSummarySection>
     <OrderSummarySection>
         <OrderSummarySubtotals
@@ -60,6 +67,9 @@ const OrderSummaryModal: FunctionComponent<OrderSummaryDrawerProps & OrderSummar
             storeCurrencyCode={ storeCurrency.code }
         />
     </OrderSummarySection>
+    { additionalContent && <OrderSummarySection>
+        { additionalContent }
+    </OrderSummarySection> }
 </Modal>
 );
 
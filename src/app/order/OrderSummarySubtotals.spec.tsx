@@ -26,4 +26,13 @@ describe('OrderSummarySubtotals', () => {
     it('renders component', () => {
         expect(orderSummarySubtotals).toMatchSnapshot();
     });
+
+    it('renders payments made with second payment method of split tender order', () => {
+        orderSummarySubtotals.setProps({
+            splitTenderPayments: [{ amount: 50, giftCertificateCode: 'SPLIT-1234', methodName: 'PayPal' }],
+        });
+
+        expect(orderSummarySubtotals.find('[testId="cart-split-tender"]').prop('amount'))
+            .toEqual(50);
+    });
 });
@@ -2,6 +2,7 @@ import { Coupon, GiftCertificate, Tax } from '@bigcommerce/checkout-sdk';
 import React, { memo, Fragment, FunctionComponent } from 'react';
 
 import { TranslatedString } from '../locale';
+import { SplitTenderPayment } from '../payment';
 
 import OrderSummaryDiscount from './OrderSummaryDiscount';
 import OrderSummaryPrice from './OrderSummaryPrice';
@@ -15,6 +16,7 @@ export interface OrderSummarySubtotalsProps {
     shippingAmount?: number;
     handlingAmount?: number;
     storeCreditAmount?: number;
+    splitTenderPayments?: SplitTenderPayment[];
     subtotalAmount: number;
     onRemovedGiftCertificate?(code: string): void;
     onRemovedCoupon?(code: string): void;
@@ -29,6 +31,7 @@ const OrderSummarySubtotals: FunctionComponent<OrderSummarySubtotalsProps> = ({
     subtotalAmount,
     handlingAmount,
     storeCreditAmount,
+    splitTenderPayments,
     coupons,
     onRemovedGiftCertificate,
     onRemovedCoupon,
@@ -106,6 +109,19 @@ const OrderSummarySubtotals: FunctionComponent<OrderSummarySubtotalsProps> = ({
             label={ <TranslatedString id="cart.store_credit_text" /> }
             testId="cart-store-credit"
         /> }
+
+        { (splitTenderPayments || [])
+            .map((payment, index) =>
+                <OrderSummaryDiscount
+                    amount={ payment.amount }
+                    key={ index }
+                    label={ <TranslatedString
+                        data={ { methodName: payment.methodName } }
+                        id="payment.split_tender_paid_with_text"
+                    /> }
+                    testId="cart-split-tender"
+                />
+        ) }
     </Fragment>);
 };
 
@@ -2,7 +2,7 @@ import { mount } from 'enzyme';
 import React from 'react';
 
 import { getStoreConfig } from '../config/config.mock';
-import { createLocaleContext, LocaleContext, LocaleContextType, TranslatedString } from '../locale';
+import { createLocaleContext, CurrencySelectionContext, CurrencySelectionContextType, LocaleContext, LocaleContextType, TranslatedString } from '../locale';
 
 import OrderSummaryPrice from './OrderSummaryPrice';
 import OrderSummaryTotal from './OrderSummaryTotal';
@@ -77,4 +77,79 @@ describe('OrderSummaryTotal', () => {
                 .toEqual('Estimated Total (USD)  $112.00*');
         });
     });
+
+    describe('when shopper displays prices in currency other than transactional currency', () => {
+        let currencySelection: CurrencySelectionContextType;
+
+        beforeEach(() => {
+            currencySelection = {
+                currencies: [],
+                selectedCurrencyCode: 'EUR',
+                selectCurrency: jest.fn(),
+                toTransactionalCurrency: jest.fn(() => '$112.00'),
+                transactionalCurrencyCode: 'USD',
+            };
+
+            orderSummaryTotal = mount(
+                <LocaleContext.Provider value={ localeContext }>
+                    <CurrencySelectionContext.Provider value={ currencySelection }>
+                        <OrderSummaryTotal
+                            orderAmount={ 100 }
+                            shopperCurrencyCode="USD"
+                            storeCurrencyCode="USD"
+                        />
+                    </CurrencySelectionContext.Provider>
+                </LocaleContext.Provider>);
+        });
+
+        it('displays estimated total in selected currency', () => {
+            expect(orderSummaryTotal.find('[data-test="cart-total"]').text())
+                .toContain('Estimated Total (EUR)');
+        });
+
+        it('displays amount charged in transactional currency', () => {
+            expect(orderSummaryTotal.find('[data-test="cart-price-item-total-note"]').find(TranslatedString).props())
+                .toMatchObject({
+                    id: 'cart.billed_amount_text',
+                    data: {
+                        code: 'USD',
+                        total: '$112.00',
+                    },
+                });
+
+            expect(currencySelection.toTransactionalCurrency)
+                .toHaveBeenCalledWith(100);
+        });
+    });
+
+    describe('when shopper displays prices in transactional currency', () => {
+        beforeEach(() => {
+            orderSummaryTotal = mount(
+                <LocaleContext.Provider value={ localeContext }>
+                    <CurrencySelectionContext.Provider
+                        value={ {
+                            currencies: [],
+                            selectedCurrencyCode: 'USD',
+                            selectCurrency: jest.fn(),
+                            toTransactionalCurrency: jest.fn(),
+                            transactionalCurrencyCode: 'USD',
+                        } }
+                    >
+                        <OrderSummaryTotal
+                            orderAmount={ 100 }
+                            shopperCurrencyCode="USD"
+                            storeCurrencyCode="EUR"
+                        />
+                    </CurrencySelectionContext.Provider>
+                </LocaleContext.Provider>);
+        });
+
+        it('displays total without note', () => {
+            expect(orderSummaryTotal.find('[data-test="cart-total"]').text())
+                .toEqual('Total (USD)  $112.00');
+
+            expect(orderSummaryTotal.find('[data-test="cart-price-item-total-note"]').length)
+                .toEqual(0);
+        });
+    });
 });
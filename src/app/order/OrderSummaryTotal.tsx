@@ -1,6 +1,6 @@
-import React, { Fragment, FunctionComponent } from 'react';
+import React, { useContext, Fragment, FunctionComponent } from 'react';
 
-import { withCurrency, TranslatedString, WithCurrencyProps } from '../locale';
+import { withCurrency, CurrencySelectionContext, TranslatedString, WithCurrencyProps } from '../locale';
 
 import OrderSummaryPrice from './OrderSummaryPrice';
 
@@ -16,13 +16,29 @@ const OrderSummaryTotal: FunctionComponent<OrderSummaryTotalProps & WithCurrency
     orderAmount,
     currency,
 }) => {
+    const currencySelection = useContext(CurrencySelectionContext);
+
+    // If the shopper has chosen to display their cart in a currency other than
+    // the one they are charged in, the amount they are charged is shown as well.
+    const billedAmount = currencySelection ?
+        currencySelection.selectedCurrencyCode !== currencySelection.transactionalCurrencyCode && {
+            code: currencySelection.transactionalCurrencyCode,
+            total: currencySelection.toTransactionalCurrency(orderAmount),
+        } :
+        shopperCurrencyCode !== storeCurrencyCode && currency && {
+            code: storeCurrencyCode,
+            total: currency.toStoreCurrency(orderAmount),
+        };
+    const displayCurrencyCode = currencySelection ? currencySelection.selectedCurrencyCode : shopperCurrencyCode;
+    const hasDifferentCurrency = currencySelection ?
+        !!billedAmount :
+        shopperCurrencyCode !== storeCurrencyCode;
 
-    const hasDifferentCurrency = shopperCurrencyCode !== storeCurrencyCode;
     const label = <Fragment>
         { hasDifferentCurrency ?
             <TranslatedString id="cart.estimated_total_text" /> :
             <TranslatedString id="cart.total_text" /> }
-        { ` (${shopperCurrencyCode})` }
+        { ` (${displayCurrencyCode})` }
     </Fragment>;
 
     return (
@@ -34,15 +50,12 @@ const OrderSummaryTotal: FunctionComponent<OrderSummaryTotalProps & WithCurrency
                 superscript={ hasDifferentCurrency ? '*' : undefined }
                 testId="cart-total"
             />
-            { hasDifferentCurrency && currency && <p
+            { billedAmount && <p
                 className="cart-priceItem--totalNote"
                 data-test="cart-price-item-total-note"
             >
                 <TranslatedString
-                    data={ {
-                        total: currency.toStoreCurrency(orderAmount),
-                        code: storeCurrencyCode,
-                    } }
+                    data={ billedAmount }
                     id="cart.billed_amount_text"
                 />
             </p> }
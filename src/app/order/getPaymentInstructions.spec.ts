@@ -1,14 +1,32 @@
 import { Order } from '@bigcommerce/checkout-sdk';
 
 import getPaymentInstructions from './getPaymentInstructions';
-import { getGiftCertificateOrderPayment, getOrder } from './orders.mock';
+import { getGatewayOrderPayment, getGiftCertificateOrderPayment, getOrder } from './orders.mock';
 
 describe('getPaymentInstructions()', () => {
     describe('when order has payment with instructions', () => {
         const order = getOrder();
 
         it('returns instructions', () => {
-            expect(getPaymentInstructions(order)).toEqual('<strong>295</strong> something');
+            expect(getPaymentInstructions(order)).toEqual(['<strong>295</strong> something']);
+        });
+    });
+
+    describe('when order has more than one payment with instructions', () => {
+        const order = {
+            ...getOrder(),
+            payments: [
+                getGatewayOrderPayment(),
+                {
+                    ...getGatewayOrderPayment(),
+                    providerId: 'banktransfer',
+                    detail: { step: 'FINALIZE', instructions: '<p>Bank details</p>' },
+                },
+            ],
+        };
+
+        it('returns instructions of all payments', () => {
+            expect(getPaymentInstructions(order)).toEqual(['<strong>295</strong> something', '<p>Bank details</p>']);
         });
     });
 
@@ -20,8 +38,8 @@ describe('getPaymentInstructions()', () => {
             ],
         };
 
-        it('returns empty string', () => {
-            expect(getPaymentInstructions(order)).toEqual('');
+        it('returns empty list', () => {
+            expect(getPaymentInstructions(order)).toEqual([]);
         });
     });
 
@@ -31,8 +49,8 @@ describe('getPaymentInstructions()', () => {
             payments: [],
         };
 
-        it('returns empty string', () => {
-            expect(getPaymentInstructions(order)).toEqual('');
+        it('returns empty list', () => {
+            expect(getPaymentInstructions(order)).toEqual([]);
         });
     });
 });
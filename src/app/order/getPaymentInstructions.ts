@@ -11,11 +11,16 @@ function isDefaultOrderPayment(payment: OrderPayment): payment is GatewayOrderPa
     return !isGiftCertificatePayment(payment) && !isStoreCreditPayment(payment);
 }
 
-function getPaymentInstructions(order: Order): string {
-    const gatewayPayment = (order.payments || []).find(isDefaultOrderPayment);
-    const instructions = gatewayPayment && gatewayPayment.detail.instructions;
-
-    return instructions || '';
+/**
+ * Returns the instructions of every payment of the order made with a payment
+ * method, as an order can be paid with more than one if its total is split.
+ * They are returned separately, as each of them is a separate HTML document.
+ */
+function getPaymentInstructions(order: Order): string[] {
+    return (order.payments || [])
+        .filter(isDefaultOrderPayment)
+        .map(payment => payment.detail.instructions)
+        .filter(instructions => !!instructions);
 }
 
 export default getPaymentInstructions;
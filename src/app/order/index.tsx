@@ -1,5 +1,6 @@
 export { RenderOrderConfirmation, RenderOrderConfirmationOptions } from './renderOrderConfirmation';
 export { OrderSummaryProps } from './OrderSummary';
+export { default as OrderSummaryItem, OrderSummaryItemProps } from './OrderSummaryItem';
 export { OrderSummarySubtotalsProps } from './OrderSummarySubtotals';
 export { default as OrderStatus } from './OrderStatus';
 export { default as getPaymentInstructions } from './getPaymentInstructions';
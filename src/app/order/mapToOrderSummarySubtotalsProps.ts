@@ -1,20 +1,28 @@
 import { Order } from '@bigcommerce/checkout-sdk';
 
 import { mapFromPayments } from '../giftCertificate';
+import { SplitTenderPayment } from '../payment';
 
 import getStoreCreditAmount from './getStoreCreditAmount';
 import { OrderSummarySubtotalsProps } from './OrderSummarySubtotals';
 
-export default function mapToOrderSummarySubtotalsProps({
-    baseAmount,
-    discountAmount,
-    shippingCostBeforeDiscount,
-    payments,
-    handlingCostTotal,
-    giftWrappingCostTotal,
-    coupons,
-    taxes,
-}: Order): OrderSummarySubtotalsProps {
+export default function mapToOrderSummarySubtotalsProps(
+    {
+        baseAmount,
+        discountAmount,
+        shippingCostBeforeDiscount,
+        payments,
+        handlingCostTotal,
+        giftWrappingCostTotal,
+        coupons,
+        taxes,
+    }: Order,
+    splitTenderPayment?: SplitTenderPayment
+): OrderSummarySubtotalsProps {
+    const giftCertificates = payments && mapFromPayments(payments);
+
+    // The amount paid with the second method of a split tender order is
+    // redeemed as a gift certificate, so it is displayed as a payment instead.
     return {
         subtotalAmount: baseAmount,
         shippingAmount: shippingCostBeforeDiscount,
@@ -23,7 +31,10 @@ export default function mapToOrderSummarySubtotalsProps({
         storeCreditAmount: getStoreCreditAmount(payments),
         handlingAmount: handlingCostTotal,
         coupons,
-        giftCertificates: payments && mapFromPayments(payments),
+        giftCertificates: giftCertificates && splitTenderPayment ?
+            giftCertificates.filter(({ code }) => code !== splitTenderPayment.giftCertificateCode) :
+            giftCertificates,
+        splitTenderPayments: splitTenderPayment ? [splitTenderPayment] : undefined,
         taxes,
     };
 }
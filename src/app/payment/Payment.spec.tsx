@@ -12,11 +12,15 @@ import { getStoreConfig } from '../config/config.mock';
 import { getCustomer } from '../customer/customers.mock';
 import { createLocaleContext, LocaleContext, LocaleContextType } from '../locale';
 import { getOrder } from '../order/orders.mock';
+import { DeliverySlotStorage } from '../shipping';
 import { getConsignment } from '../shipping/consignment.mock';
 import { Button } from '../ui/button';
 
+import { SplitTenderAuthorizationError, SplitTenderRollbackError } from './errors';
 import { getPaymentMethod } from './payment-methods.mock';
 import { PaymentMethodId } from './paymentMethod';
+import { PurchaseOrderStorage } from './purchaseOrder';
+import { SplitTenderContext, SplitTenderProvider, SplitTenderStorage } from './splitTender';
 import Payment, { PaymentProps } from './Payment';
 import PaymentForm, { PaymentFormProps } from './PaymentForm';
 
@@ -569,6 +573,50 @@ describe('Payment', () => {
             });
     });
 
+    it('sends selected delivery slots as part of customer message before submitting order', async () => {
+        const deliverySlotStorage = new DeliverySlotStorage(window.localStorage);
+
+        deliverySlotStorage.setSlot(getCheckout().cart.id, getConsignment().id, {
+            id: '2021-03-02-09:00',
+            date: '2021-03-02',
+            startTime: '09:00',
+            endTime: '12:00',
+        });
+
+        jest.spyOn(checkoutState.data, 'getConsignments')
+            .mockReturnValue([getConsignment()]);
+
+        jest.spyOn(checkoutService, 'updateCheckout')
+            .mockResolvedValue(checkoutState);
+
+        jest.spyOn(checkoutService, 'submitOrder')
+            .mockResolvedValue(checkoutState);
+
+        const container = mount(<PaymentTest { ...defaultProps } deliverySlotStorage={ deliverySlotStorage } />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+        container.update();
+
+        const form: ReactWrapper<PaymentFormProps> = container.find(PaymentForm);
+
+        // tslint:disable-next-line:no-non-null-assertion
+        form.prop('onSubmit')!({
+            paymentProviderRadio: selectedPaymentMethod.id,
+        });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(checkoutService.updateCheckout)
+            .toHaveBeenCalledWith({
+                customerMessage: 'comment\n\n---\nScheduled delivery to 12345 Testing Way: 2021-03-02, 09:00 - 12:00',
+            });
+
+        expect(checkoutService.submitOrder)
+            .toHaveBeenCalled();
+
+        window.localStorage.clear();
+    });
+
     it('triggers callback when order is submitted successfully', async () => {
         jest.spyOn(checkoutService, 'submitOrder')
             .mockResolvedValue(checkoutState);
@@ -595,6 +643,237 @@ describe('Payment', () => {
             .toHaveBeenCalled();
     });
 
+    it('sends purchase order details as part of customer message before submitting order', async () => {
+        jest.spyOn(checkoutService, 'updateCheckout')
+            .mockResolvedValue(checkoutState);
+
+        jest.spyOn(checkoutService, 'submitOrder')
+            .mockResolvedValue(checkoutState);
+
+        const container = mount(<PaymentTest { ...defaultProps } />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+        container.update();
+
+        const form: ReactWrapper<PaymentFormProps> = container.find(PaymentForm);
+
+        // tslint:disable-next-line:no-non-null-assertion
+        form.prop('onSubmit')!({
+            paymentProviderRadio: PaymentMethodId.PurchaseOrder,
+            poBuyerReference: 'Coach Smith',
+            poDocument: {
+                name: 'po-1234.pdf',
+                size: 3,
+                type: 'application/pdf',
+                url: 'https://bucket.foo.com/po-1234.pdf',
+            },
+            poNumber: 'PO-1234',
+        });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(checkoutService.updateCheckout)
+            .toHaveBeenCalledWith({
+                customerMessage: 'comment\n\n---\nPO number: PO-1234, buyer reference: Coach Smith\nPO document: https://bucket.foo.com/po-1234.pdf',
+            });
+
+        expect(checkoutService.submitOrder)
+            .toHaveBeenCalledWith({
+                payment: {
+                    gatewayId: undefined,
+                    methodId: PaymentMethodId.PurchaseOrder,
+                },
+            });
+
+        expect((checkoutService.updateCheckout as jest.Mock).mock.invocationCallOrder[0])
+            .toBeLessThan((checkoutService.submitOrder as jest.Mock).mock.invocationCallOrder[0]);
+    });
+
+    it('stores purchase order details when order is submitted successfully', async () => {
+        const purchaseOrderStorage = new PurchaseOrderStorage(window.localStorage);
+
+        jest.spyOn(purchaseOrderStorage, 'setPurchaseOrder');
+
+        jest.spyOn(checkoutService, 'updateCheckout')
+            .mockResolvedValue(checkoutState);
+
+        jest.spyOn(checkoutService, 'submitOrder')
+            .mockResolvedValue(checkoutState);
+
+        const container = mount(<PaymentTest { ...defaultProps } purchaseOrderStorage={ purchaseOrderStorage } />);
+
+        await new Promise(resolve => process.nextTick(resolve));
+        container.update();
+
+        const form: ReactWrapper<PaymentFormProps> = container.find(PaymentForm);
+        const values = {
+            paymentProviderRadio: PaymentMethodId.PurchaseOrder,
+            poBuyerReference: 'Coach Smith',
+            poNumber: 'PO-1234',
+        };
+
+        // tslint:disable-next-line:no-non-null-assertion
+        form.prop('onSubmit')!(values);
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(purchaseOrderStorage.setPurchaseOrder)
+            .toHaveBeenCalledWith(getCheckout().cart.id, values);
+    });
+
+    describe('when order total is split between two payment methods', () => {
+        const authorization = {
+            amount: 50,
+            giftCertificateCode: 'SPLIT-1234',
+            id: 'auth-1',
+        };
+        let splitTenderProvider: SplitTenderProvider;
+        let splitTenderStorage: SplitTenderStorage;
+        let SplitTenderPaymentTest: FunctionComponent<PaymentProps>;
+
+        const submitForm = async (container: ReactWrapper, amount = '50') => {
+            await new Promise(resolve => process.nextTick(resolve));
+            container.update();
+
+            const form: ReactWrapper<PaymentFormProps> = container.find(PaymentForm);
+
+            // tslint:disable-next-line:no-non-null-assertion
+            form.prop('onSubmit')!({
+                ccCvv: '123',
+                ccExpiry: '10 / 25',
+                ccName: 'test',
+                ccNumber: '4111 1111 1111 1111',
+                paymentProviderRadio: selectedPaymentMethod.id,
+                splitTender: { amount, isEnabled: true, methodId: 'sagepay' },
+            });
+
+            await new Promise(resolve => process.nextTick(resolve));
+            container.update();
+        };
+
+        beforeEach(() => {
+            splitTenderProvider = {
+                authorize: jest.fn(() => Promise.resolve(authorization)),
+                isSupported: jest.fn(method => method.id === 'sagepay'),
+                release: jest.fn(() => Promise.resolve()),
+            };
+            splitTenderStorage = new SplitTenderStorage(window.localStorage);
+
+            jest.spyOn(splitTenderStorage, 'setPayment');
+
+            jest.spyOn(checkoutService, 'applyGiftCertificate')
+                .mockResolvedValue(checkoutState);
+
+            jest.spyOn(checkoutService, 'removeGiftCertificate')
+                .mockResolvedValue(checkoutState);
+
+            SplitTenderPaymentTest = props => (
+                <SplitTenderContext.Provider value={ { splitTenderProvider } }>
+                    <PaymentTest { ...props } />
+                </SplitTenderContext.Provider>
+            );
+        });
+
+        it('passes payment methods supported by split tender provider to payment form', async () => {
+            const container = mount(<SplitTenderPaymentTest { ...defaultProps } />);
+
+            await new Promise(resolve => process.nextTick(resolve));
+            container.update();
+
+            expect(container.find(PaymentForm).prop('splitTenderMethods'))
+                .toEqual([paymentMethods[1]]);
+        });
+
+        it('authorizes second payment method before submitting order', async () => {
+            jest.spyOn(checkoutService, 'submitOrder')
+                .mockResolvedValue(checkoutState);
+
+            const container = mount(<SplitTenderPaymentTest { ...defaultProps } splitTenderStorage={ splitTenderStorage } />);
+
+            await submitForm(container);
+
+            expect(splitTenderProvider.authorize)
+                .toHaveBeenCalledWith({
+                    amount: 50,
+                    checkoutId: getCheckout().id,
+                    currencyCode: getCart().currency.code,
+                    method: paymentMethods[1],
+                });
+
+            expect(checkoutService.applyGiftCertificate)
+                .toHaveBeenCalledWith(authorization.giftCertificateCode);
+
+            expect(checkoutService.submitOrder)
+                .toHaveBeenCalledWith(expect.not.objectContaining({ splitTender: expect.anything() }));
+
+            expect(splitTenderStorage.setPayment)
+                .toHaveBeenCalledWith(getCheckout().cart.id, {
+                    amount: 50,
+                    giftCertificateCode: authorization.giftCertificateCode,
+                    methodName: 'Authorizenet',
+                });
+
+            expect(defaultProps.onSubmit)
+                .toHaveBeenCalled();
+        });
+
+        it('rounds amount to decimal places of currency before authorizing it', async () => {
+            jest.spyOn(checkoutService, 'submitOrder')
+                .mockResolvedValue(checkoutState);
+
+            const container = mount(<SplitTenderPaymentTest { ...defaultProps } splitTenderStorage={ splitTenderStorage } />);
+
+            await submitForm(container, '10.005');
+
+            expect(splitTenderProvider.authorize)
+                .toHaveBeenCalledWith(expect.objectContaining({ amount: 10.01 }));
+        });
+
+        it('releases authorization and renders error if order fails to submit', async () => {
+            jest.spyOn(checkoutService, 'submitOrder')
+                .mockRejectedValue(new Error('Unable to submit order'));
+
+            const container = mount(<SplitTenderPaymentTest { ...defaultProps } splitTenderStorage={ splitTenderStorage } />);
+
+            await submitForm(container);
+
+            expect(checkoutService.removeGiftCertificate)
+                .toHaveBeenCalledWith(authorization.giftCertificateCode);
+
+            expect(splitTenderProvider.release)
+                .toHaveBeenCalledWith(authorization);
+
+            expect(splitTenderStorage.setPayment)
+                .not.toHaveBeenCalled();
+
+            expect(defaultProps.onSubmitError)
+                .toHaveBeenCalledWith(expect.any(SplitTenderRollbackError));
+
+            expect(container.find(ErrorModal).prop('error'))
+                .toBeInstanceOf(SplitTenderRollbackError);
+        });
+
+        it('does not submit order if second payment method cannot be authorized', async () => {
+            jest.spyOn(checkoutService, 'submitOrder')
+                .mockResolvedValue(checkoutState);
+
+            splitTenderProvider.authorize = jest.fn(() => Promise.reject(new Error('Declined')));
+
+            const container = mount(<SplitTenderPaymentTest { ...defaultProps } />);
+
+            await submitForm(container);
+
+            expect(checkoutService.submitOrder)
+                .not.toHaveBeenCalled();
+
+            expect(splitTenderProvider.release)
+                .not.toHaveBeenCalled();
+
+            expect(defaultProps.onSubmitError)
+                .toHaveBeenCalledWith(expect.any(SplitTenderAuthorizationError));
+        });
+    });
+
     it('triggers error callback when order fails to submit', async () => {
         jest.spyOn(checkoutService, 'submitOrder')
             .mockRejectedValue(checkoutState);
@@ -1,25 +1,33 @@
-import { CartChangedError, CheckoutSelectors, CheckoutSettings, OrderRequestBody, PaymentMethod } from '@bigcommerce/checkout-sdk';
+import { CartChangedError, CheckoutRequestBody, CheckoutSelectors, CheckoutSettings, Consignment, OrderRequestBody, PaymentMethod } from '@bigcommerce/checkout-sdk';
 import { memoizeOne } from '@bigcommerce/memoize';
-import { compact, find, isEmpty, noop } from 'lodash';
+import { compact, find, isEmpty, noop, round } from 'lodash';
 import React, { Component, ReactNode } from 'react';
 import { ObjectSchema } from 'yup';
 
+import { withAnalytics, AnalyticsEventType, WithAnalyticsProps } from '../analytics';
 import { withCheckout, CheckoutContextProps } from '../checkout';
 import { isCartChangedError, isRequestError, ErrorModal, ErrorModalOnCloseProps } from '../common/error';
 import { EMPTY_ARRAY } from '../common/utility';
 import { withLanguage, WithLanguageProps } from '../locale';
+import { appendDeliverySchedule, DeliverySlotStorage } from '../shipping';
 import { TermsConditionsType } from '../termsConditions';
 import { LoadingOverlay } from '../ui/loading';
 
+import { SplitTenderAuthorizationError, SplitTenderReleaseError, SplitTenderRollbackError } from './errors';
 import mapSubmitOrderErrorMessage, { mapSubmitOrderErrorTitle } from './mapSubmitOrderErrorMessage';
 import mapToOrderRequestBody from './mapToOrderRequestBody';
-import { getUniquePaymentMethodId, PaymentMethodId, PaymentMethodProviderType } from './paymentMethod';
+import { getPaymentMethodName, getUniquePaymentMethodId, PaymentMethodId, PaymentMethodProviderType } from './paymentMethod';
+import { appendPurchaseOrder, isPurchaseOrderFieldsetValues, PurchaseOrderStorage } from './purchaseOrder';
+import { isSplitTenderEnabled, withSplitTender, SplitTenderAuthorization, SplitTenderStorage, WithSplitTenderProps } from './splitTender';
 import PaymentContext from './PaymentContext';
 import PaymentForm, { PaymentFormValues } from './PaymentForm';
 
 export interface PaymentProps {
+    deliverySlotStorage?: DeliverySlotStorage;
     isEmbedded?: boolean;
     isUsingMultiShipping?: boolean;
+    purchaseOrderStorage?: PurchaseOrderStorage;
+    splitTenderStorage?: SplitTenderStorage;
     checkEmbeddedSupport?(methodIds: string[]): void; // TODO: We're currently doing this check in multiple places, perhaps we should move it up so this check get be done in a single place instead.
     onCartChangedError?(error: CartChangedError): void;
     onFinalize?(): void;
@@ -32,9 +40,16 @@ export interface PaymentProps {
 
 interface WithCheckoutPaymentProps {
     availableStoreCredit: number;
+    cartId: string;
     cartUrl: string;
+    checkoutId: string;
+    consignments: Consignment[];
+    currencyCode: string;
+    currencyDecimalPlaces: number;
+    customerMessage: string;
     defaultMethod?: PaymentMethod;
     finalizeOrderError?: Error;
+    grandTotal: number;
     isInitializingPayment: boolean;
     isSubmittingOrder: boolean;
     isStoreCreditApplied: boolean;
@@ -46,13 +61,16 @@ interface WithCheckoutPaymentProps {
     termsConditionsText?: string;
     termsConditionsUrl?: string;
     usableStoreCredit: number;
+    applyGiftCertificate(code: string): Promise<CheckoutSelectors>;
     applyStoreCredit(useStoreCredit: boolean): Promise<CheckoutSelectors>;
     clearError(error: Error): void;
     finalizeOrderIfNeeded(): Promise<CheckoutSelectors>;
     isPaymentDataRequired(): boolean;
     loadCheckout(): Promise<CheckoutSelectors>;
     loadPaymentMethods(): Promise<CheckoutSelectors>;
+    removeGiftCertificate(code: string): Promise<CheckoutSelectors>;
     submitOrder(values: OrderRequestBody): Promise<CheckoutSelectors>;
+    updateCheckout(payload: CheckoutRequestBody): Promise<CheckoutSelectors>;
 }
 
 interface PaymentState {
@@ -61,11 +79,19 @@ interface PaymentState {
     selectedMethod?: PaymentMethod;
     shouldDisableSubmit: { [key: string]: boolean };
     shouldHidePaymentSubmitButton: { [key: string]: boolean };
+    splitTenderError?: Error;
     submitFunctions: { [key: string]: ((values: PaymentFormValues) => void) | null };
     validationSchemas: { [key: string]: ObjectSchema<Partial<PaymentFormValues>> | null };
 }
 
-class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLanguageProps, PaymentState> {
+class Payment extends Component<
+    PaymentProps &
+        WithCheckoutPaymentProps &
+        WithLanguageProps &
+        WithAnalyticsProps &
+        WithSplitTenderProps,
+    PaymentState
+> {
     state: PaymentState = {
         didExceedSpamLimit: false,
         isReady: false,
@@ -84,6 +110,17 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
         };
     });
 
+    private getSplitTenderMethods = memoizeOne((
+        methods: PaymentMethod[],
+        splitTenderProvider: WithSplitTenderProps['splitTenderProvider']
+    ) => {
+        if (!splitTenderProvider) {
+            return EMPTY_ARRAY;
+        }
+
+        return methods.filter(method => splitTenderProvider.isSupported(method));
+    });
+
     async componentDidMount(): Promise<void> {
         const {
             finalizeOrderIfNeeded,
@@ -135,6 +172,7 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
             isUsingMultiShipping,
             methods,
             applyStoreCredit,
+            splitTenderProvider,
             ...rest
         } = this.props;
 
@@ -143,6 +181,7 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
             isReady,
             selectedMethod = defaultMethod,
             shouldDisableSubmit,
+            submitFunctions,
             validationSchemas,
             shouldHidePaymentSubmitButton,
         } = this.state;
@@ -172,6 +211,9 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
                         selectedMethod={ selectedMethod }
                         shouldDisableSubmit={ uniqueSelectedMethodId && shouldDisableSubmit[uniqueSelectedMethodId] || undefined }
                         shouldHidePaymentSubmitButton={ uniqueSelectedMethodId && shouldHidePaymentSubmitButton[uniqueSelectedMethodId] || undefined }
+                        splitTenderMethods={ uniqueSelectedMethodId && submitFunctions[uniqueSelectedMethodId] ?
+                            EMPTY_ARRAY :
+                            this.getSplitTenderMethods(methods, splitTenderProvider) }
                         validationSchema={ uniqueSelectedMethodId && validationSchemas[uniqueSelectedMethodId] || undefined }
                     /> }
                 </LoadingOverlay>
@@ -190,6 +232,17 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
             submitOrderError,
         } = this.props;
 
+        const { splitTenderError } = this.state;
+
+        if (splitTenderError) {
+            return (
+                <ErrorModal
+                    error={ splitTenderError }
+                    onClose={ this.handleCloseModal }
+                />
+            );
+        }
+
         // FIXME: Export correct TS interface
         const error: any = submitOrderError || finalizeOrderError;
 
@@ -317,7 +370,20 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
             return;
         }
 
-        const { cartUrl, clearError, loadCheckout } = this.props;
+        const { cartUrl, clearError, loadCheckout, submitOrderError } = this.props;
+        const { splitTenderError } = this.state;
+
+        // The error the order failed to submit with is included in the split
+        // tender error, so it does not have to be displayed again.
+        if (error === splitTenderError) {
+            this.setState({ splitTenderError: undefined });
+
+            if (submitOrderError) {
+                clearError(submitOrderError);
+            }
+
+            return;
+        }
         const { type: errorType } = error as any; // FIXME: Export correct TS interface
 
         if (errorType === 'provider_fatal_error' ||
@@ -362,13 +428,17 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
 
     private handleSubmit: (values: PaymentFormValues) => void = async values => {
         const {
+            cartId,
+            customerMessage,
             defaultMethod,
             loadPaymentMethods,
             isPaymentDataRequired,
             onCartChangedError = noop,
             onSubmit = noop,
             onSubmitError = noop,
+            purchaseOrderStorage = new PurchaseOrderStorage(),
             submitOrder,
+            updateCheckout,
         } = this.props;
 
         const {
@@ -380,14 +450,41 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
             getUniquePaymentMethodId(selectedMethod.id, selectedMethod.gateway)
         ];
 
+        const message = this.getCustomerMessage(values);
+
+        if (message !== customerMessage) {
+            try {
+                await updateCheckout({ customerMessage: message });
+            } catch (error) {
+                return onSubmitError(error);
+            }
+        }
+
         if (customSubmit) {
             return customSubmit(values);
         }
 
         try {
-            await submitOrder(mapToOrderRequestBody(values, isPaymentDataRequired()));
+            if (isPaymentDataRequired() && isSplitTenderEnabled(values)) {
+                await this.submitSplitTenderOrder(values);
+            } else {
+                await submitOrder(mapToOrderRequestBody(values, isPaymentDataRequired()));
+            }
+
+            if (isPurchaseOrderFieldsetValues(values)) {
+                purchaseOrderStorage.setPurchaseOrder(cartId, values);
+            }
+
             onSubmit();
         } catch (error) {
+            if (error instanceof SplitTenderAuthorizationError ||
+                error instanceof SplitTenderReleaseError ||
+                error instanceof SplitTenderRollbackError) {
+                this.setState({ splitTenderError: error });
+
+                return onSubmitError(error);
+            }
+
             if (error.type === 'payment_method_invalid') {
                 return loadPaymentMethods();
             }
@@ -400,7 +497,121 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
         }
     };
 
+    /**
+     * The delivery slots selected in the shipping step, and the purchase order
+     * details if the order is paid by PO, are sent with the order as part of
+     * its customer message. They are appended right before the order is
+     * submitted, so the message can no longer be changed by the shopper.
+     */
+    private getCustomerMessage(values: PaymentFormValues): string {
+        const {
+            cartId,
+            consignments,
+            customerMessage,
+            deliverySlotStorage = new DeliverySlotStorage(),
+            language,
+        } = this.props;
+
+        const message = appendDeliverySchedule(
+            customerMessage,
+            consignments,
+            deliverySlotStorage.getSlots(cartId),
+            language
+        );
+
+        return isPurchaseOrderFieldsetValues(values) ?
+            appendPurchaseOrder(message, values, language) :
+            message;
+    }
+
+    /**
+     * Authorizes the amount allocated to the second payment method first, and
+     * applies it to the checkout as a gift certificate, so the order is then
+     * submitted with the payment method selected in the form for the
+     * remainder. The authorization is voided if the order cannot be placed.
+     */
+    private async submitSplitTenderOrder(values: PaymentFormValues): Promise<void> {
+        const {
+            applyGiftCertificate,
+            cartId,
+            checkoutId,
+            currencyCode,
+            currencyDecimalPlaces,
+            language,
+            methods,
+            splitTenderProvider,
+            splitTenderStorage = new SplitTenderStorage(),
+            submitOrder,
+        } = this.props;
+
+        const { amount = '', methodId = '' } = values.splitTender || {};
+        const method = find(methods, ({ id, gateway }) => getUniquePaymentMethodId(id, gateway) === methodId);
+
+        if (!splitTenderProvider || !method) {
+            throw new SplitTenderAuthorizationError(methodId);
+        }
+
+        const methodName = getPaymentMethodName(language)(method);
+        let authorization: SplitTenderAuthorization | undefined;
+
+        try {
+            // The amount is only charged to the decimal places of the currency
+            authorization = await splitTenderProvider.authorize({
+                amount: round(Number(amount), currencyDecimalPlaces),
+                checkoutId,
+                currencyCode,
+                method,
+            });
+
+            await applyGiftCertificate(authorization.giftCertificateCode);
+        } catch (error) {
+            if (authorization) {
+                await this.releaseSplitTender(authorization, methodName, error);
+            }
+
+            throw new SplitTenderAuthorizationError(methodName, error);
+        }
+
+        try {
+            await submitOrder(mapToOrderRequestBody(values, true));
+        } catch (error) {
+            await this.releaseSplitTender(authorization, methodName, error);
+
+            throw new SplitTenderRollbackError(methodName, error);
+        }
+
+        splitTenderStorage.setPayment(cartId, {
+            amount: authorization.amount,
+            giftCertificateCode: authorization.giftCertificateCode,
+            methodName,
+        });
+    }
+
+    private async releaseSplitTender(
+        authorization: SplitTenderAuthorization,
+        methodName: string,
+        error: Error
+    ): Promise<void> {
+        const { removeGiftCertificate, splitTenderProvider } = this.props;
+
+        try {
+            await removeGiftCertificate(authorization.giftCertificateCode);
+        } catch (removeError) {
+            // The gift certificate may have not been applied, in which case
+            // there is nothing to remove before voiding the authorization.
+        }
+
+        try {
+            if (splitTenderProvider) {
+                await splitTenderProvider.release(authorization);
+            }
+        } catch (releaseError) {
+            throw new SplitTenderReleaseError(methodName, error);
+        }
+    }
+
     private setSelectedMethod: (method?: PaymentMethod) => void = method => {
+        const { analytics } = this.props;
         const { selectedMethod } = this.state;
 
         if (selectedMethod === method) {
@@ -408,6 +619,14 @@ class Payment extends Component<PaymentProps & WithCheckoutPaymentProps & WithLa
         }
 
         this.setState({ selectedMethod: method });
+
+        if (method) {
+            analytics.emit({
+                type: AnalyticsEventType.PaymentMethodSelected,
+                gatewayId: method.gateway,
+                methodId: method.id,
+            });
+        }
     };
 
     private setSubmit: (
@@ -529,13 +748,21 @@ export function mapToPaymentProps({
     }
 
     return {
+        applyGiftCertificate: checkoutService.applyGiftCertificate,
         applyStoreCredit: checkoutService.applyStoreCredit,
         availableStoreCredit: customer.storeCredit,
+        cartId: checkout.cart.id,
         cartUrl: config.links.cartLink,
+        checkoutId: checkout.id,
+        consignments: consignments || EMPTY_ARRAY,
+        currencyCode: checkout.cart.currency.code,
+        currencyDecimalPlaces: checkout.cart.currency.decimalPlaces,
+        customerMessage: checkout.customerMessage,
         clearError: checkoutService.clearError,
         defaultMethod: selectedPaymentMethod ? selectedPaymentMethod : filteredMethods[0],
         finalizeOrderError: getFinalizeOrderError(),
         finalizeOrderIfNeeded: checkoutService.finalizeOrderIfNeeded,
+        grandTotal: checkout.grandTotal,
         loadCheckout: checkoutService.loadCheckout,
         isInitializingPayment: isInitializingPayment(),
         isPaymentDataRequired,
@@ -544,6 +771,8 @@ export function mapToPaymentProps({
         isTermsConditionsRequired,
         loadPaymentMethods: checkoutService.loadPaymentMethods,
         methods: filteredMethods,
+        removeGiftCertificate: checkoutService.removeGiftCertificate,
+        updateCheckout: checkoutService.updateCheckout,
         shouldExecuteSpamCheck: checkout.shouldExecuteSpamCheck,
         shouldLocaliseErrorMessages: features['PAYMENTS-6799.localise_checkout_payment_error_messages'],
         submitOrder: checkoutService.submitOrder,
@@ -559,4 +788,4 @@ export function mapToPaymentProps({
     };
 }
 
-export default withLanguage(withCheckout(mapToPaymentProps)(Payment));
+export default withAnalytics(withLanguage(withSplitTender(withCheckout(mapToPaymentProps)(Payment))));
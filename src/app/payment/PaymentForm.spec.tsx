@@ -3,6 +3,7 @@ import { mount, ReactWrapper } from 'enzyme';
 import React, { FunctionComponent } from 'react';
 import { act } from 'react-dom/test-utils';
 
+import { AnalyticsContext, AnalyticsEventBus, AnalyticsEventType } from '../analytics';
 import { getCart } from '../cart/carts.mock';
 import { CheckoutProvider } from '../checkout';
 import { getStoreConfig } from '../config/config.mock';
@@ -267,6 +268,41 @@ describe('PaymentForm', () => {
             .not.toHaveBeenCalled();
     });
 
+    it('emits validation error event with invalid fields if validation fails', async () => {
+        const analytics = new AnalyticsEventBus();
+
+        jest.spyOn(analytics, 'emit');
+
+        const container = mount(
+            <AnalyticsContext.Provider value={ { analytics } }>
+                <PaymentFormTest
+                    { ...defaultProps }
+                    validationSchema={ getCreditCardValidationSchema({
+                        isCardCodeRequired: true,
+                        language: localeContext.language,
+                    }) }
+                />
+            </AnalyticsContext.Provider>
+        );
+
+        container.find('input[name="ccNumber"]')
+            .simulate('change', { target: { value: '4111', name: 'ccNumber' } });
+        container.find('form')
+            .simulate('submit');
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        container.update();
+        jest.runAllTimers();
+
+        expect(analytics.emit)
+            .toHaveBeenCalledWith({
+                type: AnalyticsEventType.ValidationError,
+                fields: expect.arrayContaining(['ccNumber']),
+                form: 'payment-form',
+            });
+    });
+
     it('resets form validation message when switching to new payment method', async () => {
         const container = mount(<PaymentFormTest
             { ...defaultProps }
@@ -4,6 +4,8 @@ import { isNil, noop, omitBy } from 'lodash';
 import React, { memo, useCallback, useContext, useMemo, FunctionComponent } from 'react';
 import { ObjectSchema } from 'yup';
 
+import { AnalyticsContext, AnalyticsEventType } from '../analytics';
+import { EMPTY_ARRAY } from '../common/utility';
 import { withLanguage, WithLanguageProps } from '../locale';
 import { TermsConditions } from '../termsConditions';
 import { Fieldset, Form, FormContext } from '../ui/form';
@@ -13,6 +15,8 @@ import { CreditCardFieldsetValues } from './creditCard';
 import getPaymentValidationSchema from './getPaymentValidationSchema';
 import { HostedCreditCardFieldsetValues } from './hostedCreditCard';
 import { getPaymentMethodName, getUniquePaymentMethodId, PaymentMethodId, PaymentMethodList } from './paymentMethod';
+import { PurchaseOrderFieldsetValues } from './purchaseOrder';
+import { isSplitTenderEnabled, SplitTenderFieldset, SplitTenderFieldsetValues } from './splitTender';
 import { CardInstrumentFieldsetValues } from './storedInstrument';
 import { StoreCreditField, StoreCreditOverlay } from './storeCredit';
 import PaymentRedeemables from './PaymentRedeemables';
@@ -21,9 +25,11 @@ import SpamProtectionField from './SpamProtectionField';
 
 export interface PaymentFormProps {
     availableStoreCredit?: number;
+    currencyDecimalPlaces?: number;
     defaultGatewayId?: string;
     defaultMethodId: string;
     didExceedSpamLimit?: boolean;
+    grandTotal?: number;
     isEmbedded?: boolean;
     isInitializingPayment?: boolean;
     isTermsConditionsRequired?: boolean;
@@ -35,6 +41,11 @@ export interface PaymentFormProps {
     shouldDisableSubmit?: boolean;
     shouldHidePaymentSubmitButton?: boolean;
     shouldExecuteSpamCheck?: boolean;
+    /**
+     * The payment methods the order total can be split with. The shopper can
+     * only split the total if there is at least one.
+     */
+    splitTenderMethods?: PaymentMethod[];
     termsConditionsText?: string;
     termsConditionsUrl?: string;
     usableStoreCredit?: number;
@@ -55,11 +66,13 @@ export type PaymentFormValues = (
     SepaCustomFormFieldsetValues & PaymentFormCommonValues |
     FawryCustomFormFieldsetValues & PaymentFormCommonValues |
     IdealCustomFormFieldsetValues & PaymentFormCommonValues |
+    PurchaseOrderFieldsetValues & PaymentFormCommonValues |
     PaymentFormCommonValues
 );
 
 export interface PaymentFormCommonValues {
     paymentProviderRadio: string; // TODO: Give this property a better name. We need to keep it for now because of legacy reasons.
+    splitTender?: SplitTenderFieldsetValues;
     terms?: boolean;
 }
 
@@ -70,6 +83,7 @@ export interface HostedWidgetPaymentMethodValues {
 const PaymentForm: FunctionComponent<PaymentFormProps & FormikProps<PaymentFormValues> & WithLanguageProps> = ({
     availableStoreCredit = 0,
     didExceedSpamLimit,
+    grandTotal = 0,
     isEmbedded,
     isInitializingPayment,
     isPaymentDataRequired,
@@ -86,11 +100,18 @@ const PaymentForm: FunctionComponent<PaymentFormProps & FormikProps<PaymentFormV
     shouldDisableSubmit,
     shouldHidePaymentSubmitButton,
     shouldExecuteSpamCheck,
+    splitTenderMethods = EMPTY_ARRAY,
     termsConditionsText = '',
     termsConditionsUrl,
     usableStoreCredit = 0,
     values,
 }) => {
+    const { analytics } = useContext(AnalyticsContext);
+
+    const handleValidationError = useCallback((fields: string[]) => {
+        analytics.emit({ type: AnalyticsEventType.ValidationError, fields, form: 'payment-form' });
+    }, [analytics]);
+
     const selectedMethodId = useMemo(() => {
         if (!selectedMethod) {
             return;
@@ -119,6 +140,7 @@ const PaymentForm: FunctionComponent<PaymentFormProps & FormikProps<PaymentFormV
     return (
         <Form
             className="checkout-form"
+            onValidationError={ handleValidationError }
             testId="payment-form"
         >
             { usableStoreCredit > 0 && <StoreCreditField
@@ -141,6 +163,13 @@ const PaymentForm: FunctionComponent<PaymentFormProps & FormikProps<PaymentFormV
                 values={ values }
             />
 
+            { isPaymentDataRequired() && splitTenderMethods.length > 0 && <SplitTenderFieldset
+                grandTotal={ grandTotal }
+                methods={ splitTenderMethods }
+                selectedMethod={ selectedMethod }
+                values={ values.splitTender }
+            /> }
+
             <PaymentRedeemables />
 
             { isTermsConditionsRequired && <TermsConditions
@@ -194,8 +223,8 @@ const PaymentMethodListFieldset: FunctionComponent<PaymentMethodListFieldsetProp
     const { setSubmitted } = useContext(FormContext);
 
     const commonValues = useMemo(
-        () => ({ terms: values.terms }),
-        [values.terms]
+        () => ({ splitTender: values.splitTender, terms: values.terms }),
+        [values.splitTender, values.terms]
     );
 
     const handlePaymentMethodSelect = useCallback((method: PaymentMethod) => {
@@ -211,6 +240,8 @@ const PaymentMethodListFieldset: FunctionComponent<PaymentMethodListFieldsetProp
             ccNumber: '',
             instrumentId: '',
             paymentProviderRadio: getUniquePaymentMethodId(method.id, method.gateway),
+            poBuyerReference: '',
+            poNumber: '',
             shouldSaveInstrument: false,
         });
 
@@ -254,8 +285,15 @@ const paymentFormConfig: WithFormikConfig<PaymentFormProps & WithLanguageProps,
         ccName: '',
         ccNumber: '',
         paymentProviderRadio: getUniquePaymentMethodId(defaultMethodId, defaultGatewayId),
+        poBuyerReference: '',
+        poNumber: '',
         instrumentId: '',
         shouldSaveInstrument: false,
+        splitTender: {
+            amount: '',
+            isEnabled: false,
+            methodId: '',
+        },
         terms: false,
         hostedForm: {
             cardType: '',
@@ -272,17 +310,26 @@ const paymentFormConfig: WithFormikConfig<PaymentFormProps & WithLanguageProps,
 
     handleSubmit: (values, { props: { onSubmit = noop } }) => {
         onSubmit(omitBy(values, (value, key) =>
-            isNil(value) || value === '' || key === 'hostedForm'
+            isNil(value) ||
+            value === '' ||
+            key === 'hostedForm' ||
+            (key === 'splitTender' && !isSplitTenderEnabled(values))
         ));
     },
 
     validationSchema: ({
+        currencyDecimalPlaces,
+        grandTotal = 0,
         language,
         isTermsConditionsRequired = false,
+        splitTenderMethods = EMPTY_ARRAY,
         validationSchema,
     }: PaymentFormProps & WithLanguageProps) => (
         getPaymentValidationSchema({
             additionalValidation: validationSchema,
+            currencyDecimalPlaces,
+            grandTotal,
+            isSplitTenderAvailable: splitTenderMethods.length > 0,
             isTermsConditionsRequired,
             language,
         })
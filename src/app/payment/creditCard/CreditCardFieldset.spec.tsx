@@ -5,6 +5,7 @@ import React from 'react';
 
 import { getStoreConfig } from '../../config/config.mock';
 import { createLocaleContext, LocaleContext, LocaleContextType } from '../../locale';
+import { getRightToLeftLocaleContext } from '../../locale/localeContext.mock';
 
 import CreditCardFieldset, { CreditCardFieldsetValues } from './CreditCardFieldset';
 
@@ -38,6 +39,22 @@ describe('CreditCardFieldset', () => {
             .toMatchSnapshot();
     });
 
+    it('matches snapshot in right-to-left locale', () => {
+        expect(render(
+            <div dir="rtl">
+                <LocaleContext.Provider value={ getRightToLeftLocaleContext() }>
+                    <Formik
+                        initialValues={ initialValues }
+                        onSubmit={ noop }
+                    >
+                        <CreditCardFieldset shouldShowCardCodeField={ true } />
+                    </Formik>
+                </LocaleContext.Provider>
+            </div>
+        ))
+            .toMatchSnapshot();
+    });
+
     it('shows card code field when configured', () => {
         const component = mount(
             <LocaleContext.Provider value={ localeContext }>
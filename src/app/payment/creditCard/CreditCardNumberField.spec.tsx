@@ -6,6 +6,7 @@ import React from 'react';
 import { getStoreConfig } from '../../config/config.mock';
 import { createLocaleContext, LocaleContext, LocaleContextType } from '../../locale';
 
+import { BinLookupContext, BinLookupContextType, BinTable, CardLevel } from './binLookup';
 import { CreditCardFieldsetValues } from './CreditCardFieldset';
 import CreditCardNumberField from './CreditCardNumberField';
 
@@ -143,4 +144,78 @@ describe('CreditCardNumberField', () => {
 
         expect(inputNode.setSelectionRange).toHaveBeenCalledTimes(0);
     });
+
+    describe('when BIN table is provided', () => {
+        let binLookupContext: BinLookupContextType;
+
+        beforeEach(() => {
+            binLookupContext = {
+                binNoticeRules: [
+                    { countryCodes: ['CA'], isNotAccepted: true },
+                    { levels: [CardLevel.Credit], surchargePercentage: 1.5 },
+                ],
+                binTable: new BinTable([
+                    { from: '411111', brand: 'visa', countryCode: 'US', level: CardLevel.Credit },
+                    { from: '450000', brand: 'visa', countryCode: 'CA', level: CardLevel.Debit },
+                ]),
+            };
+        });
+
+        const mountField = () => mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <BinLookupContext.Provider value={ binLookupContext }>
+                    <Formik
+                        initialValues={ initialValues }
+                        onSubmit={ noop }
+                    >
+                        <CreditCardNumberField name="ccNumber" />
+                    </Formik>
+                </BinLookupContext.Provider>
+            </LocaleContext.Provider>
+        );
+
+        it('renders brand, level and issuing country of card', () => {
+            const component = mountField();
+
+            component.find('input[name="ccNumber"]')
+                .simulate('change', { target: { value: '4111 11', name: 'ccNumber' } })
+                .update();
+
+            expect(component.find('[data-test="credit-card-bin-details"]').text())
+                .toEqual('Visa credit card issued in US');
+        });
+
+        it('renders surcharge notice if card matches surcharge rule', () => {
+            const component = mountField();
+
+            component.find('input[name="ccNumber"]')
+                .simulate('change', { target: { value: '4111 11', name: 'ccNumber' } })
+                .update();
+
+            expect(component.find('.alertBox').text())
+                .toContain('A surcharge of 1.5% applies to payments made with this card.');
+        });
+
+        it('renders notice if card is not accepted', () => {
+            const component = mountField();
+
+            component.find('input[name="ccNumber"]')
+                .simulate('change', { target: { value: '4500 00', name: 'ccNumber' } })
+                .update();
+
+            expect(component.find('.alertBox').text())
+                .toContain('This card is not accepted. Please use a different card.');
+        });
+
+        it('does not render details until enough digits are entered', () => {
+            const component = mountField();
+
+            component.find('input[name="ccNumber"]')
+                .simulate('change', { target: { value: '4111', name: 'ccNumber' } })
+                .update();
+
+            expect(component.find('[data-test="credit-card-bin-details"]').exists())
+                .toEqual(false);
+        });
+    });
 });
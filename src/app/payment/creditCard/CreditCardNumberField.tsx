@@ -7,6 +7,7 @@ import { TranslatedString } from '../../locale';
 import { FormField, TextInput } from '../../ui/form';
 import { IconLock } from '../../ui/icon';
 
+import { CreditCardBinDetails } from './binLookup';
 import formatCreditCardNumber from './formatCreditCardNumber';
 
 export interface CreditCardNumberFieldProps {
@@ -59,6 +60,8 @@ class CreditCardNumberInput extends PureComponent<FieldProps<string>> {
                 />
 
                 <IconLock />
+
+                <CreditCardBinDetails cardNumber={ field.value || '' } />
             </Fragment>
         );
     }
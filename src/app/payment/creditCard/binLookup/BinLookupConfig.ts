@@ -0,0 +1,15 @@
+import BinNoticeRule from './BinNoticeRule';
+import BinTableEntry from './BinTableEntry';
+
+export default interface BinLookupConfig {
+    /**
+     * Entries added to the local BIN table, or replacing its entries of the
+     * same range, i.e.: BINs issued since checkout was released.
+     */
+    entries?: BinTableEntry[];
+    /**
+     * Notices displayed to the shopper depending on the card they enter. The
+     * first rule matching the card applies.
+     */
+    noticeRules?: BinNoticeRule[];
+}
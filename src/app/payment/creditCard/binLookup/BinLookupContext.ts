@@ -0,0 +1,17 @@
+import { createContext } from 'react';
+
+import BinNoticeRule from './BinNoticeRule';
+import BinTable from './BinTable';
+
+export interface BinLookupContextType {
+    binNoticeRules: BinNoticeRule[];
+    binTable?: BinTable;
+}
+
+// Card numbers are not looked up if there is no table, i.e.: in tests.
+const BinLookupContext = createContext<BinLookupContextType>({
+    binNoticeRules: [],
+    binTable: undefined,
+});
+
+export default BinLookupContext;
@@ -0,0 +1,17 @@
+export enum CardLevel {
+    Credit = 'credit',
+    Debit = 'debit',
+    Prepaid = 'prepaid',
+}
+
+export default interface BinMetadata {
+    /**
+     * The type of the card as known by `credit-card-type`, i.e.: `visa`
+     */
+    brand: string;
+    /**
+     * The ISO 3166-1 alpha-2 code of the country the card is issued in
+     */
+    countryCode?: string;
+    level?: CardLevel;
+}
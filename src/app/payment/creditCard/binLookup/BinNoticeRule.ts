@@ -0,0 +1,21 @@
+import { CardLevel } from './BinMetadata';
+
+/**
+ * A notice displayed to the shopper before they submit their payment with a
+ * card that matches all of the conditions of the rule. A condition that is
+ * omitted matches any card.
+ */
+export default interface BinNoticeRule {
+    brands?: string[];
+    countryCodes?: string[];
+    levels?: CardLevel[];
+    /**
+     * The card cannot be used to pay for the order.
+     */
+    isNotAccepted?: boolean;
+    /**
+     * The percentage of the order total charged as a surcharge for paying
+     * with the card, i.e.: `1.5`
+     */
+    surchargePercentage?: number;
+}
@@ -0,0 +1,60 @@
+import { CardLevel } from './BinMetadata';
+import BinTable from './BinTable';
+
+describe('BinTable', () => {
+    let binTable: BinTable;
+
+    beforeEach(() => {
+        binTable = new BinTable([
+            { from: '810', to: '817', brand: 'discover' },
+            { from: '411111', brand: 'visa', countryCode: 'US', level: CardLevel.Credit },
+            { from: '41111122', brand: 'visa', countryCode: 'CA', level: CardLevel.Prepaid },
+        ]);
+    });
+
+    it('returns nothing until first 6 digits are entered', () => {
+        expect(binTable.lookup('4111 1')).toBeUndefined();
+    });
+
+    it('returns metadata of BIN in table', () => {
+        expect(binTable.lookup('4111 1111 1111 1111'))
+            .toEqual({ brand: 'visa', countryCode: 'US', level: CardLevel.Credit });
+    });
+
+    it('returns metadata of longest BIN in table', () => {
+        expect(binTable.lookup('4111 1122 3333 4444'))
+            .toEqual({ brand: 'visa', countryCode: 'CA', level: CardLevel.Prepaid });
+    });
+
+    it('returns metadata of BIN within range', () => {
+        expect(binTable.lookup('8150 0000 0000 0000'))
+            .toEqual({ brand: 'discover' });
+    });
+
+    it('returns brand of card if BIN is not in table', () => {
+        expect(binTable.lookup('5555 5555 5555 4444'))
+            .toEqual({ brand: 'mastercard' });
+    });
+
+    it('replaces entries of same range when updated', () => {
+        binTable.update([
+            { from: '411111', brand: 'visa', countryCode: 'GB', level: CardLevel.Debit },
+        ]);
+
+        expect(binTable.lookup('4111 1111 1111 1111'))
+            .toEqual({ brand: 'visa', countryCode: 'GB', level: CardLevel.Debit });
+
+        expect(binTable.lookup('4111 1122 3333 4444'))
+            .toEqual({ brand: 'visa', countryCode: 'CA', level: CardLevel.Prepaid });
+    });
+
+    it('returns BINs of brand as card type patterns', () => {
+        expect(binTable.getPatterns('discover')).toEqual([[810, 817]]);
+        expect(binTable.getPatterns('visa')).toEqual([411111, 41111122]);
+    });
+
+    it('resolves Mada cards by default', () => {
+        expect(new BinTable().lookup('4008 6100 0000 0000'))
+            .toEqual({ brand: 'mada', countryCode: 'SA', level: CardLevel.Debit });
+    });
+});
@@ -0,0 +1,93 @@
+import { creditCardType } from 'card-validator';
+import { maxBy } from 'lodash';
+
+import BIN_TABLE_ENTRIES from './binTableEntries';
+import BinMetadata from './BinMetadata';
+import BinTableEntry from './BinTableEntry';
+
+// The issuer of a card can only be identified by its first 6 digits.
+const MIN_BIN_LENGTH = 6;
+
+/**
+ * Resolves the brand, level and issuing country of a card from the first
+ * digits of its number. It is backed by a local table, so it can be looked up
+ * as the shopper types without calling any external service.
+ */
+export default class BinTable {
+    private entries: BinTableEntry[];
+
+    constructor(entries: BinTableEntry[] = BIN_TABLE_ENTRIES) {
+        this.entries = [...entries];
+    }
+
+    /**
+     * Adds entries to the table. An entry replaces the existing entry of the
+     * same range, so the table can be kept up to date by the host of checkout.
+     *
+     * @param entries The entries to add or replace
+     */
+    update(entries: BinTableEntry[]): void {
+        const isReplaced = (entry: BinTableEntry) => entries.some(({ from, to }) =>
+            from === entry.from && (to || from) === (entry.to || entry.from)
+        );
+
+        this.entries = [
+            ...this.entries.filter(entry => !isReplaced(entry)),
+            ...entries,
+        ];
+    }
+
+    /**
+     * Returns the metadata of the card, or nothing until enough digits are
+     * entered to tell its brand. The level and issuing country are only
+     * returned if the BIN of the card is in the table.
+     *
+     * @param cardNumber The card number entered by the shopper, with or
+     * without spaces
+     */
+    lookup(cardNumber: string): BinMetadata | undefined {
+        const digits = cardNumber.replace(/\D/g, '');
+
+        if (digits.length < MIN_BIN_LENGTH) {
+            return;
+        }
+
+        const entry = maxBy(
+            this.entries.filter(({ from, to = from }) => this.isInRange(digits, from, to)),
+            ({ from }) => from.length
+        );
+
+        if (entry) {
+            const { from, to, ...metadata } = entry;
+
+            return metadata;
+        }
+
+        const types = creditCardType(digits);
+
+        return types.length === 1 && types[0].type ? { brand: types[0].type } : undefined;
+    }
+
+    /**
+     * Returns the BINs of the brand in the format `credit-card-type` expects
+     * its patterns in, so the brand can be detected by the card validator.
+     *
+     * @param brand The type of the card, i.e.: `mada`
+     */
+    getPatterns(brand: string): Array<number | [number, number]> {
+        return this.entries
+            .filter(entry => entry.brand === brand)
+            .map(({ from, to = from }) => from === to ?
+                Number(from) :
+                [Number(from), Number(to)] as [number, number]
+            );
+    }
+
+    private isInRange(digits: string, from: string, to: string): boolean {
+        const prefix = Number(digits.slice(0, from.length));
+
+        return digits.length >= from.length &&
+            prefix >= Number(from) &&
+            prefix <= Number(to);
+    }
+}
@@ -0,0 +1,13 @@
+import BinMetadata from './BinMetadata';
+
+export default interface BinTableEntry extends BinMetadata {
+    /**
+     * The first BIN of the range, i.e.: `400861`. Ranges can be of any
+     * length, but both ends of a range have to be of the same length.
+     */
+    from: string;
+    /**
+     * The last BIN of the range. The range only includes `from` if omitted.
+     */
+    to?: string;
+}
@@ -0,0 +1,72 @@
+import { creditCardType } from 'card-validator';
+import React, { memo, useMemo, Fragment, FunctionComponent } from 'react';
+
+import { TranslatedString } from '../../../locale';
+import { Alert, AlertType } from '../../../ui/alert';
+
+import findBinNoticeRule from './findBinNoticeRule';
+import withBinLookup, { WithBinLookupProps } from './withBinLookup';
+
+export interface CreditCardBinDetailsProps {
+    cardNumber: string;
+}
+
+const CreditCardBinDetails: FunctionComponent<CreditCardBinDetailsProps & WithBinLookupProps> = ({
+    binNoticeRules,
+    binTable,
+    cardNumber,
+}) => {
+    const metadata = useMemo(() => (
+        binTable && binTable.lookup(cardNumber)
+    ), [binTable, cardNumber]);
+
+    const noticeRule = useMemo(() => (
+        findBinNoticeRule(metadata, binNoticeRules)
+    ), [binNoticeRules, metadata]);
+
+    if (!metadata) {
+        return null;
+    }
+
+    const { brand, countryCode, level } = metadata;
+    const typeInfo = creditCardType.getTypeInfo(brand);
+    const brandName = typeInfo && typeInfo.niceType || brand;
+
+    return <Fragment>
+        <p
+            className="form-cardDetails optimizedCheckout-contentSecondary"
+            data-test="credit-card-bin-details"
+        >
+            { level ?
+                <TranslatedString
+                    data={ { brand: brandName } }
+                    id={ `payment.credit_card_bin_${level}_text` }
+                /> :
+                <TranslatedString
+                    data={ { brand: brandName } }
+                    id="payment.credit_card_bin_brand_text"
+                /> }
+
+            { countryCode && <Fragment>
+                { ' ' }
+                <TranslatedString
+                    data={ { countryCode } }
+                    id="payment.credit_card_bin_country_text"
+                />
+            </Fragment> }
+        </p>
+
+        { noticeRule && noticeRule.isNotAccepted && <Alert type={ AlertType.Error }>
+            <TranslatedString id="payment.credit_card_not_accepted_error" />
+        </Alert> }
+
+        { noticeRule && !noticeRule.isNotAccepted && !!noticeRule.surchargePercentage && <Alert type={ AlertType.Warning }>
+            <TranslatedString
+                data={ { percentage: noticeRule.surchargePercentage } }
+                id="payment.credit_card_surcharge_text"
+            />
+        </Alert> }
+    </Fragment>;
+};
+
+export default withBinLookup(memo(CreditCardBinDetails));
@@ -0,0 +1,114 @@
+import { CardLevel } from './BinMetadata';
+import BinTableEntry from './BinTableEntry';
+
+/**
+ * The BINs of cards that are not recognized by `credit-card-type`, or that
+ * are known to be issued in a specific country. More entries can be added by
+ * the host of checkout through `BinTable#update`.
+ */
+const BIN_TABLE_ENTRIES: BinTableEntry[] = [
+    // 8-BIN Discover cards
+    { from: '810', to: '817', brand: 'discover' },
+    // Mada debit cards, issued by Saudi banks
+    { from: '400861', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '401757', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '407197', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '407395', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '409201', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '410685', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '412565', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '417633', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '419593', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '422817', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '422818', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '422819', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '428331', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '428671', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '428672', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '428673', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '431361', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '432328', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '434107', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '439954', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '440533', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '440647', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '440795', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '445564', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '446393', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '446404', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '446672', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '455036', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '455708', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '457865', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '458456', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '462220', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '468540', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '468541', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '468542', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '468543', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '483010', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '483011', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '483012', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '484783', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '486094', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '486095', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '486096', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '489317', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '489318', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '489319', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '493428', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '504300', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '506968', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '508160', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '513213', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '520058', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '521076', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '524130', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '524514', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '529415', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '529741', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '530060', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '530906', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '531095', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '531196', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '532013', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '535825', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '535989', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '536023', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '537767', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '539931', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '543085', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '543357', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '549760', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '554180', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '557606', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '558848', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '585265', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '588845', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '588846', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '588847', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '588848', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '588849', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '588850', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '588851', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '588982', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '588983', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '589005', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '589206', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '604906', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '605141', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '636120', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968201', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968202', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968203', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968204', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968205', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968206', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968207', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968208', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968209', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968210', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+    { from: '968211', brand: 'mada', countryCode: 'SA', level: CardLevel.Debit },
+];
+
+export default BIN_TABLE_ENTRIES;
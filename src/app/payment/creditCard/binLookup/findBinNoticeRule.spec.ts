@@ -0,0 +1,28 @@
+import findBinNoticeRule from './findBinNoticeRule';
+import { CardLevel } from './BinMetadata';
+
+describe('findBinNoticeRule()', () => {
+    const notAcceptedRule = { brands: ['american-express'], isNotAccepted: true };
+    const surchargeRule = { countryCodes: ['GB'], levels: [CardLevel.Credit], surchargePercentage: 1.5 };
+    const rules = [notAcceptedRule, surchargeRule];
+
+    it('returns nothing if card is not looked up', () => {
+        expect(findBinNoticeRule(undefined, rules)).toBeUndefined();
+    });
+
+    it('returns rule matching all conditions', () => {
+        expect(findBinNoticeRule({ brand: 'visa', countryCode: 'GB', level: CardLevel.Credit }, rules))
+            .toEqual(surchargeRule);
+
+        expect(findBinNoticeRule({ brand: 'american-express' }, rules))
+            .toEqual(notAcceptedRule);
+    });
+
+    it('does not return rule if any condition is not met', () => {
+        expect(findBinNoticeRule({ brand: 'visa', countryCode: 'GB', level: CardLevel.Debit }, rules))
+            .toBeUndefined();
+
+        expect(findBinNoticeRule({ brand: 'visa', level: CardLevel.Credit }, rules))
+            .toBeUndefined();
+    });
+});
@@ -0,0 +1,25 @@
+import BinMetadata from './BinMetadata';
+import BinNoticeRule from './BinNoticeRule';
+
+/**
+ * Returns the first rule the card matches, so more specific rules have to be
+ * listed before more general ones.
+ */
+export default function findBinNoticeRule(
+    metadata: BinMetadata | undefined,
+    rules: BinNoticeRule[]
+): BinNoticeRule | undefined {
+    if (!metadata) {
+        return;
+    }
+
+    return rules.find(({ brands, countryCodes, levels }) =>
+        isMatched(brands, metadata.brand) &&
+        isMatched(countryCodes, metadata.countryCode) &&
+        isMatched(levels, metadata.level)
+    );
+}
+
+function isMatched<T>(conditions: T[] | undefined, value: T | undefined): boolean {
+    return !conditions || (value !== undefined && conditions.indexOf(value) > -1);
+}
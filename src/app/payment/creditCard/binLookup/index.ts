@@ -0,0 +1,9 @@
+export { default as BinLookupConfig } from './BinLookupConfig';
+export { default as BinLookupContext, BinLookupContextType } from './BinLookupContext';
+export { default as BinMetadata, CardLevel } from './BinMetadata';
+export { default as BinNoticeRule } from './BinNoticeRule';
+export { default as BinTable } from './BinTable';
+export { default as BinTableEntry } from './BinTableEntry';
+export { default as CreditCardBinDetails, CreditCardBinDetailsProps } from './CreditCardBinDetails';
+export { default as findBinNoticeRule } from './findBinNoticeRule';
+export { default as withBinLookup, WithBinLookupProps } from './withBinLookup';
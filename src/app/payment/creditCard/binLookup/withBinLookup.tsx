@@ -0,0 +1,11 @@
+import { createInjectHoc, InjectHoc } from '../../../common/hoc';
+
+import BinLookupContext, { BinLookupContextType } from './BinLookupContext';
+
+export type WithBinLookupProps = BinLookupContextType;
+
+const withBinLookup: InjectHoc<WithBinLookupProps> = createInjectHoc(BinLookupContext, {
+    displayNamePrefix: 'WithBinLookup',
+});
+
+export default withBinLookup;
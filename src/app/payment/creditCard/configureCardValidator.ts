@@ -1,6 +1,12 @@
 import { creditCardType } from 'card-validator';
 
-export default function configureCardValidator(): void {
+import { BinTable } from './binLookup';
+
+/**
+ * Registers the BINs of the table that `credit-card-type` does not recognize,
+ * so the validator detects the brand of the card the same way the table does.
+ */
+export default function configureCardValidator(binTable: BinTable = new BinTable()): void {
     const discoverInfo = creditCardType.getTypeInfo('discover');
     const visaInfo = creditCardType.getTypeInfo('visa');
 
@@ -13,7 +19,7 @@ export default function configureCardValidator(): void {
     creditCardType.updateCard('discover', {
         patterns: [
             ...(discoverInfo.patterns || []),
-            [810, 817],
+            ...binTable.getPatterns('discover'),
         ],
     });
 
@@ -21,28 +27,7 @@ export default function configureCardValidator(): void {
     creditCardType.addCard({
         niceType: 'Mada',
         type: 'mada',
-        patterns: [
-            400861, 401757, 407197, 407395, 409201,
-            410685, 412565, 417633, 419593, 422817,
-            422818, 422819, 428331, 428671, 428672,
-            428673, 431361, 432328, 434107, 439954,
-            440533, 440647, 440795, 445564, 446393,
-            446404, 446672, 455036, 455708, 457865,
-            458456, 462220, 468540, 468541, 468542,
-            468543, 483010, 483011, 483012, 484783,
-            486094, 486095, 486096, 489317, 489318,
-            489319, 493428, 504300, 506968, 508160,
-            513213, 520058, 521076, 524130, 524514,
-            529415, 529741, 530060, 530906, 531095,
-            531196, 532013, 535825, 535989, 536023,
-            537767, 539931, 543085, 543357, 549760,
-            554180, 557606, 558848, 585265, 588845,
-            588846, 588847, 588848, 588849, 588850,
-            588851, 588982, 588983, 589005, 589206,
-            604906, 605141, 636120, 968201, 968202,
-            968203, 968204, 968205, 968206, 968207,
-            968208, 968209, 968210, 968211,
-        ],
+        patterns: binTable.getPatterns('mada'),
         gaps: [4, 8, 12],
         lengths: [16, 18, 19],
         code: {
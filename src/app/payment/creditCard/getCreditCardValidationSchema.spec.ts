@@ -1,5 +1,6 @@
 import { createLanguageService, LanguageService } from '@bigcommerce/checkout-sdk';
 
+import { BinTable, CardLevel } from './binLookup';
 import getCreditCardValidationSchema from './getCreditCardValidationSchema';
 import { CreditCardFieldsetValues } from './CreditCardFieldset';
 
@@ -43,6 +44,18 @@ describe('getCreditCardValidationSchema()', () => {
             .toThrowError('payment.credit_card_number_invalid_error');
     });
 
+    it('returns error if card is not accepted', () => {
+        const schema = getCreditCardValidationSchema({
+            binNoticeRules: [{ levels: [CardLevel.Prepaid], isNotAccepted: true }],
+            binTable: new BinTable([{ from: '411111', brand: 'visa', level: CardLevel.Prepaid }]),
+            isCardCodeRequired: false,
+            language,
+        });
+
+        expect(() => schema.validateSyncAt('ccNumber', validData))
+            .toThrowError('payment.credit_card_not_accepted_error');
+    });
+
     it('returns error if card name is missing', () => {
         const schema = getCreditCardValidationSchema({ isCardCodeRequired: false, language });
 
@@ -3,14 +3,19 @@ import { memoize } from '@bigcommerce/memoize';
 import { cvv, expirationDate, number } from 'card-validator';
 import { object, string, ObjectSchema } from 'yup';
 
+import { findBinNoticeRule, BinNoticeRule, BinTable } from './binLookup';
 import { CreditCardFieldsetValues } from './CreditCardFieldset';
 
 export interface CreditCardValidationSchemaOptions {
+    binNoticeRules?: BinNoticeRule[];
+    binTable?: BinTable;
     isCardCodeRequired: boolean;
     language: LanguageService;
 }
 
 export default memoize(function getCreditCardValidationSchema({
+    binNoticeRules = [],
+    binTable,
     isCardCodeRequired,
     language,
 }: CreditCardValidationSchemaOptions): ObjectSchema<CreditCardFieldsetValues> {
@@ -31,6 +36,14 @@ export default memoize(function getCreditCardValidationSchema({
             .test({
                 message: language.translate('payment.credit_card_number_invalid_error'),
                 test: value => number(value).isValid,
+            })
+            .test({
+                message: language.translate('payment.credit_card_not_accepted_error'),
+                test: value => {
+                    const noticeRule = binTable && findBinNoticeRule(binTable.lookup(value || ''), binNoticeRules);
+
+                    return !noticeRule || !noticeRule.isNotAccepted;
+                },
             }),
     };
 
@@ -1,3 +1,4 @@
+export { BinLookupConfig, BinLookupContext, BinLookupContextType, BinNoticeRule, BinTable, BinTableEntry, CardLevel, withBinLookup, WithBinLookupProps } from './binLookup';
 export { default as configureCardValidator } from './configureCardValidator';
 export { default as CreditCardFieldset, CreditCardFieldsetProps, CreditCardFieldsetValues } from './CreditCardFieldset';
 export { default as CreditCardIcon } from './CreditCardIcon';
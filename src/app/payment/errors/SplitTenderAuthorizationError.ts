@@ -0,0 +1,15 @@
+import { setPrototypeOf, CustomError } from '../../common/error';
+import { getLanguageService } from '../../locale';
+
+export default class SplitTenderAuthorizationError extends CustomError {
+    constructor(methodName: string, data?: Error) {
+        super({
+            name: 'SPLIT_TENDER_AUTHORIZATION_ERROR',
+            message: getLanguageService().translate('payment.split_tender_authorization_error', { methodName }),
+            title: getLanguageService().translate('payment.split_tender_error_heading'),
+            data,
+        });
+
+        setPrototypeOf(this, SplitTenderAuthorizationError.prototype);
+    }
+}
@@ -0,0 +1,15 @@
+import { setPrototypeOf, CustomError } from '../../common/error';
+import { getLanguageService } from '../../locale';
+
+export default class SplitTenderReleaseError extends CustomError {
+    constructor(methodName: string, data?: Error) {
+        super({
+            name: 'SPLIT_TENDER_RELEASE_ERROR',
+            message: getLanguageService().translate('payment.split_tender_release_error', { methodName }),
+            title: getLanguageService().translate('payment.split_tender_error_heading'),
+            data,
+        });
+
+        setPrototypeOf(this, SplitTenderReleaseError.prototype);
+    }
+}
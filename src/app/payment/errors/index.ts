@@ -0,0 +1,3 @@
+export { default as SplitTenderAuthorizationError } from './SplitTenderAuthorizationError';
+export { default as SplitTenderReleaseError } from './SplitTenderReleaseError';
+export { default as SplitTenderRollbackError } from './SplitTenderRollbackError';
@@ -3,16 +3,23 @@ import { object, string, ObjectSchema, StringSchema } from 'yup';
 
 import { getTermsConditionsValidationSchema } from '../termsConditions';
 
+import { getSplitTenderValidationSchema } from './splitTender';
 import { PaymentFormValues } from './PaymentForm';
 
 export interface PaymentValidationSchemaOptions {
     additionalValidation?: ObjectSchema<Partial<PaymentFormValues>>;
+    currencyDecimalPlaces?: number;
+    grandTotal?: number;
+    isSplitTenderAvailable?: boolean;
     isTermsConditionsRequired: boolean;
     language: LanguageService;
 }
 
 export default function getPaymentValidationSchema({
     additionalValidation,
+    currencyDecimalPlaces = 2,
+    grandTotal = 0,
+    isSplitTenderAvailable,
     isTermsConditionsRequired,
     language,
 }: PaymentValidationSchemaOptions): ObjectSchema<PaymentFormValues> {
@@ -22,9 +29,18 @@ export default function getPaymentValidationSchema({
         paymentProviderRadio: string().required(),
     };
 
-    const schemaFieldsWithTerms = object(schemaFields)
+    let schemaFieldsWithTerms = object(schemaFields)
         .concat(getTermsConditionsValidationSchema({ isTermsConditionsRequired, language }));
 
+    if (isSplitTenderAvailable) {
+        schemaFieldsWithTerms = schemaFieldsWithTerms
+            .concat(getSplitTenderValidationSchema({
+                decimalPlaces: currencyDecimalPlaces,
+                grandTotal,
+                language,
+            }));
+    }
+
     return additionalValidation ?
         schemaFieldsWithTerms.concat(additionalValidation as any) :
         schemaFieldsWithTerms;
@@ -1,2 +1,5 @@
+export { BinLookupConfig, BinLookupContext, BinLookupContextType, BinTable } from './creditCard';
 export { PaymentProps } from './Payment';
 export { default as getPreselectedPayment } from './getPreselectedPayment';
+export { PurchaseOrderStorage, StaticPurchaseOrder } from './purchaseOrder';
+export { SplitTenderContext, SplitTenderContextType, SplitTenderPayment, SplitTenderProvider, SplitTenderStorage } from './splitTender';
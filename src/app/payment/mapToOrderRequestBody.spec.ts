@@ -52,6 +52,28 @@ describe('mapToOrderRequestBody()', () => {
             });
     });
 
+    it('does not send purchase order details as payment data', () => {
+        const result = mapToOrderRequestBody({
+            paymentProviderRadio: 'purchaseorder',
+            poBuyerReference: 'Coach Smith',
+            poDocument: {
+                name: 'po 1234.pdf',
+                size: 3,
+                type: 'application/pdf',
+                url: 'https://bucket.foo.com/po%201234.pdf',
+            },
+            poNumber: 'PO-1234',
+        }, true);
+
+        expect(result)
+            .toEqual({
+                payment: {
+                    gatewayId: undefined,
+                    methodId: 'purchaseorder',
+                },
+            });
+    });
+
     it('transforms hosted / offsite / offline method form values into order payload', () => {
         const result = mapToOrderRequestBody({
             paymentProviderRadio: 'adyen-paypal',
@@ -3,10 +3,11 @@ import { isEmpty, isNil, omitBy } from 'lodash';
 
 import { unformatCreditCardExpiryDate, unformatCreditCardNumber } from './creditCard';
 import { parseUniquePaymentMethodId } from './paymentMethod';
+import { isPurchaseOrderFieldsetValues } from './purchaseOrder';
 import { PaymentFormValues } from './PaymentForm';
 
 export default function mapToOrderRequestBody(
-    { paymentProviderRadio, ...values }: PaymentFormValues,
+    { paymentProviderRadio, splitTender, ...values }: PaymentFormValues,
     isPaymentDataRequired: boolean
 ): OrderRequestBody {
     if (!isPaymentDataRequired) {
@@ -17,6 +18,13 @@ export default function mapToOrderRequestBody(
     const payload: OrderRequestBody = {
         payment: { gatewayId, methodId },
     };
+
+    // The payment data of offline methods is not submitted, so the purchase
+    // order details are sent as part of the customer message instead.
+    if (isPurchaseOrderFieldsetValues(values)) {
+        return payload;
+    }
+
     const paymentData = omitBy({
         ...values,
         ccExpiry: 'ccExpiry' in values && values.ccExpiry ? unformatCreditCardExpiryDate(values.ccExpiry) : null,
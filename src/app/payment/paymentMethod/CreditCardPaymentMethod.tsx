@@ -11,7 +11,7 @@ import { withLanguage, WithLanguageProps } from '../../locale';
 import { withForm, WithFormProps } from '../../ui/form';
 import { LoadingOverlay } from '../../ui/loading';
 import { DocumentOnlyCustomFormFieldsetValues, FawryCustomFormFieldsetValues, IdealCustomFormFieldsetValues, SepaCustomFormFieldsetValues } from '../checkoutcomFieldsets/';
-import { configureCardValidator, getCreditCardValidationSchema, CreditCardFieldset, CreditCardFieldsetValues } from '../creditCard';
+import { configureCardValidator, getCreditCardValidationSchema, withBinLookup, CreditCardFieldset, CreditCardFieldsetValues, WithBinLookupProps } from '../creditCard';
 import { HostedCreditCardFieldsetValues } from '../hostedCreditCard';
 import { getInstrumentValidationSchema, isCardInstrument, isInstrumentCardCodeRequiredSelector, isInstrumentCardNumberRequiredSelector, isInstrumentFeatureAvailable, CardInstrumentFieldset, CardInstrumentFieldsetValues, CreditCardValidation } from '../storedInstrument';
 import withPayment, { WithPaymentProps } from '../withPayment';
@@ -58,6 +58,7 @@ class CreditCardPaymentMethod extends Component<
         WithFormProps &
         WithPaymentProps &
         WithLanguageProps &
+        WithBinLookupProps &
         ConnectFormikProps<PaymentFormValues>,
     CreditCardPaymentMethodState
 > {
@@ -67,6 +68,7 @@ class CreditCardPaymentMethod extends Component<
 
     async componentDidMount(): Promise<void> {
         const {
+            binTable,
             initializePayment,
             isInstrumentFeatureAvailable: isInstrumentFeatureAvailableProp,
             loadInstruments,
@@ -76,7 +78,7 @@ class CreditCardPaymentMethod extends Component<
         } = this.props;
 
         setValidationSchema(method, this.getValidationSchema());
-        configureCardValidator();
+        configureCardValidator(binTable);
 
         try {
             if (isInstrumentFeatureAvailableProp) {
@@ -228,6 +230,8 @@ class CreditCardPaymentMethod extends Component<
 
     private getValidationSchema(): ObjectSchema<CreditCardPaymentMethodValues> | null {
         const {
+            binNoticeRules,
+            binTable,
             cardValidationSchema,
             isInstrumentCardCodeRequired: isInstrumentCardCodeRequiredProp,
             isInstrumentCardNumberRequired: isInstrumentCardNumberRequiredProp,
@@ -255,6 +259,8 @@ class CreditCardPaymentMethod extends Component<
         }
 
         return cardValidationSchema || getCreditCardValidationSchema({
+            binNoticeRules,
+            binTable,
             isCardCodeRequired: method.config.cardCode === true,
             language,
         });
@@ -352,4 +358,4 @@ const mapFromCheckoutProps: MapToPropsFactory<
     };
 };
 
-export default connectFormik(withForm(withLanguage(withPayment(withCheckout(mapFromCheckoutProps)(CreditCardPaymentMethod)))));
+export default connectFormik(withForm(withLanguage(withPayment(withBinLookup(withCheckout(mapFromCheckoutProps)(CreditCardPaymentMethod))))));
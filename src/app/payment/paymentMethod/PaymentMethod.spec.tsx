@@ -20,6 +20,7 @@ import OfflinePaymentMethod, { OfflinePaymentMethodProps } from './OfflinePaymen
 import { default as PaymentMethodComponent, PaymentMethodProps } from './PaymentMethod';
 import PaymentMethodId from './PaymentMethodId';
 import PaymentMethodProviderType from './PaymentMethodProviderType';
+import PurchaseOrderPaymentMethod from './PurchaseOrderPaymentMethod';
 import PPSDKPaymentMethod from './PPSDKPaymentMethod';
 
 describe('PaymentMethod', () => {
@@ -271,6 +272,29 @@ describe('PaymentMethod', () => {
         });
     });
 
+    describe('when using purchase order payment', () => {
+        let method: PaymentMethod;
+
+        beforeEach(() => {
+            method = {
+                ...getPaymentMethod(),
+                id: PaymentMethodId.PurchaseOrder,
+                type: PaymentMethodProviderType.Offline,
+            };
+        });
+
+        it('renders as purchase order method', () => {
+            const container = mount(<PaymentMethodTest { ...defaultProps } method={ method } />);
+
+            expect(container.find(PurchaseOrderPaymentMethod).props())
+                .toEqual(expect.objectContaining({
+                    deinitializePayment: expect.any(Function),
+                    initializePayment: expect.any(Function),
+                    method,
+                }));
+        });
+    });
+
     describe('when using regular credit card payment', () => {
         let method: PaymentMethod;
 
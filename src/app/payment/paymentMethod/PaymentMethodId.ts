@@ -37,6 +37,7 @@ enum PaymentMethodId {
     PaypalCommerceCredit = 'paypalcommercecredit',
     PaypalCommerceCreditCards = 'paypalcommercecreditcards',
     PaypalCommerceAlternativeMethod = 'paypalcommercealternativemethods',
+    PurchaseOrder = 'purchaseorder',
     Qpay = 'qpay',
     Quadpay = 'quadpay',
     SagePay = 'sagepay',
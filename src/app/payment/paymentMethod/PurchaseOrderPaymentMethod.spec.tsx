@@ -0,0 +1,98 @@
+import { mount } from 'enzyme';
+import { Formik } from 'formik';
+import { noop } from 'lodash';
+import React, { FunctionComponent } from 'react';
+
+import { getStoreConfig } from '../../config/config.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../../locale';
+import { getPaymentMethod } from '../payment-methods.mock';
+import { PurchaseOrderFieldset } from '../purchaseOrder';
+import PaymentContext, { PaymentContextProps } from '../PaymentContext';
+
+import PurchaseOrderPaymentMethod, { PurchaseOrderPaymentMethodProps } from './PurchaseOrderPaymentMethod';
+
+describe('PurchaseOrderPaymentMethod', () => {
+    let defaultProps: PurchaseOrderPaymentMethodProps;
+    let localeContext: LocaleContextType;
+    let paymentContext: PaymentContextProps;
+    let PurchaseOrderPaymentMethodTest: FunctionComponent<PurchaseOrderPaymentMethodProps>;
+
+    beforeEach(() => {
+        defaultProps = {
+            method: { ...getPaymentMethod(), id: 'purchaseorder', method: 'purchaseorder', type: 'PAYMENT_TYPE_OFFLINE' },
+            deinitializePayment: jest.fn(),
+            initializePayment: jest.fn(),
+        };
+
+        localeContext = createLocaleContext(getStoreConfig());
+        paymentContext = {
+            disableSubmit: jest.fn(),
+            setSubmit: jest.fn(),
+            setValidationSchema: jest.fn(),
+            hidePaymentSubmitButton: jest.fn(),
+        };
+
+        PurchaseOrderPaymentMethodTest = props => (
+            <PaymentContext.Provider value={ paymentContext }>
+                <LocaleContext.Provider value={ localeContext }>
+                    <Formik
+                        initialValues={ { poBuyerReference: '', poNumber: '' } }
+                        onSubmit={ noop }
+                    >
+                        <PurchaseOrderPaymentMethod { ...props } />
+                    </Formik>
+                </LocaleContext.Provider>
+            </PaymentContext.Provider>
+        );
+    });
+
+    it('renders purchase order fieldset', () => {
+        const container = mount(<PurchaseOrderPaymentMethodTest { ...defaultProps } />);
+
+        expect(container.find(PurchaseOrderFieldset).exists())
+            .toEqual(true);
+
+        expect(container.find('input[name="poNumber"]').exists())
+            .toEqual(true);
+
+        expect(container.find('input[name="poBuyerReference"]').exists())
+            .toEqual(true);
+
+        expect(container.find('[data-test="purchase-order-document"]').hostNodes().prop('type'))
+            .toEqual('file');
+    });
+
+    it('initializes payment method when component mounts', () => {
+        mount(<PurchaseOrderPaymentMethodTest { ...defaultProps } />);
+
+        expect(defaultProps.initializePayment)
+            .toHaveBeenCalledWith({
+                gatewayId: defaultProps.method.gateway,
+                methodId: defaultProps.method.id,
+            });
+    });
+
+    it('sets validation schema when component mounts', async () => {
+        mount(<PurchaseOrderPaymentMethodTest { ...defaultProps } />);
+
+        const schema = (paymentContext.setValidationSchema as jest.Mock).mock.calls[0][1];
+
+        expect(await schema.isValid({ poBuyerReference: '', poNumber: '' }))
+            .toEqual(false);
+
+        expect(await schema.isValid({ poBuyerReference: 'Coach Smith', poNumber: 'PO-1234' }))
+            .toEqual(true);
+    });
+
+    it('deinitializes payment method and resets validation schema when component unmounts', () => {
+        const container = mount(<PurchaseOrderPaymentMethodTest { ...defaultProps } />);
+
+        container.unmount();
+
+        expect(defaultProps.deinitializePayment)
+            .toHaveBeenCalled();
+
+        expect(paymentContext.setValidationSchema)
+            .toHaveBeenLastCalledWith(defaultProps.method, null);
+    });
+});
@@ -0,0 +1,74 @@
+import { CheckoutSelectors, PaymentInitializeOptions, PaymentMethod, PaymentRequestOptions } from '@bigcommerce/checkout-sdk';
+import { noop } from 'lodash';
+import React, { Component, ReactNode } from 'react';
+
+import { withLanguage, WithLanguageProps } from '../../locale';
+import { getPurchaseOrderValidationSchema, PurchaseOrderFieldset } from '../purchaseOrder';
+import withPayment, { WithPaymentProps } from '../withPayment';
+
+export interface PurchaseOrderPaymentMethodProps {
+    method: PaymentMethod;
+    deinitializePayment(options: PaymentRequestOptions): Promise<CheckoutSelectors>;
+    initializePayment(options: PaymentInitializeOptions): Promise<CheckoutSelectors>;
+    onUnhandledError?(error: Error): void;
+}
+
+/**
+ * Collects the purchase order details of B2B buyers paying on net terms. The
+ * method is processed as an offline method, whose payment data is not
+ * submitted, so the details are appended to the customer message of the order
+ * instead (see `appendPurchaseOrder`). The PO document is uploaded when it is
+ * selected, and only its URL is appended.
+ */
+class PurchaseOrderPaymentMethod extends Component<
+    PurchaseOrderPaymentMethodProps &
+        WithPaymentProps &
+        WithLanguageProps
+> {
+    async componentDidMount(): Promise<void> {
+        const {
+            initializePayment,
+            language,
+            method,
+            onUnhandledError = noop,
+            setValidationSchema,
+        } = this.props;
+
+        setValidationSchema(method, getPurchaseOrderValidationSchema({ language }));
+
+        try {
+            await initializePayment({
+                gatewayId: method.gateway,
+                methodId: method.id,
+            });
+        } catch (error) {
+            onUnhandledError(error);
+        }
+    }
+
+    async componentWillUnmount(): Promise<void> {
+        const {
+            deinitializePayment,
+            method,
+            onUnhandledError = noop,
+            setValidationSchema,
+        } = this.props;
+
+        setValidationSchema(method, null);
+
+        try {
+            await deinitializePayment({
+                gatewayId: method.gateway,
+                methodId: method.id,
+            });
+        } catch (error) {
+            onUnhandledError(error);
+        }
+    }
+
+    render(): ReactNode {
+        return <PurchaseOrderFieldset />;
+    }
+}
+
+export default withLanguage(withPayment(PurchaseOrderPaymentMethod));
@@ -0,0 +1,104 @@
+import { FieldProps } from 'formik';
+import React, { memo, useCallback, useMemo, Fragment, FunctionComponent } from 'react';
+
+import { TranslatedString } from '../../locale';
+import { Fieldset, FileInput, FileInputValue, FormField, Legend, TextInput } from '../../ui/form';
+
+import { PURCHASE_ORDER_DOCUMENT_TYPES } from './purchaseOrderDocumentRequirements';
+
+export interface PurchaseOrderFieldsetValues {
+    poBuyerReference: string;
+    poDocument?: FileInputValue;
+    poNumber: string;
+}
+
+interface PurchaseOrderTextFieldProps {
+    labelId: string;
+    name: string;
+}
+
+const PurchaseOrderTextField: FunctionComponent<PurchaseOrderTextFieldProps> = memo(({ labelId, name }) => {
+    const renderInput = useCallback(({ field }: FieldProps) => (
+        <TextInput
+            { ...field }
+            autoComplete="off"
+            id={ field.name }
+            maxLength={ 50 }
+        />
+    ), []);
+
+    const labelContent = useMemo(() => (
+        <TranslatedString id={ labelId } />
+    ), [labelId]);
+
+    return <FormField
+        input={ renderInput }
+        labelContent={ labelContent }
+        name={ name }
+    />;
+});
+
+const PurchaseOrderDocumentInput: FunctionComponent<FieldProps> = memo(({ field, form }) => {
+    const { setFieldTouched, setFieldValue } = form;
+
+    const handleChange = useCallback((value?: FileInputValue) => {
+        setFieldValue(field.name, value);
+        setFieldTouched(field.name, true, false);
+    }, [field.name, setFieldTouched, setFieldValue]);
+
+    return <FileInput
+        accept={ PURCHASE_ORDER_DOCUMENT_TYPES.join(',') }
+        id={ field.name }
+        name={ field.name }
+        onChange={ handleChange }
+        testId="purchase-order-document"
+        value={ field.value }
+    />;
+});
+
+const PurchaseOrderDocumentField: FunctionComponent<{ name: string }> = memo(({ name }) => {
+    const renderInput = useCallback((props: FieldProps) => (
+        <PurchaseOrderDocumentInput { ...props } />
+    ), []);
+
+    const labelContent = useMemo(() => (
+        <Fragment>
+            <TranslatedString id="payment.purchase_order_document_label" />
+
+            { ' ' }
+
+            <small className="optimizedCheckout-contentSecondary">
+                <TranslatedString id="common.optional_text" />
+            </small>
+        </Fragment>
+    ), []);
+
+    return <FormField
+        input={ renderInput }
+        labelContent={ labelContent }
+        name={ name }
+    />;
+});
+
+const PurchaseOrderFieldset: FunctionComponent = () => (
+    <Fieldset
+        additionalClassName="purchaseOrderFieldset"
+        legend={
+            <Legend hidden>
+                <TranslatedString id="payment.purchase_order_heading" />
+            </Legend>
+        }
+    >
+        <PurchaseOrderTextField labelId="payment.purchase_order_number_label" name="poNumber" />
+        <PurchaseOrderTextField labelId="payment.purchase_order_buyer_reference_label" name="poBuyerReference" />
+        <PurchaseOrderDocumentField name="poDocument" />
+    </Fieldset>
+);
+
+export function isPurchaseOrderFieldsetValues(values: unknown): values is PurchaseOrderFieldsetValues {
+    return typeof values === 'object' &&
+        values !== null &&
+        typeof (values as PurchaseOrderFieldsetValues).poNumber === 'string';
+}
+
+export default memo(PurchaseOrderFieldset);
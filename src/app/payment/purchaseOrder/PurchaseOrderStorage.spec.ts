@@ -0,0 +1,51 @@
+import PurchaseOrderStorage, { PURCHASE_ORDER_STORAGE_KEY } from './PurchaseOrderStorage';
+
+describe('PurchaseOrderStorage', () => {
+    const values = {
+        poBuyerReference: 'Coach Smith',
+        poDocument: {
+            name: 'po-1234.pdf',
+            size: 3,
+            type: 'application/pdf',
+            url: 'https://bucket.foo.com/po-1234.pdf',
+        },
+        poNumber: 'PO-1234',
+    };
+    let storage: PurchaseOrderStorage;
+
+    beforeEach(() => {
+        window.localStorage.clear();
+
+        storage = new PurchaseOrderStorage(window.localStorage);
+    });
+
+    it('returns nothing if nothing is stored', () => {
+        expect(storage.getPurchaseOrder('cart-1')).toBeUndefined();
+    });
+
+    it('returns nothing if stored value is malformed', () => {
+        window.localStorage.setItem(PURCHASE_ORDER_STORAGE_KEY, '{');
+
+        expect(storage.getPurchaseOrder('cart-1')).toBeUndefined();
+    });
+
+    it('persists purchase order details without content of document', () => {
+        storage.setPurchaseOrder('cart-1', values);
+
+        expect(new PurchaseOrderStorage(window.localStorage).getPurchaseOrder('cart-1'))
+            .toEqual({
+                buyerReference: 'Coach Smith',
+                documentName: 'po-1234.pdf',
+                number: 'PO-1234',
+            });
+
+        expect(window.localStorage.getItem(PURCHASE_ORDER_STORAGE_KEY))
+            .not.toContain(values.poDocument.url);
+    });
+
+    it('does not return purchase order of other cart', () => {
+        storage.setPurchaseOrder('cart-1', values);
+
+        expect(storage.getPurchaseOrder('cart-2')).toBeUndefined();
+    });
+});
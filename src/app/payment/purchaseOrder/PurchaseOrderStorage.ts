@@ -0,0 +1,51 @@
+import { KeyedStorage } from '../../common/storage';
+
+import { PurchaseOrderFieldsetValues } from './PurchaseOrderFieldset';
+
+export const PURCHASE_ORDER_STORAGE_KEY = 'checkout.purchaseOrder';
+
+export interface PurchaseOrder {
+    buyerReference: string;
+    documentName?: string;
+    number: string;
+}
+
+interface StoredPurchaseOrder {
+    cartId: string;
+    purchaseOrder: PurchaseOrder;
+}
+
+/**
+ * Keeps the purchase order details of the latest order paid by PO, as they
+ * are not returned with the order, so they can be displayed on the order
+ * confirmation page. The content of the PO document is not kept.
+ */
+export default class PurchaseOrderStorage {
+    private storage: KeyedStorage<StoredPurchaseOrder>;
+
+    constructor(storage?: Storage) {
+        this.storage = new KeyedStorage(PURCHASE_ORDER_STORAGE_KEY, isStoredPurchaseOrder, storage);
+    }
+
+    getPurchaseOrder(cartId: string): PurchaseOrder | undefined {
+        const stored = this.storage.getItem();
+
+        return stored && stored.cartId === cartId ? stored.purchaseOrder : undefined;
+    }
+
+    setPurchaseOrder(cartId: string, { poBuyerReference, poDocument, poNumber }: PurchaseOrderFieldsetValues): PurchaseOrder {
+        const purchaseOrder: PurchaseOrder = {
+            buyerReference: poBuyerReference,
+            documentName: poDocument && poDocument.name,
+            number: poNumber,
+        };
+
+        return this.storage.setItem({ cartId, purchaseOrder }).purchaseOrder;
+    }
+}
+
+function isStoredPurchaseOrder(value: unknown): value is StoredPurchaseOrder {
+    return typeof value === 'object' &&
+        value !== null &&
+        typeof (value as StoredPurchaseOrder).purchaseOrder === 'object';
+}
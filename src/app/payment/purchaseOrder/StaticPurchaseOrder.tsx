@@ -0,0 +1,31 @@
+import React, { memo, FunctionComponent } from 'react';
+
+import { TranslatedString } from '../../locale';
+
+import { PurchaseOrder } from './PurchaseOrderStorage';
+
+export interface StaticPurchaseOrderProps {
+    purchaseOrder: PurchaseOrder;
+}
+
+const StaticPurchaseOrder: FunctionComponent<StaticPurchaseOrderProps> = ({
+    purchaseOrder: { buyerReference, documentName, number: poNumber },
+}) => (
+    <div className="purchaseOrder" data-test="static-purchase-order">
+        <p>
+            <TranslatedString
+                data={ { buyerReference, poNumber } }
+                id="payment.purchase_order_text"
+            />
+        </p>
+
+        { documentName && <p data-test="static-purchase-order-document">
+            <TranslatedString
+                data={ { documentName } }
+                id="payment.purchase_order_document_text"
+            />
+        </p> }
+    </div>
+);
+
+export default memo(StaticPurchaseOrder);
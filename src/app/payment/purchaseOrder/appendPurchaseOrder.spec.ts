@@ -0,0 +1,44 @@
+import { createLanguageService } from '@bigcommerce/checkout-sdk';
+
+import { removeDeliverySchedule } from '../../shipping';
+
+import appendPurchaseOrder from './appendPurchaseOrder';
+
+describe('appendPurchaseOrder()', () => {
+    const language = createLanguageService();
+    const values = {
+        poBuyerReference: 'Coach Smith',
+        poDocument: {
+            name: 'po-1234.pdf',
+            size: 3,
+            type: 'application/pdf',
+            url: 'https://bucket.foo.com/po-1234.pdf',
+        },
+        poNumber: 'PO-1234',
+    };
+
+    beforeEach(() => {
+        jest.spyOn(language, 'translate')
+            .mockImplementation((key, data) => `${key} ${JSON.stringify(data)}`);
+    });
+
+    it('appends purchase order details to comment of shopper', () => {
+        expect(appendPurchaseOrder('Leave at the door', { ...values, poDocument: undefined }, language))
+            .toEqual('Leave at the door\n\n---\npayment.purchase_order_text {"buyerReference":"Coach Smith","poNumber":"PO-1234"}');
+    });
+
+    it('appends URL of uploaded purchase order document', () => {
+        expect(appendPurchaseOrder('', values, language).split('\n').pop())
+            .toEqual('payment.purchase_order_document_message_text {"documentUrl":"https://bucket.foo.com/po-1234.pdf"}');
+    });
+
+    it('appends purchase order details after delivery schedule', () => {
+        expect(appendPurchaseOrder('Leave at the door\n\n---\nScheduled delivery', { ...values, poDocument: undefined }, language))
+            .toEqual('Leave at the door\n\n---\nScheduled delivery\npayment.purchase_order_text {"buyerReference":"Coach Smith","poNumber":"PO-1234"}');
+    });
+
+    it('does not display purchase order details as part of comment of shopper', () => {
+        expect(removeDeliverySchedule(appendPurchaseOrder('Leave at the door', values, language)))
+            .toEqual('Leave at the door');
+    });
+});
@@ -0,0 +1,37 @@
+import { LanguageService } from '@bigcommerce/checkout-sdk';
+
+import { PurchaseOrderFieldsetValues } from './PurchaseOrderFieldset';
+
+// The same separator as the one preceding the delivery schedule, so the
+// details are also left out of the comment displayed to the shopper by
+// `removeDeliverySchedule`, and replaced if the order is submitted again.
+const PURCHASE_ORDER_SEPARATOR = '\n\n---\n';
+
+/**
+ * Appends the purchase order details to the customer message of the checkout.
+ * The payment data of offline methods is not submitted with the order, so the
+ * message is how the merchant learns about the PO the order is paid by. The
+ * PO document is referred to by the URL it has been uploaded to.
+ */
+export default function appendPurchaseOrder(
+    customerMessage: string,
+    { poBuyerReference, poDocument, poNumber }: PurchaseOrderFieldsetValues,
+    language: LanguageService
+): string {
+    const lines = [
+        language.translate('payment.purchase_order_text', {
+            buyerReference: poBuyerReference,
+            poNumber,
+        }),
+    ];
+
+    if (poDocument) {
+        lines.push(language.translate('payment.purchase_order_document_message_text', {
+            documentUrl: poDocument.url,
+        }));
+    }
+
+    const separator = customerMessage.indexOf(PURCHASE_ORDER_SEPARATOR) === -1 ? PURCHASE_ORDER_SEPARATOR : '\n';
+
+    return `${customerMessage}${separator}${lines.join('\n')}`;
+}
@@ -0,0 +1,47 @@
+import { createLanguageService } from '@bigcommerce/checkout-sdk';
+
+import getPurchaseOrderValidationSchema from './getPurchaseOrderValidationSchema';
+
+describe('getPurchaseOrderValidationSchema()', () => {
+    const schema = getPurchaseOrderValidationSchema({ language: createLanguageService() });
+    const document = {
+        name: 'po-1234.pdf',
+        size: 3,
+        type: 'application/pdf',
+        url: 'https://bucket.foo.com/po-1234.pdf',
+    };
+
+    it('accepts purchase order without document', async () => {
+        expect(await schema.isValid({ poBuyerReference: 'Coach Smith', poNumber: 'PO-1234' }))
+            .toEqual(true);
+    });
+
+    it('accepts purchase order with document', async () => {
+        expect(await schema.isValid({ poBuyerReference: 'Coach Smith', poDocument: document, poNumber: 'PO-1234' }))
+            .toEqual(true);
+    });
+
+    it('requires PO number and buyer reference', async () => {
+        expect(await schema.isValid({ poBuyerReference: 'Coach Smith', poNumber: ' ' }))
+            .toEqual(false);
+
+        expect(await schema.isValid({ poBuyerReference: '', poNumber: 'PO-1234' }))
+            .toEqual(false);
+    });
+
+    it('rejects document that is too large', async () => {
+        expect(await schema.isValid({
+            poBuyerReference: 'Coach Smith',
+            poDocument: { ...document, size: 6 * 1024 * 1024 },
+            poNumber: 'PO-1234',
+        })).toEqual(false);
+    });
+
+    it('rejects document of unsupported type', async () => {
+        expect(await schema.isValid({
+            poBuyerReference: 'Coach Smith',
+            poDocument: { ...document, name: 'po-1234.docx', type: 'application/msword' },
+            poNumber: 'PO-1234',
+        })).toEqual(false);
+    });
+});
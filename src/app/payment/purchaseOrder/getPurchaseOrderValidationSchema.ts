@@ -0,0 +1,38 @@
+import { LanguageService } from '@bigcommerce/checkout-sdk';
+import { memoize } from '@bigcommerce/memoize';
+import { mixed, object, string, ObjectSchema } from 'yup';
+
+import { isFileInputValue, FileInputValue } from '../../ui/form';
+
+import { PURCHASE_ORDER_DOCUMENT_MAX_SIZE, PURCHASE_ORDER_DOCUMENT_TYPES } from './purchaseOrderDocumentRequirements';
+import { PurchaseOrderFieldsetValues } from './PurchaseOrderFieldset';
+
+export interface PurchaseOrderValidationSchemaOptions {
+    language: LanguageService;
+}
+
+export default memoize(function getPurchaseOrderValidationSchema({
+    language,
+}: PurchaseOrderValidationSchemaOptions): ObjectSchema<PurchaseOrderFieldsetValues> {
+    return object({
+        poBuyerReference: string()
+            .trim()
+            .max(50)
+            .required(language.translate('payment.purchase_order_buyer_reference_required_error')),
+        poDocument: mixed<FileInputValue | undefined>()
+            .test({
+                message: language.translate('payment.purchase_order_document_size_error', {
+                    maxSize: PURCHASE_ORDER_DOCUMENT_MAX_SIZE / 1024 / 1024,
+                }),
+                test: value => !isFileInputValue(value) || value.size === undefined || value.size <= PURCHASE_ORDER_DOCUMENT_MAX_SIZE,
+            })
+            .test({
+                message: language.translate('payment.purchase_order_document_type_error'),
+                test: value => !isFileInputValue(value) || value.type === undefined || PURCHASE_ORDER_DOCUMENT_TYPES.indexOf(value.type) > -1,
+            }),
+        poNumber: string()
+            .trim()
+            .max(50)
+            .required(language.translate('payment.purchase_order_number_required_error')),
+    });
+});
@@ -0,0 +1,5 @@
+export { default as appendPurchaseOrder } from './appendPurchaseOrder';
+export { default as getPurchaseOrderValidationSchema, PurchaseOrderValidationSchemaOptions } from './getPurchaseOrderValidationSchema';
+export { default as PurchaseOrderFieldset, isPurchaseOrderFieldsetValues, PurchaseOrderFieldsetValues } from './PurchaseOrderFieldset';
+export { default as PurchaseOrderStorage, PurchaseOrder } from './PurchaseOrderStorage';
+export { default as StaticPurchaseOrder, StaticPurchaseOrderProps } from './StaticPurchaseOrder';
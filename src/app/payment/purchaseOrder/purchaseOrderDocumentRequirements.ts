@@ -0,0 +1,7 @@
+export const PURCHASE_ORDER_DOCUMENT_MAX_SIZE = 5 * 1024 * 1024;
+
+export const PURCHASE_ORDER_DOCUMENT_TYPES = [
+    'application/pdf',
+    'image/jpeg',
+    'image/png',
+];
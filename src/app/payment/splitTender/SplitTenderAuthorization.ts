@@ -0,0 +1,10 @@
+export default interface SplitTenderAuthorization {
+    id: string;
+    amount: number;
+    /**
+     * The code of the single-use gift certificate issued for the authorized
+     * amount. It is applied to the checkout so the payment method selected in
+     * the payment form is only charged the remainder of the order.
+     */
+    giftCertificateCode: string;
+}
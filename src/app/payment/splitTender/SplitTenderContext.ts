@@ -0,0 +1,15 @@
+import { createContext } from 'react';
+
+import SplitTenderProvider from './SplitTenderProvider';
+
+export interface SplitTenderContextType {
+    splitTenderProvider?: SplitTenderProvider;
+}
+
+// The shopper cannot split the order total across two payment methods if
+// there is no provider, i.e.: if the store has not configured one.
+const SplitTenderContext = createContext<SplitTenderContextType>({
+    splitTenderProvider: undefined,
+});
+
+export default SplitTenderContext;
@@ -0,0 +1,124 @@
+import { PaymentMethod } from '@bigcommerce/checkout-sdk';
+import { FieldProps } from 'formik';
+import React, { memo, useCallback, useMemo, FunctionComponent } from 'react';
+
+import { ShopperCurrency } from '../../currency';
+import { withLanguage, TranslatedString, WithLanguageProps } from '../../locale';
+import { CheckboxFormField, Fieldset, FormField, Legend, TextInput } from '../../ui/form';
+import { getPaymentMethodName, getUniquePaymentMethodId } from '../paymentMethod';
+
+export interface SplitTenderFieldsetValues {
+    amount: string;
+    isEnabled: boolean;
+    methodId: string;
+}
+
+export interface SplitTenderFieldsetProps {
+    grandTotal: number;
+    methods: PaymentMethod[];
+    selectedMethod?: PaymentMethod;
+    values?: SplitTenderFieldsetValues;
+}
+
+interface SplitTenderMethodInputProps extends FieldProps {
+    options: Array<{ label: string; value: string }>;
+}
+
+const SplitTenderMethodInput: FunctionComponent<SplitTenderMethodInputProps> = memo(({ field, options }) => (
+    <select
+        { ...field }
+        className="form-select optimizedCheckout-form-select"
+        data-test="split-tender-method-select"
+        id={ field.name }
+    >
+        <option value="" />
+        { options.map(({ label, value }) =>
+            <option key={ value } value={ value }>
+                { label }
+            </option>
+        ) }
+    </select>
+));
+
+const SplitTenderFieldset: FunctionComponent<SplitTenderFieldsetProps & WithLanguageProps> = ({
+    grandTotal,
+    language,
+    methods,
+    selectedMethod,
+    values,
+}) => {
+    const options = useMemo(() => methods.map(method => ({
+        label: getPaymentMethodName(language)(method),
+        value: getUniquePaymentMethodId(method.id, method.gateway),
+    })), [language, methods]);
+
+    const renderMethodInput = useCallback((props: FieldProps) => (
+        <SplitTenderMethodInput { ...props } options={ options } />
+    ), [options]);
+
+    const renderAmountInput = useCallback(({ field }: FieldProps) => (
+        <TextInput
+            { ...field }
+            id={ field.name }
+            inputMode="decimal"
+            testId="split-tender-amount-input"
+        />
+    ), []);
+
+    const methodLabel = useMemo(() => (
+        <TranslatedString id="payment.split_tender_method_label" />
+    ), []);
+
+    const amountLabel = useMemo(() => (
+        <TranslatedString id="payment.split_tender_amount_label" />
+    ), []);
+
+    const amount = values ? Number(values.amount) : NaN;
+    const remainingAmount = isNaN(amount) ? grandTotal : Math.max(grandTotal - amount, 0);
+
+    return <Fieldset
+        additionalClassName="splitTenderFieldset"
+        legend={
+            <Legend hidden>
+                <TranslatedString id="payment.split_tender_heading" />
+            </Legend>
+        }
+    >
+        <CheckboxFormField
+            labelContent={ <TranslatedString id="payment.split_tender_label" /> }
+            name="splitTender.isEnabled"
+        />
+
+        { values && values.isEnabled && <div className="form-splitTenderFields">
+            <FormField
+                input={ renderMethodInput }
+                labelContent={ methodLabel }
+                name="splitTender.methodId"
+            />
+
+            <FormField
+                input={ renderAmountInput }
+                labelContent={ amountLabel }
+                name="splitTender.amount"
+            />
+
+            { selectedMethod && <p
+                className="form-splitTenderRemainder optimizedCheckout-contentSecondary"
+                data-test="split-tender-remainder"
+            >
+                <TranslatedString
+                    data={ { methodName: getPaymentMethodName(language)(selectedMethod) } }
+                    id="payment.split_tender_remainder_text"
+                />
+                { ' ' }
+                <ShopperCurrency amount={ remainingAmount } />
+            </p> }
+        </div> }
+    </Fieldset>;
+};
+
+export function isSplitTenderEnabled(values: { splitTender?: SplitTenderFieldsetValues }): boolean {
+    return !!values.splitTender && values.splitTender.isEnabled;
+}
+
+export default withLanguage(memo(SplitTenderFieldset));
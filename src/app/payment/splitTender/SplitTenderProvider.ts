@@ -0,0 +1,37 @@
+import { PaymentMethod } from '@bigcommerce/checkout-sdk';
+
+import SplitTenderAuthorization from './SplitTenderAuthorization';
+
+export interface SplitTenderAuthorizationRequest {
+    amount: number;
+    checkoutId: string;
+    currencyCode: string;
+    method: PaymentMethod;
+}
+
+export default interface SplitTenderProvider {
+    /**
+     * Returns true if the provider can authorize a part of the order with the
+     * payment method, i.e.: if it can collect the payment details for it.
+     *
+     * @param method The payment method the shopper wants to split the order
+     * total with
+     */
+    isSupported(method: PaymentMethod): boolean;
+
+    /**
+     * Authorizes the amount the shopper allocates to their second payment
+     * method, and issues a single-use gift certificate for that amount.
+     *
+     * @param request The amount and the payment method to authorize
+     */
+    authorize(request: SplitTenderAuthorizationRequest): Promise<SplitTenderAuthorization>;
+
+    /**
+     * Voids the authorization and its gift certificate. It is called if the
+     * order cannot be placed after the amount has been authorized.
+     *
+     * @param authorization The authorization to void
+     */
+    release(authorization: SplitTenderAuthorization): Promise<void>;
+}
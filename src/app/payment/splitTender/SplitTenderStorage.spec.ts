@@ -0,0 +1,39 @@
+import SplitTenderStorage, { SPLIT_TENDER_STORAGE_KEY } from './SplitTenderStorage';
+
+describe('SplitTenderStorage', () => {
+    const payment = {
+        amount: 50,
+        giftCertificateCode: 'SPLIT-1234',
+        methodName: 'PayPal',
+    };
+    let storage: SplitTenderStorage;
+
+    beforeEach(() => {
+        window.localStorage.clear();
+
+        storage = new SplitTenderStorage(window.localStorage);
+    });
+
+    it('returns nothing if nothing is stored', () => {
+        expect(storage.getPayment('cart-1')).toBeUndefined();
+    });
+
+    it('returns nothing if stored value is malformed', () => {
+        window.localStorage.setItem(SPLIT_TENDER_STORAGE_KEY, '{');
+
+        expect(storage.getPayment('cart-1')).toBeUndefined();
+    });
+
+    it('persists split tender payment', () => {
+        storage.setPayment('cart-1', payment);
+
+        expect(new SplitTenderStorage(window.localStorage).getPayment('cart-1'))
+            .toEqual(payment);
+    });
+
+    it('does not return split tender payment of other cart', () => {
+        storage.setPayment('cart-1', payment);
+
+        expect(storage.getPayment('cart-2')).toBeUndefined();
+    });
+});
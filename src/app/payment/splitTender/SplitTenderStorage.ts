@@ -0,0 +1,44 @@
+import { KeyedStorage } from '../../common/storage';
+
+export const SPLIT_TENDER_STORAGE_KEY = 'checkout.splitTender';
+
+export interface SplitTenderPayment {
+    amount: number;
+    giftCertificateCode: string;
+    methodName: string;
+}
+
+interface StoredSplitTenderPayment {
+    cartId: string;
+    payment: SplitTenderPayment;
+}
+
+/**
+ * Keeps the second payment of the latest order paid with two payment methods.
+ * The order only records it as a gift certificate, so the name of the method
+ * it was paid with is needed to break down the payments of the order on the
+ * order confirmation page.
+ */
+export default class SplitTenderStorage {
+    private storage: KeyedStorage<StoredSplitTenderPayment>;
+
+    constructor(storage?: Storage) {
+        this.storage = new KeyedStorage(SPLIT_TENDER_STORAGE_KEY, isStoredSplitTenderPayment, storage);
+    }
+
+    getPayment(cartId: string): SplitTenderPayment | undefined {
+        const stored = this.storage.getItem();
+
+        return stored && stored.cartId === cartId ? stored.payment : undefined;
+    }
+
+    setPayment(cartId: string, payment: SplitTenderPayment): SplitTenderPayment {
+        return this.storage.setItem({ cartId, payment }).payment;
+    }
+}
+
+function isStoredSplitTenderPayment(value: unknown): value is StoredSplitTenderPayment {
+    return typeof value === 'object' &&
+        value !== null &&
+        typeof (value as StoredSplitTenderPayment).payment === 'object';
+}
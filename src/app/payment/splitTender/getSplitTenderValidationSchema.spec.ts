@@ -0,0 +1,54 @@
+import { createLanguageService } from '@bigcommerce/checkout-sdk';
+
+import getSplitTenderValidationSchema from './getSplitTenderValidationSchema';
+
+describe('getSplitTenderValidationSchema()', () => {
+    const schema = getSplitTenderValidationSchema({
+        decimalPlaces: 2,
+        grandTotal: 190,
+        language: createLanguageService(),
+    });
+
+    it('accepts any values if split tender is not enabled', async () => {
+        expect(await schema.isValid({ splitTender: { amount: '', isEnabled: false, methodId: '' } }))
+            .toEqual(true);
+    });
+
+    it('accepts amount less than order total', async () => {
+        expect(await schema.isValid({ splitTender: { amount: '50.5', isEnabled: true, methodId: 'paypal' } }))
+            .toEqual(true);
+    });
+
+    it('requires amount and payment method', async () => {
+        expect(await schema.isValid({ splitTender: { amount: '', isEnabled: true, methodId: 'paypal' } }))
+            .toEqual(false);
+
+        expect(await schema.isValid({ splitTender: { amount: '50', isEnabled: true, methodId: '' } }))
+            .toEqual(false);
+    });
+
+    it('rejects amount that is not a part of order total', async () => {
+        expect(await schema.isValid({ splitTender: { amount: '0', isEnabled: true, methodId: 'paypal' } }))
+            .toEqual(false);
+
+        expect(await schema.isValid({ splitTender: { amount: '190', isEnabled: true, methodId: 'paypal' } }))
+            .toEqual(false);
+
+        expect(await schema.isValid({ splitTender: { amount: 'abc', isEnabled: true, methodId: 'paypal' } }))
+            .toEqual(false);
+    });
+
+    it('rejects amount with more decimal places than currency of order', async () => {
+        expect(await schema.isValid({ splitTender: { amount: '10.005', isEnabled: true, methodId: 'paypal' } }))
+            .toEqual(false);
+
+        expect(await getSplitTenderValidationSchema({ decimalPlaces: 0, grandTotal: 190, language: createLanguageService() })
+            .isValid({ splitTender: { amount: '10.5', isEnabled: true, methodId: 'paypal' } }))
+            .toEqual(false);
+    });
+
+    it('accepts amount with trailing zeros', async () => {
+        expect(await schema.isValid({ splitTender: { amount: '10.10', isEnabled: true, methodId: 'paypal' } }))
+            .toEqual(true);
+    });
+});
@@ -0,0 +1,63 @@
+import { LanguageService } from '@bigcommerce/checkout-sdk';
+import { memoize } from '@bigcommerce/memoize';
+import { round } from 'lodash';
+import { boolean, object, string, ObjectSchema } from 'yup';
+
+import { PaymentFormValues } from '../PaymentForm';
+
+export interface SplitTenderValidationSchemaOptions {
+    decimalPlaces: number;
+    grandTotal: number;
+    language: LanguageService;
+}
+
+/**
+ * Both payment methods have to be charged a part of the order total, so the
+ * amount allocated to the second method has to be less than the total. It
+ * also cannot be more precise than the currency of the order can be charged.
+ */
+export default memoize(function getSplitTenderValidationSchema({
+    decimalPlaces,
+    grandTotal,
+    language,
+}: SplitTenderValidationSchemaOptions): ObjectSchema<Partial<PaymentFormValues>> {
+    return object({
+        splitTender: object({
+            amount: string()
+                .test({
+                    message: language.translate('payment.split_tender_amount_required_error'),
+                    test(value) {
+                        return !this.parent.isEnabled || !!value;
+                    },
+                })
+                .test({
+                    message: language.translate('payment.split_tender_amount_invalid_error'),
+                    test(value) {
+                        const amount = Number(value);
+
+                        return !this.parent.isEnabled ||
+                            !value ||
+                            (!isNaN(amount) && amount > 0 && amount < grandTotal);
+                    },
+                })
+                .test({
+                    message: language.translate('payment.split_tender_amount_decimal_places_error', { decimalPlaces }),
+                    test(value) {
+                        const amount = Number(value);
+
+                        return !this.parent.isEnabled ||
+                            isNaN(amount) ||
+                            round(amount, decimalPlaces) === amount;
+                    },
+                }),
+            isEnabled: boolean(),
+            methodId: string()
+                .test({
+                    message: language.translate('payment.split_tender_method_required_error'),
+                    test(value) {
+                        return !this.parent.isEnabled || !!value;
+                    },
+                }),
+        }),
+    });
+});
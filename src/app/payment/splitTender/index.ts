@@ -0,0 +1,7 @@
+export { default as getSplitTenderValidationSchema, SplitTenderValidationSchemaOptions } from './getSplitTenderValidationSchema';
+export { default as withSplitTender, WithSplitTenderProps } from './withSplitTender';
+export { default as SplitTenderAuthorization } from './SplitTenderAuthorization';
+export { default as SplitTenderContext, SplitTenderContextType } from './SplitTenderContext';
+export { default as SplitTenderFieldset, isSplitTenderEnabled, SplitTenderFieldsetProps, SplitTenderFieldsetValues } from './SplitTenderFieldset';
+export { default as SplitTenderProvider, SplitTenderAuthorizationRequest } from './SplitTenderProvider';
+export { default as SplitTenderStorage, SplitTenderPayment } from './SplitTenderStorage';
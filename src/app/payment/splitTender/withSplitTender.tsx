@@ -0,0 +1,11 @@
+import { createInjectHoc, InjectHoc } from '../../common/hoc';
+
+import SplitTenderContext, { SplitTenderContextType } from './SplitTenderContext';
+
+export type WithSplitTenderProps = SplitTenderContextType;
+
+const withSplitTender: InjectHoc<WithSplitTenderProps> = createInjectHoc(SplitTenderContext, {
+    displayNamePrefix: 'WithSplitTender',
+});
+
+export default withSplitTender;
@@ -0,0 +1,12 @@
+import QuoteStatus from './QuoteStatus';
+import QuoteType from './QuoteType';
+
+export default interface Quote {
+    artworkUrls: string[];
+    checkoutId: string;
+    id: string;
+    message: string;
+    price?: number;
+    quoteType: QuoteType;
+    status: QuoteStatus;
+}
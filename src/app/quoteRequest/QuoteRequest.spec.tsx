@@ -0,0 +1,235 @@
+import { mount, ReactWrapper } from 'enzyme';
+import { noop } from 'lodash';
+import React from 'react';
+
+import { HttpRequestError } from '../common/http';
+import { getResponse } from '../common/request/responses.mock';
+import { getStoreConfig } from '../config/config.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../locale';
+
+import { ArtworkUploadStatus } from './artwork';
+import { QuoteAcceptanceError, QuoteRequestSubmissionError } from './errors';
+import { getAcceptedQuote, getPricedQuote, getQuote } from './quotes.mock';
+import QuoteRequest, { QuoteRequestProps } from './QuoteRequest';
+import QuoteRequestForm from './QuoteRequestForm';
+import QuoteRequestService from './QuoteRequestService';
+import QuoteSummary from './QuoteSummary';
+import QuoteType from './QuoteType';
+
+describe('QuoteRequest', () => {
+    let localeContext: LocaleContextType;
+    let defaultProps: QuoteRequestProps;
+    let quoteRequestService: QuoteRequestService;
+
+    beforeEach(() => {
+        localeContext = createLocaleContext(getStoreConfig());
+        quoteRequestService = new QuoteRequestService({ apiBaseUrl: 'https://orders.foo.com/api/v1' });
+
+        jest.spyOn(quoteRequestService, 'submitQuote')
+            .mockResolvedValue(getQuote());
+
+        defaultProps = {
+            checkoutId: 'abc',
+            quoteRequestService,
+            onAccept: jest.fn(),
+            onSubmit: jest.fn(),
+            onUnhandledError: jest.fn(),
+        };
+    });
+
+    function mountComponent(props: QuoteRequestProps = defaultProps): ReactWrapper {
+        return mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <QuoteRequest { ...props } />
+            </LocaleContext.Provider>
+        );
+    }
+
+    it('renders quote request form', () => {
+        expect(mountComponent().find(QuoteRequestForm).length)
+            .toEqual(1);
+    });
+
+    it('submits quote request and shows confirmation text', async () => {
+        const component = mountComponent();
+
+        component.find(QuoteRequestForm).prop('onSubmit')({
+            artworks: [
+                {
+                    id: 'artwork-1',
+                    name: 'logo.png',
+                    progress: 1,
+                    publicUrl: 'https://bucket.foo.com/logo.png',
+                    status: ArtworkUploadStatus.Uploaded,
+                },
+                {
+                    id: 'artwork-2',
+                    name: 'logo.ai',
+                    progress: 1,
+                    publicUrl: 'https://bucket.foo.com/logo.ai',
+                    status: ArtworkUploadStatus.Uploaded,
+                },
+            ],
+            message: 'Left chest logo',
+            quoteType: QuoteType.Embroidery,
+        });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        component.update();
+
+        expect(quoteRequestService.submitQuote)
+            .toHaveBeenCalledWith({
+                checkoutId: 'abc',
+                message: 'Left chest logo',
+                publicUrls: [
+                    'https://bucket.foo.com/logo.png',
+                    'https://bucket.foo.com/logo.ai',
+                ],
+                quoteType: 'embroidery',
+            }, {
+                cancel: expect.any(Promise),
+            });
+
+        expect(defaultProps.onSubmit)
+            .toHaveBeenCalledWith(getQuote());
+
+        expect(component.find(QuoteSummary).prop('quote'))
+            .toEqual(getQuote());
+    });
+
+    it('renders summary instead of form if quote has already been submitted', () => {
+        const component = mountComponent({ ...defaultProps, quote: getQuote() });
+
+        expect(component.find(QuoteRequestForm).length)
+            .toEqual(0);
+        expect(component.find(QuoteSummary).prop('quote'))
+            .toEqual(getQuote());
+    });
+
+    it('accepts priced quote and notifies parent', async () => {
+        jest.spyOn(quoteRequestService, 'acceptQuote')
+            .mockResolvedValue(getAcceptedQuote());
+
+        const component = mountComponent({ ...defaultProps, quote: getPricedQuote() });
+
+        component.find('[data-test="quote-summary-accept-button"]')
+            .simulate('click');
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(quoteRequestService.acceptQuote)
+            .toHaveBeenCalledWith('abc', { cancel: expect.any(Promise) });
+        expect(defaultProps.onAccept)
+            .toHaveBeenCalledWith(getAcceptedQuote());
+        expect(component.update().find(QuoteSummary).prop('quote'))
+            .toEqual(getAcceptedQuote());
+    });
+
+    it('notifies parent if unable to accept quote', async () => {
+        jest.spyOn(quoteRequestService, 'acceptQuote')
+            .mockRejectedValue(new Error());
+
+        const component = mountComponent({ ...defaultProps, quote: getPricedQuote() });
+
+        component.find('[data-test="quote-summary-accept-button"]')
+            .simulate('click');
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(defaultProps.onAccept)
+            .not.toHaveBeenCalled();
+        expect(defaultProps.onUnhandledError)
+            .toHaveBeenCalledWith(expect.any(QuoteAcceptanceError));
+        expect(component.update().find(QuoteSummary).prop('isAccepting'))
+            .toEqual(false);
+    });
+
+    it('uploads artwork using service', async () => {
+        const file = new File(['foo'], 'logo.png', { type: 'image/png' });
+        const options = { onProgress: jest.fn() };
+
+        jest.spyOn(quoteRequestService, 'uploadArtwork')
+            .mockResolvedValue('https://bucket.foo.com/logo.png');
+
+        const component = mountComponent();
+
+        expect(await component.find(QuoteRequestForm).prop('onUploadArtwork')(file, options))
+            .toEqual('https://bucket.foo.com/logo.png');
+
+        expect(quoteRequestService.uploadArtwork)
+            .toHaveBeenCalledWith(file, options);
+    });
+
+    it('notifies parent if unable to submit quote request', async () => {
+        jest.spyOn(quoteRequestService, 'submitQuote')
+            .mockRejectedValue(new Error());
+
+        const component = mountComponent();
+
+        component.find(QuoteRequestForm).prop('onSubmit')({
+            artworks: [],
+            message: '',
+            quoteType: QuoteType.Screen,
+        });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(defaultProps.onUnhandledError)
+            .toHaveBeenCalledWith(expect.any(QuoteRequestSubmissionError));
+    });
+
+    it('notifies parent with error returned by server if quote request is rejected', async () => {
+        const error = new HttpRequestError(
+            getResponse({ detail: 'A quote has already been requested' }, {}, 422),
+            { method: 'POST', url: '/orders/checkout' }
+        );
+
+        jest.spyOn(quoteRequestService, 'submitQuote')
+            .mockRejectedValue(error);
+
+        const component = mountComponent();
+
+        component.find(QuoteRequestForm).prop('onSubmit')({
+            artworks: [],
+            message: '',
+            quoteType: QuoteType.Screen,
+        });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(defaultProps.onUnhandledError)
+            .toHaveBeenCalledWith(error);
+    });
+
+    it('cancels pending submission when unmounted', async () => {
+        let cancel: Promise<void> | undefined;
+
+        jest.spyOn(quoteRequestService, 'submitQuote')
+            .mockImplementation((_, options = {}) => {
+                cancel = options.cancel;
+
+                return new Promise(noop);
+            });
+
+        const component = mountComponent();
+
+        component.find(QuoteRequestForm).prop('onSubmit')({
+            artworks: [],
+            message: '',
+            quoteType: QuoteType.Screen,
+        });
+
+        const handleCancel = jest.fn();
+
+        // tslint:disable-next-line:no-non-null-assertion
+        cancel!.then(handleCancel);
+
+        component.unmount();
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(handleCancel)
+            .toHaveBeenCalled();
+    });
+});
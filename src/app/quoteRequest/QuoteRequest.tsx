@@ -0,0 +1,170 @@
+import React, { Component, ReactNode } from 'react';
+
+import { createCancellation, HttpRequestCancelledError, HttpRequestError } from '../common/http';
+import { UploadFileOptions } from '../common/upload';
+import { LoadingOverlay } from '../ui/loading';
+
+import { QuoteAcceptanceError, QuoteRequestSubmissionError } from './errors';
+import { QuoteRequestFormValues } from './getQuoteRequestValidationSchema';
+import Quote from './Quote';
+import QuoteRequestForm from './QuoteRequestForm';
+import QuoteRequestService from './QuoteRequestService';
+import QuoteSummary from './QuoteSummary';
+
+export interface QuoteRequestProps {
+    checkoutId: string;
+    isLoadingQuote?: boolean;
+    maxArtworkFileSize?: number;
+    quote?: Quote;
+    quoteRequestService: QuoteRequestService;
+    onAccept?(quote: Quote): void;
+    onSubmit?(quote: Quote): void;
+    onUnhandledError(error: Error): void;
+}
+
+export interface QuoteRequestState {
+    acceptedQuote?: Quote;
+    isAccepting: boolean;
+    isSubmitting: boolean;
+    submittedQuote?: Quote;
+}
+
+export default class QuoteRequest extends Component<QuoteRequestProps, QuoteRequestState> {
+    state: QuoteRequestState = {
+        isAccepting: false,
+        isSubmitting: false,
+    };
+
+    private cancellation = createCancellation();
+
+    componentWillUnmount(): void {
+        this.cancellation.cancel();
+    }
+
+    render(): ReactNode {
+        const {
+            isLoadingQuote = false,
+            maxArtworkFileSize,
+            quote,
+        } = this.props;
+
+        const {
+            acceptedQuote,
+            isAccepting,
+            isSubmitting,
+            submittedQuote,
+        } = this.state;
+
+        const currentQuote = acceptedQuote || quote || submittedQuote;
+
+        if (currentQuote) {
+            return (
+                <QuoteSummary
+                    isAccepting={ isAccepting }
+                    onAccept={ this.handleAccept }
+                    quote={ currentQuote }
+                />
+            );
+        }
+
+        return (
+            <LoadingOverlay isLoading={ isLoadingQuote }>
+                <QuoteRequestForm
+                    isSubmitting={ isSubmitting }
+                    maxArtworkFileSize={ maxArtworkFileSize }
+                    onSubmit={ this.handleSubmit }
+                    onUploadArtwork={ this.handleUploadArtwork }
+                />
+            </LoadingOverlay>
+        );
+    }
+
+    // Upload failures are reported next to each file by the form, where they
+    // can be retried, so they are not treated as unhandled errors here.
+    private handleUploadArtwork: (file: File, options: UploadFileOptions) => Promise<string> = (file, options) => {
+        const { quoteRequestService } = this.props;
+
+        return quoteRequestService.uploadArtwork(file, options);
+    };
+
+    private handleSubmit: (values: QuoteRequestFormValues) => Promise<void> = async ({
+        artworks,
+        message,
+        quoteType,
+    }) => {
+        const {
+            checkoutId,
+            quoteRequestService,
+            onSubmit,
+            onUnhandledError,
+        } = this.props;
+
+        this.setState({ isSubmitting: true });
+
+        try {
+            const submittedQuote = await quoteRequestService.submitQuote({
+                checkoutId,
+                message,
+                publicUrls: artworks.map(({ publicUrl }) => publicUrl || ''),
+                quoteType,
+            }, {
+                cancel: this.cancellation.promise,
+            });
+
+            this.setState({ isSubmitting: false, submittedQuote });
+
+            if (onSubmit) {
+                onSubmit(submittedQuote);
+            }
+        } catch (error) {
+            if (error instanceof HttpRequestCancelledError) {
+                return;
+            }
+
+            this.setState({ isSubmitting: false });
+
+            // Client errors carry a message from the server explaining why the
+            // quote request was rejected, which is more useful to the shopper.
+            onUnhandledError(error instanceof HttpRequestError && error.status >= 400 && error.status < 500 ?
+                error :
+                new QuoteRequestSubmissionError(error)
+            );
+        }
+    };
+
+    // The shopper pays the quoted price once they accept it, so the parent is
+    // notified in order to apply the price to the checkout.
+    private handleAccept: () => Promise<void> = async () => {
+        const {
+            checkoutId,
+            quoteRequestService,
+            onAccept,
+            onUnhandledError,
+        } = this.props;
+
+        this.setState({ isAccepting: true });
+
+        try {
+            const acceptedQuote = await quoteRequestService.acceptQuote(checkoutId, {
+                cancel: this.cancellation.promise,
+            });
+
+            this.setState({ acceptedQuote, isAccepting: false });
+
+            if (onAccept) {
+                onAccept(acceptedQuote);
+            }
+        } catch (error) {
+            if (error instanceof HttpRequestCancelledError) {
+                return;
+            }
+
+            this.setState({ isAccepting: false });
+
+            onUnhandledError(error instanceof HttpRequestError && error.status >= 400 && error.status < 500 ?
+                error :
+                new QuoteAcceptanceError(error)
+            );
+        }
+    };
+}
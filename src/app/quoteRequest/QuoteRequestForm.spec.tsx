@@ -0,0 +1,130 @@
+import { mount, ReactWrapper } from 'enzyme';
+import { noop } from 'lodash';
+import React from 'react';
+
+import { getStoreConfig } from '../config/config.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../locale';
+
+import QuoteRequestForm from './QuoteRequestForm';
+
+describe('QuoteRequestForm', () => {
+    let localeContext: LocaleContextType;
+    let component: ReactWrapper;
+    let handleSubmit: jest.Mock;
+    let handleUploadArtwork: jest.Mock;
+
+    beforeEach(() => {
+        localeContext = createLocaleContext(getStoreConfig());
+        handleSubmit = jest.fn();
+        handleUploadArtwork = jest.fn(() => Promise.resolve('https://bucket.foo.com/logo.png'));
+
+        component = mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <QuoteRequestForm
+                    onSubmit={ handleSubmit }
+                    onUploadArtwork={ handleUploadArtwork }
+                />
+            </LocaleContext.Provider>
+        );
+    });
+
+    it('renders quote type options', () => {
+        expect(component.find('input[name="quoteType"]').map(input => input.prop('value')))
+            .toEqual(['screen', 'embroidery', 'unsure']);
+    });
+
+    it('selects screen printing by default', () => {
+        expect(component.find('[data-test="quote-type-screen-radio"]').prop('checked'))
+            .toEqual(true);
+    });
+
+    it('uploads artwork when file is selected', async () => {
+        const file = new File(['foo'], 'logo.png', { type: 'image/png' });
+
+        component.find('[data-test="quote-request-artwork-input"]')
+            .simulate('change', { target: { files: [file] } });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(handleUploadArtwork)
+            .toHaveBeenCalledWith(file, {
+                cancel: expect.any(Promise),
+                onProgress: expect.any(Function),
+            });
+    });
+
+    it('disables submit button until artwork is uploaded', async () => {
+        const file = new File(['foo'], 'logo.png', { type: 'image/png' });
+
+        handleUploadArtwork.mockReturnValue(new Promise(noop));
+
+        component.find('[data-test="quote-request-artwork-input"]')
+            .simulate('change', { target: { files: [file] } });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        component.update();
+
+        expect(component.find('button[type="submit"]').prop('disabled'))
+            .toEqual(true);
+    });
+
+    it('does not submit form if any artwork has failed to upload', async () => {
+        const file = new File(['foo'], 'logo.png', { type: 'image/png' });
+
+        handleUploadArtwork.mockRejectedValue(new Error());
+
+        component.find('[data-test="quote-request-artwork-input"]')
+            .simulate('change', { target: { files: [file] } });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        component.find('form')
+            .simulate('submit');
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        component.update();
+
+        expect(handleSubmit)
+            .not.toHaveBeenCalled();
+
+        expect(component.find('[data-test="quote-request-artwork-field-error-message"]').text())
+            .toEqual(localeContext.language.translate('quote_request.artwork_incomplete_error'));
+    });
+
+    it('submits form with selected values', async () => {
+        const file = new File(['foo'], 'logo.png', { type: 'image/png' });
+
+        component.find('[data-test="quote-type-embroidery-radio"]')
+            .simulate('change', { target: { value: 'embroidery', name: 'quoteType' } });
+
+        component.find('[data-test="quote-request-artwork-input"]')
+            .simulate('change', { target: { files: [file] } });
+
+        component.find('textarea[name="message"]')
+            .simulate('change', { target: { value: 'Left chest logo', name: 'message' } });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        component.find('form')
+            .simulate('submit');
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(handleSubmit)
+            .toHaveBeenCalledWith({
+                artworks: [{
+                    errorMessage: undefined,
+                    id: expect.any(String),
+                    name: 'logo.png',
+                    previewUrl: undefined,
+                    progress: 1,
+                    publicUrl: 'https://bucket.foo.com/logo.png',
+                    status: 'uploaded',
+                }],
+                message: 'Left chest logo',
+                quoteType: 'embroidery',
+            });
+    });
+});
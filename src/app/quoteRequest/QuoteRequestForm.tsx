@@ -0,0 +1,98 @@
+import { withFormik, FieldProps, FormikProps } from 'formik';
+import React, { useCallback, useContext, FunctionComponent } from 'react';
+
+import { AnalyticsContext, AnalyticsEventType } from '../analytics';
+import { UploadFileOptions } from '../common/upload';
+import { withLanguage, TranslatedString, WithLanguageProps } from '../locale';
+import { Button, ButtonVariant } from '../ui/button';
+import { Fieldset, Form, FormField, Label, TextArea } from '../ui/form';
+
+import { ArtworkUploadField, ArtworkUploadStatus } from './artwork';
+import getQuoteRequestValidationSchema, { QuoteRequestFormValues } from './getQuoteRequestValidationSchema';
+import QuoteType from './QuoteType';
+import QuoteTypeField from './QuoteTypeField';
+
+export interface QuoteRequestFormProps {
+    isSubmitting?: boolean;
+    maxArtworkFileSize?: number;
+    onSubmit(values: QuoteRequestFormValues): void;
+    onUploadArtwork(file: File, options: UploadFileOptions): Promise<string>;
+}
+
+const QuoteRequestForm: FunctionComponent<QuoteRequestFormProps & WithLanguageProps & FormikProps<QuoteRequestFormValues>> = ({
+    isSubmitting,
+    maxArtworkFileSize,
+    onUploadArtwork,
+    values: { artworks },
+}) => {
+    const { analytics } = useContext(AnalyticsContext);
+
+    const handleValidationError = useCallback((fields: string[]) => {
+        analytics.emit({ type: AnalyticsEventType.ValidationError, fields, form: 'quote-request-form' });
+    }, [analytics]);
+
+    const isUploading = artworks.some(({ status }) => status === ArtworkUploadStatus.Uploading);
+
+    const renderMessageLabel = useCallback(name => (
+        <Label htmlFor={ name }>
+            <TranslatedString id="quote_request.message_label" />
+        </Label>
+    ), []);
+
+    const renderMessageInput = useCallback(({ field }: FieldProps) => (
+        <TextArea
+            { ...field }
+            id={ field.name }
+            maxLength={ 2000 }
+            testId="quote-request-message-input"
+        />
+    ), []);
+
+    return (
+        <Form
+            className="checkout-form"
+            onValidationError={ handleValidationError }
+            testId="quote-request-form"
+        >
+            <Fieldset>
+                <QuoteTypeField />
+
+                <ArtworkUploadField
+                    maxFileSize={ maxArtworkFileSize }
+                    onUpload={ onUploadArtwork }
+                />
+
+                <FormField
+                    input={ renderMessageInput }
+                    label={ renderMessageLabel }
+                    name="message"
+                />
+            </Fieldset>
+
+            <div className="form-actions">
+                <Button
+                    disabled={ isUploading }
+                    id="checkout-quote-request-continue"
+                    isLoading={ isSubmitting }
+                    type="submit"
+                    variant={ ButtonVariant.Primary }
+                >
+                    <TranslatedString id="quote_request.submit_quote_action" />
+                </Button>
+            </div>
+        </Form>
+    );
+};
+
+export default withLanguage(withFormik<QuoteRequestFormProps & WithLanguageProps, QuoteRequestFormValues>({
+    mapPropsToValues: () => ({
+        artworks: [],
+        message: '',
+        quoteType: QuoteType.Screen,
+    }),
+    handleSubmit: (values, { props: { onSubmit } }) => {
+        onSubmit(values);
+    },
+    validationSchema: ({ language }: QuoteRequestFormProps & WithLanguageProps) =>
+        getQuoteRequestValidationSchema({ language }),
+})(QuoteRequestForm));
@@ -0,0 +1,7 @@
+export default interface QuoteRequestOptions {
+    apiBaseUrl: string;
+    maxArtworkFileSize?: number;
+    restrictedBrandsPath?: string;
+    restrictedBrandsModalHeading?: string;
+    restrictedBrandsModalText?: string;
+}
@@ -0,0 +1,349 @@
+import { HttpClient, HttpRequestError } from '../common/http';
+import { getResponse } from '../common/request/responses.mock';
+import { FileUploadError } from '../common/upload';
+
+import { ArtworkUploadError } from './errors';
+import { getAcceptedQuote, getQuote, getQuoteResponseBody } from './quotes.mock';
+import { createMockQuoteRequestBackend } from './quoteRequestBackend.mock';
+import QuoteRequestService from './QuoteRequestService';
+import QuoteStatus from './QuoteStatus';
+import QuoteType from './QuoteType';
+
+describe('QuoteRequestService', () => {
+    let service: QuoteRequestService;
+    let httpClient: HttpClient;
+
+    beforeEach(() => {
+        httpClient = new HttpClient({ baseUrl: 'https://orders.foo.com/api/v1/' });
+        service = new QuoteRequestService({ apiBaseUrl: 'https://orders.foo.com/api/v1/' }, httpClient);
+    });
+
+    describe('#loadRestrictedBrands()', () => {
+        beforeEach(() => {
+            jest.spyOn(httpClient, 'get').mockResolvedValue({
+                data: [{ name: 'Nike' }, { name: 'OFS' }],
+            });
+        });
+
+        it('requests restricted brands from default endpoint', async () => {
+            await service.loadRestrictedBrands();
+
+            expect(httpClient.get)
+                .toHaveBeenCalledWith('/restricted_brands', { cancel: undefined });
+        });
+
+        it('requests restricted brands from configured endpoint', async () => {
+            service = new QuoteRequestService({
+                apiBaseUrl: 'https://orders.foo.com/api/v1',
+                restrictedBrandsPath: '/brands/restricted',
+            }, httpClient);
+
+            await service.loadRestrictedBrands();
+
+            expect(httpClient.get)
+                .toHaveBeenCalledWith('/brands/restricted', { cancel: undefined });
+        });
+
+        it('returns list of brand names', async () => {
+            expect(await service.loadRestrictedBrands())
+                .toEqual(['Nike', 'OFS']);
+        });
+    });
+
+    describe('#uploadArtwork()', () => {
+        let file: File;
+        let upload: jest.Mock;
+
+        beforeEach(() => {
+            file = new File(['foo'], 'logo.png', { type: 'image/png' });
+            upload = jest.fn().mockResolvedValue(undefined);
+            service = new QuoteRequestService({ apiBaseUrl: 'https://orders.foo.com/api/v1/' }, httpClient, upload);
+
+            jest.spyOn(httpClient, 'get').mockResolvedValue({
+                presigned_url: 'https://bucket.foo.com/logo.png?signature=abc',
+                public_url: 'https://bucket.foo.com/logo.png',
+            });
+        });
+
+        it('requests presigned URL for file', async () => {
+            await service.uploadArtwork(file);
+
+            expect(httpClient.get)
+                .toHaveBeenCalledWith('/attachments/presigned_url', {
+                    cancel: undefined,
+                    params: { filename: 'logo.png' },
+                });
+        });
+
+        it('uploads file to presigned URL', async () => {
+            const options = { onProgress: jest.fn() };
+
+            await service.uploadArtwork(file, options);
+
+            expect(upload)
+                .toHaveBeenCalledWith('https://bucket.foo.com/logo.png?signature=abc', file, options);
+        });
+
+        it('returns public URL of uploaded file', async () => {
+            expect(await service.uploadArtwork(file))
+                .toEqual('https://bucket.foo.com/logo.png');
+        });
+
+        it('throws artwork upload error if upload fails', async () => {
+            upload.mockRejectedValue(new FileUploadError({ status: 500 }));
+
+            await expect(service.uploadArtwork(file))
+                .rejects.toEqual(new ArtworkUploadError({ status: 500 }));
+
+            expect(httpClient.get)
+                .toHaveBeenCalledTimes(1);
+        });
+
+        it('does not upload file if presigned URL cannot be requested', async () => {
+            const error = new HttpRequestError(getResponse({}, {}, 500), { method: 'GET', url: '/attachments/presigned_url' });
+
+            jest.spyOn(httpClient, 'get').mockRejectedValue(error);
+
+            await expect(service.uploadArtwork(file))
+                .rejects.toEqual(error);
+
+            expect(upload)
+                .not.toHaveBeenCalled();
+        });
+    });
+
+    describe('#loadQuote()', () => {
+        it('requests quote submitted for checkout', async () => {
+            jest.spyOn(httpClient, 'get').mockResolvedValue(getQuoteResponseBody());
+
+            await service.loadQuote('abc');
+
+            expect(httpClient.get)
+                .toHaveBeenCalledWith('/orders/checkout/abc', { cancel: undefined, ignoredStatuses: [404] });
+        });
+
+        it('returns quote', async () => {
+            jest.spyOn(httpClient, 'get').mockResolvedValue(getQuoteResponseBody());
+
+            expect(await service.loadQuote('abc'))
+                .toEqual(getQuote());
+        });
+
+        it('returns price of quote if it is priced', async () => {
+            jest.spyOn(httpClient, 'get').mockResolvedValue({
+                data: {
+                    ...getQuoteResponseBody().data,
+                    price: '150.00',
+                    status: 'priced',
+                },
+            });
+
+            expect(await service.loadQuote('abc'))
+                .toEqual(expect.objectContaining({ price: 150, status: 'priced' }));
+        });
+
+        it('returns nothing if quote has not been submitted', async () => {
+            jest.spyOn(httpClient, 'get').mockRejectedValue(
+                new HttpRequestError(getResponse({}, {}, 404), { method: 'GET', url: '/orders/checkout/abc' })
+            );
+
+            expect(await service.loadQuote('abc'))
+                .toBeUndefined();
+        });
+
+        it('throws error if unable to load quote', async () => {
+            const error = new HttpRequestError(getResponse({}, {}, 500), { method: 'GET', url: '/orders/checkout/abc' });
+
+            jest.spyOn(httpClient, 'get').mockRejectedValue(error);
+
+            await expect(service.loadQuote('abc'))
+                .rejects.toEqual(error);
+        });
+    });
+
+    describe('#submitQuote()', () => {
+        beforeEach(() => {
+            jest.spyOn(httpClient, 'post').mockResolvedValue(getQuoteResponseBody());
+        });
+
+        it('posts quote request', async () => {
+            await service.submitQuote({
+                checkoutId: 'abc',
+                message: 'Left chest logo',
+                publicUrls: [
+                    'https://bucket.foo.com/logo.png',
+                    'https://bucket.foo.com/logo.ai',
+                ],
+                quoteType: QuoteType.Embroidery,
+            });
+
+            expect(httpClient.post)
+                .toHaveBeenCalledWith('/orders/checkout', {
+                    body: {
+                        checkoutId: 'abc',
+                        message: 'Left chest logo',
+                        public_url: 'https://bucket.foo.com/logo.png',
+                        public_urls: [
+                            'https://bucket.foo.com/logo.png',
+                            'https://bucket.foo.com/logo.ai',
+                        ],
+                        quoteType: 'embroidery',
+                    },
+                    cancel: undefined,
+                });
+        });
+
+        it('returns submitted quote', async () => {
+            expect(await service.submitQuote({
+                checkoutId: 'abc',
+                message: 'Left chest logo',
+                publicUrls: ['https://bucket.foo.com/logo.png'],
+                quoteType: QuoteType.Embroidery,
+            })).toEqual(getQuote());
+        });
+    });
+
+    describe('#acceptQuote()', () => {
+        beforeEach(() => {
+            const body = getQuoteResponseBody();
+
+            jest.spyOn(httpClient, 'post').mockResolvedValue({
+                data: { ...body.data, price: '150.00', status: QuoteStatus.Accepted },
+            });
+        });
+
+        it('posts acceptance of quote submitted for checkout', async () => {
+            await service.acceptQuote('abc');
+
+            expect(httpClient.post)
+                .toHaveBeenCalledWith('/orders/checkout/abc/accept', { cancel: undefined });
+        });
+
+        it('returns accepted quote', async () => {
+            expect(await service.acceptQuote('abc'))
+                .toEqual(getAcceptedQuote());
+        });
+    });
+
+    describe('with mock backend', () => {
+        const file = new File(['foo'], 'logo.png', { type: 'image/png' });
+
+        it('returns restricted brands of restricted cart', async () => {
+            const { service: mockService } = createMockQuoteRequestBackend('restricted-cart');
+
+            expect(await mockService.loadRestrictedBrands())
+                .toEqual(['OFS', 'Digitalia']);
+        });
+
+        it('returns public URL of uploaded artwork', async () => {
+            const { service: mockService, upload } = createMockQuoteRequestBackend('restricted-cart');
+
+            expect(await mockService.uploadArtwork(file))
+                .toEqual('http://localhost:8081/uploads/logo.png');
+            expect(upload)
+                .toHaveBeenCalledWith(expect.stringContaining('/uploads/logo.png?signature=mock'), file, {});
+        });
+
+        it('resumes artwork upload if it is interrupted', async () => {
+            const { backend, service: mockService } = createMockQuoteRequestBackend('upload-interrupted');
+            const largeFile = new File(['0123456789'], 'logo.png', { type: 'image/png' });
+
+            jest.spyOn(backend, 'handle');
+            jest.spyOn(window, 'setTimeout')
+                .mockImplementation(((callback: () => void) => callback()) as any);
+
+            expect(await mockService.uploadArtwork(largeFile, { chunkSize: 4 }))
+                .toEqual('http://localhost:8081/uploads/logo.png');
+            expect((backend.handle as jest.Mock).mock.calls
+                .filter(([{ method }]) => method === 'PUT')
+                .map(([{ headers }]) => headers['content-range'])
+            ).toEqual(['bytes 0-3/10', 'bytes */10', 'bytes 2-5/10', 'bytes 6-9/10']);
+
+            (window.setTimeout as unknown as jest.Mock).mockRestore();
+        });
+
+        it('throws error if artwork upload keeps failing', async () => {
+            const { service: mockService, upload } = createMockQuoteRequestBackend('upload-failure');
+
+            jest.spyOn(window, 'setTimeout')
+                .mockImplementation(((callback: () => void) => callback()) as any);
+
+            await expect(mockService.uploadArtwork(file))
+                .rejects.toBeInstanceOf(ArtworkUploadError);
+            expect(upload)
+                .toHaveBeenCalledTimes(1);
+
+            (window.setTimeout as unknown as jest.Mock).mockRestore();
+        });
+
+        it('returns nothing if quote has not been submitted', async () => {
+            const { service: mockService } = createMockQuoteRequestBackend('restricted-cart');
+
+            expect(await mockService.loadQuote('abc'))
+                .toBeUndefined();
+        });
+
+        it('returns quote once it has been submitted', async () => {
+            const { service: mockService } = createMockQuoteRequestBackend('restricted-cart');
+            const quote = await mockService.submitQuote({
+                checkoutId: 'abc',
+                message: 'Left chest logo',
+                publicUrls: ['https://bucket.foo.com/logo.png'],
+                quoteType: QuoteType.Embroidery,
+            });
+
+            expect(quote)
+                .toEqual(expect.objectContaining({ checkoutId: 'abc', status: 'pending' }));
+            expect(await mockService.loadQuote('abc'))
+                .toEqual(quote);
+        });
+
+        it('returns accepted quote', async () => {
+            const { service: mockService } = createMockQuoteRequestBackend('accepted-quote');
+
+            expect(await mockService.loadQuote('abc'))
+                .toEqual(expect.objectContaining({ checkoutId: 'abc', price: 150, status: 'accepted' }));
+        });
+
+        it('accepts priced quote', async () => {
+            const { service: mockService } = createMockQuoteRequestBackend('priced-quote');
+
+            expect(await mockService.acceptQuote('abc'))
+                .toEqual(expect.objectContaining({ checkoutId: 'abc', price: 150, status: 'accepted' }));
+            expect(await mockService.loadQuote('abc'))
+                .toEqual(expect.objectContaining({ status: 'accepted' }));
+        });
+
+        it('throws error if quote has not been priced yet', async () => {
+            const { service: mockService } = createMockQuoteRequestBackend('restricted-cart');
+
+            await mockService.submitQuote({
+                checkoutId: 'abc',
+                message: 'Left chest logo',
+                publicUrls: [],
+                quoteType: QuoteType.Embroidery,
+            });
+
+            await expect(mockService.acceptQuote('abc'))
+                .rejects.toEqual(expect.objectContaining({ status: 409 }));
+        });
+
+        it('returns response if it is slow but within time limit', async () => {
+            const { service: mockService } = createMockQuoteRequestBackend('slow-response', { delay: 10 });
+
+            expect(await mockService.loadRestrictedBrands())
+                .toEqual(['OFS', 'Digitalia']);
+        });
+
+        it('throws error if response takes longer than time limit', async () => {
+            const { service: mockService } = createMockQuoteRequestBackend('slow-response', { delay: 50, timeout: 10 });
+
+            await expect(mockService.submitQuote({
+                checkoutId: 'abc',
+                message: 'Left chest logo',
+                publicUrls: [],
+                quoteType: QuoteType.Embroidery,
+            })).rejects.toEqual(expect.objectContaining({ status: 0 }));
+        });
+    });
+});
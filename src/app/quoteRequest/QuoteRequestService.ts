@@ -0,0 +1,139 @@
+import { HttpClient, HttpRequestError } from '../common/http';
+import { uploadFile, FileUploadError, FileUploadService, UploadFileOptions } from '../common/upload';
+
+import { ArtworkUploadError } from './errors';
+import Quote from './Quote';
+import QuoteRequestOptions from './QuoteRequestOptions';
+import QuoteStatus from './QuoteStatus';
+import QuoteType from './QuoteType';
+
+export const DEFAULT_RESTRICTED_BRANDS_PATH = '/restricted_brands';
+
+export interface QuoteRequestBody {
+    checkoutId: string;
+    message: string;
+    publicUrls: string[];
+    quoteType: QuoteType;
+}
+
+export interface RestrictedBrandsResponseBody {
+    data: Array<{ name: string }>;
+}
+
+export interface QuoteResponseBody {
+    data: {
+        checkout_id: string;
+        id: number | string;
+        message?: string;
+        price?: number | string | null;
+        public_url?: string;
+        public_urls?: string[];
+        quote_type: QuoteType;
+        status: QuoteStatus;
+    };
+}
+
+export interface QuoteRequestPayload {
+    checkoutId: string;
+    message: string;
+    public_url: string;
+    public_urls: string[];
+    quoteType: QuoteType;
+}
+
+export interface QuoteRequestServiceRequestOptions {
+    cancel?: Promise<void>;
+}
+
+export default class QuoteRequestService {
+    private fileUploadService: FileUploadService;
+
+    constructor(
+        private options: QuoteRequestOptions,
+        private httpClient: HttpClient = new HttpClient({ baseUrl: options.apiBaseUrl }),
+        upload: typeof uploadFile = uploadFile
+    ) {
+        this.fileUploadService = new FileUploadService(httpClient, upload);
+    }
+
+    loadRestrictedBrands({ cancel }: QuoteRequestServiceRequestOptions = {}): Promise<string[]> {
+        const { restrictedBrandsPath = DEFAULT_RESTRICTED_BRANDS_PATH } = this.options;
+
+        return this.httpClient
+            .get<RestrictedBrandsResponseBody>(restrictedBrandsPath, { cancel })
+            .then(body => (body.data || []).map(({ name }) => name));
+    }
+
+    uploadArtwork(file: File, options: UploadFileOptions = {}): Promise<string> {
+        return this.fileUploadService
+            .uploadFile(file, options)
+            .catch(error => {
+                if (error instanceof FileUploadError) {
+                    throw new ArtworkUploadError(error.data);
+                }
+
+                throw error;
+            });
+    }
+
+    loadQuote(checkoutId: string, { cancel }: QuoteRequestServiceRequestOptions = {}): Promise<Quote | undefined> {
+        return this.httpClient
+            .get<QuoteResponseBody>(`/orders/checkout/${checkoutId}`, {
+                cancel,
+                // A checkout without a quote is not an error
+                ignoredStatuses: [404],
+            })
+            .then(body => mapToQuote(body))
+            .catch(error => {
+                if (error instanceof HttpRequestError && error.status === 404) {
+                    return undefined;
+                }
+
+                throw error;
+            });
+    }
+
+    submitQuote(
+        { checkoutId, message, publicUrls, quoteType }: QuoteRequestBody,
+        { cancel }: QuoteRequestServiceRequestOptions = {}
+    ): Promise<Quote> {
+        return this.httpClient
+            .post<QuoteResponseBody, QuoteRequestPayload>('/orders/checkout', {
+                body: {
+                    checkoutId,
+                    message,
+                    // The first file is also sent separately for backward compatibility
+                    public_url: publicUrls[0] || '',
+                    public_urls: publicUrls,
+                    quoteType,
+                },
+                cancel,
+            })
+            .then(body => mapToQuote(body));
+    }
+
+    /**
+     * Accepts the price of a quote on behalf of the shopper. The store applies
+     * the quoted price to the checkout once the quote is accepted, so the
+     * checkout has to be reloaded afterwards for its totals to include it.
+     */
+    acceptQuote(checkoutId: string, { cancel }: QuoteRequestServiceRequestOptions = {}): Promise<Quote> {
+        return this.httpClient
+            .post<QuoteResponseBody>(`/orders/checkout/${checkoutId}/accept`, { cancel })
+            .then(body => mapToQuote(body));
+    }
+}
+
+function mapToQuote({ data }: QuoteResponseBody): Quote {
+    const publicUrls = data.public_urls || (data.public_url ? [data.public_url] : []);
+
+    return {
+        artworkUrls: publicUrls.filter(url => !!url),
+        checkoutId: data.checkout_id,
+        id: String(data.id),
+        message: data.message || '',
+        price: data.price === undefined || data.price === null ? undefined : Number(data.price),
+        quoteType: data.quote_type,
+        status: data.status || QuoteStatus.Pending,
+    };
+}
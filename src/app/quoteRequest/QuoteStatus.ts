@@ -0,0 +1,7 @@
+enum QuoteStatus {
+    Accepted = 'accepted',
+    Pending = 'pending',
+    Priced = 'priced',
+}
+
+export default QuoteStatus;
@@ -0,0 +1,122 @@
+import { mount, ReactWrapper } from 'enzyme';
+import React from 'react';
+
+import { getStoreConfig } from '../config/config.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../locale';
+
+import { getAcceptedQuote, getPricedQuote, getQuote } from './quotes.mock';
+import Quote from './Quote';
+import QuoteStatus from './QuoteStatus';
+import QuoteSummary, { QuoteSummaryProps } from './QuoteSummary';
+
+describe('QuoteSummary', () => {
+    let localeContext: LocaleContextType;
+
+    beforeEach(() => {
+        localeContext = createLocaleContext(getStoreConfig());
+    });
+
+    function mountComponent(quote: Quote, props?: Partial<QuoteSummaryProps>): ReactWrapper {
+        return mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <QuoteSummary quote={ quote } { ...props } />
+            </LocaleContext.Provider>
+        );
+    }
+
+    it('renders details of submitted quote', () => {
+        const component = mountComponent(getQuote());
+
+        expect(component.find('[data-test="quote-summary-id"]').text())
+            .toEqual('123');
+        expect(component.find('[data-test="quote-summary-type"]').text())
+            .toEqual(localeContext.language.translate('quote_request.quote_type_embroidery_label'));
+        expect(component.find('[data-test="quote-summary-message"]').text())
+            .toEqual('Left chest logo');
+        expect(component.find('[data-test="quote-summary-artworks"] a').prop('href'))
+            .toEqual('https://bucket.foo.com/logo.png');
+    });
+
+    it('renders pending status without price', () => {
+        const component = mountComponent(getQuote());
+
+        expect(component.find('[data-test="quote-summary-status"]').text())
+            .toEqual(localeContext.language.translate('quote_request.quote_status_pending_text'));
+        expect(component.find('[data-test="quote-summary-status-text"]').text())
+            .toEqual(localeContext.language.translate('quote_request.quote_submitted_text'));
+        expect(component.find('[data-test="quote-summary-price"]').length)
+            .toEqual(0);
+    });
+
+    it('renders price of priced quote', () => {
+        const component = mountComponent(getPricedQuote());
+        // tslint:disable-next-line:no-non-null-assertion
+        const price = localeContext.currency!.toCustomerCurrency(150);
+
+        expect(component.find('[data-test="quote-summary-status"]').text())
+            .toEqual(localeContext.language.translate('quote_request.quote_status_priced_text'));
+        expect(component.find('[data-test="quote-summary-price"]').text())
+            .toEqual(price);
+    });
+
+    it('accepts priced quote when shopper clicks accept button', () => {
+        const handleAccept = jest.fn();
+        const component = mountComponent(getPricedQuote(), { onAccept: handleAccept });
+
+        component.find('[data-test="quote-summary-accept-button"]')
+            .simulate('click');
+
+        expect(handleAccept)
+            .toHaveBeenCalled();
+    });
+
+    it('renders accept button in loading state while quote is being accepted', () => {
+        const component = mountComponent(getPricedQuote(), { isAccepting: true, onAccept: jest.fn() });
+
+        expect(component.find('[data-test="quote-summary-accept-button"]').prop('disabled'))
+            .toEqual(true);
+    });
+
+    it('does not render accept button if quote has not been priced', () => {
+        expect(mountComponent(getQuote(), { onAccept: jest.fn() }).find('[data-test="quote-summary-accept-button"]').exists())
+            .toEqual(false);
+        expect(mountComponent(getAcceptedQuote(), { onAccept: jest.fn() }).find('[data-test="quote-summary-accept-button"]').exists())
+            .toEqual(false);
+    });
+
+    it('renders accepted status', () => {
+        const component = mountComponent(getAcceptedQuote());
+
+        expect(component.find('[data-test="quote-summary-status-text"]').text())
+            .toEqual(localeContext.language.translate('quote_request.quote_accepted_text'));
+    });
+
+    it('renders fallback text of unknown status', () => {
+        const component = mountComponent({ ...getQuote(), status: 'declined' as QuoteStatus });
+
+        expect(component.find('[data-test="quote-summary-status"]').text())
+            .toEqual(localeContext.language.translate('quote_request.quote_status_reviewing_text'));
+        expect(component.find('[data-test="quote-summary-status-text"]').text())
+            .toEqual(localeContext.language.translate('quote_request.quote_reviewing_text'));
+    });
+
+    it('renders decoded names of artwork files', () => {
+        const component = mountComponent({
+            ...getQuote(),
+            artworkUrls: ['https://bucket.foo.com/chest%20logo.png?v=1'],
+        });
+
+        expect(component.find('[data-test="quote-summary-artworks"] a').text())
+            .toEqual('chest logo.png');
+    });
+
+    it('renders raw names of artwork files that cannot be decoded', () => {
+        const component = mountComponent({
+            ...getQuote(),
+            artworkUrls: ['https://bucket.foo.com/100%-logo.png'],
+        });
+
+        expect(component.find('[data-test="quote-summary-artworks"] a').text())
+            .toEqual('100%-logo.png');
+    });
+});
@@ -0,0 +1,119 @@
+import React, { memo, FunctionComponent } from 'react';
+
+import { ShopperCurrency } from '../currency';
+import { TranslatedString } from '../locale';
+import { Button, ButtonVariant } from '../ui/button';
+
+import Quote from './Quote';
+import QuoteStatus from './QuoteStatus';
+import { QUOTE_TYPE_LABEL_IDS } from './QuoteTypeField';
+
+export interface QuoteSummaryProps {
+    isAccepting?: boolean;
+    quote: Quote;
+    onAccept?(): void;
+}
+
+const QUOTE_STATUS_TEXT_IDS: { [key in QuoteStatus]: string } = {
+    [QuoteStatus.Pending]: 'quote_request.quote_submitted_text',
+    [QuoteStatus.Priced]: 'quote_request.quote_priced_text',
+    [QuoteStatus.Accepted]: 'quote_request.quote_accepted_text',
+};
+
+const QUOTE_STATUS_LABEL_IDS: { [key in QuoteStatus]: string } = {
+    [QuoteStatus.Pending]: 'quote_request.quote_status_pending_text',
+    [QuoteStatus.Priced]: 'quote_request.quote_status_priced_text',
+    [QuoteStatus.Accepted]: 'quote_request.quote_status_accepted_text',
+};
+
+// The backend may introduce statuses this version of checkout doesn't know
+// about yet, in which case they are displayed as being reviewed.
+const UNKNOWN_QUOTE_STATUS_TEXT_ID = 'quote_request.quote_reviewing_text';
+const UNKNOWN_QUOTE_STATUS_LABEL_ID = 'quote_request.quote_status_reviewing_text';
+
+function getArtworkFileName(url: string): string {
+    const fileName = url.split('?')[0].split('/').pop() || url;
+
+    // File names are encoded by the storage bucket, but a URL with a stray
+    // percent sign would otherwise fail to render the whole summary.
+    try {
+        return decodeURIComponent(fileName);
+    } catch (error) {
+        return fileName;
+    }
+}
+
+const QuoteSummary: FunctionComponent<QuoteSummaryProps> = ({
+    isAccepting = false,
+    onAccept,
+    quote: {
+        artworkUrls,
+        id,
+        message,
+        price,
+        quoteType,
+        status,
+    },
+}) => (
+    <div className={ `quoteSummary quoteSummary--${status}` } data-test="quote-summary">
+        <p className="quoteSummary-statusText" data-test="quote-summary-status-text">
+            <TranslatedString id={ QUOTE_STATUS_TEXT_IDS[status] || UNKNOWN_QUOTE_STATUS_TEXT_ID } />
+        </p>
+
+        <dl className="quoteSummary-details">
+            <dt><TranslatedString id="quote_request.quote_id_label" /></dt>
+            <dd data-test="quote-summary-id">{ id }</dd>
+
+            <dt><TranslatedString id="quote_request.quote_status_label" /></dt>
+            <dd data-test="quote-summary-status">
+                <TranslatedString id={ QUOTE_STATUS_LABEL_IDS[status] || UNKNOWN_QUOTE_STATUS_LABEL_ID } />
+            </dd>
+
+            <dt><TranslatedString id="quote_request.quote_type_label" /></dt>
+            <dd data-test="quote-summary-type">
+                <TranslatedString id={ QUOTE_TYPE_LABEL_IDS[quoteType] } />
+            </dd>
+
+            { price !== undefined && status !== QuoteStatus.Pending && <>
+                <dt><TranslatedString id="quote_request.quote_price_label" /></dt>
+                <dd data-test="quote-summary-price">
+                    <ShopperCurrency amount={ price } />
+                </dd>
+            </> }
+
+            { message && <>
+                <dt><TranslatedString id="quote_request.message_label" /></dt>
+                <dd data-test="quote-summary-message">{ message }</dd>
+            </> }
+
+            { artworkUrls.length > 0 && <>
+                <dt><TranslatedString id="quote_request.artwork_label" /></dt>
+                <dd>
+                    <ul className="quoteSummary-artworks" data-test="quote-summary-artworks">
+                        { artworkUrls.map(url => (
+                            <li key={ url }>
+                                <a href={ url } rel="noopener noreferrer" target="_blank">
+                                    { getArtworkFileName(url) }
+                                </a>
+                            </li>
+                        )) }
+                    </ul>
+                </dd>
+            </> }
+        </dl>
+
+        { onAccept && status === QuoteStatus.Priced && price !== undefined && <div className="form-actions">
+            <Button
+                id="checkout-quote-accept"
+                isLoading={ isAccepting }
+                onClick={ onAccept }
+                testId="quote-summary-accept-button"
+                variant={ ButtonVariant.Primary }
+            >
+                <TranslatedString id="quote_request.accept_quote_action" />
+            </Button>
+        </div> }
+    </div>
+);
+
+export default memo(QuoteSummary);
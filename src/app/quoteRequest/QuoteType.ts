@@ -0,0 +1,7 @@
+enum QuoteType {
+    Embroidery = 'embroidery',
+    Screen = 'screen',
+    Unsure = 'unsure',
+}
+
+export default QuoteType;
@@ -0,0 +1,46 @@
+import { FieldProps } from 'formik';
+import React, { useCallback, FunctionComponent } from 'react';
+
+import { TranslatedString } from '../locale';
+import { FormField, Label, RadioInput } from '../ui/form';
+
+import QuoteType from './QuoteType';
+
+export const QUOTE_TYPE_LABEL_IDS: { [key in QuoteType]: string } = {
+    [QuoteType.Screen]: 'quote_request.quote_type_screen_label',
+    [QuoteType.Embroidery]: 'quote_request.quote_type_embroidery_label',
+    [QuoteType.Unsure]: 'quote_request.quote_type_unsure_label',
+};
+
+const QuoteTypeField: FunctionComponent = () => {
+    const renderLabel = useCallback(() => (
+        <Label>
+            <TranslatedString id="quote_request.quote_type_label" />
+        </Label>
+    ), []);
+
+    const renderInput = useCallback(({ field }: FieldProps) => (
+        <>
+            { (Object.keys(QUOTE_TYPE_LABEL_IDS) as QuoteType[]).map(quoteType =>
+                <RadioInput
+                    { ...field }
+                    checked={ field.value === quoteType }
+                    id={ `quoteType-${quoteType}` }
+                    key={ quoteType }
+                    label={ <TranslatedString id={ QUOTE_TYPE_LABEL_IDS[quoteType] } /> }
+                    testId={ `quote-type-${quoteType}-radio` }
+                    value={ quoteType }
+                />) }
+        </>
+    ), []);
+
+    return (
+        <FormField
+            input={ renderInput }
+            label={ renderLabel }
+            name="quoteType"
+        />
+    );
+};
+
+export default QuoteTypeField;
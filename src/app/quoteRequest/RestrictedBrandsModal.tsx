@@ -0,0 +1,46 @@
+import React, { FunctionComponent } from 'react';
+
+import { TranslatedString } from '../locale';
+import { Button, ButtonSize, ButtonVariant } from '../ui/button';
+import { Modal, ModalHeader } from '../ui/modal';
+
+export interface RestrictedBrandsModalProps {
+    heading?: string;
+    isOpen: boolean;
+    text?: string;
+    onRequestClose(): void;
+}
+
+const RestrictedBrandsModal: FunctionComponent<RestrictedBrandsModalProps> = ({
+    heading,
+    isOpen,
+    text,
+    onRequestClose,
+}) => (
+    <Modal
+        additionalModalClassName="modal--restrictedBrands"
+        footer={
+            <Button
+                onClick={ onRequestClose }
+                size={ ButtonSize.Small }
+                testId="restricted-brands-modal-acknowledge-button"
+                variant={ ButtonVariant.Primary }
+            >
+                <TranslatedString id="quote_request.restricted_brands_acknowledge_action" />
+            </Button>
+        }
+        header={
+            <ModalHeader>
+                { heading || <TranslatedString id="quote_request.restricted_brands_heading" /> }
+            </ModalHeader>
+        }
+        isOpen={ isOpen }
+        onRequestClose={ onRequestClose }
+    >
+        <p>
+            { text || <TranslatedString id="quote_request.restricted_brands_text" /> }
+        </p>
+    </Modal>
+);
+
+export default RestrictedBrandsModal;
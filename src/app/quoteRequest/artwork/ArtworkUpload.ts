@@ -0,0 +1,11 @@
+import ArtworkUploadStatus from './ArtworkUploadStatus';
+
+export default interface ArtworkUpload {
+    errorMessage?: string;
+    id: string;
+    name: string;
+    previewUrl?: string;
+    progress: number;
+    publicUrl?: string;
+    status: ArtworkUploadStatus;
+}
@@ -0,0 +1,172 @@
+import { mount, ReactWrapper } from 'enzyme';
+import { Formik } from 'formik';
+import { noop } from 'lodash';
+import React from 'react';
+
+import { getStoreConfig } from '../../config/config.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../../locale';
+import { Form } from '../../ui/form';
+
+import ArtworkUploadField from './ArtworkUploadField';
+
+describe('ArtworkUploadField', () => {
+    let localeContext: LocaleContextType;
+    let handleUpload: jest.Mock;
+    let handleSubmit: jest.Mock;
+
+    beforeEach(() => {
+        localeContext = createLocaleContext(getStoreConfig());
+        handleUpload = jest.fn(() => Promise.resolve('https://bucket.foo.com/logo.png'));
+        handleSubmit = jest.fn();
+    });
+
+    function mountComponent(maxFileSize?: number): ReactWrapper {
+        return mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <Formik
+                    initialValues={ { artworks: [] } }
+                    onSubmit={ handleSubmit }
+                >
+                    <Form>
+                        <ArtworkUploadField
+                            maxFileSize={ maxFileSize }
+                            onUpload={ handleUpload }
+                        />
+                    </Form>
+                </Formik>
+            </LocaleContext.Provider>
+        );
+    }
+
+    async function selectFiles(component: ReactWrapper, files: File[]): Promise<void> {
+        component.find('[data-test="quote-request-artwork-input"]')
+            .simulate('change', { target: { files } });
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        component.update();
+    }
+
+    it('accepts multiple files of supported formats', () => {
+        const input = mountComponent().find('input[type="file"]');
+
+        expect(input.prop('multiple'))
+            .toEqual(true);
+        expect(input.prop('accept'))
+            .toEqual('.ai,.eps,.pdf,.png,.svg');
+    });
+
+    it('uploads each selected file', async () => {
+        const component = mountComponent();
+        const files = [
+            new File(['foo'], 'logo.png', { type: 'image/png' }),
+            new File(['bar'], 'logo.pdf', { type: 'application/pdf' }),
+        ];
+
+        await selectFiles(component, files);
+
+        expect(handleUpload)
+            .toHaveBeenCalledTimes(2);
+        expect(component.find('[data-test="quote-request-artwork-upload-name"]').map(name => name.text()))
+            .toEqual(['logo.png', 'logo.pdf']);
+    });
+
+    it('does not upload files that are invalid', async () => {
+        const component = mountComponent(1);
+
+        await selectFiles(component, [
+            new File(['foo'], 'logo.jpg', { type: 'image/jpeg' }),
+            new File(['foo'], 'logo.png', { type: 'image/png' }),
+        ]);
+
+        expect(handleUpload)
+            .not.toHaveBeenCalled();
+        expect(component.find('[data-test="quote-request-artwork-upload-error"]').map(error => error.text()))
+            .toEqual([
+                localeContext.language.translate('quote_request.artwork_invalid_type_error', { name: 'logo.jpg' }),
+                localeContext.language.translate('quote_request.artwork_over_maximum_size_error', { name: 'logo.png', size: 0 }),
+            ]);
+    });
+
+    it('shows progress of file being uploaded', async () => {
+        const component = mountComponent();
+
+        handleUpload.mockImplementation((_, { onProgress }) => {
+            onProgress(0.5);
+
+            return new Promise(noop);
+        });
+
+        await selectFiles(component, [new File(['foo'], 'logo.png', { type: 'image/png' })]);
+
+        expect(component.find('[data-test="quote-request-artwork-upload-progress"]').prop('value'))
+            .toEqual(50);
+    });
+
+    it('cancels upload when file is removed', async () => {
+        const component = mountComponent();
+        const handleCancel = jest.fn();
+
+        handleUpload.mockImplementation((_, { cancel }) => {
+            cancel.then(handleCancel);
+
+            return new Promise(noop);
+        });
+
+        await selectFiles(component, [new File(['foo'], 'logo.png', { type: 'image/png' })]);
+
+        component.find('[data-test="quote-request-artwork-upload-remove"]')
+            .simulate('click');
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        component.update();
+
+        expect(handleCancel)
+            .toHaveBeenCalled();
+        expect(component.find('[data-test="quote-request-artwork-upload"]').length)
+            .toEqual(0);
+    });
+
+    it('retries upload that has failed', async () => {
+        const component = mountComponent();
+
+        handleUpload.mockRejectedValueOnce(new Error());
+
+        await selectFiles(component, [new File(['foo'], 'logo.png', { type: 'image/png' })]);
+
+        expect(component.find('[data-test="quote-request-artwork-upload-error"]').text())
+            .toEqual(localeContext.language.translate('quote_request.artwork_upload_failed_error', { name: 'logo.png' }));
+
+        component.find('[data-test="quote-request-artwork-upload-retry"]')
+            .simulate('click');
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        component.update();
+
+        expect(handleUpload)
+            .toHaveBeenCalledTimes(2);
+        expect(component.find('[data-test="quote-request-artwork-upload-error"]').length)
+            .toEqual(0);
+    });
+
+    it('updates form value with uploaded files', async () => {
+        const component = mountComponent();
+
+        await selectFiles(component, [new File(['foo'], 'logo.png', { type: 'image/png' })]);
+
+        component.find('form').simulate('submit');
+
+        await new Promise(resolve => process.nextTick(resolve));
+
+        expect(handleSubmit)
+            .toHaveBeenCalledWith({
+                artworks: [expect.objectContaining({
+                    name: 'logo.png',
+                    publicUrl: 'https://bucket.foo.com/logo.png',
+                    status: 'uploaded',
+                })],
+            }, expect.anything());
+    });
+});
@@ -0,0 +1,236 @@
+import { getIn } from 'formik';
+import React, { ChangeEvent, Component, ReactNode } from 'react';
+
+import { connectFormik, ConnectFormikProps } from '../../common/form';
+import { UploadFileOptions } from '../../common/upload';
+import { withLanguage, TranslatedString, WithLanguageProps } from '../../locale';
+import { FormFieldContainer, FormFieldError, Input, Label } from '../../ui/form';
+
+import { ARTWORK_FILE_EXTENSIONS, ARTWORK_PREVIEW_FILE_TYPES } from './artworkFileRequirements';
+import validateArtworkFile from './validateArtworkFile';
+import ArtworkUpload from './ArtworkUpload';
+import './ArtworkUploadField.scss';
+import ArtworkUploadItem from './ArtworkUploadItem';
+import ArtworkUploadStatus from './ArtworkUploadStatus';
+
+export interface ArtworkUploadFieldProps {
+    maxFileSize?: number;
+    onUpload(file: File, options: UploadFileOptions): Promise<string>;
+}
+
+export interface ArtworkUploadFieldState {
+    uploads: ArtworkUpload[];
+}
+
+export interface ArtworkUploadFieldValues {
+    artworks: ArtworkUpload[];
+}
+
+class ArtworkUploadField extends Component<
+    ArtworkUploadFieldProps & WithLanguageProps & ConnectFormikProps<ArtworkUploadFieldValues>,
+    ArtworkUploadFieldState
+> {
+    state: ArtworkUploadFieldState = {
+        uploads: [],
+    };
+
+    private files: { [id: string]: File } = {};
+    private cancellers: { [id: string]: () => void } = {};
+    private lastId = 0;
+
+    componentDidUpdate(_: unknown, prevState: ArtworkUploadFieldState): void {
+        const { formik } = this.props;
+        const { uploads } = this.state;
+
+        if (uploads !== prevState.uploads) {
+            formik.setFieldValue('artworks', uploads);
+        }
+    }
+
+    componentWillUnmount(): void {
+        const { uploads } = this.state;
+
+        uploads.forEach(({ id, previewUrl }) => {
+            this.cancelUpload(id);
+            this.revokePreviewUrl(previewUrl);
+        });
+
+        this.files = {};
+    }
+
+    render(): ReactNode {
+        const { formik: { errors } } = this.props;
+        const { uploads } = this.state;
+
+        return (
+            <FormFieldContainer hasError={ !!getIn(errors, 'artworks') }>
+                <Label htmlFor="artworks">
+                    <TranslatedString id="quote_request.artwork_label" />
+                </Label>
+
+                <p className="artworkUploads-instructions">
+                    <TranslatedString
+                        data={ { extensions: ARTWORK_FILE_EXTENSIONS.join(', ').toUpperCase() } }
+                        id="quote_request.artwork_instructions_text"
+                    />
+                </p>
+
+                <Input
+                    accept={ ARTWORK_FILE_EXTENSIONS.map(extension => `.${extension}`).join(',') }
+                    className="form-input optimizedCheckout-form-input"
+                    id="artworks"
+                    multiple
+                    onChange={ this.handleChange }
+                    testId="quote-request-artwork-input"
+                    type="file"
+                />
+
+                { uploads.length > 0 && <ul className="artworkUploads" data-test="quote-request-artwork-uploads">
+                    { uploads.map(upload => (
+                        <ArtworkUploadItem
+                            key={ upload.id }
+                            onRemove={ this.handleRemove }
+                            onRetry={ this.handleRetry }
+                            upload={ upload }
+                        />
+                    )) }
+                </ul> }
+
+                <FormFieldError
+                    name="artworks"
+                    testId="quote-request-artwork-field-error-message"
+                />
+            </FormFieldContainer>
+        );
+    }
+
+    private handleChange: (event: ChangeEvent<HTMLInputElement>) => void = ({ target }) => {
+        const { language, maxFileSize } = this.props;
+        const files = Array.from(target.files || []);
+
+        if (!files.length) {
+            return;
+        }
+
+        const uploads = files.map(file => {
+            const id = `artwork-${++this.lastId}`;
+            const errorMessage = validateArtworkFile(file, { language, maxFileSize });
+
+            this.files[id] = file;
+
+            return {
+                errorMessage,
+                id,
+                name: file.name,
+                previewUrl: errorMessage ? undefined : this.createPreviewUrl(file),
+                progress: 0,
+                status: errorMessage ? ArtworkUploadStatus.Invalid : ArtworkUploadStatus.Uploading,
+            };
+        });
+
+        // Clear the input so the same file can be selected again after being removed
+        target.value = '';
+
+        this.setState(({ uploads: prevUploads }) => ({ uploads: [...prevUploads, ...uploads] }));
+
+        uploads
+            .filter(({ status }) => status === ArtworkUploadStatus.Uploading)
+            .forEach(({ id }) => this.startUpload(id));
+    };
+
+    private handleRemove: (id: string) => void = id => {
+        const { uploads } = this.state;
+        const upload = uploads.find(item => item.id === id);
+
+        this.cancelUpload(id);
+        delete this.files[id];
+
+        if (upload) {
+            this.revokePreviewUrl(upload.previewUrl);
+        }
+
+        this.setState(({ uploads: prevUploads }) => ({ uploads: prevUploads.filter(item => item.id !== id) }));
+    };
+
+    private handleRetry: (id: string) => void = id => {
+        this.startUpload(id);
+    };
+
+    private async startUpload(id: string): Promise<void> {
+        const { language, onUpload } = this.props;
+        const file = this.files[id];
+
+        if (!file) {
+            return;
+        }
+
+        const cancel = new Promise<void>(resolve => {
+            this.cancellers[id] = resolve;
+        });
+
+        this.updateUpload(id, {
+            errorMessage: undefined,
+            progress: 0,
+            status: ArtworkUploadStatus.Uploading,
+        });
+
+        try {
+            const publicUrl = await onUpload(file, {
+                cancel,
+                onProgress: progress => this.updateUpload(id, { progress }),
+            });
+
+            this.updateUpload(id, {
+                progress: 1,
+                publicUrl,
+                status: ArtworkUploadStatus.Uploaded,
+            });
+        } catch (error) {
+            this.updateUpload(id, {
+                errorMessage: language.translate('quote_request.artwork_upload_failed_error', { name: file.name }),
+                status: ArtworkUploadStatus.Failed,
+            });
+        } finally {
+            delete this.cancellers[id];
+        }
+    }
+
+    private cancelUpload(id: string): void {
+        const cancel = this.cancellers[id];
+
+        if (cancel) {
+            cancel();
+            delete this.cancellers[id];
+        }
+    }
+
+    private updateUpload(id: string, changes: Partial<ArtworkUpload>): void {
+        // Uploads that have been removed, or that belong to an unmounted field,
+        // should not be updated once their requests settle.
+        if (!this.files[id]) {
+            return;
+        }
+
+        this.setState(({ uploads }) => ({
+            uploads: uploads.map(upload => upload.id === id ? { ...upload, ...changes } : upload),
+        }));
+    }
+
+    private createPreviewUrl(file: File): string | undefined {
+        if (ARTWORK_PREVIEW_FILE_TYPES.indexOf(file.type) === -1 ||
+            typeof URL.createObjectURL !== 'function'
+        ) {
+            return;
+        }
+
+        return URL.createObjectURL(file);
+    }
+
+    private revokePreviewUrl(previewUrl?: string): void {
+        if (previewUrl && typeof URL.revokeObjectURL === 'function') {
+            URL.revokeObjectURL(previewUrl);
+        }
+    }
+}
+
+export default connectFormik(withLanguage(ArtworkUploadField));
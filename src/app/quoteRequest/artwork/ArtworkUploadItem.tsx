@@ -0,0 +1,89 @@
+import React, { memo, useCallback, FunctionComponent } from 'react';
+
+import { preventDefault } from '../../common/dom';
+import { TranslatedString } from '../../locale';
+
+import ArtworkUpload from './ArtworkUpload';
+import ArtworkUploadStatus from './ArtworkUploadStatus';
+
+export interface ArtworkUploadItemProps {
+    upload: ArtworkUpload;
+    onRemove(id: string): void;
+    onRetry(id: string): void;
+}
+
+const ArtworkUploadItem: FunctionComponent<ArtworkUploadItemProps> = ({
+    upload: {
+        errorMessage,
+        id,
+        name,
+        previewUrl,
+        progress,
+        status,
+    },
+    onRemove,
+    onRetry,
+}) => {
+    const handleRemove = useCallback(() => onRemove(id), [id, onRemove]);
+    const handleRetry = useCallback(() => onRetry(id), [id, onRetry]);
+
+    return (
+        <li className={ `artworkUpload artworkUpload--${status}` } data-test="quote-request-artwork-upload">
+            <div className="artworkUpload-preview">
+                { previewUrl ?
+                    <img alt={ name } className="artworkUpload-previewImage" src={ previewUrl } /> :
+                    <span className="artworkUpload-previewExtension">
+                        { name.split('.').pop() }
+                    </span> }
+            </div>
+
+            <div className="artworkUpload-body">
+                <span className="artworkUpload-name" data-test="quote-request-artwork-upload-name">
+                    { name }
+                </span>
+
+                { status === ArtworkUploadStatus.Uploading && <progress
+                    className="artworkUpload-progress"
+                    data-test="quote-request-artwork-upload-progress"
+                    max={ 100 }
+                    value={ Math.round(progress * 100) }
+                /> }
+
+                { status === ArtworkUploadStatus.Uploaded && <span className="artworkUpload-status">
+                    <TranslatedString id="quote_request.artwork_uploaded_text" />
+                </span> }
+
+                { errorMessage && <span
+                    className="artworkUpload-error form-inlineMessage"
+                    data-test="quote-request-artwork-upload-error"
+                >
+                    { errorMessage }
+                </span> }
+            </div>
+
+            <div className="artworkUpload-actions">
+                { status === ArtworkUploadStatus.Failed && <a
+                    data-test="quote-request-artwork-upload-retry"
+                    href="#"
+                    onClick={ preventDefault(handleRetry) }
+                >
+                    <TranslatedString id="quote_request.artwork_retry_action" />
+                </a> }
+
+                <a
+                    data-test="quote-request-artwork-upload-remove"
+                    href="#"
+                    onClick={ preventDefault(handleRemove) }
+                >
+                    <TranslatedString
+                        id={ status === ArtworkUploadStatus.Uploading ?
+                            'quote_request.artwork_cancel_action' :
+                            'quote_request.artwork_remove_action' }
+                    />
+                </a>
+            </div>
+        </li>
+    );
+};
+
+export default memo(ArtworkUploadItem);
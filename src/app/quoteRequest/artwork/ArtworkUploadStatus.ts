@@ -0,0 +1,8 @@
+enum ArtworkUploadStatus {
+    Failed = 'failed',
+    Invalid = 'invalid',
+    Uploaded = 'uploaded',
+    Uploading = 'uploading',
+}
+
+export default ArtworkUploadStatus;
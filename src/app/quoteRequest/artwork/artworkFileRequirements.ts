@@ -0,0 +1,20 @@
+export const ARTWORK_FILE_EXTENSIONS = ['ai', 'eps', 'pdf', 'png', 'svg'];
+
+// The types each extension can be reported as. Browsers do not always
+// recognise vector formats such as AI or EPS, in which case the type of the
+// file is reported as an empty string. AI files saved with PDF compatibility
+// are reported as PDF files by some systems.
+export const ARTWORK_FILE_TYPES: { [extension: string]: string[] } = {
+    ai: ['', 'application/illustrator', 'application/postscript', 'application/pdf'],
+    eps: ['', 'application/postscript', 'application/eps', 'application/x-eps', 'image/eps', 'image/x-eps'],
+    pdf: ['application/pdf'],
+    png: ['image/png'],
+    svg: ['image/svg+xml'],
+};
+
+export const ARTWORK_PREVIEW_FILE_TYPES = [
+    'image/png',
+    'image/svg+xml',
+];
+
+export const DEFAULT_MAX_ARTWORK_FILE_SIZE = 20 * 1024 * 1024;
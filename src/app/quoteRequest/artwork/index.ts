@@ -0,0 +1,5 @@
+export { default as ArtworkUpload } from './ArtworkUpload';
+export { default as ArtworkUploadField, ArtworkUploadFieldProps } from './ArtworkUploadField';
+export { default as ArtworkUploadStatus } from './ArtworkUploadStatus';
+export { default as validateArtworkFile } from './validateArtworkFile';
+export { ARTWORK_FILE_EXTENSIONS, ARTWORK_FILE_TYPES, ARTWORK_PREVIEW_FILE_TYPES, DEFAULT_MAX_ARTWORK_FILE_SIZE } from './artworkFileRequirements';
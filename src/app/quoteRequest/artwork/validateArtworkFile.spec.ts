@@ -0,0 +1,53 @@
+import { getStoreConfig } from '../../config/config.mock';
+import { createLocaleContext } from '../../locale';
+
+import validateArtworkFile from './validateArtworkFile';
+
+describe('validateArtworkFile()', () => {
+    const { language } = createLocaleContext(getStoreConfig());
+
+    it('returns nothing if file is supported', () => {
+        expect(validateArtworkFile(new File(['foo'], 'logo.png', { type: 'image/png' }), { language }))
+            .toBeUndefined();
+        expect(validateArtworkFile(new File(['foo'], 'logo.SVG', { type: 'image/svg+xml' }), { language }))
+            .toBeUndefined();
+        expect(validateArtworkFile(new File(['foo'], 'logo.ai', { type: '' }), { language }))
+            .toBeUndefined();
+        expect(validateArtworkFile(new File(['foo'], 'logo.eps', { type: 'application/postscript' }), { language }))
+            .toBeUndefined();
+        expect(validateArtworkFile(new File(['foo'], 'logo.pdf', { type: 'application/pdf' }), { language }))
+            .toBeUndefined();
+    });
+
+    it('returns error if file extension is not supported', () => {
+        expect(validateArtworkFile(new File(['foo'], 'logo.jpg', { type: 'image/jpeg' }), { language }))
+            .toEqual(language.translate('quote_request.artwork_invalid_type_error', { name: 'logo.jpg' }));
+        expect(validateArtworkFile(new File(['foo'], 'logo', { type: '' }), { language }))
+            .toEqual(language.translate('quote_request.artwork_invalid_type_error', { name: 'logo' }));
+    });
+
+    it('returns error if file type does not match extension', () => {
+        expect(validateArtworkFile(new File(['foo'], 'logo.png', { type: 'text/html' }), { language }))
+            .toEqual(language.translate('quote_request.artwork_invalid_type_error', { name: 'logo.png' }));
+        expect(validateArtworkFile(new File(['foo'], 'logo.png', { type: 'application/pdf' }), { language }))
+            .toEqual(language.translate('quote_request.artwork_invalid_type_error', { name: 'logo.png' }));
+        expect(validateArtworkFile(new File(['foo'], 'logo.svg', { type: 'image/png' }), { language }))
+            .toEqual(language.translate('quote_request.artwork_invalid_type_error', { name: 'logo.svg' }));
+    });
+
+    it('returns error if file type is unknown unless it is vector format not recognised by browser', () => {
+        expect(validateArtworkFile(new File(['foo'], 'logo.eps', { type: '' }), { language }))
+            .toBeUndefined();
+        expect(validateArtworkFile(new File(['foo'], 'logo.png', { type: '' }), { language }))
+            .toEqual(language.translate('quote_request.artwork_invalid_type_error', { name: 'logo.png' }));
+        expect(validateArtworkFile(new File(['foo'], 'logo.pdf', { type: '' }), { language }))
+            .toEqual(language.translate('quote_request.artwork_invalid_type_error', { name: 'logo.pdf' }));
+    });
+
+    it('returns error if file is larger than maximum size', () => {
+        const file = new File(['a'.repeat(1024 * 1024 + 1)], 'logo.png', { type: 'image/png' });
+
+        expect(validateArtworkFile(file, { language, maxFileSize: 1024 * 1024 }))
+            .toEqual(language.translate('quote_request.artwork_over_maximum_size_error', { name: 'logo.png', size: 1 }));
+    });
+});
@@ -0,0 +1,30 @@
+import { LanguageService } from '@bigcommerce/checkout-sdk';
+
+import { ARTWORK_FILE_EXTENSIONS, ARTWORK_FILE_TYPES, DEFAULT_MAX_ARTWORK_FILE_SIZE } from './artworkFileRequirements';
+
+export interface ValidateArtworkFileOptions {
+    language: LanguageService;
+    maxFileSize?: number;
+}
+
+export default function validateArtworkFile(
+    { name, size, type }: File,
+    { language, maxFileSize = DEFAULT_MAX_ARTWORK_FILE_SIZE }: ValidateArtworkFileOptions
+): string | undefined {
+    const extension = name.indexOf('.') === -1 ? '' : (name.split('.').pop() || '').toLowerCase();
+
+    // The type has to match the extension, so a file cannot pass as artwork
+    // just by being renamed.
+    if (ARTWORK_FILE_EXTENSIONS.indexOf(extension) === -1 ||
+        ARTWORK_FILE_TYPES[extension].indexOf(type) === -1
+    ) {
+        return language.translate('quote_request.artwork_invalid_type_error', { name });
+    }
+
+    if (size > maxFileSize) {
+        return language.translate('quote_request.artwork_over_maximum_size_error', {
+            name,
+            size: Math.floor(maxFileSize / 1024 / 1024),
+        });
+    }
+}
@@ -0,0 +1,14 @@
+import { setPrototypeOf, CustomError } from '../../common/error';
+import { getLanguageService } from '../../locale';
+
+export default class ArtworkUploadError extends CustomError {
+    constructor(data?: any) {
+        super({
+            name: 'ARTWORK_UPLOAD_ERROR',
+            message: getLanguageService().translate('quote_request.upload_artwork_error'),
+            data,
+        });
+
+        setPrototypeOf(this, ArtworkUploadError.prototype);
+    }
+}
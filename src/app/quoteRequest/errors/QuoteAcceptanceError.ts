@@ -0,0 +1,14 @@
+import { setPrototypeOf, CustomError } from '../../common/error';
+import { getLanguageService } from '../../locale';
+
+export default class QuoteAcceptanceError extends CustomError {
+    constructor(data: Error) {
+        super({
+            name: 'QUOTE_ACCEPTANCE_ERROR',
+            message: getLanguageService().translate('quote_request.accept_quote_error'),
+            data,
+        });
+
+        setPrototypeOf(this, QuoteAcceptanceError.prototype);
+    }
+}
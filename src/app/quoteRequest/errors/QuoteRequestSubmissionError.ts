@@ -0,0 +1,14 @@
+import { setPrototypeOf, CustomError } from '../../common/error';
+import { getLanguageService } from '../../locale';
+
+export default class QuoteRequestSubmissionError extends CustomError {
+    constructor(data: Error) {
+        super({
+            name: 'QUOTE_REQUEST_SUBMISSION_ERROR',
+            message: getLanguageService().translate('quote_request.submit_quote_error'),
+            data,
+        });
+
+        setPrototypeOf(this, QuoteRequestSubmissionError.prototype);
+    }
+}
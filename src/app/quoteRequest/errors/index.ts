@@ -0,0 +1,3 @@
+export { default as ArtworkUploadError } from './ArtworkUploadError';
+export { default as QuoteAcceptanceError } from './QuoteAcceptanceError';
+export { default as QuoteRequestSubmissionError } from './QuoteRequestSubmissionError';
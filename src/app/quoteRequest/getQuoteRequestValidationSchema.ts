@@ -0,0 +1,34 @@
+import { LanguageService } from '@bigcommerce/checkout-sdk';
+import { values } from 'lodash';
+import { array, mixed, object, string, ObjectSchema } from 'yup';
+
+import { ArtworkUpload, ArtworkUploadStatus } from './artwork';
+import QuoteType from './QuoteType';
+
+export interface QuoteRequestValidationSchemaOptions {
+    language: LanguageService;
+}
+
+export interface QuoteRequestFormValues {
+    artworks: ArtworkUpload[];
+    message: string;
+    quoteType: QuoteType;
+}
+
+export default function getQuoteRequestValidationSchema({
+    language,
+}: QuoteRequestValidationSchemaOptions): ObjectSchema<QuoteRequestFormValues> {
+    return object({
+        artworks: array<ArtworkUpload>()
+            .test({
+                message: language.translate('quote_request.artwork_incomplete_error'),
+                test: (artworks?: ArtworkUpload[]) => (artworks || [])
+                    .every(({ status }) => status === ArtworkUploadStatus.Uploaded),
+            }),
+        message: string()
+            .max(2000, language.translate('quote_request.message_over_maximum_length_error')),
+        quoteType: mixed()
+            .oneOf(values(QuoteType), language.translate('quote_request.quote_type_required_error'))
+            .required(language.translate('quote_request.quote_type_required_error')),
+    });
+}
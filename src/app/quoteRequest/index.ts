@@ -0,0 +1,11 @@
+export { default as Quote } from './Quote';
+export { default as QuoteRequestOptions } from './QuoteRequestOptions';
+export { default as QuoteRequestService, QuoteRequestBody } from './QuoteRequestService';
+export { default as QuoteRequestForm, QuoteRequestFormProps } from './QuoteRequestForm';
+export { default as QuoteStatus } from './QuoteStatus';
+export { default as QuoteSummary, QuoteSummaryProps } from './QuoteSummary';
+export { default as QuoteType } from './QuoteType';
+export { default as RestrictedBrandsModal, RestrictedBrandsModalProps } from './RestrictedBrandsModal';
+export { default as getQuoteRequestValidationSchema, QuoteRequestFormValues } from './getQuoteRequestValidationSchema';
+export { default as mapToRestrictedBrandsRule, getRestrictedBrandsUnavailableRule } from './mapToRestrictedBrandsRule';
+export { QuoteRequestProps } from './QuoteRequest';
@@ -0,0 +1,26 @@
+import { CartRestrictionAction, CartRestrictionRule } from '../cartRestriction';
+import { getLanguageService } from '../locale';
+
+export const RESTRICTED_BRANDS_RULE_ID = 'restricted-brands';
+
+export default function mapToRestrictedBrandsRule(brands: string[]): CartRestrictionRule {
+    return {
+        id: RESTRICTED_BRANDS_RULE_ID,
+        action: CartRestrictionAction.ForceQuote,
+        conditions: { brands },
+    };
+}
+
+/**
+ * Returns the rule that replaces the restricted brands rule if the brands
+ * cannot be loaded. Without them, it is unknown whether the shopper has to
+ * request a quote, so every product in the cart is blocked from being paid for.
+ */
+export function getRestrictedBrandsUnavailableRule(): CartRestrictionRule {
+    return {
+        id: RESTRICTED_BRANDS_RULE_ID,
+        action: CartRestrictionAction.Block,
+        conditions: {},
+        message: getLanguageService().translate('quote_request.restricted_brands_unavailable_error'),
+    };
+}
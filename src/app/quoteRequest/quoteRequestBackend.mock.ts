@@ -0,0 +1,91 @@
+import { createRequestSender, RequestOptions, RequestSender, Response } from '@bigcommerce/request-sender';
+
+import { createMockBackend, MockBackend } from '../../../scripts/mock-server';
+import { HttpClient } from '../common/http';
+import { getResponse } from '../common/request/responses.mock';
+import { uploadFile, UploadFileOptions } from '../common/upload';
+import { mockUploadRequests } from '../common/upload/uploadRequest.mock';
+
+import QuoteRequestService from './QuoteRequestService';
+
+export const MOCK_API_BASE_URL = 'http://localhost:8081/api/v1';
+
+export interface MockQuoteRequestBackendOptions {
+    /**
+     * Overrides the response delay of the scenario, so slow responses can be
+     * simulated without slowing down the test suite.
+     */
+    delay?: number;
+    timeout?: number;
+}
+
+export interface MockQuoteRequestBackend {
+    backend: MockBackend;
+    httpClient: HttpClient;
+    requestSender: RequestSender;
+    service: QuoteRequestService;
+    upload: jest.Mock<Promise<void>, [string, File, UploadFileOptions?]>;
+}
+
+/**
+ * Returns a `QuoteRequestService` whose requests are served by the same
+ * in-memory backend as the local mock server (see `scripts/mock-server`),
+ * so the whole quote flow can be exercised without network access.
+ */
+export function createMockQuoteRequestBackend(
+    scenario: string = 'default',
+    { delay, timeout }: MockQuoteRequestBackendOptions = {}
+): MockQuoteRequestBackend {
+    const backend = createMockBackend(scenario, { origin: 'http://localhost:8081' });
+    const requestSender = createRequestSender();
+
+    const send = <T>(method: string, url: string, body?: any, options: RequestOptions = {}) =>
+        new Promise<Response<T>>((resolve, reject) => {
+            const response = backend.handle({ body, method, url });
+            const responseDelay = delay === undefined ? response.delay : delay;
+
+            if (options.timeout) {
+                const onTimeout = () => reject(getResponse(null, {}, 0, ''));
+
+                if ('then' in options.timeout) {
+                    options.timeout.then(onTimeout);
+                } else {
+                    options.timeout.onComplete(onTimeout);
+                    options.timeout.start();
+                }
+            }
+
+            setTimeout(() => {
+                const result = getResponse<T>(response.body, {}, response.status, response.status < 400 ? 'OK' : 'Error');
+
+                return response.status >= 200 && response.status < 300 ? resolve(result) : reject(result);
+            }, responseDelay);
+        });
+
+    jest.spyOn(requestSender, 'sendRequest').mockImplementation((url, options = {}) => {
+        const query = options.params && new URLSearchParams(options.params).toString();
+
+        return send(options.method || 'GET', query ? `${url}?${query}` : url, options.body, options);
+    });
+
+    // Files are uploaded with the actual implementation, whose requests are
+    // routed to the backend while the upload is in progress.
+    const upload = jest.fn(async (url: string, file: File, options?: UploadFileOptions) => {
+        const spy = mockUploadRequests(({ body, headers, method, url: requestUrl }) => {
+            const response = backend.handle({ body, headers, method, url: requestUrl });
+
+            return { ...response, delay: delay === undefined ? response.delay : delay };
+        });
+
+        try {
+            await uploadFile(url, file, options);
+        } finally {
+            spy.mockRestore();
+        }
+    });
+
+    const httpClient = new HttpClient({ baseUrl: MOCK_API_BASE_URL, timeout }, requestSender);
+    const service = new QuoteRequestService({ apiBaseUrl: MOCK_API_BASE_URL }, httpClient, upload);
+
+    return { backend, httpClient, requestSender, service, upload };
+}
@@ -0,0 +1,46 @@
+import Quote from './Quote';
+import { QuoteResponseBody } from './QuoteRequestService';
+import QuoteStatus from './QuoteStatus';
+import QuoteType from './QuoteType';
+
+export function getQuote(): Quote {
+    return {
+        artworkUrls: ['https://bucket.foo.com/logo.png'],
+        checkoutId: 'abc',
+        id: '123',
+        message: 'Left chest logo',
+        quoteType: QuoteType.Embroidery,
+        status: QuoteStatus.Pending,
+    };
+}
+
+export function getPricedQuote(): Quote {
+    return {
+        ...getQuote(),
+        price: 150,
+        status: QuoteStatus.Priced,
+    };
+}
+
+export function getAcceptedQuote(): Quote {
+    return {
+        ...getQuote(),
+        price: 150,
+        status: QuoteStatus.Accepted,
+    };
+}
+
+export function getQuoteResponseBody(): QuoteResponseBody {
+    return {
+        data: {
+            checkout_id: 'abc',
+            id: 123,
+            message: 'Left chest logo',
+            price: null,
+            public_url: 'https://bucket.foo.com/logo.png',
+            public_urls: ['https://bucket.foo.com/logo.png'],
+            quote_type: QuoteType.Embroidery,
+            status: QuoteStatus.Pending,
+        },
+    };
+}
@@ -3,6 +3,7 @@ import { withFormik, FormikProps } from 'formik';
 import React, { Fragment, PureComponent, ReactNode } from 'react';
 
 import { isValidAddress, mapAddressFromFormValues, AddressFormModal, AddressFormValues } from '../address';
+import { withAnalytics, AnalyticsEventType, WithAnalyticsProps } from '../analytics';
 import { preventDefault } from '../common/dom';
 import { ErrorModal } from '../common/error';
 import { withLanguage, TranslatedLink, TranslatedString, WithLanguageProps } from '../locale';
@@ -53,7 +54,7 @@ export interface MultiShippingFormState {
     createCustomerAddressError?: Error;
 }
 
-class MultiShippingForm extends PureComponent<MultiShippingFormProps & WithLanguageProps & FormikProps<MultiShippingFormValues>, MultiShippingFormState> {
+class MultiShippingForm extends PureComponent<MultiShippingFormProps & WithAnalyticsProps & WithLanguageProps & FormikProps<MultiShippingFormValues>, MultiShippingFormState> {
     static getDerivedStateFromProps(
         { cart, consignments }: MultiShippingFormProps,
         state: MultiShippingFormState
@@ -130,7 +131,7 @@ class MultiShippingForm extends PureComponent<MultiShippingFormProps & WithLangu
                     onSaveAddress={ this.handleSaveAddress }
                 /> }
 
-                <Form>
+                <Form onValidationError={ this.handleValidationError }>
                     <ul className="consignmentList">
                         { items.map(item => (
                             <li key={ item.key }>
@@ -157,6 +158,12 @@ class MultiShippingForm extends PureComponent<MultiShippingFormProps & WithLangu
         );
     }
 
+    private handleValidationError: (fields: string[]) => void = fields => {
+        const { analytics } = this.props;
+
+        analytics.emit({ type: AnalyticsEventType.ValidationError, fields, form: 'multi-shipping-form' });
+    };
+
     private handleCloseErrorModal: () => void = () => {
         this.setState({ createCustomerAddressError: undefined });
     };
@@ -267,7 +274,7 @@ export interface MultiShippingFormValues {
     orderComment: string;
 }
 
-export default withLanguage(withFormik<MultiShippingFormProps & WithLanguageProps, MultiShippingFormValues>({
+export default withAnalytics(withLanguage(withFormik<MultiShippingFormProps & WithAnalyticsProps & WithLanguageProps, MultiShippingFormValues>({
     handleSubmit: (values, { props: { onSubmit } }) => {
         onSubmit(values);
     },
@@ -275,4 +282,4 @@ export default withLanguage(withFormik<MultiShippingFormProps & WithLanguageProp
         orderComment: customerMessage,
     }),
     enableReinitialize: true,
-})(MultiShippingForm));
+})(MultiShippingForm)));
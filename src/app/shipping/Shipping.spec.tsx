@@ -12,7 +12,11 @@ import { getCustomer } from '../customer/customers.mock';
 import { createLocaleContext, LocaleContext, LocaleContextType } from '../locale';
 
 import { getConsignment } from './consignment.mock';
+import { PickupUnavailableError } from './errors';
+import { PickupLocationContext } from './pickup';
+import { getPickupLocations } from './pickup/pickupLocations.mock';
 import { getShippingAddress } from './shipping-addresses.mock';
+import { getShippingOption, getShippingOptionPickUpStore } from './shippingOption/shippingMethod.mock';
 import Shipping, { ShippingProps, WithCheckoutShippingProps } from './Shipping';
 import ShippingForm from './ShippingForm';
 
@@ -33,7 +37,9 @@ describe('Shipping Component', () => {
         defaultProps = {
             isBillingSameAsShipping: true,
             isMultiShippingMode: false,
+            isPickupMode: false,
             onToggleMultiShipping: jest.fn(),
+            onTogglePickup: jest.fn(),
             cartHasChanged: false,
             onSignIn: jest.fn(),
             navigateNextStep: jest.fn(),
@@ -279,6 +285,109 @@ describe('Shipping Component', () => {
         expect(checkoutService.deleteConsignment).not.toHaveBeenCalled();
     });
 
+    describe('when pickup mode is on', () => {
+        let PickupComponentTest: FunctionComponent<ShippingProps>;
+
+        beforeEach(() => {
+            const pickupLocationProvider = {
+                getLocations: jest.fn(() => Promise.resolve(getPickupLocations())),
+            };
+
+            jest.spyOn(checkoutService, 'updateShippingAddress')
+                .mockResolvedValue({
+                    data: {
+                        getConsignments: () => [{
+                            ...getConsignment(),
+                            availableShippingOptions: [getShippingOption(), getShippingOptionPickUpStore()],
+                        }],
+                    },
+                } as unknown as CheckoutSelectors);
+
+            jest.spyOn(checkoutService, 'selectConsignmentShippingOption')
+                .mockResolvedValue({} as CheckoutSelectors);
+
+            PickupComponentTest = props => (
+                <PickupLocationContext.Provider value={ { pickupLocationProvider } }>
+                    <ComponentTest { ...props } />
+                </PickupLocationContext.Provider>
+            );
+        });
+
+        const submitPickupLocation = async (wrapper: ReactWrapper) => {
+            await new Promise(resolve => process.nextTick(resolve));
+            wrapper.update();
+
+            wrapper.find('input#pickupLocationRadio-store-1')
+                .simulate('change', { target: { value: 'store-1', name: 'pickupLocationId' } });
+            wrapper.find('form').simulate('submit');
+
+            await new Promise(resolve => process.nextTick(resolve));
+            await new Promise(resolve => process.nextTick(resolve));
+        };
+
+        it('renders pickup header and form instead of shipping form', async () => {
+            component = mount(<PickupComponentTest { ...defaultProps } isPickupMode={ true } />);
+            await new Promise(resolve => process.nextTick(resolve));
+            component.update();
+
+            expect(component.find('[data-test="shipping-address-heading"]').text())
+                .toEqual('Pickup Location');
+            expect(component.find(ShippingForm).length).toEqual(0);
+            expect(component.find('[data-test="pickup-location-form"]').exists()).toEqual(true);
+        });
+
+        it('ships consignment to selected location using pickup option', async () => {
+            component = mount(<PickupComponentTest { ...defaultProps } isPickupMode={ true } />);
+
+            await submitPickupLocation(component);
+
+            expect(checkoutService.updateShippingAddress)
+                .toHaveBeenCalledWith(expect.objectContaining({
+                    address1: '12 Collins Street',
+                    company: 'Downtown Store',
+                }));
+            expect(checkoutService.selectConsignmentShippingOption)
+                .toHaveBeenCalledWith(getConsignment().id, getShippingOptionPickUpStore().id);
+            expect(defaultProps.navigateNextStep)
+                .toHaveBeenCalledWith(false);
+        });
+
+        it('reports error if location does not offer pickup option', async () => {
+            jest.spyOn(checkoutService, 'updateShippingAddress')
+                .mockResolvedValue({
+                    data: { getConsignments: () => [getConsignment()] },
+                } as unknown as CheckoutSelectors);
+
+            component = mount(<PickupComponentTest { ...defaultProps } isPickupMode={ true } />);
+
+            await submitPickupLocation(component);
+
+            expect(defaultProps.onUnhandledError)
+                .toHaveBeenCalledWith(expect.any(PickupUnavailableError));
+            expect(defaultProps.navigateNextStep)
+                .not.toHaveBeenCalled();
+        });
+
+        it('deletes pickup consignment when shopper switches to shipping', async () => {
+            jest.spyOn(checkoutState.data, 'getConsignments')
+                .mockReturnValue([{ ...getConsignment(), selectedShippingOption: getShippingOptionPickUpStore() }]);
+
+            jest.spyOn(checkoutService, 'deleteConsignment')
+                .mockResolvedValue({ data: { getShippingAddress: () => undefined } } as unknown as CheckoutSelectors);
+
+            component = mount(<PickupComponentTest { ...defaultProps } isPickupMode={ true } />);
+
+            component.find('[data-test="pickup-mode-toggle"]').simulate('click');
+
+            await new Promise(resolve => process.nextTick(resolve));
+
+            expect(checkoutService.deleteConsignment)
+                .toHaveBeenCalledWith(getConsignment().id);
+            expect(defaultProps.onTogglePickup)
+                .toHaveBeenCalled();
+        });
+    });
+
     describe('when multishipping mode is on', () => {
         describe('when shopper is signed', () => {
             beforeEach(async () => {
@@ -6,11 +6,14 @@ import { createSelector } from 'reselect';
 import { isEqualAddress, mapAddressFromFormValues } from '../address';
 import { withCheckout, CheckoutContextProps } from '../checkout';
 import { EMPTY_ARRAY } from '../common/utility';
+import { applyFormFieldRulesToGetter, withFormFieldRules, WithFormFieldRulesProps } from '../formFields';
 import { LoadingOverlay } from '../ui/loading';
 
-import { UnassignItemError } from './errors';
+import { removeDeliverySchedule } from './deliverySchedule';
+import { PickupUnavailableError, UnassignItemError } from './errors';
 import getShippableItemsCount from './getShippableItemsCount';
 import getShippingMethodId from './getShippingMethodId';
+import { isUsingPickup, mapPickupLocationToAddress, withPickupLocations, PickupForm, PickupLocation, PICKUP_SHIPPING_OPTION_TYPE, WithPickupLocationsProps } from './pickup';
 import { MultiShippingFormValues } from './MultiShippingForm';
 import ShippingForm from './ShippingForm';
 import ShippingHeader from './ShippingHeader';
@@ -20,8 +23,10 @@ export interface ShippingProps {
     isBillingSameAsShipping: boolean;
     cartHasChanged: boolean;
     isMultiShippingMode: boolean;
+    isPickupMode: boolean;
     onCreateAccount(): void;
     onToggleMultiShipping(): void;
+    onTogglePickup(): void;
     onReady?(): void;
     onUnhandledError(error: Error): void;
     onSignIn(): void;
@@ -53,6 +58,7 @@ export interface WithCheckoutShippingProps {
     initializeShippingMethod(options: ShippingInitializeOptions): Promise<CheckoutSelectors>;
     loadShippingAddressFields(): Promise<CheckoutSelectors>;
     loadShippingOptions(): Promise<CheckoutSelectors>;
+    selectShippingOption(consignmentId: string, optionId: string): Promise<CheckoutSelectors>;
     signOut(options?: CustomerRequestOptions): void;
     createCustomerAddress(address: AddressRequestBody): Promise<CheckoutSelectors>;
     unassignItem(consignment: ConsignmentAssignmentRequestBody): Promise<CheckoutSelectors>;
@@ -65,8 +71,8 @@ interface ShippingState {
     isInitializing: boolean;
 }
 
-class Shipping extends Component<ShippingProps & WithCheckoutShippingProps, ShippingState> {
-    constructor(props: ShippingProps & WithCheckoutShippingProps) {
+class Shipping extends Component<ShippingProps & WithCheckoutShippingProps & WithFormFieldRulesProps & WithPickupLocationsProps, ShippingState> {
+    constructor(props: ShippingProps & WithCheckoutShippingProps & WithFormFieldRulesProps & WithPickupLocationsProps) {
         super(props);
 
         this.state = {
@@ -107,7 +113,11 @@ class Shipping extends Component<ShippingProps & WithCheckoutShippingProps, Ship
             initializeShippingMethod,
             deinitializeShippingMethod,
             isMultiShippingMode,
+            isPickupMode,
             onToggleMultiShipping,
+            onTogglePickup,
+            pickupLocationProvider,
+            selectShippingOption,
             ...shippingFormProps
         } = this.props;
 
@@ -120,33 +130,57 @@ class Shipping extends Component<ShippingProps & WithCheckoutShippingProps, Ship
                 <ShippingHeader
                     isGuest={ isGuest }
                     isMultiShippingMode={ isMultiShippingMode }
+                    isPickupMode={ isPickupMode }
                     onMultiShippingChange={ onToggleMultiShipping }
+                    onPickupChange={ this.handleTogglePickup }
                     shouldShowMultiShipping={ shouldShowMultiShipping }
+                    shouldShowPickup={ !!pickupLocationProvider }
                 />
 
                 <LoadingOverlay
                     isLoading={ isInitializing }
                     unmountContentWhenLoading
                 >
-                    <ShippingForm
-                        { ...shippingFormProps }
-                        addresses={ customer.addresses }
-                        deinitialize={ deinitializeShippingMethod }
-                        initialize={ initializeShippingMethod }
-                        isBillingSameAsShipping = { isBillingSameAsShipping }
-                        isGuest={ isGuest }
-                        isMultiShippingMode={ isMultiShippingMode }
-                        onMultiShippingSubmit={ this.handleMultiShippingSubmit }
-                        onSingleShippingSubmit={ this.handleSingleShippingSubmit }
-                        onUseNewAddress={ this.handleUseNewAddress }
-                        shouldShowSaveAddress={ !isGuest }
-                        updateAddress={ updateShippingAddress }
-                    />
+                    { isPickupMode && pickupLocationProvider ?
+                        this.renderPickupForm() :
+                        <ShippingForm
+                            { ...shippingFormProps }
+                            addresses={ customer.addresses }
+                            deinitialize={ deinitializeShippingMethod }
+                            initialize={ initializeShippingMethod }
+                            isBillingSameAsShipping = { isBillingSameAsShipping }
+                            isGuest={ isGuest }
+                            isMultiShippingMode={ isMultiShippingMode }
+                            onMultiShippingSubmit={ this.handleMultiShippingSubmit }
+                            onSingleShippingSubmit={ this.handleSingleShippingSubmit }
+                            onUseNewAddress={ this.handleUseNewAddress }
+                            shouldShowSaveAddress={ !isGuest }
+                            updateAddress={ updateShippingAddress }
+                        /> }
                 </LoadingOverlay>
             </div>
         );
     }
 
+    private renderPickupForm(): ReactNode {
+        const {
+            cart,
+            consignments,
+            isLoading,
+            onUnhandledError,
+        } = this.props;
+
+        return (
+            <PickupForm
+                cart={ cart }
+                consignments={ consignments }
+                isLoading={ isLoading }
+                onSubmit={ this.handlePickupSubmit }
+                onUnhandledError={ onUnhandledError }
+            />
+        );
+    }
+
     private handleSingleShippingSubmit: (values: SingleShippingFormValues) => void = async ({
         billingSameAsShipping,
         shippingAddress: addressValues,
@@ -193,6 +227,59 @@ class Shipping extends Component<ShippingProps & WithCheckoutShippingProps, Ship
         }
     };
 
+    // The consignment is shipped to the location, so the shopper can pick it
+    // up from there. Billing is not the same as shipping, so the shopper still
+    // has to provide their billing address.
+    private handlePickupSubmit: (location: PickupLocation) => void = async location => {
+        const {
+            navigateNextStep,
+            onUnhandledError,
+            selectShippingOption,
+            updateShippingAddress,
+        } = this.props;
+
+        try {
+            const { data } = await updateShippingAddress(mapPickupLocationToAddress(location));
+            const consignment = (data.getConsignments() || [])[0];
+            const pickupOption = consignment && (consignment.availableShippingOptions || [])
+                .find(({ type }) => type === PICKUP_SHIPPING_OPTION_TYPE);
+
+            if (!consignment || !pickupOption) {
+                throw new PickupUnavailableError();
+            }
+
+            if (!consignment.selectedShippingOption || consignment.selectedShippingOption.id !== pickupOption.id) {
+                await selectShippingOption(consignment.id, pickupOption.id);
+            }
+
+            navigateNextStep(false);
+        } catch (error) {
+            onUnhandledError(error);
+        }
+    };
+
+    private handleTogglePickup: () => void = async () => {
+        const {
+            consignments,
+            deleteConsignments,
+            isPickupMode,
+            onTogglePickup,
+            onUnhandledError,
+        } = this.props;
+
+        // The address of the location should not be offered as the shipping
+        // address of the shopper once they decide to ship their order.
+        try {
+            if (isPickupMode && isUsingPickup(consignments)) {
+                await deleteConsignments();
+            }
+
+            onTogglePickup();
+        } catch (error) {
+            onUnhandledError(error);
+        }
+    };
+
     private hasRemoteBilling: (methodId?: string) => boolean = methodId => {
         const PAYMENT_METHOD_VALID = ['amazonpay'];
 
@@ -253,10 +340,10 @@ const deleteConsignmentsSelector = createSelector(
     }
 );
 
-export function mapToShippingProps({
-    checkoutService,
-    checkoutState,
-}: CheckoutContextProps): WithCheckoutShippingProps | null {
+export function mapToShippingProps(
+    { checkoutService, checkoutState }: CheckoutContextProps,
+    { formFieldRules }: WithFormFieldRulesProps
+): WithCheckoutShippingProps | null {
     const {
         data: {
             getCart,
@@ -334,11 +421,11 @@ export function mapToShippingProps({
         countries: getShippingCountries() || EMPTY_ARRAY,
         countriesWithAutocomplete,
         customer,
-        customerMessage: checkout.customerMessage,
+        customerMessage: removeDeliverySchedule(checkout.customerMessage),
         createCustomerAddress: checkoutService.createCustomerAddress,
         deinitializeShippingMethod: checkoutService.deinitializeShipping,
         deleteConsignments: deleteConsignmentsSelector({ checkoutService, checkoutState }),
-        getFields: getShippingAddressFields,
+        getFields: applyFormFieldRulesToGetter(getShippingAddressFields, formFieldRules),
         googleMapsApiKey,
         initializeShippingMethod: checkoutService.initializeShipping,
         isGuest: customer.isGuest,
@@ -348,6 +435,7 @@ export function mapToShippingProps({
         loadShippingAddressFields: checkoutService.loadShippingAddressFields,
         loadShippingOptions: checkoutService.loadShippingOptions,
         methodId,
+        selectShippingOption: checkoutService.selectConsignmentShippingOption,
         shippingAddress,
         shouldShowMultiShipping,
         shouldShowAddAddressInCheckout: features['CHECKOUT-4726.add_address_in_multishipping_checkout'],
@@ -360,4 +448,4 @@ export function mapToShippingProps({
     };
 }
 
-export default withCheckout(mapToShippingProps)(Shipping);
+export default withPickupLocations(withFormFieldRules(withCheckout(mapToShippingProps)(Shipping)));
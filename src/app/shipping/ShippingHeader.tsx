@@ -1,3 +1,4 @@
+import { noop } from 'lodash';
 import React, { memo, FunctionComponent } from 'react';
 
 import { preventDefault } from '../common/dom';
@@ -6,21 +7,27 @@ import { Legend } from '../ui/form';
 
 interface ShippingHeaderProps {
     isMultiShippingMode: boolean;
+    isPickupMode?: boolean;
     isGuest: boolean;
     shouldShowMultiShipping: boolean;
+    shouldShowPickup?: boolean;
     onMultiShippingChange(): void;
+    onPickupChange?(): void;
 }
 
 const ShippingHeader: FunctionComponent<ShippingHeaderProps> = ({
     isMultiShippingMode,
+    isPickupMode,
     isGuest,
     onMultiShippingChange,
+    onPickupChange = noop,
     shouldShowMultiShipping,
+    shouldShowPickup,
 }) => (
     <div className="form-legend-container">
         <Legend testId="shipping-address-heading">
             <TranslatedString
-                id={ isMultiShippingMode ?
+                id={ isPickupMode ? 'shipping.pickup_location_heading' : isMultiShippingMode ?
                     (isGuest ?
                         'shipping.multishipping_address_heading_guest' :
                         'shipping.multishipping_address_heading') :
@@ -28,7 +35,7 @@ const ShippingHeader: FunctionComponent<ShippingHeaderProps> = ({
             />
         </Legend>
 
-        { shouldShowMultiShipping &&
+        { shouldShowMultiShipping && !isPickupMode &&
             <a
                 data-test="shipping-mode-toggle"
                 href="#"
@@ -39,6 +46,19 @@ const ShippingHeader: FunctionComponent<ShippingHeaderProps> = ({
                     'shipping.ship_to_multi' }
                 />
             </a> }
+
+        { shouldShowPickup &&
+            <a
+                className="shippingHeader-pickupToggle"
+                data-test="pickup-mode-toggle"
+                href="#"
+                onClick={ preventDefault(onPickupChange) }
+            >
+                <TranslatedString id={ isPickupMode ?
+                    'shipping.ship_to_address' :
+                    'shipping.pickup_in_store' }
+                />
+            </a> }
     </div>
 );
 
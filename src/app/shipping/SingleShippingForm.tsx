@@ -4,7 +4,8 @@ import { debounce, noop } from 'lodash';
 import React, { PureComponent, ReactNode } from 'react';
 import { lazy, object } from 'yup';
 
-import { getAddressFormFieldsValidationSchema, getTranslateAddressError, isEqualAddress, mapAddressFromFormValues, mapAddressToFormValues, AddressFormValues } from '../address';
+import { getAddressFormFieldsValidationSchema, getTranslateAddressError, isEqualAddress, mapAddressFromFormValues, mapAddressToFormValues, showSuggestedAddress, withAddressVerifier, AddressFormValues, AddressVerificationFormModal, WithAddressVerifierProps } from '../address';
+import { withAnalytics, AnalyticsEventType, WithAnalyticsProps } from '../analytics';
 import { getCustomFormFieldsValidationSchema } from '../formFields';
 import { withLanguage, WithLanguageProps } from '../locale';
 import { Fieldset, Form, FormContext } from '../ui/form';
@@ -55,7 +56,7 @@ interface SingleShippingFormState {
 
 export const SHIPPING_AUTOSAVE_DELAY = 1700;
 
-class SingleShippingForm extends PureComponent<SingleShippingFormProps & WithLanguageProps & FormikProps<SingleShippingFormValues>> {
+class SingleShippingForm extends PureComponent<SingleShippingFormProps & WithAnalyticsProps & WithLanguageProps & WithAddressVerifierProps & FormikProps<SingleShippingFormValues>> {
     static contextType = FormContext;
 
     state: SingleShippingFormState = {
@@ -66,7 +67,7 @@ class SingleShippingForm extends PureComponent<SingleShippingFormProps & WithLan
 
     private debouncedUpdateAddress: any;
 
-    constructor(props: SingleShippingFormProps & WithLanguageProps & FormikProps<SingleShippingFormValues>) {
+    constructor(props: SingleShippingFormProps & WithAnalyticsProps & WithLanguageProps & WithAddressVerifierProps & FormikProps<SingleShippingFormValues>) {
         super(props);
 
         const { updateAddress } = this.props;
@@ -108,6 +109,8 @@ class SingleShippingForm extends PureComponent<SingleShippingFormProps & WithLan
             deinitialize,
             values: { shippingAddress: addressForm },
             isShippingStepPending,
+            getFields,
+            onSubmit,
         } = this.props;
 
         const {
@@ -120,7 +123,7 @@ class SingleShippingForm extends PureComponent<SingleShippingFormProps & WithLan
         const shouldShowBillingSameAsShipping = !PAYMENT_METHOD_VALID.some(method => method === methodId);
 
         return (
-            <Form autoComplete="on">
+            <Form autoComplete="on" onValidationError={ this.handleValidationError }>
                 <Fieldset>
                     <ShippingAddress
                         addresses={ addresses }
@@ -157,6 +160,15 @@ class SingleShippingForm extends PureComponent<SingleShippingFormProps & WithLan
                     shouldShowOrderComments={ shouldShowOrderComments }
                     shouldShowShippingOptions={ isValid }
                 />
+
+                <AddressVerificationFormModal
+                    addressFieldName="shippingAddress"
+                    countries={ countries }
+                    countriesWithAutocomplete={ countriesWithAutocomplete }
+                    getFields={ getFields }
+                    googleMapsApiKey={ googleMapsApiKey }
+                    onSubmit={ onSubmit }
+                />
             </Form>
         );
     }
@@ -179,6 +191,12 @@ class SingleShippingForm extends PureComponent<SingleShippingFormProps & WithLan
         return isLoading || isUpdatingShippingData || !hasSelectedShippingOptions(consignments);
     };
 
+    private handleValidationError: (fields: string[]) => void = fields => {
+        const { analytics } = this.props;
+
+        analytics.emit({ type: AnalyticsEventType.ValidationError, fields, form: 'shipping-form' });
+    };
+
     private handleFieldChange: (name: string) => void = async name => {
         const {
             setFieldValue,
@@ -285,8 +303,16 @@ class SingleShippingForm extends PureComponent<SingleShippingFormProps & WithLan
     }
 }
 
-export default withLanguage(withFormik<SingleShippingFormProps & WithLanguageProps, SingleShippingFormValues>({
-    handleSubmit: (values, { props: { onSubmit } }) => {
+export default withAnalytics(withAddressVerifier(withLanguage(withFormik<SingleShippingFormProps & WithAnalyticsProps & WithLanguageProps & WithAddressVerifierProps, SingleShippingFormValues>({
+    handleSubmit: async (values, { props: { addressVerifier, methodId, onSubmit }, setStatus }) => {
+        const address = !methodId && values.shippingAddress ?
+            mapAddressFromFormValues(values.shippingAddress) :
+            undefined;
+
+        if (await showSuggestedAddress(addressVerifier, address, setStatus)) {
+            return;
+        }
+
         onSubmit(values);
     },
     mapPropsToValues: ({ getFields, shippingAddress, isBillingSameAsShipping, customerMessage }) => ({
@@ -303,6 +329,7 @@ export default withLanguage(withFormik<SingleShippingFormProps & WithLanguagePro
         language,
     }) => (
         !!shippingAddress && getAddressFormFieldsValidationSchema({
+            countryCode: shippingAddress.countryCode,
             language,
             formFields: getFields(shippingAddress.countryCode),
         }).isValidSync(shippingAddress)
@@ -317,16 +344,19 @@ export default withLanguage(withFormik<SingleShippingFormProps & WithLanguagePro
                 getCustomFormFieldsValidationSchema({
                     translate: getTranslateAddressError(language),
                     formFields: getFields(formValues && formValues.countryCode),
+                    values: formValues,
                 })
             ),
         }) :
         object({
             shippingAddress: lazy<Partial<AddressFormValues>>(formValues =>
                 getAddressFormFieldsValidationSchema({
+                    countryCode: formValues && formValues.countryCode,
                     language,
                     formFields: getFields(formValues && formValues.countryCode),
+                    values: formValues,
                 })
             ),
         }),
     enableReinitialize: false,
-})(SingleShippingForm));
+})(SingleShippingForm))));
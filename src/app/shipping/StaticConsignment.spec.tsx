@@ -2,6 +2,8 @@ import { render } from 'enzyme';
 import React from 'react';
 
 import { getCart } from '../cart/carts.mock';
+import { getStoreConfig } from '../config/config.mock';
+import { createLocaleContext, LocaleContext } from '../locale';
 
 import { getConsignment } from './consignment.mock';
 import StaticConsignment from './StaticConsignment';
@@ -32,4 +34,19 @@ describe('StaticConsignment Component', () => {
 
         expect(tree).toMatchSnapshot();
     });
+
+    it('renders scheduled delivery slot of consignment', () => {
+        const tree = render(
+            <LocaleContext.Provider value={ createLocaleContext(getStoreConfig()) }>
+                <StaticConsignment
+                    cart={ cart }
+                    consignment={ consignment }
+                    deliverySlot={ { id: '2021-03-08-09:00', date: '2021-03-08', startTime: '09:00', endTime: '12:00' } }
+                />
+            </LocaleContext.Provider>
+        );
+
+        expect(tree.find('[data-test="static-delivery-slot"]').text())
+            .toEqual('Mon, Mar 8, 09:00 - 12:00');
+    });
 });
@@ -4,6 +4,7 @@ import React, { memo, FunctionComponent } from 'react';
 import { AddressType, StaticAddress } from '../address';
 import { TranslatedString } from '../locale';
 
+import { DeliverySlot, StaticDeliverySlot } from './deliverySchedule';
 import { StaticShippingOption } from './shippingOption';
 import './StaticConsignment.scss';
 import StaticConsignmentItemList from './StaticConsignmentItemList';
@@ -12,12 +13,14 @@ interface StaticConsignmentProps {
     consignment: Consignment;
     cart: Cart;
     compactView?: boolean;
+    deliverySlot?: DeliverySlot;
 }
 
 const StaticConsignment: FunctionComponent<StaticConsignmentProps> = ({
     consignment,
     cart,
     compactView,
+    deliverySlot,
 }) => {
     const {
         shippingAddress: address,
@@ -55,6 +58,17 @@ const StaticConsignment: FunctionComponent<StaticConsignmentProps> = ({
                         />
                     </div>
                 </div> }
+
+            { deliverySlot &&
+                <div>
+                    { !compactView &&
+                        <strong>
+                            <TranslatedString id="shipping.delivery_slot_label" />
+                        </strong> }
+                    <div className="staticConsignment-deliverySlot">
+                        <StaticDeliverySlot slot={ deliverySlot } />
+                    </div>
+                </div> }
         </div>
     );
 };
@@ -0,0 +1,158 @@
+import { mount, ReactWrapper } from 'enzyme';
+import React, { FunctionComponent } from 'react';
+
+import { getStoreConfig } from '../../config/config.mock';
+import { createLocaleContext, LocaleContext } from '../../locale';
+import { getConsignment } from '../consignment.mock';
+
+import DeliverySchedule, { DeliveryScheduleProps } from './DeliverySchedule';
+import DeliveryScheduleContext from './DeliveryScheduleContext';
+import DeliveryScheduleProvider from './DeliveryScheduleProvider';
+import { DeliveryDate } from './DeliverySlot';
+import DeliverySlotStorage from './DeliverySlotStorage';
+
+describe('DeliverySchedule', () => {
+    let dates: DeliveryDate[];
+    let defaultProps: DeliveryScheduleProps;
+    let deliveryScheduleProvider: DeliveryScheduleProvider;
+    let deliverySlotStorage: DeliverySlotStorage;
+    let DeliveryScheduleTest: FunctionComponent<DeliveryScheduleProps>;
+
+    const flushPromises = async (component: ReactWrapper) => {
+        await new Promise(resolve => process.nextTick(resolve));
+        component.update();
+    };
+
+    beforeEach(() => {
+        window.localStorage.clear();
+
+        dates = [
+            {
+                date: '2021-03-08',
+                slots: [
+                    { id: '2021-03-08-09:00', date: '2021-03-08', startTime: '09:00', endTime: '12:00' },
+                    { id: '2021-03-08-12:00', date: '2021-03-08', startTime: '12:00', endTime: '15:00' },
+                ],
+            },
+            {
+                date: '2021-03-09',
+                slots: [
+                    { id: '2021-03-09-09:00', date: '2021-03-09', startTime: '09:00', endTime: '12:00' },
+                ],
+            },
+        ];
+
+        deliveryScheduleProvider = {
+            getAvailableDates: jest.fn(() => Promise.resolve(dates)),
+        };
+
+        deliverySlotStorage = new DeliverySlotStorage(window.localStorage);
+
+        defaultProps = {
+            cartId: 'cart-1',
+            consignment: getConsignment(),
+            deliverySlotStorage,
+        };
+
+        DeliveryScheduleTest = props => (
+            <LocaleContext.Provider value={ createLocaleContext(getStoreConfig()) }>
+                <DeliveryScheduleContext.Provider value={ { deliveryScheduleProvider } }>
+                    <DeliverySchedule { ...props } />
+                </DeliveryScheduleContext.Provider>
+            </LocaleContext.Provider>
+        );
+    });
+
+    it('loads available dates of consignment', async () => {
+        const component = mount(<DeliveryScheduleTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        expect(deliveryScheduleProvider.getAvailableDates)
+            .toHaveBeenCalledWith(defaultProps.consignment);
+        expect(component.find('[data-test="delivery-schedule-date"]').hostNodes().map(node => node.text()))
+            .toEqual(['Mon, Mar 8', 'Tue, Mar 9']);
+    });
+
+    it('lists time windows of first date by default', async () => {
+        const component = mount(<DeliveryScheduleTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        expect(component.find('[data-test="delivery-schedule-slot"]').hostNodes().map(node => node.text()))
+            .toEqual(['09:00 - 12:00', '12:00 - 15:00']);
+    });
+
+    it('lists time windows of selected date', async () => {
+        const component = mount(<DeliveryScheduleTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        component.find('[data-test="delivery-schedule-date"]').hostNodes().at(1).simulate('click');
+
+        expect(component.find('[data-test="delivery-schedule-slot"]').hostNodes().map(node => node.text()))
+            .toEqual(['09:00 - 12:00']);
+    });
+
+    it('stores selected time window of consignment', async () => {
+        const component = mount(<DeliveryScheduleTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        component.find('[data-test="delivery-schedule-slot"]').hostNodes().at(1).simulate('click');
+
+        expect(deliverySlotStorage.getSlot('cart-1', defaultProps.consignment.id))
+            .toEqual(dates[0].slots[1]);
+        expect(component.find('[data-test="delivery-schedule-slot"]').hostNodes().at(1).prop('aria-pressed'))
+            .toEqual(true);
+    });
+
+    it('preselects stored time window if it is still available', async () => {
+        deliverySlotStorage.setSlot('cart-1', defaultProps.consignment.id, dates[1].slots[0]);
+
+        const component = mount(<DeliveryScheduleTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        expect(component.find('[data-test="delivery-schedule-date"]').hostNodes().at(1).prop('aria-pressed'))
+            .toEqual(true);
+        expect(component.find('[data-test="delivery-schedule-slot"]').hostNodes().at(0).prop('aria-pressed'))
+            .toEqual(true);
+    });
+
+    it('renders nothing if no dates are available', async () => {
+        dates = [];
+
+        const component = mount(<DeliveryScheduleTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        expect(component.find('[data-test="delivery-schedule"]').exists())
+            .toEqual(false);
+    });
+
+    it('renders nothing if availability cannot be loaded', async () => {
+        jest.spyOn(deliveryScheduleProvider, 'getAvailableDates')
+            .mockRejectedValue(new Error());
+
+        const component = mount(<DeliveryScheduleTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        expect(component.find('[data-test="delivery-schedule"]').exists())
+            .toEqual(false);
+    });
+
+    it('renders nothing if there is no provider', async () => {
+        const component = mount(
+            <LocaleContext.Provider value={ createLocaleContext(getStoreConfig()) }>
+                <DeliverySchedule { ...defaultProps } />
+            </LocaleContext.Provider>
+        );
+
+        await flushPromises(component);
+
+        expect(component.find('[data-test="delivery-schedule"]').exists())
+            .toEqual(false);
+    });
+});
@@ -0,0 +1,214 @@
+import { Consignment } from '@bigcommerce/checkout-sdk';
+import classNames from 'classnames';
+import { isEqual } from 'lodash';
+import React, { memo, useCallback, Component, FunctionComponent, ReactNode } from 'react';
+
+import { withLanguage, TranslatedString, WithLanguageProps } from '../../locale';
+import { LoadingOverlay } from '../../ui/loading';
+
+import formatDeliveryDate from './formatDeliveryDate';
+import withDeliverySchedule, { WithDeliveryScheduleProps } from './withDeliverySchedule';
+import './DeliverySchedule.scss';
+import DeliverySlot, { DeliveryDate } from './DeliverySlot';
+import DeliverySlotStorage from './DeliverySlotStorage';
+
+export interface DeliveryScheduleProps {
+    cartId: string;
+    consignment: Consignment;
+    deliverySlotStorage?: DeliverySlotStorage;
+}
+
+interface DeliveryScheduleOptionProps {
+    isSelected: boolean;
+    testId: string;
+    value: string;
+    onSelect(value: string): void;
+}
+
+const DeliveryScheduleOption: FunctionComponent<DeliveryScheduleOptionProps> = memo(({
+    children,
+    isSelected,
+    onSelect,
+    testId,
+    value,
+}) => {
+    const handleClick = useCallback(() => onSelect(value), [onSelect, value]);
+
+    return (
+        <button
+            aria-pressed={ isSelected }
+            className={ classNames('deliverySchedule-option', { 'is-selected': isSelected }) }
+            data-test={ testId }
+            onClick={ handleClick }
+            type="button"
+        >
+            { children }
+        </button>
+    );
+});
+
+interface DeliveryScheduleState {
+    dates: DeliveryDate[];
+    isLoading: boolean;
+    selectedDate?: string;
+    selectedSlot?: DeliverySlot;
+}
+
+class DeliverySchedule extends Component<
+    DeliveryScheduleProps & WithDeliveryScheduleProps & WithLanguageProps,
+    DeliveryScheduleState
+> {
+    state: DeliveryScheduleState = {
+        dates: [],
+        isLoading: false,
+    };
+
+    private deliverySlotStorage: DeliverySlotStorage;
+    private isUnmounted = false;
+
+    constructor(props: DeliveryScheduleProps & WithDeliveryScheduleProps & WithLanguageProps) {
+        super(props);
+
+        this.deliverySlotStorage = props.deliverySlotStorage || new DeliverySlotStorage();
+    }
+
+    componentDidMount(): void {
+        this.loadAvailableDates();
+    }
+
+    componentDidUpdate({ consignment: prevConsignment }: DeliveryScheduleProps): void {
+        const { consignment } = this.props;
+
+        // Availability usually depends on where the consignment is shipped to
+        // and how, so it has to be loaded again if either of them changes.
+        if (consignment.id !== prevConsignment.id ||
+            !isEqual(consignment.shippingAddress, prevConsignment.shippingAddress) ||
+            getShippingOptionId(consignment) !== getShippingOptionId(prevConsignment)
+        ) {
+            this.loadAvailableDates();
+        }
+    }
+
+    componentWillUnmount(): void {
+        this.isUnmounted = true;
+    }
+
+    render(): ReactNode {
+        const { language } = this.props;
+        const { dates, isLoading, selectedDate, selectedSlot } = this.state;
+        const selectedDeliveryDate = dates.find(({ date }) => date === selectedDate);
+
+        if (!dates.length && !isLoading) {
+            return null;
+        }
+
+        return (
+            <div className="deliverySchedule" data-test="delivery-schedule">
+                <LoadingOverlay isLoading={ isLoading }>
+                    <strong className="deliverySchedule-heading">
+                        <TranslatedString id="shipping.delivery_schedule_heading" />
+                    </strong>
+
+                    <ul className="deliverySchedule-dates">
+                        { dates.map(({ date }) => (
+                            <li key={ date }>
+                                <DeliveryScheduleOption
+                                    isSelected={ date === selectedDate }
+                                    onSelect={ this.handleSelectDate }
+                                    testId="delivery-schedule-date"
+                                    value={ date }
+                                >
+                                    { formatDeliveryDate(date, language.getLocale()) }
+                                </DeliveryScheduleOption>
+                            </li>
+                        )) }
+                    </ul>
+
+                    { selectedDeliveryDate && <>
+                        <strong className="deliverySchedule-heading">
+                            <TranslatedString id="shipping.delivery_schedule_time_heading" />
+                        </strong>
+
+                        <ul className="deliverySchedule-slots">
+                            { selectedDeliveryDate.slots.map(slot => (
+                                <li key={ slot.id }>
+                                    <DeliveryScheduleOption
+                                        isSelected={ !!selectedSlot && slot.id === selectedSlot.id }
+                                        onSelect={ this.handleSelectSlot }
+                                        testId="delivery-schedule-slot"
+                                        value={ slot.id }
+                                    >
+                                        <TranslatedString
+                                            data={ { startTime: slot.startTime, endTime: slot.endTime } }
+                                            id="shipping.delivery_time_window_text"
+                                        />
+                                    </DeliveryScheduleOption>
+                                </li>
+                            )) }
+                        </ul>
+                    </> }
+                </LoadingOverlay>
+            </div>
+        );
+    }
+
+    private handleSelectDate: (date: string) => void = date => {
+        this.setState({ selectedDate: date });
+    };
+
+    private handleSelectSlot: (slotId: string) => void = slotId => {
+        const { cartId, consignment } = this.props;
+        const { dates } = this.state;
+        const slot = getDeliverySlots(dates).find(({ id }) => id === slotId);
+
+        if (!slot) {
+            return;
+        }
+
+        this.deliverySlotStorage.setSlot(cartId, consignment.id, slot);
+        this.setState({ selectedSlot: slot });
+    };
+
+    private async loadAvailableDates(): Promise<void> {
+        const { cartId, consignment, deliveryScheduleProvider } = this.props;
+
+        if (!deliveryScheduleProvider) {
+            return;
+        }
+
+        this.setState({ isLoading: true });
+
+        try {
+            const dates = await deliveryScheduleProvider.getAvailableDates(consignment);
+            const storedSlot = this.deliverySlotStorage.getSlot(cartId, consignment.id);
+            const selectedSlot = storedSlot && getDeliverySlots(dates).find(({ id }) => id === storedSlot.id);
+
+            if (this.isUnmounted) {
+                return;
+            }
+
+            this.setState({
+                dates,
+                isLoading: false,
+                selectedDate: selectedSlot ? selectedSlot.date : dates.length ? dates[0].date : undefined,
+                selectedSlot,
+            });
+        } catch (error) {
+            // The shopper can still complete the checkout without scheduling
+            // the delivery if the availability cannot be loaded.
+            if (!this.isUnmounted) {
+                this.setState({ dates: [], isLoading: false });
+            }
+        }
+    }
+}
+
+function getDeliverySlots(dates: DeliveryDate[]): DeliverySlot[] {
+    return dates.reduce((slots, date) => [...slots, ...date.slots], [] as DeliverySlot[]);
+}
+
+function getShippingOptionId({ selectedShippingOption }: Consignment): string | undefined {
+    return selectedShippingOption && selectedShippingOption.id;
+}
+
+export default withDeliverySchedule(withLanguage(DeliverySchedule));
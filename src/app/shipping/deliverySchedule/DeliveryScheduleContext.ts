@@ -0,0 +1,13 @@
+import { createContext } from 'react';
+
+import DeliveryScheduleProvider from './DeliveryScheduleProvider';
+
+export interface DeliveryScheduleContextType {
+    deliveryScheduleProvider?: DeliveryScheduleProvider;
+}
+
+// The shopper is not asked to schedule deliveries if there is no provider,
+// i.e.: if the store has not configured one.
+const DeliveryScheduleContext = createContext<DeliveryScheduleContextType>({});
+
+export default DeliveryScheduleContext;
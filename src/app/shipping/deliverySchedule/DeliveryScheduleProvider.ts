@@ -0,0 +1,14 @@
+import { Consignment } from '@bigcommerce/checkout-sdk';
+
+import { DeliveryDate } from './DeliverySlot';
+
+export default interface DeliveryScheduleProvider {
+    /**
+     * Returns the dates, and the time windows within them, the consignment
+     * can be delivered in. The shopper is not asked to schedule the delivery
+     * if no dates are returned.
+     *
+     * @param consignment The consignment to schedule the delivery of
+     */
+    getAvailableDates(consignment: Consignment): Promise<DeliveryDate[]>;
+}
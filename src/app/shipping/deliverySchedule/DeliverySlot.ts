@@ -0,0 +1,14 @@
+export default interface DeliverySlot {
+    id: string;
+    /**
+     * The delivery date, in `YYYY-MM-DD` format
+     */
+    date: string;
+    startTime: string;
+    endTime: string;
+}
+
+export interface DeliveryDate {
+    date: string;
+    slots: DeliverySlot[];
+}
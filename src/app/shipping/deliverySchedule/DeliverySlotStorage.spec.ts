@@ -0,0 +1,44 @@
+import DeliverySlotStorage, { DELIVERY_SLOTS_STORAGE_KEY } from './DeliverySlotStorage';
+
+describe('DeliverySlotStorage', () => {
+    const slot = { id: '2021-03-02-09:00', date: '2021-03-02', startTime: '09:00', endTime: '12:00' };
+    let storage: DeliverySlotStorage;
+
+    beforeEach(() => {
+        window.localStorage.clear();
+
+        storage = new DeliverySlotStorage(window.localStorage);
+    });
+
+    it('returns no slots if nothing is stored', () => {
+        expect(storage.getSlots('cart-1')).toEqual({});
+    });
+
+    it('returns no slots if stored value is malformed', () => {
+        window.localStorage.setItem(DELIVERY_SLOTS_STORAGE_KEY, '{');
+
+        expect(storage.getSlots('cart-1')).toEqual({});
+    });
+
+    it('persists selected slot of consignment', () => {
+        storage.setSlot('cart-1', 'consignment-1', slot);
+
+        expect(new DeliverySlotStorage(window.localStorage).getSlot('cart-1', 'consignment-1'))
+            .toEqual(slot);
+    });
+
+    it('keeps slots of other consignments of same cart', () => {
+        storage.setSlot('cart-1', 'consignment-1', slot);
+
+        expect(Object.keys(storage.setSlot('cart-1', 'consignment-2', slot)))
+            .toEqual(['consignment-1', 'consignment-2']);
+    });
+
+    it('discards slots of other carts', () => {
+        storage.setSlot('cart-1', 'consignment-1', slot);
+        storage.setSlot('cart-2', 'consignment-2', slot);
+
+        expect(storage.getSlots('cart-1')).toEqual({});
+        expect(Object.keys(storage.getSlots('cart-2'))).toEqual(['consignment-2']);
+    });
+});
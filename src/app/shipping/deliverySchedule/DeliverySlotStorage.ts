@@ -0,0 +1,50 @@
+import { KeyedStorage } from '../../common/storage';
+
+import DeliverySlot from './DeliverySlot';
+
+export const DELIVERY_SLOTS_STORAGE_KEY = 'checkout.deliverySlots';
+
+export interface DeliverySlots {
+    [consignmentId: string]: DeliverySlot;
+}
+
+interface StoredDeliverySlots {
+    cartId: string;
+    slots: DeliverySlots;
+}
+
+/**
+ * Keeps the delivery slots the shopper selects for each consignment, so they
+ * can be displayed until the order is placed, and on the order confirmation
+ * page. The slots are sent to the merchant as part of the customer message of
+ * the order when it is submitted. Only the slots of the latest cart are kept.
+ */
+export default class DeliverySlotStorage {
+    private storage: KeyedStorage<StoredDeliverySlots>;
+
+    constructor(storage?: Storage) {
+        this.storage = new KeyedStorage(DELIVERY_SLOTS_STORAGE_KEY, isStoredDeliverySlots, storage);
+    }
+
+    getSlots(cartId: string): DeliverySlots {
+        const stored = this.storage.getItem();
+
+        return stored && stored.cartId === cartId ? stored.slots : {};
+    }
+
+    getSlot(cartId: string, consignmentId: string): DeliverySlot | undefined {
+        return this.getSlots(cartId)[consignmentId];
+    }
+
+    setSlot(cartId: string, consignmentId: string, slot: DeliverySlot): DeliverySlots {
+        const slots = { ...this.getSlots(cartId), [consignmentId]: slot };
+
+        return this.storage.setItem({ cartId, slots }).slots;
+    }
+}
+
+function isStoredDeliverySlots(value: unknown): value is StoredDeliverySlots {
+    return typeof value === 'object' &&
+        value !== null &&
+        typeof (value as StoredDeliverySlots).slots === 'object';
+}
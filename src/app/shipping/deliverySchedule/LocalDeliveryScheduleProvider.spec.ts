@@ -0,0 +1,34 @@
+import LocalDeliveryScheduleProvider from './LocalDeliveryScheduleProvider';
+
+describe('LocalDeliveryScheduleProvider', () => {
+    // Friday
+    const getCurrentDate = () => new Date(2021, 2, 5, 14, 30);
+
+    it('returns time windows for next days excluding Sundays by default', async () => {
+        const provider = new LocalDeliveryScheduleProvider(undefined, getCurrentDate);
+        const dates = await provider.getAvailableDates();
+
+        expect(dates.map(({ date }) => date))
+            .toEqual(['2021-03-06', '2021-03-08', '2021-03-09', '2021-03-10', '2021-03-11', '2021-03-12', '2021-03-13']);
+        expect(dates[0].slots)
+            .toEqual([
+                { id: '2021-03-06-09:00', date: '2021-03-06', startTime: '09:00', endTime: '12:00' },
+                { id: '2021-03-06-12:00', date: '2021-03-06', startTime: '12:00', endTime: '15:00' },
+                { id: '2021-03-06-15:00', date: '2021-03-06', startTime: '15:00', endTime: '18:00' },
+            ]);
+    });
+
+    it('returns configured number of days and time windows', async () => {
+        const provider = new LocalDeliveryScheduleProvider({
+            excludedWeekdays: [0, 6],
+            numberOfDays: 2,
+            timeWindows: [{ startTime: '08:00', endTime: '20:00' }],
+        }, getCurrentDate);
+
+        expect(await provider.getAvailableDates())
+            .toEqual([
+                { date: '2021-03-08', slots: [{ id: '2021-03-08-08:00', date: '2021-03-08', startTime: '08:00', endTime: '20:00' }] },
+                { date: '2021-03-09', slots: [{ id: '2021-03-09-08:00', date: '2021-03-09', startTime: '08:00', endTime: '20:00' }] },
+            ]);
+    });
+});
@@ -0,0 +1,66 @@
+import DeliveryScheduleProvider from './DeliveryScheduleProvider';
+import { DeliveryDate } from './DeliverySlot';
+
+export interface LocalDeliveryScheduleOptions {
+    numberOfDays?: number;
+    /**
+     * The days of the week deliveries are not made on, where 0 is Sunday
+     */
+    excludedWeekdays?: number[];
+    timeWindows?: Array<{ startTime: string; endTime: string }>;
+}
+
+const DEFAULT_OPTIONS: Required<LocalDeliveryScheduleOptions> = {
+    excludedWeekdays: [0],
+    numberOfDays: 7,
+    timeWindows: [
+        { startTime: '09:00', endTime: '12:00' },
+        { startTime: '12:00', endTime: '15:00' },
+        { startTime: '15:00', endTime: '18:00' },
+    ],
+};
+
+const DAY_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+/**
+ * Offers the same time windows on each of the next few days, starting from
+ * tomorrow, without calling any external service. It can be used until the
+ * store integrates with the scheduling system of its carrier.
+ */
+export default class LocalDeliveryScheduleProvider implements DeliveryScheduleProvider {
+    private options: Required<LocalDeliveryScheduleOptions>;
+
+    constructor(
+        options?: LocalDeliveryScheduleOptions,
+        private getCurrentDate: () => Date = () => new Date()
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    getAvailableDates(): Promise<DeliveryDate[]> {
+        const { excludedWeekdays, numberOfDays, timeWindows } = this.options;
+        const today = this.getCurrentDate();
+        const dates: DeliveryDate[] = [];
+
+        for (let day = 1; dates.length < numberOfDays && day <= numberOfDays * 7; day++) {
+            const deliveryDate = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()) + day * DAY_IN_MILLISECONDS);
+            const date = deliveryDate.toISOString().slice(0, 10);
+
+            if (excludedWeekdays.indexOf(deliveryDate.getUTCDay()) > -1) {
+                continue;
+            }
+
+            dates.push({
+                date,
+                slots: timeWindows.map(({ startTime, endTime }) => ({
+                    id: `${date}-${startTime}`,
+                    date,
+                    startTime,
+                    endTime,
+                })),
+            });
+        }
+
+        return Promise.resolve(dates);
+    }
+}
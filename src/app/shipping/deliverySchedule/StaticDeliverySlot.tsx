@@ -0,0 +1,28 @@
+import React, { memo, FunctionComponent } from 'react';
+
+import { withLanguage, TranslatedString, WithLanguageProps } from '../../locale';
+
+import formatDeliveryDate from './formatDeliveryDate';
+import DeliverySlot from './DeliverySlot';
+
+export interface StaticDeliverySlotProps {
+    slot: DeliverySlot;
+}
+
+const StaticDeliverySlot: FunctionComponent<StaticDeliverySlotProps & WithLanguageProps> = ({
+    language,
+    slot: { date, endTime, startTime },
+}) => (
+    <span className="deliverySlot" data-test="static-delivery-slot">
+        <TranslatedString
+            data={ {
+                date: formatDeliveryDate(date, language.getLocale()),
+                endTime,
+                startTime,
+            } }
+            id="shipping.delivery_slot_text"
+        />
+    </span>
+);
+
+export default withLanguage(memo(StaticDeliverySlot));
@@ -0,0 +1,38 @@
+import { createLanguageService } from '@bigcommerce/checkout-sdk';
+
+import { FALLBACK_TRANSLATIONS } from '../../locale/translations';
+import { getConsignment } from '../consignment.mock';
+
+import appendDeliverySchedule, { removeDeliverySchedule } from './appendDeliverySchedule';
+
+describe('appendDeliverySchedule()', () => {
+    const language = createLanguageService({ defaultTranslations: FALLBACK_TRANSLATIONS });
+    const consignment = getConsignment();
+    const slots = {
+        [consignment.id]: { id: '2021-03-02-09:00', date: '2021-03-02', startTime: '09:00', endTime: '12:00' },
+    };
+
+    it('appends delivery slots of consignments to comment of shopper', () => {
+        expect(appendDeliverySchedule('Leave at the door', [consignment], slots, language))
+            .toEqual('Leave at the door\n\n---\nScheduled delivery to 12345 Testing Way: 2021-03-02, 09:00 - 12:00');
+    });
+
+    it('replaces delivery schedule that is already appended', () => {
+        const message = appendDeliverySchedule('Leave at the door', [consignment], slots, language);
+
+        expect(appendDeliverySchedule(message, [consignment], slots, language))
+            .toEqual(message);
+    });
+
+    it('removes delivery schedule if no slots are selected', () => {
+        const message = appendDeliverySchedule('Leave at the door', [consignment], slots, language);
+
+        expect(appendDeliverySchedule(message, [consignment], {}, language))
+            .toEqual('Leave at the door');
+    });
+
+    it('returns comment of shopper without delivery schedule', () => {
+        expect(removeDeliverySchedule(appendDeliverySchedule('', [consignment], slots, language)))
+            .toEqual('');
+    });
+});
@@ -0,0 +1,45 @@
+import { Consignment, LanguageService } from '@bigcommerce/checkout-sdk';
+
+import { DeliverySlots } from './DeliverySlotStorage';
+
+// Separates the comment of the shopper from the delivery schedule, so the
+// schedule can be replaced if the order is submitted again.
+const DELIVERY_SCHEDULE_SEPARATOR = '\n\n---\n';
+
+/**
+ * Appends the delivery slots of the consignments to the customer message of
+ * the checkout. The checkout API does not accept any additional data for
+ * consignments, so the message is how the merchant learns about the slots the
+ * shopper has requested. Dates are formatted as `YYYY-MM-DD`, so they are read
+ * the same way by the merchant regardless of the locale of the shopper.
+ */
+export default function appendDeliverySchedule(
+    customerMessage: string,
+    consignments: Consignment[],
+    slots: DeliverySlots,
+    language: LanguageService
+): string {
+    const comment = removeDeliverySchedule(customerMessage);
+    const lines = consignments
+        .filter(({ id }) => slots[id])
+        .map(({ id, shippingAddress }) => language.translate('shipping.delivery_schedule_message_text', {
+            address: shippingAddress.address1,
+            date: slots[id].date,
+            endTime: slots[id].endTime,
+            startTime: slots[id].startTime,
+        }));
+
+    if (!lines.length) {
+        return comment;
+    }
+
+    return `${comment}${DELIVERY_SCHEDULE_SEPARATOR}${lines.join('\n')}`;
+}
+
+/**
+ * Returns the comment of the shopper without the delivery schedule appended
+ * to it, so the schedule is not displayed as part of the comment.
+ */
+export function removeDeliverySchedule(customerMessage: string): string {
+    return customerMessage.split(DELIVERY_SCHEDULE_SEPARATOR)[0];
+}
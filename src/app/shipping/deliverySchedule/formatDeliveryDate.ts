@@ -0,0 +1,12 @@
+/**
+ * Formats a date in `YYYY-MM-DD` format for display. The date is formatted in
+ * UTC, so it is not shifted to the previous day in the timezones west of it.
+ */
+export default function formatDeliveryDate(date: string, locale: string): string {
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, {
+        day: 'numeric',
+        month: 'short',
+        timeZone: 'UTC',
+        weekday: 'short',
+    });
+}
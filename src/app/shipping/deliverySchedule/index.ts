@@ -0,0 +1,9 @@
+export { default as appendDeliverySchedule, removeDeliverySchedule } from './appendDeliverySchedule';
+export { default as DeliverySchedule, DeliveryScheduleProps } from './DeliverySchedule';
+export { default as DeliveryScheduleContext, DeliveryScheduleContextType } from './DeliveryScheduleContext';
+export { default as DeliveryScheduleProvider } from './DeliveryScheduleProvider';
+export { default as DeliverySlot, DeliveryDate } from './DeliverySlot';
+export { default as DeliverySlotStorage, DeliverySlots } from './DeliverySlotStorage';
+export { default as LocalDeliveryScheduleProvider, LocalDeliveryScheduleOptions } from './LocalDeliveryScheduleProvider';
+export { default as StaticDeliverySlot, StaticDeliverySlotProps } from './StaticDeliverySlot';
+export { default as withDeliverySchedule, WithDeliveryScheduleProps } from './withDeliverySchedule';
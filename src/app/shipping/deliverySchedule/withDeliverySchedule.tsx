@@ -0,0 +1,11 @@
+import { createInjectHoc, InjectHoc } from '../../common/hoc';
+
+import DeliveryScheduleContext, { DeliveryScheduleContextType } from './DeliveryScheduleContext';
+
+export type WithDeliveryScheduleProps = DeliveryScheduleContextType;
+
+const withDeliverySchedule: InjectHoc<WithDeliveryScheduleProps> = createInjectHoc(DeliveryScheduleContext, {
+    displayNamePrefix: 'WithDeliverySchedule',
+});
+
+export default withDeliverySchedule;
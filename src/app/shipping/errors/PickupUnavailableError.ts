@@ -0,0 +1,15 @@
+import { setPrototypeOf, CustomError } from '../../common/error';
+import { getLanguageService } from '../../locale';
+
+export default class PickupUnavailableError extends CustomError {
+    constructor(data?: Error) {
+        super({
+            name: 'PICKUP_UNAVAILABLE',
+            message: getLanguageService().translate('shipping.pickup_unavailable_error'),
+            title: getLanguageService().translate('shipping.pickup_unavailable_error_heading'),
+            data,
+        });
+
+        setPrototypeOf(this, PickupUnavailableError.prototype);
+    }
+}
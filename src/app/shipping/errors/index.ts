@@ -1,3 +1,4 @@
 export { default as AssignItemFailedError } from './AssignItemFailedError';
 export { default as AssignItemInvalidAddressError } from './AssignItemInvalidAddressError';
+export { default as PickupUnavailableError } from './PickupUnavailableError';
 export { default as UnassignItemError } from './UnassignItemError';
@@ -1,4 +1,6 @@
 export { ShippingProps } from './Shipping';
+export { isUsingPickup, PickupLocation, PickupLocationContext, PickupLocationContextType, PickupLocationProvider } from './pickup';
+export { appendDeliverySchedule, removeDeliverySchedule, DeliveryScheduleContext, DeliveryScheduleContextType, DeliveryScheduleProvider, DeliverySlot, DeliverySlotStorage, LocalDeliveryScheduleProvider, StaticDeliverySlot } from './deliverySchedule';
 export { default as StaticConsignment } from './StaticConsignment';
 export { default as getShippableItemsCount } from './getShippableItemsCount';
 export { default as hasSelectedShippingOptions } from './hasSelectedShippingOptions';
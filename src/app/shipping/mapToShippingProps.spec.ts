@@ -23,7 +23,7 @@ describe('mapToShippingProps()', () => {
     });
 
     it('returns null when not initialized', () => {
-        expect(mapToShippingProps(checkoutContextProps))
+        expect(mapToShippingProps(checkoutContextProps, { formFieldRules: {} }))
             .toEqual(null);
     });
 
@@ -45,7 +45,7 @@ describe('mapToShippingProps()', () => {
 
         it('returns true when enabled', () => {
             // tslint:disable-next-line:no-non-null-assertion
-            expect(mapToShippingProps(checkoutContextProps)!.shouldShowMultiShipping)
+            expect(mapToShippingProps(checkoutContextProps, { formFieldRules: {} })!.shouldShowMultiShipping)
                 .toEqual(true);
         });
 
@@ -59,7 +59,7 @@ describe('mapToShippingProps()', () => {
             } as StoreConfig);
 
             // tslint:disable-next-line:no-non-null-assertion
-            expect(mapToShippingProps(checkoutContextProps)!.shouldShowMultiShipping)
+            expect(mapToShippingProps(checkoutContextProps, { formFieldRules: {} })!.shouldShowMultiShipping)
                 .toEqual(false);
         });
 
@@ -72,7 +72,7 @@ describe('mapToShippingProps()', () => {
             } as unknown as Cart);
 
             // tslint:disable-next-line:no-non-null-assertion
-            expect(mapToShippingProps(checkoutContextProps)!.shouldShowMultiShipping)
+            expect(mapToShippingProps(checkoutContextProps, { formFieldRules: {} })!.shouldShowMultiShipping)
                 .toEqual(false);
         });
 
@@ -83,7 +83,7 @@ describe('mapToShippingProps()', () => {
             } as Checkout);
 
             // tslint:disable-next-line:no-non-null-assertion
-            expect(mapToShippingProps(checkoutContextProps)!.shouldShowMultiShipping)
+            expect(mapToShippingProps(checkoutContextProps, { formFieldRules: {} })!.shouldShowMultiShipping)
                 .toEqual(false);
         });
     });
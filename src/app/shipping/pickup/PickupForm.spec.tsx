@@ -0,0 +1,174 @@
+import { Cart } from '@bigcommerce/checkout-sdk';
+import { mount, ReactWrapper } from 'enzyme';
+import React, { FunctionComponent } from 'react';
+
+import { getCart } from '../../cart/carts.mock';
+import { getStoreConfig } from '../../config/config.mock';
+import { createLocaleContext, LocaleContext } from '../../locale';
+import { getConsignment } from '../consignment.mock';
+import { getShippingOptionPickUpStore } from '../shippingOption/shippingMethod.mock';
+
+import { getPickupLocations } from './pickupLocations.mock';
+import PickupForm, { PickupFormProps } from './PickupForm';
+import PickupLocationContext from './PickupLocationContext';
+import PickupLocationProvider from './PickupLocationProvider';
+
+describe('PickupForm', () => {
+    let cart: Cart;
+    let defaultProps: PickupFormProps;
+    let pickupLocationProvider: PickupLocationProvider;
+    let PickupFormTest: FunctionComponent<PickupFormProps>;
+
+    const flushPromises = async (component: ReactWrapper) => {
+        await new Promise(resolve => process.nextTick(resolve));
+        component.update();
+    };
+
+    beforeEach(() => {
+        cart = getCart();
+
+        pickupLocationProvider = {
+            getLocations: jest.fn(() => Promise.resolve(getPickupLocations())),
+        };
+
+        defaultProps = {
+            cart,
+            consignments: [],
+            isLoading: false,
+            onSubmit: jest.fn(),
+            onUnhandledError: jest.fn(),
+        };
+
+        PickupFormTest = props => (
+            <LocaleContext.Provider value={ createLocaleContext(getStoreConfig()) }>
+                <PickupLocationContext.Provider value={ { pickupLocationProvider } }>
+                    <PickupForm { ...props } />
+                </PickupLocationContext.Provider>
+            </LocaleContext.Provider>
+        );
+    });
+
+    it('lists pickup locations for cart', async () => {
+        const component = mount(<PickupFormTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        expect(pickupLocationProvider.getLocations)
+            .toHaveBeenCalledWith(cart);
+        expect(component.find('.pickupLocation-name').map(node => node.text()))
+            .toEqual(['Downtown Store', 'Airport Store', 'Sydney Store']);
+    });
+
+    it('shows stock availability of each location', async () => {
+        const component = mount(<PickupFormTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        expect(component.find('[data-test="pickup-location-stock"]').map(node => node.text()))
+            .toEqual(['All items are in stock', 'Some items are not in stock at this location', 'All items are in stock']);
+        expect(component.find('input#pickupLocationRadio-store-2').prop('disabled'))
+            .toEqual(true);
+    });
+
+    it('filters locations by search query', async () => {
+        const component = mount(<PickupFormTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        component.find('input[data-test="pickup-location-search"]')
+            .simulate('change', { target: { value: 'sydney' } });
+
+        expect(component.find('.pickupLocation-name').map(node => node.text()))
+            .toEqual(['Sydney Store']);
+    });
+
+    it('shows message if no location matches search query', async () => {
+        const component = mount(<PickupFormTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        component.find('input[data-test="pickup-location-search"]')
+            .simulate('change', { target: { value: 'brisbane' } });
+
+        expect(component.find('[data-test="pickup-location-not-found"]').exists())
+            .toEqual(true);
+    });
+
+    it('sorts locations by distance from shopper', async () => {
+        const geolocation = {
+            getCurrentPosition: jest.fn(resolve => resolve({ coords: { latitude: -37.7, longitude: 144.85 } })),
+        };
+
+        const originalGeolocation = navigator.geolocation;
+
+        Object.defineProperty(navigator, 'geolocation', { configurable: true, value: geolocation });
+
+        const component = mount(<PickupFormTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        component.find('[data-test="pickup-location-sort-by-distance"]').simulate('click');
+
+        await flushPromises(component);
+
+        expect(component.find('.pickupLocation-name').map(node => node.text()))
+            .toEqual(['Airport Store', 'Downtown Store', 'Sydney Store']);
+        expect(component.find('[data-test="pickup-location-distance"]').first().text())
+            .toEqual('3.5 km away');
+
+        Object.defineProperty(navigator, 'geolocation', { configurable: true, value: originalGeolocation });
+    });
+
+    it('submits selected location', async () => {
+        const component = mount(<PickupFormTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        component.find('input#pickupLocationRadio-store-1')
+            .simulate('change', { target: { value: 'store-1', name: 'pickupLocationId' } });
+        component.find('form').simulate('submit');
+
+        await flushPromises(component);
+
+        expect(defaultProps.onSubmit)
+            .toHaveBeenCalledWith(getPickupLocations()[0]);
+    });
+
+    it('shows error if no location is selected', async () => {
+        const component = mount(<PickupFormTest { ...defaultProps } />);
+
+        await flushPromises(component);
+
+        component.find('form').simulate('submit');
+
+        await flushPromises(component);
+
+        expect(defaultProps.onSubmit)
+            .not.toHaveBeenCalled();
+        expect(component.find('[data-test="pickup-location-error"]').text())
+            .toEqual('Please select a pickup location.');
+    });
+
+    it('preselects location consignment is picked up from', async () => {
+        const component = mount(
+            <PickupFormTest
+                { ...defaultProps }
+                consignments={ [{
+                    ...getConsignment(),
+                    selectedShippingOption: getShippingOptionPickUpStore(),
+                    shippingAddress: {
+                        ...getConsignment().shippingAddress,
+                        address1: '1 Departure Drive',
+                        company: 'Airport Store',
+                        postalCode: '3045',
+                    },
+                }] }
+            />
+        );
+
+        await flushPromises(component);
+
+        expect(component.find('input#pickupLocationRadio-store-2').prop('checked'))
+            .toEqual(true);
+    });
+});
@@ -0,0 +1,138 @@
+import { Cart, Consignment } from '@bigcommerce/checkout-sdk';
+import React, { ChangeEvent, Component, ReactNode } from 'react';
+
+import { preventDefault } from '../../common/dom';
+import { withLanguage, TranslatedString, WithLanguageProps } from '../../locale';
+import { TextInput } from '../../ui/form';
+import { LoadingOverlay } from '../../ui/loading';
+
+import getCurrentCoordinates from './getCurrentCoordinates';
+import isUsingPickup from './isUsingPickup';
+import searchPickupLocations from './searchPickupLocations';
+import withPickupLocations, { WithPickupLocationsProps } from './withPickupLocations';
+import './PickupForm.scss';
+import PickupLocation, { Coordinates } from './PickupLocation';
+import PickupLocationForm from './PickupLocationForm';
+
+export interface PickupFormProps {
+    cart: Cart;
+    consignments: Consignment[];
+    isLoading: boolean;
+    onSubmit(location: PickupLocation): void;
+    onUnhandledError(error: Error): void;
+}
+
+interface PickupFormState {
+    isLoadingLocations: boolean;
+    locations: PickupLocation[];
+    origin?: Coordinates;
+    query: string;
+}
+
+class PickupForm extends Component<PickupFormProps & WithPickupLocationsProps & WithLanguageProps, PickupFormState> {
+    state: PickupFormState = {
+        isLoadingLocations: true,
+        locations: [],
+        query: '',
+    };
+
+    private isUnmounted = false;
+
+    async componentDidMount(): Promise<void> {
+        const { cart, onUnhandledError, pickupLocationProvider } = this.props;
+
+        if (!pickupLocationProvider) {
+            return;
+        }
+
+        try {
+            const locations = await pickupLocationProvider.getLocations(cart);
+
+            if (!this.isUnmounted) {
+                this.setState({ isLoadingLocations: false, locations });
+            }
+        } catch (error) {
+            onUnhandledError(error);
+        }
+    }
+
+    componentWillUnmount(): void {
+        this.isUnmounted = true;
+    }
+
+    render(): ReactNode {
+        const { isLoading, language, onSubmit } = this.props;
+        const { isLoadingLocations, locations, origin, query } = this.state;
+
+        return (
+            <LoadingOverlay isLoading={ isLoadingLocations } unmountContentWhenLoading>
+                <div className="pickupForm-search">
+                    <TextInput
+                        aria-label={ language.translate('shipping.pickup_location_search_label') }
+                        id="pickupLocationSearch"
+                        onChange={ this.handleQueryChange }
+                        placeholder={ language.translate('shipping.pickup_location_search_label') }
+                        testId="pickup-location-search"
+                        value={ query }
+                    />
+
+                    { !origin && <a
+                        className="pickupForm-sortAction"
+                        data-test="pickup-location-sort-by-distance"
+                        href="#"
+                        onClick={ preventDefault(this.handleSortByDistance) }
+                    >
+                        <TranslatedString id="shipping.pickup_location_sort_by_distance_action" />
+                    </a> }
+                </div>
+
+                <PickupLocationForm
+                    isLoading={ isLoading }
+                    onSubmit={ onSubmit }
+                    results={ searchPickupLocations(locations, query, origin) }
+                    selectedLocationId={ this.getSelectedLocationId() }
+                />
+            </LoadingOverlay>
+        );
+    }
+
+    // The location is not stored anywhere else, so it is found by comparing
+    // its address with the address of the consignment picked up from it.
+    private getSelectedLocationId(): string | undefined {
+        const { consignments } = this.props;
+        const { locations } = this.state;
+
+        if (!isUsingPickup(consignments)) {
+            return;
+        }
+
+        const { shippingAddress } = consignments[0];
+        const location = locations.find(({ address, name }) =>
+            name === shippingAddress.company &&
+            address.address1 === shippingAddress.address1 &&
+            address.postalCode === shippingAddress.postalCode
+        );
+
+        return location && location.id;
+    }
+
+    private handleQueryChange: (event: ChangeEvent<HTMLInputElement>) => void = ({ target }) => {
+        this.setState({ query: target.value });
+    };
+
+    private handleSortByDistance: () => void = async () => {
+        try {
+            const origin = await getCurrentCoordinates();
+
+            if (!this.isUnmounted) {
+                this.setState({ origin });
+            }
+        } catch (error) {
+            // The locations stay in their original order if the shopper does
+            // not share their location.
+            return;
+        }
+    };
+}
+
+export default withPickupLocations(withLanguage(PickupForm));
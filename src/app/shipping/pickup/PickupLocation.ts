@@ -0,0 +1,38 @@
+export default interface PickupLocation {
+    id: string;
+    name: string;
+    address: PickupLocationAddress;
+    coordinates?: Coordinates;
+    openingHours: OpeningHours[];
+    /**
+     * The IDs of the line items that are not in stock at the location. All
+     * items can be picked up from the location if it is empty.
+     */
+    unavailableItemIds: Array<string | number>;
+}
+
+export interface PickupLocationAddress {
+    address1: string;
+    address2?: string;
+    city: string;
+    stateOrProvince: string;
+    stateOrProvinceCode?: string;
+    country: string;
+    countryCode: string;
+    postalCode: string;
+    phone?: string;
+}
+
+export interface Coordinates {
+    latitude: number;
+    longitude: number;
+}
+
+export interface OpeningHours {
+    /**
+     * The day of the week, where 0 is Sunday
+     */
+    weekday: number;
+    opensAt: string;
+    closesAt: string;
+}
@@ -0,0 +1,15 @@
+import { createContext } from 'react';
+
+import PickupLocationProvider from './PickupLocationProvider';
+
+export interface PickupLocationContextType {
+    pickupLocationProvider?: PickupLocationProvider;
+}
+
+// The shopper cannot choose to pick up their order if there is no provider,
+// i.e.: if the store has not configured one.
+const PickupLocationContext = createContext<PickupLocationContextType>({
+    pickupLocationProvider: undefined,
+});
+
+export default PickupLocationContext;
@@ -0,0 +1,120 @@
+import { withFormik, FormikProps } from 'formik';
+import React, { memo, useCallback, FunctionComponent } from 'react';
+import { object, string } from 'yup';
+
+import { withLanguage, TranslatedString, WithLanguageProps } from '../../locale';
+import { Button, ButtonVariant } from '../../ui/button';
+import { Checklist, ChecklistItem, Form, FormFieldError } from '../../ui/form';
+
+import { PickupLocationSearchResult } from './searchPickupLocations';
+import PickupLocation from './PickupLocation';
+import PickupLocationOpeningHours from './PickupLocationOpeningHours';
+
+export interface PickupLocationFormProps {
+    isLoading: boolean;
+    results: PickupLocationSearchResult[];
+    selectedLocationId?: string;
+    onSubmit(location: PickupLocation): void;
+}
+
+export interface PickupLocationFormValues {
+    pickupLocationId: string;
+}
+
+const PickupLocationLabel: FunctionComponent<PickupLocationSearchResult> = ({
+    distance,
+    location: { address, name, unavailableItemIds },
+}) => (
+    <div className="pickupLocation">
+        <strong className="pickupLocation-name">{ name }</strong>
+
+        { distance !== undefined && <span className="pickupLocation-distance" data-test="pickup-location-distance">
+            <TranslatedString
+                data={ { distance: distance.toFixed(1) } }
+                id="shipping.pickup_location_distance_text"
+            />
+        </span> }
+
+        <div className="pickupLocation-address">
+            { [address.address1, address.address2, address.city, address.postalCode].filter(Boolean).join(', ') }
+        </div>
+
+        <div
+            className={ unavailableItemIds.length ? 'pickupLocation-stock pickupLocation-stock--unavailable' : 'pickupLocation-stock' }
+            data-test="pickup-location-stock"
+        >
+            <TranslatedString
+                id={ unavailableItemIds.length ?
+                    'shipping.pickup_location_out_of_stock_text' :
+                    'shipping.pickup_location_in_stock_text' }
+            />
+        </div>
+    </div>
+);
+
+const PickupLocationListItem: FunctionComponent<PickupLocationSearchResult> = result => {
+    const { location } = result;
+    const renderLabel = useCallback(() => <PickupLocationLabel { ...result } />, [result]);
+
+    return <ChecklistItem
+        content={ <PickupLocationOpeningHours openingHours={ location.openingHours } /> }
+        htmlId={ `pickupLocationRadio-${location.id}` }
+        isDisabled={ location.unavailableItemIds.length > 0 }
+        label={ renderLabel }
+        value={ location.id }
+    />;
+};
+
+const PickupLocationForm: FunctionComponent<PickupLocationFormProps & FormikProps<PickupLocationFormValues>> = ({
+    isLoading,
+    results,
+    selectedLocationId,
+}) => (
+    <Form className="pickupForm" id="checkout-pickup-location-form" testId="pickup-location-form">
+        { results.length ?
+            <Checklist
+                defaultSelectedItemId={ selectedLocationId }
+                name="pickupLocationId"
+            >
+                { results.map(result => (
+                    <PickupLocationListItem
+                        key={ result.location.id }
+                        { ...result }
+                    />
+                )) }
+            </Checklist> :
+            <p className="pickupForm-message" data-test="pickup-location-not-found">
+                <TranslatedString id="shipping.pickup_location_not_found_text" />
+            </p> }
+
+        <FormFieldError name="pickupLocationId" testId="pickup-location-error" />
+
+        <div className="form-actions">
+            <Button
+                id="checkout-pickup-continue"
+                isLoading={ isLoading }
+                type="submit"
+                variant={ ButtonVariant.Primary }
+            >
+                <TranslatedString id="common.continue_action" />
+            </Button>
+        </div>
+    </Form>
+);
+
+export default withLanguage(withFormik<PickupLocationFormProps & WithLanguageProps, PickupLocationFormValues>({
+    mapPropsToValues: ({ selectedLocationId = '' }) => ({
+        pickupLocationId: selectedLocationId,
+    }),
+    handleSubmit: ({ pickupLocationId }, { props: { onSubmit, results } }) => {
+        const result = results.find(({ location }) => location.id === pickupLocationId);
+
+        if (result) {
+            onSubmit(result.location);
+        }
+    },
+    validationSchema: ({ language }: PickupLocationFormProps & WithLanguageProps) => object({
+        pickupLocationId: string()
+            .required(language.translate('shipping.pickup_location_required_error')),
+    }),
+})(memo(PickupLocationForm)));
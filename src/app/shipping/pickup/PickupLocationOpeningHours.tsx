@@ -0,0 +1,51 @@
+import React, { memo, FunctionComponent } from 'react';
+
+import { withLanguage, TranslatedString, WithLanguageProps } from '../../locale';
+
+import { OpeningHours } from './PickupLocation';
+
+export interface PickupLocationOpeningHoursProps {
+    openingHours: OpeningHours[];
+}
+
+// Starting from Monday
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const PickupLocationOpeningHours: FunctionComponent<PickupLocationOpeningHoursProps & WithLanguageProps> = ({
+    language,
+    openingHours,
+}) => (
+    <dl className="pickupLocation-openingHours" data-test="pickup-location-opening-hours">
+        { WEEKDAYS.map(weekday => {
+            const hours = openingHours.filter(item => item.weekday === weekday);
+
+            return (
+                <div className="pickupLocation-openingHours-day" key={ weekday }>
+                    <dt>{ formatWeekday(weekday, language.getLocale()) }</dt>
+                    <dd>
+                        { hours.length ?
+                            hours.map(({ opensAt, closesAt }) => (
+                                <span key={ opensAt }>
+                                    <TranslatedString
+                                        data={ { opensAt, closesAt } }
+                                        id="shipping.pickup_location_opening_hours_text"
+                                    />
+                                </span>
+                            )) :
+                            <TranslatedString id="shipping.pickup_location_closed_text" /> }
+                    </dd>
+                </div>
+            );
+        }) }
+    </dl>
+);
+
+function formatWeekday(weekday: number, locale: string): string {
+    // 4 January 2021 is a Monday
+    return new Date(Date.UTC(2021, 0, 3 + weekday)).toLocaleDateString(locale, {
+        timeZone: 'UTC',
+        weekday: 'long',
+    });
+}
+
+export default withLanguage(memo(PickupLocationOpeningHours));
@@ -0,0 +1,13 @@
+import { Cart } from '@bigcommerce/checkout-sdk';
+
+import PickupLocation from './PickupLocation';
+
+export default interface PickupLocationProvider {
+    /**
+     * Returns the locations the items of the cart can be picked up from,
+     * along with the items that are not in stock at each of them.
+     *
+     * @param cart The cart of the shopper
+     */
+    getLocations(cart: Cart): Promise<PickupLocation[]>;
+}
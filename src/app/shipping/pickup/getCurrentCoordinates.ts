@@ -0,0 +1,18 @@
+import { Coordinates } from './PickupLocation';
+
+/**
+ * Returns the coordinates of the shopper, if they allow the browser to share
+ * their location.
+ */
+export default function getCurrentCoordinates(geolocation: Geolocation | undefined = navigator.geolocation): Promise<Coordinates> {
+    return new Promise((resolve, reject) => {
+        if (!geolocation) {
+            return reject(new Error('Geolocation is not supported by the browser.'));
+        }
+
+        geolocation.getCurrentPosition(
+            ({ coords: { latitude, longitude } }) => resolve({ latitude, longitude }),
+            reject
+        );
+    });
+}
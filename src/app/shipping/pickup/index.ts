@@ -0,0 +1,8 @@
+export { default as PickupForm, PickupFormProps } from './PickupForm';
+export { default as PickupLocation, Coordinates, OpeningHours, PickupLocationAddress } from './PickupLocation';
+export { default as PickupLocationContext, PickupLocationContextType } from './PickupLocationContext';
+export { default as PickupLocationProvider } from './PickupLocationProvider';
+export { default as isUsingPickup, PICKUP_SHIPPING_OPTION_TYPE } from './isUsingPickup';
+export { default as mapPickupLocationToAddress } from './mapPickupLocationToAddress';
+export { default as searchPickupLocations, PickupLocationSearchResult } from './searchPickupLocations';
+export { default as withPickupLocations, WithPickupLocationsProps } from './withPickupLocations';
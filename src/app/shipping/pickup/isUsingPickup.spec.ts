@@ -0,0 +1,23 @@
+import { getConsignment } from '../consignment.mock';
+import { getShippingOptionPickUpStore } from '../shippingOption/shippingMethod.mock';
+
+import isUsingPickup from './isUsingPickup';
+
+describe('isUsingPickup()', () => {
+    it('returns false when has no consignments', () => {
+        expect(isUsingPickup([]))
+            .toEqual(false);
+    });
+
+    it('returns false when consignment is shipped to address', () => {
+        expect(isUsingPickup([getConsignment()]))
+            .toEqual(false);
+    });
+
+    it('returns true when all consignments are picked up in store', () => {
+        expect(isUsingPickup([
+            { ...getConsignment(), selectedShippingOption: getShippingOptionPickUpStore() },
+        ]))
+            .toEqual(true);
+    });
+});
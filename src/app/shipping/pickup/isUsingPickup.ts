@@ -0,0 +1,17 @@
+import { Consignment } from '@bigcommerce/checkout-sdk';
+
+export const PICKUP_SHIPPING_OPTION_TYPE = 'shipping_pickupinstore';
+
+/**
+ * Returns true if every consignment is picked up in store rather than shipped
+ * to the shopper.
+ */
+export default function isUsingPickup(consignments: Consignment[]): boolean {
+    if (!consignments.length) {
+        return false;
+    }
+
+    return consignments.every(({ selectedShippingOption }) =>
+        !!selectedShippingOption && selectedShippingOption.type === PICKUP_SHIPPING_OPTION_TYPE
+    );
+}
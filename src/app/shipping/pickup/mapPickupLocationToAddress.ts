@@ -0,0 +1,26 @@
+import { Address } from '@bigcommerce/checkout-sdk';
+
+import PickupLocation from './PickupLocation';
+
+/**
+ * Returns the address the consignment is shipped to when it is picked up from
+ * the location. The name of the location is used as the company, so it is
+ * displayed along with the address.
+ */
+export default function mapPickupLocationToAddress({ address, name }: PickupLocation): Address {
+    return {
+        address1: address.address1,
+        address2: address.address2 || '',
+        city: address.city,
+        company: name,
+        country: address.country,
+        countryCode: address.countryCode,
+        customFields: [],
+        firstName: '',
+        lastName: '',
+        phone: address.phone || '',
+        postalCode: address.postalCode,
+        stateOrProvince: address.stateOrProvince,
+        stateOrProvinceCode: address.stateOrProvinceCode || '',
+    };
+}
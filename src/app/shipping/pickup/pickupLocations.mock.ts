@@ -0,0 +1,55 @@
+import PickupLocation from './PickupLocation';
+
+export function getPickupLocation(): PickupLocation {
+    return {
+        id: 'store-1',
+        name: 'Downtown Store',
+        address: {
+            address1: '12 Collins Street',
+            city: 'Melbourne',
+            stateOrProvince: 'Victoria',
+            stateOrProvinceCode: 'VIC',
+            country: 'Australia',
+            countryCode: 'AU',
+            postalCode: '3000',
+            phone: '0312345678',
+        },
+        coordinates: { latitude: -37.8136, longitude: 144.9631 },
+        openingHours: [
+            { weekday: 1, opensAt: '09:00', closesAt: '17:00' },
+            { weekday: 2, opensAt: '09:00', closesAt: '17:00' },
+        ],
+        unavailableItemIds: [],
+    };
+}
+
+export function getPickupLocations(): PickupLocation[] {
+    return [
+        getPickupLocation(),
+        {
+            ...getPickupLocation(),
+            id: 'store-2',
+            name: 'Airport Store',
+            address: {
+                ...getPickupLocation().address,
+                address1: '1 Departure Drive',
+                city: 'Tullamarine',
+                postalCode: '3045',
+            },
+            coordinates: { latitude: -37.669, longitude: 144.841 },
+            unavailableItemIds: ['666'],
+        },
+        {
+            ...getPickupLocation(),
+            id: 'store-3',
+            name: 'Sydney Store',
+            address: {
+                ...getPickupLocation().address,
+                address1: '1 George Street',
+                city: 'Sydney',
+                postalCode: '2000',
+            },
+            coordinates: undefined,
+        },
+    ];
+}
@@ -0,0 +1,29 @@
+import { getPickupLocations } from './pickupLocations.mock';
+import searchPickupLocations from './searchPickupLocations';
+
+describe('searchPickupLocations()', () => {
+    it('returns all locations in original order if there is no query', () => {
+        expect(searchPickupLocations(getPickupLocations(), '').map(({ location }) => location.id))
+            .toEqual(['store-1', 'store-2', 'store-3']);
+    });
+
+    it('returns locations matching name, city or postal code', () => {
+        expect(searchPickupLocations(getPickupLocations(), 'airport').map(({ location }) => location.id))
+            .toEqual(['store-2']);
+
+        expect(searchPickupLocations(getPickupLocations(), ' Sydney ').map(({ location }) => location.id))
+            .toEqual(['store-3']);
+
+        expect(searchPickupLocations(getPickupLocations(), '3000').map(({ location }) => location.id))
+            .toEqual(['store-1']);
+    });
+
+    it('sorts locations by distance to origin', () => {
+        const results = searchPickupLocations(getPickupLocations(), '', { latitude: -37.7, longitude: 144.85 });
+
+        expect(results.map(({ location }) => location.id))
+            .toEqual(['store-2', 'store-1', 'store-3']);
+        expect(results.map(({ distance }) => distance && Math.round(distance)))
+            .toEqual([4, 16, undefined]);
+    });
+});
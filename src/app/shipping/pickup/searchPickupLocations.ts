@@ -0,0 +1,54 @@
+import { sortBy } from 'lodash';
+
+import PickupLocation, { Coordinates } from './PickupLocation';
+
+export interface PickupLocationSearchResult {
+    /**
+     * The distance to the location in kilometres, if the location of the
+     * shopper is known
+     */
+    distance?: number;
+    location: PickupLocation;
+}
+
+const EARTH_RADIUS_IN_KILOMETRES = 6371;
+
+/**
+ * Returns the locations whose name, city or postal code contains the query.
+ * If the coordinates of the shopper are given, the locations are sorted by
+ * their distance to the shopper, with the locations without coordinates
+ * listed last.
+ */
+export default function searchPickupLocations(
+    locations: PickupLocation[],
+    query: string,
+    origin?: Coordinates
+): PickupLocationSearchResult[] {
+    const normalizedQuery = query.trim().toLowerCase();
+    const results = locations
+        .filter(({ address, name }) => !normalizedQuery ||
+            [name, address.city, address.postalCode].some(value =>
+                (value || '').toLowerCase().indexOf(normalizedQuery) > -1
+            )
+        )
+        .map(location => ({
+            distance: origin && location.coordinates ? getDistance(origin, location.coordinates) : undefined,
+            location,
+        }));
+
+    if (!origin) {
+        return results;
+    }
+
+    return sortBy(results, ({ distance }) => distance === undefined ? Infinity : distance);
+}
+
+function getDistance(from: Coordinates, to: Coordinates): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const latitudeDelta = toRadians(to.latitude - from.latitude);
+    const longitudeDelta = toRadians(to.longitude - from.longitude);
+    const a = Math.pow(Math.sin(latitudeDelta / 2), 2) +
+        Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.pow(Math.sin(longitudeDelta / 2), 2);
+
+    return EARTH_RADIUS_IN_KILOMETRES * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
@@ -0,0 +1,11 @@
+import { createInjectHoc, InjectHoc } from '../../common/hoc';
+
+import PickupLocationContext, { PickupLocationContextType } from './PickupLocationContext';
+
+export type WithPickupLocationsProps = PickupLocationContextType;
+
+const withPickupLocations: InjectHoc<WithPickupLocationsProps> = createInjectHoc(PickupLocationContext, {
+    displayNamePrefix: 'WithPickupLocations',
+});
+
+export default withPickupLocations;
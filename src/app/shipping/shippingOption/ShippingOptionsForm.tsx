@@ -4,8 +4,10 @@ import { noop } from 'lodash';
 import React, { PureComponent, ReactNode } from 'react';
 
 import { StaticAddress } from '../../address';
+import { withAnalytics, AnalyticsEventType, WithAnalyticsProps } from '../../analytics';
 import { TranslatedString } from '../../locale';
 import { LoadingOverlay } from '../../ui/loading';
+import { DeliverySchedule } from '../deliverySchedule';
 import getRecommendedShippingOption from '../getRecommendedShippingOption';
 import StaticConsignmentItemList from '../StaticConsignmentItemList';
 
@@ -15,7 +17,7 @@ import ShippingOptionsList from './ShippingOptionsList';
 
 export type ShippingOptionsFormProps = ShippingOptionsProps & WithCheckoutShippingOptionsProps;
 
-class ShippingOptionsForm extends PureComponent<ShippingOptionsFormProps & FormikProps<ShippingOptionsFormValues>> {
+class ShippingOptionsForm extends PureComponent<ShippingOptionsFormProps & WithAnalyticsProps & FormikProps<ShippingOptionsFormValues>> {
     private unsubscribe?: () => void;
 
     componentDidMount(): void {
@@ -32,9 +34,9 @@ class ShippingOptionsForm extends PureComponent<ShippingOptionsFormProps & Formi
 
     render(): ReactNode {
         const {
+            cart,
             consignments,
             isMultiShippingMode,
-            selectShippingOption,
             isLoading,
             shouldShowShippingOptions,
             invalidShippingMessage,
@@ -70,11 +72,17 @@ class ShippingOptionsForm extends PureComponent<ShippingOptionsFormProps & Formi
                             consignmentId={ consignment.id }
                             inputName={ getRadioInputName(consignment.id) }
                             isLoading={ isLoading(consignment.id) }
-                            onSelectedOption={ selectShippingOption }
+                            onSelectedOption={ this.handleSelectedOption }
                             selectedShippingOptionId={ consignment.selectedShippingOption && consignment.selectedShippingOption.id }
                             shippingOptions={ consignment.availableShippingOptions }
                         />
 
+                        { consignment.selectedShippingOption &&
+                            <DeliverySchedule
+                                cartId={ cart.id }
+                                consignment={ consignment }
+                            /> }
+
                         { (!consignment.availableShippingOptions || !consignment.availableShippingOptions.length) &&
                             <LoadingOverlay hideContentWhenLoading isLoading={ isLoading(consignment.id) }>
                                 { this.renderNoShippingOptions(invalidShippingMessage) }
@@ -84,6 +92,25 @@ class ShippingOptionsForm extends PureComponent<ShippingOptionsFormProps & Formi
         </>;
     }
 
+    private handleSelectedOption: (consignmentId: string, shippingOptionId: string) => Promise<void> = async (consignmentId, shippingOptionId) => {
+        const { analytics, selectShippingOption } = this.props;
+        const { data } = await selectShippingOption(consignmentId, shippingOptionId);
+        const consignment = (data.getConsignments() || []).find(({ id }) => id === consignmentId);
+        const { selectedShippingOption } = consignment || {};
+
+        if (!selectedShippingOption) {
+            return;
+        }
+
+        analytics.emit({
+            type: AnalyticsEventType.ShippingOptionSelected,
+            consignmentId,
+            shippingCost: selectedShippingOption.cost,
+            shippingOptionId: selectedShippingOption.id,
+            shippingOptionName: selectedShippingOption.description,
+        });
+    };
+
     private selectDefaultShippingOptions: (state: CheckoutSelectors) => void = async ({ data }) => {
         const { selectShippingOption, setFieldValue } = this.props;
 
@@ -149,7 +176,7 @@ export interface ShippingOptionsFormValues {
     };
 }
 
-export default withFormik<ShippingOptionsFormProps, ShippingOptionsFormValues>({
+export default withAnalytics(withFormik<ShippingOptionsFormProps & WithAnalyticsProps, ShippingOptionsFormValues>({
     handleSubmit: noop,
     mapPropsToValues({ consignments }) {
         const shippingOptionIds: { [id: string]: string } = {};
@@ -162,4 +189,4 @@ export default withFormik<ShippingOptionsFormProps, ShippingOptionsFormValues>({
 
         return { shippingOptionIds };
     },
-})(ShippingOptionsForm);
+})(ShippingOptionsForm));
@@ -106,4 +106,54 @@ describe('DynamicFormField Component', () => {
         expect(component.find('.optimizedCheckout-contentSecondary').find(TranslatedString).prop('id'))
             .toEqual('common.optional_text');
     });
+
+    describe('when field has rules', () => {
+        const field = {
+            ...formFields.find(({ name }) => name === 'field_25') as FormFieldType,
+            rules: {
+                visibleWhen: [{ field: 'company', filled: true }],
+                requiredWhen: [{ field: 'countryCode', oneOf: ['BR'] }],
+            },
+        };
+
+        it('hides field until its conditions are met', () => {
+            const component = mount(
+                <Formik initialValues={ { shippingAddress: { company: '', customFields: {} } } } onSubmit={ jest.fn() }>
+                    <DynamicFormField
+                        field={ field }
+                        parentFieldName="shippingAddress.customFields"
+                    />
+                </Formik>
+            );
+
+            expect(component.find(FormField).length).toEqual(0);
+
+            component.find(Formik).instance().setState({
+                values: { shippingAddress: { company: 'Bigcommerce', customFields: {} } },
+            });
+            component.update();
+
+            expect(component.find(FormField).length).toEqual(1);
+        });
+
+        it('renders `optional` label until requirement conditions are met', () => {
+            const component = mount(
+                <Formik initialValues={ { company: 'Bigcommerce', countryCode: 'AU', customFields: {} } } onSubmit={ jest.fn() }>
+                    <DynamicFormField
+                        field={ field }
+                        parentFieldName="customFields"
+                    />
+                </Formik>
+            );
+
+            expect(component.find('.optimizedCheckout-contentSecondary').length).toEqual(1);
+
+            component.find(Formik).instance().setState({
+                values: { company: 'Bigcommerce', countryCode: 'BR', customFields: {} },
+            });
+            component.update();
+
+            expect(component.find('.optimizedCheckout-contentSecondary').length).toEqual(0);
+        });
+    });
 });
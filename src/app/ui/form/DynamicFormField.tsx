@@ -1,9 +1,11 @@
 import { FormField as FormFieldType } from '@bigcommerce/checkout-sdk';
-import { FieldProps } from 'formik';
+import { FieldProps, FormikConsumer } from 'formik';
 import React, { memo, useCallback, useMemo, FunctionComponent, ReactNode } from 'react';
 
 import { TranslatedString } from '../../locale';
 
+import { getFileFormFieldAccept } from './fileFormField';
+import { getFormFieldRules, getFormFieldRuleValues, isFormFieldRequired, isFormFieldVisible } from './formFieldRules';
 import CheckboxGroupFormField from './CheckboxGroupFormField';
 import DynamicFormFieldType from './DynamicFormFieldType';
 import DynamicInput from './DynamicInput';
@@ -27,7 +29,16 @@ export interface DynamicFormFieldProps {
 }
 
 const DynamicFormField: FunctionComponent<DynamicFormFieldProps>  = ({
-    field: {
+    field: formField,
+    parentFieldName,
+    onChange,
+    placeholder,
+    inputId,
+    autocomplete,
+    label,
+    extraClass,
+}) => {
+    const {
         fieldType,
         type,
         secret,
@@ -38,22 +49,14 @@ const DynamicFormField: FunctionComponent<DynamicFormFieldProps>  = ({
         max,
         min,
         maxLength,
-    },
-    parentFieldName,
-    onChange,
-    placeholder,
-    inputId,
-    autocomplete,
-    label,
-    extraClass,
-}) => {
+    } = formField;
     const fieldInputId = inputId || name;
     const fieldName = parentFieldName ? `${parentFieldName}.${name}` : name;
 
-    const labelComponent = useMemo(() => (
+    const renderLabel = useCallback((isRequired: boolean) => (
         <Label htmlFor={ fieldInputId }>
             { label || fieldLabel }
-            { !required &&
+            { !isRequired &&
                 <>
                     { ' ' }
                     <small className="optimizedCheckout-contentSecondary">
@@ -64,7 +67,6 @@ const DynamicFormField: FunctionComponent<DynamicFormFieldProps>  = ({
     ), [
         fieldInputId,
         fieldLabel,
-        required,
         label,
     ]);
 
@@ -85,6 +87,7 @@ const DynamicFormField: FunctionComponent<DynamicFormFieldProps>  = ({
     const renderInput = useCallback(({ field }: FieldProps<string>) => (
         <DynamicInput
             { ...field }
+            accept={ getFileFormFieldAccept(formField) }
             autoComplete={ autocomplete }
             fieldType={ dynamicFormFieldType }
             id={ fieldInputId }
@@ -97,6 +100,7 @@ const DynamicFormField: FunctionComponent<DynamicFormFieldProps>  = ({
         />
     ), [
         fieldInputId,
+        formField,
         max,
         maxLength,
         min,
@@ -106,23 +110,50 @@ const DynamicFormField: FunctionComponent<DynamicFormFieldProps>  = ({
         autocomplete,
     ]);
 
-    return (
+    const renderField = useCallback((isRequired: boolean) => (
         <div className={ `dynamic-form-field ${extraClass}` }>
             { fieldType === DynamicFormFieldType.checkbox ?
                 <CheckboxGroupFormField
                     id={ fieldInputId }
-                    label={ labelComponent }
+                    label={ renderLabel(isRequired) }
                     name={ fieldName }
                     onChange={ onChange }
                     options={ (options && options.items) || [] }
                 /> :
                 <FormField
                     input={ renderInput }
-                    label={ labelComponent }
+                    label={ renderLabel(isRequired) }
                     name={ fieldName }
                     onChange={ onChange }
                 /> }
         </div>
+    ), [
+        extraClass,
+        fieldInputId,
+        fieldName,
+        fieldType,
+        onChange,
+        options,
+        renderInput,
+        renderLabel,
+    ]);
+
+    if (!getFormFieldRules(formField)) {
+        return renderField(required);
+    }
+
+    // Fields with rules depend on the values of other fields, so they have to
+    // be evaluated again whenever the values of the form change.
+    return (
+        <FormikConsumer>
+            { ({ values }) => {
+                const ruleValues = getFormFieldRuleValues(values, parentFieldName);
+
+                return isFormFieldVisible(formField, ruleValues) ?
+                    renderField(isFormFieldRequired(formField, ruleValues)) :
+                    null;
+            } }
+        </FormikConsumer>
     );
 };
 
@@ -8,6 +8,11 @@ enum DynamicFormFieldType {
     date = 'date',
     radio = 'radio',
     text = 'text',
+    email = 'email',
+    url = 'url',
+    color = 'color',
+    file = 'file',
+    multiselect = 'multiselect',
 }
 
 export default DynamicFormFieldType;
@@ -8,6 +8,8 @@ import { createLocaleContext, LocaleContext, LocaleContextType, WithDateProps }
 import CheckboxInput from './CheckboxInput';
 import DynamicFormFieldType from './DynamicFormFieldType';
 import DynamicInput, { DynamicInputProps } from './DynamicInput';
+import FileInput from './FileInput';
+import MultiSelectInput from './MultiSelectInput';
 import RadioInput from './RadioInput';
 import TextArea from './TextArea';
 import TextInput from './TextInput';
@@ -169,4 +171,83 @@ describe('DynamicInput', () => {
             />).html())
             .toMatchSnapshot();
     });
+
+    it.each<[DynamicFormFieldType, string]>([
+        [DynamicFormFieldType.email, 'email'],
+        [DynamicFormFieldType.url, 'url'],
+        [DynamicFormFieldType.color, 'color'],
+    ])('renders %s type input for %s type', (fieldType, type) => {
+        expect(mount(
+            <DynamicInputTest
+                date={ date }
+                fieldType={ fieldType }
+                id="field_33"
+            />)
+            .find(TextInput)
+            .prop('type'))
+            .toEqual(type);
+    });
+
+    it('renders file input for file type', () => {
+        const value = { name: 'logo.png', size: 3, type: 'image/png', url: 'https://bucket.foo.com/logo.png' };
+        const component = mount(
+            <DynamicInputTest
+                accept="image/*"
+                date={ date }
+                fieldType={ DynamicFormFieldType.file }
+                id="field_33"
+                value={ value as any }
+            />);
+
+        expect(component.find(FileInput).props())
+            .toEqual(expect.objectContaining({
+                accept: 'image/*',
+                id: 'field_33',
+                value,
+            }));
+    });
+
+    it('renders multi-select input for multi-select type', () => {
+        const component = mount(
+            <DynamicInputTest
+                date={ date }
+                fieldType={ DynamicFormFieldType.multiselect }
+                id="id"
+                options={ [
+                    { value: 'x', label: 'X' },
+                    { value: 'y', label: 'Y' },
+                ] }
+                value={ ['y'] }
+            />);
+
+        expect(component.find(MultiSelectInput).props())
+            .toEqual(expect.objectContaining({
+                id: 'id',
+                value: ['y'],
+            }));
+    });
+
+    it('notifies change of multi-select input with value of field', () => {
+        const handleChange = jest.fn();
+        const component = mount(
+            <DynamicInputTest
+                date={ date }
+                fieldType={ DynamicFormFieldType.multiselect }
+                id="id"
+                name="colors"
+                onChange={ handleChange }
+                options={ [
+                    { value: 'x', label: 'X' },
+                    { value: 'y', label: 'Y' },
+                ] }
+                value={ ['y'] }
+            />);
+
+        component.find('input[value="x"]')
+            .simulate('change', { target: { checked: true, value: 'x' } });
+
+        expect(handleChange).toHaveBeenCalledWith({
+            target: { name: 'colors', value: ['y', 'x'] },
+        });
+    });
 });
@@ -7,7 +7,9 @@ import { withDate, WithDateProps } from '../../locale';
 
 import CheckboxInput from './CheckboxInput';
 import DynamicFormFieldType from './DynamicFormFieldType';
+import FileInput, { isFileInputValue, FileInputValue } from './FileInput';
 import { InputProps } from './Input';
+import MultiSelectInput from './MultiSelectInput';
 import RadioInput from './RadioInput';
 import TextArea from './TextArea';
 import TextInput from './TextInput';
@@ -45,6 +47,18 @@ const DynamicInput: FunctionComponent<DynamicInputProps & WithDateProps> = ({
         name,
     ]);
 
+    // Inputs that do not emit DOM events of their own, i.e.: file and
+    // multi-select inputs, notify Formik with events of the same shape
+    const handleValueChange = useCallback(inputValue => onChange({
+        target: {
+            name,
+            value: inputValue,
+        },
+    }), [
+        onChange,
+        name,
+    ]);
+
     switch (fieldType) {
     case DynamicFormFieldType.dropdown:
         return (
@@ -133,6 +147,30 @@ const DynamicInput: FunctionComponent<DynamicInputProps & WithDateProps> = ({
             />
         );
 
+    case DynamicFormFieldType.file:
+        return (
+            <FileInput
+                { ...rest }
+                id={ id }
+                name={ name }
+                onChange={ handleValueChange }
+                testId={ `${id}-file` }
+                value={ getFileValue(value) }
+            />
+        );
+
+    case DynamicFormFieldType.multiselect:
+        return (
+            <MultiSelectInput
+                id={ id }
+                name={ name }
+                onChange={ handleValueChange }
+                options={ options || [] }
+                placeholder={ placeholder }
+                value={ getArrayValue(value) }
+            />
+        );
+
     case DynamicFormFieldType.multiline:
         return (
             <TextArea
@@ -163,4 +201,12 @@ const DynamicInput: FunctionComponent<DynamicInputProps & WithDateProps> = ({
     }
 };
 
+function getFileValue(value: unknown): FileInputValue | undefined {
+    return isFileInputValue(value) ? value : undefined;
+}
+
+function getArrayValue(value: unknown): string[] {
+    return Array.isArray(value) ? value : [];
+}
+
 export default memo(withDate(DynamicInput));
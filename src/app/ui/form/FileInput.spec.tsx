@@ -0,0 +1,149 @@
+import { mount } from 'enzyme';
+import { noop } from 'lodash';
+import React, { FunctionComponent } from 'react';
+
+import { HttpClient } from '../../common/http';
+import { FileUploadContext, FileUploadError, FileUploadService } from '../../common/upload';
+import { getStoreConfig } from '../../config/config.mock';
+import { createLocaleContext, LocaleContext, LocaleContextType } from '../../locale';
+
+import FileInput, { isFileInputValue, FileInputProps } from './FileInput';
+
+describe('FileInput', () => {
+    let file: File;
+    let fileUploadService: FileUploadService;
+    let localeContext: LocaleContextType;
+    let FileInputTest: FunctionComponent<FileInputProps>;
+
+    beforeEach(() => {
+        file = new File(['foo'], 'logo.png', { type: 'image/png' });
+        fileUploadService = new FileUploadService(new HttpClient({ baseUrl: 'https://orders.foo.com/api/v1/' }));
+        localeContext = createLocaleContext(getStoreConfig());
+
+        jest.spyOn(fileUploadService, 'uploadFile')
+            .mockResolvedValue('https://bucket.foo.com/logo.png');
+
+        FileInputTest = props => (
+            <LocaleContext.Provider value={ localeContext }>
+                <FileUploadContext.Provider value={ { fileUploadService } }>
+                    <FileInput { ...props } />
+                </FileUploadContext.Provider>
+            </LocaleContext.Provider>
+        );
+    });
+
+    it('uploads selected file and passes its URL to parent', async () => {
+        const handleChange = jest.fn();
+        const component = mount(<FileInputTest id="logo" onChange={ handleChange } />);
+
+        component.find('input[type="file"]')
+            .simulate('change', { target: { files: [file] } });
+
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(fileUploadService.uploadFile)
+            .toHaveBeenCalledWith(file, { cancel: expect.any(Promise) });
+        expect(handleChange).toHaveBeenCalledWith({
+            name: 'logo.png',
+            size: 3,
+            type: 'image/png',
+            url: 'https://bucket.foo.com/logo.png',
+        });
+    });
+
+    it('renders uploading status until file is uploaded', async () => {
+        const component = mount(<FileInputTest id="logo" onChange={ jest.fn() } />);
+
+        component.find('input[type="file"]')
+            .simulate('change', { target: { files: [file] } });
+
+        expect(component.find('[data-test="logo-file-uploading"]').exists())
+            .toEqual(true);
+
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(component.update().find('[data-test="logo-file-uploading"]').exists())
+            .toEqual(false);
+    });
+
+    it('renders error and passes empty value to parent if file cannot be uploaded', async () => {
+        const handleChange = jest.fn();
+        const component = mount(<FileInputTest id="logo" onChange={ handleChange } />);
+
+        jest.spyOn(fileUploadService, 'uploadFile')
+            .mockRejectedValue(new FileUploadError({ status: 500 }));
+
+        component.find('input[type="file"]')
+            .simulate('change', { target: { files: [file] } });
+
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(handleChange).toHaveBeenCalledWith(undefined);
+        expect(component.update().find('[data-test="logo-file-error"]').text())
+            .toEqual(localeContext.language.translate('common.file_upload_error'));
+    });
+
+    it('cancels upload if input is removed', () => {
+        const component = mount(<FileInputTest id="logo" onChange={ jest.fn() } />);
+        let cancel: Promise<void> | undefined;
+
+        jest.spyOn(fileUploadService, 'uploadFile')
+            .mockImplementation((_, options = {}) => {
+                cancel = options.cancel;
+
+                return new Promise(noop);
+            });
+
+        component.find('input[type="file"]')
+            .simulate('change', { target: { files: [file] } });
+
+        component.unmount();
+
+        return expect(cancel).resolves.toBeUndefined();
+    });
+
+    it('passes empty value to parent if selection is cleared', async () => {
+        const handleChange = jest.fn();
+        const component = mount(<FileInputTest id="logo" onChange={ handleChange } />);
+
+        component.find('input[type="file"]')
+            .simulate('change', { target: { files: [] } });
+
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(handleChange).toHaveBeenCalledWith(undefined);
+        expect(fileUploadService.uploadFile)
+            .not.toHaveBeenCalled();
+    });
+
+    it('disables input if there is no service to upload files to', () => {
+        const component = mount(
+            <LocaleContext.Provider value={ localeContext }>
+                <FileInput id="logo" />
+            </LocaleContext.Provider>
+        );
+
+        expect(component.find('input[type="file"]').prop('disabled'))
+            .toEqual(true);
+        expect(component.find('[data-test="logo-file-unavailable"]').exists())
+            .toEqual(true);
+    });
+
+    it('renders name of selected file', () => {
+        const component = mount(
+            <FileInputTest
+                id="logo"
+                value={ { name: 'logo.png', size: 3, type: 'image/png', url: 'https://bucket.foo.com/logo.png' } }
+            />
+        );
+
+        expect(component.find('[data-test="logo-file-name"]').text())
+            .toEqual('logo.png');
+    });
+
+    it('checks if value is file value', () => {
+        expect(isFileInputValue({ name: 'logo.png', url: 'https://bucket.foo.com/logo.png' })).toEqual(true);
+        expect(isFileInputValue('https://bucket.foo.com/logo.png')).toEqual(false);
+        expect(isFileInputValue(null)).toEqual(false);
+    });
+});
@@ -0,0 +1,140 @@
+import React, { useCallback, useContext, useEffect, useRef, useState, ChangeEvent, FunctionComponent } from 'react';
+
+import { createCancellation, Cancellation } from '../../common/http';
+import { FileUploadContext } from '../../common/upload';
+import { TranslatedString } from '../../locale';
+
+import Input, { InputProps } from './Input';
+
+export interface FileInputValue {
+    name: string;
+    /**
+     * The size and type are only known for files selected by the shopper, not
+     * for files restored from the URL submitted for a field.
+     */
+    size?: number;
+    type?: string;
+    url: string;
+}
+
+export interface FileInputProps extends Omit<InputProps, 'onChange' | 'type' | 'value'> {
+    id: string;
+    value?: FileInputValue;
+    onChange?(value?: FileInputValue): void;
+}
+
+// Files are uploaded as soon as they are selected, so only the URL of the
+// uploaded file is kept as the value of the input and submitted with the form.
+const FileInput: FunctionComponent<FileInputProps> = ({
+    disabled,
+    id,
+    onChange,
+    value,
+    ...rest
+}) => {
+    const { fileUploadService } = useContext(FileUploadContext);
+    const [hasError, setHasError] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
+    const cancellationRef = useRef<Cancellation>();
+
+    useEffect(() => () => {
+        if (cancellationRef.current) {
+            cancellationRef.current.cancel();
+        }
+    }, []);
+
+    const handleChange = useCallback(async ({ target }: ChangeEvent<HTMLInputElement>) => {
+        const file = target.files && target.files[0];
+
+        if (cancellationRef.current) {
+            cancellationRef.current.cancel();
+        }
+
+        setHasError(false);
+
+        if (!onChange) {
+            return;
+        }
+
+        if (!file || !fileUploadService) {
+            setIsUploading(false);
+
+            return onChange(undefined);
+        }
+
+        const cancellation = cancellationRef.current = createCancellation();
+
+        setIsUploading(true);
+
+        let fileValue: FileInputValue | undefined;
+
+        try {
+            fileValue = {
+                name: file.name,
+                size: file.size,
+                type: file.type,
+                url: await fileUploadService.uploadFile(file, { cancel: cancellation.promise }),
+            };
+        } catch (error) {
+            // The shopper is asked to select the file again, as the value of
+            // the input is cleared if the file cannot be uploaded.
+        }
+
+        // The upload is cancelled if another file is selected or if the input
+        // is removed, in which case its result is no longer relevant.
+        if (cancellation.isCancelled) {
+            return;
+        }
+
+        setHasError(!fileValue);
+        setIsUploading(false);
+        onChange(fileValue);
+    }, [fileUploadService, onChange]);
+
+    return <>
+        <Input
+            { ...rest }
+            className="form-input optimizedCheckout-form-input"
+            disabled={ disabled || !fileUploadService }
+            id={ id }
+            onChange={ handleChange }
+            type="file"
+        />
+
+        { isUploading && <p
+            className="form-fileName optimizedCheckout-contentSecondary"
+            data-test={ `${id}-file-uploading` }
+        >
+            <TranslatedString id="common.file_uploading_text" />
+        </p> }
+
+        { !isUploading && value && <p
+            className="form-fileName optimizedCheckout-contentSecondary"
+            data-test={ `${id}-file-name` }
+        >
+            { value.name }
+        </p> }
+
+        { hasError && <p
+            className="form-inlineMessage"
+            data-test={ `${id}-file-error` }
+        >
+            <TranslatedString id="common.file_upload_error" />
+        </p> }
+
+        { !fileUploadService && <p
+            className="form-fileName optimizedCheckout-contentSecondary"
+            data-test={ `${id}-file-unavailable` }
+        >
+            <TranslatedString id="common.file_upload_unavailable_text" />
+        </p> }
+    </>;
+};
+
+export function isFileInputValue(value: unknown): value is FileInputValue {
+    return typeof value === 'object' &&
+        value !== null &&
+        typeof (value as FileInputValue).url === 'string';
+}
+
+export default FileInput;
@@ -1,5 +1,6 @@
 import { mount, render } from 'enzyme';
-import { Form as FormikForm } from 'formik';
+import { Form as FormikForm, Formik } from 'formik';
+import { noop } from 'lodash';
 import React from 'react';
 
 import Form from './Form';
@@ -14,4 +15,50 @@ describe('Form', () => {
         expect(mount(<Form>Hello world</Form>).find(FormikForm).prop('noValidate'))
             .toEqual(true);
     });
+
+    it('passes names of invalid fields to parent when submitted with errors', async () => {
+        const handleValidationError = jest.fn();
+        const component = mount(
+            <Formik initialValues={ {} } onSubmit={ noop }>
+                <Form onValidationError={ handleValidationError }>
+                    <div className="form-field--error">
+                        <input name="email" />
+                    </div>
+                    <div className="form-field">
+                        <input name="firstName" />
+                    </div>
+                    <div className="form-field--error">
+                        <select name="countryCode" />
+                    </div>
+                </Form>
+            </Formik>
+        );
+
+        component.find('form').simulate('submit');
+
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(handleValidationError)
+            .toHaveBeenCalledWith(['email', 'countryCode']);
+    });
+
+    it('does not notify parent when submitted without errors', async () => {
+        const handleValidationError = jest.fn();
+        const component = mount(
+            <Formik initialValues={ {} } onSubmit={ noop }>
+                <Form onValidationError={ handleValidationError }>
+                    <div className="form-field">
+                        <input name="email" />
+                    </div>
+                </Form>
+            </Formik>
+        );
+
+        component.find('form').simulate('submit');
+
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(handleValidationError)
+            .not.toHaveBeenCalled();
+    });
 });
@@ -7,11 +7,17 @@ import FormProvider, { FormContextType } from './FormProvider';
 
 export interface FormProps extends FormikFormProps {
     testId?: string;
+    /**
+     * Called with the names of the invalid fields after the form is submitted
+     * with errors, i.e.: to track which fields shoppers struggle with.
+     */
+    onValidationError?(fields: string[]): void;
 }
 
 const Form: FunctionComponent<FormProps> = ({
     className,
     testId,
+    onValidationError,
     ...rest
 }) => {
     const ref = useRef({ containerRef: createRef<HTMLDivElement>() });
@@ -29,10 +35,16 @@ const Form: FunctionComponent<FormProps> = ({
             '.form-field--error select',
         ];
 
-        const erroredFormField = current.querySelector<HTMLElement>(errorInputSelectors.join(', '));
+        const erroredFormFields = Array.from(current.querySelectorAll<HTMLInputElement>(errorInputSelectors.join(', ')));
 
-        if (erroredFormField) {
-            erroredFormField.focus();
+        if (!erroredFormFields.length) {
+            return;
+        }
+
+        erroredFormFields[0].focus();
+
+        if (onValidationError) {
+            onValidationError(erroredFormFields.map(({ name }) => name).filter(Boolean));
         }
     };
 
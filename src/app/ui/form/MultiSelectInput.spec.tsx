@@ -0,0 +1,79 @@
+import { mount, ReactWrapper } from 'enzyme';
+import React from 'react';
+
+import { getStoreConfig } from '../../config/config.mock';
+import { createLocaleContext, LocaleContext } from '../../locale';
+
+import CheckboxInput from './CheckboxInput';
+import MultiSelectInput, { MultiSelectInputProps } from './MultiSelectInput';
+
+describe('MultiSelectInput', () => {
+    let defaultProps: MultiSelectInputProps;
+
+    const mountComponent = (props: Partial<MultiSelectInputProps> = {}): ReactWrapper => mount(
+        <LocaleContext.Provider value={ createLocaleContext(getStoreConfig()) }>
+            <MultiSelectInput { ...defaultProps } { ...props } />
+        </LocaleContext.Provider>
+    );
+
+    beforeEach(() => {
+        defaultProps = {
+            id: 'colors',
+            name: 'colors',
+            onChange: jest.fn(),
+            options: [
+                { label: 'Red', value: 'red' },
+                { label: 'Dark Red', value: 'dark-red' },
+                { label: 'Blue', value: 'blue' },
+            ],
+            value: ['blue'],
+        };
+    });
+
+    it('renders option for each item', () => {
+        const component = mountComponent();
+
+        expect(component.find(CheckboxInput).map(option => option.prop('value')))
+            .toEqual(['red', 'dark-red', 'blue']);
+        expect(component.find(CheckboxInput).map(option => option.prop('checked')))
+            .toEqual([false, false, true]);
+    });
+
+    it('filters options by search keyword', () => {
+        const component = mountComponent();
+
+        component.find('input[data-test="colors-search"]')
+            .simulate('change', { target: { value: 'RED' } });
+
+        expect(component.find(CheckboxInput).map(option => option.prop('value')))
+            .toEqual(['red', 'dark-red']);
+    });
+
+    it('renders message if no option matches search keyword', () => {
+        const component = mountComponent();
+
+        component.find('input[data-test="colors-search"]')
+            .simulate('change', { target: { value: 'green' } });
+
+        expect(component.find(CheckboxInput).length).toEqual(0);
+        expect(component.find('.form-multiSelect-empty').text()).toEqual('No matching options');
+    });
+
+    it('adds checked option to value', () => {
+        const component = mountComponent();
+
+        component.find('input[value="red"]')
+            .simulate('change', { target: { checked: true, value: 'red' } });
+
+        expect(defaultProps.onChange).toHaveBeenCalledWith(['blue', 'red']);
+    });
+
+    it('removes unchecked option from value', () => {
+        const component = mountComponent();
+
+        component.find('input[value="blue"]')
+            .simulate('change', { target: { checked: false, value: 'blue' } });
+
+        expect(defaultProps.onChange).toHaveBeenCalledWith([]);
+    });
+});
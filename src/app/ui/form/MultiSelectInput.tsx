@@ -0,0 +1,92 @@
+import { FormFieldItem } from '@bigcommerce/checkout-sdk';
+import { noop } from 'lodash';
+import React, { useCallback, useMemo, useState, ChangeEvent, FunctionComponent } from 'react';
+
+import { TranslatedString } from '../../locale';
+
+import CheckboxInput from './CheckboxInput';
+import './MultiSelectInput.scss';
+import TextInput from './TextInput';
+
+export interface MultiSelectInputProps {
+    id: string;
+    name?: string;
+    options: FormFieldItem[];
+    placeholder?: string;
+    value: string[];
+    onChange?(value: string[]): void;
+}
+
+const MultiSelectInput: FunctionComponent<MultiSelectInputProps> = ({
+    id,
+    name,
+    onChange = noop,
+    options,
+    placeholder,
+    value,
+}) => {
+    const [search, setSearch] = useState('');
+
+    const filteredOptions = useMemo(() => {
+        const keyword = search.trim().toLowerCase();
+
+        return keyword ?
+            options.filter(({ label }) => label.toLowerCase().indexOf(keyword) !== -1) :
+            options;
+    }, [options, search]);
+
+    const handleSearchChange = useCallback(({ target }: ChangeEvent<HTMLInputElement>) => {
+        setSearch(target.value);
+    }, []);
+
+    const handleOptionChange = useCallback(({ target }: ChangeEvent<HTMLInputElement>) => {
+        onChange(target.checked ?
+            [...value, target.value] :
+            value.filter(selectedValue => selectedValue !== target.value)
+        );
+    }, [onChange, value]);
+
+    return <div className="form-multiSelect">
+        <TextInput
+            aria-controls={ `${id}-options` }
+            autoComplete="off"
+            id={ id }
+            onChange={ handleSearchChange }
+            placeholder={ placeholder }
+            testId={ `${id}-search` }
+            value={ search }
+        />
+
+        { filteredOptions.length > 0 ?
+            <ul
+                aria-multiselectable
+                className="form-multiSelect-options"
+                id={ `${id}-options` }
+                role="listbox"
+            >
+                { filteredOptions.map(({ label, value: optionValue }) =>
+                    <li
+                        aria-selected={ value.indexOf(optionValue) !== -1 }
+                        className="form-multiSelect-option"
+                        key={ optionValue }
+                        role="option"
+                    >
+                        <CheckboxInput
+                            checked={ value.indexOf(optionValue) !== -1 }
+                            id={ `${id}-${optionValue}` }
+                            label={ label }
+                            name={ name }
+                            onChange={ handleOptionChange }
+                            testId={ `${id}-${optionValue}-checkbox` }
+                            value={ optionValue }
+                        />
+                    </li>
+                ) }
+            </ul> :
+            <p className="form-multiSelect-empty optimizedCheckout-contentSecondary">
+                <TranslatedString id="common.no_matches_text" />
+            </p> }
+    </div>;
+};
+
+export default MultiSelectInput;
@@ -6,7 +6,7 @@ import Input, { InputProps } from './Input';
 export interface TextInputProps extends InputProps {
     additionalClassName?: string;
     appearFocused?: boolean;
-    type?: 'text' | 'password' | 'tel' | 'email' | 'number';
+    type?: 'text' | 'password' | 'tel' | 'email' | 'number' | 'url' | 'color';
 }
 
 const TextInput = forwardRef((
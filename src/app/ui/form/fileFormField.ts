@@ -0,0 +1,21 @@
+import { FormField } from '@bigcommerce/checkout-sdk';
+
+export type FileFormFieldOptions = NonNullable<FormField['options']> & {
+    /**
+     * The file types accepted by the field, in the same format as the
+     * `accept` attribute of a file input, i.e.: ".pdf, image/*".
+     */
+    accept?: string;
+};
+
+/**
+ * A form field whose options can also restrict the types of the file
+ * attached to it, if it is a file field.
+ */
+export interface FileFormField extends FormField {
+    options?: FileFormFieldOptions;
+}
+
+export function getFileFormFieldAccept({ options }: FileFormField): string | undefined {
+    return options && typeof options.accept === 'string' ? options.accept : undefined;
+}
@@ -0,0 +1,107 @@
+import { FormField } from '@bigcommerce/checkout-sdk';
+
+import { getFormFieldRuleValues, isFormFieldRequired, isFormFieldVisible, FormFieldWithRules } from './formFieldRules';
+
+describe('formFieldRules', () => {
+    let field: FormFieldWithRules;
+
+    beforeEach(() => {
+        field = {
+            custom: true,
+            id: 'field_1',
+            label: 'PO Number',
+            name: 'field_1',
+            required: false,
+        };
+    });
+
+    describe('isFormFieldVisible()', () => {
+        it('returns true if field has no rules', () => {
+            expect(isFormFieldVisible(field)).toEqual(true);
+        });
+
+        it('returns true if field depends on field that is filled', () => {
+            field.rules = { visibleWhen: [{ field: 'company', filled: true }] };
+
+            expect(isFormFieldVisible(field, { company: 'Bigcommerce' })).toEqual(true);
+            expect(isFormFieldVisible(field, { company: '' })).toEqual(false);
+            expect(isFormFieldVisible(field)).toEqual(false);
+        });
+
+        it('returns true if field depends on field that is empty', () => {
+            field.rules = { visibleWhen: [{ field: 'company', filled: false }] };
+
+            expect(isFormFieldVisible(field, { company: '' })).toEqual(true);
+            expect(isFormFieldVisible(field, { company: 'Bigcommerce' })).toEqual(false);
+        });
+
+        it('evaluates conditions against custom fields', () => {
+            field.rules = { visibleWhen: [{ field: 'field_2', oneOf: ['1'] }] };
+
+            expect(isFormFieldVisible(field, { customFields: { field_2: '1' } })).toEqual(true);
+            expect(isFormFieldVisible(field, { customFields: { field_2: ['0', '1'] } })).toEqual(true);
+            expect(isFormFieldVisible(field, { customFields: { field_2: 1 } })).toEqual(true);
+            expect(isFormFieldVisible(field, { customFields: { field_2: '0' } })).toEqual(false);
+        });
+
+        it('returns true only if all conditions are met', () => {
+            field.rules = {
+                visibleWhen: [
+                    { field: 'company', filled: true },
+                    { field: 'countryCode', oneOf: ['BR', 'AR'] },
+                ],
+            };
+
+            expect(isFormFieldVisible(field, { company: 'Bigcommerce', countryCode: 'BR' })).toEqual(true);
+            expect(isFormFieldVisible(field, { company: 'Bigcommerce', countryCode: 'US' })).toEqual(false);
+            expect(isFormFieldVisible(field, { company: '', countryCode: 'BR' })).toEqual(false);
+        });
+    });
+
+    describe('isFormFieldRequired()', () => {
+        it('returns requirement of field if it has no rules', () => {
+            expect(isFormFieldRequired(field)).toEqual(false);
+            expect(isFormFieldRequired({ ...field, required: true } as FormField)).toEqual(true);
+        });
+
+        it('returns true if requirement conditions are met', () => {
+            field.rules = { requiredWhen: [{ field: 'countryCode', oneOf: ['BR'] }] };
+
+            expect(isFormFieldRequired(field, { countryCode: 'BR' })).toEqual(true);
+            expect(isFormFieldRequired(field, { countryCode: 'US' })).toEqual(false);
+        });
+
+        it('returns true if field is always required', () => {
+            field.required = true;
+            field.rules = { requiredWhen: [{ field: 'countryCode', oneOf: ['BR'] }] };
+
+            expect(isFormFieldRequired(field, { countryCode: 'US' })).toEqual(true);
+        });
+    });
+
+    describe('getFormFieldRuleValues()', () => {
+        const values = {
+            billingSameAsShipping: true,
+            shippingAddress: { company: 'Bigcommerce', customFields: { field_2: '1' } },
+        };
+
+        it('returns values of address of nested custom fields', () => {
+            expect(getFormFieldRuleValues(values, 'shippingAddress.customFields'))
+                .toEqual(values.shippingAddress);
+        });
+
+        it('returns values of address of nested fields', () => {
+            expect(getFormFieldRuleValues(values, 'shippingAddress'))
+                .toEqual(values.shippingAddress);
+        });
+
+        it('returns values of form if fields are not nested', () => {
+            expect(getFormFieldRuleValues(values, 'customFields')).toEqual(values);
+            expect(getFormFieldRuleValues(values)).toEqual(values);
+        });
+
+        it('returns empty values if form has no values', () => {
+            expect(getFormFieldRuleValues(undefined)).toEqual({});
+        });
+    });
+});
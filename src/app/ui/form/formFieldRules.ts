@@ -0,0 +1,107 @@
+import { FormField } from '@bigcommerce/checkout-sdk';
+import { get, isEmpty } from 'lodash';
+
+export interface FormFieldCondition {
+    /**
+     * The name of the field the condition depends on, i.e.: `company`,
+     * `countryCode` or the name of another custom field.
+     */
+    field: string;
+    filled?: boolean;
+    oneOf?: string[];
+}
+
+export interface FormFieldRules {
+    visibleWhen?: FormFieldCondition[];
+    requiredWhen?: FormFieldCondition[];
+}
+
+/**
+ * A form field with the rules configured for it attached, see
+ * `applyFormFieldRules`.
+ */
+export interface FormFieldWithRules extends FormField {
+    rules?: FormFieldRules;
+}
+
+export interface FormFieldRuleValues {
+    customFields?: { [name: string]: unknown };
+    [name: string]: unknown;
+}
+
+export function getFormFieldRules({ rules }: FormFieldWithRules): FormFieldRules | undefined {
+    return rules && !isEmpty(rules) ? rules : undefined;
+}
+
+/**
+ * Returns true unless the field has visibility conditions that are not met
+ * by the current values of the form.
+ */
+export function isFormFieldVisible(field: FormFieldWithRules, values: FormFieldRuleValues = {}): boolean {
+    const rules = getFormFieldRules(field);
+
+    return !rules || !rules.visibleWhen || areFormFieldConditionsMet(rules.visibleWhen, values);
+}
+
+/**
+ * Returns true if the field is always required, or if it has requirement
+ * conditions that are met by the current values of the form.
+ */
+export function isFormFieldRequired(field: FormFieldWithRules, values: FormFieldRuleValues = {}): boolean {
+    const rules = getFormFieldRules(field);
+
+    if (field.required || !rules || !rules.requiredWhen) {
+        return field.required;
+    }
+
+    return areFormFieldConditionsMet(rules.requiredWhen, values);
+}
+
+/**
+ * Returns the values the conditions of a field are evaluated against. Custom
+ * fields are nested under `customFields` of the address or customer they
+ * belong to, i.e.: `shippingAddress.customFields`, so both kinds of fields
+ * resolve to the same values.
+ */
+export function getFormFieldRuleValues(formValues: unknown, parentFieldName?: string): FormFieldRuleValues {
+    const path = (parentFieldName || '')
+        .split('.')
+        .filter(key => key && key !== 'customFields');
+    const values = path.length ? get(formValues, path) : formValues;
+
+    return typeof values === 'object' && values !== null ? values as FormFieldRuleValues : {};
+}
+
+function areFormFieldConditionsMet(conditions: FormFieldCondition[], values: FormFieldRuleValues): boolean {
+    return conditions.every(condition => isFormFieldConditionMet(condition, values));
+}
+
+function isFormFieldConditionMet({ field, filled, oneOf }: FormFieldCondition, values: FormFieldRuleValues): boolean {
+    const value = values[field] !== undefined ?
+        values[field] :
+        values.customFields && values.customFields[field];
+
+    if (filled !== undefined && isFilled(value) !== filled) {
+        return false;
+    }
+
+    if (oneOf) {
+        const selectedValues = Array.isArray(value) ? value : [value];
+
+        return selectedValues.some(selectedValue => oneOf.indexOf(String(selectedValue)) > -1);
+    }
+
+    return true;
+}
+
+function isFilled(value: unknown): boolean {
+    if (typeof value === 'number') {
+        return !isNaN(value);
+    }
+
+    if (typeof value === 'string' || Array.isArray(value)) {
+        return value.length > 0;
+    }
+
+    return !!value;
+}
@@ -20,3 +20,16 @@ export { default as Legend, LegendProps } from './Legend';
 export { default as ChecklistItemInput, ChecklistItemInputProps } from './ChecklistItemInput';
 export { default as DynamicFormField } from './DynamicFormField';
 export { default as DynamicFormFieldType } from './DynamicFormFieldType';
+export { default as FileInput, FileInputProps, FileInputValue, isFileInputValue } from './FileInput';
+export { getFileFormFieldAccept, FileFormField, FileFormFieldOptions } from './fileFormField';
+export { default as MultiSelectInput, MultiSelectInputProps } from './MultiSelectInput';
+export {
+    getFormFieldRuleValues,
+    getFormFieldRules,
+    isFormFieldRequired,
+    isFormFieldVisible,
+    FormFieldCondition,
+    FormFieldRules,
+    FormFieldRuleValues,
+    FormFieldWithRules,
+} from './formFieldRules';
@@ -1,7 +1,11 @@
+import { createCheckoutService } from '@bigcommerce/checkout-sdk';
 import { mount, shallow } from 'enzyme';
 import React from 'react';
 import ReactModal from 'react-modal';
 
+import { LocaleProvider, TranslatedString } from '../../locale';
+import { initializeRightToLeftLanguageService } from '../../locale/localeContext.mock';
+
 import Modal, { ModalProps } from './Modal';
 import ModalHeader from './ModalHeader';
 
@@ -96,4 +100,30 @@ describe('Modal', () => {
         expect(component.find('[data-test="modal-footer"]').text())
             .toEqual('Header');
     });
+
+    it('matches snapshot in right-to-left locale', () => {
+        initializeRightToLeftLanguageService();
+
+        const component = mount(
+            <LocaleProvider checkoutService={ createCheckoutService() }>
+                <Modal
+                    { ...defaultProps }
+                    footer={ <TranslatedString id="common.ok_action" /> }
+                    header={ <ModalHeader><TranslatedString id="common.error_heading" /></ModalHeader> }
+                    shouldShowCloseButton={ true }
+                >
+                    <TranslatedString id="common.leave_warning" />
+                </Modal>
+            </LocaleProvider>
+        );
+
+        // The modal is rendered outside of the app, so it is only mirrored by
+        // the styles for the direction set on the document.
+        expect(document.documentElement.dir)
+            .toEqual('rtl');
+        expect(component.find('.modal').getDOMNode().closest('[dir="rtl"]'))
+            .toBe(document.documentElement);
+        expect(component.find('.modal').html())
+            .toMatchSnapshot();
+    });
 });
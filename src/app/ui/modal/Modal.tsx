@@ -5,6 +5,7 @@ import ReactModal from 'react-modal';
 import { Omit } from 'utility-types';
 
 import { preventDefault } from '../../common/dom';
+import { TranslatedString } from '../../locale';
 import { IconClose } from '../icon';
 
 export type ModalProps = Omit<
@@ -23,7 +24,7 @@ export type ModalProps = Omit<
 
 const Modal: FunctionComponent<ModalProps> = ({
     children,
-    closeButtonLabel = 'Close',
+    closeButtonLabel = <TranslatedString id="common.close_action" />,
     footer,
     header,
     additionalHeaderClassName,
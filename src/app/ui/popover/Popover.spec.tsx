@@ -1,8 +1,9 @@
-import { shallow } from 'enzyme';
+import { render, shallow } from 'enzyme';
 import toJson from 'enzyme-to-json';
 import React from 'react';
 
 import Popover from './Popover';
+import PopoverList from './PopoverList';
 
 describe('Popover Component', () => {
     it('renders with whatever child is passed', () => {
@@ -10,4 +11,22 @@ describe('Popover Component', () => {
 
         expect(toJson(tree)).toMatchSnapshot();
     });
+
+    it('matches snapshot in right-to-left locale', () => {
+        const tree = render(
+            <div dir="rtl">
+                <Popover>
+                    <PopoverList
+                        highlightedIndex={ 0 }
+                        items={ [
+                            { id: '1', content: 'شارع الملك فهد، الرياض' },
+                            { id: '2', content: 'שדרות רוטשילד, תל אביב' },
+                        ] }
+                    />
+                </Popover>
+            </div>
+        );
+
+        expect(tree).toMatchSnapshot();
+    });
 });